@@ -0,0 +1,39 @@
+-- Migration 015: Paper full-text storage
+-- Description: Store text extracted from paper PDFs (section-ordered) for AI analysis and embeddings
+
+CREATE TABLE IF NOT EXISTS paper_full_texts (
+  paper_id UUID PRIMARY KEY REFERENCES papers(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  sections JSONB NOT NULL DEFAULT '[]', -- [{ heading, kind, page, start, end }]
+  pages JSONB NOT NULL DEFAULT '[]',    -- [{ pageNumber, start, end }]
+  page_count INTEGER NOT NULL DEFAULT 0,
+  char_count INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'empty', 'encrypted', 'failed')),
+  source VARCHAR(20) NOT NULL DEFAULT 'upload' CHECK (source IN ('upload', 'zotero', 'manual')),
+  error_message TEXT,
+  extracted_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_full_texts_status ON paper_full_texts(status);
+
+CREATE TRIGGER update_paper_full_texts_updated_at
+  BEFORE UPDATE ON paper_full_texts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: full text follows ownership of the parent paper (see 014_papers_rls_multi_user.sql)
+ALTER TABLE paper_full_texts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "paper_full_texts_select_own" ON paper_full_texts;
+DROP POLICY IF EXISTS "paper_full_texts_modify_own" ON paper_full_texts;
+
+CREATE POLICY "paper_full_texts_select_own"
+  ON paper_full_texts FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM papers p WHERE p.id = paper_id AND p.created_by = auth.uid()));
+
+CREATE POLICY "paper_full_texts_modify_own"
+  ON paper_full_texts FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM papers p WHERE p.id = paper_id AND p.created_by = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM papers p WHERE p.id = paper_id AND p.created_by = auth.uid()));
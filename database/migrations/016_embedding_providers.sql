@@ -0,0 +1,53 @@
+-- Migration 016: Pluggable embedding providers
+-- Description: Record which provider/model/dimension produced each vector and allow vectors of any dimension
+
+-- Rows embedded before providers were pluggable all came from OpenAI text-embedding-3-small
+UPDATE documents
+SET metadata = metadata || jsonb_build_object(
+  'embedding_provider', 'openai',
+  'embedding_model', 'text-embedding-3-small',
+  'embedding_dimension', 1536
+)
+WHERE NOT metadata ? 'embedding_provider';
+
+-- IVFFlat indexes need a fixed dimension; search falls back to an exact scan,
+-- which is fast enough for a personal library
+DROP INDEX IF EXISTS documents_embedding_idx;
+
+ALTER TABLE documents ALTER COLUMN embedding TYPE VECTOR;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS embedding_provider TEXT GENERATED ALWAYS AS (metadata->>'embedding_provider') STORED,
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT GENERATED ALWAYS AS (metadata->>'embedding_model') STORED,
+  ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER GENERATED ALWAYS AS (vector_dims(embedding)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_embedding_space
+  ON documents(embedding_provider, embedding_model, embedding_dimension);
+
+-- Only compare vectors of the query's dimension; callers also filter on provider/model via metadata
+DROP FUNCTION IF EXISTS match_documents(VECTOR(1536), INT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding VECTOR,
+  match_count INT DEFAULT 10,
+  filter JSONB DEFAULT '{}'
+) RETURNS TABLE (
+  id BIGINT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+) LANGUAGE plpgsql AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    documents.id,
+    documents.content,
+    documents.metadata,
+    1 - (documents.embedding <=> query_embedding) AS similarity
+  FROM documents
+  WHERE documents.embedding_dimension = vector_dims(query_embedding)
+    AND documents.metadata @> filter
+  ORDER BY documents.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- Migration 017: Hybrid search
+-- Description: Weighted full-text ranking over paper fields, tags and notes, fused with vector similarity in the app
+
+-- Title outranks tags, tags outrank the abstract, notes/authors/journal count least.
+-- Runs with the caller's privileges so row level security still scopes papers and evaluations.
+CREATE OR REPLACE FUNCTION search_papers_lexical(
+  search_query TEXT,
+  limit_count INTEGER DEFAULT 200
+) RETURNS TABLE (
+  paper_id UUID,
+  rank_score REAL
+) LANGUAGE sql STABLE AS $$
+  WITH paper_documents AS (
+    SELECT
+      p.id,
+      p.last_modified,
+      setweight(to_tsvector('english', COALESCE(p.title, '')), 'A') ||
+      setweight(to_tsvector('english', COALESCE(string_agg(array_to_string(ue.tags, ' '), ' '), '')), 'B') ||
+      setweight(to_tsvector('english', COALESCE(p.abstract, '')), 'C') ||
+      setweight(to_tsvector('english',
+        COALESCE(string_agg(ue.notes, ' '), '') || ' ' ||
+        COALESCE(array_to_string(p.authors, ' '), '') || ' ' ||
+        COALESCE(p.journal, '')
+      ), 'D') AS document
+    FROM papers p
+    LEFT JOIN user_evaluations ue ON ue.paper_id = p.id
+    GROUP BY p.id
+  ),
+  search AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsquery
+  )
+  SELECT d.id, ts_rank(d.document, q.tsquery) AS rank_score
+  FROM paper_documents d, search q
+  WHERE d.document @@ q.tsquery
+  ORDER BY rank_score DESC, d.last_modified DESC
+  LIMIT limit_count;
+$$;
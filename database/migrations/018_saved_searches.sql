@@ -0,0 +1,92 @@
+-- Migration 018: Saved searches
+-- Description: Per-user saved searches (query, filters, sort) with alerts when newly added papers match
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  filters JSONB NOT NULL DEFAULT '{}',
+  sort_by VARCHAR(50) NOT NULL DEFAULT 'relevance',
+  notify_on_match BOOLEAN NOT NULL DEFAULT true,
+  last_matched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_notify ON saved_searches(user_id) WHERE notify_on_match;
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY saved_searches_user_policy ON saved_searches
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON saved_searches TO authenticated;
+
+-- Saved search alerts are a new notification type, enabled by default
+INSERT INTO notification_settings (user_id, type, enabled, delivery_method)
+SELECT u.id, 'saved_search_match', true, 'web'
+FROM auth.users u
+ON CONFLICT (user_id, type, delivery_method) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION create_default_notification_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_settings (user_id, type, enabled, delivery_method)
+  VALUES
+    (NEW.id, 'ai_analysis_complete', true, 'web'),
+    (NEW.id, 'ai_analysis_failed', true, 'web'),
+    (NEW.id, 'new_paper_added', true, 'web'),
+    (NEW.id, 'system_update', true, 'web'),
+    (NEW.id, 'security_alert', true, 'web'),
+    (NEW.id, 'backup_complete', false, 'web'),
+    (NEW.id, 'saved_search_match', true, 'web');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Lexical ranking can be restricted to given papers, so alerts only rank the new ones
+DROP FUNCTION IF EXISTS search_papers_lexical(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_papers_lexical(
+  search_query TEXT,
+  limit_count INTEGER DEFAULT 200,
+  filter_paper_ids UUID[] DEFAULT NULL
+) RETURNS TABLE (
+  paper_id UUID,
+  rank_score REAL
+) LANGUAGE sql STABLE AS $$
+  WITH paper_documents AS (
+    SELECT
+      p.id,
+      p.last_modified,
+      setweight(to_tsvector('english', COALESCE(p.title, '')), 'A') ||
+      setweight(to_tsvector('english', COALESCE(string_agg(array_to_string(ue.tags, ' '), ' '), '')), 'B') ||
+      setweight(to_tsvector('english', COALESCE(p.abstract, '')), 'C') ||
+      setweight(to_tsvector('english',
+        COALESCE(string_agg(ue.notes, ' '), '') || ' ' ||
+        COALESCE(array_to_string(p.authors, ' '), '') || ' ' ||
+        COALESCE(p.journal, '')
+      ), 'D') AS document
+    FROM papers p
+    LEFT JOIN user_evaluations ue ON ue.paper_id = p.id
+    WHERE filter_paper_ids IS NULL OR p.id = ANY(filter_paper_ids)
+    GROUP BY p.id
+  ),
+  search AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsquery
+  )
+  SELECT d.id, ts_rank(d.document, q.tsquery) AS rank_score
+  FROM paper_documents d, search q
+  WHERE d.document @@ q.tsquery
+  ORDER BY rank_score DESC, d.last_modified DESC
+  LIMIT limit_count;
+$$;
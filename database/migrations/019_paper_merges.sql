@@ -0,0 +1,26 @@
+-- Migration 019: Paper merges
+-- Description: Undo records for merging duplicate papers into a canonical paper
+
+CREATE TABLE IF NOT EXISTS paper_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  canonical_paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  merged_paper_ids UUID[] NOT NULL,
+  -- Zotero keys of the merged papers, so sync does not recreate them
+  merged_zotero_keys TEXT[] NOT NULL DEFAULT '{}',
+  -- Rows as they were before the merge and what it moved (see DedupeService MergeSnapshot)
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  undone_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_merges_user_id ON paper_merges(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_paper_merges_canonical ON paper_merges(canonical_paper_id);
+CREATE INDEX IF NOT EXISTS idx_paper_merges_zotero_keys ON paper_merges USING GIN (merged_zotero_keys) WHERE undone_at IS NULL;
+
+ALTER TABLE paper_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY paper_merges_user_policy ON paper_merges
+  FOR ALL USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON paper_merges TO authenticated;
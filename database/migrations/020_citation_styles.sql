@@ -0,0 +1,20 @@
+-- Migration 020: Citation styles
+-- Description: CSL style files uploaded by users for formatting citations and bibliographies
+
+CREATE TABLE IF NOT EXISTS citation_styles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Title from the style's <info>, shown in style menus
+  name VARCHAR(255) NOT NULL,
+  xml TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_citation_styles_user_id ON citation_styles(user_id);
+
+ALTER TABLE citation_styles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY citation_styles_user_policy ON citation_styles
+  FOR ALL USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON citation_styles TO authenticated;
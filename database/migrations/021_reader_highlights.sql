@@ -0,0 +1,51 @@
+-- Migration 021: Reader highlights
+-- Description: Text and comments of PDF reader highlights (user_evaluations.highlights) count in lexical search
+
+-- highlights is an object of highlight id -> { text, comment, page, quads, color, ... }
+CREATE OR REPLACE FUNCTION highlight_search_text(highlights JSONB)
+RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT string_agg(concat_ws(' ', h.value->>'text', h.value->>'comment'), ' ')
+  FROM jsonb_each(
+    CASE WHEN jsonb_typeof(highlights) = 'object' THEN highlights ELSE '{}'::jsonb END
+  ) AS h
+  WHERE jsonb_typeof(h.value) = 'object';
+$$;
+
+-- Highlighted passages and their comments rank with the abstract (C)
+CREATE OR REPLACE FUNCTION search_papers_lexical(
+  search_query TEXT,
+  limit_count INTEGER DEFAULT 200,
+  filter_paper_ids UUID[] DEFAULT NULL
+) RETURNS TABLE (
+  paper_id UUID,
+  rank_score REAL
+) LANGUAGE sql STABLE AS $$
+  WITH paper_documents AS (
+    SELECT
+      p.id,
+      p.last_modified,
+      setweight(to_tsvector('english', COALESCE(p.title, '')), 'A') ||
+      setweight(to_tsvector('english', COALESCE(string_agg(array_to_string(ue.tags, ' '), ' '), '')), 'B') ||
+      setweight(to_tsvector('english',
+        COALESCE(p.abstract, '') || ' ' ||
+        COALESCE(string_agg(highlight_search_text(ue.highlights), ' '), '')
+      ), 'C') ||
+      setweight(to_tsvector('english',
+        COALESCE(string_agg(ue.notes, ' '), '') || ' ' ||
+        COALESCE(array_to_string(p.authors, ' '), '') || ' ' ||
+        COALESCE(p.journal, '')
+      ), 'D') AS document
+    FROM papers p
+    LEFT JOIN user_evaluations ue ON ue.paper_id = p.id
+    WHERE filter_paper_ids IS NULL OR p.id = ANY(filter_paper_ids)
+    GROUP BY p.id
+  ),
+  search AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsquery
+  )
+  SELECT d.id, ts_rank(d.document, q.tsquery) AS rank_score
+  FROM paper_documents d, search q
+  WHERE d.document @@ q.tsquery
+  ORDER BY rank_score DESC, d.last_modified DESC
+  LIMIT limit_count;
+$$;
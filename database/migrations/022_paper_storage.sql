@@ -0,0 +1,33 @@
+-- Migration 022: Paper storage backends
+-- Description: PDFs can be stored on Google Drive, the server's disk or an S3-compatible bucket, chosen per user
+
+-- Backend holding the paper's PDF; pdf_path is its key there (year/journal/title/file.pdf)
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(20)
+  CHECK (storage_backend IN ('google_drive', 'local', 's3'));
+
+UPDATE papers SET storage_backend = 'google_drive'
+WHERE storage_backend IS NULL AND google_drive_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS user_storage_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Backend for new uploads
+  backend VARCHAR(20) NOT NULL DEFAULT 'google_drive'
+    CHECK (backend IN ('google_drive', 'local', 's3')),
+  -- Empty for AWS; the service URL for MinIO and other S3-compatible stores
+  s3_endpoint TEXT,
+  s3_region VARCHAR(64),
+  s3_bucket VARCHAR(255),
+  s3_access_key_id TEXT,
+  s3_secret_access_key_encrypted TEXT, -- AES-encrypted like user_api_keys.api_key_encrypted; never returned by the API
+  s3_force_path_style BOOLEAN,
+  s3_prefix TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE user_storage_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_storage_settings_user_policy ON user_storage_settings
+  FOR ALL USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON user_storage_settings TO authenticated;
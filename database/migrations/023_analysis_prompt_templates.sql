@@ -0,0 +1,57 @@
+-- Migration 023: Analysis prompt templates
+-- Description: User-defined analysis prompts with {{variables}}, versioned so stored analyses record the exact prompt they used
+
+CREATE TABLE IF NOT EXISTS analysis_prompt_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  -- Latest row in analysis_prompt_template_versions
+  current_version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Prompts are never edited in place; each change adds a version
+CREATE TABLE IF NOT EXISTS analysis_prompt_template_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES analysis_prompt_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  user_prompt TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_prompt_templates_user_id ON analysis_prompt_templates(user_id);
+
+ALTER TABLE analysis_prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_prompt_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY analysis_prompt_templates_user_policy ON analysis_prompt_templates
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY analysis_prompt_template_versions_user_policy ON analysis_prompt_template_versions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM analysis_prompt_templates t
+      WHERE t.id = template_id AND t.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON analysis_prompt_templates TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON analysis_prompt_template_versions TO authenticated;
+
+-- Analyses run with a template; NULL for the built-in structured analysis.
+-- Deleting a template deletes its analyses.
+ALTER TABLE ai_analyses ADD COLUMN IF NOT EXISTS template_id UUID
+  REFERENCES analysis_prompt_templates(id) ON DELETE CASCADE;
+ALTER TABLE ai_analyses ADD COLUMN IF NOT EXISTS template_version INTEGER;
+
+-- One analysis per model and template version, alongside the built-in one
+ALTER TABLE ai_analyses DROP CONSTRAINT IF EXISTS ai_analyses_paper_id_model_provider_model_name_key;
+ALTER TABLE ai_analyses ADD CONSTRAINT ai_analyses_paper_model_template_key
+  UNIQUE NULLS NOT DISTINCT (paper_id, model_provider, model_name, template_id, template_version);
+
+CREATE INDEX IF NOT EXISTS idx_ai_analyses_template ON ai_analyses(template_id, template_version)
+  WHERE template_id IS NOT NULL;
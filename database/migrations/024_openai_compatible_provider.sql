@@ -0,0 +1,15 @@
+-- Migration 024: Self-hosted OpenAI-compatible provider
+-- Description: Lets analyses run against a user's own model server (Ollama, vLLM, LM Studio) under the 'openai-compatible' provider
+
+ALTER TABLE ai_analyses DROP CONSTRAINT IF EXISTS ai_analyses_model_provider_check;
+ALTER TABLE ai_analyses ADD CONSTRAINT ai_analyses_model_provider_check
+  CHECK (model_provider IN ('openai', 'anthropic', 'xai', 'gemini', 'openai-compatible'));
+
+-- Server and model for the 'openai-compatible' provider. Its key is optional,
+-- so api_key_encrypted may hold an encrypted empty string.
+ALTER TABLE user_api_keys ADD COLUMN IF NOT EXISTS base_url TEXT;
+ALTER TABLE user_api_keys ADD COLUMN IF NOT EXISTS model_name VARCHAR(255);
+
+ALTER TABLE user_api_keys DROP CONSTRAINT IF EXISTS user_api_keys_base_url_check;
+ALTER TABLE user_api_keys ADD CONSTRAINT user_api_keys_base_url_check
+  CHECK (provider <> 'openai-compatible' OR base_url IS NOT NULL);
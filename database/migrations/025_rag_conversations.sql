@@ -0,0 +1,43 @@
+-- Migration 025: RAG conversations
+-- Description: Research chat conversations and their messages, stored per user so chats can be resumed
+
+CREATE TABLE IF NOT EXISTS rag_conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL until the first question, which becomes the title
+  title VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS rag_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  conversation_id UUID NOT NULL REFERENCES rag_conversations(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Papers an answer was based on, in source order. Not a foreign key:
+  -- deleting a paper leaves the message, and the paper is skipped on load.
+  source_paper_ids UUID[] NOT NULL DEFAULT '{}',
+  confidence REAL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_conversations_user_updated ON rag_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rag_messages_conversation ON rag_messages(conversation_id, created_at);
+
+ALTER TABLE rag_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rag_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY rag_conversations_user_policy ON rag_conversations
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY rag_messages_user_policy ON rag_messages
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM rag_conversations c
+      WHERE c.id = conversation_id AND c.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON rag_conversations TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON rag_messages TO authenticated;
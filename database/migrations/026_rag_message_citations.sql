@@ -0,0 +1,8 @@
+-- Migration 026: RAG message citations
+-- Description: The excerpts an answer's [n] markers cite, and the claims no excerpt supports
+
+ALTER TABLE rag_messages
+  -- [{ marker, paperId, excerpt, start, end, page, sectionHeading }]
+  ADD COLUMN IF NOT EXISTS citations JSONB,
+  -- [{ text, start, end, markers, reason }]
+  ADD COLUMN IF NOT EXISTS unsupported_claims JSONB;
@@ -0,0 +1,33 @@
+-- Migration 027: Scoped RAG search
+-- Description: match_documents can be limited to a list of papers via a `paper_ids` filter key,
+-- so questions can be asked about one paper or a hand-picked set
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding VECTOR,
+  match_count INT DEFAULT 10,
+  filter JSONB DEFAULT '{}'
+) RETURNS TABLE (
+  id BIGINT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+) LANGUAGE plpgsql AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    documents.id,
+    documents.content,
+    documents.metadata,
+    1 - (documents.embedding <=> query_embedding) AS similarity
+  FROM documents
+  WHERE documents.embedding_dimension = vector_dims(query_embedding)
+    -- paper_ids is a list to match any of, not a value to contain
+    AND documents.metadata @> (filter - 'paper_ids')
+    AND (
+      NOT filter ? 'paper_ids'
+      OR documents.metadata->>'paper_id' IN (SELECT jsonb_array_elements_text(filter->'paper_ids'))
+    )
+  ORDER BY documents.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,120 @@
+-- Migration 028: Collections
+-- Description: Nested, ordered folders for organizing papers; a paper can be in any number of them
+
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for top-level collections; deleting a collection deletes its subcollections
+  parent_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  -- Order among collections with the same parent
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Key of the Zotero collection this one was imported from
+  zotero_key VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, zotero_key),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE TABLE IF NOT EXISTS collection_papers (
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  -- Order of the paper within the collection
+  position INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (collection_id, paper_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_user_parent ON collections(user_id, parent_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_papers_paper ON collection_papers(paper_id);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_papers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "collections_select_own" ON collections;
+DROP POLICY IF EXISTS "collections_insert_own" ON collections;
+DROP POLICY IF EXISTS "collections_update_own" ON collections;
+DROP POLICY IF EXISTS "collections_delete_own" ON collections;
+
+CREATE POLICY "collections_select_own"
+  ON collections FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- A subcollection must be placed under one of the user's own collections
+CREATE POLICY "collections_insert_own"
+  ON collections FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (parent_id IS NULL OR EXISTS (
+      SELECT 1 FROM collections parent
+      WHERE parent.id = parent_id AND parent.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "collections_update_own"
+  ON collections FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (parent_id IS NULL OR EXISTS (
+      SELECT 1 FROM collections parent
+      WHERE parent.id = parent_id AND parent.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "collections_delete_own"
+  ON collections FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "collection_papers_select_own" ON collection_papers;
+DROP POLICY IF EXISTS "collection_papers_insert_own" ON collection_papers;
+DROP POLICY IF EXISTS "collection_papers_update_own" ON collection_papers;
+DROP POLICY IF EXISTS "collection_papers_delete_own" ON collection_papers;
+
+-- Memberships follow their collection's owner
+CREATE POLICY "collection_papers_select_own"
+  ON collection_papers FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = collection_id AND c.user_id = auth.uid()
+  ));
+
+-- Only the user's own papers can be added to their collections
+CREATE POLICY "collection_papers_insert_own"
+  ON collection_papers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM collections c
+      WHERE c.id = collection_id AND c.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM papers p
+      WHERE p.id = paper_id AND p.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "collection_papers_update_own"
+  ON collection_papers FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = collection_id AND c.user_id = auth.uid()
+  ));
+
+CREATE POLICY "collection_papers_delete_own"
+  ON collection_papers FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = collection_id AND c.user_id = auth.uid()
+  ));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON collections TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON collection_papers TO authenticated;
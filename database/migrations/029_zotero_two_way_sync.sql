@@ -0,0 +1,67 @@
+-- Migration 029: Two-way Zotero sync
+-- Description: Track what was last synced with Zotero so evaluation changes can be pushed back, and record conflicting edits
+
+-- Version of the Zotero item as of the last sync, sent back with every write
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS zotero_version INTEGER;
+
+-- Tags, notes and rating as they were after the last sync, with the key and
+-- version of the Zotero note the notes are written to
+ALTER TABLE user_evaluations ADD COLUMN IF NOT EXISTS zotero_sync_state JSONB;
+
+-- A field edited both here and in Zotero since the last sync, waiting for the user to pick a side
+CREATE TABLE IF NOT EXISTS zotero_sync_conflicts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  field VARCHAR(20) NOT NULL CHECK (field IN ('tags', 'notes', 'rating')),
+  local_value JSONB,
+  remote_value JSONB,
+  -- Version of the Zotero item the remote value was read from
+  remote_version INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (paper_id, field)
+);
+
+CREATE INDEX IF NOT EXISTS idx_zotero_sync_conflicts_created ON zotero_sync_conflicts(created_at DESC);
+
+ALTER TABLE zotero_sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "zotero_sync_conflicts_select_own" ON zotero_sync_conflicts;
+DROP POLICY IF EXISTS "zotero_sync_conflicts_insert_own" ON zotero_sync_conflicts;
+DROP POLICY IF EXISTS "zotero_sync_conflicts_update_own" ON zotero_sync_conflicts;
+DROP POLICY IF EXISTS "zotero_sync_conflicts_delete_own" ON zotero_sync_conflicts;
+
+-- Conflicts follow their paper's owner
+CREATE POLICY "zotero_sync_conflicts_select_own"
+  ON zotero_sync_conflicts FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM papers p
+    WHERE p.id = paper_id AND p.created_by = auth.uid()
+  ));
+
+CREATE POLICY "zotero_sync_conflicts_insert_own"
+  ON zotero_sync_conflicts FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM papers p
+    WHERE p.id = paper_id AND p.created_by = auth.uid()
+  ));
+
+CREATE POLICY "zotero_sync_conflicts_update_own"
+  ON zotero_sync_conflicts FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM papers p
+    WHERE p.id = paper_id AND p.created_by = auth.uid()
+  ));
+
+CREATE POLICY "zotero_sync_conflicts_delete_own"
+  ON zotero_sync_conflicts FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM papers p
+    WHERE p.id = paper_id AND p.created_by = auth.uid()
+  ));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON zotero_sync_conflicts TO authenticated;
@@ -0,0 +1,9 @@
+-- Migration 030: Paper archiving
+-- Description: Soft-delete papers whose Zotero items were deleted or trashed, so an admin can restore them
+
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS archive_reason VARCHAR(30)
+  CHECK (archive_reason IN ('zotero_deleted', 'zotero_trashed'));
+
+-- Archived papers are few; the library queries filter on archived_at IS NULL
+CREATE INDEX IF NOT EXISTS idx_papers_archived_at ON papers(archived_at DESC) WHERE archived_at IS NOT NULL;
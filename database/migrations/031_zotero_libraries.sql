@@ -0,0 +1,117 @@
+-- Migration 031: Several Zotero libraries per user
+-- Description: Subscribe to a personal library and any number of group libraries, remember each paper's source library, and track the PDF attachment downloaded from Zotero
+
+-- Zotero libraries a user syncs. The API key stays in user_zotero_settings.
+CREATE TABLE IF NOT EXISTS user_zotero_libraries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  library_type VARCHAR(10) NOT NULL CHECK (library_type IN ('user', 'group')),
+  -- Zotero user ID of a personal library, group ID of a group library
+  library_id VARCHAR(50) NOT NULL,
+  name VARCHAR(255),
+  -- Library version the last sync reached; 0 before the first sync
+  last_sync_version INTEGER NOT NULL DEFAULT 0,
+  last_sync_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, library_type, library_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_zotero_libraries_user ON user_zotero_libraries(user_id);
+
+DROP TRIGGER IF EXISTS update_user_zotero_libraries_updated_at ON user_zotero_libraries;
+CREATE TRIGGER update_user_zotero_libraries_updated_at
+    BEFORE UPDATE ON user_zotero_libraries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE user_zotero_libraries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "user_zotero_libraries_select_own" ON user_zotero_libraries;
+DROP POLICY IF EXISTS "user_zotero_libraries_insert_own" ON user_zotero_libraries;
+DROP POLICY IF EXISTS "user_zotero_libraries_update_own" ON user_zotero_libraries;
+DROP POLICY IF EXISTS "user_zotero_libraries_delete_own" ON user_zotero_libraries;
+
+CREATE POLICY "user_zotero_libraries_select_own"
+  ON user_zotero_libraries FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "user_zotero_libraries_insert_own"
+  ON user_zotero_libraries FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "user_zotero_libraries_update_own"
+  ON user_zotero_libraries FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "user_zotero_libraries_delete_own"
+  ON user_zotero_libraries FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON user_zotero_libraries TO authenticated;
+
+-- Connecting a Zotero account subscribes to the library it was connected
+-- with, and drops the personal library of a previously connected account
+CREATE OR REPLACE FUNCTION subscribe_connected_zotero_library()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_active AND NEW.user_id IS NOT NULL THEN
+    DELETE FROM user_zotero_libraries
+    WHERE user_id = NEW.user_id
+      AND library_type = 'user'
+      AND library_id <> NEW.user_id_zotero;
+
+    INSERT INTO user_zotero_libraries (user_id, library_type, library_id)
+    VALUES (NEW.user_id, 'user', NEW.user_id_zotero)
+    ON CONFLICT (user_id, library_type, library_id) DO NOTHING;
+
+    IF NEW.library_type = 'group' AND NEW.library_id IS NOT NULL THEN
+      INSERT INTO user_zotero_libraries (user_id, library_type, library_id)
+      VALUES (NEW.user_id, 'group', NEW.library_id)
+      ON CONFLICT (user_id, library_type, library_id) DO NOTHING;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS subscribe_connected_zotero_library ON user_zotero_settings;
+CREATE TRIGGER subscribe_connected_zotero_library
+    AFTER INSERT ON user_zotero_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION subscribe_connected_zotero_library();
+
+-- Subscribe existing connections to the libraries they were set up with
+INSERT INTO user_zotero_libraries (user_id, library_type, library_id)
+SELECT user_id, 'user', user_id_zotero
+FROM user_zotero_settings
+WHERE is_active AND user_id IS NOT NULL
+ON CONFLICT (user_id, library_type, library_id) DO NOTHING;
+
+INSERT INTO user_zotero_libraries (user_id, library_type, library_id)
+SELECT user_id, 'group', library_id
+FROM user_zotero_settings
+WHERE is_active AND user_id IS NOT NULL AND library_type = 'group' AND library_id IS NOT NULL
+ON CONFLICT (user_id, library_type, library_id) DO NOTHING;
+
+-- The library a paper was synced from, as its Zotero API path: 'users/<id>' or
+-- 'groups/<id>'. Item keys are only unique within a library. NULL for papers
+-- synced before libraries were tracked; the next sync of their library claims them.
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS zotero_library VARCHAR(60);
+
+-- The Zotero PDF attachment the paper's file was downloaded from, and its
+-- version, so unchanged attachments aren't downloaded again
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS zotero_attachment_key VARCHAR(20);
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS zotero_attachment_version INTEGER;
+
+-- A Zotero key is unique per user and library rather than globally, so the
+-- same item can be synced by several group members and keys may repeat
+-- across libraries
+ALTER TABLE papers DROP CONSTRAINT IF EXISTS papers_zotero_key_key;
+ALTER TABLE papers DROP CONSTRAINT IF EXISTS papers_zotero_library_key;
+ALTER TABLE papers ADD CONSTRAINT papers_zotero_library_key
+  UNIQUE (created_by, zotero_library, zotero_key);
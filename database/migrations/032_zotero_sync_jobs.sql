@@ -0,0 +1,30 @@
+-- Migration 032: Zotero sync as a background job
+-- Description: Keep each user's Zotero sync state and schedule in user_zotero_settings, and link it to the background job running the sync
+
+-- Cron pattern of scheduled syncs, e.g. '0 */6 * * *'. NULL syncs every
+-- sync_interval seconds while auto_sync is on.
+ALTER TABLE user_zotero_settings ADD COLUMN IF NOT EXISTS sync_schedule VARCHAR(100);
+
+-- The background job of the current or last sync. While sync_status is
+-- 'queued' or 'syncing' no other sync of the user is started.
+ALTER TABLE user_zotero_settings ADD COLUMN IF NOT EXISTS sync_job_id UUID
+  REFERENCES background_jobs(id) ON DELETE SET NULL;
+
+-- Why the last sync failed, and the totals of the last finished sync
+ALTER TABLE user_zotero_settings ADD COLUMN IF NOT EXISTS sync_error TEXT;
+ALTER TABLE user_zotero_settings ADD COLUMN IF NOT EXISTS last_sync_result JSONB;
+
+-- Scheduled syncs are registered for every user with auto sync on
+CREATE INDEX IF NOT EXISTS idx_user_zotero_settings_auto_sync
+  ON user_zotero_settings(user_id) WHERE is_active AND auto_sync;
+
+-- update_job_status() sets completed_at when a job fails too, which the
+-- original constraint rejected for every status but 'completed'
+ALTER TABLE background_jobs DROP CONSTRAINT IF EXISTS valid_completion_time;
+ALTER TABLE background_jobs ADD CONSTRAINT valid_completion_time CHECK (
+  (status = 'completed' AND completed_at IS NOT NULL) OR status != 'completed'
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_progress_job_created ON job_progress(job_id, created_at DESC);
+
+COMMENT ON COLUMN user_zotero_settings.sync_status IS 'inactive, queued, syncing, completed or failed';
@@ -0,0 +1,114 @@
+-- Migration 033: AI spending budgets
+-- Description: Record what AI analyses and RAG answers cost in USD, and stop a user's AI requests once one of their daily or monthly budgets is spent
+
+-- Cost of each AI request, as computed by the provider's service
+CREATE TABLE IF NOT EXISTS ai_spend (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  -- What the request was for: 'analysis' or 'rag'
+  source VARCHAR(20) NOT NULL CHECK (source IN ('analysis', 'rag')),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),
+  tokens_used INTEGER,
+  paper_id UUID REFERENCES papers(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_spend_user_created ON ai_spend(user_id, created_at DESC);
+
+-- Spending budgets. A budget without a provider covers all providers.
+CREATE TABLE IF NOT EXISTS ai_budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  provider VARCHAR(50),
+  period VARCHAR(10) NOT NULL CHECK (period IN ('daily', 'monthly')),
+  limit_usd NUMERIC(10, 2) NOT NULL CHECK (limit_usd > 0),
+  -- Percentages of the limit at which the user is warned, once per period
+  warning_thresholds INTEGER[] NOT NULL DEFAULT '{80,100}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- One budget per period for each provider and one across all providers
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_user_provider_period
+  ON ai_budgets(user_id, COALESCE(provider, ''), period);
+
+DROP TRIGGER IF EXISTS update_ai_budgets_updated_at ON ai_budgets;
+CREATE TRIGGER update_ai_budgets_updated_at
+    BEFORE UPDATE ON ai_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Warnings already sent, so each threshold warns once per budget period
+CREATE TABLE IF NOT EXISTS ai_budget_warnings (
+  budget_id UUID NOT NULL REFERENCES ai_budgets(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  threshold INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (budget_id, period_start, threshold)
+);
+
+ALTER TABLE ai_spend ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_budgets ENABLE ROW LEVEL SECURITY;
+-- Warnings are only written by the server
+ALTER TABLE ai_budget_warnings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "ai_spend_select_own" ON ai_spend;
+DROP POLICY IF EXISTS "ai_budgets_select_own" ON ai_budgets;
+DROP POLICY IF EXISTS "ai_budgets_insert_own" ON ai_budgets;
+DROP POLICY IF EXISTS "ai_budgets_update_own" ON ai_budgets;
+DROP POLICY IF EXISTS "ai_budgets_delete_own" ON ai_budgets;
+
+-- Spend is recorded by the server; users can only read theirs
+CREATE POLICY "ai_spend_select_own"
+  ON ai_spend FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "ai_budgets_select_own"
+  ON ai_budgets FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "ai_budgets_insert_own"
+  ON ai_budgets FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "ai_budgets_update_own"
+  ON ai_budgets FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "ai_budgets_delete_own"
+  ON ai_budgets FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+GRANT SELECT ON ai_spend TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON ai_budgets TO authenticated;
+
+-- Budget warnings are a new notification type, enabled by default
+INSERT INTO notification_settings (user_id, type, enabled, delivery_method)
+SELECT u.id, 'ai_budget_warning', true, 'web'
+FROM auth.users u
+ON CONFLICT (user_id, type, delivery_method) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION create_default_notification_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_settings (user_id, type, enabled, delivery_method)
+  VALUES
+    (NEW.id, 'ai_analysis_complete', true, 'web'),
+    (NEW.id, 'ai_analysis_failed', true, 'web'),
+    (NEW.id, 'new_paper_added', true, 'web'),
+    (NEW.id, 'system_update', true, 'web'),
+    (NEW.id, 'security_alert', true, 'web'),
+    (NEW.id, 'backup_complete', false, 'web'),
+    (NEW.id, 'saved_search_match', true, 'web'),
+    (NEW.id, 'ai_budget_warning', true, 'web');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
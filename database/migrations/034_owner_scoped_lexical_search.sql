@@ -0,0 +1,45 @@
+-- Migration 034: Owner-scoped lexical search
+-- Description: search_papers_lexical can rank one user's papers only, so server-side searches (bibliography exports) don't have to pass every paper id of the library
+
+DROP FUNCTION IF EXISTS search_papers_lexical(TEXT, INTEGER, UUID[]);
+
+-- A NULL limit_count ranks every match
+CREATE OR REPLACE FUNCTION search_papers_lexical(
+  search_query TEXT,
+  limit_count INTEGER DEFAULT 200,
+  filter_paper_ids UUID[] DEFAULT NULL,
+  filter_created_by UUID DEFAULT NULL
+) RETURNS TABLE (
+  paper_id UUID,
+  rank_score REAL
+) LANGUAGE sql STABLE AS $$
+  WITH paper_documents AS (
+    SELECT
+      p.id,
+      p.last_modified,
+      setweight(to_tsvector('english', COALESCE(p.title, '')), 'A') ||
+      setweight(to_tsvector('english', COALESCE(string_agg(array_to_string(ue.tags, ' '), ' '), '')), 'B') ||
+      setweight(to_tsvector('english',
+        COALESCE(p.abstract, '') || ' ' ||
+        COALESCE(string_agg(highlight_search_text(ue.highlights), ' '), '')
+      ), 'C') ||
+      setweight(to_tsvector('english',
+        COALESCE(string_agg(ue.notes, ' '), '') || ' ' ||
+        COALESCE(array_to_string(p.authors, ' '), '') || ' ' ||
+        COALESCE(p.journal, '')
+      ), 'D') AS document
+    FROM papers p
+    LEFT JOIN user_evaluations ue ON ue.paper_id = p.id
+    WHERE (filter_paper_ids IS NULL OR p.id = ANY(filter_paper_ids))
+      AND (filter_created_by IS NULL OR p.created_by = filter_created_by)
+    GROUP BY p.id
+  ),
+  search AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsquery
+  )
+  SELECT d.id, ts_rank(d.document, q.tsquery) AS rank_score
+  FROM paper_documents d, search q
+  WHERE d.document @@ q.tsquery
+  ORDER BY rank_score DESC, d.last_modified DESC
+  LIMIT limit_count;
+$$;
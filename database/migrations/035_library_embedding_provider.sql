@@ -0,0 +1,32 @@
+-- Migration 035: Library embedding provider
+-- Description: Store which embedding provider the library's vectors and queries use, instead of choosing one per request
+
+-- A single row: the provider every paper is embedded with and every query is compared in
+CREATE TABLE IF NOT EXISTS embedding_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  provider TEXT NOT NULL CHECK (provider IN ('openai', 'gemini', 'local')),
+  -- NULL uses the provider's default model and dimension
+  model TEXT,
+  dimensions INTEGER CHECK (dimensions > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_embedding_settings_updated_at ON embedding_settings;
+CREATE TRIGGER update_embedding_settings_updated_at
+    BEFORE UPDATE ON embedding_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep the vectors already stored: an existing library uses the provider most of its vectors came from
+INSERT INTO embedding_settings (provider, model, dimensions)
+SELECT embedding_provider, embedding_model, embedding_dimension
+FROM documents
+WHERE embedding_provider IN ('openai', 'gemini', 'local')
+GROUP BY embedding_provider, embedding_model, embedding_dimension
+ORDER BY count(*) DESC
+LIMIT 1
+ON CONFLICT (id) DO NOTHING;
+
+-- Only read and written by the server
+ALTER TABLE embedding_settings ENABLE ROW LEVEL SECURITY;
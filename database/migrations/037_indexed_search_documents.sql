@@ -0,0 +1,124 @@
+-- Migration 037: Indexed search documents
+-- Description: Papers and reader evaluations keep their weighted full-text document in a stored
+-- generated column with a GIN index, so search_papers_lexical looks matches up in the indexes
+-- instead of building a tsvector for every paper on each query. match_documents takes a
+-- `created_by` filter key, so semantic candidates can be limited to one user's papers.
+
+-- array_to_string is only STABLE; a text array always joins the same way
+CREATE OR REPLACE FUNCTION text_array_search_text(items TEXT[])
+RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT array_to_string(items, ' ');
+$$;
+
+-- Title (A), abstract (C), authors and journal (D)
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS search_document TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(abstract, '')), 'C') ||
+    setweight(to_tsvector('english',
+      COALESCE(text_array_search_text(authors), '') || ' ' ||
+      COALESCE(journal, '')
+    ), 'D')
+  ) STORED;
+
+-- Tags (B), highlighted passages and their comments (C), notes (D)
+ALTER TABLE user_evaluations ADD COLUMN IF NOT EXISTS search_document TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(text_array_search_text(tags), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(highlight_search_text(highlights), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(notes, '')), 'D')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_papers_search_document
+  ON papers USING GIN (search_document);
+
+CREATE INDEX IF NOT EXISTS idx_user_evaluations_search_document
+  ON user_evaluations USING GIN (search_document);
+
+-- Joins the documents of a paper's evaluations for ranking
+CREATE OR REPLACE AGGREGATE tsvector_agg(TSVECTOR) (
+  SFUNC = tsvector_concat,
+  STYPE = TSVECTOR,
+  INITCOND = ''
+);
+
+-- A paper matches when its own document or one of its evaluations matches the query.
+-- A NULL limit_count ranks every match.
+CREATE OR REPLACE FUNCTION search_papers_lexical(
+  search_query TEXT,
+  limit_count INTEGER DEFAULT 200,
+  filter_paper_ids UUID[] DEFAULT NULL,
+  filter_created_by UUID DEFAULT NULL
+) RETURNS TABLE (
+  paper_id UUID,
+  rank_score REAL
+) LANGUAGE sql STABLE AS $$
+  WITH search AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsquery
+  ),
+  matches AS (
+    SELECT p.id
+    FROM papers p, search q
+    WHERE p.search_document @@ q.tsquery
+    UNION
+    SELECT ue.paper_id
+    FROM user_evaluations ue, search q
+    WHERE ue.search_document @@ q.tsquery
+  ),
+  paper_documents AS (
+    SELECT
+      p.id,
+      p.last_modified,
+      p.search_document || COALESCE(tsvector_agg(ue.search_document), ''::TSVECTOR) AS document
+    FROM matches m
+    JOIN papers p ON p.id = m.id
+    LEFT JOIN user_evaluations ue ON ue.paper_id = p.id
+    WHERE p.archived_at IS NULL
+      AND (filter_paper_ids IS NULL OR p.id = ANY(filter_paper_ids))
+      AND (filter_created_by IS NULL OR p.created_by = filter_created_by)
+    GROUP BY p.id
+  )
+  SELECT d.id, ts_rank(d.document, q.tsquery) AS rank_score
+  FROM paper_documents d, search q
+  ORDER BY rank_score DESC, d.last_modified DESC
+  LIMIT limit_count;
+$$;
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding VECTOR,
+  match_count INT DEFAULT 10,
+  filter JSONB DEFAULT '{}'
+) RETURNS TABLE (
+  id BIGINT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+) LANGUAGE plpgsql AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    documents.id,
+    documents.content,
+    documents.metadata,
+    1 - (documents.embedding <=> query_embedding) AS similarity
+  FROM documents
+  WHERE documents.embedding_dimension = vector_dims(query_embedding)
+    -- paper_ids is a list to match any of and created_by is checked on the paper,
+    -- neither is a value the metadata contains
+    AND documents.metadata @> (filter - 'paper_ids' - 'created_by')
+    AND (
+      NOT filter ? 'paper_ids'
+      OR documents.metadata->>'paper_id' IN (SELECT jsonb_array_elements_text(filter->'paper_ids'))
+    )
+    AND (
+      NOT filter ? 'created_by'
+      OR EXISTS (
+        SELECT 1 FROM papers
+        WHERE papers.id::TEXT = documents.metadata->>'paper_id'
+          AND papers.created_by = (filter->>'created_by')::UUID
+      )
+    )
+  ORDER BY documents.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
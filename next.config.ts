@@ -12,6 +12,9 @@ const nextConfig: NextConfig = {
     // optimizePackageImports: ['@/components', '@/lib', '@/utils'],
   },
 
+  // pdfjs-dist loads its worker at runtime, so server code uses it unbundled
+  serverExternalPackages: ['pdfjs-dist'],
+
   // Image optimization
   images: {
     formats: ['image/webp', 'image/avif'],
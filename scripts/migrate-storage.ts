@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+
+/**
+ * Move a user's paper PDFs to another storage backend
+ *
+ * Usage:
+ * npm run storage:migrate -- <userId> <google_drive|local|s3> [--delete-source] [--paper <id>]...
+ *
+ * The target backend must already be configured for the user (S3 credentials,
+ * Google Drive connection). Papers keep their pdfPath; failed papers stay on
+ * their old backend and can be retried by running the script again.
+ */
+
+import { config } from 'dotenv'
+import { STORAGE_BACKENDS, type StorageBackendType } from '../src/services/storage/types'
+import { StorageMigrationService } from '../src/services/storage/StorageMigrationService'
+
+config()
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = []
+  const paperIds: string[] = []
+  let deleteSource = false
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--delete-source') {
+      deleteSource = true
+    } else if (argv[i] === '--paper') {
+      paperIds.push(argv[++i])
+    } else {
+      positional.push(argv[i])
+    }
+  }
+
+  const [userId, target] = positional
+  return { userId, target: target as StorageBackendType, deleteSource, paperIds }
+}
+
+async function main() {
+  const { userId, target, deleteSource, paperIds } = parseArgs(process.argv.slice(2))
+
+  if (!userId || !STORAGE_BACKENDS.includes(target)) {
+    console.error(`Usage: npm run storage:migrate -- <userId> <${STORAGE_BACKENDS.join('|')}> [--delete-source] [--paper <id>]...`)
+    process.exit(1)
+  }
+
+  console.log(`📦 Moving PDFs of user ${userId} to ${target}${deleteSource ? ' (deleting old copies)' : ''}`)
+
+  const result = await new StorageMigrationService().migrateUserFiles(userId, target, {
+    deleteSource,
+    paperIds: paperIds.length > 0 ? paperIds : undefined,
+    onProgress: (done, total) => process.stdout.write(`\r  ${done}/${total} papers`)
+  })
+  process.stdout.write('\n')
+
+  console.log(`✅ Migrated: ${result.migrated}`)
+  console.log(`⏭️  Already on ${target}: ${result.skipped}`)
+  for (const failure of result.failed) {
+    console.log(`❌ ${failure.title} (${failure.paperId}): ${failure.error}`)
+  }
+  for (const failure of result.sourceDeleteFailures) {
+    console.log(`⚠️  Old copy of ${failure.title} (${failure.paperId}) not deleted: ${failure.error}`)
+  }
+
+  process.exit(result.failed.length > 0 ? 1 : 0)
+}
+
+main().catch(error => {
+  console.error('❌ Storage migration failed:', error)
+  process.exit(1)
+})
@@ -1,7 +1,8 @@
 #!/usr/bin/env tsx
 
 /**
- * Background worker process for handling AI analysis jobs
+ * Background worker process for handling AI analysis, Zotero sync and saved
+ * search alert jobs
  * 
  * This script can be run as a separate process to handle background jobs:
  * npm run worker
@@ -11,10 +12,15 @@
  */
 
 import { AIAnalysisWorker } from '../src/services/background/AIAnalysisWorker'
+import { ZoteroSyncWorker } from '../src/services/background/ZoteroSyncWorker'
+import { ZoteroSyncQueue } from '../src/services/background/ZoteroSyncQueue'
+import { SavedSearchAlertWorker } from '../src/services/background/SavedSearchAlertWorker'
 import { getBackgroundJobConfig, validateBackgroundJobConfig } from '../src/services/background/config'
 
 class WorkerProcess {
   private worker: AIAnalysisWorker | null = null
+  private zoteroWorker: ZoteroSyncWorker | null = null
+  private alertWorker: SavedSearchAlertWorker | null = null
   private isShuttingDown = false
 
   async start(): Promise<void> {
@@ -30,16 +36,33 @@ class WorkerProcess {
       console.log(`  - Concurrency: ${config.worker.concurrency}`)
       console.log(`  - Max Attempts: ${config.queue.defaultJobOptions.attempts}`)
       console.log(`  - Retry Delay: ${config.queue.defaultJobOptions.backoff.delay}ms`)
+      console.log(`  - Zotero Sync Concurrency: ${config.zoteroSync.concurrency}`)
+      console.log(`  - Saved Search Alert Concurrency: ${config.savedSearchAlerts.concurrency}`)
       
-      // Initialize worker
+      // Initialize workers
       this.worker = new AIAnalysisWorker(config.redis.url)
+      this.zoteroWorker = new ZoteroSyncWorker(config.redis.url)
+      this.alertWorker = new SavedSearchAlertWorker(config.redis.url)
       
       // Check health
-      const isHealthy = await this.worker.isHealthy()
+      const isHealthy = await this.worker.isHealthy() &&
+        await this.zoteroWorker.isHealthy() &&
+        await this.alertWorker.isHealthy()
       if (!isHealthy) {
         throw new Error('Worker health check failed - check Redis connection')
       }
       
+      // Register the scheduled Zotero syncs of users with auto sync on
+      const zoteroSyncQueue = new ZoteroSyncQueue(config.redis.url)
+      try {
+        const scheduledUsers = await zoteroSyncQueue.reconcileSchedules()
+        console.log(`📅 Scheduled Zotero syncs for ${scheduledUsers} user(s)`)
+      } catch (error) {
+        console.error('Failed to schedule Zotero syncs:', error)
+      } finally {
+        await zoteroSyncQueue.close()
+      }
+      
       console.log('✅ Worker initialized successfully')
       console.log('🔄 Waiting for jobs...')
       
@@ -71,6 +94,12 @@ class WorkerProcess {
           await this.worker.close()
           console.log('✅ Worker shutdown complete')
         }
+        if (this.zoteroWorker) {
+          await this.zoteroWorker.close()
+        }
+        if (this.alertWorker) {
+          await this.alertWorker.close()
+        }
         process.exit(0)
       } catch (error) {
         console.error('❌ Error during shutdown:', error)
@@ -0,0 +1,8 @@
+'use client'
+
+import React from 'react'
+import { ArchivedPapersDashboard } from '@/components/admin/ArchivedPapersDashboard'
+
+export default function AdminArchivePage() {
+  return <ArchivedPapersDashboard />
+}
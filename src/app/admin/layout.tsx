@@ -17,7 +17,8 @@ import {
   HardDrive,
   Zap,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  Archive
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -73,6 +74,12 @@ const adminNavItems = [
     href: '/admin/cache',
     icon: Zap,
     description: 'Cache management'
+  },
+  {
+    title: 'Archive',
+    href: '/admin/archive',
+    icon: Archive,
+    description: 'Archived papers'
   }
 ]
 
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { PaperArchiveService } from '@/services/archive/PaperArchiveService'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/papers/[id]/restore - Put an archived paper back in its
+ * owner's library and embed it again (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const restored = await new PaperArchiveService(supabase).restorePaper(params.id)
+    if (!restored) {
+      return NextResponse.json({ error: 'Archived paper not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to restore paper:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to restore paper',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { PaperArchiveService } from '@/services/archive/PaperArchiveService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/papers/archived - Papers of all users archived because their
+ * Zotero item was deleted or trashed, most recent first (admin only)
+ * Query: limit (default 50, max 200), offset
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+
+    const { papers, total } = await new PaperArchiveService(supabase).listArchivedPapers(limit, offset)
+
+    return NextResponse.json({
+      success: true,
+      data: papers,
+      pagination: { total, limit, offset, hasMore: offset + papers.length < total }
+    })
+  } catch (error) {
+    console.error('Failed to load archived papers:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load archived papers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseClient } from '@/lib/database'
 import { TABLES } from '@/lib/database'
+import { readStructuredFields } from '@/services/ai/structuredAnalysis'
 
 interface AIAnalysisResult {
   id: string
   paperId: string
-  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini'
+  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
   modelName: string
   summary: string
   keywords: string[]
   scientificRelevance?: Record<string, unknown>
+  keyFindings?: string[]
+  methodology?: string
+  limitations?: string[]
+  significance?: string
   confidenceScore: number
   tokensUsed: number
   processingTimeMs: number
@@ -31,7 +36,7 @@ export async function GET(
     }
 
     // Validate provider
-    const validProviders = ['openai', 'anthropic', 'xai', 'gemini']
+    const validProviders = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
     if (!validProviders.includes(provider)) {
       return NextResponse.json(
         { error: `Invalid provider. Must be one of: ${validProviders.join(', ')}` },
@@ -46,6 +51,7 @@ export async function GET(
       .select('*')
       .eq('paper_id', paperId)
       .eq('model_provider', provider)
+      .is('template_id', null)
       .order('created_at', { ascending: false })
       .limit(1)
       .single()
@@ -69,11 +75,12 @@ export async function GET(
     const analysis: AIAnalysisResult = {
       id: data.id,
       paperId: data.paper_id,
-      modelProvider: data.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini',
+      modelProvider: data.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible',
       modelName: data.model_name,
       summary: data.summary || '',
       keywords: data.keywords || [],
       scientificRelevance: data.scientific_relevance,
+      ...readStructuredFields(data.scientific_relevance),
       confidenceScore: data.confidence_score || 0,
       tokensUsed: data.tokens_used || 0,
       processingTimeMs: data.processing_time_ms || 0,
@@ -109,7 +116,7 @@ export async function POST(
     }
 
     // Validate provider
-    const validProviders = ['openai', 'anthropic', 'xai', 'gemini']
+    const validProviders = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
     if (!validProviders.includes(provider)) {
       return NextResponse.json(
         { error: `Invalid provider. Must be one of: ${validProviders.join(', ')}` },
@@ -216,7 +223,7 @@ export async function DELETE(
     }
 
     // Validate provider
-    const validProviders = ['openai', 'anthropic', 'xai', 'gemini']
+    const validProviders = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
     if (!validProviders.includes(provider)) {
       return NextResponse.json(
         { error: `Invalid provider. Must be one of: ${validProviders.join(', ')}` },
@@ -1,15 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseClient } from '@/lib/database'
 import { TABLES } from '@/lib/database'
+import { readStructuredFields } from '@/services/ai/structuredAnalysis'
 
 interface AIAnalysisResult {
   id: string
   paperId: string
-  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini'
+  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
   modelName: string
   summary: string
   keywords: string[]
   scientificRelevance?: Record<string, unknown>
+  keyFindings?: string[]
+  methodology?: string
+  limitations?: string[]
+  significance?: string
+  templateId?: string
+  templateVersion?: number
   confidenceScore: number
   tokensUsed: number
   processingTimeMs: number
@@ -21,6 +28,7 @@ interface MultiModelAnalysis {
   anthropic?: AIAnalysisResult
   xai?: AIAnalysisResult
   gemini?: AIAnalysisResult
+  'openai-compatible'?: AIAnalysisResult
 }
 
 // Mock analysis data for demonstration
@@ -77,12 +85,16 @@ export async function GET(
       )
     }
 
+    // ?templateId= returns that prompt template's analyses instead of the built-in ones
+    const templateId = new URL(request.url).searchParams.get('templateId')
+
     // Fetch analyses from Supabase database
     const supabase = getSupabaseClient()
-    const { data, error: dbError } = await supabase
+    const query = supabase
       .from(TABLES.AI_ANALYSES)
       .select('*')
       .eq('paper_id', paperId)
+    const { data, error: dbError } = await (templateId ? query.eq('template_id', templateId) : query.is('template_id', null))
       .order('created_at', { ascending: false })
     
     if (dbError) {
@@ -101,11 +113,14 @@ export async function GET(
       const analysis: AIAnalysisResult = {
         id: row.id,
         paperId: row.paper_id,
-        modelProvider: row.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini',
+        modelProvider: row.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible',
         modelName: row.model_name,
         summary: row.summary || '',
         keywords: row.keywords || [],
         scientificRelevance: row.scientific_relevance,
+        ...readStructuredFields(row.scientific_relevance),
+        templateId: row.template_id || undefined,
+        templateVersion: row.template_version || undefined,
         confidenceScore: row.confidence_score || 0,
         tokensUsed: row.tokens_used || 0,
         processingTimeMs: row.processing_time_ms || 0,
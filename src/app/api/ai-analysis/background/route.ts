@@ -23,7 +23,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate providers
-    const validProviders: AIProvider[] = ['openai', 'anthropic', 'gemini', 'xai']
+    const validProviders: AIProvider[] = ['openai', 'anthropic', 'gemini', 'xai', 'openai-compatible']
     const invalidProviders = providers.filter(p => !validProviders.includes(p))
     
     if (invalidProviders.length > 0) {
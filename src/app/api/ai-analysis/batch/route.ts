@@ -2,12 +2,28 @@ import { NextRequest, NextResponse } from 'next/server';
 import { AIServiceFactory, AIProvider } from '@/services/ai/AIServiceFactory';
 import { MultiModelAnalyzer } from '@/services/ai/MultiModelAnalyzer';
 import { AnalysisStorageService } from '@/services/ai/AnalysisStorageService';
+import { PromptTemplateService } from '@/services/ai/PromptTemplateService';
+import {
+  OpenAICompatibleConfigError,
+  assertPublicBaseUrl,
+  type OpenAICompatibleEndpoint
+} from '@/services/ai/OpenAICompatibleService';
+import type { PromptTemplate, TemplateValues } from '@/services/ai/promptTemplates';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { getAuthenticatedUser } from '@/lib/auth-helpers';
+import { AIBudgetService, AIBudgetExceededError } from '@/services/usage/AIBudgetService';
 import { Paper, AIAnalysisResult } from '@/types';
 
 export interface BatchAnalysisRequest {
   papers: Paper[];
   providers: AIProvider[];
   apiKeys: Record<string, string>;
+  // Server for the 'openai-compatible' provider, whose key in apiKeys is optional
+  openaiCompatible?: Omit<OpenAICompatibleEndpoint, 'apiKey'>;
+  // Run one of the user's prompt templates instead of the structured analysis;
+  // the current version unless templateVersion is given
+  templateId?: string;
+  templateVersion?: number;
   options?: {
     maxConcurrency?: number;
     retryAttempts?: number;
@@ -29,14 +45,33 @@ export interface BatchAnalysisResponse {
     totalAnalyses: number;
     processingTimeMs: number;
   };
+  template?: {
+    id: string;
+    name: string;
+    version: number;
+  };
 }
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
+  // Analyses are charged to the signed-in user's budgets
+  const supabase = createServerSupabaseClient();
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    );
+  }
+
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body: BatchAnalysisRequest = await request.json();
-    const { papers, providers, apiKeys, options = {} } = body;
+    const { papers, providers, apiKeys = {}, openaiCompatible, templateId, templateVersion, options = {} } = body;
 
     // Validate request
     if (!papers || papers.length === 0) {
@@ -54,7 +89,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate API keys
-    const missingKeys = providers.filter(provider => !apiKeys[provider]);
+    const missingKeys = providers.filter(provider => provider !== 'openai-compatible' && !apiKeys[provider]);
     if (missingKeys.length > 0) {
       return NextResponse.json(
         { error: `Missing API keys for providers: ${missingKeys.join(', ')}` },
@@ -62,10 +97,70 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let endpoint = openaiCompatible;
+    if (providers.includes('openai-compatible')) {
+      if (!openaiCompatible?.baseUrl) {
+        return NextResponse.json(
+          { error: 'Missing base URL for provider: openai-compatible' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        endpoint = { ...openaiCompatible, baseUrl: assertPublicBaseUrl(openaiCompatible.baseUrl) };
+      } catch (error) {
+        if (error instanceof OpenAICompatibleConfigError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    // Providers whose budget is spent are left out, as in background analyses
+    const budgetService = new AIBudgetService(supabase);
+    const skippedProviders = new Map<AIProvider, string>();
+    for (const provider of providers) {
+      try {
+        await budgetService.assertWithinBudget(user.id, provider);
+      } catch (error) {
+        if (!(error instanceof AIBudgetExceededError)) {
+          throw error;
+        }
+        skippedProviders.set(provider, error.message);
+      }
+    }
+
+    if (skippedProviders.size === providers.length) {
+      return NextResponse.json(
+        { error: skippedProviders.values().next().value },
+        { status: 402 }
+      );
+    }
+    const activeProviders = providers.filter(provider => !skippedProviders.has(provider));
+
+    // Template runs need the user's template and their papers' text and notes
+    let template: PromptTemplate | null = null;
+    let templateService: PromptTemplateService | null = null;
+    let templateValues = new Map<string, TemplateValues>();
+
+    if (templateId) {
+      templateService = new PromptTemplateService(supabase);
+      template = await templateService.getTemplate(user.id, templateId, templateVersion);
+      if (!template) {
+        return NextResponse.json(
+          { error: 'Prompt template not found' },
+          { status: 404 }
+        );
+      }
+
+      templateValues = await templateService.getTemplateValues(user.id, papers.map(paper => paper.id));
+    }
+
     // Create AI services
-    const serviceConfigs = providers.map(provider => ({
+    const serviceConfigs = activeProviders.map(provider => ({
       provider,
-      apiKey: apiKeys[provider]
+      apiKey: apiKeys[provider],
+      ...(provider === 'openai-compatible' ? endpoint : {})
     }));
 
     const services = AIServiceFactory.createServices(serviceConfigs);
@@ -83,11 +178,41 @@ export async function POST(request: NextRequest) {
         const paperResult = {
           paperId: paper.id,
           analyses: {} as Record<string, AIAnalysisResult>,
-          errors: {} as Record<string, string>
+          errors: Object.fromEntries(skippedProviders) as Record<string, string>
         };
 
         try {
-          const analysis = await analyzer.analyzePaper(paper, providers);
+          if (template && templateService) {
+            const values = templateValues.get(paper.id);
+            if (!values) {
+              throw new Error('Paper not found');
+            }
+
+            const analysis = await analyzer.analyzePaperWithTemplate(paper.id, template, values, activeProviders);
+            await recordBatchSpend(budgetService, user.id, paper.id, activeProviders.map(provider => analysis[provider]));
+            for (const provider of activeProviders) {
+              const result = analysis[provider];
+              if (!result) {
+                paperResult.errors[provider] = 'Template analysis failed';
+                continue;
+              }
+
+              try {
+                await templateService.saveTemplateAnalysis({
+                  ...result,
+                  templateId: template.id,
+                  templateVersion: template.version
+                });
+                paperResult.analyses[provider] = result;
+              } catch (error) {
+                paperResult.errors[provider] = error instanceof Error ? error.message : 'Failed to store analysis';
+              }
+            }
+
+            return paperResult;
+          }
+
+          const analysis = await analyzer.analyzePaper(paper, activeProviders);
           
           // Store successful analyses
           const analysisResults: AIAnalysisResult[] = [];
@@ -98,6 +223,8 @@ export async function POST(request: NextRequest) {
             }
           }
 
+          await recordBatchSpend(budgetService, user.id, paper.id, analysisResults);
+
           // Store in database
           if (analysisResults.length > 0) {
             await AnalysisStorageService.storeMultipleResults(analysisResults);
@@ -106,7 +233,7 @@ export async function POST(request: NextRequest) {
         } catch (error) {
           // Handle paper-level errors
           const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
-          providers.forEach(provider => {
+          activeProviders.forEach(provider => {
             paperResult.errors[provider] = errorMessage;
           });
         }
@@ -150,7 +277,8 @@ export async function POST(request: NextRequest) {
     const response: BatchAnalysisResponse = {
       success: true,
       results,
-      summary
+      summary,
+      ...(template ? { template: { id: template.id, name: template.name, version: template.version } } : {})
     };
 
     return NextResponse.json(response);
@@ -174,6 +302,33 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Charge a paper's analyses to the signed-in user's AI budgets. Failures are
+ * logged, as the analyses are already made.
+ */
+async function recordBatchSpend(
+  budgetService: AIBudgetService,
+  userId: string,
+  paperId: string,
+  results: Array<{ modelProvider: AIProvider; tokensUsed: number; cost?: number } | undefined>
+): Promise<void> {
+  for (const result of results) {
+    if (!result) continue;
+
+    try {
+      await budgetService.recordSpend(userId, {
+        provider: result.modelProvider,
+        costUsd: result.cost ?? 0,
+        tokensUsed: result.tokensUsed,
+        source: 'analysis',
+        paperId
+      });
+    } catch (error) {
+      console.error(`Failed to record AI spend of ${result.modelProvider} for paper ${paperId}:`, error);
+    }
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
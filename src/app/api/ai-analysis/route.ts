@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { AIAnalysisResult } from '@/types'
+import { readStructuredFields } from '@/services/ai/structuredAnalysis'
 import { getSupabaseClient } from '@/lib/database'
 import { TABLES } from '@/lib/database'
 
@@ -85,11 +86,14 @@ export async function GET(request: NextRequest) {
       const analyses: AIAnalysisResult[] = (data || []).map(row => ({
         id: row.id,
         paperId: row.paper_id,
-        modelProvider: row.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini',
+        modelProvider: row.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible',
         modelName: row.model_name,
         summary: row.summary || '',
         keywords: row.keywords || [],
         scientificRelevance: row.scientific_relevance,
+        ...readStructuredFields(row.scientific_relevance),
+        templateId: row.template_id || undefined,
+        templateVersion: row.template_version || undefined,
         confidenceScore: row.confidence_score || 0,
         tokensUsed: row.tokens_used || 0,
         processingTimeMs: row.processing_time_ms || 0,
@@ -118,11 +122,14 @@ export async function GET(request: NextRequest) {
       const analyses: AIAnalysisResult[] = (data || []).map(row => ({
         id: row.id,
         paperId: row.paper_id,
-        modelProvider: row.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini',
+        modelProvider: row.model_provider as 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible',
         modelName: row.model_name,
         summary: row.summary || '',
         keywords: row.keywords || [],
         scientificRelevance: row.scientific_relevance,
+        ...readStructuredFields(row.scientific_relevance),
+        templateId: row.template_id || undefined,
+        templateVersion: row.template_version || undefined,
         confidenceScore: row.confidence_score || 0,
         tokensUsed: row.tokens_used || 0,
         processingTimeMs: row.processing_time_ms || 0,
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { PromptTemplateService } from '@/services/ai/PromptTemplateService'
+import { PromptTemplateError } from '@/services/ai/promptTemplates'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/ai-analysis/templates/[id] - A prompt template with every version, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const service = new PromptTemplateService(supabase)
+    const template = await service.getTemplate(user.id, params.id)
+    if (!template) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    const versions = await service.listVersions(user.id, params.id)
+
+    return NextResponse.json({ success: true, data: { ...template, versions: versions || [] } })
+  } catch (error) {
+    console.error('Failed to load prompt template:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load prompt template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/ai-analysis/templates/[id] - Update a prompt template
+ * Body: { name, description?, systemPrompt?, userPrompt }. Changed prompts
+ * become a new version; earlier analyses keep the version they ran with.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const template = await new PromptTemplateService(supabase).updateTemplate(user.id, params.id, {
+      name: body.name,
+      description: body.description,
+      systemPrompt: body.systemPrompt,
+      userPrompt: body.userPrompt
+    })
+    if (!template) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: template })
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: 'Invalid template', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to update prompt template:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update prompt template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/ai-analysis/templates/[id] - Delete a prompt template and the analyses made with it
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deleted = await new PromptTemplateService(supabase).deleteTemplate(user.id, params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete prompt template:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete prompt template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
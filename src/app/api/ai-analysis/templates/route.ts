@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { PromptTemplateService } from '@/services/ai/PromptTemplateService'
+import { PromptTemplateError } from '@/services/ai/promptTemplates'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/ai-analysis/templates - The user's analysis prompt templates at their current versions
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const templates = await new PromptTemplateService(supabase).listTemplates(user.id)
+
+    return NextResponse.json({ success: true, data: templates })
+  } catch (error) {
+    console.error('Failed to list prompt templates:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to list prompt templates',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/ai-analysis/templates - Create a prompt template
+ * Body: { name, description?, systemPrompt?, userPrompt }. Prompts may use
+ * {{title}}, {{abstract}}, {{fullText}} and {{notes}}.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const template = await new PromptTemplateService(supabase).createTemplate(user.id, {
+      name: body.name,
+      description: body.description,
+      systemPrompt: body.systemPrompt,
+      userPrompt: body.userPrompt
+    })
+
+    return NextResponse.json({ success: true, data: template }, { status: 201 })
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: 'Invalid template', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to save prompt template:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to save prompt template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -57,7 +57,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!['openai', 'anthropic', 'xai', 'gemini'].includes(service)) {
+    if (!['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible'].includes(service)) {
       return NextResponse.json(
         { error: 'Invalid service' },
         { status: 400 }
@@ -1,26 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AIServiceFactory } from '@/services/ai/AIServiceFactory'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { AIServiceFactory, type AIProvider } from '@/services/ai/AIServiceFactory'
+import {
+  OpenAICompatibleConfigError,
+  assertPublicBaseUrl,
+  listOpenAICompatibleModels
+} from '@/services/ai/OpenAICompatibleService'
 
 export async function POST(request: NextRequest) {
   try {
-    const { service, apiKey } = await request.json()
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { service, apiKey, baseUrl } = await request.json()
 
-    if (!service || !apiKey) {
+    if (!service) {
       return NextResponse.json(
         { error: 'Service and API key are required' },
         { status: 400 }
       )
     }
 
-    if (!['openai', 'anthropic', 'xai', 'gemini'].includes(service)) {
+    if (!['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible'].includes(service)) {
       return NextResponse.json(
         { error: 'Invalid service' },
         { status: 400 }
       )
     }
 
+    // Self-hosted servers are validated by listing their models; the key is optional
+    if (service === 'openai-compatible') {
+      if (!baseUrl) {
+        return NextResponse.json(
+          { error: 'Base URL is required' },
+          { status: 400 }
+        )
+      }
+
+      try {
+        const normalizedUrl = assertPublicBaseUrl(baseUrl)
+        const models = await listOpenAICompatibleModels(normalizedUrl, apiKey || undefined)
+
+        return NextResponse.json({
+          service,
+          isValid: true,
+          baseUrl: normalizedUrl,
+          models,
+          timestamp: new Date().toISOString()
+        })
+      } catch (error) {
+        if (error instanceof OpenAICompatibleConfigError) {
+          return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+        console.error('Error validating model server:', error)
+
+        return NextResponse.json({
+          service,
+          isValid: false,
+          error: error instanceof Error ? error.message : 'Validation failed',
+          timestamp: new Date().toISOString()
+        })
+      }
+    }
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'Service and API key are required' },
+        { status: 400 }
+      )
+    }
+
     try {
-      const aiService = AIServiceFactory.createService(service as any, apiKey)
+      const aiService = AIServiceFactory.createService({ provider: service as AIProvider, apiKey })
       const isValid = await aiService.validateApiKey(apiKey)
 
       return NextResponse.json({
@@ -30,7 +83,7 @@ export async function POST(request: NextRequest) {
       })
     } catch (error) {
       console.error(`Error validating ${service} API key:`, error)
-      
+
       return NextResponse.json({
         service,
         isValid: false,
@@ -45,4 +98,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { CitationService } from '@/services/citation/CitationService'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/citation-styles/[id] - Delete an uploaded CSL style
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deleted = await new CitationService(supabase).deleteStyle(user.id, params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Citation style not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete citation style:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete citation style',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { CitationService, CitationStyleError } from '@/services/citation/CitationService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/citation-styles - Built-in citation styles and the user's uploaded CSL styles
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const styles = await new CitationService(supabase).listStyles(user.id)
+
+    return NextResponse.json({ success: true, data: styles })
+  } catch (error) {
+    console.error('Failed to list citation styles:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to list citation styles',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/citation-styles - Upload a CSL style
+ * Body: multipart with `file`, or JSON { xml }. The style is named after its <info><title>.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let xml: unknown
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const file = (await request.formData()).get('file')
+      xml = file instanceof File ? await file.text() : undefined
+    } else {
+      xml = (await request.json()).xml
+    }
+
+    if (typeof xml !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'A CSL file or xml is required' },
+        { status: 400 }
+      )
+    }
+
+    const style = await new CitationService(supabase).createStyle(user.id, xml)
+
+    return NextResponse.json({ success: true, data: style }, { status: 201 })
+  } catch (error) {
+    if (error instanceof CitationStyleError) {
+      return NextResponse.json({ error: 'Invalid style', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to save citation style:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to save citation style',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { CollectionError, CollectionService } from '@/services/collections'
+
+export const runtime = 'nodejs'
+
+function readPaperIds(body: unknown): string[] {
+  const paperIds = (body as { paperIds?: unknown } | null)?.paperIds
+  if (!Array.isArray(paperIds) || !paperIds.every(id => typeof id === 'string')) {
+    throw new CollectionError('paperIds must be an array of paper IDs')
+  }
+  return paperIds
+}
+
+/**
+ * GET /api/collections/[id]/papers - IDs of the papers in a collection, in collection order
+ * Query: includeSubcollections=false to leave out papers only in its subcollections
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const service = new CollectionService(supabase)
+    if (!await service.getCollection(user.id, params.id)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const paperIds = await service.getPaperIds([params.id], {
+      userId: user.id,
+      includeSubcollections: request.nextUrl.searchParams.get('includeSubcollections') !== 'false'
+    })
+
+    return NextResponse.json({ success: true, data: { paperIds } })
+  } catch (error) {
+    console.error('Failed to load collection papers:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load collection papers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/collections/[id]/papers - Add papers to a collection, after those already in it
+ * Body: { paperIds }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const paperIds = readPaperIds(await request.json())
+    const collection = await new CollectionService(supabase).addPapers(user.id, params.id, paperIds)
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: collection })
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to add papers to collection:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to add papers to collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/collections/[id]/papers - Reorder a collection's papers
+ * Body: { paperIds }. The listed papers come first, in that order; the rest keep their order after them.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const paperIds = readPaperIds(await request.json())
+    const order = await new CollectionService(supabase).reorderPapers(user.id, params.id, paperIds)
+    if (!order) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: { paperIds: order } })
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to reorder collection papers:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to reorder collection papers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]/papers - Take papers out of a collection; they stay in the library
+ * Body: { paperIds }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const paperIds = readPaperIds(await request.json())
+    const collection = await new CollectionService(supabase).removePapers(user.id, params.id, paperIds)
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: collection })
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to remove papers from collection:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to remove papers from collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
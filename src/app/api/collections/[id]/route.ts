@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { CollectionError, CollectionService, type CollectionUpdate } from '@/services/collections'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/collections/[id] - A collection
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const collection = await new CollectionService(supabase).getCollection(user.id, params.id)
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: collection })
+  } catch (error) {
+    console.error('Failed to load collection:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/collections/[id] - Rename, move or reorder a collection
+ * Body: { name?, parentId?, position? }. A null parentId moves it to the top level;
+ * position is its index among its (new) siblings, last when omitted on a move.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const update: CollectionUpdate = {}
+    if (typeof body?.name === 'string') {
+      update.name = body.name
+    }
+    if (body?.parentId === null || typeof body?.parentId === 'string') {
+      update.parentId = body.parentId
+    }
+    if (Number.isInteger(body?.position)) {
+      update.position = body.position
+    }
+
+    const collection = await new CollectionService(supabase).updateCollection(user.id, params.id, update)
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: collection })
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to update collection:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/collections/[id] - Delete a collection with its subcollections; its papers stay in the library
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deleted = await new CollectionService(supabase).deleteCollection(user.id, params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete collection:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { CollectionError, CollectionService } from '@/services/collections'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/collections - The user's collections, flat and ordered by position within each parent
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const collections = await new CollectionService(supabase).listCollections(user.id)
+
+    return NextResponse.json({ success: true, data: collections })
+  } catch (error) {
+    console.error('Failed to load collections:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load collections',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/collections - Create a collection
+ * Body: { name, parentId? }. Without a parent it is created at the top level.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const collection = await new CollectionService(supabase).createCollection(
+      user.id,
+      typeof body?.name === 'string' ? body.name : '',
+      typeof body?.parentId === 'string' ? body.parentId : null
+    )
+
+    return NextResponse.json({ success: true, data: collection }, { status: 201 })
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to create collection:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -26,7 +26,7 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const validProviders: AIProvider[] = ['openai', 'anthropic', 'gemini', 'xai']
+      const validProviders: AIProvider[] = ['openai', 'anthropic', 'gemini', 'xai', 'openai-compatible']
       const invalidProviders = providers.filter((p: string) => !validProviders.includes(p as AIProvider))
       
       if (invalidProviders.length > 0) {
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { extractBasicPdfMetadata } from '@/lib/pdf-metadata'
+import { extractPdfText } from '@/lib/pdf-text'
+import { getMetadataResolver, findMetadataIdentifiers, type MetadataIdentifier, type ResolvedPaperMetadata } from '@/services/metadata'
 
 export const runtime = 'nodejs'
 
@@ -10,6 +12,8 @@ type MetadataResponse = {
   journal?: string
   doi?: string
   confidence: number
+  // Authoritative metadata from Crossref, arXiv or PubMed when the PDF mentions an identifier
+  resolved?: ResolvedPaperMetadata | null
 }
 
 export async function POST(request: NextRequest) {
@@ -35,9 +39,11 @@ export async function POST(request: NextRequest) {
       confidence: 0.4,
     }
 
+    const resolving = resolveFromPdf(buffer, basic.doi)
+
     // If no OpenAI key provided, return basic result only
     if (!openaiApiKey) {
-      return NextResponse.json(response)
+      return NextResponse.json({ ...response, resolved: await resolving })
     }
 
     // Build a compact context from basic fields and a small snippet from bytes (XMP often text-based)
@@ -76,7 +82,7 @@ ${preview}
 
       if (!res.ok) {
         // If OpenAI fails, fall back silently to basic
-        return NextResponse.json(response)
+        return NextResponse.json({ ...response, resolved: await resolving })
       }
 
       const data = await res.json()
@@ -96,9 +102,31 @@ ${preview}
       // Ignore AI errors and use basic info
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json({ ...response, resolved: await resolving })
   } catch (error) {
     console.error('metadata extract error:', error)
     return NextResponse.json({ error: 'Failed to extract metadata' }, { status: 500 })
   }
 }
+
+/**
+ * Look for a DOI, arXiv id or PMID in the PDF's metadata and first pages and resolve it.
+ * Never throws; resolution is an enhancement over the detected fields.
+ */
+async function resolveFromPdf(buffer: Buffer, detectedDoi?: string): Promise<ResolvedPaperMetadata | null> {
+  try {
+    const { text } = await extractPdfText(buffer, { maxPages: 2 })
+    const candidates: MetadataIdentifier[] = [
+      ...(detectedDoi ? findMetadataIdentifiers(detectedDoi) : []),
+      ...findMetadataIdentifiers(text)
+    ]
+    const identifiers = candidates.filter((identifier, index) =>
+      candidates.findIndex(other => other.type === identifier.type && other.value === identifier.value) === index
+    )
+
+    return await getMetadataResolver().resolveFirst(identifiers)
+  } catch (error) {
+    console.warn('Metadata resolution failed:', error)
+    return null
+  }
+}
@@ -85,7 +85,9 @@ export async function PUT(request: NextRequest) {
       'new_paper_added',
       'system_update',
       'security_alert',
-      'backup_complete'
+      'backup_complete',
+      'saved_search_match',
+      'ai_budget_warning'
     ]
 
     if (!validTypes.includes(type)) {
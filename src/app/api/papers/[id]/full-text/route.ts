@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { TABLES } from '@/lib/database'
+import { PaperTextExtractionService, type TextExtractionSource } from '@/services/extraction'
+
+export const runtime = 'nodejs'
+
+const SOURCES: TextExtractionSource[] = ['upload', 'zotero', 'manual']
+
+/**
+ * A client acting as the signed-in user, so row level security limits the
+ * extracted texts read and written to their own papers
+ */
+function createUserSupabaseClient(request: NextRequest) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !supabaseAnon) {
+    return null
+  }
+
+  return createClient(supabaseUrl, supabaseAnon, {
+    global: { headers: { Authorization: request.headers.get('authorization') || '' } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
+
+/**
+ * Whether the user owns the paper
+ */
+async function ownsPaper(supabase: SupabaseClient, paperId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from(TABLES.PAPERS)
+    .select('id')
+    .eq('id', paperId)
+    .eq('created_by', userId)
+    .maybeSingle()
+
+  if (error && error.code !== '22P02') {
+    throw new Error(`Failed to load paper: ${error.message}`)
+  }
+  return !!data
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    if (!id) {
+      return NextResponse.json({ error: 'Paper ID is required' }, { status: 400 })
+    }
+
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createUserSupabaseClient(request)
+    if (!supabase) {
+      return NextResponse.json({ success: false, error: 'Database not available' }, { status: 503 })
+    }
+    if (!(await ownsPaper(supabase, id, user.id))) {
+      return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+    }
+
+    const stored = await new PaperTextExtractionService(supabase).getPaperText(id)
+    if (!stored) {
+      return NextResponse.json({ error: 'No extracted text for this paper' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeContent = searchParams.get('includeContent') !== 'false'
+
+    return NextResponse.json({
+      success: true,
+      data: includeContent ? stored : { ...stored, content: undefined }
+    })
+  } catch (error) {
+    console.error('Error in GET /api/papers/[id]/full-text:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch extracted text', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    if (!id) {
+      return NextResponse.json({ error: 'Paper ID is required' }, { status: 400 })
+    }
+
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createUserSupabaseClient(request)
+    if (!supabase) {
+      return NextResponse.json({ success: false, error: 'Database not available' }, { status: 503 })
+    }
+    if (!(await ownsPaper(supabase, id, user.id))) {
+      return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+    }
+
+    const form = await request.formData()
+    const file = form.get('file') as File | null
+    const sourceParam = (form.get('source') as string | null) || 'upload'
+
+    if (!file) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 })
+    }
+    if (!SOURCES.includes(sourceParam as TextExtractionSource)) {
+      return NextResponse.json({ error: `source must be one of: ${SOURCES.join(', ')}` }, { status: 400 })
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const stored = await new PaperTextExtractionService(supabase).extractAndStore(
+      id,
+      buffer,
+      sourceParam as TextExtractionSource
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        paperId: stored.paperId,
+        status: stored.status,
+        pageCount: stored.pageCount,
+        charCount: stored.charCount,
+        sections: stored.sections.map(({ heading, kind, page }) => ({ heading, kind, page }))
+      }
+    })
+  } catch (error) {
+    console.error('Error in POST /api/papers/[id]/full-text:', error)
+    return NextResponse.json(
+      { error: 'Failed to extract text', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
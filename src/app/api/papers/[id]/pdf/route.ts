@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { TABLES } from '@/lib/database'
+import { PaperStorageService, StorageError, type PaperFileRow } from '@/services/storage'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/papers/[id]/pdf - The paper's PDF from whichever storage backend holds it, for the in-app reader
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: paper, error } = await supabase
+      .from(TABLES.PAPERS)
+      .select('id, title, pdf_path, google_drive_id, google_drive_url, storage_backend')
+      .eq('id', params.id)
+      .eq('created_by', user.id)
+      .single()
+
+    if (error && error.code !== 'PGRST116' && error.code !== '22P02') {
+      throw new Error(`Failed to load paper: ${error.message}`)
+    }
+    if (!paper) {
+      return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+    }
+
+    const pdf = await new PaperStorageService(supabase).readPaperFile(user.id, paper as PaperFileRow)
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Cache-Control': 'private, max-age=3600'
+      }
+    })
+  } catch (error) {
+    if (error instanceof StorageError && error.code !== 'invalid_key') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'not_found' ? 404 : 400 }
+      )
+    }
+    console.error('Failed to load paper PDF:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load PDF',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { CitationService, CitationStyleError } from '@/services/citation/CitationService'
+
+export const runtime = 'nodejs'
+
+const DEFAULT_STYLE = 'apa'
+const MAX_PAPERS = 500
+
+/**
+ * GET /api/papers/cite - Format papers as citations
+ * Query: ids (comma-separated), style (built-in name or uploaded style id; default apa), format (text | html)
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const ids = searchParams.get('ids')
+
+  return cite(
+    request,
+    ids ? ids.split(',').map(id => id.trim()).filter(Boolean) : [],
+    searchParams.get('style') || DEFAULT_STYLE,
+    searchParams.get('format') || 'text'
+  )
+}
+
+/**
+ * POST /api/papers/cite - Format papers as citations
+ * Body: { paperIds, style?, format? }
+ */
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request', details: 'Body must be JSON' }, { status: 400 })
+  }
+
+  if (!Array.isArray(body.paperIds) || body.paperIds.some((id: unknown) => typeof id !== 'string')) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: 'paperIds must be an array of paper ids' },
+      { status: 400 }
+    )
+  }
+
+  return cite(request, body.paperIds, body.style ?? DEFAULT_STYLE, body.format ?? 'text')
+}
+
+async function cite(request: NextRequest, paperIds: string[], style: unknown, format: unknown) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (paperIds.length === 0 || paperIds.length > MAX_PAPERS) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: `Between 1 and ${MAX_PAPERS} paper ids are required` },
+        { status: 400 }
+      )
+    }
+    if (typeof style !== 'string' || !style) {
+      return NextResponse.json({ error: 'Invalid style', details: 'style must be a style name or id' }, { status: 400 })
+    }
+    if (format !== 'text' && format !== 'html') {
+      return NextResponse.json({ error: 'Invalid format', details: 'format must be text or html' }, { status: 400 })
+    }
+
+    const result = await new CitationService(supabase).citePapers(user.id, paperIds, style, format)
+
+    return NextResponse.json({ success: true, data: { style, format, ...result } })
+  } catch (error) {
+    if (error instanceof CitationStyleError) {
+      return NextResponse.json({ error: 'Invalid style', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to format citations:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to format citations',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
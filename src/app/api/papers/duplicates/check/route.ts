@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { DedupeService } from '@/services/dedupe/DedupeService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/papers/duplicates/check - Whether a paper about to be uploaded is already in the user's library
+ * Query: title (required), doi, authors (repeated), year
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const title = searchParams.get('title')?.trim()
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'title is required' },
+        { status: 400 }
+      )
+    }
+
+    const year = Number(searchParams.get('year'))
+    const [match] = await new DedupeService(supabase).findDuplicatesOf(user.id, [{
+      id: 'upload',
+      title,
+      authors: searchParams.getAll('authors').filter(Boolean),
+      doi: searchParams.get('doi') || undefined,
+      publicationYear: Number.isInteger(year) && year > 0 ? year : undefined
+    }])
+
+    return NextResponse.json({
+      success: true,
+      data: match
+        ? { isDuplicate: true, paperId: match.paperId, score: match.score }
+        : { isDuplicate: false }
+    })
+  } catch (error) {
+    console.error('Failed to check for duplicate paper:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to check for duplicate paper',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { DedupeService } from '@/services/dedupe/DedupeService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/papers/duplicates - Likely duplicate papers in the user's library, grouped into clusters
+ * Query: threshold (0-1, default 0.85)
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const thresholdParam = searchParams.get('threshold')
+    const threshold = thresholdParam === null ? undefined : Number(thresholdParam)
+    if (threshold !== undefined && (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1)) {
+      return NextResponse.json(
+        { error: 'Invalid threshold', details: 'threshold must be a number between 0 and 1' },
+        { status: 400 }
+      )
+    }
+
+    const clusters = await new DedupeService(supabase).findDuplicates(user.id, { threshold })
+
+    return NextResponse.json({ success: true, data: clusters })
+  } catch (error) {
+    console.error('Failed to find duplicate papers:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to find duplicate papers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
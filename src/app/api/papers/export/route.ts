@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { BibliographyService, type BibliographyExportSelection } from '@/services/bibliography/BibliographyService'
+import { BIBLIOGRAPHY_FORMATS, isBibliographyFormat } from '@/services/bibliography/formats'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/papers/export - Download papers as a bibliography file
+ * Query: format (bibtex | ris | csl-json), ids (comma-separated; whole library when omitted)
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const ids = searchParams.get('ids')
+
+  return exportBibliography(request, searchParams.get('format'), {
+    paperIds: ids ? ids.split(',').map(id => id.trim()).filter(Boolean) : undefined
+  })
+}
+
+/**
+ * POST /api/papers/export - Download selected papers or search results as a bibliography file
+ * Body: { format, paperIds? } or { format, search: { query?, mode?, filters?, sortBy? } }
+ */
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request', details: 'Body must be JSON' }, { status: 400 })
+  }
+
+  if (body.paperIds !== undefined && (!Array.isArray(body.paperIds) || body.paperIds.some((id: unknown) => typeof id !== 'string'))) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: 'paperIds must be an array of paper ids' },
+      { status: 400 }
+    )
+  }
+
+  return exportBibliography(request, body.format, {
+    paperIds: body.paperIds,
+    search: body.search && typeof body.search === 'object' ? body.search : undefined
+  })
+}
+
+async function exportBibliography(request: NextRequest, format: unknown, selection: BibliographyExportSelection) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isBibliographyFormat(format)) {
+      return NextResponse.json(
+        { error: 'Invalid format', details: 'format must be one of bibtex, ris, csl-json' },
+        { status: 400 }
+      )
+    }
+
+    const { content } = await new BibliographyService(supabase).exportPapers(user.id, selection, format)
+    const { extension, mimeType } = BIBLIOGRAPHY_FORMATS[format]
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': `${mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="papers.${extension}"`
+      }
+    })
+  } catch (error) {
+    console.error('Failed to export bibliography:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to export bibliography',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
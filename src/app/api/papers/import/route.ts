@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { BibliographyService, BibliographyImportError } from '@/services/bibliography/BibliographyService'
+import { isBibliographyFormat } from '@/services/bibliography/formats'
+
+export const runtime = 'nodejs'
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+
+/**
+ * POST /api/papers/import - Import a BibTeX, RIS or CSL-JSON file into the user's library
+ * Body: multipart with `file` (and optional `format`), or JSON { content, format? }.
+ * The format is detected from the file name or content when omitted.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let content: unknown
+    let format: unknown
+    let fileName: string | undefined
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData()
+      const file = form.get('file')
+      if (file instanceof File) {
+        if (file.size > MAX_IMPORT_BYTES) {
+          return NextResponse.json(
+            { error: 'File too large', details: `Bibliography files are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB` },
+            { status: 400 }
+          )
+        }
+        content = await file.text()
+        fileName = file.name
+      }
+      format = form.get('format') || undefined
+    } else {
+      const body = await request.json()
+      content = body.content
+      format = body.format
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'A non-empty file or content is required' },
+        { status: 400 }
+      )
+    }
+    if (content.length > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: 'File too large', details: `Bibliography files are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB` },
+        { status: 400 }
+      )
+    }
+    if (format !== undefined && !isBibliographyFormat(format)) {
+      return NextResponse.json(
+        { error: 'Invalid format', details: 'format must be one of bibtex, ris, csl-json' },
+        { status: 400 }
+      )
+    }
+
+    const report = await new BibliographyService(supabase).importBibliography(user.id, content, { format, fileName })
+
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    if (error instanceof BibliographyImportError) {
+      return NextResponse.json({ error: 'Invalid bibliography', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to import bibliography:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to import bibliography',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
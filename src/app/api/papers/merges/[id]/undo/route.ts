@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { DedupeService, PaperMergeError } from '@/services/dedupe/DedupeService'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/papers/merges/[id]/undo - Restore the papers a merge removed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const merge = await new DedupeService(supabase).undoMerge(user.id, params.id)
+
+    return NextResponse.json({ success: true, data: merge })
+  } catch (error) {
+    if (error instanceof PaperMergeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'not_found' ? 404 : 409 }
+      )
+    }
+
+    console.error('Failed to undo paper merge:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to undo paper merge',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
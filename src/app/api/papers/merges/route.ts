@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { DedupeService, PaperMergeError } from '@/services/dedupe/DedupeService'
+
+export const runtime = 'nodejs'
+
+const MERGE_ERROR_STATUS = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409
+} as const
+
+/**
+ * GET /api/papers/merges - The user's recent merges, newest first
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const merges = await new DedupeService(supabase).listMerges(user.id)
+
+    return NextResponse.json({ success: true, data: merges })
+  } catch (error) {
+    console.error('Failed to list paper merges:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to list paper merges',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/papers/merges - Merge duplicates into a canonical paper
+ * Body: { canonicalId, duplicateIds }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (typeof body.canonicalId !== 'string' || !Array.isArray(body.duplicateIds)) {
+      return NextResponse.json(
+        { error: 'Invalid merge request', details: 'canonicalId and duplicateIds are required' },
+        { status: 400 }
+      )
+    }
+
+    const merge = await new DedupeService(supabase).mergePapers(user.id, body.canonicalId, body.duplicateIds)
+
+    return NextResponse.json({ success: true, data: merge }, { status: 201 })
+  } catch (error) {
+    if (error instanceof PaperMergeError) {
+      return NextResponse.json({ error: error.message }, { status: MERGE_ERROR_STATUS[error.code] })
+    }
+
+    console.error('Failed to merge papers:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to merge papers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { Paper } from '@/types'
+import { scheduleSavedSearchAlerts } from '@/services/search/SavedSearchAlerts'
 
 export const runtime = 'nodejs'
 
@@ -39,9 +40,11 @@ export async function GET(request: NextRequest) {
       if (!data) return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
       return NextResponse.json(data)
     } else {
+      // Papers archived after their Zotero item was removed stay hidden until an admin restores them
       const { data, error } = await supabase
         .from('papers')
         .select('*')
+        .is('archived_at', null)
         .order('date_added', { ascending: false })
       if (error) throw error
       return NextResponse.json(data || [])
@@ -77,6 +80,7 @@ export async function POST(request: NextRequest) {
         google_drive_id: paper.googleDriveId || null,
         google_drive_url: paper.googleDriveUrl || null,
         pdf_path: paper.pdfPath || null,
+        storage_backend: paper.storageBackend || (paper.googleDriveId ? 'google_drive' : null),
         reading_status: paper.readingStatus || 'unread',
         date_added: (paper.dateAdded ? new Date(paper.dateAdded) : new Date()).toISOString(),
         last_modified: new Date().toISOString()
@@ -87,6 +91,7 @@ export async function POST(request: NextRequest) {
       console.error('DB insert error (/api/papers POST):', error)
       return NextResponse.json({ error: 'Failed to insert paper', details: (error as any).message || String(error), code: (error as any).code }, { status: 500 })
     }
+    await scheduleSavedSearchAlerts([data.id])
     return NextResponse.json(data)
   } catch (error) {
     console.error('Error in POST /api/papers:', error)
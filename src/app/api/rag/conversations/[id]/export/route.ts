@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { ConversationService, formatConversationMarkdown } from '@/services/rag/ConversationService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/rag/conversations/[id]/export - Download a conversation
+ * Query: format (json | markdown; default json). The JSON can be imported on /chat.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const format = new URL(request.url).searchParams.get('format') || 'json'
+    if (format !== 'json' && format !== 'markdown') {
+      return NextResponse.json(
+        { error: 'Invalid format', details: 'format must be one of json, markdown' },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await new ConversationService(supabase).getConversation(user.id, params.id)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const content = format === 'markdown'
+      ? formatConversationMarkdown(conversation)
+      : JSON.stringify({
+        title: conversation.title,
+        messages: conversation.messages,
+        exportedAt: new Date(),
+        messageCount: conversation.messages.length
+      }, null, 2)
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': `${format === 'markdown' ? 'text/markdown' : 'application/json'}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="conversation-${conversation.id}.${format === 'markdown' ? 'md' : 'json'}"`
+      }
+    })
+  } catch (error) {
+    console.error('Failed to export conversation:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to export conversation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { ConversationError, ConversationService } from '@/services/rag/ConversationService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/rag/conversations - The user's research chat conversations, most recently active first
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const conversations = await new ConversationService(supabase).listConversations(user.id)
+
+    return NextResponse.json({ success: true, data: conversations })
+  } catch (error) {
+    console.error('Failed to load conversations:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load conversations',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/rag/conversations - Start a conversation
+ * Body: { title? }. Without a title the first question becomes one.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const title = typeof body?.title === 'string' ? body.title : undefined
+    const conversation = await new ConversationService(supabase).createConversation(user.id, title)
+
+    return NextResponse.json({ success: true, data: conversation }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to create conversation:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create conversation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
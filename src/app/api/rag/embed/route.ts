@@ -15,15 +15,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!openaiApiKey || typeof openaiApiKey !== 'string') {
-      return NextResponse.json(
-        { error: 'OpenAI API key is required' },
-        { status: 400 }
-      )
-    }
-
-    // Initialize vector service
-    const vectorService = new SupabaseVectorService(openaiApiKey)
+    // The OpenAI key is optional; it's needed only when the library embeds with OpenAI
+    const vectorService = new SupabaseVectorService(
+      typeof openaiApiKey === 'string' && openaiApiKey ? openaiApiKey : undefined
+    )
+    vectorService.scheduleStaleReembedding()
 
     // Embed paper with context
     await vectorService.embedPaperWithContext({
@@ -64,15 +60,8 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    if (!openaiApiKey) {
-      return NextResponse.json(
-        { error: 'OpenAI API key is required' },
-        { status: 400 }
-      )
-    }
-
     // Initialize vector service
-    const vectorService = new SupabaseVectorService(openaiApiKey)
+    const vectorService = new SupabaseVectorService(openaiApiKey || undefined)
 
     // Remove paper embedding
     await vectorService.removePaperEmbedding(paperId)
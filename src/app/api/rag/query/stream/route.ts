@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prepareRAGQuery, RAGQueryError } from '@/lib/rag-query'
+import { formatSSE } from '@/lib/sse'
+import { OpenAICompatibleConfigError } from '@/services/ai/OpenAICompatibleService'
+import { CitationStyleError, formatCitations } from '@/services/citation/CitationService'
+import { RAGAnswerStoppedError } from '@/services/vector/SupabaseVectorService'
+import type { Paper, RAGCitation, RAGStreamEvent, RAGUnsupportedClaim, RAGUsage } from '@/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/rag/query/stream - Answer a RAG query as Server-Sent Events: one
+ * `sources` event with the citable excerpts, `delta` events with the answer
+ * text, then `done` with the confidence, token usage and unsupported claims.
+ * A failure mid-answer ends with an `error` event.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { question, searchContext, style, vectorService, history, recordAnswer, recordUsage } = await prepareRAGQuery(request)
+
+    // Stops generation upstream when the client disconnects or cancels
+    const abortController = new AbortController()
+    request.signal?.addEventListener('abort', () => abortController.abort())
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let sources: Paper[] = []
+        let citations: RAGCitation[] | undefined
+        let answer = ''
+        let recorded = false
+        // Tokens the answer took, charged even when it is stopped early
+        let usage: RAGUsage | undefined
+
+        // A saved conversation keeps whatever the user saw, even if they stopped it
+        const record = async (confidence?: number, unsupportedClaims?: RAGUnsupportedClaim[]) => {
+          recorded = true
+          return answer ? recordAnswer({ answer, sources, confidence, citations, unsupportedClaims }) : null
+        }
+
+        try {
+          const events = vectorService.ragQueryStream(question, searchContext, {
+            history,
+            signal: abortController.signal
+          })
+
+          for await (const event of events) {
+            let payload: RAGStreamEvent = event
+            if (event.type === 'sources') {
+              sources = event.sources
+              citations = event.citations
+              if (style) {
+                payload = { ...event, bibliography: formatCitations(event.sources, style).bibliography }
+              }
+            } else if (event.type === 'delta') {
+              answer += event.text
+            } else if (event.type === 'done') {
+              usage = event.usage
+              const conversation = await record(event.confidence, event.unsupportedClaims)
+              if (conversation) {
+                payload = { ...event, conversation }
+              }
+            }
+            controller.enqueue(encoder.encode(formatSSE(event.type, payload)))
+          }
+        } catch (error) {
+          if (error instanceof RAGAnswerStoppedError) {
+            usage = error.usage
+          }
+          if (!abortController.signal.aborted) {
+            console.error('RAG stream error:', error)
+            controller.enqueue(encoder.encode(formatSSE('error', {
+              type: 'error',
+              error: error instanceof Error ? error.message : 'Failed to process RAG query'
+            })))
+          }
+        } finally {
+          await recordUsage(usage)
+          if (!recorded) {
+            await record().catch(error => console.error('Failed to save conversation:', error))
+          }
+          try {
+            controller.close()
+          } catch {
+            // Already closed by a cancelled client
+          }
+        }
+      },
+      cancel() {
+        abortController.abort()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Keep proxies such as nginx from buffering the stream
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    if (error instanceof RAGQueryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (
+      error instanceof CitationStyleError ||
+      error instanceof OpenAICompatibleConfigError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('RAG stream API error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process RAG query',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { SupabaseVectorService } from '@/services/vector/SupabaseVectorService'
+import { EmbeddingSettingsValidationError, validateEmbeddingSettings } from '@/services/embeddings'
+
+/**
+ * Switch the library's embedding provider when one is given, or else
+ * re-embed one batch of papers whose vectors came from a previous provider
+ * (admin only)
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { openaiApiKey, batchSize } = body
+
+    const vectorService = new SupabaseVectorService(
+      typeof openaiApiKey === 'string' && openaiApiKey ? openaiApiKey : undefined
+    )
+
+    // Switching re-embeds the library in the background
+    if (body.provider !== undefined) {
+      const switched = await vectorService.setLibraryEmbeddingProvider(validateEmbeddingSettings(body))
+      if (switched) {
+        return NextResponse.json({
+          success: true,
+          data: {
+            switched,
+            embedding: await vectorService.getEmbeddingInfo()
+          }
+        })
+      }
+    }
+
+    const result = await vectorService.reembedStalePapers(
+      typeof batchSize === 'number' && batchSize > 0 ? Math.min(batchSize, 100) : undefined
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        switched: false,
+        embedding: await vectorService.getEmbeddingInfo()
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof EmbeddingSettingsValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('RAG re-embed API error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to re-embed papers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -6,16 +6,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const openaiApiKey = searchParams.get('openaiApiKey')
 
-    // Validate required fields
-    if (!openaiApiKey) {
-      return NextResponse.json(
-        { error: 'OpenAI API key is required' },
-        { status: 400 }
-      )
-    }
-
     // Initialize vector service
-    const vectorService = new SupabaseVectorService(openaiApiKey)
+    const vectorService = new SupabaseVectorService(openaiApiKey || undefined)
 
     // Get embedding statistics
     const stats = await vectorService.getEmbeddingStats()
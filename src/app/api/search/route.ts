@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AdvancedSearchService, type AdvancedSearchFilters, type SortOption } from '@/services/search/AdvancedSearchService'
+import { AdvancedSearchService, DEFAULT_SEARCH_MODE, type AdvancedSearchFilters, type SearchMode, type SortOption } from '@/services/search/AdvancedSearchService'
+
+const SEARCH_MODES: SearchMode[] = ['lexical', 'semantic', 'hybrid']
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { 
       query, 
+      mode = DEFAULT_SEARCH_MODE,
+      openaiApiKey,
       filters = {}, 
       sortBy = 'relevance', 
       page = 1, 
@@ -20,16 +24,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!SEARCH_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Search mode must be one of: ${SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
     // Validate pagination
     const pageNum = Math.max(1, parseInt(page) || 1)
     const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 10))
 
-    // Create search service
-    const searchService = new AdvancedSearchService()
+    // Create search service (the key is only needed for OpenAI query embeddings)
+    const searchService = new AdvancedSearchService({ openaiApiKey })
 
     // Build search query
     const searchQuery = {
       textQuery: query?.trim() || undefined,
+      mode: mode as SearchMode,
       filters: filters as AdvancedSearchFilters,
       sortBy: sortBy as SortOption,
       pagination: { page: pageNum, limit: limitNum }
@@ -70,7 +82,12 @@ export async function GET(request: NextRequest) {
           return NextResponse.json({ success: true, data: [] })
         }
         
-        const suggestions = await searchService.getSearchSuggestions(query)
+        // Optional cursor offset: completion applies to the term ending there
+        const cursor = searchParams.get('cursor')
+        const suggestions = await searchService.getSearchSuggestions(
+          query,
+          cursor !== null ? parseInt(cursor) || undefined : undefined
+        )
         return NextResponse.json({ success: true, data: suggestions })
       }
 
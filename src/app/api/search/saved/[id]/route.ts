@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import {
+  SavedSearchService,
+  SavedSearchValidationError,
+  type SavedSearchInput
+} from '@/services/search/SavedSearchService'
+
+/**
+ * GET /api/search/saved/[id] - Get one saved search
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const savedSearch = await new SavedSearchService(supabase).getSavedSearch(user.id, params.id)
+    if (!savedSearch) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: savedSearch })
+  } catch (error) {
+    console.error('Failed to get saved search:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to get saved search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/search/saved/[id] - Update a saved search; omitted fields are kept
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const updates: Partial<SavedSearchInput> = {
+      name: body.name,
+      query: body.query,
+      filters: body.filters,
+      sortBy: body.sortBy,
+      notifyOnMatch: body.notifyOnMatch
+    }
+
+    const savedSearch = await new SavedSearchService(supabase).updateSavedSearch(user.id, params.id, updates)
+    if (!savedSearch) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: savedSearch })
+  } catch (error) {
+    if (error instanceof SavedSearchValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.queryErrors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update saved search:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update saved search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/search/saved/[id] - Delete a saved search
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deleted = await new SavedSearchService(supabase).deleteSavedSearch(user.id, params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete saved search:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete saved search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { SavedSearchService, SavedSearchValidationError } from '@/services/search/SavedSearchService'
+
+/**
+ * GET /api/search/saved - List the user's saved searches
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const savedSearches = await new SavedSearchService(supabase).listSavedSearches(user.id)
+
+    return NextResponse.json({ success: true, data: savedSearches })
+  } catch (error) {
+    console.error('Failed to list saved searches:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to list saved searches',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/search/saved - Save a search (name, query, filters, sortBy, notifyOnMatch)
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const savedSearch = await new SavedSearchService(supabase).createSavedSearch(user.id, {
+      name: body.name,
+      query: body.query,
+      filters: body.filters,
+      sortBy: body.sortBy,
+      notifyOnMatch: body.notifyOnMatch
+    })
+
+    return NextResponse.json({ success: true, data: savedSearch }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SavedSearchValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.queryErrors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to save search:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to save search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { StorageError, StorageMigrationService, STORAGE_BACKENDS, type StorageBackendType } from '@/services/storage'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/storage/migrate - Move the user's PDFs to another backend
+ * Body: { target, deleteSource?, paperIds? }. Papers keep their pdfPath; failures are
+ * reported per paper and leave the paper on its old backend.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json() as { target?: StorageBackendType; deleteSource?: boolean; paperIds?: string[] }
+    if (!body.target || !STORAGE_BACKENDS.includes(body.target)) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: `target must be one of ${STORAGE_BACKENDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await new StorageMigrationService(supabase).migrateUserFiles(user.id, body.target, {
+      deleteSource: body.deleteSource === true,
+      paperIds: Array.isArray(body.paperIds) ? body.paperIds : undefined
+    })
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: 'Storage not available', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to migrate stored PDFs:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to migrate stored PDFs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { PaperStorageService, StorageError, STORAGE_BACKENDS, type StorageSettingsUpdate } from '@/services/storage'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/storage/settings - Where the user's PDFs are stored. The S3 secret is never returned.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const settings = await new PaperStorageService(supabase).getSettingsSummary(user.id)
+
+    return NextResponse.json({ success: true, data: settings })
+  } catch (error) {
+    console.error('Failed to load storage settings:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load storage settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/storage/settings - Choose the backend for new uploads
+ * Body: { backend, s3?: { endpoint, region, bucket, accessKeyId, secretAccessKey, forcePathStyle, prefix } }.
+ * An empty secretAccessKey keeps the stored one.
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json() as Partial<StorageSettingsUpdate>
+    if (!body.backend || !STORAGE_BACKENDS.includes(body.backend)) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: `backend must be one of ${STORAGE_BACKENDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const service = new PaperStorageService(supabase)
+    await service.saveSettings(user.id, { backend: body.backend, s3: body.s3 })
+    const settings = await service.getSettingsSummary(user.id)
+
+    return NextResponse.json({ success: true, data: settings })
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: 'Invalid storage settings', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to save storage settings:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to save storage settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { buildPaperFileKey, PaperStorageService, putPaperFile, StorageError } from '@/services/storage'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/storage/upload - Store a PDF in the user's storage backend
+ * Body: multipart with `file`, `year`, `journal` and `paperTitle`. Returns the stored file;
+ * its `key` becomes the paper's pdfPath.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Invalid request', details: 'No file provided' }, { status: 400 })
+    }
+
+    const key = buildPaperFileKey({
+      year: formData.get('year')?.toString(),
+      journal: formData.get('journal')?.toString(),
+      title: formData.get('paperTitle')?.toString(),
+      fileName: file.name
+    })
+
+    const backend = await new PaperStorageService(supabase).getBackend(user.id)
+    const stored = await putPaperFile(backend, key, Buffer.from(await file.arrayBuffer()))
+
+    return NextResponse.json({ success: true, data: stored }, { status: 201 })
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: 'Storage not available', details: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to store PDF:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to store PDF',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { AIBudgetService } from '@/services/usage/AIBudgetService'
+
+export const runtime = 'nodejs'
+
+const VALID_PROVIDERS = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
+const VALID_PERIODS = ['daily', 'monthly']
+
+/**
+ * GET /api/usage/budgets - The user's active AI budgets with what has been
+ * spent against them, and this month's spend with its end-of-month forecast
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const budgetService = new AIBudgetService(supabase)
+    const now = new Date()
+    const [budgets, forecast] = await Promise.all([
+      budgetService.getBudgetStatuses(user.id, now),
+      budgetService.getForecast(user.id, now)
+    ])
+
+    return NextResponse.json({ success: true, data: { budgets, forecast } })
+  } catch (error) {
+    console.error('Failed to load AI budgets:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load AI budgets',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/usage/budgets - Create or change the user's budget for a period
+ * Body: { period: 'daily' | 'monthly', limitUsd: number, provider?: string | null,
+ * warningThresholds?: number[], isActive?: boolean }. Without a provider the
+ * budget covers all providers.
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { period, limitUsd, warningThresholds, isActive } = body
+    const provider = body.provider || null
+
+    if (!VALID_PERIODS.includes(period)) {
+      return NextResponse.json({ error: 'period must be daily or monthly' }, { status: 400 })
+    }
+    if (typeof limitUsd !== 'number' || !Number.isFinite(limitUsd) || limitUsd <= 0) {
+      return NextResponse.json({ error: 'limitUsd must be a positive number' }, { status: 400 })
+    }
+    if (provider !== null && !VALID_PROVIDERS.includes(provider)) {
+      return NextResponse.json({ error: `Invalid provider: ${provider}` }, { status: 400 })
+    }
+    if (
+      warningThresholds !== undefined &&
+      (!Array.isArray(warningThresholds) ||
+        !warningThresholds.every(threshold => Number.isInteger(threshold) && threshold >= 1 && threshold <= 100))
+    ) {
+      return NextResponse.json({ error: 'warningThresholds must be whole percentages from 1 to 100' }, { status: 400 })
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return NextResponse.json({ error: 'isActive must be a boolean' }, { status: 400 })
+    }
+
+    const budget = await new AIBudgetService(supabase).setBudget(user.id, {
+      provider,
+      period,
+      limitUsd,
+      warningThresholds,
+      isActive
+    })
+
+    return NextResponse.json({ success: true, data: budget })
+  } catch (error) {
+    console.error('Failed to save AI budget:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to save AI budget',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
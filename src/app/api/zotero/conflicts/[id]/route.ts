@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { ZoteroConflictService } from '@/services/zotero/ZoteroConflictService'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/zotero/conflicts/[id] - Resolve a sync conflict
+ * Body: { keep: 'local' | 'zotero' }. Zotero's value is written to the
+ * evaluation right away; the app's value is written to Zotero on the next sync.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (body.keep !== 'local' && body.keep !== 'zotero') {
+      return NextResponse.json({ error: "keep must be 'local' or 'zotero'" }, { status: 400 })
+    }
+
+    const resolved = await new ZoteroConflictService(supabase).resolveConflict(user.id, params.id, body.keep)
+    if (!resolved) {
+      return NextResponse.json({ error: 'Conflict not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to resolve Zotero sync conflict:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to resolve Zotero sync conflict',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { ZoteroConflictService } from '@/services/zotero/ZoteroConflictService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/zotero/conflicts - Ratings, tags and notes edited both here and in
+ * Zotero since the last sync, newest first
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const conflicts = await new ZoteroConflictService(supabase).listConflicts(user.id)
+
+    return NextResponse.json({ success: true, data: conflicts })
+  } catch (error) {
+    console.error('Failed to load Zotero sync conflicts:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load Zotero sync conflicts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
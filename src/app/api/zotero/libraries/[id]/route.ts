@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { UserZoteroService } from '@/services/settings/UserZoteroService'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/zotero/libraries/[id] - Stop syncing a library. Papers already
+ * synced from it stay in the user's library.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const removed = await new UserZoteroService(supabase).removeZoteroLibrary(user.id, params.id)
+    if (!removed) {
+      return NextResponse.json({ error: 'Library not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to remove Zotero library:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to remove Zotero library',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
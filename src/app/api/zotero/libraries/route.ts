@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { UserZoteroService } from '@/services/settings/UserZoteroService'
+import { ZoteroService } from '@/services/zotero/ZoteroService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/zotero/libraries - Zotero libraries the user syncs
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const libraries = await new UserZoteroService(supabase).getZoteroLibraries(user.id)
+
+    return NextResponse.json({ success: true, data: libraries })
+  } catch (error) {
+    console.error('Failed to load Zotero libraries:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load Zotero libraries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/zotero/libraries - Subscribe to a group library
+ * Body: { libraryId: string, name?: string }. The user's API key must have
+ * access to the group; its name is taken from Zotero unless given.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const libraryId = typeof body.libraryId === 'string' ? body.libraryId.trim() : String(body.libraryId ?? '')
+    if (!/^\d+$/.test(libraryId)) {
+      return NextResponse.json({ error: 'libraryId must be a numeric Zotero group ID' }, { status: 400 })
+    }
+
+    const settingsService = new UserZoteroService(supabase)
+    const [settings, apiKey] = await Promise.all([
+      settingsService.getUserZoteroSettings(user.id),
+      settingsService.getZoteroApiKey(user.id)
+    ])
+    if (!settings || !apiKey) {
+      return NextResponse.json({ error: 'Zotero not configured' }, { status: 400 })
+    }
+
+    const zoteroService = new ZoteroService()
+    zoteroService.configure({ userId: settings.userIdZotero, apiKey, libraryType: 'group', libraryId })
+
+    let name: string | null = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null
+    try {
+      await zoteroService.getLibraryVersion()
+      name = name || await zoteroService.getLibraryName()
+    } catch {
+      return NextResponse.json(
+        {
+          error: 'Group library not accessible',
+          details: 'Check the group ID and that your API key has access to the group'
+        },
+        { status: 400 }
+      )
+    }
+
+    const library = await settingsService.addZoteroLibrary(user.id, {
+      libraryType: 'group',
+      libraryId,
+      name: name || undefined
+    })
+
+    return NextResponse.json({ success: true, data: library }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to add Zotero library:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to add Zotero library',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,25 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { zoteroSyncService } from '@/services/zotero/ZoteroSyncService'
+import { createClient } from '@supabase/supabase-js'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { getZoteroSyncQueue, ZoteroSyncJobStore } from '@/services/background'
 
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/zotero/sync - Sync every Zotero library the user subscribes to
+ * Body: { type?: 'incremental' | 'full' }. The sync is queued as a background
+ * job (202); while one of the user's syncs is queued or running, that sync is
+ * returned instead. Without a job queue the sync runs in the request and its
+ * totals are returned in `result`.
+ */
 export async function POST(request: NextRequest) {
-  try {
-    const { type = 'incremental' } = await request.json()
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
 
-    let result
-    if (type === 'full') {
-      result = await zoteroSyncService.performFullSync()
-    } else {
-      result = await zoteroSyncService.performIncrementalSync()
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    return NextResponse.json({
-      success: true,
-      data: result
-    })
+    // A sync run in the request writes papers and collections as the user
+    const userSupabase = createUserSupabaseClient(request)
+    const { type = 'incremental' } = await request.json().catch(() => ({}))
+
+    const sync = await getZoteroSyncQueue().requestSync(
+      user.id,
+      type === 'full' ? 'full' : 'incremental',
+      userSupabase || undefined
+    )
 
+    return NextResponse.json(
+      { success: true, data: sync },
+      { status: sync.queued ? 202 : 200 }
+    )
   } catch (error) {
     console.error('Zotero sync error:', error)
-    
+
+    if (error instanceof Error && error.message === 'Zotero not configured') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -27,21 +57,55 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+/**
+ * GET /api/zotero/sync - The user's sync state: whether a sync is queued or
+ * running, its latest progress, and the result of the last finished sync
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
   try {
-    const status = zoteroSyncService.getSyncStatus()
-    
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const state = await new ZoteroSyncJobStore(supabase).getState(user.id)
+    if (!state) {
+      return NextResponse.json({ error: 'Zotero not configured' }, { status: 404 })
+    }
+
     return NextResponse.json({
       success: true,
-      data: status
+      data: state
     })
 
   } catch (error) {
     console.error('Error getting sync status:', error)
-    
+
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+function createUserSupabaseClient(request: NextRequest) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !supabaseAnon) {
+    return null
+  }
+
+  return createClient(supabaseUrl, supabaseAnon, {
+    global: { headers: { Authorization: request.headers.get('authorization') || '' } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
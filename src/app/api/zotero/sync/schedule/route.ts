@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { UserZoteroService } from '@/services/settings/UserZoteroService'
+import { getZoteroSyncQueue, isValidSyncSchedule } from '@/services/background'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/zotero/sync/schedule - Set when the user's libraries are synced in
+ * the background
+ * Body: { autoSync?: boolean, syncInterval?: number, syncSchedule?: string | null }.
+ * `syncSchedule` is a cron pattern; without one syncs run every `syncInterval`
+ * seconds (at least 60). `scheduled` in the response is false when there is
+ * no job queue to run scheduled syncs.
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = createServerSupabaseClient()
+
+  if (!supabase) {
+    return NextResponse.json(
+      { success: false, error: 'Database not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { autoSync, syncInterval } = body
+
+    // An empty pattern goes back to syncing every interval
+    let syncSchedule: string | null | undefined
+    if (body.syncSchedule !== undefined) {
+      syncSchedule = typeof body.syncSchedule === 'string' && body.syncSchedule.trim()
+        ? body.syncSchedule.trim()
+        : null
+    }
+
+    if (autoSync !== undefined && typeof autoSync !== 'boolean') {
+      return NextResponse.json({ error: 'autoSync must be a boolean' }, { status: 400 })
+    }
+    if (syncInterval !== undefined && (!Number.isInteger(syncInterval) || syncInterval < 60)) {
+      return NextResponse.json({ error: 'syncInterval must be a whole number of seconds, at least 60' }, { status: 400 })
+    }
+    if (syncSchedule && !isValidSyncSchedule(syncSchedule)) {
+      return NextResponse.json({ error: `Invalid cron pattern: ${syncSchedule}` }, { status: 400 })
+    }
+
+    const zoteroService = new UserZoteroService(supabase)
+    if (!await zoteroService.getUserZoteroSettings(user.id)) {
+      return NextResponse.json({ error: 'Zotero not configured' }, { status: 404 })
+    }
+
+    await zoteroService.updateSyncSettings(user.id, { autoSync, syncInterval, syncSchedule })
+
+    const settings = await zoteroService.getUserZoteroSettings(user.id)
+    if (!settings) {
+      return NextResponse.json({ error: 'Zotero not configured' }, { status: 404 })
+    }
+
+    const scheduled = await getZoteroSyncQueue().applySchedule(user.id, settings)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        autoSync: settings.autoSync,
+        syncInterval: settings.syncInterval,
+        syncSchedule: settings.syncSchedule,
+        scheduled: settings.autoSync && scheduled
+      }
+    })
+  } catch (error) {
+    console.error('Failed to update Zotero sync schedule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update Zotero sync schedule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { Suspense, useState, useCallback, useEffect, useMemo } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
 import { Download, Upload, Trash2, Settings, BarChart3 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -8,35 +9,179 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { RAGChat } from '@/components/search/RAGChat'
+import { ConversationList } from '@/components/search/ConversationList'
 import { SemanticSearch } from '@/components/search/SemanticSearch'
 import { useRAGChat } from '@/hooks/useRAGChat'
-import type { SearchFilters } from '@/types'
+import { useRAGConversations } from '@/hooks/useRAGConversations'
+import { useCitationStyles } from '@/hooks/useCitationStyles'
+import { useAuth } from '@/components/auth/AuthProvider'
+import { UserApiKeyService } from '@/services/settings/UserApiKeyService'
+import type { OpenAICompatibleEndpoint } from '@/services/ai/OpenAICompatibleService'
+import type { RAGConversation, RAGScope, SearchFilters } from '@/types'
 
+// Reading the chat's scope from the URL needs a Suspense boundary when prerendering
 export default function ChatPage() {
+  return (
+    <Suspense>
+      <ChatPageContent />
+    </Suspense>
+  )
+}
+
+function ChatPageContent() {
   const [searchFilters, setSearchFilters] = useState<SearchFilters>({})
   const [showStats, setShowStats] = useState(false)
+  // Citation style for the bibliography appended to answers; 'none' appends nothing
+  const [citationStyle, setCitationStyle] = useState('none')
+  const { styles: citationStyles } = useCitationStyles()
   
   // Get OpenAI API key from localStorage (in a real app, this would be more secure)
   const openaiApiKey = typeof window !== 'undefined' 
     ? localStorage.getItem('openai-api-key') || ''
     : ''
 
+  // A self-hosted model configured under API keys answers instead of OpenAI
+  const { user } = useAuth()
+  const [openaiCompatible, setOpenaiCompatible] = useState<OpenAICompatibleEndpoint>()
+  useEffect(() => {
+    if (!user) return
+
+    new UserApiKeyService().getProviderCredentials(user.id, 'openai-compatible')
+      .then(credentials => {
+        if (credentials?.baseUrl) {
+          setOpenaiCompatible({
+            baseUrl: credentials.baseUrl,
+            apiKey: credentials.apiKey || undefined,
+            modelName: credentials.modelName
+          })
+        }
+      })
+      .catch(err => console.error('Failed to load self-hosted model settings:', err))
+  }, [user])
+
+  // "Chat about this paper" and the paper list's selection open the chat scoped
+  // to those papers (?papers=id1,id2); ?tag= scopes it to the papers with a tag,
+  // and ?collection= to those in a collection and its subcollections
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const scopePapers = searchParams.get('papers')
+  const scopeTag = searchParams.get('tag')
+  const scopeCollection = searchParams.get('collection')
+  const scope = useMemo<RAGScope | undefined>(() => {
+    if (scopePapers) return { paperIds: scopePapers.split(',').filter(Boolean) }
+    if (scopeTag) return { tag: scopeTag }
+    if (scopeCollection) return { collectionId: scopeCollection }
+    return undefined
+  }, [scopePapers, scopeTag, scopeCollection])
+
+  // A single paper is named by its title, a collection by its name
+  const [scopeTitle, setScopeTitle] = useState<string | null>(null)
+  useEffect(() => {
+    setScopeTitle(null)
+
+    const token = localStorage.getItem('auth_token')
+    const headers = token ? { 'Authorization': `Bearer ${token}` } : undefined
+
+    if (scope?.collectionId) {
+      fetch(`/api/collections/${encodeURIComponent(scope.collectionId)}`, { headers })
+        .then(response => (response.ok ? response.json() : null))
+        .then(body => setScopeTitle(body?.data?.name || null))
+        .catch(err => console.error('Failed to load collection:', err))
+      return
+    }
+    if (scope?.paperIds?.length !== 1) return
+
+    fetch(`/api/papers?id=${encodeURIComponent(scope.paperIds[0])}`, { headers })
+      .then(response => (response.ok ? response.json() : null))
+      .then(paper => setScopeTitle(paper?.title || null))
+      .catch(err => console.error('Failed to load paper:', err))
+  }, [scope])
+
+  const scopeLabel = !scope
+    ? null
+    : scope.tag
+      ? `Papers tagged "${scope.tag}"`
+      : scope.collectionId
+        ? `Collection "${scopeTitle || '...'}" and its subcollections`
+        : scope.paperIds?.length === 1
+          ? scopeTitle || '1 paper'
+          : `${scope.paperIds?.length} selected papers`
+
   const {
     messages,
     isLoading,
     error,
     sendMessage,
+    cancel,
+    conversation,
+    loadConversation,
     clearHistory,
     exportHistory,
     importHistory,
     conversationStats
   } = useRAGChat({
     openaiApiKey,
+    openaiCompatible,
     autoSave: true,
-    storageKey: 'science-paper-rag-chat'
+    storageKey: 'science-paper-rag-chat',
+    citationStyle: citationStyle === 'none' ? undefined : citationStyle,
+    // Signed-in users' conversations are saved on the server and can be resumed
+    persistConversations: !!user,
+    scope
   })
 
+  const {
+    conversations,
+    isLoading: conversationsLoading,
+    reload: reloadConversations,
+    renameConversation,
+    deleteConversation
+  } = useRAGConversations({ autoLoad: !!user })
+
+  // A new question may start a conversation or give it its title
+  const conversationVersion = conversation
+    ? `${conversation.id}:${conversation.title}:${conversation.updatedAt.getTime()}`
+    : null
+  useEffect(() => {
+    if (user && conversationVersion) {
+      reloadConversations()
+    }
+  }, [user, conversationVersion, reloadConversations])
+
+  const handleSelectConversation = useCallback((selected: RAGConversation) => {
+    if (selected.id !== conversation?.id) {
+      loadConversation(selected.id)
+    }
+  }, [conversation?.id, loadConversation])
+
+  const handleRenameConversation = useCallback(async (selected: RAGConversation) => {
+    const title = prompt('Rename conversation', selected.title)
+    if (!title || title.trim() === selected.title) return
+
+    try {
+      await renameConversation(selected.id, title)
+    } catch (error) {
+      console.error('Failed to rename conversation:', error)
+      alert(error instanceof Error ? error.message : 'Failed to rename conversation')
+    }
+  }, [renameConversation])
+
+  const handleDeleteConversation = useCallback(async (selected: RAGConversation) => {
+    if (!confirm(`Delete "${selected.title}"? This action cannot be undone.`)) return
+
+    try {
+      await deleteConversation(selected.id)
+      if (selected.id === conversation?.id) {
+        clearHistory()
+      }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete conversation')
+    }
+  }, [conversation?.id, deleteConversation, clearHistory])
+
   const handleSendMessage = useCallback(async (message: string) => {
     await sendMessage(message, searchFilters)
   }, [sendMessage, searchFilters])
@@ -77,24 +222,19 @@ export default function ChatPage() {
     }
   }, [clearHistory])
 
-  if (!openaiApiKey) {
-    return (
-      <ProtectedRoute>
-        <div className="container mx-auto py-8">
+  return (
+    <ProtectedRoute>
+      <div className="container mx-auto py-6 space-y-6">
+      {!openaiApiKey && (
         <Alert>
           <Settings className="h-4 w-4" />
           <AlertDescription>
-            Please configure your OpenAI API key in the settings to use the RAG chat feature.
+            No OpenAI API key configured: answers are assembled from the most relevant passages without AI synthesis.
+            Add a key in the settings for full answers.
           </AlertDescription>
         </Alert>
-        </div>
-      </ProtectedRoute>
-    )
-  }
+      )}
 
-  return (
-    <ProtectedRoute>
-      <div className="container mx-auto py-6 space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
@@ -105,6 +245,21 @@ export default function ChatPage() {
         </div>
         
         <div className="flex items-center gap-2">
+          {/* Bibliography style */}
+          <Select value={citationStyle} onValueChange={setCitationStyle}>
+            <SelectTrigger className="w-48" size="sm" aria-label="Bibliography style">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No bibliography</SelectItem>
+              {citationStyles.map(style => (
+                <SelectItem key={style.id} value={style.id}>
+                  {style.name} bibliography
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           {/* Statistics */}
           <Dialog open={showStats} onOpenChange={setShowStats}>
             <DialogTrigger asChild>
@@ -184,6 +339,35 @@ export default function ChatPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Search Filters Sidebar */}
         <div className="lg:col-span-1 space-y-4">
+          {scope && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Chatting about</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm font-medium">{scopeLabel}</p>
+                <p className="text-xs text-muted-foreground">
+                  Answers only use these papers.
+                </p>
+                <Button variant="outline" size="sm" onClick={() => router.replace('/chat')}>
+                  Ask the whole library
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {user && (
+            <ConversationList
+              conversations={conversations}
+              activeId={conversation?.id}
+              isLoading={conversationsLoading}
+              onSelect={handleSelectConversation}
+              onNew={clearHistory}
+              onRename={handleRenameConversation}
+              onDelete={handleDeleteConversation}
+            />
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Search Filters</CardTitle>
@@ -261,6 +445,7 @@ export default function ChatPage() {
             messages={messages}
             onSendMessage={handleSendMessage}
             isLoading={isLoading}
+            onCancel={cancel}
             error={error}
             className="w-full"
           />
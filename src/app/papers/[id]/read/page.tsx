@@ -0,0 +1,46 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+// Text layer styles for selecting text on rendered pages
+import 'pdfjs-dist/web/pdf_viewer.css'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { PdfReader } from '@/components/papers'
+import { Button } from '@/components/ui/button'
+
+export default function ReadPaperPage() {
+  const { id } = useParams<{ id: string }>()
+  const [title, setTitle] = useState<string | null>(null)
+
+  useEffect(() => {
+    const token = localStorage.getItem('auth_token')
+    fetch(`/api/papers?id=${encodeURIComponent(id)}`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : undefined
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(paper => setTitle(paper?.title || null))
+      .catch(error => console.error('Failed to load paper:', error))
+  }, [id])
+
+  return (
+    <ProtectedRoute>
+      <div className="flex flex-col h-screen">
+        <div className="flex items-center gap-4 border-b px-4 py-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/papers" className="flex items-center gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Back to Papers
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold truncate">{title || 'Reader'}</h1>
+        </div>
+
+        <div className="flex-1 min-h-0">
+          <PdfReader paperId={id} />
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { DuplicateReview } from '@/components/papers/DuplicateReview'
+import { Button } from '@/components/ui/button'
+
+export default function DuplicatePapersPage() {
+  return (
+    <ProtectedRoute>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-6">
+          <Button variant="ghost" asChild>
+            <Link href="/papers" className="flex items-center gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Back to Papers
+            </Link>
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Duplicate Papers</h1>
+          <p className="text-gray-600">
+            Papers matched by DOI, title, authors and year. Merging keeps the selected paper and moves
+            ratings, notes, AI analyses and embeddings onto it.
+          </p>
+        </div>
+
+        <DuplicateReview />
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -1,14 +1,15 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { Paper, UserEvaluation, MultiModelAnalysis } from '@/types'
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
-import { PaperList, PaperDetail } from '@/components/papers'
+import { PaperList, PaperDetail, BibliographyImport, BibliographyExportMenu } from '@/components/papers'
 import { PaperUpload } from '@/components/papers/PaperUpload'
 import { PaperUploadService } from '@/services/upload/PaperUploadService'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { ArrowLeft, Upload, FileText } from 'lucide-react'
+import { ArrowLeft, Upload, FileText, Copy, FileUp } from 'lucide-react'
 import { toast } from 'sonner'
 
 // Mock data for demonstration
@@ -255,15 +256,26 @@ export default function PapersPage() {
   return (
     <ProtectedRoute>
       <div className="container mx-auto px-4 py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Research Papers</h1>
-        <p className="text-gray-600">
-          Manage and analyze your research paper collection with AI-powered insights
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Research Papers</h1>
+          <p className="text-gray-600">
+            Manage and analyze your research paper collection with AI-powered insights
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <BibliographyExportMenu label="Export Library" />
+          <Button variant="outline" asChild>
+            <Link href="/papers/duplicates" className="flex items-center gap-2">
+              <Copy className="h-4 w-4" />
+              Find Duplicates
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2 max-w-md">
+        <TabsList className="grid w-full grid-cols-3 max-w-lg">
           <TabsTrigger value="list" className="flex items-center gap-2">
             <FileText className="h-4 w-4" />
             Papers ({papers.length})
@@ -272,6 +284,10 @@ export default function PapersPage() {
             <Upload className="h-4 w-4" />
             Upload New
           </TabsTrigger>
+          <TabsTrigger value="import" className="flex items-center gap-2">
+            <FileUp className="h-4 w-4" />
+            Import
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="list" className="mt-6">
@@ -293,6 +309,10 @@ export default function PapersPage() {
             className="max-w-4xl"
           />
         </TabsContent>
+
+        <TabsContent value="import" className="mt-6 max-w-4xl">
+          <BibliographyImport />
+        </TabsContent>
       </Tabs>
       </div>
     </ProtectedRoute>
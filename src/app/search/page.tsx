@@ -1,30 +1,28 @@
 'use client'
 
 import { useState, useCallback, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
 import { Settings, Database, AlertCircle, CheckCircle } from 'lucide-react'
-import { SemanticSearch, SearchResults } from '@/components/search'
+import { SemanticSearchEnhanced } from '@/components/search/SemanticSearchEnhanced'
+import { SavedSearches } from '@/components/search/SavedSearches'
 import { useVectorService } from '@/hooks/useVectorService'
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
-import type { SearchFilters } from '@/types'
+import type { SearchQuery, SearchResponse } from '@/services/search/AdvancedSearchService'
+import type { SavedSearch } from '@/services/search/SavedSearchService'
 
 export default function SearchPage() {
-  const router = useRouter()
   const [openaiApiKey, setOpenaiApiKey] = useState<string>('')
   const [showApiKeyPrompt, setShowApiKeyPrompt] = useState(false)
-  const [lastQuery, setLastQuery] = useState<string>('')
+  const [lastSearch, setLastSearch] = useState<SearchQuery | null>(null)
+  const [appliedSearch, setAppliedSearch] = useState<SavedSearch | null>(null)
+  const [applyCount, setApplyCount] = useState(0)
 
   const {
     isInitialized,
-    isSearching,
     error,
-    searchResults,
     initializeService,
-    performSearch,
-    clearResults,
     getStats
   } = useVectorService({ openaiApiKey })
 
@@ -34,14 +32,13 @@ export default function SearchPage() {
     lastUpdated?: Date
   } | null>(null)
 
-  // Load API key from localStorage on mount
+  // Load API key from localStorage on mount. Lexical search works without it, and
+  // semantic ranking only needs it when the library embeds with OpenAI.
   useEffect(() => {
     const storedKey = localStorage.getItem('openai_api_key')
     if (storedKey) {
       setOpenaiApiKey(storedKey)
       initializeService(storedKey)
-    } else {
-      setShowApiKeyPrompt(true)
     }
   }, [initializeService])
 
@@ -68,59 +65,14 @@ export default function SearchPage() {
     setShowApiKeyPrompt(false)
   }, [initializeService])
 
-  const handleSearch = useCallback(async (query: string, filters?: SearchFilters) => {
-    if (!isInitialized) {
-      setShowApiKeyPrompt(true)
-      return
-    }
-
-    setLastQuery(query)
-    
-    // Convert filters to vector search options
-    const searchOptions = {
-      matchCount: 20,
-      similarityThreshold: 0.5,
-      filter: {} as Record<string, string | number | string[]>
-    }
-
-    // Apply filters to search options
-    if (filters?.readingStatus?.length) {
-      searchOptions.filter.reading_status = filters.readingStatus[0]
-    }
-
-    if (filters?.publicationYear) {
-      if (filters.publicationYear.min) {
-        searchOptions.filter.publication_year_min = filters.publicationYear.min
-      }
-      if (filters.publicationYear.max) {
-        searchOptions.filter.publication_year_max = filters.publicationYear.max
-      }
-    }
-
-    if (filters?.rating) {
-      if (filters.rating.min) {
-        searchOptions.filter.rating_min = filters.rating.min
-      }
-      if (filters.rating.max) {
-        searchOptions.filter.rating_max = filters.rating.max
-      }
-    }
-
-    if (filters?.tags?.length) {
-      searchOptions.filter.tags = filters.tags
-    }
-
-    await performSearch(query, searchOptions)
-  }, [isInitialized, performSearch])
+  const handleResultsChange = useCallback((response: SearchResponse) => {
+    setLastSearch(response.query)
+  }, [])
 
-  const handlePaperSelect = useCallback((paperId: string) => {
-    router.push(`/papers/${paperId}`)
-  }, [router])
-
-  const handleClearResults = useCallback(() => {
-    clearResults()
-    setLastQuery('')
-  }, [clearResults])
+  const handleApplySavedSearch = useCallback((savedSearch: SavedSearch) => {
+    setAppliedSearch(savedSearch)
+    setApplyCount(count => count + 1)
+  }, [])
 
   if (showApiKeyPrompt) {
     return (
@@ -219,20 +171,13 @@ export default function SearchPage() {
       </div>
 
       {/* Service Status */}
-      {isInitialized ? (
+      {isInitialized && (
         <Alert>
           <CheckCircle className="h-4 w-4" />
           <AlertDescription>
             Vector search service is ready. {stats?.totalDocuments || 0} documents indexed.
           </AlertDescription>
         </Alert>
-      ) : (
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>
-            Vector search service is not initialized. Please configure your OpenAI API key.
-          </AlertDescription>
-        </Alert>
       )}
 
       {/* Error Display */}
@@ -243,44 +188,33 @@ export default function SearchPage() {
         </Alert>
       )}
 
-      {/* Search Interface */}
-      <Card>
-        <CardContent className="pt-6">
-          <SemanticSearch
-            onSearch={handleSearch}
-            isSearching={isSearching}
-            placeholder="Search papers by meaning, concepts, or ask questions..."
+      <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+        {/* Saved Searches */}
+        <aside>
+          <SavedSearches
+            currentSearch={lastSearch}
+            selectedId={appliedSearch?.id}
+            onApply={handleApplySavedSearch}
           />
-        </CardContent>
-      </Card>
+        </aside>
 
-      {/* Results Section */}
-      {(searchResults.length > 0 || isSearching) && (
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <h2 className="text-xl font-semibold">Search Results</h2>
-            {searchResults.length > 0 && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleClearResults}
-              >
-                Clear Results
-              </Button>
-            )}
-          </div>
-          
-          <SearchResults
-            results={searchResults}
-            onPaperSelect={handlePaperSelect}
-            isLoading={isSearching}
-            query={lastQuery}
+        {/* Search Interface; remounted to apply a saved search */}
+        <div className="min-w-0">
+          <SemanticSearchEnhanced
+            key={applyCount}
+            initialSearch={appliedSearch ? {
+              query: appliedSearch.query,
+              filters: appliedSearch.filters,
+              sortBy: appliedSearch.sortBy
+            } : undefined}
+            openaiApiKey={openaiApiKey}
+            onResultsChange={handleResultsChange}
           />
         </div>
-      )}
+      </div>
 
       {/* Getting Started */}
-      {!isSearching && searchResults.length === 0 && !lastQuery && (
+      {!lastSearch && (
         <Card>
           <CardHeader>
             <CardTitle>Getting Started with Semantic Search</CardTitle>
@@ -10,8 +10,10 @@ import { ZoteroManager } from '@/components/zotero'
 import { APIKeyManager } from '@/components/ai/APIKeyManager'
 import { AIModelSelector } from '@/components/ai/AIModelSelector'
 import { GoogleDriveSettings } from '@/components/settings/GoogleDriveSettings'
+import { StorageSettings } from '@/components/settings/StorageSettings'
 import { SettingsBackup } from '@/components/settings/SettingsBackup'
 import { EnvironmentStatus } from '@/components/settings/EnvironmentStatus'
+import { CitationStyleSettings } from '@/components/settings/CitationStyleSettings'
 import { useAuthenticationSecurity } from '@/hooks/useAuthenticationSecurity'
 import { useAuth } from '@/components/auth/AuthProvider'
 import { Bot, Key, Cloud, BookOpen, Shield, AlertTriangle, Download, Settings } from 'lucide-react'
@@ -139,6 +141,8 @@ export default function SettingsPage() {
                   <GoogleDriveSettings />
                 </CardContent>
               </Card>
+
+              <StorageSettings />
             </TabsContent>
 
             <TabsContent value="reference-manager" className="space-y-6">
@@ -156,6 +160,8 @@ export default function SettingsPage() {
                   <ZoteroManager />
                 </CardContent>
               </Card>
+
+              <CitationStyleSettings />
             </TabsContent>
 
             <TabsContent value="backup-restore" className="space-y-6">
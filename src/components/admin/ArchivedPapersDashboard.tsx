@@ -0,0 +1,182 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Archive, ArchiveRestore, RefreshCw, Trash2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import type { PaperArchiveReason } from '@/types'
+
+interface ArchivedPaper {
+  id: string
+  title: string
+  authors: string[]
+  zoteroKey?: string
+  ownerId?: string
+  archivedAt: string
+  archiveReason: PaperArchiveReason
+}
+
+const PAGE_SIZE = 50
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  return token ? { 'Authorization': `Bearer ${token}` } : {}
+}
+
+export function ArchivedPapersDashboard() {
+  const [papers, setPapers] = useState<ArchivedPaper[]>([])
+  const [total, setTotal] = useState(0)
+  const [offset, setOffset] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const loadPapers = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ limit: PAGE_SIZE.toString(), offset: offset.toString() })
+      const response = await fetch(`/api/admin/papers/archived?${params}`, { headers: authHeaders() })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load archived papers')
+      }
+
+      setPapers(data.data)
+      setTotal(data.pagination.total)
+    } catch (error) {
+      console.error('Failed to load archived papers:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load archived papers',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [offset, toast])
+
+  useEffect(() => {
+    loadPapers()
+  }, [loadPapers])
+
+  const restorePaper = async (paper: ArchivedPaper) => {
+    try {
+      setRestoringId(paper.id)
+      const response = await fetch(`/api/admin/papers/${paper.id}/restore`, {
+        method: 'POST',
+        headers: authHeaders()
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details || data.error || 'Failed to restore paper')
+      }
+
+      toast({
+        title: 'Success',
+        description: `"${paper.title}" is back in its owner's library`
+      })
+      setPapers(prev => prev.filter(item => item.id !== paper.id))
+      setTotal(prev => prev - 1)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore paper',
+        variant: 'destructive'
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const getReasonBadge = (reason: PaperArchiveReason) => {
+    if (reason === 'zotero_deleted') {
+      return <Badge variant="destructive"><Trash2 className="w-3 h-3 mr-1" />Deleted in Zotero</Badge>
+    }
+    return <Badge variant="secondary"><Archive className="w-3 h-3 mr-1" />In Zotero trash</Badge>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Archived Papers</h1>
+          <p className="text-muted-foreground">
+            Papers removed from their owners&apos; libraries because their Zotero item was deleted or trashed
+          </p>
+        </div>
+        <Button onClick={loadPapers} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{total} archived {total === 1 ? 'paper' : 'papers'}</CardTitle>
+          <CardDescription>
+            Archived papers keep their evaluations and analyses but are hidden from the library, search and chat.
+            Restoring one embeds it again. Papers restored in Zotero come back on the next sync.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {papers.map(paper => (
+            <div key={paper.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium truncate">{paper.title}</p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {paper.authors.join(', ') || 'Unknown authors'}
+                </p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {getReasonBadge(paper.archiveReason)}
+                  <span>Archived {new Date(paper.archivedAt).toLocaleString()}</span>
+                  {paper.zoteroKey && <span>Zotero key {paper.zoteroKey}</span>}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={restoringId === paper.id}
+                onClick={() => restorePaper(paper)}
+              >
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                Restore
+              </Button>
+            </div>
+          ))}
+
+          {!loading && papers.length === 0 && (
+            <p className="text-sm text-muted-foreground">No archived papers.</p>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset === 0 || loading}
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset + PAGE_SIZE >= total || loading}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
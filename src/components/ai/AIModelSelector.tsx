@@ -14,12 +14,16 @@ import { AIProvider } from '@/services/settings/UserApiKeyService'
 import { CheckCircle, XCircle, Loader2, Settings, Sliders } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 import { debounce } from '@/utils'
+import { PromptTemplateManager } from './PromptTemplateManager'
+import type { PromptTemplate } from '@/services/ai/promptTemplates'
 
 export interface AIModelSelectorProps {
   onPreferencesUpdate?: (preferences: ModelPreference[]) => void
+  // Called when the user picks the prompt template analyses run with; null is the built-in analysis
+  onTemplateChange?: (template: PromptTemplate | null) => void
 }
 
-export function AIModelSelector({ onPreferencesUpdate }: AIModelSelectorProps) {
+export function AIModelSelector({ onPreferencesUpdate, onTemplateChange }: AIModelSelectorProps) {
   const [modelPreferences, setModelPreferences] = useState<ModelPreference[]>([])
   const [availableModels, setAvailableModels] = useState<Record<AIProvider, ModelOption[]>>({})
   const [loading, setLoading] = useState(true)
@@ -41,7 +45,7 @@ export function AIModelSelector({ onPreferencesUpdate }: AIModelSelectorProps) {
         setModelPreferences(preferences)
         
         // Load available models for all providers
-        const providers: AIProvider[] = ['openai', 'anthropic', 'xai', 'gemini']
+        const providers: AIProvider[] = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
         const modelsMap: Record<AIProvider, ModelOption[]> = {} as Record<AIProvider, ModelOption[]>
         
         providers.forEach(provider => {
@@ -75,7 +79,7 @@ export function AIModelSelector({ onPreferencesUpdate }: AIModelSelectorProps) {
     if (!user) return
     
     try {
-      const providers: AIProvider[] = ['openai', 'anthropic', 'xai', 'gemini']
+      const providers: AIProvider[] = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
       
       for (const provider of providers) {
         // Check if user has API key for this provider (this would need to be implemented)
@@ -275,7 +279,8 @@ export function AIModelSelector({ onPreferencesUpdate }: AIModelSelectorProps) {
       openai: 'OpenAI',
       anthropic: 'Anthropic',
       xai: 'xAI',
-      gemini: 'Google Gemini'
+      gemini: 'Google Gemini',
+      'openai-compatible': 'Self-hosted (OpenAI-compatible)'
     }
     return names[provider]
   }
@@ -518,6 +523,8 @@ export function AIModelSelector({ onPreferencesUpdate }: AIModelSelectorProps) {
           )
         })}
       </div>
+
+      <PromptTemplateManager onTemplateChange={onTemplateChange} />
     </div>
   )
 }
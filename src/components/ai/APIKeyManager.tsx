@@ -9,6 +9,7 @@ import { Switch } from '@/components/ui/switch'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Eye, EyeOff, CheckCircle, XCircle, AlertTriangle, DollarSign, RefreshCw, Loader2 } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 import { useAuth } from '@/components/auth/AuthProvider'
@@ -48,19 +49,32 @@ const AI_SERVICES = [
     description: 'Gemini Pro models',
     placeholder: 'AI...',
     website: 'https://makersuite.google.com/app/apikey'
+  },
+  {
+    id: 'openai-compatible' as AIProvider,
+    name: 'Self-hosted (OpenAI-compatible)',
+    description: 'Ollama, vLLM, LM Studio or any server with the OpenAI API; papers stay on your server',
+    placeholder: 'Optional',
+    website: 'https://github.com/ollama/ollama/blob/main/docs/openai.md'
   }
 ]
 
+// Ollama's default; most local servers serve the OpenAI API under /v1
+const DEFAULT_BASE_URL_PLACEHOLDER = 'http://localhost:11434/v1'
+
 export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
   const [apiKeys, setApiKeys] = useState<APIKeyInfo[]>([])
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({})
   const [tempKeys, setTempKeys] = useState<Record<string, string>>({})
+  const [tempBaseUrl, setTempBaseUrl] = useState('')
+  const [serverModels, setServerModels] = useState<string[]>([])
+  const [loadingModels, setLoadingModels] = useState(false)
   const [loading, setLoading] = useState(true)
   
   const { toast } = useToast()
   const { user } = useAuth()
   const apiKeyService = new UserApiKeyService()
-  const { validateApiKey, validationState, retryValidation, clearValidation, isRetryable } = useApiKeyValidation()
+  const { validateApiKey, validateSetting, validationState, retryValidation, clearValidation, isRetryable } = useApiKeyValidation()
   const { saveSettings, saveState } = useSettingsSave()
 
   // Load API keys from Supabase on mount
@@ -72,6 +86,7 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
         setLoading(true)
         const keys = await apiKeyService.getUserApiKeys(user.id)
         setApiKeys(keys)
+        setTempBaseUrl(keys.find(k => k.provider === 'openai-compatible')?.baseUrl || '')
       } catch (error) {
         // Error loading API keys
         toast({
@@ -92,13 +107,39 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
     onKeysUpdate?.(apiKeys)
   }, [apiKeys, onKeysUpdate])
 
+  // Models the self-hosted server offers, for picking the one analyses use
+  const loadServerModels = async () => {
+    if (!user) return
+
+    setLoadingModels(true)
+    try {
+      setServerModels(await apiKeyService.discoverModels(user.id))
+    } catch (error) {
+      toast({
+        title: 'Could Not List Models',
+        description: error instanceof Error ? error.message : 'Failed to reach the model server',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoadingModels(false)
+    }
+  }
+
   const validateApiKeyForProvider = async (serviceId: AIProvider, key: string) => {
     if (!user) return false
 
+    const isSelfHosted = serviceId === 'openai-compatible'
+
     // Create a test function for this specific provider
     const testFunction = async (apiKey: string): Promise<boolean> => {
       // Save the API key first
-      await apiKeyService.saveApiKey(user.id, { provider: serviceId, apiKey })
+      await apiKeyService.saveApiKey(user.id, {
+        provider: serviceId,
+        apiKey,
+        ...(isSelfHosted
+          ? { baseUrl: tempBaseUrl, modelName: apiKeys.find(k => k.provider === serviceId)?.modelName }
+          : {})
+      })
       
       // Then validate it
       const isValid = await apiKeyService.validateApiKey(user.id, serviceId)
@@ -111,22 +152,30 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
     }
 
     const serviceName = AI_SERVICES.find(s => s.id === serviceId)?.name || serviceId
-
-    return validateApiKey(
-      serviceName,
-      key,
-      testFunction,
-      {
-        showToast: true,
-        onSuccess: () => {
-          // Clear the temp key on successful validation
-          setTempKeys(prev => ({ ...prev, [serviceId]: '' }))
-        },
-        onError: (error: SettingsError) => {
-          // Error validating API key
+    const options = {
+      showToast: true,
+      onSuccess: () => {
+        // Clear the temp key on successful validation
+        setTempKeys(prev => ({ ...prev, [serviceId]: '' }))
+        if (isSelfHosted) {
+          loadServerModels()
         }
+      },
+      onError: (error: SettingsError) => {
+        // Error validating API key
       }
-    )
+    }
+
+    // A self-hosted server may not need a key, so validate the server itself
+    if (isSelfHosted) {
+      return validateSetting(
+        () => testFunction(key),
+        { provider: serviceName, field: 'baseUrl' },
+        { autoRetry: true, maxRetries: 2, retryDelay: 2000, ...options }
+      )
+    }
+
+    return validateApiKey(serviceName, key, testFunction, options)
   }
 
   const handleKeyChange = (serviceId: AIProvider, value: string) => {
@@ -135,7 +184,16 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
 
   const handleKeySave = async (serviceId: AIProvider) => {
     const key = tempKeys[serviceId]?.trim() || ''
-    if (!key) {
+    if (serviceId === 'openai-compatible') {
+      if (!tempBaseUrl.trim()) {
+        toast({
+          title: 'Base URL Required',
+          description: 'Please enter the address of your model server before saving',
+          variant: 'destructive'
+        })
+        return
+      }
+    } else if (!key) {
       toast({
         title: 'API Key Required',
         description: 'Please enter an API key before saving',
@@ -162,6 +220,10 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
           const updatedKeys = await apiKeyService.getUserApiKeys(user.id)
           setApiKeys(updatedKeys)
           setTempKeys(prev => ({ ...prev, [serviceId]: '' }))
+          if (serviceId === 'openai-compatible') {
+            setTempBaseUrl('')
+            setServerModels([])
+          }
           clearValidation()
         }
       }
@@ -188,6 +250,25 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
     })
   }
 
+  const handleServerModelSelect = async (modelName: string) => {
+    if (!user) return
+
+    try {
+      await apiKeyService.setModel(user.id, 'openai-compatible', modelName)
+      setApiKeys(await apiKeyService.getUserApiKeys(user.id))
+      toast({
+        title: 'Model Selected',
+        description: `Analyses and chat answers will use ${modelName}`
+      })
+    } catch (error) {
+      toast({
+        title: 'Could Not Select Model',
+        description: error instanceof Error ? error.message : 'Failed to save the model',
+        variant: 'destructive'
+      })
+    }
+  }
+
   const toggleKeyVisibility = (serviceId: AIProvider) => {
     setShowKeys(prev => ({ ...prev, [serviceId]: !prev[serviceId] }))
   }
@@ -316,6 +397,10 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
             const isCurrentlySaving = saveState.isSaving
             const hasValidationError = validationState.error?.provider === service.name
             const canRetry = hasValidationError && isRetryable
+            const isSelfHosted = service.id === 'openai-compatible'
+            const modelOptions = keyInfo?.modelName && !serverModels.includes(keyInfo.modelName)
+              ? [keyInfo.modelName, ...serverModels]
+              : serverModels
 
             return (
               <Card key={service.id}>
@@ -339,9 +424,23 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  {isSelfHosted && (
+                    <div>
+                      <Label htmlFor="base-url-openai-compatible">Base URL</Label>
+                      <Input
+                        id="base-url-openai-compatible"
+                        type="url"
+                        placeholder={DEFAULT_BASE_URL_PLACEHOLDER}
+                        value={tempBaseUrl}
+                        onChange={(e) => setTempBaseUrl(e.target.value)}
+                        disabled={isCurrentlyValidating || isCurrentlySaving}
+                      />
+                    </div>
+                  )}
+
                   <div className="flex gap-2">
                     <div className="flex-1">
-                      <Label htmlFor={`key-${service.id}`}>API Key</Label>
+                      <Label htmlFor={`key-${service.id}`}>{isSelfHosted ? 'API Key (optional)' : 'API Key'}</Label>
                       <div className="relative">
                         <Input
                           id={`key-${service.id}`}
@@ -367,7 +466,7 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
                     <div className="flex flex-col gap-2 pt-6">
                       <Button
                         onClick={() => handleKeySave(service.id)}
-                        disabled={isCurrentlyValidating || isCurrentlySaving || !tempKey.trim()}
+                        disabled={isCurrentlyValidating || isCurrentlySaving || (isSelfHosted ? !tempBaseUrl.trim() : !tempKey.trim())}
                         size="sm"
                       >
                         {isCurrentlyValidating ? (
@@ -427,6 +526,32 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
                     </Alert>
                   )}
 
+                  {isSelfHosted && keyInfo?.isValid && (
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1">
+                        <Label htmlFor="model-openai-compatible">Model</Label>
+                        <Select value={keyInfo.modelName || ''} onValueChange={handleServerModelSelect}>
+                          <SelectTrigger id="model-openai-compatible">
+                            <SelectValue placeholder="First model the server lists" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {modelOptions.map(model => (
+                              <SelectItem key={model} value={model}>{model}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={loadServerModels} disabled={loadingModels}>
+                        {loadingModels ? (
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        ) : (
+                          <RefreshCw className="w-3 h-3 mr-1" />
+                        )}
+                        Find Models
+                      </Button>
+                    </div>
+                  )}
+
                   {keyInfo?.lastValidatedAt && (
                     <div className="text-sm text-gray-600">
                       Last validated: {keyInfo.lastValidatedAt.toLocaleString()}
@@ -445,7 +570,7 @@ export function APIKeyManager({ onKeysUpdate }: APIKeyManagerProps) {
                       rel="noopener noreferrer"
                       className="text-blue-600 hover:underline"
                     >
-                      Get API Key →
+                      {isSelfHosted ? 'Setup guide →' : 'Get API Key →'}
                     </a>
                     
                     {keyInfo?.isValid && (
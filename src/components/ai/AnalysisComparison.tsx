@@ -19,7 +19,11 @@ import {
   BarChart3,
   CheckCircle,
   AlertCircle,
-  Loader2
+  Loader2,
+  Lightbulb,
+  FlaskConical,
+  AlertTriangle,
+  Star
 } from 'lucide-react'
 
 export interface AnalysisComparisonProps {
@@ -37,6 +41,28 @@ interface AnalysisMetrics {
   color: string
 }
 
+const SCORE_LABELS: Record<string, string> = {
+  novelty: 'Novelty',
+  methodology: 'Methodology',
+  impact: 'Impact',
+  clarity: 'Clarity'
+}
+
+/**
+ * The 1-10 scores from a structured analysis, if the result has them
+ */
+function getScores(result?: AIAnalysisResult): Record<string, number> | undefined {
+  const scores = result?.scientificRelevance?.scores
+  if (!scores || typeof scores !== 'object') return undefined
+
+  const entries = Object.entries(scores).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+function hasStructuredFields(result: AIAnalysisResult): boolean {
+  return !!(result.keyFindings?.length || result.methodology || result.limitations || result.significance)
+}
+
 export function AnalysisComparison({
   analyses,
   paperId,
@@ -71,6 +97,12 @@ export function AnalysisComparison({
       result: analyses.gemini,
       displayName: 'Gemini',
       color: 'bg-purple-500'
+    },
+    {
+      provider: 'openai-compatible',
+      result: analyses['openai-compatible'],
+      displayName: 'Self-hosted',
+      color: 'bg-slate-500'
     }
   ]
 
@@ -235,6 +267,7 @@ export function AnalysisComparison({
                             {metric.result ? (
                               <p className="text-sm text-muted-foreground">
                                 {metric.result.keywords.length} keywords • 
+                                {metric.result.keyFindings && `${metric.result.keyFindings.length} findings • `}
                                 {formatProcessingTime(metric.result.processingTimeMs)} • 
                                 {(metric.result.confidenceScore * 100).toFixed(0)}% confidence
                               </p>
@@ -394,6 +427,74 @@ export function AnalysisComparison({
                         </CardContent>
                       </Card>
                       
+                      {result.keyFindings && result.keyFindings.length > 0 && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <Lightbulb className="h-4 w-4" />
+                              Key Findings
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <ul className="list-disc pl-5 space-y-1 text-sm">
+                              {result.keyFindings.map((finding, index) => (
+                                <li key={index}>{finding}</li>
+                              ))}
+                            </ul>
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {result.methodology && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <FlaskConical className="h-4 w-4" />
+                              Methodology
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <p className="text-sm leading-relaxed">{result.methodology}</p>
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {result.limitations && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <AlertTriangle className="h-4 w-4" />
+                              Limitations
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            {result.limitations.length > 0 ? (
+                              <ul className="list-disc pl-5 space-y-1 text-sm">
+                                {result.limitations.map((limitation, index) => (
+                                  <li key={index}>{limitation}</li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">No limitations identified.</p>
+                            )}
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {result.significance && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <Star className="h-4 w-4" />
+                              Significance
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <p className="text-sm leading-relaxed">{result.significance}</p>
+                          </CardContent>
+                        </Card>
+                      )}
+
                       {result.scientificRelevance && (
                         <Card>
                           <CardHeader>
@@ -403,9 +504,31 @@ export function AnalysisComparison({
                             </CardTitle>
                           </CardHeader>
                           <CardContent>
-                            <pre className="text-sm bg-muted p-3 rounded-lg overflow-auto">
-                              {JSON.stringify(result.scientificRelevance, null, 2)}
-                            </pre>
+                            {(() => {
+                              const scores = getScores(result)
+                              if (scores) {
+                                return (
+                                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                    {Object.entries(scores).map(([name, value]) => (
+                                      <div key={name} className="space-y-1">
+                                        <div className="flex justify-between text-sm">
+                                          <span>{SCORE_LABELS[name] || name}</span>
+                                          <span className="font-medium">{value}/10</span>
+                                        </div>
+                                        <Progress value={value * 10} />
+                                      </div>
+                                    ))}
+                                  </div>
+                                )
+                              }
+
+                              // Analyses from before structured output stored free-form relevance
+                              return hasStructuredFields(result) ? null : (
+                                <pre className="text-sm bg-muted p-3 rounded-lg overflow-auto">
+                                  {JSON.stringify(result.scientificRelevance, null, 2)}
+                                </pre>
+                              )
+                            })()}
                           </CardContent>
                         </Card>
                       )}
@@ -447,6 +570,49 @@ export function AnalysisComparison({
                   </CardContent>
                 </Card>
                 
+                {completedAnalyses.some(metric => getScores(metric.result)) && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Score Comparison</CardTitle>
+                      <CardDescription>
+                        How each model rated the paper (1-10)
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-muted-foreground">
+                            <th className="font-normal pb-2">Model</th>
+                            {Object.entries(SCORE_LABELS).map(([name, label]) => (
+                              <th key={name} className="font-normal pb-2 text-center">{label}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {completedAnalyses.map((metric) => {
+                            const scores = getScores(metric.result)
+                            return (
+                              <tr key={metric.provider} className="border-t">
+                                <td className="py-2">
+                                  <div className="flex items-center gap-2">
+                                    <div className={`w-3 h-3 rounded-full ${metric.color}`} />
+                                    {metric.displayName}
+                                  </div>
+                                </td>
+                                {Object.keys(SCORE_LABELS).map(name => (
+                                  <td key={name} className="py-2 text-center">
+                                    {scores?.[name] ?? '—'}
+                                  </td>
+                                ))}
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-base">Performance Comparison</CardTitle>
@@ -148,7 +148,7 @@ export function BackgroundAnalysisDemo({
           <div>
             <h4 className="font-medium mb-2">Select AI Providers</h4>
             <div className="flex flex-wrap gap-2">
-              {(['openai', 'anthropic', 'gemini', 'xai'] as AIProvider[]).map(provider => (
+              {(['openai', 'anthropic', 'gemini', 'xai', 'openai-compatible'] as AIProvider[]).map(provider => (
                 <Button
                   key={provider}
                   variant={selectedProviders.includes(provider) ? 'default' : 'outline'}
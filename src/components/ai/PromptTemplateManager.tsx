@@ -0,0 +1,317 @@
+'use client'
+
+import { useState } from 'react'
+import { FileCode2, History, Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { usePromptTemplates } from '@/hooks/usePromptTemplates'
+import {
+  DEFAULT_TEMPLATE_SYSTEM_PROMPT,
+  TEMPLATE_PRESETS,
+  TEMPLATE_VARIABLES,
+  type PromptTemplate,
+  type PromptTemplateInput,
+  type PromptTemplateVersion
+} from '@/services/ai/promptTemplates'
+
+// Select value for the built-in structured analysis
+const BUILT_IN = 'built-in'
+
+const EMPTY_TEMPLATE: PromptTemplateInput = {
+  name: '',
+  description: '',
+  systemPrompt: '',
+  userPrompt: ''
+}
+
+export interface PromptTemplateManagerProps {
+  onTemplateChange?: (template: PromptTemplate | null) => void
+}
+
+/**
+ * Create, edit and pick the prompt templates batch analysis runs
+ */
+export function PromptTemplateManager({ onTemplateChange }: PromptTemplateManagerProps) {
+  const {
+    templates,
+    selectedTemplateId,
+    isLoading,
+    error,
+    selectTemplate,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    getVersions
+  } = usePromptTemplates()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [draft, setDraft] = useState<PromptTemplateInput>(EMPTY_TEMPLATE)
+  const [saving, setSaving] = useState(false)
+  const [history, setHistory] = useState<{ template: PromptTemplate; versions: PromptTemplateVersion[] } | null>(null)
+  const { toast } = useToast()
+
+  const handleSelect = (value: string) => {
+    const template = templates.find(t => t.id === value) || null
+    selectTemplate(template?.id ?? null)
+    onTemplateChange?.(template)
+  }
+
+  const openEditor = (template?: PromptTemplate) => {
+    setEditingId(template?.id ?? null)
+    setDraft(template
+      ? {
+          name: template.name,
+          description: template.description || '',
+          systemPrompt: template.systemPrompt === DEFAULT_TEMPLATE_SYSTEM_PROMPT ? '' : template.systemPrompt,
+          userPrompt: template.userPrompt
+        }
+      : EMPTY_TEMPLATE)
+    setEditorOpen(true)
+  }
+
+  const insertVariable = (variable: string) => {
+    setDraft(prev => ({ ...prev, userPrompt: `${prev.userPrompt}{{${variable}}}` }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const saved = editingId ? await updateTemplate(editingId, draft) : await createTemplate(draft)
+      if (saved.id === selectedTemplateId) {
+        onTemplateChange?.(saved)
+      }
+      setEditorOpen(false)
+      toast({
+        title: editingId ? 'Template updated' : 'Template created',
+        description: `${saved.name} is at version ${saved.version}`
+      })
+    } catch (err) {
+      toast({
+        title: 'Save failed',
+        description: err instanceof Error ? err.message : 'Failed to save template',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!confirm(`Delete "${template.name}" and every analysis made with it?`)) return
+
+    try {
+      await deleteTemplate(template.id)
+      if (template.id === selectedTemplateId) {
+        onTemplateChange?.(null)
+      }
+      toast({ title: 'Template deleted', description: template.name })
+    } catch (err) {
+      toast({
+        title: 'Delete failed',
+        description: err instanceof Error ? err.message : 'Failed to delete template',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleShowHistory = async (template: PromptTemplate) => {
+    try {
+      setHistory({ template, versions: await getVersions(template.id) })
+    } catch (err) {
+      toast({
+        title: 'Could not load history',
+        description: err instanceof Error ? err.message : 'Failed to load template versions',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode2 className="h-5 w-5" />
+          Analysis Templates
+        </CardTitle>
+        <CardDescription>
+          Your own analysis prompts. Batch analysis runs the selected template instead of the built-in
+          structured analysis, and each result records the template version it used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="analysis-template">Analyze papers with</Label>
+            <Select value={selectedTemplateId || BUILT_IN} onValueChange={handleSelect} disabled={isLoading}>
+              <SelectTrigger id="analysis-template" className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BUILT_IN}>Built-in structured analysis</SelectItem>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name} (v{template.version})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+
+        {isLoading && templates.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading templates...
+          </div>
+        ) : templates.length > 0 && (
+          <div className="space-y-2">
+            {templates.map(template => (
+              <div key={template.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{template.name}</span>
+                    <Badge variant="outline">v{template.version}</Badge>
+                  </div>
+                  {template.description && (
+                    <p className="text-sm text-muted-foreground">{template.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleShowHistory(template)} aria-label={`History of ${template.name}`}>
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(template)} aria-label={`Edit ${template.name}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(template)} aria-label={`Delete ${template.name}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Template' : 'New Template'}</DialogTitle>
+            <DialogDescription>
+              Changing a prompt saves a new version; analyses already made keep the version they used.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {!editingId && (
+              <div className="space-y-2">
+                <Label htmlFor="template-preset">Start from</Label>
+                <Select onValueChange={value => setDraft({ ...EMPTY_TEMPLATE, ...TEMPLATE_PRESETS[Number(value)] })}>
+                  <SelectTrigger id="template-preset">
+                    <SelectValue placeholder="Blank template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEMPLATE_PRESETS.map((preset, index) => (
+                      <SelectItem key={preset.name} value={String(index)}>{preset.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name *</Label>
+              <Input id="template-name" value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                value={draft.description || ''}
+                onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-system">System prompt</Label>
+              <Textarea
+                id="template-system"
+                rows={2}
+                placeholder={DEFAULT_TEMPLATE_SYSTEM_PROMPT}
+                value={draft.systemPrompt || ''}
+                onChange={e => setDraft(prev => ({ ...prev, systemPrompt: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="template-prompt">Prompt *</Label>
+                <div className="flex gap-1">
+                  {TEMPLATE_VARIABLES.map(variable => (
+                    <Button key={variable} type="button" variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => insertVariable(variable)}>
+                      {`{{${variable}}}`}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <Textarea
+                id="template-prompt"
+                rows={10}
+                className="font-mono text-sm"
+                value={draft.userPrompt}
+                onChange={e => setDraft(prev => ({ ...prev, userPrompt: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                {'{{notes}}'} is your evaluation notes for the paper; {'{{fullText}}'} is its extracted text when there is any.
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !draft.name.trim() || !draft.userPrompt.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!history} onOpenChange={open => !open && setHistory(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{history?.template.name} versions</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-auto">
+            {history?.versions.map(version => (
+              <div key={version.version} className="space-y-1 border rounded-lg p-3">
+                <div className="flex items-center justify-between text-sm">
+                  <Badge variant={version.version === history.template.version ? 'default' : 'outline'}>
+                    v{version.version}
+                  </Badge>
+                  <span className="text-muted-foreground">{version.createdAt.toLocaleString()}</span>
+                </div>
+                <pre className="text-xs whitespace-pre-wrap bg-muted p-2 rounded">{version.userPrompt}</pre>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -263,4 +263,35 @@ describe('AnalysisComparison', () => {
     // Should not show scientific relevance section
     expect(screen.queryByText('Scientific Relevance')).not.toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  it('displays structured analysis fields in detailed view', async () => {
+    const user = userEvent.setup()
+    const structuredAnalysis: AIAnalysisResult = {
+      ...mockAnalysisResult,
+      scientificRelevance: {
+        scores: { novelty: 8, methodology: 7, impact: 9, clarity: 6 }
+      },
+      keyFindings: ['Attention improves recall'],
+      methodology: 'Ablation study on three benchmarks',
+      limitations: ['Single language corpus'],
+      significance: 'Sets a new baseline'
+    }
+
+    render(<AnalysisComparison {...mockProps} analyses={{ openai: structuredAnalysis }} />)
+
+    const openaiCard = screen.getByText('OpenAI').closest('.cursor-pointer')
+    if (openaiCard) {
+      await user.click(openaiCard)
+    }
+
+    await user.click(screen.getByText('Detailed'))
+
+    expect(screen.getByText('Key Findings')).toBeInTheDocument()
+    expect(screen.getByText('Attention improves recall')).toBeInTheDocument()
+    expect(screen.getByText('Ablation study on three benchmarks')).toBeInTheDocument()
+    expect(screen.getByText('Single language corpus')).toBeInTheDocument()
+    expect(screen.getByText('Sets a new baseline')).toBeInTheDocument()
+    expect(screen.getByText('9/10')).toBeInTheDocument()
+    expect(screen.queryByText(/"novelty"/)).not.toBeInTheDocument()
+  })
+})
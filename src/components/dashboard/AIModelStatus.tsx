@@ -19,7 +19,8 @@ const MODEL_INFO = {
   openai: { name: 'OpenAI', color: 'bg-green-500' },
   anthropic: { name: 'Anthropic', color: 'bg-orange-500' },
   xai: { name: 'xAI', color: 'bg-blue-500' },
-  gemini: { name: 'Gemini', color: 'bg-purple-500' }
+  gemini: { name: 'Gemini', color: 'bg-purple-500' },
+  'openai-compatible': { name: 'Self-hosted', color: 'bg-gray-500' }
 }
 
 export function AIModelStatus({ 
@@ -52,7 +53,7 @@ export function AIModelStatus({
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {[...Array(4)].map((_, i) => (
+            {[...Array(5)].map((_, i) => (
               <div key={i} className="flex items-center justify-between animate-pulse">
                 <div className="flex items-center space-x-3">
                   <div className="w-8 h-8 bg-slate-200 rounded"></div>
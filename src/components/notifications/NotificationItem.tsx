@@ -10,6 +10,8 @@ import {
   Info, 
   Shield,
   Database,
+  Search,
+  DollarSign,
   Trash2
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -30,7 +32,9 @@ const notificationIcons: Record<NotificationType, React.ComponentType<{ classNam
   new_paper_added: Bell,
   system_update: Info,
   security_alert: Shield,
-  backup_complete: Database
+  backup_complete: Database,
+  saved_search_match: Search,
+  ai_budget_warning: DollarSign
 }
 
 const notificationColors: Record<NotificationType, string> = {
@@ -39,7 +43,9 @@ const notificationColors: Record<NotificationType, string> = {
   new_paper_added: 'text-blue-600',
   system_update: 'text-purple-600',
   security_alert: 'text-orange-600',
-  backup_complete: 'text-gray-600'
+  backup_complete: 'text-gray-600',
+  saved_search_match: 'text-indigo-600',
+  ai_budget_warning: 'text-amber-600'
 }
 
 const priorityColors: Record<string, string> = {
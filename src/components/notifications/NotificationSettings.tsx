@@ -38,6 +38,14 @@ const notificationTypeLabels: Record<NotificationType, { label: string; descript
   backup_complete: {
     label: 'Backup Complete',
     description: 'When system backups are completed'
+  },
+  saved_search_match: {
+    label: 'Saved Search Matches',
+    description: 'When newly added papers match one of your saved searches'
+  },
+  ai_budget_warning: {
+    label: 'AI Budget Warnings',
+    description: 'When your AI spending reaches a warning threshold of one of your budgets'
   }
 }
 
@@ -0,0 +1,95 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/hooks/use-toast'
+import { BIBLIOGRAPHY_FORMATS } from '@/services/bibliography/formats'
+import type { BibliographyFormat } from '@/services/bibliography/types'
+import type { BibliographyExportSelection } from '@/services/bibliography/BibliographyService'
+
+interface BibliographyExportMenuProps {
+  // Papers or search results to export; the whole library when omitted
+  selection?: BibliographyExportSelection
+  label?: string
+  disabled?: boolean
+  size?: 'default' | 'sm'
+}
+
+/**
+ * Button with a format menu that downloads papers as BibTeX, RIS or CSL-JSON
+ */
+export function BibliographyExportMenu({
+  selection = {},
+  label = 'Export',
+  disabled = false,
+  size = 'default'
+}: BibliographyExportMenuProps) {
+  const [exporting, setExporting] = useState(false)
+  const { toast } = useToast()
+
+  const handleExport = async (format: BibliographyFormat) => {
+    setExporting(true)
+    try {
+      const token = localStorage.getItem('auth_token')
+      if (!token) {
+        throw new Error('No auth token')
+      }
+
+      const response = await fetch('/api/papers/export', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ format, ...selection })
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.details || body.error || `Export failed: ${response.status}`)
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `papers.${BIBLIOGRAPHY_FORMATS[format].extension}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to export papers:', error)
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export papers',
+        variant: 'destructive'
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={disabled || exporting}>
+          {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Format</DropdownMenuLabel>
+        {Object.values(BIBLIOGRAPHY_FORMATS).map(info => (
+          <DropdownMenuItem key={info.format} onSelect={() => handleExport(info.format)}>
+            {info.label} (.{info.extension})
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
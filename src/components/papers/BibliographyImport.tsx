@@ -0,0 +1,161 @@
+'use client'
+
+import { useRef, useState, type ReactNode } from 'react'
+import { AlertCircle, CheckCircle2, Copy, FileUp, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import { BIBLIOGRAPHY_FORMATS } from '@/services/bibliography/formats'
+import type { BibliographyImportReport } from '@/services/bibliography/BibliographyService'
+
+interface BibliographyImportProps {
+  onImportComplete?: (report: BibliographyImportReport) => void
+}
+
+const ACCEPTED_EXTENSIONS = '.bib,.bibtex,.ris,.json'
+
+/**
+ * Import a BibTeX, RIS or CSL-JSON file and show what was added, skipped as a
+ * duplicate, or failed, entry by entry
+ */
+export function BibliographyImport({ onImportComplete }: BibliographyImportProps) {
+  const [importing, setImporting] = useState(false)
+  const [report, setReport] = useState<BibliographyImportReport | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const handleFile = async (file: File) => {
+    setImporting(true)
+    setReport(null)
+    try {
+      const token = localStorage.getItem('auth_token')
+      if (!token) {
+        throw new Error('No auth token')
+      }
+
+      const form = new FormData()
+      form.append('file', file)
+      const response = await fetch('/api/papers/import', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: form
+      })
+
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.details || body.error || `Import failed: ${response.status}`)
+      }
+
+      const result: BibliographyImportReport = body.data
+      setReport(result)
+      onImportComplete?.(result)
+      toast({
+        title: 'Import Complete',
+        description: `${result.imported.length} of ${result.total} entries imported`
+      })
+    } catch (error) {
+      console.error('Failed to import bibliography:', error)
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Failed to import bibliography',
+        variant: 'destructive'
+      })
+    } finally {
+      setImporting(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileUp className="w-5 h-5" />
+          Import Bibliography
+        </CardTitle>
+        <CardDescription>
+          Add papers from a {Object.values(BIBLIOGRAPHY_FORMATS).map(info => info.label).join(', ')} file.
+          Keywords become tags, and papers already in your library are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+          }}
+        />
+        <Button onClick={() => inputRef.current?.click()} disabled={importing}>
+          {importing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileUp className="w-4 h-4 mr-2" />}
+          {importing ? 'Importing…' : 'Choose File'}
+        </Button>
+
+        {report && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{BIBLIOGRAPHY_FORMATS[report.format].label}</Badge>
+              <Badge variant="default">{report.imported.length} imported</Badge>
+              <Badge variant="outline">{report.duplicates.length} duplicates</Badge>
+              {report.failed.length > 0 && (
+                <Badge variant="destructive">{report.failed.length} failed</Badge>
+              )}
+            </div>
+
+            {report.imported.length > 0 && (
+              <ReportSection icon={<CheckCircle2 className="w-4 h-4 text-green-600" />} title="Imported">
+                {report.imported.map(item => (
+                  <li key={item.index}>{item.title}</li>
+                ))}
+              </ReportSection>
+            )}
+
+            {report.duplicates.length > 0 && (
+              <ReportSection icon={<Copy className="w-4 h-4 text-muted-foreground" />} title="Skipped as duplicates">
+                {report.duplicates.map(item => (
+                  <li key={item.index}>
+                    {item.title}{' '}
+                    <span className="text-muted-foreground">
+                      ({item.duplicateOfIndex !== undefined
+                        ? `same as entry ${item.duplicateOfIndex + 1} in this file`
+                        : 'already in your library'}, {Math.round(item.score * 100)}% match)
+                    </span>
+                  </li>
+                ))}
+              </ReportSection>
+            )}
+
+            {report.failed.length > 0 && (
+              <ReportSection icon={<AlertCircle className="w-4 h-4 text-destructive" />} title="Failed">
+                {report.failed.map(item => (
+                  <li key={item.index}>
+                    Entry {item.index + 1}
+                    {item.line !== undefined && ` (line ${item.line})`}
+                    {item.key && ` [${item.key}]`}
+                    {item.title && ` "${item.title}"`}: {item.message}
+                  </li>
+                ))}
+              </ReportSection>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function ReportSection({ icon, title, children }: { icon: ReactNode; title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h4 className="flex items-center gap-2 text-sm font-medium mb-1">
+        {icon}
+        {title}
+      </h4>
+      <ul className="list-disc pl-6 text-sm space-y-0.5 max-h-48 overflow-y-auto">{children}</ul>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useState, type DragEvent } from 'react'
+import Link from 'next/link'
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  FolderPlus,
+  Library,
+  MessageCircle,
+  Pencil,
+  Trash2
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { CollectionNode } from '@/types'
+
+// Drag data type carrying a JSON array of paper IDs
+export const PAPER_DRAG_TYPE = 'application/x-paper-ids'
+
+interface CollectionTreeProps {
+  tree: CollectionNode[]
+  // null shows the whole library
+  activeId: string | null
+  isLoading?: boolean
+  error?: string | null
+  onSelect: (collectionId: string | null) => void
+  onCreate: (parentId: string | null) => void
+  onRename: (collection: CollectionNode) => void
+  onDelete: (collection: CollectionNode) => void
+  onDropPapers: (collectionId: string, paperIds: string[]) => void
+}
+
+function readDraggedPaperIds(event: DragEvent): string[] {
+  try {
+    const ids = JSON.parse(event.dataTransfer.getData(PAPER_DRAG_TYPE))
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * The user's collections as a folder tree. Selecting one filters the paper
+ * list to it; papers dragged onto one are added to it.
+ */
+export function CollectionTree({
+  tree,
+  activeId,
+  isLoading = false,
+  error,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onDropPapers
+}: CollectionTreeProps) {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const renderNode = (node: CollectionNode, depth: number) => {
+    const collapsed = collapsedIds.has(node.id)
+
+    return (
+      <div key={node.id}>
+        <div
+          className={`group flex items-center gap-1 rounded-md py-1 pr-1 ${
+            dropTargetId === node.id
+              ? 'bg-blue-100 ring-1 ring-blue-400'
+              : node.id === activeId ? 'bg-accent' : 'hover:bg-accent/50'
+          }`}
+          style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}
+          onDragOver={(event) => {
+            if (!event.dataTransfer.types.includes(PAPER_DRAG_TYPE)) return
+            event.preventDefault()
+            event.dataTransfer.dropEffect = 'copy'
+            setDropTargetId(node.id)
+          }}
+          onDragLeave={() => setDropTargetId(current => current === node.id ? null : current)}
+          onDrop={(event) => {
+            event.preventDefault()
+            setDropTargetId(null)
+            const paperIds = readDraggedPaperIds(event)
+            if (paperIds.length > 0) {
+              onDropPapers(node.id, paperIds)
+            }
+          }}
+        >
+          <button
+            type="button"
+            onClick={() => toggleCollapsed(node.id)}
+            className={`h-5 w-5 flex items-center justify-center ${node.children.length === 0 ? 'invisible' : ''}`}
+            aria-label={collapsed ? `Expand ${node.name}` : `Collapse ${node.name}`}
+          >
+            {collapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          <button
+            type="button"
+            onClick={() => onSelect(node.id)}
+            className="flex-1 min-w-0 flex items-center gap-2 text-left"
+          >
+            <Folder className="h-4 w-4 shrink-0 text-gray-500" />
+            <span className="text-sm truncate">{node.name}</span>
+            <span className="text-xs text-muted-foreground">{node.paperCount}</span>
+          </button>
+          <div className="hidden group-hover:flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={`Chat about ${node.name}`}
+              asChild
+            >
+              <Link href={`/chat?collection=${encodeURIComponent(node.id)}`}>
+                <MessageCircle className="h-3 w-3" />
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={`New collection in ${node.name}`}
+              onClick={() => onCreate(node.id)}
+            >
+              <FolderPlus className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={`Rename ${node.name}`}
+              onClick={() => onRename(node)}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={`Delete ${node.name}`}
+              onClick={() => onDelete(node)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+        {!collapsed && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Collections</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => onCreate(null)}>
+          <FolderPlus className="h-4 w-4 mr-2" />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          className={`w-full flex items-center gap-2 rounded-md px-2 py-1 text-left ${
+            activeId === null ? 'bg-accent' : 'hover:bg-accent/50'
+          }`}
+        >
+          <Library className="h-4 w-4 text-gray-500" />
+          <span className="text-sm">All Papers</span>
+        </button>
+
+        {tree.map(node => renderNode(node, 0))}
+
+        {tree.length === 0 && (
+          <p className="text-sm text-muted-foreground px-2">
+            {isLoading ? 'Loading collections...' : 'Create a collection, then drag papers onto it.'}
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600 px-2">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
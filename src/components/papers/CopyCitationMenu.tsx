@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Quote } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/hooks/use-toast'
+import { useCitationStyles } from '@/hooks/useCitationStyles'
+import type { FormattedCitation } from '@/services/citation/CitationService'
+
+interface CopyCitationMenuProps {
+  paperId: string
+  size?: 'default' | 'sm'
+}
+
+type CitationPart = 'inline' | 'bibliography'
+
+/**
+ * "Copy citation" menu: pick a style, then copy the in-text citation or the
+ * bibliography entry for one paper
+ */
+export function CopyCitationMenu({ paperId, size = 'sm' }: CopyCitationMenuProps) {
+  const [copying, setCopying] = useState(false)
+  const [loaded, setLoaded] = useState(false)
+  const { styles, reload } = useCitationStyles({ autoLoad: false })
+  const { toast } = useToast()
+
+  const handleOpenChange = (open: boolean) => {
+    // Uploaded styles are only fetched once a menu is opened
+    if (open && !loaded) {
+      setLoaded(true)
+      reload()
+    }
+  }
+
+  const handleCopy = async (styleId: string, part: CitationPart) => {
+    setCopying(true)
+    try {
+      const token = localStorage.getItem('auth_token')
+      if (!token) {
+        throw new Error('No auth token')
+      }
+
+      const response = await fetch('/api/papers/cite', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ paperIds: [paperId], style: styleId })
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.details || body.error || `Citation failed: ${response.status}`)
+      }
+
+      const citation: FormattedCitation | undefined = body.data.citations[0]
+      if (!citation?.[part]) {
+        throw new Error('This style produced no citation for the paper')
+      }
+
+      await navigator.clipboard.writeText(citation[part])
+      toast({ title: 'Citation copied', description: citation[part] })
+    } catch (error) {
+      console.error('Failed to copy citation:', error)
+      toast({
+        title: 'Copy failed',
+        description: error instanceof Error ? error.message : 'Failed to copy citation',
+        variant: 'destructive'
+      })
+    } finally {
+      setCopying(false)
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size={size}
+          disabled={copying}
+          onClick={(e) => e.stopPropagation()}
+          className="p-1 h-auto"
+          aria-label="Copy citation"
+        >
+          {copying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Quote className="w-4 h-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>Copy citation</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {styles.map(style => (
+          <DropdownMenuSub key={style.id}>
+            <DropdownMenuSubTrigger>{style.name}</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuItem onSelect={() => handleCopy(style.id, 'inline')}>
+                In-text citation
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleCopy(style.id, 'bibliography')}>
+                Bibliography entry
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,332 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Copy, GitMerge, Loader2, RefreshCw, Star, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import type { DuplicateClusterPaper, DuplicateClusterWithPapers, PaperMerge } from '@/services/dedupe/DedupeService'
+import type { DuplicatePair } from '@/services/dedupe/scoring'
+
+// JSON responses carry dates as strings
+type PaperMergeJson = Omit<PaperMerge, 'createdAt' | 'undoneAt'> & {
+  createdAt: string
+  undoneAt?: string
+}
+
+interface ClusterSelection {
+  canonicalId: string
+  excludedIds: string[]
+}
+
+/**
+ * Review screen for duplicate clusters across the library: pick the paper to keep,
+ * untick papers that are not duplicates after all, and merge. Recent merges can be undone.
+ */
+export function DuplicateReview({ className = '' }: { className?: string }) {
+  const [clusters, setClusters] = useState<DuplicateClusterWithPapers[]>([])
+  const [merges, setMerges] = useState<PaperMerge[]>([])
+  const [selections, setSelections] = useState<Record<string, ClusterSelection>>({})
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const token = localStorage.getItem('auth_token')
+    if (!token) {
+      throw new Error('No auth token')
+    }
+
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      }
+    })
+
+    const body = await response.json()
+    if (!response.ok) {
+      throw new Error(body.error || `Request failed: ${response.status}`)
+    }
+    return body
+  }, [])
+
+  const loadDuplicates = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [{ data: clusterData }, { data: mergeData }] = await Promise.all([
+        request('/api/papers/duplicates'),
+        request('/api/papers/merges')
+      ])
+      setClusters(clusterData)
+      setMerges(mergeData.map(reviveMerge))
+      setSelections({})
+    } catch (error) {
+      console.error('Failed to load duplicate papers:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load duplicate papers',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [request, toast])
+
+  useEffect(() => {
+    loadDuplicates()
+  }, [loadDuplicates])
+
+  const selectionFor = (cluster: DuplicateClusterWithPapers): ClusterSelection =>
+    selections[cluster.id] || { canonicalId: cluster.suggestedCanonicalId, excludedIds: [] }
+
+  const updateSelection = (cluster: DuplicateClusterWithPapers, updates: Partial<ClusterSelection>) => {
+    setSelections(prev => ({ ...prev, [cluster.id]: { ...selectionFor(cluster), ...updates } }))
+  }
+
+  const handleMerge = async (cluster: DuplicateClusterWithPapers) => {
+    const { canonicalId, excludedIds } = selectionFor(cluster)
+    const duplicateIds = cluster.paperIds.filter(id => id !== canonicalId && !excludedIds.includes(id))
+    if (duplicateIds.length === 0) return
+
+    setBusyId(cluster.id)
+    try {
+      const { data } = await request('/api/papers/merges', {
+        method: 'POST',
+        body: JSON.stringify({ canonicalId, duplicateIds })
+      })
+
+      setClusters(prev => prev.filter(item => item.id !== cluster.id))
+      setMerges(prev => [reviveMerge(data), ...prev])
+      toast({
+        title: 'Papers Merged',
+        description: `${duplicateIds.length} duplicate${duplicateIds.length === 1 ? '' : 's'} merged. You can undo this below.`
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to merge papers',
+        variant: 'destructive'
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleUndo = async (merge: PaperMerge) => {
+    setBusyId(merge.id)
+    try {
+      await request(`/api/papers/merges/${merge.id}/undo`, { method: 'POST' })
+      toast({ title: 'Merge Undone', description: 'The merged papers have been restored' })
+      await loadDuplicates()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to undo merge',
+        variant: 'destructive'
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {loading
+            ? 'Scanning your library…'
+            : clusters.length === 0
+              ? 'No likely duplicates found.'
+              : `${clusters.length} group${clusters.length === 1 ? '' : 's'} of likely duplicates`}
+        </p>
+        <Button variant="outline" size="sm" onClick={loadDuplicates} disabled={loading}>
+          <RefreshCw className={cn('mr-2 h-4 w-4', loading && 'animate-spin')} />
+          Rescan
+        </Button>
+      </div>
+
+      {!loading && clusters.map(cluster => {
+        const { canonicalId, excludedIds } = selectionFor(cluster)
+        const mergeCount = cluster.paperIds.filter(id => id !== canonicalId && !excludedIds.includes(id)).length
+
+        return (
+          <Card key={cluster.id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center justify-between gap-2 text-base">
+                <span className="flex items-center gap-2">
+                  <Copy className="h-4 w-4" />
+                  {cluster.papers.length} papers
+                  <Badge variant="secondary">{Math.round(cluster.score * 100)}% match</Badge>
+                </span>
+                <Button
+                  size="sm"
+                  onClick={() => handleMerge(cluster)}
+                  disabled={mergeCount === 0 || busyId !== null}
+                >
+                  {busyId === cluster.id ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <GitMerge className="mr-2 h-4 w-4" />
+                  )}
+                  Merge {mergeCount} into selected
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {cluster.papers.map(paper => (
+                <ClusterPaperRow
+                  key={paper.id}
+                  paper={paper}
+                  name={cluster.id}
+                  isCanonical={paper.id === canonicalId}
+                  included={!excludedIds.includes(paper.id)}
+                  signals={paper.id === canonicalId ? undefined : pairWith(cluster.pairs, canonicalId, paper.id)}
+                  onSelectCanonical={() => updateSelection(cluster, {
+                    canonicalId: paper.id,
+                    excludedIds: excludedIds.filter(id => id !== paper.id)
+                  })}
+                  onToggleIncluded={(included) => updateSelection(cluster, {
+                    excludedIds: included ? excludedIds.filter(id => id !== paper.id) : [...excludedIds, paper.id]
+                  })}
+                />
+              ))}
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {merges.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Recent Merges</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1">
+              {merges.map(merge => (
+                <li key={merge.id} className="flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted">
+                  <span>
+                    {merge.mergedPaperIds.length} paper{merge.mergedPaperIds.length === 1 ? '' : 's'} merged{' '}
+                    <span className="text-muted-foreground">
+                      {formatDistanceToNow(merge.createdAt, { addSuffix: true })}
+                    </span>
+                  </span>
+                  {merge.undoneAt ? (
+                    <span className="text-xs text-muted-foreground">Undone</span>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleUndo(merge)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === merge.id ? (
+                        <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Undo2 className="mr-2 h-3.5 w-3.5" />
+                      )}
+                      Undo
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+interface ClusterPaperRowProps {
+  paper: DuplicateClusterPaper
+  name: string
+  isCanonical: boolean
+  included: boolean
+  // How this paper compares with the selected canonical paper, when they were scored directly
+  signals?: DuplicatePair['signals']
+  onSelectCanonical: () => void
+  onToggleIncluded: (included: boolean) => void
+}
+
+function ClusterPaperRow({ paper, name, isCanonical, included, signals, onSelectCanonical, onToggleIncluded }: ClusterPaperRowProps) {
+  return (
+    <div className={cn(
+      'flex items-start gap-3 rounded-md border p-3',
+      isCanonical ? 'border-primary/50 bg-primary/5' : !included && 'opacity-60'
+    )}>
+      <input
+        type="radio"
+        name={`canonical-${name}`}
+        checked={isCanonical}
+        onChange={onSelectCanonical}
+        className="mt-1"
+        title="Keep this paper"
+      />
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="font-medium">{paper.title}</div>
+        <div className="text-sm text-muted-foreground">
+          {[
+            paper.authors.slice(0, 3).join(', ') + (paper.authors.length > 3 ? ' et al.' : ''),
+            paper.journal,
+            paper.publicationYear
+          ].filter(Boolean).join(' · ')}
+        </div>
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          {paper.doi && <Badge variant="outline">DOI {paper.doi}</Badge>}
+          {paper.zoteroKey && <Badge variant="outline">Zotero</Badge>}
+          {paper.googleDriveId && <Badge variant="outline">Google Drive</Badge>}
+          {paper.rating && (
+            <Badge variant="outline" className="gap-1">
+              <Star className="h-3 w-3" />
+              {paper.rating}
+            </Badge>
+          )}
+          {paper.analysisCount > 0 && (
+            <Badge variant="outline">{paper.analysisCount} AI analys{paper.analysisCount === 1 ? 'is' : 'es'}</Badge>
+          )}
+          <span className="text-muted-foreground">
+            Added {formatDistanceToNow(new Date(paper.dateAdded), { addSuffix: true })}
+          </span>
+        </div>
+        {signals && (
+          <div className="text-xs text-muted-foreground">
+            {signals.doiMatch
+              ? 'Same DOI'
+              : [
+                  `Title ${Math.round(signals.title * 100)}%`,
+                  signals.authors !== undefined && `authors ${Math.round(signals.authors * 100)}%`,
+                  signals.year !== undefined && (signals.year === 1 ? 'same year' : 'different year'),
+                  signals.doiConflict && 'different DOIs'
+                ].filter(Boolean).join(' · ')}
+          </div>
+        )}
+      </div>
+      {isCanonical ? (
+        <Badge>Keep</Badge>
+      ) : (
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={included} onCheckedChange={(checked) => onToggleIncluded(checked === true)} />
+          Merge
+        </label>
+      )}
+    </div>
+  )
+}
+
+function pairWith(pairs: DuplicatePair[], a: string, b: string): DuplicatePair['signals'] | undefined {
+  return pairs.find(pair => (pair.a === a && pair.b === b) || (pair.a === b && pair.b === a))?.signals
+}
+
+function reviveMerge(json: PaperMergeJson): PaperMerge {
+  return {
+    ...json,
+    createdAt: new Date(json.createdAt),
+    undoneAt: json.undoneAt ? new Date(json.undoneAt) : undefined
+  }
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import type { ResolvedPaperMetadata } from '@/services/metadata/types'
+
+export interface MergeableMetadata {
+  title?: string
+  authors?: string[]
+  journal?: string
+  publicationYear?: number
+  doi?: string
+  abstract?: string
+}
+
+type MergeField = keyof MergeableMetadata
+
+const FIELDS: Array<{ key: MergeField; label: string }> = [
+  { key: 'title', label: 'Title' },
+  { key: 'authors', label: 'Authors' },
+  { key: 'journal', label: 'Journal' },
+  { key: 'publicationYear', label: 'Year' },
+  { key: 'doi', label: 'DOI' },
+  { key: 'abstract', label: 'Abstract' }
+]
+
+const SOURCE_LABELS: Record<ResolvedPaperMetadata['source'], string> = {
+  doi: 'Crossref',
+  arxiv: 'arXiv',
+  pmid: 'PubMed'
+}
+
+interface MetadataMergePanelProps {
+  detected: MergeableMetadata
+  resolved: ResolvedPaperMetadata
+  // Values currently in the form
+  current: MergeableMetadata
+  onChange: (updates: MergeableMetadata) => void
+  disabled?: boolean
+}
+
+/**
+ * Side-by-side comparison of metadata detected in the PDF and metadata resolved
+ * from Crossref, arXiv or PubMed. Clicking a value copies it into the form.
+ */
+export function MetadataMergePanel({ detected, resolved, current, onChange, disabled }: MetadataMergePanelProps) {
+  const rows = FIELDS.filter(({ key }) => hasValue(detected[key]) || hasValue(resolved[key]))
+  const updatesFrom = (source: MergeableMetadata) => Object.fromEntries(
+    rows.filter(({ key }) => hasValue(source[key])).map(({ key }) => [key, source[key]])
+  ) as MergeableMetadata
+  const allResolved = rows.every(({ key }) => !hasValue(resolved[key]) || sameValue(current[key], resolved[key]))
+
+  return (
+    <div className="rounded-md border text-sm">
+      <div className="flex items-center justify-between gap-2 border-b bg-muted/50 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">Detected vs resolved</span>
+          <Badge variant="outline" className="text-xs">
+            {SOURCE_LABELS[resolved.source]}: {resolved.identifier}
+          </Badge>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(updatesFrom(detected))}
+            disabled={disabled}
+          >
+            Use detected
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(updatesFrom(resolved))}
+            disabled={disabled || allResolved}
+          >
+            Use all resolved
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[6rem_1fr_1fr] gap-x-3 gap-y-1 p-3">
+        <div />
+        <div className="text-xs font-medium text-muted-foreground">Detected in PDF</div>
+        <div className="text-xs font-medium text-muted-foreground">Resolved</div>
+
+        {rows.map(({ key, label }) => (
+          <MergeRow
+            key={key}
+            label={label}
+            detected={detected[key]}
+            resolved={resolved[key]}
+            current={current[key]}
+            onSelect={(value) => onChange({ [key]: value })}
+            disabled={disabled}
+          />
+        ))}
+      </div>
+
+      {resolved.references.length > 0 && (
+        <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+          {resolved.references.length} references found
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface MergeRowProps {
+  label: string
+  detected: MergeableMetadata[MergeField]
+  resolved: MergeableMetadata[MergeField]
+  current: MergeableMetadata[MergeField]
+  onSelect: (value: MergeableMetadata[MergeField]) => void
+  disabled?: boolean
+}
+
+function MergeRow({ label, detected, resolved, current, onSelect, disabled }: MergeRowProps) {
+  const differs = !sameValue(detected, resolved)
+
+  const cell = (value: MergeableMetadata[MergeField]) => {
+    if (!hasValue(value)) {
+      return <div className="px-2 py-1 text-muted-foreground">—</div>
+    }
+
+    const selected = sameValue(current, value)
+    return (
+      <button
+        type="button"
+        onClick={() => onSelect(value)}
+        disabled={disabled || selected}
+        className={cn(
+          'rounded px-2 py-1 text-left transition-colors',
+          selected ? 'bg-primary/10 ring-1 ring-primary/40' : 'hover:bg-muted',
+          !differs && 'text-muted-foreground'
+        )}
+        title={selected ? 'In use' : 'Use this value'}
+      >
+        <span className="line-clamp-3">{formatValue(value)}</span>
+      </button>
+    )
+  }
+
+  return (
+    <>
+      <div className={cn('py-1 text-xs font-medium', differs ? 'text-foreground' : 'text-muted-foreground')}>
+        {label}
+      </div>
+      {cell(detected)}
+      {cell(resolved)}
+    </>
+  )
+}
+
+function hasValue(value: MergeableMetadata[MergeField]): boolean {
+  return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== ''
+}
+
+function formatValue(value: MergeableMetadata[MergeField]): string {
+  return Array.isArray(value) ? value.join('; ') : String(value)
+}
+
+function sameValue(a: MergeableMetadata[MergeField], b: MergeableMetadata[MergeField]): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.join('\u0000') === b.join('\u0000')
+  }
+  return String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase()
+}
@@ -1,13 +1,15 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { StarRating } from '@/components/ui/star-rating'
 import { ReadingStatus } from '@/components/ui/reading-status'
 import { Paper, UserEvaluation, MultiModelAnalysis } from '@/types'
-import { Calendar, Users, BookOpen, ExternalLink } from 'lucide-react'
+import { Calendar, Users, BookOpen, ExternalLink, BookOpenText } from 'lucide-react'
+import { CopyCitationMenu } from './CopyCitationMenu'
 
 interface PaperCardProps {
   paper: Paper
@@ -55,19 +57,33 @@ export function PaperCard({
               readonly={!onStatusChange}
               variant="compact"
             />
-            {paper.googleDriveUrl && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={(e) => {
-                  e.stopPropagation()
-                  window.open(paper.googleDriveUrl, '_blank')
-                }}
-                className="p-1 h-auto"
-              >
-                <ExternalLink className="w-4 h-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              <CopyCitationMenu paperId={paper.id} />
+              {(paper.googleDriveId || paper.storageBackend) && (
+                <Button variant="ghost" size="sm" asChild className="p-1 h-auto">
+                  <Link
+                    href={`/papers/${paper.id}/read`}
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label="Read and annotate"
+                  >
+                    <BookOpenText className="w-4 h-4" />
+                  </Link>
+                </Button>
+              )}
+              {paper.googleDriveUrl && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    window.open(paper.googleDriveUrl, '_blank')
+                  }}
+                  className="p-1 h-auto"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </CardHeader>
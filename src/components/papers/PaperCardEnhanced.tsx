@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { StarRating } from '@/components/ui/star-rating'
 import { ReadingStatus } from '@/components/ui/reading-status'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Paper } from '@/types'
 import { Calendar, Users, BookOpen, ExternalLink } from 'lucide-react'
 import { usePaperStore } from '../../stores'
@@ -13,11 +14,16 @@ import { usePaperStore } from '../../stores'
 interface PaperCardEnhancedProps {
   paper: Paper
   compact?: boolean
+  // Shows a selection checkbox when provided
+  selected?: boolean
+  onSelectedChange?: (selected: boolean) => void
 }
 
 export function PaperCardEnhanced({
   paper,
-  compact = false
+  compact = false,
+  selected = false,
+  onSelectedChange
 }: PaperCardEnhancedProps) {
   const [isHovered, setIsHovered] = useState(false)
   
@@ -55,13 +61,22 @@ export function PaperCardEnhanced({
     <Card
       className={`transition-all duration-200 cursor-pointer ${
         isHovered ? 'shadow-lg scale-[1.02]' : 'shadow-sm'
-      } ${compact ? 'p-2' : ''}`}
+      } ${compact ? 'p-2' : ''} ${selected ? 'ring-2 ring-primary' : ''}`}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
       onClick={handleCardClick}
     >
       <CardHeader className={compact ? 'pb-2' : 'pb-3'}>
         <div className="flex items-start justify-between gap-3">
+          {onSelectedChange && (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+              onClick={(e) => e.stopPropagation()}
+              aria-label={`Select ${paper.title}`}
+              className="mt-1"
+            />
+          )}
           <CardTitle className={`font-semibold line-clamp-2 flex-1 ${
             compact ? 'text-base' : 'text-lg'
           }`}>
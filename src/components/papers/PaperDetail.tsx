@@ -1,7 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import { Paper, UserEvaluation as UserEvaluationType, MultiModelAnalysis } from '@/types'
+import Link from 'next/link'
+import { Paper, UserEvaluation as UserEvaluationType, MultiModelAnalysis, RAGCitation } from '@/types'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
@@ -18,7 +19,10 @@ import {
   Brain, 
   Tags, 
   X,
-  User
+  User,
+  BookOpenText,
+  Quote,
+  MessageCircle
 } from 'lucide-react'
 
 interface PaperDetailProps {
@@ -26,13 +30,16 @@ interface PaperDetailProps {
   analyses?: MultiModelAnalysis
   onPaperUpdate?: (paper: Partial<Paper>) => Promise<void>
   onClose?: () => void
+  // An excerpt cited by a research chat answer, shown above the tabs
+  citedExcerpt?: RAGCitation
 }
 
 export function PaperDetail({
   paper,
   analyses,
   onPaperUpdate,
-  onClose
+  onClose,
+  citedExcerpt
 }: PaperDetailProps) {
   const { evaluation, saveEvaluation } = useUserEvaluation({ paperId: paper.id })
   const { tags: tagSuggestions } = useTagSuggestions()
@@ -115,6 +122,22 @@ export function PaperDetail({
                 variant="compact"
               />
 
+              {(paper.googleDriveId || paper.storageBackend) && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/papers/${paper.id}/read`} className="flex items-center gap-2">
+                    <BookOpenText className="w-4 h-4" />
+                    Read & Annotate
+                  </Link>
+                </Button>
+              )}
+
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/chat?papers=${encodeURIComponent(paper.id)}`} className="flex items-center gap-2">
+                  <MessageCircle className="w-4 h-4" />
+                  Chat about this paper
+                </Link>
+              </Button>
+
               {paper.googleDriveUrl && (
                 <Button
                   variant="outline"
@@ -139,6 +162,35 @@ export function PaperDetail({
         </CardContent>
       </Card>
 
+      {/* Cited Excerpt */}
+      {citedExcerpt && (
+        <Card className="border-blue-200 bg-blue-50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Quote className="w-4 h-4" />
+              Cited excerpt [{citedExcerpt.marker}]
+            </CardTitle>
+            {(citedExcerpt.sectionHeading || citedExcerpt.page) && (
+              <p className="text-sm text-gray-600">
+                {[citedExcerpt.sectionHeading, citedExcerpt.page ? `Page ${citedExcerpt.page}` : undefined]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <blockquote className="border-l-4 border-blue-300 pl-4 text-gray-700 leading-relaxed whitespace-pre-wrap">
+              {citedExcerpt.excerpt}
+            </blockquote>
+            {citedExcerpt.start !== undefined && citedExcerpt.end !== undefined && (
+              <p className="text-xs text-gray-500 mt-2">
+                Characters {citedExcerpt.start}–{citedExcerpt.end} of the extracted full text
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tabbed Content */}
       <Tabs defaultValue="overview" className="w-full">
         <TabsList className="grid w-full grid-cols-4">
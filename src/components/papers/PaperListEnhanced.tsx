@@ -1,14 +1,18 @@
 'use client'
 
-import { useState, useMemo, useEffect } from 'react'
-import { SearchFilters } from '@/types'
+import { useState, useMemo, useEffect, useCallback, type DragEvent } from 'react'
+import Link from 'next/link'
+import { CollectionNode, SearchFilters } from '@/types'
 import { PaperCardEnhanced } from './PaperCardEnhanced'
+import { BibliographyExportMenu } from './BibliographyExportMenu'
+import { CollectionTree, PAPER_DRAG_TYPE } from './CollectionTree'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import { Search, Filter, ChevronLeft, ChevronRight, X, Loader2 } from 'lucide-react'
+import { Search, Filter, ChevronLeft, ChevronRight, X, Loader2, MessageCircle } from 'lucide-react'
 import { usePaperStore } from '../../stores'
+import { useCollections } from '@/hooks/useCollections'
 
 interface PaperListEnhancedProps {
   itemsPerPage?: number
@@ -23,6 +27,22 @@ export function PaperListEnhanced({
   const [filters, setFilters] = useState<SearchFilters>({})
   const [sortBy, setSortBy] = useState<'dateAdded' | 'title' | 'publicationYear' | 'rating'>('dateAdded')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null)
+  // Papers in the active collection and its subcollections; null shows the whole library
+  const [collectionPaperIds, setCollectionPaperIds] = useState<Set<string> | null>(null)
+  const [collectionError, setCollectionError] = useState<string | null>(null)
+
+  const {
+    tree: collectionTree,
+    isLoading: collectionsLoading,
+    error: collectionsError,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    addPapers,
+    getPaperIds
+  } = useCollections()
 
   const {
     papers,
@@ -43,9 +63,32 @@ export function PaperListEnhanced({
     }
   }, [papersArray.length, isLoading, fetchPapers])
 
+  const loadCollectionPapers = useCallback(async (collectionId: string | null) => {
+    if (!collectionId) {
+      setCollectionPaperIds(null)
+      return
+    }
+
+    try {
+      setCollectionPaperIds(new Set(await getPaperIds(collectionId)))
+    } catch (err) {
+      console.error('Failed to load collection papers:', err)
+      setCollectionError(err instanceof Error ? err.message : 'Failed to load collection papers')
+    }
+  }, [getPaperIds])
+
+  useEffect(() => {
+    loadCollectionPapers(activeCollectionId)
+  }, [activeCollectionId, loadCollectionPapers])
+
   // Filter and search papers
   const filteredPapers = useMemo(() => {
     const filtered = papersArray.filter((paper) => {
+      // Collection filter
+      if (collectionPaperIds && !collectionPaperIds.has(paper.id)) {
+        return false
+      }
+
       // Text search
       if (searchQuery) {
         const query = searchQuery.toLowerCase()
@@ -135,7 +178,7 @@ export function PaperListEnhanced({
         return aValue < bValue ? 1 : -1
       }
     })
-  }, [papersArray, searchQuery, filters, sortBy, sortOrder, evaluations])
+  }, [papersArray, collectionPaperIds, searchQuery, filters, sortBy, sortOrder, evaluations])
 
   // Pagination
   const totalPages = Math.ceil(filteredPapers.length / itemsPerPage)
@@ -145,7 +188,7 @@ export function PaperListEnhanced({
   // Reset to first page when filters change
   useEffect(() => {
     setCurrentPage(1)
-  }, [searchQuery, filters, sortBy, sortOrder])
+  }, [activeCollectionId, searchQuery, filters, sortBy, sortOrder])
 
   const clearFilters = () => {
     setFilters({})
@@ -153,6 +196,76 @@ export function PaperListEnhanced({
     setCurrentPage(1)
   }
 
+  const togglePaperSelection = (paperId: string, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (selected) next.add(paperId)
+      else next.delete(paperId)
+      return next
+    })
+  }
+
+  const handleCreateCollection = async (parentId: string | null) => {
+    const name = prompt(parentId ? 'New subcollection name' : 'New collection name')
+    if (!name?.trim()) return
+
+    try {
+      setCollectionError(null)
+      await createCollection(name, parentId)
+    } catch (err) {
+      setCollectionError(err instanceof Error ? err.message : 'Failed to create collection')
+    }
+  }
+
+  const handleRenameCollection = async (collection: CollectionNode) => {
+    const name = prompt('Rename collection', collection.name)
+    if (!name?.trim() || name.trim() === collection.name) return
+
+    try {
+      setCollectionError(null)
+      await updateCollection(collection.id, { name })
+    } catch (err) {
+      setCollectionError(err instanceof Error ? err.message : 'Failed to rename collection')
+    }
+  }
+
+  const handleDeleteCollection = async (collection: CollectionNode) => {
+    if (!confirm(`Delete "${collection.name}" and its subcollections? Its papers stay in your library.`)) return
+
+    try {
+      setCollectionError(null)
+      await deleteCollection(collection.id)
+      if (activeCollectionId === collection.id) {
+        setActiveCollectionId(null)
+      }
+    } catch (err) {
+      setCollectionError(err instanceof Error ? err.message : 'Failed to delete collection')
+    }
+  }
+
+  const handleDropPapers = async (collectionId: string, paperIds: string[]) => {
+    try {
+      setCollectionError(null)
+      await addPapers(collectionId, paperIds)
+      if (activeCollectionId) {
+        await loadCollectionPapers(activeCollectionId)
+      }
+    } catch (err) {
+      setCollectionError(err instanceof Error ? err.message : 'Failed to add papers to collection')
+    }
+  }
+
+  // Dragging a selected paper drags the whole selection
+  const handlePaperDragStart = (paperId: string, event: DragEvent) => {
+    const paperIds = selectedIds.has(paperId) ? Array.from(selectedIds) : [paperId]
+    event.dataTransfer.setData(PAPER_DRAG_TYPE, JSON.stringify(paperIds))
+    event.dataTransfer.effectAllowed = 'copy'
+  }
+
+  // Selection follows the filtered list, so hidden papers are never exported
+  const selectedPaperIds = filteredPapers.filter(paper => selectedIds.has(paper.id)).map(paper => paper.id)
+  const allFilteredSelected = filteredPapers.length > 0 && selectedPaperIds.length === filteredPapers.length
+
   const activeFilterCount = Object.values(filters).filter(value => 
     Array.isArray(value) ? value.length > 0 : value !== undefined
   ).length + (searchQuery ? 1 : 0)
@@ -169,196 +282,247 @@ export function PaperListEnhanced({
   }
 
   return (
-    <div className="space-y-6">
-      {/* Search and Filter Controls */}
-      <div className="flex flex-col gap-4">
-        <div className="flex gap-4">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-            <Input
-              placeholder="Search papers by title, authors, journal, or abstract..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
-          </div>
-          <Button
-            variant="outline"
-            onClick={() => setShowFilters(!showFilters)}
-            className="flex items-center gap-2"
-          >
-            <Filter className="w-4 h-4" />
-            Filters
+    <div className="flex flex-col lg:flex-row gap-6">
+      {/* Collections Sidebar */}
+      <aside className="lg:w-64 shrink-0">
+        <CollectionTree
+          tree={collectionTree}
+          activeId={activeCollectionId}
+          isLoading={collectionsLoading}
+          error={collectionError || collectionsError}
+          onSelect={setActiveCollectionId}
+          onCreate={handleCreateCollection}
+          onRename={handleRenameCollection}
+          onDelete={handleDeleteCollection}
+          onDropPapers={handleDropPapers}
+        />
+      </aside>
+
+      <div className="flex-1 min-w-0 space-y-6">
+        {/* Search and Filter Controls */}
+        <div className="flex flex-col gap-4">
+          <div className="flex gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                placeholder="Search papers by title, authors, journal, or abstract..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setShowFilters(!showFilters)}
+              className="flex items-center gap-2"
+            >
+              <Filter className="w-4 h-4" />
+              Filters
+              {activeFilterCount > 0 && (
+                <Badge variant="secondary" className="ml-1">
+                  {activeFilterCount}
+                </Badge>
+              )}
+            </Button>
             {activeFilterCount > 0 && (
-              <Badge variant="secondary" className="ml-1">
-                {activeFilterCount}
-              </Badge>
+              <Button variant="ghost" onClick={clearFilters}>
+                <X className="w-4 h-4" />
+              </Button>
             )}
-          </Button>
-          {activeFilterCount > 0 && (
-            <Button variant="ghost" onClick={clearFilters}>
-              <X className="w-4 h-4" />
-            </Button>
-          )}
-        </div>
+          </div>
 
-        {/* Advanced Filters */}
-        {showFilters && (
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 border rounded-lg bg-gray-50">
-            <div>
-              <label className="text-sm font-medium mb-2 block">Reading Status</label>
-              <Select
-                value={filters.readingStatus?.[0] || ''}
-                onValueChange={(value) => 
-                  setFilters(prev => ({
-                    ...prev,
-                    readingStatus: value ? [value] : undefined
-                  }))
-                }
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Any status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">Any status</SelectItem>
-                  <SelectItem value="unread">Unread</SelectItem>
-                  <SelectItem value="reading">Reading</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+          {/* Advanced Filters */}
+          {showFilters && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 border rounded-lg bg-gray-50">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Reading Status</label>
+                <Select
+                  value={filters.readingStatus?.[0] || ''}
+                  onValueChange={(value) => 
+                    setFilters(prev => ({
+                      ...prev,
+                      readingStatus: value ? [value] : undefined
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Any status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="">Any status</SelectItem>
+                    <SelectItem value="unread">Unread</SelectItem>
+                    <SelectItem value="reading">Reading</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
 
-            <div>
-              <label className="text-sm font-medium mb-2 block">Sort By</label>
-              <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="dateAdded">Date Added</SelectItem>
-                  <SelectItem value="title">Title</SelectItem>
-                  <SelectItem value="publicationYear">Publication Year</SelectItem>
-                  <SelectItem value="rating">Rating</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Sort By</label>
+                <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dateAdded">Date Added</SelectItem>
+                    <SelectItem value="title">Title</SelectItem>
+                    <SelectItem value="publicationYear">Publication Year</SelectItem>
+                    <SelectItem value="rating">Rating</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
 
-            <div>
-              <label className="text-sm font-medium mb-2 block">Sort Order</label>
-              <Select value={sortOrder} onValueChange={(value: any) => setSortOrder(value)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="desc">Descending</SelectItem>
-                  <SelectItem value="asc">Ascending</SelectItem>
-                </SelectContent>
-              </Select>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Sort Order</label>
+                <Select value={sortOrder} onValueChange={(value: any) => setSortOrder(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="desc">Descending</SelectItem>
+                    <SelectItem value="asc">Ascending</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
 
-      {/* Results Summary */}
-      <div className="flex items-center justify-between">
-        <div className="text-sm text-gray-600">
-          {isLoading ? (
+        {/* Results Summary */}
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-600">
+            {isLoading ? (
+              <div className="flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading papers...
+              </div>
+            ) : (
+              `Showing ${startIndex + 1}-${Math.min(startIndex + itemsPerPage, filteredPapers.length)} of ${filteredPapers.length} papers`
+            )}
+          </div>
+          {!isLoading && filteredPapers.length > 0 && (
             <div className="flex items-center gap-2">
-              <Loader2 className="w-4 h-4 animate-spin" />
-              Loading papers...
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedIds(allFilteredSelected ? new Set() : new Set(filteredPapers.map(paper => paper.id)))}
+              >
+                {allFilteredSelected ? 'Clear Selection' : 'Select All'}
+              </Button>
+              <BibliographyExportMenu
+                size="sm"
+                selection={{ paperIds: selectedPaperIds }}
+                label={selectedPaperIds.length > 0 ? `Export ${selectedPaperIds.length} Selected` : 'Export Selected'}
+                disabled={selectedPaperIds.length === 0}
+              />
+              {selectedPaperIds.length > 0 && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/chat?papers=${selectedPaperIds.map(encodeURIComponent).join(',')}`}>
+                    <MessageCircle className="w-4 h-4 mr-2" />
+                    Chat about {selectedPaperIds.length} Selected
+                  </Link>
+                </Button>
+              )}
             </div>
-          ) : (
-            `Showing ${startIndex + 1}-${Math.min(startIndex + itemsPerPage, filteredPapers.length)} of ${filteredPapers.length} papers`
           )}
         </div>
-      </div>
 
-      {/* Papers Grid */}
-      {isLoading ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {Array.from({ length: 6 }).map((_, i) => (
-            <div key={i} className="animate-pulse">
-              <div className="bg-gray-200 rounded-lg h-64"></div>
+        {/* Papers Grid */}
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="bg-gray-200 rounded-lg h-64"></div>
+              </div>
+            ))}
+          </div>
+        ) : paginatedPapers.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {paginatedPapers.map((paper) => (
+              <div
+                key={paper.id}
+                draggable
+                onDragStart={(event) => handlePaperDragStart(paper.id, event)}
+              >
+                <PaperCardEnhanced
+                  paper={paper}
+                  selected={selectedIds.has(paper.id)}
+                  onSelectedChange={(selected) => togglePaperSelection(paper.id, selected)}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <div className="text-gray-500 mb-4">
+              {searchQuery || activeFilterCount > 0
+                ? 'No papers match your search criteria'
+                : activeCollectionId
+                  ? 'No papers in this collection yet. Drag papers onto it to add them.'
+                  : 'No papers found. Upload some papers to get started!'
+              }
             </div>
-          ))}
-        </div>
-      ) : paginatedPapers.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {paginatedPapers.map((paper) => (
-            <PaperCardEnhanced
-              key={paper.id}
-              paper={paper}
-            />
-          ))}
-        </div>
-      ) : (
-        <div className="text-center py-12">
-          <div className="text-gray-500 mb-4">
-            {searchQuery || activeFilterCount > 0
-              ? 'No papers match your search criteria'
-              : 'No papers found. Upload some papers to get started!'
-            }
+            {(searchQuery || activeFilterCount > 0) && (
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            )}
           </div>
-          {(searchQuery || activeFilterCount > 0) && (
-            <Button variant="outline" onClick={clearFilters}>
-              Clear Filters
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+              disabled={currentPage === 1}
+            >
+              <ChevronLeft className="w-4 h-4" />
             </Button>
-          )}
-        </div>
-      )}
-
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-center gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-            disabled={currentPage === 1}
-          >
-            <ChevronLeft className="w-4 h-4" />
-          </Button>
           
-          <div className="flex items-center gap-1">
-            {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-              const pageNum = i + 1
-              return (
-                <Button
-                  key={pageNum}
-                  variant={currentPage === pageNum ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setCurrentPage(pageNum)}
-                  className="w-8 h-8 p-0"
-                >
-                  {pageNum}
-                </Button>
-              )
-            })}
-            {totalPages > 5 && (
-              <>
-                <span className="px-2">...</span>
-                <Button
-                  variant={currentPage === totalPages ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setCurrentPage(totalPages)}
-                  className="w-8 h-8 p-0"
-                >
-                  {totalPages}
-                </Button>
-              </>
-            )}
-          </div>
+            <div className="flex items-center gap-1">
+              {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                const pageNum = i + 1
+                return (
+                  <Button
+                    key={pageNum}
+                    variant={currentPage === pageNum ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setCurrentPage(pageNum)}
+                    className="w-8 h-8 p-0"
+                  >
+                    {pageNum}
+                  </Button>
+                )
+              })}
+              {totalPages > 5 && (
+                <>
+                  <span className="px-2">...</span>
+                  <Button
+                    variant={currentPage === totalPages ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setCurrentPage(totalPages)}
+                    className="w-8 h-8 p-0"
+                  >
+                    {totalPages}
+                  </Button>
+                </>
+              )}
+            </div>
 
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-            disabled={currentPage === totalPages}
-          >
-            <ChevronRight className="w-4 h-4" />
-          </Button>
-        </div>
-      )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+              disabled={currentPage === totalPages}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -34,6 +34,8 @@ import { useErrorToast } from '@/hooks/useErrorToast';
 import { useRetry } from '@/hooks/useRetry';
 import { LoadingOverlay, LoadingSpinner } from '@/components/ui/loading-spinner';
 import { withErrorBoundary } from '@/components/error/ErrorBoundary';
+import { MetadataMergePanel, type MergeableMetadata } from './MetadataMergePanel';
+import type { ResolvedPaperMetadata } from '@/services/metadata/types';
 
 interface PaperUploadProps {
   onUploadComplete?: (papers: Partial<Paper>[]) => void;
@@ -52,6 +54,8 @@ interface FileWithMetadata extends PaperUploadData {
   retryCount?: number;
   metadataFilling?: boolean;
   metadataAutoFilled?: boolean;
+  detectedMetadata?: MergeableMetadata;
+  resolvedMetadata?: ResolvedPaperMetadata | null;
 }
 
 interface BatchAnalysisProgress {
@@ -165,13 +169,14 @@ function PaperUploadComponent({
       journal: '',
       publicationYear: new Date().getFullYear(),
       abstract: '',
-      metadataFilling: enableAutoFill && hasValidApiKey('openai') ? true : false,
+      metadataFilling: enableAutoFill,
       metadataAutoFilled: false
     }));
 
     setFiles(prev => [...prev, ...filesWithMetadata]);
 
-    if (enableAutoFill && (hasValidApiKey('openai') || hasDbOpenAIKey)) {
+    // Identifier resolution works without a key; the key additionally enables AI refinement
+    if (enableAutoFill) {
       filesWithMetadata.forEach((f) => {
         (async () => {
           try {
@@ -192,16 +197,34 @@ function PaperUploadComponent({
             const res = await fetch('/api/metadata/extract', { method: 'POST', body: form });
             if (res.ok) {
               const meta = await res.json();
-              setFiles(prev => prev.map(existing => existing.id === f.id ? ({
-                ...existing,
-                title: meta.title || existing.title,
-                authors: Array.isArray(meta.authors) ? meta.authors : existing.authors,
-                publicationYear: meta.publicationYear || existing.publicationYear,
-                journal: meta.journal || existing.journal,
-                doi: meta.doi || existing.doi,
-                metadataFilling: false,
-                metadataAutoFilled: true
-              }) : existing));
+              const resolved: ResolvedPaperMetadata | null = meta.resolved || null;
+              setFiles(prev => prev.map(existing => {
+                if (existing.id !== f.id) return existing;
+                const detected: MergeableMetadata = {
+                  title: meta.title || existing.title,
+                  authors: Array.isArray(meta.authors) ? meta.authors : existing.authors,
+                  publicationYear: meta.publicationYear || existing.publicationYear,
+                  journal: meta.journal || existing.journal,
+                  doi: meta.doi || existing.doi
+                };
+                // Resolved metadata is authoritative; the merge panel lets users switch fields back
+                return {
+                  ...existing,
+                  ...detected,
+                  ...(resolved ? {
+                    title: resolved.title,
+                    authors: resolved.authors.length > 0 ? resolved.authors : detected.authors,
+                    publicationYear: resolved.publicationYear || detected.publicationYear,
+                    journal: resolved.journal || detected.journal,
+                    doi: resolved.doi || detected.doi,
+                    abstract: resolved.abstract || existing.abstract
+                  } : {}),
+                  detectedMetadata: detected,
+                  resolvedMetadata: resolved,
+                  metadataFilling: false,
+                  metadataAutoFilled: true
+                };
+              }));
             } else {
               setFiles(prev => prev.map(existing => existing.id === f.id ? ({
                 ...existing,
@@ -217,7 +240,7 @@ function PaperUploadComponent({
         })();
       });
     }
-  }, [enableAutoFill, hasValidApiKey, hasDbOpenAIKey, apiKeys.openai, user?.id]);
+  }, [enableAutoFill, apiKeys.openai, user?.id]);
 
   // Remove file from list
   const removeFile = useCallback((id: string) => {
@@ -336,6 +359,20 @@ function PaperUploadComponent({
   // Upload single file with retry logic
   const uploadFileWithRetry = useCallback(async (file: FileWithMetadata, index: number): Promise<{ paper: Partial<Paper> }> => {
     let lastError: Error | null = null;
+
+    const title = file.title || file.file.name.replace(/\.pdf$/i, '');
+    const isDuplicate = await uploadService.checkDuplicatePaper(title, file.publicationYear, file.journal, {
+      doi: file.doi,
+      authors: file.authors,
+      accessToken: session?.access_token
+    });
+    if (isDuplicate) {
+      const message = `"${title}" is already in your library`;
+      setFiles(prev => prev.map(f => 
+        f.id === file.id ? { ...f, error: message, uploadProgress: undefined } : f
+      ));
+      throw new Error(message);
+    }
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
@@ -368,6 +405,7 @@ function PaperUploadComponent({
               googleDriveId: result.paper.googleDriveId,
               googleDriveUrl: result.paper.googleDriveUrl,
               pdfPath: result.paper.pdfPath,
+              storageBackend: result.paper.storageBackend,
               readingStatus: result.paper.readingStatus || 'unread',
               dateAdded: result.paper.dateAdded || new Date(),
             })
@@ -376,6 +414,11 @@ function PaperUploadComponent({
             const savedPaper = await savedRes.json()
             // Attach returned id to enable downstream analysis
             result.paper.id = savedPaper.id
+            // Extract full text before analysis so AI summaries see the paper body
+            setFiles(prev => prev.map(f =>
+              f.id === file.id ? { ...f, uploadProgress: { stage: 'processing', progress: 97, message: 'Extracting full text...' } } : f
+            ));
+            await uploadService.extractPaperText(savedPaper.id, file.file, { accessToken: session?.access_token })
           } else {
             console.warn('Failed to persist paper to DB')
           }
@@ -660,15 +703,14 @@ function PaperUploadComponent({
               Select Files
             </Button>
             <div className="mt-4 flex items-center justify-center gap-3">
-              <Label htmlFor="auto-fill" className="text-sm">AI Auto-fill metadata</Label>
+              <Label htmlFor="auto-fill" className="text-sm">Auto-fill metadata</Label>
               <Switch
                 id="auto-fill"
-                checked={enableAutoFill && (hasValidApiKey('openai') || hasDbOpenAIKey)}
+                checked={enableAutoFill}
                 onCheckedChange={setEnableAutoFill}
-                disabled={!(hasValidApiKey('openai') || hasDbOpenAIKey)}
               />
               {!(hasValidApiKey('openai') || hasDbOpenAIKey) && (
-                <span className="text-xs text-gray-500">Requires OpenAI API key</span>
+                <span className="text-xs text-gray-500">AI refinement requires an OpenAI API key</span>
               )}
             </div>
           </div>
@@ -1051,14 +1093,23 @@ function FileMetadataForm({
           {file.metadataFilling && (
             <div className="text-sm text-gray-500 flex items-center gap-2">
               <Loader2 className="h-4 w-4 animate-spin" />
-              Auto-filling metadata with AI...
+              Auto-filling metadata...
             </div>
           )}
-          {!file.metadataFilling && file.metadataAutoFilled && (
+          {!file.metadataFilling && file.metadataAutoFilled && !file.resolvedMetadata && (
             <div className="text-xs text-green-700 bg-green-50 border border-green-200 rounded px-2 py-1 inline-block">
-              Metadata auto-filled by AI
+              Metadata auto-filled from the PDF
             </div>
           )}
+          {!file.metadataFilling && file.resolvedMetadata && (
+            <MetadataMergePanel
+              detected={file.detectedMetadata || {}}
+              resolved={file.resolvedMetadata}
+              current={file}
+              onChange={onUpdate}
+              disabled={disabled}
+            />
+          )}
 
           {!file.metadataFilling && (
             <>
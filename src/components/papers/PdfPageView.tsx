@@ -0,0 +1,186 @@
+'use client'
+
+import { useEffect, useRef, useState, type CSSProperties, type MouseEvent } from 'react'
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask, TextLayer } from 'pdfjs-dist'
+import { StickyNote } from 'lucide-react'
+import { quadBounds } from '@/services/evaluation/highlights'
+import type { HighlightColor, PaperHighlight } from '@/types'
+
+export const HIGHLIGHT_COLOR_VALUES: Record<HighlightColor, string> = {
+  yellow: 'rgb(250, 204, 21)',
+  green: 'rgb(74, 222, 128)',
+  blue: 'rgb(96, 165, 250)',
+  pink: 'rgb(244, 114, 182)',
+  orange: 'rgb(251, 146, 60)'
+}
+
+interface PdfPageViewProps {
+  pdf: PDFDocumentProxy
+  pageNumber: number
+  scale: number
+  highlights: PaperHighlight[]
+  activeId: string | null
+  // Clicking the page places a sticky note instead of selecting text
+  placingNote: boolean
+  onSelectHighlight: (id: string) => void
+  onPlaceNote: (pageNumber: number, x: number, y: number) => void
+}
+
+const percent = (value: number) => `${value * 100}%`
+
+/**
+ * One PDF page: the canvas, a selectable text layer and the highlights drawn
+ * over it. Pages render once they scroll into view.
+ */
+export function PdfPageView({
+  pdf,
+  pageNumber,
+  scale,
+  highlights,
+  activeId,
+  placingNote,
+  onSelectHighlight,
+  onPlaceNote
+}: PdfPageViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const textLayerRef = useRef<HTMLDivElement>(null)
+  const [page, setPage] = useState<PDFPageProxy | null>(null)
+  const [visible, setVisible] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    pdf.getPage(pageNumber).then(loaded => {
+      if (!cancelled) setPage(loaded)
+    }).catch(error => console.error(`Failed to load page ${pageNumber}:`, error))
+    return () => {
+      cancelled = true
+    }
+  }, [pdf, pageNumber])
+
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element || typeof IntersectionObserver === 'undefined') {
+      setVisible(true)
+      return
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setVisible(true)
+        observer.disconnect()
+      }
+    }, { rootMargin: '200px' })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const textContainer = textLayerRef.current
+    if (!page || !visible || !canvas || !textContainer) return
+
+    const viewport = page.getViewport({ scale })
+    const outputScale = window.devicePixelRatio || 1
+    canvas.width = Math.floor(viewport.width * outputScale)
+    canvas.height = Math.floor(viewport.height * outputScale)
+
+    let renderTask: RenderTask | null = page.render({
+      canvas,
+      viewport,
+      transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+    })
+    renderTask.promise.catch(error => {
+      if (error?.name !== 'RenderingCancelledException') {
+        console.error(`Failed to render page ${pageNumber}:`, error)
+      }
+    }).finally(() => {
+      renderTask = null
+    })
+
+    let textLayer: TextLayer | null = null
+    let cancelled = false
+    textContainer.replaceChildren()
+    import('pdfjs-dist').then(({ TextLayer }) => {
+      if (cancelled) return
+      textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container: textContainer, viewport })
+      return textLayer.render()
+    }).catch(error => {
+      if (!cancelled) console.error(`Failed to render text of page ${pageNumber}:`, error)
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+      textLayer?.cancel()
+    }
+  }, [page, visible, scale, pageNumber])
+
+  const viewport = page?.getViewport({ scale })
+
+  const handlePlaceNote = (event: MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    onPlaceNote(pageNumber, (event.clientX - rect.left) / rect.width, (event.clientY - rect.top) / rect.height)
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      data-page-number={pageNumber}
+      className="relative mx-auto mb-4 bg-white shadow"
+      style={{
+        width: viewport ? viewport.width : undefined,
+        height: viewport ? viewport.height : 1000,
+        '--scale-factor': scale,
+        '--total-scale-factor': scale
+      } as CSSProperties}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+      <div className="absolute inset-0 pointer-events-none mix-blend-multiply" aria-hidden="true">
+        {highlights.filter(highlight => highlight.type === 'highlight').flatMap(highlight =>
+          highlight.quads.map((quad, index) => {
+            const bounds = quadBounds(quad)
+            return (
+              <div
+                key={`${highlight.id}-${index}`}
+                className={highlight.id === activeId ? 'absolute ring-2 ring-gray-700' : 'absolute'}
+                style={{
+                  left: percent(bounds.left),
+                  top: percent(bounds.top),
+                  width: percent(bounds.width),
+                  height: percent(bounds.height),
+                  backgroundColor: HIGHLIGHT_COLOR_VALUES[highlight.color],
+                  opacity: 0.45
+                }}
+              />
+            )
+          })
+        )}
+      </div>
+
+      <div ref={textLayerRef} className="textLayer" />
+
+      {highlights.filter(highlight => highlight.type === 'note').map(note => {
+        const bounds = quadBounds(note.quads[0])
+        return (
+          <button
+            key={note.id}
+            type="button"
+            className={`absolute z-10 -translate-x-1/2 -translate-y-1/2 rounded p-0.5 shadow ${note.id === activeId ? 'ring-2 ring-gray-700' : ''}`}
+            style={{ left: percent(bounds.left), top: percent(bounds.top), backgroundColor: HIGHLIGHT_COLOR_VALUES[note.color] }}
+            onClick={() => onSelectHighlight(note.id)}
+            aria-label={`Note on page ${pageNumber}`}
+            title={note.comment}
+          >
+            <StickyNote className="w-4 h-4 text-gray-800" />
+          </button>
+        )
+      })}
+
+      {placingNote && (
+        <div className="absolute inset-0 z-20 cursor-crosshair" onClick={handlePlaceNote} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,401 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { Highlighter, Loader2, MessageSquarePlus, StickyNote, Trash2, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useToast } from '@/hooks/use-toast'
+import { useUserEvaluation } from '@/hooks/useUserEvaluation'
+import {
+  HIGHLIGHT_COLORS,
+  quadsFromClientRects,
+  rectToQuad,
+  sortHighlights,
+  type HighlightRect
+} from '@/services/evaluation/highlights'
+import type { HighlightColor, PaperHighlight, PdfQuad } from '@/types'
+import { HIGHLIGHT_COLOR_VALUES, PdfPageView } from './PdfPageView'
+
+interface PdfReaderProps {
+  paperId: string
+}
+
+interface PendingSelection {
+  page: number
+  quads: PdfQuad[]
+  text: string
+  // Viewport position for the selection toolbar
+  left: number
+  top: number
+}
+
+const MIN_SCALE = 0.5
+const MAX_SCALE = 3
+const SCALE_STEP = 0.25
+
+const toRect = ({ left, top, width, height }: DOMRect): HighlightRect => ({ left, top, width, height })
+
+/**
+ * In-app PDF reader. Selected text can be highlighted in several colors and
+ * sticky notes placed on the page; both are listed in the margin with their
+ * comments and saved to the paper's evaluation.
+ */
+export function PdfReader({ paperId }: PdfReaderProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [scale, setScale] = useState(1.25)
+  const [color, setColor] = useState<HighlightColor>('yellow')
+  const [placingNote, setPlacingNote] = useState(false)
+  const [activeId, setActiveId] = useState<string | null>(null)
+  // Highlight whose comment box takes focus once it is listed
+  const [focusId, setFocusId] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingSelection | null>(null)
+  const [highlights, setHighlights] = useState<Record<string, PaperHighlight>>({})
+  const [saving, setSaving] = useState(false)
+  const pagesRef = useRef<HTMLDivElement>(null)
+  const { evaluation, saveEvaluation } = useUserEvaluation({ paperId })
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setHighlights(evaluation?.highlights || {})
+  }, [evaluation])
+
+  useEffect(() => {
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+
+    const load = async () => {
+      try {
+        const token = localStorage.getItem('auth_token')
+        if (!token) {
+          throw new Error('No auth token')
+        }
+
+        const response = await fetch(`/api/papers/${paperId}/pdf`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        })
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}))
+          throw new Error(body.details || body.error || `Failed to load PDF: ${response.status}`)
+        }
+        const data = new Uint8Array(await response.arrayBuffer())
+
+        const pdfjs = await import('pdfjs-dist')
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+        loaded = await pdfjs.getDocument({ data }).promise
+        if (cancelled) {
+          loaded.destroy()
+          return
+        }
+        setPdf(loaded)
+      } catch (error) {
+        if (!cancelled) {
+          console.error('Failed to open PDF:', error)
+          setLoadError(error instanceof Error ? error.message : 'Failed to load PDF')
+        }
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [paperId])
+
+  const persist = useCallback(async (next: Record<string, PaperHighlight>) => {
+    const previous = highlights
+    setHighlights(next)
+    setSaving(true)
+    try {
+      // Save the whole evaluation so rating, notes and tags are kept
+      await saveEvaluation({ ...evaluation, highlights: next })
+    } catch (error) {
+      setHighlights(previous)
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save highlights',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }, [evaluation, highlights, saveEvaluation, toast])
+
+  const addHighlight = (highlight: Omit<PaperHighlight, 'id' | 'createdAt'>, focusComment: boolean) => {
+    const id = crypto.randomUUID()
+    persist({ ...highlights, [id]: { ...highlight, id, createdAt: new Date().toISOString() } })
+    setActiveId(id)
+    setFocusId(focusComment ? id : null)
+  }
+
+  const updateHighlight = (id: string, changes: Partial<Pick<PaperHighlight, 'color' | 'comment'>>) => {
+    const existing = highlights[id]
+    if (!existing) return
+    persist({ ...highlights, [id]: { ...existing, ...changes, updatedAt: new Date().toISOString() } })
+  }
+
+  const removeHighlight = (id: string) => {
+    const rest = { ...highlights }
+    delete rest[id]
+    persist(rest)
+    if (activeId === id) setActiveId(null)
+  }
+
+  const handleMouseUp = () => {
+    if (placingNote) return
+
+    const selection = window.getSelection()
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+      setPending(null)
+      return
+    }
+
+    const range = selection.getRangeAt(0)
+    const startElement = range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement
+    const pageElement = startElement?.closest<HTMLElement>('[data-page-number]')
+    const text = selection.toString().replace(/\s+/g, ' ').trim()
+    if (!pageElement || !pagesRef.current?.contains(pageElement) || !text) {
+      setPending(null)
+      return
+    }
+
+    // Selections running onto the next page keep the part on the first page
+    const quads = quadsFromClientRects(Array.from(range.getClientRects()).map(toRect), toRect(pageElement.getBoundingClientRect()))
+    if (quads.length === 0) {
+      setPending(null)
+      return
+    }
+
+    const last = range.getBoundingClientRect()
+    setPending({ page: Number(pageElement.dataset.pageNumber), quads, text, left: last.right, top: last.bottom })
+  }
+
+  const highlightSelection = (selectionColor: HighlightColor, withComment = false) => {
+    if (!pending) return
+    addHighlight({ type: 'highlight', page: pending.page, quads: pending.quads, color: selectionColor, text: pending.text }, withComment)
+    window.getSelection()?.removeAllRanges()
+    setPending(null)
+  }
+
+  const handlePlaceNote = (page: number, x: number, y: number) => {
+    addHighlight({ type: 'note', page, quads: [rectToQuad({ left: x, top: y, width: 0, height: 0 })], color }, true)
+    setPlacingNote(false)
+  }
+
+  const selectHighlight = (highlight: PaperHighlight) => {
+    setActiveId(highlight.id)
+    pagesRef.current
+      ?.querySelector(`[data-page-number="${highlight.page}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }
+
+  const ordered = sortHighlights(highlights)
+
+  if (loadError) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{loadError}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex flex-wrap items-center gap-3 border-b bg-white px-4 py-2">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => setScale(s => Math.max(MIN_SCALE, s - SCALE_STEP))} aria-label="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="w-12 text-center text-sm">{Math.round(scale * 100)}%</span>
+          <Button variant="ghost" size="sm" onClick={() => setScale(s => Math.min(MAX_SCALE, s + SCALE_STEP))} aria-label="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1" role="radiogroup" aria-label="Highlight color">
+          {HIGHLIGHT_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={color === option}
+              aria-label={option}
+              className={`h-5 w-5 rounded-full border ${color === option ? 'ring-2 ring-offset-1 ring-gray-700' : ''}`}
+              style={{ backgroundColor: HIGHLIGHT_COLOR_VALUES[option] }}
+              onClick={() => setColor(option)}
+            />
+          ))}
+        </div>
+
+        <Button variant={placingNote ? 'default' : 'outline'} size="sm" onClick={() => setPlacingNote(value => !value)}>
+          <StickyNote className="w-4 h-4 mr-2" />
+          {placingNote ? 'Click the page to place the note' : 'Add note'}
+        </Button>
+
+        {saving && (
+          <span className="flex items-center gap-1 text-sm text-gray-500">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Saving
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div
+          ref={pagesRef}
+          className="flex-1 overflow-auto bg-gray-100 py-4"
+          onMouseUp={handleMouseUp}
+          onScroll={() => pending && setPending(null)}
+        >
+          {!pdf ? (
+            <div className="flex items-center justify-center gap-2 py-24 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Loading PDF...
+            </div>
+          ) : (
+            Array.from({ length: pdf.numPages }, (_, index) => index + 1).map(pageNumber => (
+              <PdfPageView
+                key={pageNumber}
+                pdf={pdf}
+                pageNumber={pageNumber}
+                scale={scale}
+                highlights={ordered.filter(highlight => highlight.page === pageNumber)}
+                activeId={activeId}
+                placingNote={placingNote}
+                onSelectHighlight={setActiveId}
+                onPlaceNote={handlePlaceNote}
+              />
+            ))
+          )}
+        </div>
+
+        <aside className="w-80 shrink-0 overflow-auto border-l bg-white p-3 space-y-3">
+          <h2 className="text-sm font-semibold text-gray-700">
+            Highlights and notes ({ordered.length})
+          </h2>
+          {ordered.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Select text to highlight it, or use Add note to pin a note to the page.
+            </p>
+          )}
+          {ordered.map(highlight => (
+            <HighlightMarginItem
+              key={highlight.id}
+              highlight={highlight}
+              active={highlight.id === activeId}
+              autoFocus={highlight.id === focusId}
+              onSelect={() => selectHighlight(highlight)}
+              onChange={changes => updateHighlight(highlight.id, changes)}
+              onDelete={() => removeHighlight(highlight.id)}
+            />
+          ))}
+        </aside>
+      </div>
+
+      {pending && (
+        <div
+          className="fixed z-50 flex items-center gap-1 rounded-md border bg-white p-1 shadow-lg"
+          style={{ left: pending.left, top: pending.top + 6 }}
+          onMouseUp={(e) => e.stopPropagation()}
+        >
+          {HIGHLIGHT_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              aria-label={`Highlight ${option}`}
+              className="h-5 w-5 rounded-full border"
+              style={{ backgroundColor: HIGHLIGHT_COLOR_VALUES[option] }}
+              onClick={() => highlightSelection(option)}
+            />
+          ))}
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => highlightSelection(color, true)} aria-label="Highlight and comment">
+            <MessageSquarePlus className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface HighlightMarginItemProps {
+  highlight: PaperHighlight
+  active: boolean
+  autoFocus: boolean
+  onSelect: () => void
+  onChange: (changes: Partial<Pick<PaperHighlight, 'color' | 'comment'>>) => void
+  onDelete: () => void
+}
+
+function HighlightMarginItem({ highlight, active, autoFocus, onSelect, onChange, onDelete }: HighlightMarginItemProps) {
+  const [comment, setComment] = useState(highlight.comment || '')
+  const commentRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    if (autoFocus) commentRef.current?.focus()
+  }, [autoFocus])
+
+  useEffect(() => {
+    setComment(highlight.comment || '')
+  }, [highlight.comment])
+
+  return (
+    <div
+      className={`rounded-md border p-2 text-sm space-y-2 ${active ? 'border-gray-700' : ''}`}
+      style={{ borderLeft: `4px solid ${HIGHLIGHT_COLOR_VALUES[highlight.color]}` }}
+      onClick={onSelect}
+    >
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          {highlight.type === 'note' ? <StickyNote className="w-3 h-3" /> : <Highlighter className="w-3 h-3" />}
+          Page {highlight.page}
+        </span>
+        <span className="flex items-center gap-1">
+          {HIGHLIGHT_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              aria-label={`Change color to ${option}`}
+              className={`h-3 w-3 rounded-full border ${highlight.color === option ? 'ring-1 ring-gray-700' : ''}`}
+              style={{ backgroundColor: HIGHLIGHT_COLOR_VALUES[option] }}
+              onClick={(e) => {
+                e.stopPropagation()
+                if (option !== highlight.color) onChange({ color: option })
+              }}
+            />
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1"
+            onClick={(e) => {
+              e.stopPropagation()
+              onDelete()
+            }}
+            aria-label="Delete"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </span>
+      </div>
+
+      {highlight.text && (
+        <blockquote className="border-l-2 pl-2 italic text-gray-700 line-clamp-4">{highlight.text}</blockquote>
+      )}
+
+      <Textarea
+        ref={commentRef}
+        value={comment}
+        placeholder={highlight.type === 'note' ? 'Note' : 'Add a comment'}
+        rows={2}
+        onChange={(e) => setComment(e.target.value)}
+        onBlur={() => {
+          const trimmed = comment.trim()
+          if (trimmed !== (highlight.comment || '')) onChange({ comment: trimmed || undefined })
+        }}
+      />
+    </div>
+  )
+}
@@ -4,4 +4,9 @@ export { PaperList } from './PaperList'
 export { PaperUpload } from './PaperUpload'
 export { PaperUploadPage } from './PaperUploadPage'
 export { GoogleDriveViewer } from './GoogleDriveViewer'
-export { UserEvaluation } from './UserEvaluation'
\ No newline at end of file
+export { UserEvaluation } from './UserEvaluation'
+export { DuplicateReview } from './DuplicateReview'
+export { BibliographyImport } from './BibliographyImport'
+export { BibliographyExportMenu } from './BibliographyExportMenu'
+export { CopyCitationMenu } from './CopyCitationMenu'
+export { PdfReader } from './PdfReader'
@@ -11,7 +11,10 @@ import { Slider } from '@/components/ui/slider'
 import { Label } from '@/components/ui/label'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Separator } from '@/components/ui/separator'
+import { useCollections } from '@/hooks/useCollections'
+import { flattenCollectionTree } from '@/services/collections/tree'
 import type { AdvancedSearchFilters, SortOption } from '@/services/search/AdvancedSearchService'
+import type { QueryParseError } from '@/services/search/query-language'
 
 interface AdvancedSearchFiltersProps {
   filters: AdvancedSearchFilters
@@ -19,6 +22,9 @@ interface AdvancedSearchFiltersProps {
   onFiltersChange: (filters: AdvancedSearchFilters) => void
   onSortChange: (sortBy: SortOption) => void
   onClearFilters: () => void
+  // Search bar query and its syntax errors, shown underlined
+  query?: string
+  queryErrors?: QueryParseError[]
   className?: string
 }
 
@@ -53,6 +59,8 @@ export function AdvancedSearchFilters({
   onFiltersChange,
   onSortChange,
   onClearFilters,
+  query = "",
+  queryErrors = [],
   className = ""
 }: AdvancedSearchFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false)
@@ -63,6 +71,8 @@ export function AdvancedSearchFilters({
     yearRange: { min: 1900, max: new Date().getFullYear() }
   })
   const [isLoading, setIsLoading] = useState(false)
+  const { collections, tree: collectionTree } = useCollections()
+  const collectionNames = new Map(collections.map(collection => [collection.id, collection.name]))
 
   // Load filter options on mount
   useEffect(() => {
@@ -170,6 +180,19 @@ export function AdvancedSearchFilters({
       )
     }
 
+    if (filters.collectionIds?.length) {
+      const names = filters.collectionIds.map(id => collectionNames.get(id) || 'Unknown collection')
+      activeFilters.push(
+        <Badge key="collections" variant="secondary" className="gap-1">
+          Collections: {names.slice(0, 2).join(', ')}{names.length > 2 ? '...' : ''}
+          <X 
+            className="h-3 w-3 cursor-pointer" 
+            onClick={() => removeFilter('collectionIds')}
+          />
+        </Badge>
+      )
+    }
+
     if (filters.journals?.length) {
       activeFilters.push(
         <Badge key="journals" variant="secondary" className="gap-1">
@@ -217,6 +240,50 @@ export function AdvancedSearchFilters({
     return activeFilters
   }
 
+  const renderQueryErrors = () => {
+    // Split the query into plain and erroneous segments; overlapping errors are merged
+    const ranges = [...queryErrors]
+      .map(error => ({ start: error.start, end: Math.max(error.end, error.start + 1) }))
+      .sort((a, b) => a.start - b.start)
+      .reduce<Array<{ start: number; end: number }>>((merged, range) => {
+        const last = merged[merged.length - 1]
+        if (last && range.start <= last.end) {
+          last.end = Math.max(last.end, range.end)
+        } else {
+          merged.push({ ...range })
+        }
+        return merged
+      }, [])
+
+    const segments = []
+    let position = 0
+    ranges.forEach((range, index) => {
+      if (range.start > position) {
+        segments.push(<span key={`text-${index}`}>{query.slice(position, range.start)}</span>)
+      }
+      segments.push(
+        <span key={`error-${index}`} className="underline decoration-wavy decoration-destructive">
+          {query.slice(range.start, range.end) || '\u00a0'}
+        </span>
+      )
+      position = range.end
+    })
+    if (position < query.length) {
+      segments.push(<span key="text-end">{query.slice(position)}</span>)
+    }
+
+    return (
+      <div className="space-y-1" role="alert">
+        <div className="font-mono text-sm whitespace-pre-wrap break-all">{segments}</div>
+        <ul className="text-xs text-destructive space-y-0.5">
+          {queryErrors.map((error, index) => (
+            <li key={index}>Column {error.start + 1}: {error.message}</li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Filter Toggle and Sort */}
@@ -276,6 +343,9 @@ export function AdvancedSearchFilters({
         </div>
       )}
 
+      {/* Query Syntax Errors */}
+      {query && queryErrors.length > 0 && renderQueryErrors()}
+
       {/* Expanded Filter Panel */}
       {isExpanded && (
         <Card>
@@ -408,6 +478,56 @@ export function AdvancedSearchFilters({
 
             <Separator />
 
+            {/* Collections */}
+            {collections.length > 0 && (
+              <>
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Collections</Label>
+                  <Select
+                    value=""
+                    onValueChange={(value) => {
+                      if (value) {
+                        const current = filters.collectionIds || []
+                        if (!current.includes(value)) {
+                          updateFilter('collectionIds', [...current, value])
+                        }
+                      }
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select collections..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {flattenCollectionTree(collectionTree).map(({ collection, depth }) => (
+                        <SelectItem key={collection.id} value={collection.id}>
+                          <span style={{ paddingLeft: `${depth}rem` }}>{collection.name}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {filters.collectionIds && filters.collectionIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {filters.collectionIds.map(id => (
+                        <Badge key={id} variant="outline" className="gap-1">
+                          {collectionNames.get(id) || 'Unknown collection'}
+                          <X 
+                            className="h-3 w-3 cursor-pointer" 
+                            onClick={() => {
+                              const current = filters.collectionIds || []
+                              updateFilter('collectionIds', current.filter(c => c !== id))
+                            }}
+                          />
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">Includes papers in subcollections</p>
+                </div>
+
+                <Separator />
+              </>
+            )}
+
             {/* Journals */}
             <div className="space-y-3">
               <Label className="text-sm font-medium">Journals</Label>
@@ -0,0 +1,85 @@
+'use client'
+
+import { Fragment, type ReactNode } from 'react'
+import type { RAGCitation, RAGUnsupportedClaim } from '@/types'
+
+interface CitedAnswerProps {
+  content: string
+  citations?: RAGCitation[]
+  unsupportedClaims?: RAGUnsupportedClaim[]
+  onCitationClick: (citation: RAGCitation) => void
+}
+
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+
+const CLAIM_LABELS: Record<RAGUnsupportedClaim['reason'], string> = {
+  unsupported: 'Not supported by the retrieved excerpts',
+  miscited: 'The cited excerpt does not support this; another one does'
+}
+
+/**
+ * An answer with its [n] markers as buttons that open the cited excerpt, and
+ * the claims no excerpt supports underlined
+ */
+export function CitedAnswer({ content, citations = [], unsupportedClaims = [], onCitationClick }: CitedAnswerProps) {
+  const byMarker = new Map(citations.map(citation => [citation.marker, citation]))
+
+  const renderMarkers = (text: string, keyPrefix: string): ReactNode[] => {
+    const parts: ReactNode[] = []
+    let last = 0
+
+    for (const match of text.matchAll(MARKER_PATTERN)) {
+      const markers = match[1].split(',').map(value => Number(value.trim()))
+      // Markers that don't match an excerpt stay plain text
+      if (!markers.every(marker => byMarker.has(marker))) continue
+
+      parts.push(text.slice(last, match.index))
+      parts.push(
+        <sup key={`${keyPrefix}-${match.index}`} className="whitespace-nowrap">
+          {markers.map(marker => (
+            <button
+              key={marker}
+              type="button"
+              onClick={() => onCitationClick(byMarker.get(marker)!)}
+              className="mx-0.5 px-1 rounded bg-blue-100 text-blue-700 hover:bg-blue-200 font-medium"
+              aria-label={`Show cited excerpt ${marker}`}
+            >
+              {marker}
+            </button>
+          ))}
+        </sup>
+      )
+      last = match.index! + match[0].length
+    }
+
+    parts.push(text.slice(last))
+    return parts
+  }
+
+  // Claims whose offsets no longer match the text (e.g. an edited answer) are not marked
+  const claims = unsupportedClaims
+    .filter(claim => content.slice(claim.start, claim.end) === claim.text)
+    .sort((a, b) => a.start - b.start)
+
+  const segments: ReactNode[] = []
+  let position = 0
+
+  claims.forEach((claim, index) => {
+    if (claim.start < position) return
+
+    segments.push(<Fragment key={`text-${index}`}>{renderMarkers(content.slice(position, claim.start), `text-${index}`)}</Fragment>)
+    segments.push(
+      <span
+        key={`claim-${index}`}
+        className="underline decoration-dotted decoration-amber-500 underline-offset-2"
+        title={CLAIM_LABELS[claim.reason]}
+      >
+        {renderMarkers(claim.text, `claim-${index}`)}
+      </span>
+    )
+    position = claim.end
+  })
+  segments.push(<Fragment key="text-end">{renderMarkers(content.slice(position), 'text-end')}</Fragment>)
+
+  return <>{segments}</>
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { MessageSquarePlus, Pencil, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { RAGConversation } from '@/types'
+
+interface ConversationListProps {
+  conversations: RAGConversation[]
+  activeId?: string
+  isLoading?: boolean
+  onSelect: (conversation: RAGConversation) => void
+  onNew: () => void
+  onRename: (conversation: RAGConversation) => void
+  onDelete: (conversation: RAGConversation) => void
+}
+
+/**
+ * Saved research chat conversations, most recently active first
+ */
+export function ConversationList({
+  conversations,
+  activeId,
+  isLoading = false,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ConversationListProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Conversations</CardTitle>
+        <Button variant="outline" size="sm" onClick={onNew}>
+          <MessageSquarePlus className="h-4 w-4 mr-2" />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {conversations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? 'Loading conversations...' : 'Your conversations are saved here.'}
+          </p>
+        ) : (
+          conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1.5 ${
+                conversation.id === activeId ? 'bg-accent' : 'hover:bg-accent/50'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(conversation)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <p className="text-sm truncate">{conversation.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {conversation.updatedAt.toLocaleDateString()}
+                </p>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                aria-label={`Rename ${conversation.title}`}
+                onClick={() => onRename(conversation)}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                aria-label={`Delete ${conversation.title}`}
+                onClick={() => onDelete(conversation)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useCallback, useRef, useEffect } from 'react'
-import { Send, Bot, User, FileText, Loader2, AlertCircle } from 'lucide-react'
+import { Send, Bot, User, FileText, Loader2, AlertCircle, Square } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -14,6 +14,8 @@ interface RAGChatProps {
   messages: ChatMessage[]
   onSendMessage: (message: string) => Promise<void>
   isLoading?: boolean
+  // Stop the answer being streamed
+  onCancel?: () => void
   error?: string | null
   className?: string
 }
@@ -44,8 +46,17 @@ function MessageBubble({ message, onSourceClick }: MessageBubbleProps) {
             ? 'bg-primary text-primary-foreground ml-auto' 
             : 'bg-muted'
         }`}>
-          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+          <p className="text-sm whitespace-pre-wrap">
+            {message.content}
+            {message.streaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+            )}
+          </p>
         </div>
+
+        {message.cancelled && (
+          <p className="text-xs text-muted-foreground mt-1">Stopped</p>
+        )}
         
         {/* Sources */}
         {message.sources && message.sources.length > 0 && (
@@ -70,6 +81,18 @@ function MessageBubble({ message, onSourceClick }: MessageBubbleProps) {
           </div>
         )}
         
+        {/* Bibliography of the sources, when a citation style was chosen */}
+        {message.bibliography && message.bibliography.length > 0 && (
+          <div className="mt-2 space-y-1">
+            <p className="text-xs text-muted-foreground">References:</p>
+            <ol className="text-xs space-y-1 list-none">
+              {message.bibliography.map((entry, index) => (
+                <li key={index} className="select-text">{entry}</li>
+              ))}
+            </ol>
+          </div>
+        )}
+        
         {/* Timestamp */}
         <p className="text-xs text-muted-foreground mt-1">
           {message.timestamp.toLocaleTimeString()}
@@ -83,12 +106,15 @@ export function RAGChat({
   messages, 
   onSendMessage, 
   isLoading = false, 
+  onCancel,
   error = null,
   className = "" 
 }: RAGChatProps) {
   const [inputMessage, setInputMessage] = useState('')
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  // Once the answer starts streaming it replaces the thinking indicator
+  const isStreaming = !!messages[messages.length - 1]?.streaming
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -180,7 +206,7 @@ export function RAGChat({
             )}
             
             {/* Loading indicator */}
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex gap-3">
                 <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted text-muted-foreground flex items-center justify-center">
                   <Bot className="h-4 w-4" />
@@ -214,17 +240,28 @@ export function RAGChat({
               disabled={isLoading}
               className="flex-1"
             />
-            <Button
-              onClick={handleSendMessage}
-              disabled={isLoading || !inputMessage.trim()}
-              size="icon"
-            >
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <Send className="h-4 w-4" />
-              )}
-            </Button>
+            {isLoading && onCancel ? (
+              <Button
+                onClick={onCancel}
+                variant="outline"
+                size="icon"
+                aria-label="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSendMessage}
+                disabled={isLoading || !inputMessage.trim()}
+                size="icon"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            )}
           </div>
           <p className="text-xs text-muted-foreground mt-2">
             Press Enter to send, Shift+Enter for new line
@@ -6,23 +6,30 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { useSearchStore } from '../../stores'
-import { MessageCircle, Send, Loader2, User, Bot, FileText, Trash2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
+import { PaperDetail } from '@/components/papers/PaperDetail'
+import { CitedAnswer } from '@/components/search/CitedAnswer'
+import { useRAGChat } from '@/hooks/useRAGChat'
+import type { Paper, RAGCitation } from '@/types'
+import { MessageCircle, Send, Loader2, User, Bot, FileText, Trash2, Square, AlertTriangle } from 'lucide-react'
 import { format } from 'date-fns'
 
 export function RAGChatEnhanced() {
   const [input, setInput] = useState('')
+  const [openCitation, setOpenCitation] = useState<{ citation: RAGCitation; paper: Paper } | null>(null)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
+  // Answers stream in as they're generated and can be stopped mid-way
   const {
-    ragMessages,
-    isRagLoading,
+    messages: ragMessages,
+    isLoading: isRagLoading,
     error,
-    askRAG,
-    clearRagMessages,
-    clearError
-  } = useSearchStore()
+    sendMessage,
+    cancel,
+    clearHistory
+  } = useRAGChat({ storageKey: 'rag-chat-enhanced-history' })
+  const isStreaming = !!ragMessages[ragMessages.length - 1]?.streaming
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -36,7 +43,7 @@ export function RAGChatEnhanced() {
     
     const question = input.trim()
     setInput('')
-    await askRAG(question)
+    await sendMessage(question)
     
     // Focus back on input
     setTimeout(() => {
@@ -52,8 +59,14 @@ export function RAGChatEnhanced() {
   }
 
   const handleClearChat = () => {
-    clearRagMessages()
-    clearError()
+    clearHistory()
+  }
+
+  const handleCitationClick = (citation: RAGCitation, sources: Paper[] = []) => {
+    const paper = sources.find(source => source.id === citation.paperId)
+    if (paper) {
+      setOpenCitation({ citation, paper })
+    }
   }
 
   return (
@@ -140,9 +153,29 @@ export function RAGChatEnhanced() {
                         }`}
                       >
                         <div className="whitespace-pre-wrap text-sm">
-                          {message.content}
+                          {message.role === 'assistant' ? (
+                            <CitedAnswer
+                              content={message.content}
+                              citations={message.citations}
+                              unsupportedClaims={message.unsupportedClaims}
+                              onCitationClick={citation => handleCitationClick(citation, message.sources)}
+                            />
+                          ) : (
+                            message.content
+                          )}
+                          {message.streaming && (
+                            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+                          )}
                         </div>
                         
+                        {/* Verification */}
+                        {!!message.unsupportedClaims?.length && (
+                          <div className="mt-2 flex items-center gap-1 text-xs text-amber-700">
+                            <AlertTriangle className="w-3 h-3" />
+                            {message.unsupportedClaims.length} underlined claim{message.unsupportedClaims.length > 1 ? 's' : ''} not backed by the cited excerpts
+                          </div>
+                        )}
+
                         {/* Sources */}
                         {message.sources && message.sources.length > 0 && (
                           <div className="mt-3 pt-3 border-t border-gray-300">
@@ -174,6 +207,7 @@ export function RAGChatEnhanced() {
                           }`}
                         >
                           {format(new Date(message.timestamp), 'HH:mm')}
+                          {message.cancelled && ' · Stopped'}
                         </div>
                       </div>
                     </div>
@@ -182,7 +216,7 @@ export function RAGChatEnhanced() {
               )}
 
               {/* Loading indicator */}
-              {isRagLoading && (
+              {isRagLoading && !isStreaming && (
                 <div className="flex gap-3 justify-start">
                   <div className="w-8 h-8 rounded-full bg-gray-200 text-gray-600 flex items-center justify-center flex-shrink-0">
                     <Bot className="w-4 h-4" />
@@ -218,17 +252,24 @@ export function RAGChatEnhanced() {
               disabled={isRagLoading}
               className="flex-1"
             />
-            <Button
-              onClick={handleSend}
-              disabled={!input.trim() || isRagLoading}
-              size="sm"
-            >
-              {isRagLoading ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
+            {isRagLoading ? (
+              <Button
+                onClick={cancel}
+                variant="outline"
+                size="sm"
+                aria-label="Stop generating"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                size="sm"
+              >
                 <Send className="w-4 h-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
 
           {/* Quick suggestions */}
@@ -257,6 +298,19 @@ export function RAGChatEnhanced() {
           )}
         </CardContent>
       </Card>
+
+      {/* Cited excerpt in its paper */}
+      <Dialog open={!!openCitation} onOpenChange={open => !open && setOpenCitation(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogTitle className="sr-only">{openCitation?.paper.title}</DialogTitle>
+          {openCitation && (
+            <PaperDetail
+              paper={openCitation.paper}
+              citedExcerpt={openCitation.citation}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Bell, BellOff, Bookmark, Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import type { SavedSearch } from '@/services/search/SavedSearchService'
+import type { AdvancedSearchFilters, SearchQuery } from '@/services/search/AdvancedSearchService'
+
+interface SavedSearchesProps {
+  // The search currently on screen, offered for saving
+  currentSearch?: Pick<SearchQuery, 'textQuery' | 'filters' | 'sortBy'> | null
+  selectedId?: string
+  onApply: (savedSearch: SavedSearch) => void
+  className?: string
+}
+
+// JSON responses carry dates as strings
+type SavedSearchJson = Omit<SavedSearch, 'lastMatchedAt' | 'createdAt' | 'updatedAt'> & {
+  lastMatchedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export function SavedSearches({ currentSearch, selectedId, onApply, className = '' }: SavedSearchesProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+  const { toast } = useToast()
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const token = localStorage.getItem('auth_token')
+    if (!token) {
+      throw new Error('No auth token')
+    }
+
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      }
+    })
+
+    const body = await response.json()
+    if (!response.ok) {
+      throw new Error(body.error || `Request failed: ${response.status}`)
+    }
+    return body
+  }, [])
+
+  useEffect(() => {
+    const loadSavedSearches = async () => {
+      try {
+        const { data } = await request('/api/search/saved')
+        setSavedSearches(data.map(reviveSavedSearch))
+      } catch (error) {
+        console.error('Failed to load saved searches:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSavedSearches()
+  }, [request])
+
+  const canSave = !!currentSearch &&
+    (!!currentSearch.textQuery?.trim() || Object.keys(currentSearch.filters).length > 0)
+
+  const handleSave = async () => {
+    if (!currentSearch || !name.trim()) return
+
+    setSaving(true)
+    try {
+      const { data } = await request('/api/search/saved', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: name.trim(),
+          query: currentSearch.textQuery || '',
+          filters: currentSearch.filters,
+          sortBy: currentSearch.sortBy
+        })
+      })
+
+      setSavedSearches(prev => [...prev, reviveSavedSearch(data)].sort((a, b) => a.name.localeCompare(b.name)))
+      setName('')
+      toast({
+        title: 'Search Saved',
+        description: `You'll be notified when new papers match "${data.name}"`
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save search',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleAlerts = async (savedSearch: SavedSearch) => {
+    try {
+      const { data } = await request(`/api/search/saved/${savedSearch.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ notifyOnMatch: !savedSearch.notifyOnMatch })
+      })
+
+      setSavedSearches(prev => prev.map(item => item.id === savedSearch.id ? reviveSavedSearch(data) : item))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update saved search',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    try {
+      await request(`/api/search/saved/${savedSearch.id}`, { method: 'DELETE' })
+      setSavedSearches(prev => prev.filter(item => item.id !== savedSearch.id))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete saved search',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Bookmark className="h-4 w-4" />
+          Saved Searches
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && canSave) handleSave()
+            }}
+            placeholder={canSave ? 'Name this search' : 'Run a search to save it'}
+            disabled={!canSave || saving}
+          />
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={!canSave || !name.trim() || saving}
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : savedSearches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved searches yet.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {savedSearches.map(savedSearch => (
+              <li
+                key={savedSearch.id}
+                className={`group flex items-center gap-1 rounded-md px-2 py-1.5 ${
+                  savedSearch.id === selectedId ? 'bg-muted' : 'hover:bg-muted'
+                }`}
+              >
+                <button
+                  onClick={() => onApply(savedSearch)}
+                  className="flex-1 min-w-0 text-left"
+                  title={savedSearch.query || undefined}
+                >
+                  <div className="text-sm font-medium truncate">{savedSearch.name}</div>
+                  {savedSearch.lastMatchedAt && (
+                    <div className="text-xs text-muted-foreground">
+                      New match {formatDistanceToNow(savedSearch.lastMatchedAt, { addSuffix: true })}
+                    </div>
+                  )}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleToggleAlerts(savedSearch)}
+                  title={savedSearch.notifyOnMatch ? 'Turn off new-match alerts' : 'Notify me about new matches'}
+                >
+                  {savedSearch.notifyOnMatch ? (
+                    <Bell className="h-3.5 w-3.5" />
+                  ) : (
+                    <BellOff className="h-3.5 w-3.5 text-muted-foreground" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleDelete(savedSearch)}
+                  title="Delete saved search"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function reviveSavedSearch(json: SavedSearchJson): SavedSearch {
+  const filters: AdvancedSearchFilters = { ...json.filters }
+  if (filters.dateRange) {
+    filters.dateRange = {
+      start: filters.dateRange.start && new Date(filters.dateRange.start),
+      end: filters.dateRange.end && new Date(filters.dateRange.end)
+    }
+  }
+
+  return {
+    ...json,
+    filters,
+    lastMatchedAt: json.lastMatchedAt ? new Date(json.lastMatchedAt) : undefined,
+    createdAt: new Date(json.createdAt),
+    updatedAt: new Date(json.updatedAt)
+  }
+}
@@ -23,7 +23,25 @@ interface HighlightedTextProps {
   className?: string
 }
 
+// Excerpts from the search API already wrap matched terms in <mark></mark>
+const SERVER_MARK_PATTERN = /<mark>(.*?)<\/mark>/g
+
 function HighlightedText({ text, query, className = "" }: HighlightedTextProps) {
+  if (text.includes('<mark>')) {
+    const parts = text.split(SERVER_MARK_PATTERN)
+    return (
+      <span className={className}>
+        {parts.map((part, index) => index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 px-1 rounded">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        ))}
+      </span>
+    )
+  }
+
   if (!query.trim()) {
     return <span className={className}>{text}</span>
   }
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { Search, Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -8,12 +8,22 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { AdvancedSearchFilters } from './AdvancedSearchFilters'
 import { SearchResults } from './SearchResults'
+import { BibliographyExportMenu } from '@/components/papers/BibliographyExportMenu'
 import type { AdvancedSearchFilters as SearchFilters, SortOption, SearchResponse } from '@/services/search/AdvancedSearchService'
+import { parseSearchQuery } from '@/services/search/query-language'
 
 interface SemanticSearchEnhancedProps {
   placeholder?: string
   className?: string
   onResultsChange?: (results: SearchResponse) => void
+  // Search to run on mount, e.g. a saved search; remount with a new key to apply another
+  initialSearch?: {
+    query: string
+    filters: SearchFilters
+    sortBy: SortOption
+  }
+  // Used by the server for semantic ranking when the library embeds with OpenAI
+  openaiApiKey?: string
 }
 
 interface SearchState {
@@ -25,14 +35,16 @@ interface SearchState {
 }
 
 export function SemanticSearchEnhanced({ 
-  placeholder = "Search papers by title, content, authors, or journal...",
+  placeholder = "Search papers, or filter with author:, journal:, year:2019..2023, tag:, rating:>=4, status:",
   className = "",
-  onResultsChange
+  onResultsChange,
+  initialSearch,
+  openaiApiKey
 }: SemanticSearchEnhancedProps) {
   const [searchState, setSearchState] = useState<SearchState>({
-    query: '',
-    filters: {},
-    sortBy: 'relevance',
+    query: initialSearch?.query || '',
+    filters: initialSearch?.filters || {},
+    sortBy: initialSearch?.sortBy || 'relevance',
     page: 1,
     limit: 20
   })
@@ -42,6 +54,9 @@ export function SemanticSearchEnhanced({
   const [suggestions, setSuggestions] = useState<string[]>([])
   const [showSuggestions, setShowSuggestions] = useState(false)
 
+  // Syntax errors are checked as the user types; the server reports the same errors on search
+  const queryErrors = useMemo(() => parseSearchQuery(searchState.query).errors, [searchState.query])
+
   // Debounced search suggestions
   useEffect(() => {
     if (searchState.query.length >= 2) {
@@ -83,7 +98,8 @@ export function SemanticSearchEnhanced({
         filters: searchState.filters,
         sortBy: searchState.sortBy,
         page: resetPage ? 1 : searchState.page,
-        limit: searchState.limit
+        limit: searchState.limit,
+        openaiApiKey: openaiApiKey || undefined
       }
 
       const response = await fetch('/api/search', {
@@ -113,7 +129,7 @@ export function SemanticSearchEnhanced({
     } finally {
       setIsSearching(false)
     }
-  }, [searchState, onResultsChange])
+  }, [searchState, onResultsChange, openaiApiKey])
 
   const handleQueryChange = useCallback((value: string) => {
     setSearchState(prev => ({ ...prev, query: value }))
@@ -144,10 +160,19 @@ export function SemanticSearchEnhanced({
   const handleSuggestionClick = useCallback((suggestion: string) => {
     setSearchState(prev => ({ ...prev, query: suggestion }))
     setShowSuggestions(false)
+    // A completed field name still needs its value
+    if (suggestion.endsWith(':')) return
     // Trigger search with the suggestion
     setTimeout(() => handleSearch(), 100)
   }, [handleSearch])
 
+  // Run the initial search once on mount
+  useEffect(() => {
+    if (initialSearch) {
+      handleSearch()
+    }
+  }, [])
+
   // Auto-search when filters or sort change
   useEffect(() => {
     if (searchResults) {
@@ -223,6 +248,8 @@ export function SemanticSearchEnhanced({
         onFiltersChange={handleFiltersChange}
         onSortChange={handleSortChange}
         onClearFilters={handleClearFilters}
+        query={searchState.query}
+        queryErrors={queryErrors}
       />
 
       {/* Search Results */}
@@ -267,6 +294,20 @@ export function SemanticSearchEnhanced({
                 </div>
               </div>
             )}
+
+            {searchResults.totalResults > 0 && (
+              <BibliographyExportMenu
+                size="sm"
+                label="Export Results"
+                selection={{
+                  search: {
+                    query: searchState.query.trim() || undefined,
+                    filters: searchState.filters,
+                    sortBy: searchState.sortBy
+                  }
+                }}
+              />
+            )}
           </div>
 
           {/* Results List */}
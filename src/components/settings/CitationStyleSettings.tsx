@@ -0,0 +1,107 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { FileUp, Loader2, Quote, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useToast } from '@/hooks/use-toast'
+import { useCitationStyles } from '@/hooks/useCitationStyles'
+
+/**
+ * Lists citation styles and uploads or deletes the user's own CSL styles
+ */
+export function CitationStyleSettings() {
+  const { styles, isLoading, error, uploadStyle, deleteStyle } = useCitationStyles()
+  const [uploading, setUploading] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const handleFile = async (file: File) => {
+    setUploading(true)
+    try {
+      const style = await uploadStyle(file)
+      toast({ title: 'Style added', description: style.name })
+    } catch (err) {
+      toast({
+        title: 'Upload failed',
+        description: err instanceof Error ? err.message : 'Failed to upload citation style',
+        variant: 'destructive'
+      })
+    } finally {
+      setUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!confirm(`Delete the citation style "${name}"?`)) return
+
+    try {
+      await deleteStyle(id)
+    } catch (err) {
+      toast({
+        title: 'Delete failed',
+        description: err instanceof Error ? err.message : 'Failed to delete citation style',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Quote className="h-5 w-5" />
+          Citation Styles
+        </CardTitle>
+        <CardDescription>
+          Styles for copying citations and for bibliographies in chat answers. Upload a CSL file
+          (for example from the Zotero Style Repository) to add your own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="divide-y rounded-md border">
+          {styles.map(style => (
+            <li key={style.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <span className="flex items-center gap-2">
+                {style.name}
+                <Badge variant={style.builtIn ? 'secondary' : 'outline'} className="text-xs">
+                  {style.builtIn ? 'Built-in' : 'Uploaded'}
+                </Badge>
+                {style.numeric && <Badge variant="outline" className="text-xs">Numbered</Badge>}
+              </span>
+              {!style.builtIn && (
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(style.id, style.name)} aria-label={`Delete ${style.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csl,.xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+          }}
+        />
+        <Button variant="outline" onClick={() => inputRef.current?.click()} disabled={uploading || isLoading}>
+          {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+          Upload CSL Style
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
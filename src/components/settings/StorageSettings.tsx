@@ -0,0 +1,250 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowRightLeft, HardDrive, Loader2, Save } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { useStorageSettings } from '@/hooks/useStorageSettings'
+import type { S3StorageConfig, StorageBackendType, StorageMigrationResult } from '@/services/storage'
+
+const BACKEND_LABELS: Record<StorageBackendType, string> = {
+  google_drive: 'Google Drive',
+  local: 'Server disk',
+  s3: 'S3-compatible bucket'
+}
+
+const EMPTY_S3: S3StorageConfig = {
+  endpoint: '',
+  region: 'us-east-1',
+  bucket: '',
+  accessKeyId: '',
+  secretAccessKey: '',
+  forcePathStyle: false,
+  prefix: ''
+}
+
+/**
+ * Chooses where uploaded PDFs are stored and moves existing files to that backend
+ */
+export function StorageSettings() {
+  const { settings, isLoading, error, saveSettings, migrateFiles } = useStorageSettings()
+  const [backend, setBackend] = useState<StorageBackendType>('google_drive')
+  const [s3, setS3] = useState<S3StorageConfig>(EMPTY_S3)
+  const [saving, setSaving] = useState(false)
+  const [migrating, setMigrating] = useState(false)
+  const [deleteSource, setDeleteSource] = useState(false)
+  const [migration, setMigration] = useState<StorageMigrationResult | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!settings) return
+    setBackend(settings.backend)
+    if (settings.s3) {
+      setS3({ ...EMPTY_S3, ...settings.s3, secretAccessKey: '' })
+    }
+  }, [settings])
+
+  const updateS3 = (field: keyof S3StorageConfig, value: string | boolean) => {
+    setS3(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await saveSettings({
+        backend,
+        s3: backend === 's3' || settings?.s3
+          ? {
+              endpoint: s3.endpoint?.trim(),
+              region: s3.region.trim() || 'us-east-1',
+              bucket: s3.bucket.trim(),
+              accessKeyId: s3.accessKeyId.trim(),
+              secretAccessKey: s3.secretAccessKey.trim(),
+              forcePathStyle: s3.forcePathStyle,
+              prefix: s3.prefix?.trim()
+            }
+          : undefined
+      })
+      setS3(prev => ({ ...prev, secretAccessKey: '' }))
+      toast({ title: 'Storage settings saved', description: `New uploads go to ${BACKEND_LABELS[backend]}` })
+    } catch (err) {
+      toast({
+        title: 'Save failed',
+        description: err instanceof Error ? err.message : 'Failed to save storage settings',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMigrate = async () => {
+    if (!settings) return
+    const target = settings.backend
+    const message = deleteSource
+      ? `Move all stored PDFs to ${BACKEND_LABELS[target]} and delete the old copies?`
+      : `Copy all stored PDFs to ${BACKEND_LABELS[target]}?`
+    if (!confirm(message)) return
+
+    setMigrating(true)
+    setMigration(null)
+    try {
+      const result = await migrateFiles(target, deleteSource)
+      setMigration(result)
+      toast({
+        title: 'Files moved',
+        description: `${result.migrated} moved, ${result.skipped} already there, ${result.failed.length} failed`,
+        variant: result.failed.length > 0 ? 'destructive' : undefined
+      })
+    } catch (err) {
+      toast({
+        title: 'Move failed',
+        description: err instanceof Error ? err.message : 'Failed to move stored files',
+        variant: 'destructive'
+      })
+    } finally {
+      setMigrating(false)
+    }
+  }
+
+  const unsaved = !!settings && backend !== settings.backend
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive className="h-5 w-5" />
+          PDF Storage
+        </CardTitle>
+        <CardDescription>
+          Where uploaded PDFs are kept. Files keep the same year/journal/title path in every backend,
+          so you can move them later without breaking your library.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="storage-backend">Store new uploads in</Label>
+          <Select value={backend} onValueChange={value => setBackend(value as StorageBackendType)} disabled={isLoading}>
+            <SelectTrigger id="storage-backend" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BACKEND_LABELS) as StorageBackendType[]).map(type => (
+                <SelectItem key={type} value={type}>{BACKEND_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {backend === 'google_drive' && settings && !settings.googleDriveConfigured && (
+            <p className="text-sm text-amber-600">Connect Google Drive below before uploading.</p>
+          )}
+        </div>
+
+        {backend === 's3' && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="s3-endpoint">Endpoint</Label>
+              <Input
+                id="s3-endpoint"
+                placeholder="Leave empty for AWS, e.g. http://localhost:9000 for MinIO"
+                value={s3.endpoint || ''}
+                onChange={e => updateS3('endpoint', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="s3-region">Region</Label>
+              <Input id="s3-region" value={s3.region} onChange={e => updateS3('region', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="s3-bucket">Bucket *</Label>
+              <Input id="s3-bucket" value={s3.bucket} onChange={e => updateS3('bucket', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="s3-prefix">Key prefix</Label>
+              <Input id="s3-prefix" placeholder="papers" value={s3.prefix || ''} onChange={e => updateS3('prefix', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="s3-access-key">Access key id *</Label>
+              <Input id="s3-access-key" value={s3.accessKeyId} onChange={e => updateS3('accessKeyId', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="s3-secret-key">Secret access key *</Label>
+              <Input
+                id="s3-secret-key"
+                type="password"
+                autoComplete="off"
+                placeholder={settings?.s3?.hasSecretAccessKey ? 'Saved; enter a new key to replace it' : ''}
+                value={s3.secretAccessKey}
+                onChange={e => updateS3('secretAccessKey', e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2 sm:col-span-2">
+              <Switch
+                id="s3-path-style"
+                checked={!!s3.forcePathStyle}
+                onCheckedChange={checked => updateS3('forcePathStyle', checked)}
+              />
+              <Label htmlFor="s3-path-style">Path-style URLs (MinIO and most self-hosted stores)</Label>
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={saving || isLoading}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Storage Settings
+        </Button>
+
+        <div className="space-y-3 border-t pt-4">
+          <div>
+            <h4 className="text-sm font-medium">Move existing files</h4>
+            <p className="text-sm text-muted-foreground">
+              Copy PDFs stored elsewhere to {settings ? BACKEND_LABELS[settings.backend] : 'the selected backend'}.
+              Papers switch to the new copy only once it is stored.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="storage-delete-source" checked={deleteSource} onCheckedChange={setDeleteSource} />
+            <Label htmlFor="storage-delete-source">Delete the old copies afterwards</Label>
+          </div>
+          <Button variant="outline" onClick={handleMigrate} disabled={migrating || unsaved || !settings}>
+            {migrating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowRightLeft className="h-4 w-4 mr-2" />}
+            Move Files
+          </Button>
+          {unsaved && <p className="text-sm text-muted-foreground">Save the new backend before moving files.</p>}
+
+          {migration && (
+            <Alert variant={migration.failed.length > 0 ? 'destructive' : 'default'}>
+              <AlertDescription>
+                <p>
+                  {migration.migrated} moved, {migration.skipped} already in {BACKEND_LABELS[migration.target]},{' '}
+                  {migration.failed.length} failed.
+                </p>
+                {(migration.failed.length > 0 || migration.sourceDeleteFailures.length > 0) && (
+                  <ul className="mt-2 list-disc pl-5 text-sm">
+                    {migration.failed.map(failure => (
+                      <li key={failure.paperId}>{failure.title}: {failure.error}</li>
+                    ))}
+                    {migration.sourceDeleteFailures.map(failure => (
+                      <li key={`delete-${failure.paperId}`}>{failure.title}: old copy not deleted ({failure.error})</li>
+                    ))}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,351 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useAIBudgets } from '@/hooks/useAIBudgets'
+import type { AIBudgetPeriod, AIBudgetStatus } from '@/services/usage/AIBudgetService'
+import type { AIProvider } from '@/lib/database'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+import { AlertTriangle, DollarSign, Pencil, Trash2, TrendingUp } from 'lucide-react'
+
+const PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
+// Select value for a budget across all providers
+const ALL_PROVIDERS = 'all'
+
+interface BudgetForm {
+  period: AIBudgetPeriod
+  provider: string
+  limitUsd: string
+  warningThresholds: string
+}
+
+const EMPTY_FORM: BudgetForm = {
+  period: 'monthly',
+  provider: ALL_PROVIDERS,
+  limitUsd: '',
+  warningThresholds: '80, 100'
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`
+
+const formatDay = (date: Date) => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  }).format(date)
+}
+
+/**
+ * The user's AI spending budgets: this month's burn-down with its end-of-month
+ * forecast, what each budget has left, and a form to set them
+ */
+export function AIBudgetsPanel() {
+  const { budgets, forecast, loading, error, saveBudget, deleteBudget } = useAIBudgets()
+  const [form, setForm] = useState<BudgetForm>(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const editBudget = (budget: AIBudgetStatus) => {
+    setForm({
+      period: budget.period,
+      provider: budget.provider ?? ALL_PROVIDERS,
+      limitUsd: budget.limitUsd.toString(),
+      warningThresholds: budget.warningThresholds.join(', ')
+    })
+    setFormError(null)
+  }
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    const limitUsd = Number(form.limitUsd)
+    if (!Number.isFinite(limitUsd) || limitUsd <= 0) {
+      setFormError('Enter a limit above $0')
+      return
+    }
+
+    const warningThresholds = form.warningThresholds
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean)
+      .map(Number)
+    if (!warningThresholds.every(threshold => Number.isInteger(threshold) && threshold >= 1 && threshold <= 100)) {
+      setFormError('Warning thresholds must be whole percentages from 1 to 100')
+      return
+    }
+
+    setSaving(true)
+    setFormError(null)
+    const saved = await saveBudget({
+      period: form.period,
+      provider: form.provider === ALL_PROVIDERS ? null : form.provider as AIProvider,
+      limitUsd,
+      warningThresholds
+    })
+    setSaving(false)
+
+    if (saved) {
+      setForm(EMPTY_FORM)
+    }
+  }
+
+  if (loading && !forecast) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <LoadingSpinner />
+        <span className="ml-2">Loading budgets...</span>
+      </div>
+    )
+  }
+
+  const hasLimit = forecast?.monthlyLimitUsd != null
+  const chartData = (forecast?.days || []).map(day => ({
+    ...day,
+    label: formatDay(new Date(`${day.date}T00:00:00Z`))
+  }))
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Forecast */}
+      {forecast && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Spent This Month</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatUsd(forecast.spentUsd)}</div>
+              <p className="text-xs text-muted-foreground">
+                {hasLimit ? `of ${formatUsd(forecast.monthlyLimitUsd!)} monthly budget` : 'No monthly budget set'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">End-of-Month Forecast</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${hasLimit && forecast.forecastUsd > forecast.monthlyLimitUsd! ? 'text-red-600' : ''}`}>
+                {formatUsd(forecast.forecastUsd)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {forecast.exhaustedAt
+                  ? `Budget runs out around ${formatDay(forecast.exhaustedAt)}`
+                  : 'At the average daily spend so far'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">By Provider</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              {Object.keys(forecast.byProvider).length > 0 ? (
+                <div className="space-y-1">
+                  {Object.entries(forecast.byProvider).map(([provider, spent]) => (
+                    <div key={provider} className="flex items-center justify-between text-sm">
+                      <span>{provider}</span>
+                      <span className="font-medium">{formatUsd(spent ?? 0)}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-muted-foreground">No AI spend this month</div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Burn-down */}
+      {forecast && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{hasLimit ? 'Monthly Budget Burn-down' : 'Monthly Spend'}</CardTitle>
+            <CardDescription>
+              {hasLimit
+                ? 'Budget left each day, against an even spend and the forecast'
+                : 'Spend so far this month and the forecast. Set a monthly budget across all providers to see its burn-down.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" fontSize={12} />
+                <YAxis tickFormatter={(value: number) => `$${value}`} />
+                <Tooltip formatter={value => formatUsd(Number(value))} />
+                <Legend />
+                {hasLimit ? (
+                  <>
+                    <Line type="monotone" dataKey="remainingUsd" name="Remaining" stroke="#0088FE" dot={false} connectNulls={false} />
+                    <Line type="monotone" dataKey="projectedRemainingUsd" name="Forecast" stroke="#FF8042" strokeDasharray="5 5" dot={false} />
+                    <Line type="monotone" dataKey="idealRemainingUsd" name="Even spend" stroke="#00C49F" strokeDasharray="2 4" dot={false} />
+                  </>
+                ) : (
+                  <>
+                    <Line type="monotone" dataKey="cumulativeUsd" name="Spent" stroke="#0088FE" dot={false} connectNulls={false} />
+                    <Line type="monotone" dataKey="projectedUsd" name="Forecast" stroke="#FF8042" strokeDasharray="5 5" dot={false} />
+                  </>
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Budgets */}
+      <Card>
+        <CardHeader>
+          <CardTitle>AI Budgets</CardTitle>
+          <CardDescription>
+            AI analyses and RAG answers a budget covers stop once it is spent, until it resets
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {budgets.length > 0 ? (
+            <div className="space-y-4">
+              {budgets.map((budget) => (
+                <div key={budget.id} className="border rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <h4 className="font-medium capitalize">
+                        {budget.period} {budget.provider ?? 'all providers'}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        Warns at {budget.warningThresholds.map(threshold => `${threshold}%`).join(', ') || 'no thresholds'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={budget.exceeded ? 'destructive' : 'default'}>
+                        {budget.exceeded ? 'Spent' : 'Active'}
+                      </Badge>
+                      <Button variant="ghost" size="sm" onClick={() => editBudget(budget)} aria-label="Edit budget">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteBudget(budget.id)} aria-label="Delete budget">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">
+                      {formatUsd(budget.spentUsd)} / {formatUsd(budget.limitUsd)}
+                    </span>
+                    <Progress value={Math.min(100, budget.percentUsed)} className="flex-1" />
+                  </div>
+
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {formatUsd(budget.remainingUsd)} left, resets {formatDay(budget.resetsAt)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-4">
+              No AI budgets set
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="budget-period">Period</Label>
+              <Select
+                value={form.period}
+                onValueChange={(period) => setForm({ ...form, period: period as AIBudgetPeriod })}
+              >
+                <SelectTrigger id="budget-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="budget-provider">Provider</Label>
+              <Select
+                value={form.provider}
+                onValueChange={(provider) => setForm({ ...form, provider })}
+              >
+                <SelectTrigger id="budget-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PROVIDERS}>All providers</SelectItem>
+                  {PROVIDERS.map(provider => (
+                    <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="budget-limit">Limit (USD)</Label>
+              <Input
+                id="budget-limit"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={form.limitUsd}
+                onChange={(event) => setForm({ ...form, limitUsd: event.target.value })}
+                placeholder="25.00"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="budget-thresholds">Warn at (%)</Label>
+              <Input
+                id="budget-thresholds"
+                value={form.warningThresholds}
+                onChange={(event) => setForm({ ...form, warningThresholds: event.target.value })}
+                placeholder="80, 100"
+              />
+            </div>
+
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Budget'}
+            </Button>
+          </form>
+
+          {formError && (
+            <p className="text-sm text-red-600">{formError}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
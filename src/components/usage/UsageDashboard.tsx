@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
 import { useAPIUsage } from '@/hooks/useAPIUsage'
+import { AIBudgetsPanel } from './AIBudgetsPanel'
 import { 
   BarChart, 
   Bar, 
@@ -208,6 +209,7 @@ export function UsageDashboard() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="endpoints">Endpoints</TabsTrigger>
           <TabsTrigger value="limits">Rate Limits</TabsTrigger>
+          <TabsTrigger value="budgets">AI Budgets</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
         </TabsList>
 
@@ -401,6 +403,11 @@ export function UsageDashboard() {
           </Card>
         </TabsContent>
 
+        {/* AI Budgets Tab */}
+        <TabsContent value="budgets" className="space-y-4">
+          <AIBudgetsPanel />
+        </TabsContent>
+
         {/* Security Tab */}
         <TabsContent value="security" className="space-y-4">
           <Card>
@@ -1,2 +1,3 @@
 export { default as UsageDashboard } from './UsageDashboard'
-export { default as AdminUsageDashboard } from './AdminUsageDashboard'
\ No newline at end of file
+export { default as AdminUsageDashboard } from './AdminUsageDashboard'
+export { AIBudgetsPanel } from './AIBudgetsPanel'
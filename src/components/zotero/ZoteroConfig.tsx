@@ -15,12 +15,18 @@ import { useAuth } from '@/components/auth/AuthProvider'
 import { UserZoteroService, ZoteroConfig as ZoteroConfigType, ZoteroSettingsInfo } from '@/services/settings/UserZoteroService'
 import { useSettingsValidation, useSettingsSave } from '@/hooks/useSettingsValidation'
 import { SettingsValidationFeedback } from '@/components/settings/SettingsValidationFeedback'
+import { requestZoteroSync, updateZoteroSyncSchedule } from '@/hooks/useZoteroSyncState'
+import type { ZoteroSyncState } from '@/services/background/ZoteroSyncJobStore'
+import type { ZoteroSyncRequest } from '@/services/background/ZoteroSyncQueue'
 
 interface ZoteroConfigProps {
   onConfigured?: (settings: ZoteroSettingsInfo) => void
+  // The user's sync state, kept current while a sync runs in the background
+  syncState?: ZoteroSyncState | null
+  onSync?: (type?: 'incremental' | 'full') => Promise<ZoteroSyncRequest>
 }
 
-const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
+const ZoteroConfig = memo(({ onConfigured, syncState, onSync = requestZoteroSync }: ZoteroConfigProps) => {
   const [config, setConfig] = useState<ZoteroConfigType>({
     apiKey: '',
     userIdZotero: '',
@@ -32,6 +38,8 @@ const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
   const [settings, setSettings] = useState<ZoteroSettingsInfo | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [syncSchedule, setSyncSchedule] = useState('')
   const [libraryInfo, setLibraryInfo] = useState<any>(null)
   const [error, setError] = useState<string | null>(null)
   const { toast } = useToast()
@@ -65,6 +73,7 @@ const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
           autoSync: userSettings.autoSync,
           syncInterval: userSettings.syncInterval
         })
+        setSyncSchedule(userSettings.syncSchedule || '')
         
         // Load library info if configured
         const info = await zoteroService.getZoteroLibraryInfo(user.id)
@@ -146,6 +155,11 @@ const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
       
       // Save the settings
       const savedSettings = await zoteroService.saveZoteroSettings(user.id, testConfig)
+
+      // Scheduled syncs are registered by the server
+      if (testConfig.autoSync) {
+        await updateZoteroSyncSchedule({ autoSync: true, syncInterval: testConfig.syncInterval })
+      }
       
       // Load library info
       const info = await zoteroService.getZoteroLibraryInfo(user.id)
@@ -289,13 +303,14 @@ const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
     )
   }
   
-  const handleSyncSettingsUpdate = async (autoSync: boolean, syncInterval?: number) => {
+  const handleSyncSettingsUpdate = async (autoSync: boolean, syncInterval?: number, schedule?: string) => {
     if (!user) return
     
     try {
-      await zoteroService.updateSyncSettings(user.id, {
+      const result = await updateZoteroSyncSchedule({
         autoSync,
-        ...(syncInterval !== undefined && { syncInterval })
+        ...(syncInterval !== undefined && { syncInterval }),
+        ...(schedule !== undefined && { syncSchedule: schedule.trim() || null })
       })
       
       // Reload settings
@@ -303,12 +318,14 @@ const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
       
       toast({
         title: 'Settings Updated',
-        description: 'Sync settings have been updated'
+        description: result.autoSync && !result.scheduled
+          ? 'Sync settings saved, but scheduled syncs are unavailable until background jobs are set up'
+          : 'Sync settings have been updated'
       })
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to update sync settings',
+        description: error instanceof Error ? error.message : 'Failed to update sync settings',
         variant: 'destructive'
       })
     }
@@ -317,24 +334,39 @@ const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
   const handleTriggerSync = async () => {
     if (!user) return
     
+    setIsSyncing(true)
     try {
-      await zoteroService.triggerSync(user.id)
+      // Syncs every subscribed library, downloading new and changed PDF attachments
+      const sync = await onSync('incremental')
       
-      toast({
-        title: 'Sync Started',
-        description: 'Manual sync has been triggered'
-      })
+      if (sync.result) {
+        toast({
+          title: 'Sync Completed',
+          description: `${sync.result.newItems} new papers, ${sync.result.updatedItems} updated, ${sync.result.downloadedAttachments ?? 0} PDFs downloaded`
+        })
+      } else {
+        toast({
+          title: sync.created ? 'Sync Started' : 'Sync Already Running',
+          description: 'Your libraries are synced in the background; progress shows below'
+        })
+      }
       
       // Reload settings to show updated status
-      setTimeout(() => loadZoteroSettings(), 1000)
+      await loadZoteroSettings()
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to trigger sync',
+        description: error instanceof Error ? error.message : 'Failed to trigger sync',
         variant: 'destructive'
       })
+    } finally {
+      setIsSyncing(false)
     }
   }
+
+  const syncInProgress = isSyncing || (syncState
+    ? syncState.isRunning
+    : settings?.syncStatus === 'queued' || settings?.syncStatus === 'syncing')
   
   if (isLoading) {
     return (
@@ -488,15 +520,36 @@ const ZoteroConfig = memo(({ onConfigured }: ZoteroConfigProps) => {
                 />
                 <p className="text-sm text-gray-500">Minimum 60 seconds</p>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="syncSchedule" className="text-sm font-medium">Sync Schedule (cron)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="syncSchedule"
+                    type="text"
+                    placeholder="0 */6 * * *"
+                    value={syncSchedule}
+                    onChange={(e) => setSyncSchedule(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleSyncSettingsUpdate(settings.autoSync, undefined, syncSchedule)}
+                    disabled={syncSchedule.trim() === (settings.syncSchedule || '')}
+                  >
+                    Save
+                  </Button>
+                </div>
+                <p className="text-sm text-gray-500">Optional; replaces the interval, e.g. 0 */6 * * * syncs every six hours</p>
+              </div>
             </div>
             
             <div className="flex gap-2">
               <Button 
                 onClick={handleTriggerSync}
                 variant="default"
-                disabled={settings.syncStatus === 'syncing'}
+                disabled={syncInProgress}
               >
-                {settings.syncStatus === 'syncing' ? (
+                {syncInProgress ? (
                   <>
                     <Activity className="mr-2 h-4 w-4 animate-pulse" />
                     Syncing...
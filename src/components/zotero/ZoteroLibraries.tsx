@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Library, Loader2, Plus, Trash2, User, Users } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { useZoteroLibraries } from '@/hooks/useZoteroLibraries'
+import type { ZoteroLibrary } from '@/services/settings/UserZoteroService'
+
+function libraryLabel(library: ZoteroLibrary): string {
+  if (library.name) {
+    return library.name
+  }
+  return library.libraryType === 'group' ? `Group ${library.libraryId}` : 'Personal library'
+}
+
+export function ZoteroLibraries() {
+  const [groupId, setGroupId] = useState('')
+  const [groupName, setGroupName] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { libraries, isLoading, error, addGroupLibrary, removeLibrary } = useZoteroLibraries()
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!/^\d+$/.test(groupId.trim())) {
+      toast({
+        title: 'Invalid group ID',
+        description: 'Group Library ID must be a numeric value',
+        variant: 'destructive'
+      })
+      return
+    }
+
+    setIsAdding(true)
+    try {
+      const library = await addGroupLibrary(groupId.trim(), groupName.trim() || undefined)
+      setGroupId('')
+      setGroupName('')
+      toast({
+        title: 'Library added',
+        description: `${libraryLabel(library)} will be synced from now on.`
+      })
+    } catch (err) {
+      toast({
+        title: 'Failed to add library',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRemove = async (library: ZoteroLibrary) => {
+    setRemovingId(library.id)
+    try {
+      await removeLibrary(library.id)
+      toast({
+        title: 'Library removed',
+        description: `${libraryLabel(library)} is no longer synced. Its papers stay in your library.`
+      })
+    } catch (err) {
+      toast({
+        title: 'Failed to remove library',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="h-5 w-5" />
+          Zotero Libraries
+        </CardTitle>
+        <CardDescription>
+          Every library listed here is synced, with each item&apos;s PDF attachment stored, indexed and searchable.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading && libraries.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading libraries...
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {libraries.map(library => (
+              <div key={library.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium flex items-center gap-2">
+                    {library.libraryType === 'group' ? <Users className="h-4 w-4" /> : <User className="h-4 w-4" />}
+                    <span className="truncate">{libraryLabel(library)}</span>
+                    <Badge variant="outline">{library.libraryType === 'group' ? 'Group' : 'Personal'}</Badge>
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {library.lastSyncAt ? `Last sync: ${library.lastSyncAt.toLocaleString()}` : 'Not synced yet'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={removingId === library.id}
+                  onClick={() => handleRemove(library)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            {libraries.length === 0 && !error && (
+              <p className="text-sm text-gray-600">No libraries yet. Connect Zotero above to sync your personal library.</p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3 pt-2 border-t">
+          <p className="text-sm font-medium">Add a group library</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="zoteroGroupId">Group Library ID</Label>
+              <Input
+                id="zoteroGroupId"
+                placeholder="e.g., 123456"
+                value={groupId}
+                onChange={(e) => setGroupId(e.target.value)}
+                pattern="[0-9]+"
+                title="Group Library ID should contain only numbers"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="zoteroGroupName">Name (optional)</Label>
+              <Input
+                id="zoteroGroupName"
+                placeholder="Taken from Zotero if left empty"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button type="submit" variant="outline" disabled={isAdding || !groupId.trim()}>
+            {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Group Library
+          </Button>
+          <p className="text-xs text-gray-500">
+            The group ID is the number in the group&apos;s URL on zotero.org. Your API key needs access to the group.
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,11 +2,14 @@
 
 import { useState } from 'react'
 import { ZoteroConfig } from './ZoteroConfig'
+import { ZoteroLibraries } from './ZoteroLibraries'
 import { ZoteroSyncStatus } from './ZoteroSyncStatus'
 import { ZoteroSettingsInfo } from '@/services/settings/UserZoteroService'
+import { useZoteroSyncState } from '@/hooks/useZoteroSyncState'
 
 export function ZoteroManager() {
   const [settings, setSettings] = useState<ZoteroSettingsInfo | null>(null)
+  const { state: syncState, requestSync } = useZoteroSyncState(settings !== null)
 
   const handleConfigured = (zoteroSettings: ZoteroSettingsInfo) => {
     setSettings(zoteroSettings)
@@ -14,8 +17,9 @@ export function ZoteroManager() {
 
   return (
     <div className="space-y-6">
-      <ZoteroConfig onConfigured={handleConfigured} />
-      {settings && <ZoteroSyncStatus settings={settings} />}
+      <ZoteroConfig onConfigured={handleConfigured} syncState={syncState} onSync={requestSync} />
+      {settings && <ZoteroLibraries />}
+      {settings && <ZoteroSyncStatus settings={settings} syncState={syncState} />}
     </div>
   )
 }
\ No newline at end of file
@@ -13,18 +13,63 @@ import {
   XCircle, 
   Clock, 
   Download,
-  AlertTriangle
+  AlertTriangle,
+  GitMerge
 } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { useZoteroConflicts } from '@/hooks/useZoteroConflicts'
 import { ZoteroSettingsInfo } from '@/services/settings/UserZoteroService'
+import type { ConflictResolution, ZoteroSyncConflict } from '@/services/zotero/ZoteroConflictService'
+import type { ZoteroSyncState } from '@/services/background/ZoteroSyncJobStore'
 
 interface ZoteroSyncStatusProps {
   settings: ZoteroSettingsInfo
+  // Takes precedence over the status in settings, which isn't reloaded while a sync runs
+  syncState?: ZoteroSyncState | null
 }
 
-export function ZoteroSyncStatus({ settings }: ZoteroSyncStatusProps) {
+const FIELD_LABELS: Record<ZoteroSyncConflict['field'], string> = {
+  tags: 'Tags',
+  notes: 'Notes',
+  rating: 'Rating'
+}
+
+function formatConflictValue(field: ZoteroSyncConflict['field'], value: ZoteroSyncConflict['localValue']): string {
+  if (field === 'tags') {
+    return Array.isArray(value) && value.length > 0 ? value.join(', ') : 'No tags'
+  }
+  if (field === 'rating') {
+    return typeof value === 'number' ? `${value}/5` : 'Not rated'
+  }
+  return typeof value === 'string' && value.length > 0 ? value : 'No notes'
+}
+
+export function ZoteroSyncStatus({ settings, syncState }: ZoteroSyncStatusProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
   const { toast } = useToast()
+  const { conflicts, resolveConflict } = useZoteroConflicts()
+
+  const handleResolve = async (conflict: ZoteroSyncConflict, keep: ConflictResolution) => {
+    setResolvingId(conflict.id)
+    try {
+      await resolveConflict(conflict.id, keep)
+      toast({
+        title: 'Conflict resolved',
+        description: keep === 'zotero'
+          ? `${FIELD_LABELS[conflict.field]} updated from Zotero.`
+          : `${FIELD_LABELS[conflict.field]} will be written to Zotero on the next sync.`
+      })
+    } catch (error) {
+      toast({
+        title: 'Failed to resolve conflict',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setResolvingId(null)
+    }
+  }
 
   // This component now receives settings as props, so we don't need to fetch them
 
@@ -32,13 +77,25 @@ export function ZoteroSyncStatus({ settings }: ZoteroSyncStatusProps) {
 
   // Sync functionality is now handled in ZoteroConfig component
 
+  const syncStatus = syncState?.status ?? settings.syncStatus
+  const lastSyncAt = syncState ? syncState.lastSyncAt : settings.lastSyncAt
+  const lastResult = syncState?.lastResult
+  const progress = syncState?.progress
+
   const formatDate = (date: Date | null) => {
     if (!date) return 'Never'
     return date.toLocaleString()
   }
 
   const getSyncStatusBadge = () => {
-    switch (settings.syncStatus) {
+    switch (syncStatus) {
+      case 'queued':
+        return (
+          <Badge variant="secondary" className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            Queued
+          </Badge>
+        )
       case 'syncing':
         return (
           <Badge variant="secondary" className="flex items-center gap-1">
@@ -85,13 +142,17 @@ export function ZoteroSyncStatus({ settings }: ZoteroSyncStatusProps) {
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Sync Progress */}
-        {settings.syncStatus === 'syncing' && (
+        {(syncStatus === 'queued' || syncStatus === 'syncing') && (
           <div className="space-y-2">
             <div className="flex items-center gap-2">
               <Loader2 className="h-4 w-4 animate-spin" />
-              <span className="text-sm">Synchronizing with Zotero...</span>
+              <span className="text-sm">
+                {syncStatus === 'queued'
+                  ? 'Waiting for a background worker...'
+                  : progress?.message || 'Synchronizing with Zotero...'}
+              </span>
             </div>
-            <Progress value={undefined} className="w-full" />
+            <Progress value={syncStatus === 'syncing' ? progress?.progress : undefined} className="w-full" />
           </div>
         )}
 
@@ -99,7 +160,7 @@ export function ZoteroSyncStatus({ settings }: ZoteroSyncStatusProps) {
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
             <p className="font-medium text-gray-700">Last Sync</p>
-            <p className="text-gray-600">{formatDate(settings.lastSyncAt)}</p>
+            <p className="text-gray-600">{formatDate(lastSyncAt)}</p>
           </div>
           <div>
             <p className="font-medium text-gray-700">Auto Sync</p>
@@ -113,27 +174,89 @@ export function ZoteroSyncStatus({ settings }: ZoteroSyncStatusProps) {
             <p className="text-gray-600">{settings.libraryType}</p>
           </div>
           <div>
-            <p className="font-medium text-gray-700">Sync Interval</p>
-            <p className="text-gray-600">{settings.syncInterval}s</p>
+            <p className="font-medium text-gray-700">{settings.syncSchedule ? 'Sync Schedule' : 'Sync Interval'}</p>
+            <p className="text-gray-600">{settings.syncSchedule || `${settings.syncInterval}s`}</p>
           </div>
         </div>
 
         {/* Status Information */}
-        {settings.syncStatus === 'completed' && settings.lastSyncAt && (
+        {syncStatus === 'completed' && lastSyncAt && (
           <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
             <p className="font-medium text-green-800 mb-2">Sync Status</p>
             <p className="text-sm text-green-600">
-              Last successful sync: {formatDate(settings.lastSyncAt)}
+              Last successful sync: {formatDate(lastSyncAt)}
             </p>
+            {lastResult && (
+              <p className="text-sm text-green-600">
+                {lastResult.newItems} new papers, {lastResult.updatedItems} updated, {lastResult.downloadedAttachments ?? 0} PDFs downloaded
+              </p>
+            )}
+            {syncState?.error && (
+              <p className="text-xs text-amber-700 mt-2 whitespace-pre-wrap line-clamp-4">{syncState.error}</p>
+            )}
           </div>
         )}
         
-        {settings.syncStatus === 'failed' && (
+        {syncStatus === 'failed' && (
           <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
             <p className="font-medium text-red-800 mb-2">Sync Failed</p>
             <p className="text-sm text-red-600">
-              The last sync attempt failed. Please check your Zotero configuration and try again.
+              {syncState?.error || 'The last sync attempt failed. Please check your Zotero configuration and try again.'}
+            </p>
+          </div>
+        )}
+
+        {/* Sync Conflicts */}
+        {conflicts.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <GitMerge className="h-4 w-4 text-amber-600" />
+              <p className="font-medium text-gray-700">
+                {conflicts.length === 1 ? '1 conflict' : `${conflicts.length} conflicts`} to resolve
+              </p>
+            </div>
+            <p className="text-xs text-gray-500">
+              These were changed both here and in Zotero since the last sync. Neither side is updated until you choose.
             </p>
+            {conflicts.map(conflict => (
+              <div key={conflict.id} className="p-3 border border-amber-200 bg-amber-50 rounded-lg space-y-2">
+                <p className="text-sm font-medium">
+                  {FIELD_LABELS[conflict.field]} of “{conflict.paperTitle}”
+                </p>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-xs font-medium text-gray-700">In this app</p>
+                    <p className="text-gray-600 whitespace-pre-wrap line-clamp-4">
+                      {formatConflictValue(conflict.field, conflict.localValue)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-gray-700">In Zotero</p>
+                    <p className="text-gray-600 whitespace-pre-wrap line-clamp-4">
+                      {formatConflictValue(conflict.field, conflict.remoteValue)}
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={resolvingId === conflict.id}
+                    onClick={() => handleResolve(conflict, 'local')}
+                  >
+                    Keep this app&apos;s
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={resolvingId === conflict.id}
+                    onClick={() => handleResolve(conflict, 'zotero')}
+                  >
+                    Keep Zotero&apos;s
+                  </Button>
+                </div>
+              </div>
+            ))}
           </div>
         )}
 
@@ -151,8 +274,9 @@ export function ZoteroSyncStatus({ settings }: ZoteroSyncStatusProps) {
         {/* Status Summary */}
         <div className="text-xs text-gray-500 space-y-1">
           <p>• Sync actions are available in the Zotero Integration section above</p>
-          <p>• Auto-sync will run automatically based on your configured interval</p>
+          <p>• Auto-sync runs in the background on your configured interval or cron schedule, even when this page is closed</p>
           <p>• Manual sync can be triggered anytime using the "Sync Now" button</p>
+          <p>• Ratings, tags and notes are written back to Zotero; ratings appear there as rating:N tags</p>
         </div>
       </CardContent>
     </Card>
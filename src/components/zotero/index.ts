@@ -1,3 +1,4 @@
 export { ZoteroConfig } from './ZoteroConfig'
 export { ZoteroSyncStatus } from './ZoteroSyncStatus'
+export { ZoteroLibraries } from './ZoteroLibraries'
 export { ZoteroManager } from './ZoteroManager'
\ No newline at end of file
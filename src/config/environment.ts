@@ -38,6 +38,9 @@ const envSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
   GOOGLE_AI_API_KEY: z.string().optional(),
+  EMBEDDING_PROVIDER: z.enum(['openai', 'gemini', 'local']).optional(),
+  EMBEDDING_MODEL: z.string().optional(),
+  EMBEDDING_DIMENSIONS: z.coerce.number().optional(),
   
   // Google Drive
   GOOGLE_CLIENT_ID: z.string().optional(),
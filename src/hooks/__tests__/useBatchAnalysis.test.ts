@@ -331,4 +331,39 @@ describe('useBatchAnalysis', () => {
       signal: expect.any(AbortSignal)
     });
   });
-});
\ No newline at end of file
+
+  it('sends the template and auth token for template runs', async () => {
+    localStorage.setItem('auth_token', 'test-token');
+    (fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: true,
+        results: [],
+        summary: {
+          totalPapers: 1,
+          successfulPapers: 1,
+          failedPapers: 0,
+          totalAnalyses: 2,
+          processingTimeMs: 1000
+        },
+        template: { id: 'template-1', name: 'Reproducibility checklist', version: 2 }
+      })
+    });
+
+    const { result } = renderHook(() => useBatchAnalysis());
+
+    await act(async () => {
+      await result.current.startBatchAnalysis(
+        [mockPapers[0]],
+        mockProviders,
+        mockApiKeys,
+        { templateId: 'template-1' }
+      );
+    });
+    localStorage.removeItem('auth_token');
+
+    const [, request] = (fetch as jest.Mock).mock.calls[0];
+    expect(request.headers.Authorization).toBe('Bearer test-token');
+    expect(JSON.parse(request.body).templateId).toBe('template-1');
+  });
+});
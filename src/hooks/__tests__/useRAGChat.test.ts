@@ -123,7 +123,9 @@ describe('useRAGChat', () => {
       await result.current.sendMessage('Test question')
     })
 
-    expect(mockRAGService.askQuestion).toHaveBeenCalledWith('Test question', undefined)
+    expect(mockRAGService.askQuestion).toHaveBeenCalledWith('Test question', undefined, expect.objectContaining({
+      signal: expect.any(AbortSignal)
+    }))
     expect(result.current.messages).toHaveLength(2)
     expect(result.current.isLoading).toBe(false)
   })
@@ -0,0 +1,139 @@
+import { renderHook, act } from '@testing-library/react'
+import { useRAGChat } from '../useRAGChat'
+import type { ChatMessage } from '@/types'
+
+type AskOptions = { onUpdate: (message: ChatMessage) => void; signal: AbortSignal }
+
+const mockRAGService = {
+  askQuestion: jest.fn(),
+  getChatHistory: jest.fn(),
+  getConversation: jest.fn(),
+  setCitationStyle: jest.fn(),
+  setScope: jest.fn(),
+  clearHistory: jest.fn(),
+  removeMessage: jest.fn(),
+  exportChatHistory: jest.fn(),
+  importChatHistory: jest.fn(),
+  getConversationStats: jest.fn()
+}
+
+jest.mock('@/services/rag/RAGService', () => ({
+  RAGService: jest.fn().mockImplementation(() => mockRAGService)
+}))
+
+const userMessage: ChatMessage = {
+  id: '1',
+  role: 'user',
+  content: 'Test question',
+  timestamp: new Date()
+}
+
+const assistantMessage = (content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: '2',
+  role: 'assistant',
+  content,
+  timestamp: new Date(),
+  ...extra
+})
+
+/**
+ * Render the hook with a question whose answer is streamed by hand: the
+ * returned controls push partial answers and finish the question
+ */
+function renderStreamingChat() {
+  let resolveQuestion: (message: ChatMessage) => void = () => {}
+  let options: AskOptions | undefined
+
+  mockRAGService.getChatHistory.mockReturnValue([userMessage])
+  mockRAGService.askQuestion.mockImplementation((_question: string, _filters: unknown, askOptions: AskOptions) => {
+    options = askOptions
+    return new Promise(resolve => { resolveQuestion = resolve })
+  })
+
+  const hook = renderHook(() => useRAGChat({ openaiApiKey: 'test-api-key', autoSave: false }))
+
+  return {
+    ...hook,
+    options: () => options,
+    finish: (message: ChatMessage) => {
+      mockRAGService.getChatHistory.mockReturnValue([userMessage, message])
+      resolveQuestion(message)
+    }
+  }
+}
+
+describe('useRAGChat streaming', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockRAGService.getChatHistory.mockReturnValue([])
+    mockRAGService.getConversation.mockReturnValue(null)
+  })
+
+  it('shows the answer as it grows', async () => {
+    const { result, options, finish } = renderStreamingChat()
+
+    let sending: Promise<void> = Promise.resolve()
+    act(() => {
+      sending = result.current.sendMessage('Test question')
+    })
+
+    expect(mockRAGService.askQuestion).toHaveBeenCalledWith('Test question', undefined, expect.objectContaining({
+      signal: expect.any(AbortSignal)
+    }))
+
+    act(() => {
+      options()?.onUpdate(assistantMessage('Transformers', { streaming: true }))
+    })
+    expect(result.current.messages.map(message => message.content)).toEqual(['Test question', 'Transformers'])
+    expect(result.current.messages[1].streaming).toBe(true)
+    expect(result.current.isLoading).toBe(true)
+
+    act(() => {
+      options()?.onUpdate(assistantMessage('Transformers use attention', { streaming: true }))
+    })
+    expect(result.current.messages[1].content).toBe('Transformers use attention')
+
+    await act(async () => {
+      finish(assistantMessage('Transformers use attention [1].'))
+      await sending
+    })
+
+    expect(result.current.messages).toHaveLength(2)
+    expect(result.current.messages[1]).toMatchObject({ content: 'Transformers use attention [1].' })
+    expect(result.current.messages[1].streaming).toBeUndefined()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('cancels the answer and keeps what arrived', async () => {
+    const { result, options, finish } = renderStreamingChat()
+
+    let sending: Promise<void> = Promise.resolve()
+    act(() => {
+      sending = result.current.sendMessage('Test question')
+    })
+    act(() => {
+      options()?.onUpdate(assistantMessage('Partial', { streaming: true }))
+    })
+
+    act(() => {
+      result.current.cancel()
+    })
+    expect(options()?.signal.aborted).toBe(true)
+
+    await act(async () => {
+      finish(assistantMessage('Partial', { cancelled: true }))
+      await sending
+    })
+
+    expect(result.current.messages[1]).toMatchObject({ content: 'Partial', cancelled: true })
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.error).toBeNull()
+  })
+
+  it('does nothing when cancelled without an answer under way', () => {
+    const { result } = renderStreamingChat()
+
+    expect(() => act(() => result.current.cancel())).not.toThrow()
+    expect(result.current.isLoading).toBe(false)
+  })
+})
@@ -46,7 +46,8 @@ export function useAIAnalysis(options: UseAIAnalysisOptions = {}): UseAIAnalysis
     openai: 'idle',
     anthropic: 'idle',
     xai: 'idle',
-    gemini: 'idle'
+    gemini: 'idle',
+    'openai-compatible': 'idle'
   })
   const [error, setError] = useState<string | null>(null)
 
@@ -247,7 +248,8 @@ export function useAIAnalysis(options: UseAIAnalysisOptions = {}): UseAIAnalysis
           openai: 'idle',
           anthropic: 'idle',
           xai: 'idle',
-          gemini: 'idle'
+          gemini: 'idle',
+          'openai-compatible': 'idle'
         })
       }
     } catch (error) {
@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/auth/AuthProvider'
+import type { AIBudget, AIBudgetInput, AIBudgetStatus, AISpendForecast } from '@/services/usage/AIBudgetService'
+
+function parseBudget<T extends AIBudget>(budget: T): T {
+  return {
+    ...budget,
+    createdAt: new Date(budget.createdAt),
+    updatedAt: new Date(budget.updatedAt)
+  }
+}
+
+function parseBudgetStatus(status: AIBudgetStatus): AIBudgetStatus {
+  return {
+    ...parseBudget(status),
+    periodStart: new Date(status.periodStart),
+    resetsAt: new Date(status.resetsAt)
+  }
+}
+
+function parseForecast(forecast: AISpendForecast): AISpendForecast {
+  return {
+    ...forecast,
+    monthStart: new Date(forecast.monthStart),
+    exhaustedAt: forecast.exhaustedAt ? new Date(forecast.exhaustedAt) : null
+  }
+}
+
+export function useAIBudgets() {
+  const { user, session } = useAuth()
+  const [budgets, setBudgets] = useState<AIBudgetStatus[]>([])
+  const [forecast, setForecast] = useState<AISpendForecast | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Get the user's budgets with what has been spent, and this month's forecast
+   */
+  const getBudgets = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const token = session?.access_token
+      if (!token) throw new Error('No access token available')
+
+      const response = await fetch('/api/usage/budgets', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details || errorData.error || 'Failed to get AI budgets')
+      }
+
+      const { data } = await response.json()
+      setBudgets(data.budgets.map(parseBudgetStatus))
+      setForecast(parseForecast(data.forecast))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }, [user, session])
+
+  /**
+   * Create or change the budget for a period and provider
+   */
+  const saveBudget = useCallback(async (input: AIBudgetInput): Promise<AIBudget | null> => {
+    if (!user) return null
+
+    try {
+      const token = session?.access_token
+      if (!token) throw new Error('No access token available')
+
+      const response = await fetch('/api/usage/budgets', {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(input)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details || errorData.error || 'Failed to save AI budget')
+      }
+
+      const { data } = await response.json()
+      await getBudgets()
+      return parseBudget(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return null
+    }
+  }, [user, session, getBudgets])
+
+  /**
+   * Remove a budget
+   */
+  const deleteBudget = useCallback(async (budgetId: string): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      const token = session?.access_token
+      if (!token) throw new Error('No access token available')
+
+      const response = await fetch(`/api/usage/budgets/${budgetId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details || errorData.error || 'Failed to delete AI budget')
+      }
+
+      await getBudgets()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return false
+    }
+  }, [user, session, getBudgets])
+
+  // Load budgets when user changes
+  useEffect(() => {
+    if (user) {
+      getBudgets()
+    }
+  }, [user, getBudgets])
+
+  return {
+    budgets,
+    forecast,
+    loading,
+    error,
+    getBudgets,
+    saveBudget,
+    deleteBudget
+  }
+}
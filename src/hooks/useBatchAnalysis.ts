@@ -24,6 +24,11 @@ export interface BatchAnalysisOptions {
   maxConcurrency?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  // Run this prompt template instead of the structured analysis
+  templateId?: string;
+  templateVersion?: number;
+  // Server for the 'openai-compatible' provider; its API key is optional
+  openaiCompatible?: { baseUrl: string; modelName?: string };
   onProgress?: (progress: BatchAnalysisProgress) => void;
   onPaperComplete?: (paperId: string, result: BatchAnalysisResult) => void;
 }
@@ -48,12 +53,17 @@ export function useBatchAnalysis() {
     }
 
     // Validate API keys
-    const missingKeys = providers.filter(provider => !apiKeys[provider]);
+    const missingKeys = providers.filter(provider => provider !== 'openai-compatible' && !apiKeys[provider]);
     if (missingKeys.length > 0) {
       setError(`Missing API keys for: ${missingKeys.join(', ')}`);
       return;
     }
 
+    if (providers.includes('openai-compatible') && !options.openaiCompatible?.baseUrl) {
+      setError('Missing base URL for the self-hosted model server');
+      return;
+    }
+
     // Create abort controller
     abortControllerRef.current = new AbortController();
     
@@ -77,16 +87,21 @@ export function useBatchAnalysis() {
       setProgress(initialProgress);
       options.onProgress?.(initialProgress);
 
-      // Send batch request to API
+      // Send batch request to API; analyses are charged to the signed-in user
+      const token = localStorage.getItem('auth_token');
       const response = await fetch('/api/ai-analysis/batch', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {})
         },
         body: JSON.stringify({
           papers,
           providers,
           apiKeys,
+          openaiCompatible: options.openaiCompatible,
+          templateId: options.templateId,
+          templateVersion: options.templateVersion,
           options: {
             maxConcurrency: options.maxConcurrency || 3,
             retryAttempts: options.retryAttempts || 2,
@@ -98,7 +113,7 @@ export function useBatchAnalysis() {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Batch analysis failed');
+        throw new Error(errorData.details || errorData.error || 'Batch analysis failed');
       }
 
       const batchResult = await response.json();
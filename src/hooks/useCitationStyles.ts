@@ -0,0 +1,92 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { BUILT_IN_CITATION_STYLES, getBuiltInStyle, type BuiltInCitationStyle } from '@/services/citation/styles'
+import type { CitationStyleSummary } from '@/services/citation/CitationService'
+
+interface UseCitationStylesOptions {
+  // Load the user's uploaded styles; built-in styles are always available
+  autoLoad?: boolean
+}
+
+interface UseCitationStylesReturn {
+  styles: CitationStyleSummary[]
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  uploadStyle: (file: File) => Promise<CitationStyleSummary>
+  deleteStyle: (id: string) => Promise<void>
+}
+
+const BUILT_IN_STYLES: CitationStyleSummary[] = Object.entries(BUILT_IN_CITATION_STYLES).map(([id, info]) => ({
+  id,
+  name: info.label,
+  builtIn: true,
+  numeric: getBuiltInStyle(id as BuiltInCitationStyle).isNumeric
+}))
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+/**
+ * Citation styles for style menus: built-in styles plus the user's uploaded CSL styles
+ */
+export function useCitationStyles({ autoLoad = true }: UseCitationStylesOptions = {}): UseCitationStylesReturn {
+  const [styles, setStyles] = useState<CitationStyleSummary[]>(BUILT_IN_STYLES)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/citation-styles', { headers: authHeaders() })
+      const body = await readResponse(response, 'load citation styles')
+      setStyles(body.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load citation styles')
+      console.error('Error loading citation styles:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const uploadStyle = useCallback(async (file: File) => {
+    const form = new FormData()
+    form.append('file', file)
+    const response = await fetch('/api/citation-styles', { method: 'POST', headers: authHeaders(), body: form })
+    const style: CitationStyleSummary = (await readResponse(response, 'upload citation style')).data
+
+    setStyles(prev => [...prev, style])
+    return style
+  }, [])
+
+  const deleteStyle = useCallback(async (id: string) => {
+    const response = await fetch(`/api/citation-styles/${id}`, { method: 'DELETE', headers: authHeaders() })
+    await readResponse(response, 'delete citation style')
+
+    setStyles(prev => prev.filter(style => style.id !== id))
+  }, [])
+
+  useEffect(() => {
+    if (autoLoad) {
+      reload()
+    }
+  }, [autoLoad, reload])
+
+  return { styles, isLoading, error, reload, uploadStyle, deleteStyle }
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { buildCollectionTree } from '@/services/collections/tree'
+import type { Collection, CollectionNode } from '@/types'
+
+interface UseCollectionsOptions {
+  // Load the signed-in user's collections on mount
+  autoLoad?: boolean
+}
+
+interface CollectionChanges {
+  name?: string
+  parentId?: string | null
+  position?: number
+}
+
+interface UseCollectionsReturn {
+  collections: Collection[]
+  tree: CollectionNode[]
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  createCollection: (name: string, parentId?: string | null) => Promise<Collection>
+  updateCollection: (id: string, changes: CollectionChanges) => Promise<Collection>
+  deleteCollection: (id: string) => Promise<void>
+  addPapers: (id: string, paperIds: string[]) => Promise<Collection>
+  removePapers: (id: string, paperIds: string[]) => Promise<Collection>
+  getPaperIds: (id: string) => Promise<string[]>
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+function parseCollection(data: Collection): Collection {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt)
+  }
+}
+
+/**
+ * The signed-in user's collections, flat and as a tree
+ */
+export function useCollections({ autoLoad = true }: UseCollectionsOptions = {}): UseCollectionsReturn {
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const tree = useMemo(() => buildCollectionTree(collections), [collections])
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/collections', { headers: authHeaders() })
+      const body = await readResponse(response, 'load collections')
+      setCollections((body.data as Collection[]).map(parseCollection))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collections')
+      console.error('Error loading collections:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const createCollection = useCallback(async (name: string, parentId: string | null = null) => {
+    const response = await fetch('/api/collections', {
+      method: 'POST',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, parentId })
+    })
+    const collection = parseCollection((await readResponse(response, 'create collection')).data)
+
+    setCollections(prev => [...prev, collection])
+    return collection
+  }, [])
+
+  const updateCollection = useCallback(async (id: string, changes: CollectionChanges) => {
+    const response = await fetch(`/api/collections/${id}`, {
+      method: 'PATCH',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    })
+    const collection = parseCollection((await readResponse(response, 'update collection')).data)
+
+    // Moves and reorders renumber siblings, so the whole list is reloaded
+    if (changes.parentId !== undefined || changes.position !== undefined) {
+      await reload()
+    } else {
+      setCollections(prev => prev.map(item => item.id === id ? collection : item))
+    }
+    return collection
+  }, [reload])
+
+  const deleteCollection = useCallback(async (id: string) => {
+    const response = await fetch(`/api/collections/${id}`, { method: 'DELETE', headers: authHeaders() })
+    await readResponse(response, 'delete collection')
+
+    // Subcollections are deleted with it
+    setCollections(prev => {
+      const removed = new Set([id])
+      let found = true
+      while (found) {
+        found = false
+        for (const item of prev) {
+          if (item.parentId && removed.has(item.parentId) && !removed.has(item.id)) {
+            removed.add(item.id)
+            found = true
+          }
+        }
+      }
+      return prev.filter(item => !removed.has(item.id))
+    })
+  }, [])
+
+  const changePapers = useCallback(async (id: string, paperIds: string[], method: 'POST' | 'DELETE') => {
+    const response = await fetch(`/api/collections/${id}/papers`, {
+      method,
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paperIds })
+    })
+    const action = method === 'POST' ? 'add papers to collection' : 'remove papers from collection'
+    const collection = parseCollection((await readResponse(response, action)).data)
+
+    setCollections(prev => prev.map(item => item.id === id ? collection : item))
+    return collection
+  }, [])
+
+  const addPapers = useCallback((id: string, paperIds: string[]) => changePapers(id, paperIds, 'POST'), [changePapers])
+
+  const removePapers = useCallback((id: string, paperIds: string[]) => changePapers(id, paperIds, 'DELETE'), [changePapers])
+
+  const getPaperIds = useCallback(async (id: string) => {
+    const response = await fetch(`/api/collections/${id}/papers`, { headers: authHeaders() })
+    return (await readResponse(response, 'load collection papers')).data.paperIds as string[]
+  }, [])
+
+  useEffect(() => {
+    if (autoLoad) {
+      reload()
+    }
+  }, [autoLoad, reload])
+
+  return {
+    collections,
+    tree,
+    isLoading,
+    error,
+    reload,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    addPapers,
+    removePapers,
+    getPaperIds
+  }
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { PromptTemplate, PromptTemplateInput, PromptTemplateVersion } from '@/services/ai/promptTemplates'
+
+interface UsePromptTemplatesReturn {
+  templates: PromptTemplate[]
+  // Template used for batch analysis; null for the built-in structured analysis
+  selectedTemplateId: string | null
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  selectTemplate: (id: string | null) => void
+  createTemplate: (input: PromptTemplateInput) => Promise<PromptTemplate>
+  updateTemplate: (id: string, input: PromptTemplateInput) => Promise<PromptTemplate>
+  deleteTemplate: (id: string) => Promise<void>
+  getVersions: (id: string) => Promise<PromptTemplateVersion[]>
+}
+
+const SELECTED_TEMPLATE_KEY = 'analysis_template_id'
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+function toTemplate(data: PromptTemplate): PromptTemplate {
+  return { ...data, createdAt: new Date(data.createdAt), updatedAt: new Date(data.updatedAt) }
+}
+
+/**
+ * The user's analysis prompt templates and which one batch analysis runs
+ */
+export function usePromptTemplates(): UsePromptTemplatesReturn {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/ai-analysis/templates', { headers: authHeaders() })
+      const body = await readResponse(response, 'load prompt templates')
+      const loaded: PromptTemplate[] = body.data.map(toTemplate)
+      setTemplates(loaded)
+
+      // Forget a selection whose template was deleted elsewhere
+      setSelectedTemplateId(prev => {
+        if (prev && !loaded.some(template => template.id === prev)) {
+          localStorage.removeItem(SELECTED_TEMPLATE_KEY)
+          return null
+        }
+        return prev
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prompt templates')
+      console.error('Error loading prompt templates:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const selectTemplate = useCallback((id: string | null) => {
+    setSelectedTemplateId(id)
+    if (id) {
+      localStorage.setItem(SELECTED_TEMPLATE_KEY, id)
+    } else {
+      localStorage.removeItem(SELECTED_TEMPLATE_KEY)
+    }
+  }, [])
+
+  const createTemplate = useCallback(async (input: PromptTemplateInput) => {
+    const response = await fetch('/api/ai-analysis/templates', {
+      method: 'POST',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    })
+    const template = toTemplate((await readResponse(response, 'save prompt template')).data)
+
+    setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)))
+    return template
+  }, [])
+
+  const updateTemplate = useCallback(async (id: string, input: PromptTemplateInput) => {
+    const response = await fetch(`/api/ai-analysis/templates/${id}`, {
+      method: 'PUT',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    })
+    const template = toTemplate((await readResponse(response, 'update prompt template')).data)
+
+    setTemplates(prev => prev.map(existing => existing.id === id ? template : existing))
+    return template
+  }, [])
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    const response = await fetch(`/api/ai-analysis/templates/${id}`, { method: 'DELETE', headers: authHeaders() })
+    await readResponse(response, 'delete prompt template')
+
+    setTemplates(prev => prev.filter(template => template.id !== id))
+    setSelectedTemplateId(prev => {
+      if (prev === id) {
+        localStorage.removeItem(SELECTED_TEMPLATE_KEY)
+        return null
+      }
+      return prev
+    })
+  }, [])
+
+  const getVersions = useCallback(async (id: string) => {
+    const response = await fetch(`/api/ai-analysis/templates/${id}`, { headers: authHeaders() })
+    const body = await readResponse(response, 'load prompt template')
+    return (body.data.versions as PromptTemplateVersion[]).map(version => ({
+      ...version,
+      createdAt: new Date(version.createdAt)
+    }))
+  }, [])
+
+  useEffect(() => {
+    setSelectedTemplateId(localStorage.getItem(SELECTED_TEMPLATE_KEY))
+    reload()
+  }, [reload])
+
+  return {
+    templates,
+    selectedTemplateId,
+    isLoading,
+    error,
+    reload,
+    selectTemplate,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    getVersions
+  }
+}
@@ -2,12 +2,21 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { RAGService } from '@/services/rag/RAGService'
-import type { ChatMessage, SearchFilters } from '@/types'
+import type { OpenAICompatibleEndpoint } from '@/services/ai/OpenAICompatibleService'
+import type { ChatMessage, RAGConversation, RAGScope, SearchFilters } from '@/types'
 
 interface UseRAGChatConfig {
-  openaiApiKey: string
+  openaiApiKey?: string
+  // Answer with this self-hosted model instead of OpenAI
+  openaiCompatible?: OpenAICompatibleEndpoint
   autoSave?: boolean
   storageKey?: string
+  // Append a bibliography of the sources to answers in this citation style
+  citationStyle?: string
+  // Save conversations on the server for the signed-in user instead of in localStorage
+  persistConversations?: boolean
+  // Answer from these papers only, instead of the whole library
+  scope?: RAGScope
 }
 
 interface UseRAGChatReturn {
@@ -15,6 +24,11 @@ interface UseRAGChatReturn {
   isLoading: boolean
   error: string | null
   sendMessage: (message: string, filters?: SearchFilters) => Promise<void>
+  // Stop the answer being streamed, keeping what has arrived so far
+  cancel: () => void
+  // The saved conversation being continued, when conversations are persisted
+  conversation: RAGConversation | null
+  loadConversation: (conversationId: string) => Promise<void>
   clearHistory: () => void
   removeMessage: (messageId: string) => void
   exportHistory: () => void
@@ -34,28 +48,55 @@ export function useRAGChat(config: UseRAGChatConfig): UseRAGChatReturn {
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [conversation, setConversation] = useState<RAGConversation | null>(null)
   
   const ragServiceRef = useRef<RAGService | null>(null)
-  const { openaiApiKey, autoSave = true, storageKey = 'rag-chat-history' } = config
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const {
+    openaiApiKey,
+    openaiCompatible,
+    autoSave = true,
+    storageKey = 'rag-chat-history',
+    citationStyle,
+    persistConversations = false,
+    scope
+  } = config
+  // Saved conversations live on the server, so localStorage isn't used for them
+  const saveLocally = autoSave && !persistConversations
 
   // Initialize RAG service
   useEffect(() => {
-    if (openaiApiKey) {
-      ragServiceRef.current = new RAGService({ openaiApiKey })
-      
-      // Load saved history if auto-save is enabled
-      if (autoSave) {
-        loadSavedHistory()
-      }
+    ragServiceRef.current = new RAGService({
+      openaiApiKey: openaiApiKey || undefined,
+      openaiCompatible,
+      citationStyle,
+      persistConversations,
+      scope
+    })
+    setConversation(null)
+    
+    // Load saved history if auto-save is enabled
+    if (saveLocally) {
+      loadSavedHistory()
+    } else {
+      setMessages([])
     }
-  }, [openaiApiKey, autoSave, storageKey])
+  }, [openaiApiKey, openaiCompatible, saveLocally, storageKey, persistConversations])
+
+  useEffect(() => {
+    ragServiceRef.current?.setCitationStyle(citationStyle)
+  }, [citationStyle])
+
+  useEffect(() => {
+    ragServiceRef.current?.setScope(scope)
+  }, [scope])
 
-  // Save history when messages change (if auto-save is enabled)
+  // Save history when messages change (if auto-save is enabled), once a streamed answer is complete
   useEffect(() => {
-    if (autoSave && messages.length > 0) {
+    if (saveLocally && messages.length > 0 && !messages[messages.length - 1].streaming) {
       saveHistory()
     }
-  }, [messages, autoSave])
+  }, [messages, saveLocally])
 
   const loadSavedHistory = useCallback(() => {
     try {
@@ -100,6 +141,10 @@ export function useRAGChat(config: UseRAGChatConfig): UseRAGChatReturn {
     setIsLoading(true)
     setError(null)
 
+    const ragService = ragServiceRef.current
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
     try {
       // Add user message immediately for better UX
       const userMessage: ChatMessage = {
@@ -111,15 +156,22 @@ export function useRAGChat(config: UseRAGChatConfig): UseRAGChatReturn {
 
       setMessages(prev => [...prev, userMessage])
 
-      // Get AI response
-      await ragServiceRef.current.askQuestion(
+      // Stream the AI response, showing the answer as it grows
+      await ragService.askQuestion(
         message.trim(),
-        filters
+        filters,
+        {
+          signal: abortController.signal,
+          onUpdate: partialMessage => {
+            setMessages([...ragService.getChatHistory(), partialMessage])
+          }
+        }
       )
 
       // Update messages with the complete history from RAG service
-      const updatedHistory = ragServiceRef.current.getChatHistory()
+      const updatedHistory = ragService.getChatHistory()
       setMessages(updatedHistory)
+      setConversation(ragService.getConversation() || null)
 
     } catch (error) {
       console.error('Failed to send message:', error)
@@ -127,6 +179,32 @@ export function useRAGChat(config: UseRAGChatConfig): UseRAGChatReturn {
       
       // Remove the user message that was added optimistically
       setMessages(prev => prev.slice(0, -1))
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
+      setIsLoading(false)
+    }
+  }, [])
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  const loadConversation = useCallback(async (conversationId: string) => {
+    const ragService = ragServiceRef.current
+    if (!ragService) return
+
+    abortControllerRef.current?.abort()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      setMessages(await ragService.loadConversation(conversationId))
+      setConversation(ragService.getConversation() || null)
+    } catch (error) {
+      console.error('Failed to load conversation:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load conversation')
     } finally {
       setIsLoading(false)
     }
@@ -134,39 +212,62 @@ export function useRAGChat(config: UseRAGChatConfig): UseRAGChatReturn {
 
   const clearHistory = useCallback(() => {
     setMessages([])
+    setConversation(null)
     ragServiceRef.current?.clearHistory()
     
-    if (autoSave) {
+    if (saveLocally) {
       try {
         localStorage.removeItem(storageKey)
       } catch (error) {
         console.error('Failed to clear saved history:', error)
       }
     }
-  }, [autoSave, storageKey])
+  }, [saveLocally, storageKey])
 
   const removeMessage = useCallback((messageId: string) => {
     setMessages(prev => prev.filter(msg => msg.id !== messageId))
     ragServiceRef.current?.removeMessage(messageId)
   }, [])
 
-  const exportHistory = useCallback(() => {
+  const exportHistory = useCallback(async () => {
     if (!ragServiceRef.current) return
 
-    const exportData = ragServiceRef.current.exportChatHistory()
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-      type: 'application/json'
-    })
+    let blob: Blob
+    let filename = `rag-chat-history-${new Date().toISOString().split('T')[0]}.json`
+
+    if (conversation) {
+      // A saved conversation is exported by the server, with its stored sources
+      try {
+        const token = localStorage.getItem('auth_token')
+        const response = await fetch(`/api/rag/conversations/${conversation.id}/export?format=json`, {
+          headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+        })
+        if (!response.ok) {
+          throw new Error(`Export failed: ${response.status}`)
+        }
+        blob = await response.blob()
+        filename = `conversation-${conversation.id}.json`
+      } catch (error) {
+        console.error('Failed to export conversation:', error)
+        setError(error instanceof Error ? error.message : 'Failed to export conversation')
+        return
+      }
+    } else {
+      const exportData = ragServiceRef.current.exportChatHistory()
+      blob = new Blob([JSON.stringify(exportData, null, 2)], {
+        type: 'application/json'
+      })
+    }
     
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `rag-chat-history-${new Date().toISOString().split('T')[0]}.json`
+    a.download = filename
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
-  }, [])
+  }, [conversation])
 
   const importHistory = useCallback((importedMessages: ChatMessage[]) => {
     const validMessages = importedMessages.map(msg => ({
@@ -190,6 +291,9 @@ export function useRAGChat(config: UseRAGChatConfig): UseRAGChatReturn {
     isLoading,
     error,
     sendMessage,
+    cancel,
+    conversation,
+    loadConversation,
     clearHistory,
     removeMessage,
     exportHistory,
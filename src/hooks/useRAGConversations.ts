@@ -0,0 +1,94 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { RAGConversation } from '@/types'
+
+interface UseRAGConversationsOptions {
+  // Load the signed-in user's conversations on mount
+  autoLoad?: boolean
+}
+
+interface UseRAGConversationsReturn {
+  conversations: RAGConversation[]
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  renameConversation: (id: string, title: string) => Promise<RAGConversation>
+  deleteConversation: (id: string) => Promise<void>
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+function parseConversation(data: RAGConversation): RAGConversation {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt)
+  }
+}
+
+/**
+ * The signed-in user's saved research chat conversations, most recently active first
+ */
+export function useRAGConversations({ autoLoad = true }: UseRAGConversationsOptions = {}): UseRAGConversationsReturn {
+  const [conversations, setConversations] = useState<RAGConversation[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/rag/conversations', { headers: authHeaders() })
+      const body = await readResponse(response, 'load conversations')
+      setConversations((body.data as RAGConversation[]).map(parseConversation))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations')
+      console.error('Error loading conversations:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    const response = await fetch(`/api/rag/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title })
+    })
+    const conversation = parseConversation((await readResponse(response, 'rename conversation')).data)
+
+    setConversations(prev => prev.map(item => item.id === id ? conversation : item))
+    return conversation
+  }, [])
+
+  const deleteConversation = useCallback(async (id: string) => {
+    const response = await fetch(`/api/rag/conversations/${id}`, { method: 'DELETE', headers: authHeaders() })
+    await readResponse(response, 'delete conversation')
+
+    setConversations(prev => prev.filter(item => item.id !== id))
+  }, [])
+
+  useEffect(() => {
+    if (autoLoad) {
+      reload()
+    }
+  }, [autoLoad, reload])
+
+  return { conversations, isLoading, error, reload, renameConversation, deleteConversation }
+}
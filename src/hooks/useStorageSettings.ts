@@ -0,0 +1,86 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type {
+  StorageBackendType,
+  StorageMigrationResult,
+  StorageSettingsSummary,
+  StorageSettingsUpdate
+} from '@/services/storage'
+
+interface UseStorageSettingsReturn {
+  settings: StorageSettingsSummary | null
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  saveSettings: (update: StorageSettingsUpdate) => Promise<StorageSettingsSummary>
+  migrateFiles: (target: StorageBackendType, deleteSource: boolean) => Promise<StorageMigrationResult>
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+/**
+ * The user's PDF storage backend, and moving their files between backends
+ */
+export function useStorageSettings(): UseStorageSettingsReturn {
+  const [settings, setSettings] = useState<StorageSettingsSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/storage/settings', { headers: authHeaders() })
+      const body = await readResponse(response, 'load storage settings')
+      setSettings(body.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load storage settings')
+      console.error('Error loading storage settings:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const saveSettings = useCallback(async (update: StorageSettingsUpdate) => {
+    const response = await fetch('/api/storage/settings', {
+      method: 'PUT',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(update)
+    })
+    const saved: StorageSettingsSummary = (await readResponse(response, 'save storage settings')).data
+
+    setSettings(saved)
+    return saved
+  }, [])
+
+  const migrateFiles = useCallback(async (target: StorageBackendType, deleteSource: boolean) => {
+    const response = await fetch('/api/storage/migrate', {
+      method: 'POST',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ target, deleteSource })
+    })
+    return (await readResponse(response, 'move stored files')).data as StorageMigrationResult
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { settings, isLoading, error, reload, saveSettings, migrateFiles }
+}
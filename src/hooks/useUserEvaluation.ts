@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { UserEvaluation } from '@/types'
 import { UserEvaluationService } from '@/services/evaluation/UserEvaluationService'
 
@@ -26,11 +26,11 @@ export function useUserEvaluation({
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Initialize service
-  const service = new UserEvaluationService(
+  // Initialize service once; a new instance per render would re-run the load effect
+  const service = useMemo(() => new UserEvaluationService(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
+  ), [])
 
   const loadEvaluation = useCallback(async () => {
     if (!paperId) return
@@ -124,11 +124,11 @@ export function useUserEvaluations({
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Initialize service
-  const service = new UserEvaluationService(
+  // Initialize service once; a new instance per render would re-run the load effect
+  const service = useMemo(() => new UserEvaluationService(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
+  ), [])
 
   const loadEvaluations = useCallback(async () => {
     if (!paperIds.length) return
@@ -221,11 +221,11 @@ export function useTagSuggestions(): UseTagSuggestionsReturn {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Initialize service
-  const service = new UserEvaluationService(
+  // Initialize service once; a new instance per render would re-run the load effect
+  const service = useMemo(() => new UserEvaluationService(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
+  ), [])
 
   const loadTags = useCallback(async () => {
     setIsLoading(true)
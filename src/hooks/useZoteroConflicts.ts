@@ -0,0 +1,79 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ConflictResolution, ZoteroSyncConflict } from '@/services/zotero/ZoteroConflictService'
+
+interface UseZoteroConflictsReturn {
+  conflicts: ZoteroSyncConflict[]
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  resolveConflict: (id: string, keep: ConflictResolution) => Promise<void>
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+/**
+ * The signed-in user's Zotero sync conflicts, and resolving them field by field
+ */
+export function useZoteroConflicts(): UseZoteroConflictsReturn {
+  const [conflicts, setConflicts] = useState<ZoteroSyncConflict[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/zotero/conflicts', { headers: authHeaders() })
+      const body = await readResponse(response, 'load sync conflicts')
+      setConflicts((body.data as ZoteroSyncConflict[]).map(conflict => ({
+        ...conflict,
+        detectedAt: new Date(conflict.detectedAt)
+      })))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync conflicts')
+      console.error('Error loading Zotero sync conflicts:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const resolveConflict = useCallback(async (id: string, keep: ConflictResolution) => {
+    const response = await fetch(`/api/zotero/conflicts/${id}`, {
+      method: 'POST',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ keep })
+    })
+    await readResponse(response, 'resolve sync conflict')
+
+    setConflicts(prev => prev.filter(conflict => conflict.id !== id))
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return {
+    conflicts,
+    isLoading,
+    error,
+    reload,
+    resolveConflict
+  }
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ZoteroLibrary } from '@/services/settings/UserZoteroService'
+
+interface UseZoteroLibrariesReturn {
+  libraries: ZoteroLibrary[]
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  addGroupLibrary: (libraryId: string, name?: string) => Promise<ZoteroLibrary>
+  removeLibrary: (id: string) => Promise<void>
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+function parseLibrary(library: ZoteroLibrary): ZoteroLibrary {
+  return {
+    ...library,
+    lastSyncAt: library.lastSyncAt ? new Date(library.lastSyncAt) : null
+  }
+}
+
+/**
+ * The Zotero libraries the signed-in user syncs, and subscribing to group libraries
+ */
+export function useZoteroLibraries(): UseZoteroLibrariesReturn {
+  const [libraries, setLibraries] = useState<ZoteroLibrary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/zotero/libraries', { headers: authHeaders() })
+      const body = await readResponse(response, 'load Zotero libraries')
+      setLibraries((body.data as ZoteroLibrary[]).map(parseLibrary))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load Zotero libraries')
+      console.error('Error loading Zotero libraries:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const addGroupLibrary = useCallback(async (libraryId: string, name?: string) => {
+    const response = await fetch('/api/zotero/libraries', {
+      method: 'POST',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ libraryId, name })
+    })
+    const body = await readResponse(response, 'add Zotero library')
+    const library = parseLibrary(body.data)
+
+    setLibraries(prev => [...prev.filter(item => item.id !== library.id), library])
+    return library
+  }, [])
+
+  const removeLibrary = useCallback(async (id: string) => {
+    const response = await fetch(`/api/zotero/libraries/${id}`, {
+      method: 'DELETE',
+      headers: authHeaders()
+    })
+    await readResponse(response, 'remove Zotero library')
+
+    setLibraries(prev => prev.filter(library => library.id !== id))
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return {
+    libraries,
+    isLoading,
+    error,
+    reload,
+    addGroupLibrary,
+    removeLibrary
+  }
+}
@@ -15,6 +15,7 @@ interface SyncResult {
   totalItems: number
   newItems: number
   updatedItems: number
+  downloadedAttachments?: number
   errors: string[]
   lastSyncTime: string
 }
@@ -157,9 +158,12 @@ export function useZoteroSync() {
     setIsLoading(true)
     
     try {
+      // The sync covers every library the signed-in user subscribes to
+      const token = localStorage.getItem('auth_token')
       const response = await fetch('/api/zotero/sync', {
         method: 'POST',
         headers: {
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({ type })
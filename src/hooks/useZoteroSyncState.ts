@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ZoteroSyncState } from '@/services/background/ZoteroSyncJobStore'
+import type { ZoteroSyncRequest } from '@/services/background/ZoteroSyncQueue'
+
+// How often the state is reloaded while a sync is queued or running
+const POLL_INTERVAL_MS = 5000
+
+export interface ZoteroSyncSchedule {
+  autoSync?: boolean
+  syncInterval?: number
+  // Cron pattern; null goes back to syncing every interval
+  syncSchedule?: string | null
+}
+
+export interface ZoteroSyncScheduleResult {
+  autoSync: boolean
+  syncInterval: number
+  syncSchedule: string | null
+  // False when the server has no job queue to run scheduled syncs
+  scheduled: boolean
+}
+
+interface UseZoteroSyncStateReturn {
+  state: ZoteroSyncState | null
+  isLoading: boolean
+  error: string | null
+  reload: () => Promise<void>
+  requestSync: (type?: 'incremental' | 'full') => Promise<ZoteroSyncRequest>
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  if (!token) {
+    throw new Error('No auth token')
+  }
+  return { 'Authorization': `Bearer ${token}` }
+}
+
+async function readResponse(response: Response, action: string) {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Failed to ${action}: ${response.status}`)
+  }
+  return body
+}
+
+function parseState(state: ZoteroSyncState): ZoteroSyncState {
+  return {
+    ...state,
+    lastSyncAt: state.lastSyncAt ? new Date(state.lastSyncAt) : null,
+    progress: state.progress
+      ? { ...state.progress, createdAt: new Date(state.progress.createdAt) }
+      : null
+  }
+}
+
+/**
+ * Sync every Zotero library of the signed-in user. The sync is queued unless
+ * the server runs it right away, in which case `result` holds its totals.
+ */
+export async function requestZoteroSync(type: 'incremental' | 'full' = 'incremental'): Promise<ZoteroSyncRequest> {
+  const response = await fetch('/api/zotero/sync', {
+    method: 'POST',
+    headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type })
+  })
+  const body = await readResponse(response, 'sync Zotero')
+  return body.data as ZoteroSyncRequest
+}
+
+/**
+ * Set when the signed-in user's libraries are synced in the background
+ */
+export async function updateZoteroSyncSchedule(schedule: ZoteroSyncSchedule): Promise<ZoteroSyncScheduleResult> {
+  const response = await fetch('/api/zotero/sync/schedule', {
+    method: 'PUT',
+    headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+    body: JSON.stringify(schedule)
+  })
+  const body = await readResponse(response, 'update Zotero sync schedule')
+  return body.data as ZoteroSyncScheduleResult
+}
+
+/**
+ * The signed-in user's Zotero sync state, reloaded while a sync is queued or
+ * running so its progress shows
+ */
+export function useZoteroSyncState(enabled = true): UseZoteroSyncStateReturn {
+  const [state, setState] = useState<ZoteroSyncState | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/zotero/sync', { headers: authHeaders() })
+      const body = await readResponse(response, 'load Zotero sync state')
+      setState(parseState(body.data))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load Zotero sync state')
+      console.error('Error loading Zotero sync state:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const requestSync = useCallback(async (type: 'incremental' | 'full' = 'incremental') => {
+    const sync = await requestZoteroSync(type)
+    await reload()
+    return sync
+  }, [reload])
+
+  useEffect(() => {
+    if (enabled) {
+      reload()
+    }
+  }, [enabled, reload])
+
+  const isRunning = state?.isRunning ?? false
+  useEffect(() => {
+    if (!enabled || !isRunning) return
+
+    const timer = setInterval(() => {
+      reload()
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [enabled, isRunning, reload])
+
+  return {
+    state,
+    isLoading,
+    error,
+    reload,
+    requestSync
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Chainable Supabase client for tests
+ */
+
+export type MockQueryResult = { data?: unknown; error?: { message: string; code?: string } | null }
+
+export interface MockQuery {
+  table: string
+  calls: [string, unknown[]][]
+}
+
+type MockResults = Record<string, MockQueryResult[]> | ((query: MockQuery) => MockQueryResult)
+
+const QUERY_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'in', 'is', 'gt', 'gte', 'lt', 'lte', 'or', 'contains',
+  'order', 'limit', 'range', 'single', 'maybeSingle'
+]
+
+/**
+ * A Supabase client whose queries resolve, in order, to the results queued
+ * for their table, or to what `results` returns for the query when it is a
+ * function. Every call on a query is recorded.
+ */
+export function createSupabaseMock(results: MockResults = {}) {
+  const queries: MockQuery[] = []
+
+  const resultOf = (query: MockQuery): MockQueryResult =>
+    typeof results === 'function'
+      ? results(query)
+      : results[query.table]?.shift() ?? { data: null, error: null }
+
+  const from = jest.fn((table: string) => {
+    const query: MockQuery = { table, calls: [] }
+    queries.push(query)
+
+    const builder: Record<string, unknown> = {}
+    for (const method of QUERY_METHODS) {
+      builder[method] = (...args: unknown[]) => {
+        query.calls.push([method, args])
+        return builder
+      }
+    }
+    // Awaiting the query runs it
+    builder.then = (resolve: (value: MockQueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve({ data: null, error: null, ...resultOf(query) }).then(resolve, reject)
+    return builder
+  })
+
+  return { client: { from } as any, queries }
+}
+
+/**
+ * The arguments of every call of `method` on the given queries, in order
+ */
+export function callsOf(queries: MockQuery[], method: string): unknown[][] {
+  return queries.flatMap(query => query.calls).filter(([name]) => name === method).map(([, args]) => args)
+}
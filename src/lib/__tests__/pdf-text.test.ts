@@ -0,0 +1,119 @@
+import { extractPdfText, classifyHeading, getSectionText } from '../pdf-text'
+
+jest.mock('pdfjs-dist/legacy/build/pdf.mjs', () => ({
+  getDocument: jest.fn()
+}))
+
+const { getDocument } = jest.requireMock('pdfjs-dist/legacy/build/pdf.mjs') as { getDocument: jest.Mock }
+
+type Line = [string, number] // text and baseline y
+
+// A text item as pdfjs-dist reports it for a 10pt font
+function item(str: string, y: number, hasEOL = false) {
+  return { str, dir: 'ltr', width: str.length * 5, height: 10, transform: [10, 0, 0, 10, 72, y], fontName: 'g_d0_f1', hasEOL }
+}
+
+// Serve a document whose pages hold the given lines, one text item per line
+function mockPdf(pages: Array<Array<Line | ReturnType<typeof item>>>) {
+  const destroy = jest.fn().mockResolvedValue(undefined)
+  getDocument.mockReturnValue({
+    promise: Promise.resolve({
+      numPages: pages.length,
+      getPage: async (pageNumber: number) => ({
+        getTextContent: async () => ({
+          items: pages[pageNumber - 1].map(line => Array.isArray(line) ? item(line[0], line[1]) : line)
+        }),
+        cleanup: jest.fn()
+      }),
+      destroy
+    })
+  })
+  return { destroy }
+}
+
+describe('extractPdfText', () => {
+  beforeEach(() => {
+    getDocument.mockReset()
+  })
+
+  it('groups text items into lines in page order', async () => {
+    const { destroy } = mockPdf([
+      [['Deep Learning for Proteins', 720], ['Jane Doe', 706]],
+      [['Second page text.', 720]],
+    ])
+
+    const result = await extractPdfText(Buffer.from('%PDF-1.4'))
+
+    expect(result.pageCount).toBe(2)
+    expect(result.text).toContain('Deep Learning for Proteins')
+    expect(result.text.indexOf('Jane Doe')).toBeLessThan(result.text.indexOf('Second page text.'))
+    expect(result.pages.map(p => p.pageNumber)).toEqual([1, 2])
+    expect(result.text.slice(result.pages[1].start, result.pages[1].end)).toBe('Second page text.')
+    expect(destroy).toHaveBeenCalled()
+  })
+
+  it('splits text into detected sections with character offsets', async () => {
+    mockPdf([
+      [
+        ['A Study of Things', 720],
+        ['Abstract', 708],
+        ['We study things in detail.', 696],
+        ['1 Introduction', 672],
+        // Items on one baseline form a single line
+        item('Things are impor', 660),
+        item('tant and well ', 660),
+        item('studied.', 660, true),
+      ],
+      [['2. Methods', 720], ['We measured every-', 708], ['thing carefully.', 696]],
+    ])
+
+    const result = await extractPdfText(Buffer.from('%PDF-1.4'))
+    const kinds = result.sections.map(s => s.kind)
+
+    expect(kinds).toEqual(['front', 'abstract', 'introduction', 'methods'])
+    const intro = result.sections[2]
+    expect(intro.page).toBe(1)
+    expect(result.text.slice(intro.start, intro.end)).toContain('Things are important and well studied.')
+    expect(result.sections[3].page).toBe(2)
+    expect(getSectionText(result, ['methods'])).toContain('We measured everything carefully.')
+  })
+
+  it('reads no more than maxPages pages', async () => {
+    mockPdf([[['First page.', 720]], [['Second page.', 720]]])
+
+    const result = await extractPdfText(Buffer.from('%PDF-1.4'), { maxPages: 1 })
+
+    expect(result.pageCount).toBe(2)
+    expect(result.text).toBe('First page.')
+  })
+
+  it('returns empty text for documents that need a password', async () => {
+    getDocument.mockReturnValue({ promise: Promise.reject(Object.assign(new Error('No password given'), { name: 'PasswordException' })) })
+
+    const result = await extractPdfText(Buffer.from('%PDF-1.4'))
+
+    expect(result.encrypted).toBe(true)
+    expect(result.text).toBe('')
+  })
+
+  it('does not throw on non-PDF input', async () => {
+    getDocument.mockReturnValue({ promise: Promise.reject(Object.assign(new Error('Invalid PDF structure.'), { name: 'InvalidPDFException' })) })
+
+    await expect(extractPdfText(Buffer.from('not a pdf'))).resolves.toMatchObject({ text: '', encrypted: false })
+  })
+})
+
+describe('classifyHeading', () => {
+  it('recognises common section headings', () => {
+    expect(classifyHeading('ABSTRACT')).toBe('abstract')
+    expect(classifyHeading('3 Materials and Methods')).toBe('methods')
+    expect(classifyHeading('IV. RESULTS')).toBe('results')
+    expect(classifyHeading('References')).toBe('references')
+    expect(classifyHeading('2.1 Data Collection')).toBe('other')
+  })
+
+  it('ignores body sentences', () => {
+    expect(classifyHeading('The results of this study were surprising.')).toBeNull()
+    expect(classifyHeading('3 patients were excluded')).toBeNull()
+  })
+})
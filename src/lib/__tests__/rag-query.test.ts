@@ -0,0 +1,66 @@
+import { prepareRAGQuery } from '../rag-query'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { OpenAICompatibleConfigError } from '@/services/ai/OpenAICompatibleService'
+import { createSupabaseMock } from '@/lib/__mocks__/supabase-client'
+
+jest.mock('@/lib/supabase-server', () => ({
+  createServerSupabaseClient: jest.fn()
+}))
+
+jest.mock('@/lib/auth-helpers', () => ({
+  getAuthenticatedUser: jest.fn()
+}))
+
+jest.mock('@/lib/database', () => ({
+  TABLES: { PAPERS: 'papers', USER_EVALUATIONS: 'user_evaluations' }
+}))
+
+jest.mock('@/services/vector/SupabaseVectorService', () => ({
+  SupabaseVectorService: jest.fn().mockImplementation(() => ({
+    scheduleStaleReembedding: jest.fn(),
+    getAnswerProvider: jest.fn(() => null)
+  }))
+}))
+
+jest.mock('@/services/citation/CitationService', () => ({ CitationService: jest.fn() }))
+jest.mock('@/services/rag/ConversationService', () => ({ ConversationService: jest.fn() }))
+jest.mock('@/services/collections/CollectionService', () => ({ CollectionService: jest.fn() }))
+jest.mock('@/services/usage/AIBudgetService', () => ({ AIBudgetService: jest.fn(), AIBudgetExceededError: class extends Error {} }))
+jest.mock('@/services/citation/styles', () => ({ getBuiltInStyle: jest.fn(), isBuiltInCitationStyle: jest.fn() }))
+
+const mockCreateServerSupabaseClient = createServerSupabaseClient as jest.MockedFunction<typeof createServerSupabaseClient>
+const mockGetAuthenticatedUser = getAuthenticatedUser as jest.MockedFunction<typeof getAuthenticatedUser>
+
+function request(body: Record<string, unknown>) {
+  return { json: async () => body, headers: new Headers() } as any
+}
+
+describe('prepareRAGQuery', () => {
+  it('scopes a tag to the user\'s papers that are not archived', async () => {
+    const rows: Record<string, unknown[]> = {
+      user_evaluations: [{ paper_id: 'p1' }, { paper_id: 'p2' }],
+      papers: [{ id: 'p1' }]
+    }
+    const { client, queries } = createSupabaseMock(({ table }) => ({ data: rows[table] }))
+    mockCreateServerSupabaseClient.mockReturnValue(client)
+    mockGetAuthenticatedUser.mockResolvedValue({ id: 'user-1' } as any)
+
+    const prepared = await prepareRAGQuery(request({ question: 'What is attention?', scope: { tag: 'nlp' } }))
+
+    expect(prepared.searchContext).toMatchObject({ paper_ids: ['p1'] })
+    const paperCalls = queries.filter(({ table }) => table === 'papers').flatMap(({ calls }) => calls)
+    expect(paperCalls).toEqual(expect.arrayContaining([
+      ['eq', ['created_by', 'user-1']],
+      ['is', ['archived_at', null]],
+      ['in', ['id', ['p1', 'p2']]]
+    ]))
+  })
+
+  it('refuses a self-hosted answer model on a private host', async () => {
+    await expect(prepareRAGQuery(request({
+      question: 'What is attention?',
+      openaiCompatible: { baseUrl: 'http://169.254.169.254/latest' }
+    }))).rejects.toThrow(OpenAICompatibleConfigError)
+  })
+})
@@ -0,0 +1,60 @@
+import { formatSSE, readSSE } from '../sse'
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let index = 0
+  return {
+    getReader: () => ({
+      read: async () => index < chunks.length
+        ? { done: false, value: encoder.encode(chunks[index++]) }
+        : { done: true, value: undefined },
+      releaseLock: () => {}
+    })
+  } as unknown as ReadableStream<Uint8Array>
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const messages = []
+  for await (const message of readSSE(body)) {
+    messages.push(message)
+  }
+  return messages
+}
+
+describe('formatSSE', () => {
+  it('frames an event with a JSON payload', () => {
+    expect(formatSSE('delta', { text: 'Hi' })).toBe('event: delta\ndata: {"text":"Hi"}\n\n')
+  })
+})
+
+describe('readSSE', () => {
+  it('reassembles events split across chunks', async () => {
+    const messages = await collect(streamOf([
+      'event: sources\ndata: {"sources":[]}\n\nevent: del',
+      'ta\ndata: {"text":"Hel',
+      'lo"}\n\n'
+    ]))
+
+    expect(messages).toEqual([
+      { event: 'sources', data: '{"sources":[]}' },
+      { event: 'delta', data: '{"text":"Hello"}' }
+    ])
+  })
+
+  it('defaults the event name, skips comments and handles CRLF', async () => {
+    const messages = await collect(streamOf([
+      ': keep-alive\r\n\r\ndata: {"choices":[]}\r\n\r\ndata: [DONE]'
+    ]))
+
+    expect(messages).toEqual([
+      { event: 'message', data: '{"choices":[]}' },
+      { event: 'message', data: '[DONE]' }
+    ])
+  })
+
+  it('joins multi-line data', async () => {
+    const messages = await collect(streamOf(['data: first\ndata: second\n\n']))
+
+    expect(messages).toEqual([{ event: 'message', data: 'first\nsecond' }])
+  })
+})
@@ -0,0 +1,65 @@
+import { chunkText } from '../text-chunking'
+import type { PdfTextPage, PdfTextSection } from '../pdf-text'
+
+const sentence = (n: number) => `Sentence number ${n} describes the experiment in some detail.`
+
+describe('chunkText', () => {
+  it('returns a single chunk for short text', () => {
+    const chunks = chunkText('  A short abstract.  ')
+
+    expect(chunks).toEqual([
+      { index: 0, content: 'A short abstract.', section: null, sectionHeading: undefined, page: null, start: 2, end: 19 },
+    ])
+  })
+
+  it('splits long text into overlapping chunks on sentence boundaries', () => {
+    const text = Array.from({ length: 40 }, (_, i) => sentence(i)).join(' ')
+
+    const chunks = chunkText(text, {}, { chunkSize: 300, overlap: 80 })
+
+    expect(chunks.length).toBeGreaterThan(5)
+    chunks.forEach((chunk, i) => {
+      expect(chunk.content).toBe(text.slice(chunk.start, chunk.end))
+      expect(chunk.content.length).toBeLessThanOrEqual(300)
+      if (i < chunks.length - 1) {
+        expect(chunk.content.endsWith('.')).toBe(true)
+        expect(chunks[i + 1].start).toBeLessThan(chunk.end)
+      }
+    })
+    expect(chunks[chunks.length - 1].end).toBe(text.length)
+  })
+
+  it('keeps chunks inside sections and tags them with section and page', () => {
+    const intro = 'Introduction\n' + Array.from({ length: 10 }, (_, i) => sentence(i)).join(' ')
+    const methods = 'Methods\nWe measured everything.'
+    const refs = 'References\n[1] Someone. A paper. 2020.'
+    const text = [intro, methods, refs].join('\n\n')
+    const methodsStart = intro.length + 2
+    const refsStart = methodsStart + methods.length + 2
+
+    const sections: PdfTextSection[] = [
+      { heading: 'Introduction', kind: 'introduction', page: 1, start: 0, end: intro.length },
+      { heading: 'Methods', kind: 'methods', page: 2, start: methodsStart, end: methodsStart + methods.length },
+      { heading: 'References', kind: 'references', page: 2, start: refsStart, end: text.length },
+    ]
+    const pages: PdfTextPage[] = [
+      { pageNumber: 1, start: 0, end: intro.length },
+      { pageNumber: 2, start: methodsStart, end: text.length },
+    ]
+
+    const chunks = chunkText(text, { sections, pages }, { chunkSize: 250, overlap: 50 })
+
+    const methodsChunks = chunks.filter(chunk => chunk.section === 'methods')
+    expect(methodsChunks).toHaveLength(1)
+    expect(methodsChunks[0]).toMatchObject({ content: methods, sectionHeading: 'Methods', page: 2 })
+    expect(chunks.filter(chunk => chunk.section === 'introduction').every(chunk => chunk.page === 1)).toBe(true)
+    expect(chunks.some(chunk => chunk.section === 'references')).toBe(false)
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, i) => i))
+  })
+
+  it('stops at maxChunks', () => {
+    const text = Array.from({ length: 50 }, (_, i) => sentence(i)).join(' ')
+
+    expect(chunkText(text, {}, { chunkSize: 200, overlap: 0, maxChunks: 3 })).toHaveLength(3)
+  })
+})
@@ -72,7 +72,8 @@ export const TABLES = {
   PAPERS: 'papers',
   USER_EVALUATIONS: 'user_evaluations',
   AI_ANALYSES: 'ai_analyses',
-  DOCUMENTS: 'documents'
+  DOCUMENTS: 'documents',
+  PAPER_FULL_TEXTS: 'paper_full_texts'
 } as const
 
 // Database types
@@ -92,6 +93,7 @@ export interface Database {
           google_drive_id: string | null
           google_drive_url: string | null
           pdf_path: string | null
+          storage_backend: 'google_drive' | 'local' | 's3' | null
           reading_status: 'unread' | 'reading' | 'completed'
           date_added: string
           date_read: string | null
@@ -109,6 +111,7 @@ export interface Database {
           google_drive_id?: string | null
           google_drive_url?: string | null
           pdf_path?: string | null
+          storage_backend?: 'google_drive' | 'local' | 's3' | null
           reading_status?: 'unread' | 'reading' | 'completed'
           date_added?: string
           date_read?: string | null
@@ -126,6 +129,7 @@ export interface Database {
           google_drive_id?: string | null
           google_drive_url?: string | null
           pdf_path?: string | null
+          storage_backend?: 'google_drive' | 'local' | 's3' | null
           reading_status?: 'unread' | 'reading' | 'completed'
           date_added?: string
           date_read?: string | null
@@ -168,7 +172,7 @@ export interface Database {
         Row: {
           id: string
           paper_id: string
-          model_provider: 'openai' | 'anthropic' | 'xai' | 'gemini'
+          model_provider: 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
           model_name: string
           summary: string | null
           keywords: string[]
@@ -176,12 +180,14 @@ export interface Database {
           confidence_score: number | null
           tokens_used: number | null
           processing_time_ms: number | null
+          template_id: string | null
+          template_version: number | null
           created_at: string
         }
         Insert: {
           id?: string
           paper_id: string
-          model_provider: 'openai' | 'anthropic' | 'xai' | 'gemini'
+          model_provider: 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
           model_name: string
           summary?: string | null
           keywords?: string[]
@@ -189,12 +195,14 @@ export interface Database {
           confidence_score?: number | null
           tokens_used?: number | null
           processing_time_ms?: number | null
+          template_id?: string | null
+          template_version?: number | null
           created_at?: string
         }
         Update: {
           id?: string
           paper_id?: string
-          model_provider?: 'openai' | 'anthropic' | 'xai' | 'gemini'
+          model_provider?: 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
           model_name?: string
           summary?: string | null
           keywords?: string[]
@@ -202,6 +210,8 @@ export interface Database {
           confidence_score?: number | null
           tokens_used?: number | null
           processing_time_ms?: number | null
+          template_id?: string | null
+          template_version?: number | null
           created_at?: string
         }
       }
@@ -211,6 +221,9 @@ export interface Database {
           content: string
           metadata: any
           embedding: number[] | null
+          embedding_provider: string | null
+          embedding_model: string | null
+          embedding_dimension: number | null
         }
         Insert: {
           id?: number
@@ -225,6 +238,47 @@ export interface Database {
           embedding?: number[] | null
         }
       }
+      paper_full_texts: {
+        Row: {
+          paper_id: string
+          content: string
+          sections: any
+          pages: any
+          page_count: number
+          char_count: number
+          status: 'completed' | 'empty' | 'encrypted' | 'failed'
+          source: 'upload' | 'zotero' | 'manual'
+          error_message: string | null
+          extracted_at: string
+          updated_at: string
+        }
+        Insert: {
+          paper_id: string
+          content?: string
+          sections?: any
+          pages?: any
+          page_count?: number
+          char_count?: number
+          status?: 'completed' | 'empty' | 'encrypted' | 'failed'
+          source?: 'upload' | 'zotero' | 'manual'
+          error_message?: string | null
+          extracted_at?: string
+          updated_at?: string
+        }
+        Update: {
+          paper_id?: string
+          content?: string
+          sections?: any
+          pages?: any
+          page_count?: number
+          char_count?: number
+          status?: 'completed' | 'empty' | 'encrypted' | 'failed'
+          source?: 'upload' | 'zotero' | 'manual'
+          error_message?: string | null
+          extracted_at?: string
+          updated_at?: string
+        }
+      }
       user_google_drive_settings: {
         Row: {
           id: string
@@ -279,6 +333,8 @@ export interface Database {
           is_valid: boolean
           last_validated_at: string | null
           usage_count: number
+          base_url: string | null
+          model_name: string | null
           created_at: string
           updated_at: string
         }
@@ -291,6 +347,8 @@ export interface Database {
           is_valid?: boolean
           last_validated_at?: string | null
           usage_count?: number
+          base_url?: string | null
+          model_name?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -303,6 +361,8 @@ export interface Database {
           is_valid?: boolean
           last_validated_at?: string | null
           usage_count?: number
+          base_url?: string | null
+          model_name?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -354,6 +414,10 @@ export interface Database {
           sync_interval: number
           last_sync_at: string | null
           sync_status: string
+          sync_schedule: string | null
+          sync_job_id: string | null
+          sync_error: string | null
+          last_sync_result: any | null
           is_active: boolean
           created_at: string
           updated_at: string
@@ -369,6 +433,10 @@ export interface Database {
           sync_interval?: number
           last_sync_at?: string | null
           sync_status?: string
+          sync_schedule?: string | null
+          sync_job_id?: string | null
+          sync_error?: string | null
+          last_sync_result?: any | null
           is_active?: boolean
           created_at?: string
           updated_at?: string
@@ -384,6 +452,10 @@ export interface Database {
           sync_interval?: number
           last_sync_at?: string | null
           sync_status?: string
+          sync_schedule?: string | null
+          sync_job_id?: string | null
+          sync_error?: string | null
+          last_sync_result?: any | null
           is_active?: boolean
           created_at?: string
           updated_at?: string
@@ -425,6 +497,9 @@ export type Document = Database['public']['Tables']['documents']['Row']
 export type DocumentInsert = Database['public']['Tables']['documents']['Insert']
 export type DocumentUpdate = Database['public']['Tables']['documents']['Update']
 
+export type PaperFullText = Database['public']['Tables']['paper_full_texts']['Row']
+export type PaperFullTextInsert = Database['public']['Tables']['paper_full_texts']['Insert']
+
 export type UserGoogleDriveSettings = Database['public']['Tables']['user_google_drive_settings']['Row']
 export type UserGoogleDriveSettingsInsert = Database['public']['Tables']['user_google_drive_settings']['Insert']
 export type UserGoogleDriveSettingsUpdate = Database['public']['Tables']['user_google_drive_settings']['Update']
@@ -589,7 +664,7 @@ export interface GoogleDriveSettingsInfo {
 }
 
 // AI Provider type
-export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini'
+export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
 
 // Settings validation types
 export interface ValidationResult {
@@ -242,6 +242,23 @@ export class GoogleDriveService {
     }
   }
 
+  /**
+   * Download file content
+   */
+  async downloadFile(fileId: string): Promise<Buffer> {
+    try {
+      const response = await this.drive.files.get(
+        { fileId: fileId, alt: 'media' },
+        { responseType: 'arraybuffer' }
+      );
+
+      return Buffer.from(response.data as ArrayBuffer);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete file from Google Drive
    */
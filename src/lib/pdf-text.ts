@@ -0,0 +1,300 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api'
+
+export type PdfSectionKind =
+  | 'front'
+  | 'abstract'
+  | 'introduction'
+  | 'background'
+  | 'methods'
+  | 'results'
+  | 'discussion'
+  | 'conclusion'
+  | 'acknowledgments'
+  | 'references'
+  | 'appendix'
+  | 'other'
+
+export interface PdfTextSection {
+  heading: string
+  kind: PdfSectionKind
+  page: number
+  start: number // character offset into PdfTextExtraction.text
+  end: number
+}
+
+export interface PdfTextPage {
+  pageNumber: number
+  start: number
+  end: number
+}
+
+export interface PdfTextExtraction {
+  text: string
+  pages: PdfTextPage[]
+  sections: PdfTextSection[]
+  pageCount: number
+  encrypted: boolean
+}
+
+export interface PdfTextOptions {
+  maxPages?: number
+}
+
+// Server-side text extraction from raw PDF bytes with pdfjs-dist.
+// Text items are grouped into lines by baseline, then rebuilt into reading-order
+// text grouped into paragraphs and detected sections.
+export async function extractPdfText(buffer: Buffer, options: PdfTextOptions = {}): Promise<PdfTextExtraction> {
+  const empty: PdfTextExtraction = { text: '', pages: [], sections: [], pageCount: 0, encrypted: false }
+  let doc: PDFDocumentProxy | undefined
+
+  try {
+    const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    doc = await getDocument({
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      verbosity: 0
+    }).promise
+
+    const limit = options.maxPages ? Math.min(options.maxPages, doc.numPages) : doc.numPages
+    const pageLines: string[][] = []
+
+    for (let pageNumber = 1; pageNumber <= limit; pageNumber++) {
+      try {
+        const page = await doc.getPage(pageNumber)
+        const content = await page.getTextContent()
+        pageLines.push(groupLines(content.items))
+        page.cleanup()
+      } catch {
+        pageLines.push([])
+      }
+    }
+
+    return { ...assembleText(pageLines), pageCount: doc.numPages, encrypted: false }
+  } catch (error) {
+    // Only documents that need a password to open are reported as encrypted
+    if ((error as { name?: string } | null)?.name === 'PasswordException') {
+      return { ...empty, encrypted: true }
+    }
+    return empty
+  } finally {
+    await doc?.destroy().catch(() => undefined)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Text items to lines
+// ---------------------------------------------------------------------------
+
+function groupLines(items: Array<TextItem | TextMarkedContent>): string[] {
+  const lines: string[] = []
+  let current = ''
+  let lineY: number | undefined
+  let lineSize = 0
+
+  const newLine = () => {
+    if (current.trim()) lines.push(current)
+    current = ''
+    lineY = undefined
+  }
+
+  for (const item of items) {
+    if (!('str' in item)) continue
+
+    if (item.str) {
+      const y = item.transform[5]
+      const size = Math.abs(item.transform[3]) || item.height
+      // A baseline moved by more than half the font size starts a new line
+      if (lineY !== undefined && Math.abs(y - lineY) >= Math.max(Math.min(size, lineSize) * 0.5, 0.5)) {
+        newLine()
+      }
+      current += item.str
+      lineY = y
+      lineSize = size
+    }
+
+    if (item.hasEOL) newLine()
+  }
+
+  newLine()
+  return lines
+}
+
+// ---------------------------------------------------------------------------
+// Layout cleanup and section detection
+// ---------------------------------------------------------------------------
+
+const SECTION_HEADINGS: Array<[RegExp, PdfSectionKind]> = [
+  [/^abstract$/, 'abstract'],
+  [/^(summary)$/, 'abstract'],
+  [/^introduction$/, 'introduction'],
+  [/^(background|related work|literature review|preliminaries)$/, 'background'],
+  [/^(methods?|materials and methods|methods and materials|methodology|experimental( setup| section| procedures)?|experiments?|study design|approach)$/, 'methods'],
+  [/^(results?|results and discussion|findings|evaluation)$/, 'results'],
+  [/^discussion$/, 'discussion'],
+  [/^(conclusions?|concluding remarks|summary and conclusions?|conclusion and future work)$/, 'conclusion'],
+  [/^(acknowledge?ments?|funding)$/, 'acknowledgments'],
+  [/^(references|bibliography|literature cited|works cited)$/, 'references'],
+  [/^(appendix|appendices|supplementary (material|information))( [a-z0-9]+)?$/, 'appendix'],
+]
+
+const NUMBERED_PREFIX = /^(?:(?:\d{1,2}(?:\.\d{1,2})*|[IVX]{1,5}|[A-H])[.)]?)\s+/
+
+export function classifyHeading(line: string): PdfSectionKind | null {
+  const trimmed = line.trim()
+  if (trimmed.length < 4 || trimmed.length > 80) return null
+
+  const hasNumber = NUMBERED_PREFIX.test(trimmed)
+  const title = trimmed.replace(NUMBERED_PREFIX, '').replace(/[:.]$/, '').trim()
+  const normalized = title.toLowerCase().replace(/\s+/g, ' ')
+
+  for (const [pattern, kind] of SECTION_HEADINGS) {
+    if (pattern.test(normalized)) return kind
+  }
+
+  // Numbered, short, capitalised lines without sentence punctuation are treated as generic headings
+  const words = title.split(/\s+/)
+  if (
+    hasNumber &&
+    /^[A-Z]/.test(title) &&
+    words.length <= 8 &&
+    !/[.;,]$/.test(trimmed) &&
+    !/\d{3,}/.test(title) &&
+    /^\d{1,2}(\.\d{1,2})*\.?\s/.test(trimmed)
+  ) {
+    return 'other'
+  }
+
+  return null
+}
+
+interface TextBlock {
+  kind: 'heading' | 'paragraph'
+  text: string
+  page: number
+  sectionKind?: PdfSectionKind
+}
+
+function cleanLine(line: string): string {
+  return line
+    .replace(/\u0000/g, '')
+    .replace(/\u00ad/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function buildBlocks(pageLines: string[][]): TextBlock[] {
+  const blocks: TextBlock[] = []
+
+  pageLines.forEach((rawLines, pageIndex) => {
+    const page = pageIndex + 1
+    const lines = rawLines.map(cleanLine).filter(line => line && !/^\d{1,4}$/.test(line))
+    const lengths = lines.map(l => l.length).sort((a, b) => a - b)
+    const typical = lengths.length ? lengths[Math.floor(lengths.length / 2)] : 0
+    let paragraph = ''
+
+    const flush = () => {
+      if (paragraph.trim()) blocks.push({ kind: 'paragraph', text: paragraph.trim(), page })
+      paragraph = ''
+    }
+
+    for (const line of lines) {
+      const headingKind = classifyHeading(line)
+      if (headingKind) {
+        flush()
+        blocks.push({ kind: 'heading', text: line.replace(/[:.]$/, ''), page, sectionKind: headingKind })
+        continue
+      }
+
+      if (paragraph.endsWith('-') && /^[a-z]/.test(line)) {
+        paragraph = paragraph.slice(0, -1) + line
+      } else {
+        paragraph = paragraph ? `${paragraph} ${line}` : line
+      }
+
+      // Short lines ending a sentence close the paragraph
+      if (/[.!?:]$/.test(line) && line.length < typical * 0.7) {
+        flush()
+      }
+    }
+    flush()
+  })
+
+  return blocks
+}
+
+function assembleText(pageLines: string[][]): Omit<PdfTextExtraction, 'pageCount' | 'encrypted'> {
+  const blocks = buildBlocks(pageLines)
+  const pages: PdfTextPage[] = []
+  const sections: PdfTextSection[] = []
+  let text = ''
+
+  const openPage = (pageNumber: number, offset: number) => {
+    const last = pages[pages.length - 1]
+    if (last && last.pageNumber === pageNumber) return
+    if (last) last.end = offset
+    pages.push({ pageNumber, start: offset, end: offset })
+  }
+
+  for (const block of blocks) {
+    if (text) text += '\n\n'
+    const start = text.length
+    openPage(block.page, start)
+
+    if (block.kind === 'heading') {
+      const current = sections[sections.length - 1]
+      if (current) current.end = start
+      sections.push({ heading: block.text, kind: block.sectionKind || 'other', page: block.page, start, end: start })
+    } else if (sections.length === 0) {
+      sections.push({ heading: '', kind: 'front', page: block.page, start, end: start })
+    }
+
+    text += block.text
+  }
+
+  if (pages.length) pages[pages.length - 1].end = text.length
+  if (sections.length) sections[sections.length - 1].end = text.length
+
+  // Pages with no extractable text still get an (empty) entry so page numbers line up
+  const covered = new Set(pages.map(p => p.pageNumber))
+  pageLines.forEach((_, index) => {
+    if (!covered.has(index + 1)) {
+      const before = pages.filter(p => p.pageNumber < index + 1).pop()
+      const offset = before ? before.end : 0
+      pages.push({ pageNumber: index + 1, start: offset, end: offset })
+    }
+  })
+  pages.sort((a, b) => a.pageNumber - b.pageNumber)
+
+  return { text, pages, sections }
+}
+
+/**
+ * Return the text of the given section kinds, in document order.
+ */
+export function getSectionText(extraction: Pick<PdfTextExtraction, 'text' | 'sections'>, kinds: PdfSectionKind[]): string {
+  return extraction.sections
+    .filter(section => kinds.includes(section.kind))
+    .map(section => extraction.text.slice(section.start, section.end).trim())
+    .join('\n\n')
+}
+
+/**
+ * Body text for analysis and embeddings: everything except references/acknowledgments,
+ * truncated on a paragraph boundary when maxChars is given.
+ */
+export function getBodyText(extraction: Pick<PdfTextExtraction, 'text' | 'sections'>, maxChars?: number): string {
+  const excluded: PdfSectionKind[] = ['references', 'acknowledgments']
+  const body = extraction.sections.length
+    ? extraction.sections
+        .filter(section => !excluded.includes(section.kind))
+        .map(section => extraction.text.slice(section.start, section.end).trim())
+        .filter(Boolean)
+        .join('\n\n')
+    : extraction.text
+
+  if (!maxChars || body.length <= maxChars) return body
+  const cut = body.lastIndexOf('\n\n', maxChars)
+  return body.slice(0, cut > maxChars * 0.5 ? cut : maxChars).trim()
+}
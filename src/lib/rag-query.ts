@@ -0,0 +1,330 @@
+import type { NextRequest } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAuthenticatedUser } from '@/lib/auth-helpers'
+import { TABLES } from '@/lib/database'
+import { SupabaseVectorService } from '@/services/vector/SupabaseVectorService'
+import { CitationService } from '@/services/citation/CitationService'
+import { ConversationService } from '@/services/rag/ConversationService'
+import { CollectionService } from '@/services/collections/CollectionService'
+import { AIBudgetService, AIBudgetExceededError } from '@/services/usage/AIBudgetService'
+import { assertPublicBaseUrl } from '@/services/ai/OpenAICompatibleService'
+import { getBuiltInStyle, isBuiltInCitationStyle } from '@/services/citation/styles'
+import type { CslStyle } from '@/services/citation/CslStyle'
+import type { RAGConversation, RAGHistoryTurn, RAGResponse, RAGScope, RAGUsage, SearchFilters } from '@/types'
+
+// Papers a scope may name explicitly
+const MAX_SCOPE_PAPERS = 100
+// Paper IDs per `in` filter when resolving a tag
+const ID_CHUNK_SIZE = 200
+
+/**
+ * The RAG query request can't be served; status is the HTTP status to answer with
+ */
+export class RAGQueryError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'RAGQueryError'
+    this.status = status
+  }
+}
+
+// An answer as far as it got; a stopped stream has no confidence or verification
+export type RecordedAnswer = Pick<RAGResponse, 'answer' | 'sources'> &
+  Partial<Pick<RAGResponse, 'confidence' | 'citations' | 'unsupportedClaims'>>
+
+export interface PreparedRAGQuery {
+  question: string
+  searchContext: Record<string, unknown>
+  // Append the sources as a bibliography in this style
+  style: CslStyle | null
+  vectorService: SupabaseVectorService
+  // Earlier turns: stored ones for a saved conversation, else those sent in the body
+  history: RAGHistoryTurn[]
+  // Save the question and its answer to the conversation, if there is one.
+  // Resolves to the updated conversation (its title may be new).
+  recordAnswer: (answer: RecordedAnswer) => Promise<RAGConversation | null>
+  // Charge the answer's cost to the signed-in user's AI budgets
+  recordUsage: (usage?: RAGUsage) => Promise<void>
+}
+
+/**
+ * Validate a RAG query body and set up the vector service it asks for.
+ * Shared by /api/rag/query and its streaming variant.
+ */
+export async function prepareRAGQuery(request: NextRequest): Promise<PreparedRAGQuery> {
+  const askedAt = new Date()
+  const body = await request.json()
+  const { question, filters, scope, openaiApiKey, openaiCompatible, citationStyle, conversationId } = body
+
+  // Validate required fields
+  if (!question || typeof question !== 'string') {
+    throw new RAGQueryError('Question is required and must be a string')
+  }
+
+  // Optional: append the sources as a bibliography in this style
+  let style: CslStyle | null = null
+  if (citationStyle !== undefined && citationStyle !== null) {
+    style = typeof citationStyle === 'string' && citationStyle
+      ? await resolveCitationStyle(request, citationStyle)
+      : null
+    if (!style) {
+      throw new RAGQueryError(`Unknown citation style "${citationStyle}"`)
+    }
+  }
+
+  // The OpenAI key is optional; it's needed only when the library embeds with OpenAI
+  const vectorService = new SupabaseVectorService(
+    typeof openaiApiKey === 'string' && openaiApiKey ? openaiApiKey : undefined
+  )
+  // Optional: answer with a self-hosted OpenAI-compatible model instead of OpenAI
+  if (openaiCompatible?.baseUrl) {
+    vectorService.setAnswerModel({
+      baseUrl: assertPublicBaseUrl(openaiCompatible.baseUrl),
+      apiKey: openaiCompatible.apiKey || undefined,
+      modelName: openaiCompatible.modelName || undefined
+    })
+  }
+  vectorService.scheduleStaleReembedding()
+
+  const trimmedQuestion = question.trim()
+  const base = {
+    question: trimmedQuestion,
+    // The scope's papers are enforced by match_documents alongside the filters
+    searchContext: { ...buildSearchContext(filters), ...(await resolveScope(request, scope)) },
+    style,
+    vectorService,
+    recordUsage: await checkAIBudget(request, vectorService)
+  }
+
+  if (conversationId === undefined || conversationId === null) {
+    return {
+      ...base,
+      history: parseHistory(body.history),
+      recordAnswer: async () => null
+    }
+  }
+
+  // Saved conversations belong to the signed-in user
+  const supabase = createServerSupabaseClient()
+  if (!supabase) {
+    throw new RAGQueryError('Database not available', 503)
+  }
+  const user = await getAuthenticatedUser(request)
+  if (!user) {
+    throw new RAGQueryError('Unauthorized', 401)
+  }
+
+  const conversations = new ConversationService(supabase)
+  const history = typeof conversationId === 'string'
+    ? await conversations.getHistory(user.id, conversationId)
+    : null
+  if (!history) {
+    throw new RAGQueryError('Conversation not found', 404)
+  }
+
+  return {
+    ...base,
+    history,
+    recordAnswer: ({ answer, sources, confidence, citations, unsupportedClaims }) =>
+      conversations.addExchange(user.id, conversationId, {
+        question: trimmedQuestion,
+        askedAt,
+        answer,
+        sourcePaperIds: sources.map(paper => paper.id),
+        confidence,
+        citations,
+        unsupportedClaims
+      })
+  }
+}
+
+/**
+ * Refuse the query if a budget covering the answer's provider is spent, and
+ * return how to charge the answer to the user's budgets. Answers assembled
+ * from the passages, and anonymous queries, aren't charged.
+ */
+async function checkAIBudget(
+  request: NextRequest,
+  vectorService: SupabaseVectorService
+): Promise<(usage?: RAGUsage) => Promise<void>> {
+  const provider = vectorService.getAnswerProvider()
+  const supabase = provider ? createServerSupabaseClient() : null
+  const user = supabase ? await getAuthenticatedUser(request) : null
+  if (!provider || !supabase || !user) {
+    return async () => {}
+  }
+
+  const budgetService = new AIBudgetService(supabase)
+  try {
+    await budgetService.assertWithinBudget(user.id, provider)
+  } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      throw new RAGQueryError(error.message, 402)
+    }
+    throw error
+  }
+
+  return async (usage?: RAGUsage) => {
+    if (!usage) return
+
+    try {
+      await budgetService.recordSpend(user.id, {
+        provider,
+        costUsd: usage.cost ?? 0,
+        tokensUsed: usage.totalTokens,
+        source: 'rag'
+      })
+    } catch (error) {
+      // The answer was given; a missing spend record mustn't fail it
+      console.error('Failed to record RAG answer spend:', error)
+    }
+  }
+}
+
+/**
+ * Turns sent by a client without a saved conversation; anything malformed is dropped
+ */
+function parseHistory(history: unknown): RAGHistoryTurn[] {
+  if (!Array.isArray(history)) return []
+
+  return history.filter((turn): turn is RAGHistoryTurn =>
+    !!turn &&
+    (turn.role === 'user' || turn.role === 'assistant') &&
+    typeof turn.content === 'string'
+  )
+}
+
+/**
+ * The `paper_ids` filter for a scope, or nothing for the whole library. A tag or
+ * collection is looked up in the signed-in user's library now, so recent tagging
+ * and filing count; a collection includes its subcollections.
+ */
+async function resolveScope(request: NextRequest, scope: unknown): Promise<Record<string, unknown>> {
+  if (scope === undefined || scope === null) {
+    return {}
+  }
+
+  const { paperIds, tag, collectionId } = (typeof scope === 'object' ? scope : {}) as RAGScope
+  if ([paperIds, tag, collectionId].filter(value => value !== undefined).length !== 1) {
+    throw new RAGQueryError('Scope must have exactly one of paperIds, tag or collectionId')
+  }
+
+  if (paperIds !== undefined) {
+    if (!Array.isArray(paperIds) || paperIds.length === 0 || !paperIds.every(id => typeof id === 'string' && id)) {
+      throw new RAGQueryError('Scope paperIds must be a non-empty array of paper IDs')
+    }
+    if (paperIds.length > MAX_SCOPE_PAPERS) {
+      throw new RAGQueryError(`Scope can name at most ${MAX_SCOPE_PAPERS} papers`)
+    }
+    return { paper_ids: Array.from(new Set(paperIds)) }
+  }
+
+  if (collectionId !== undefined && (typeof collectionId !== 'string' || !collectionId)) {
+    throw new RAGQueryError('Scope collectionId must be a collection ID')
+  }
+  if (tag !== undefined && (typeof tag !== 'string' || !tag.trim())) {
+    throw new RAGQueryError('Scope tag must be a non-empty string')
+  }
+
+  const supabase = createServerSupabaseClient()
+  if (!supabase) {
+    throw new RAGQueryError('Database not available', 503)
+  }
+  const user = await getAuthenticatedUser(request)
+  if (!user) {
+    throw new RAGQueryError('Unauthorized', 401)
+  }
+
+  if (collectionId !== undefined) {
+    const collections = new CollectionService(supabase)
+    if (!await collections.getCollection(user.id, collectionId)) {
+      throw new RAGQueryError('Collection not found', 404)
+    }
+    return { paper_ids: await collections.getPaperIds([collectionId], { userId: user.id }) }
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.USER_EVALUATIONS)
+    .select('paper_id')
+    .contains('tags', [tag!.trim()])
+
+  if (error) {
+    throw new Error(`Failed to resolve scope: ${error.message}`)
+  }
+
+  // Evaluations don't record their owner, so keep the user's own papers
+  const taggedIds = Array.from(new Set((data || []).map((row: { paper_id: string }) => row.paper_id)))
+  const paperIdsInScope: string[] = []
+
+  for (let start = 0; start < taggedIds.length; start += ID_CHUNK_SIZE) {
+    const { data: papers, error: papersError } = await supabase
+      .from(TABLES.PAPERS)
+      .select('id')
+      .eq('created_by', user.id)
+      .is('archived_at', null)
+      .in('id', taggedIds.slice(start, start + ID_CHUNK_SIZE))
+
+    if (papersError) {
+      throw new Error(`Failed to resolve scope: ${papersError.message}`)
+    }
+    paperIdsInScope.push(...(papers || []).map((paper: { id: string }) => paper.id))
+  }
+
+  return { paper_ids: paperIdsInScope }
+}
+
+/**
+ * A built-in style, or one of the signed-in user's uploaded styles
+ */
+async function resolveCitationStyle(request: NextRequest, styleId: string): Promise<CslStyle | null> {
+  if (isBuiltInCitationStyle(styleId)) {
+    return getBuiltInStyle(styleId)
+  }
+
+  const supabase = createServerSupabaseClient()
+  const user = supabase ? await getAuthenticatedUser(request) : null
+  if (!supabase || !user) {
+    return null
+  }
+
+  return new CitationService(supabase).getStyle(user.id, styleId)
+}
+
+/**
+ * Build search context from filters for vector search
+ */
+function buildSearchContext(filters?: SearchFilters): Record<string, unknown> {
+  if (!filters) return {}
+
+  const context: Record<string, unknown> = {}
+
+  if (filters.readingStatus?.length) {
+    context.reading_status = filters.readingStatus
+  }
+
+  if (filters.publicationYear) {
+    if (filters.publicationYear.min) {
+      context.publication_year_min = filters.publicationYear.min
+    }
+    if (filters.publicationYear.max) {
+      context.publication_year_max = filters.publicationYear.max
+    }
+  }
+
+  if (filters.tags?.length) {
+    context.tags = filters.tags
+  }
+
+  if (filters.rating) {
+    if (filters.rating.min) {
+      context.rating_min = filters.rating.min
+    }
+    if (filters.rating.max) {
+      context.rating_max = filters.rating.max
+    }
+  }
+
+  return context
+}
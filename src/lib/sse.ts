@@ -0,0 +1,75 @@
+/**
+ * Server-Sent Events framing, shared by the streaming API routes, their
+ * clients, and the upstream model APIs that stream chat completions
+ */
+
+export interface SSEMessage {
+  event: string
+  data: string
+}
+
+/**
+ * Frame one event with a JSON payload
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Read the events of an SSE response body as they arrive. Events without an
+ * event field are named "message"; comment lines are skipped.
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+      buffer = buffer.replace(/\r\n/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const message = parseSSEBlock(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (message) {
+          yield message
+        }
+        boundary = buffer.indexOf('\n\n')
+      }
+
+      if (done) {
+        const message = parseSSEBlock(buffer)
+        if (message) {
+          yield message
+        }
+        return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function parseSSEBlock(block: string): SSEMessage | null {
+  let event = 'message'
+  const data: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue
+
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+    if (field === 'event') {
+      event = value
+    } else if (field === 'data') {
+      data.push(value)
+    }
+  }
+
+  return data.length ? { event, data: data.join('\n') } : null
+}
@@ -1,3 +1,4 @@
+import { createHmac } from 'crypto'
 import { createClient } from '@supabase/supabase-js'
 
 /**
@@ -32,6 +33,51 @@ export function createServerSupabaseClient() {
   }
 }
 
+/**
+ * Create a Supabase client acting as a user, for background jobs that have no
+ * request to take the user's token from. Row level security applies as if the
+ * user made the requests. The access token is signed with the project's JWT
+ * secret and expires after `expiresInSeconds`.
+ * Returns null if credentials or the JWT secret are not available
+ */
+export function createSupabaseClientForUser(userId: string, expiresInSeconds = 3600) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET
+
+  if (!supabaseUrl || !supabaseAnon || !jwtSecret) {
+    console.warn('Supabase credentials or JWT secret not available - cannot act as a user')
+    return null
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const accessToken = signJwt(
+    {
+      sub: userId,
+      role: 'authenticated',
+      aud: 'authenticated',
+      iat: issuedAt,
+      exp: issuedAt + expiresInSeconds
+    },
+    jwtSecret
+  )
+
+  return createClient(supabaseUrl, supabaseAnon, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+}
+
+function signJwt(payload: Record<string, unknown>, secret: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`
+  const signature = createHmac('sha256', secret).update(unsigned).digest('base64url')
+  return `${unsigned}.${signature}`
+}
+
 /**
  * Execute a Supabase operation with fallback to mock data
  */
@@ -0,0 +1,108 @@
+import type { PdfSectionKind, PdfTextPage, PdfTextSection } from './pdf-text'
+
+export interface TextChunk {
+  index: number
+  content: string
+  section: PdfSectionKind | null
+  sectionHeading?: string
+  page: number | null
+  start: number // character offset into the source text
+  end: number
+}
+
+export interface TextChunkOptions {
+  chunkSize?: number
+  overlap?: number
+  maxChunks?: number
+  excludeKinds?: PdfSectionKind[]
+}
+
+export interface TextLayout {
+  sections?: PdfTextSection[]
+  pages?: PdfTextPage[]
+}
+
+const DEFAULT_OPTIONS: Required<TextChunkOptions> = {
+  chunkSize: 1500,
+  overlap: 200,
+  maxChunks: 200,
+  excludeKinds: ['references', 'acknowledgments'],
+}
+
+// Preferred break points, strongest first
+const BREAKS = ['\n\n', '. ', '? ', '! ', '\n', ' ']
+
+/**
+ * Split text into overlapping chunks that never cross a section boundary.
+ * Offsets refer to the original text so chunks can be traced back to the
+ * page and section they came from.
+ */
+export function chunkText(text: string, layout: TextLayout = {}, options: TextChunkOptions = {}): TextChunk[] {
+  const { chunkSize, overlap, maxChunks, excludeKinds } = { ...DEFAULT_OPTIONS, ...options }
+  const pages = layout.pages || []
+  const ranges = layout.sections?.length
+    ? layout.sections.filter(section => !excludeKinds.includes(section.kind))
+    : [{ heading: '', kind: null, start: 0, end: text.length }]
+
+  const chunks: TextChunk[] = []
+
+  for (const range of ranges) {
+    let pos = range.start
+    const rangeEnd = Math.min(range.end, text.length)
+
+    while (pos < rangeEnd && chunks.length < maxChunks) {
+      const limit = Math.min(pos + chunkSize, rangeEnd)
+      const cut = limit < rangeEnd ? findBreak(text, pos, limit) : limit
+
+      const [start, end] = trimRange(text, pos, cut)
+      if (end > start) {
+        chunks.push({
+          index: chunks.length,
+          content: text.slice(start, end),
+          section: range.kind,
+          sectionHeading: range.heading || undefined,
+          page: pageAt(pages, start),
+          start,
+          end,
+        })
+      }
+
+      if (cut >= rangeEnd) break
+      pos = nextStart(text, pos, cut, overlap)
+    }
+  }
+
+  return chunks
+}
+
+function findBreak(text: string, from: number, to: number): number {
+  const earliest = from + Math.floor((to - from) / 2)
+  for (const marker of BREAKS) {
+    const at = text.lastIndexOf(marker, to - marker.length)
+    if (at >= earliest) return at + marker.length
+  }
+  return to
+}
+
+// Step back by `overlap` characters, then forward to the next word start
+function nextStart(text: string, pos: number, cut: number, overlap: number): number {
+  let next = cut - overlap
+  if (next <= pos) return cut
+  while (next < cut && !/\s/.test(text[next - 1])) next++
+  return next
+}
+
+function trimRange(text: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(text[start])) start++
+  while (end > start && /\s/.test(text[end - 1])) end--
+  return [start, end]
+}
+
+function pageAt(pages: PdfTextPage[], offset: number): number | null {
+  let found: number | null = null
+  for (const page of pages) {
+    if (page.start > offset) break
+    found = page.pageNumber
+  }
+  return found
+}
@@ -3,13 +3,16 @@ import { OpenAIService } from './OpenAIService';
 import { AnthropicService } from './AnthropicService';
 import { XAIService } from './XAIService';
 import { GeminiService } from './GeminiService';
+import { OpenAICompatibleService } from './OpenAICompatibleService';
 
-export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini';
+export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible';
 
 export interface AIServiceConfig {
   provider: AIProvider;
+  // Optional for 'openai-compatible', which needs baseUrl instead
   apiKey: string;
   modelName?: string;
+  baseUrl?: string;
 }
 
 /**
@@ -20,16 +23,25 @@ export class AIServiceFactory {
     openai: 'gpt-4',
     anthropic: 'claude-3-sonnet-20240229',
     xai: 'grok-beta',
-    gemini: 'gemini-1.5-pro'
+    gemini: 'gemini-1.5-pro',
+    // Self-hosted servers differ; the service falls back to the server's first model
+    'openai-compatible': ''
   };
 
   /**
    * Create an AI service instance
    */
   static createService(config: AIServiceConfig): BaseAIService {
-    const { provider, apiKey, modelName } = config;
+    const { provider, apiKey, modelName, baseUrl } = config;
     const model = modelName || this.DEFAULT_MODELS[provider];
 
+    if (provider === 'openai-compatible') {
+      if (!baseUrl) {
+        throw new Error(`Base URL is required for ${provider} service`);
+      }
+      return new OpenAICompatibleService(apiKey || '', model, baseUrl);
+    }
+
     if (!apiKey) {
       throw new Error(`API key is required for ${provider} service`);
     }
@@ -73,9 +85,9 @@ export class AIServiceFactory {
   /**
    * Validate API key for a specific provider
    */
-  static async validateApiKey(provider: AIProvider, apiKey: string): Promise<boolean> {
+  static async validateApiKey(provider: AIProvider, apiKey: string, baseUrl?: string): Promise<boolean> {
     try {
-      const service = this.createService({ provider, apiKey });
+      const service = this.createService({ provider, apiKey, baseUrl });
       return await service.validateApiKey(apiKey);
     } catch (error) {
       console.error(`Failed to validate API key for ${provider}:`, error);
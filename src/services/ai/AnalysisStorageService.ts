@@ -1,5 +1,6 @@
 import { AIAnalysisResult, MultiModelAnalysis } from '@/types'
 import { AIProvider } from './AIServiceFactory'
+import { readStructuredFields } from './structuredAnalysis'
 import { getSupabaseClient } from '@/lib/database'
 import { TABLES } from '@/lib/database'
 
@@ -147,7 +148,8 @@ export class AnalysisStorageService {
         openai: 0,
         anthropic: 0,
         xai: 0,
-        gemini: 0
+        gemini: 0,
+        'openai-compatible': 0
       } as Record<AIProvider, number>,
       totalTokensUsed: 0,
       averageProcessingTime: 0
@@ -303,6 +305,7 @@ export class AnalysisStorageService {
         .from(TABLES.AI_ANALYSES)
         .select('*')
         .eq('paper_id', paperId)
+        .is('template_id', null)
         .order('created_at', { ascending: false })
       
       if (error) {
@@ -321,6 +324,7 @@ export class AnalysisStorageService {
           summary: row.summary || '',
           keywords: row.keywords || [],
           scientificRelevance: row.scientific_relevance,
+          ...readStructuredFields(row.scientific_relevance),
           confidenceScore: row.confidence_score || 0,
           tokensUsed: row.tokens_used || 0,
           processingTimeMs: row.processing_time_ms || 0,
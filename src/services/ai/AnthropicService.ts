@@ -1,4 +1,5 @@
 import { BaseAIService } from './BaseAIService';
+import type { PromptCompletion, StructuredPrompt } from './structuredAnalysis';
 
 /**
  * Anthropic Claude service implementation
@@ -177,6 +178,59 @@ Paper text:\n\n${text}`
     }
   }
 
+  protected async complete(prompt: StructuredPrompt, format: 'json' | 'text'): Promise<PromptCompletion> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'x-api-key': this.apiKey,
+          'Content-Type': 'application/json',
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify({
+          model: this.modelName,
+          max_tokens: format === 'json' ? 1500 : 2500,
+          temperature: format === 'json' ? 0.2 : 0.3,
+          system: prompt.system,
+          messages: [
+            { role: 'user', content: prompt.user },
+            // Prefilling the reply keeps Claude from wrapping the JSON in prose
+            ...(format === 'json' ? [{ role: 'assistant', content: '{' }] : [])
+          ]
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const inputTokens = data.usage?.input_tokens || 0;
+      const outputTokens = data.usage?.output_tokens || 0;
+
+      this.lastUsageStats = {
+        tokensUsed: inputTokens + outputTokens,
+        processingTimeMs: Date.now() - startTime,
+        cost: this.calculateCostDetailed(inputTokens, outputTokens)
+      };
+
+      return {
+        content: `${format === 'json' ? '{' : ''}${data.content[0]?.text || ''}`,
+        tokensUsed: this.lastUsageStats.tokensUsed,
+        cost: this.lastUsageStats.cost
+      };
+    } catch (error) {
+      this.lastUsageStats = {
+        tokensUsed: 0,
+        processingTimeMs: Date.now() - startTime,
+        cost: 0
+      };
+      throw error;
+    }
+  }
+
   async validateApiKey(key: string): Promise<boolean> {
     try {
       const response = await fetch('https://api.anthropic.com/v1/messages', {
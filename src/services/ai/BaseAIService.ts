@@ -1,3 +1,21 @@
+import {
+  MAX_STRUCTURED_ATTEMPTS,
+  StructuredAnalysisError,
+  buildRepairPrompt,
+  buildStructuredAnalysisPrompt,
+  parseStructuredAnalysis,
+  type AnalyzablePaper,
+  type PromptCompletion,
+  type StructuredAnalysisResult,
+  type StructuredPrompt
+} from './structuredAnalysis';
+import {
+  renderPromptTemplate,
+  type PromptTemplate,
+  type TemplateAnalysisResult,
+  type TemplateValues
+} from './promptTemplates';
+
 /**
  * Base abstract class for AI services
  * Provides common interface for all AI service implementations
@@ -26,6 +44,76 @@ export abstract class BaseAIService {
    */
   abstract analyzeRelevance(text: string): Promise<any>;
 
+  /**
+   * Analyze a paper into the structured, schema-validated analysis. Replies
+   * that aren't valid JSON or don't match the schema are sent back to the
+   * model for repair, up to MAX_STRUCTURED_ATTEMPTS requests in total.
+   */
+  async analyzeStructured(paper: AnalyzablePaper): Promise<StructuredAnalysisResult> {
+    const startTime = Date.now();
+    let prompt = buildStructuredAnalysisPrompt(paper);
+    let tokensUsed = 0;
+    let cost = 0;
+    let lastOutput = '';
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      const completion = await this.complete(prompt, 'json');
+      tokensUsed += completion.tokensUsed;
+      cost += completion.cost;
+
+      const parsed = parseStructuredAnalysis(completion.content);
+      if (parsed.success) {
+        return {
+          analysis: parsed.data,
+          attempts: attempt,
+          tokensUsed,
+          cost,
+          processingTimeMs: Date.now() - startTime
+        };
+      }
+
+      lastOutput = completion.content;
+      lastError = parsed.error;
+      prompt = buildRepairPrompt(completion.content, parsed.error);
+    }
+
+    throw new StructuredAnalysisError(
+      `${this.getProvider()} returned an invalid analysis after ${MAX_STRUCTURED_ATTEMPTS} attempts: ${lastError}`,
+      lastOutput,
+      MAX_STRUCTURED_ATTEMPTS
+    );
+  }
+
+  /**
+   * Run a user-defined prompt template against a paper. The reply is the
+   * template's free-form report; it isn't validated against any schema.
+   */
+  async analyzeWithTemplate(
+    template: Pick<PromptTemplate, 'systemPrompt' | 'userPrompt'>,
+    values: TemplateValues
+  ): Promise<TemplateAnalysisResult> {
+    const startTime = Date.now();
+    const completion = await this.complete(renderPromptTemplate(template, values), 'text');
+
+    if (!completion.content.trim()) {
+      throw new Error(`${this.getProvider()} returned an empty reply`);
+    }
+
+    return {
+      output: completion.content.trim(),
+      tokensUsed: completion.tokensUsed,
+      cost: completion.cost,
+      processingTimeMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Send one prompt. With 'json' the provider's JSON mode is used where it
+   * has one.
+   */
+  protected abstract complete(prompt: StructuredPrompt, format: 'json' | 'text'): Promise<PromptCompletion>;
+
   /**
    * Validate the API key for this service
    */
@@ -64,13 +152,21 @@ export abstract class BaseAIService {
 export interface AIAnalysisResult {
   id: string;
   paperId: string;
-  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini';
+  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible';
   modelName: string;
   summary: string;
   keywords: string[];
   scientificRelevance?: any;
+  keyFindings?: string[];
+  methodology?: string;
+  limitations?: string[];
+  significance?: string;
+  templateId?: string;
+  templateVersion?: number;
   confidenceScore: number;
   tokensUsed: number;
+  // USD cost of the provider requests the analysis took
+  cost?: number;
   processingTimeMs: number;
   createdAt: Date;
 }
@@ -84,5 +180,6 @@ export interface MultiModelAnalysis {
   anthropic?: AIAnalysisResult;
   xai?: AIAnalysisResult;
   gemini?: AIAnalysisResult;
+  'openai-compatible'?: AIAnalysisResult;
   completedAt: Date;
 }
\ No newline at end of file
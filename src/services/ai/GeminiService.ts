@@ -1,4 +1,5 @@
 import { BaseAIService } from './BaseAIService';
+import type { PromptCompletion, StructuredPrompt } from './structuredAnalysis';
 
 /**
  * Google Gemini service implementation
@@ -183,6 +184,60 @@ Paper text:\n\n${text}`
     }
   }
 
+  protected async complete(prompt: StructuredPrompt, format: 'json' | 'text'): Promise<PromptCompletion> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${this.modelName}:generateContent?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          systemInstruction: {
+            parts: [{ text: prompt.system }]
+          },
+          contents: [
+            {
+              parts: [{ text: prompt.user }]
+            }
+          ],
+          generationConfig: {
+            maxOutputTokens: format === 'json' ? 1500 : 2500,
+            temperature: format === 'json' ? 0.2 : 0.3,
+            ...(format === 'json' ? { responseMimeType: 'application/json' } : {})
+          }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const tokensUsed = data.usageMetadata?.totalTokenCount || 0;
+
+      this.lastUsageStats = {
+        tokensUsed,
+        processingTimeMs: Date.now() - startTime,
+        cost: this.calculateCost(tokensUsed)
+      };
+
+      return {
+        content: data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+        tokensUsed,
+        cost: this.lastUsageStats.cost
+      };
+    } catch (error) {
+      this.lastUsageStats = {
+        tokensUsed: 0,
+        processingTimeMs: Date.now() - startTime,
+        cost: 0
+      };
+      throw error;
+    }
+  }
+
   async validateApiKey(key: string): Promise<boolean> {
     try {
       const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${key}`);
@@ -1,12 +1,10 @@
 import { BaseAIService, AIAnalysisResult, MultiModelAnalysis } from './BaseAIService';
 import { AIProvider } from './AIServiceFactory';
+import type { AnalyzablePaper, StructuredAnalysisResult } from './structuredAnalysis';
+import type { PromptTemplate, TemplateValues } from './promptTemplates';
 
-export interface Paper {
+export interface Paper extends AnalyzablePaper {
   id: string;
-  title: string;
-  authors: string[];
-  abstract?: string;
-  content?: string;
 }
 
 /**
@@ -47,6 +45,59 @@ export class MultiModelAnalyzer {
     return analysis;
   }
 
+  /**
+   * Run a user-defined prompt template against a paper with each AI model.
+   * Each result's summary holds the model's report.
+   */
+  async analyzePaperWithTemplate(
+    paperId: string,
+    template: PromptTemplate,
+    values: TemplateValues,
+    selectedProviders?: AIProvider[]
+  ): Promise<MultiModelAnalysis> {
+    const providers = selectedProviders || Array.from(this.services.keys());
+    const results = await Promise.allSettled(providers.map(async provider => {
+      const service = this.services.get(provider);
+      if (!service) {
+        throw new Error(`Service not available for provider: ${provider}`);
+      }
+
+      const result = await service.analyzeWithTemplate(template, values);
+      const analysis: AIAnalysisResult = {
+        id: `${paperId}-${provider}-${template.id}-${Date.now()}`,
+        paperId,
+        modelProvider: provider,
+        modelName: service.getModelName(),
+        summary: result.output,
+        keywords: [],
+        templateId: template.id,
+        templateVersion: template.version,
+        confidenceScore: 0,
+        tokensUsed: result.tokensUsed,
+        cost: result.cost,
+        processingTimeMs: result.processingTimeMs,
+        createdAt: new Date()
+      };
+      return analysis;
+    }));
+
+    const analysis: MultiModelAnalysis = {
+      paperId,
+      completedAt: new Date()
+    };
+
+    results.forEach((result, index) => {
+      const provider = providers[index];
+      if (result.status === 'fulfilled') {
+        analysis[provider] = result.value;
+      } else {
+        console.error(`Template analysis failed for ${provider}:`, result.reason);
+      }
+    });
+
+    return analysis;
+  }
+
   /**
    * Analyze a paper with a specific AI model
    */
@@ -56,30 +107,33 @@ export class MultiModelAnalyzer {
       throw new Error(`Service not available for provider: ${provider}`);
     }
 
-    const paperText = this.preparePaperText(paper);
-    const startTime = Date.now();
-
     try {
-      // Run all analysis tasks in parallel
-      const [summary, keywords, relevance] = await Promise.all([
-        service.summarize(paperText),
-        service.extractKeywords(paperText),
-        service.analyzeRelevance(paperText)
-      ]);
-
-      const usageStats = service.getLastUsageStats();
-      
+      const result = await service.analyzeStructured(paper);
+      const { analysis } = result;
+
       return {
         id: `${paper.id}-${provider}-${Date.now()}`,
         paperId: paper.id,
         modelProvider: provider,
         modelName: service.getModelName(),
-        summary,
-        keywords,
-        scientificRelevance: relevance,
-        confidenceScore: this.calculateConfidenceScore(summary, keywords, relevance),
-        tokensUsed: usageStats.tokensUsed,
-        processingTimeMs: Date.now() - startTime,
+        summary: analysis.summary,
+        keywords: analysis.keywords,
+        keyFindings: analysis.keyFindings,
+        methodology: analysis.methodology,
+        limitations: analysis.limitations,
+        significance: analysis.significance,
+        // Stored as the analysis's scientific_relevance
+        scientificRelevance: {
+          scores: analysis.scores,
+          keyFindings: analysis.keyFindings,
+          methodology: analysis.methodology,
+          limitations: analysis.limitations,
+          significance: analysis.significance
+        },
+        confidenceScore: this.calculateConfidenceScore(result),
+        tokensUsed: result.tokensUsed,
+        cost: result.cost,
+        processingTimeMs: result.processingTimeMs,
         createdAt: new Date()
       };
     } catch (error) {
@@ -89,52 +143,27 @@ export class MultiModelAnalyzer {
   }
 
   /**
-   * Prepare paper text for analysis
+   * Confidence in a validated analysis: how complete it is, less a little for
+   * each repair the model needed
    */
-  private preparePaperText(paper: Paper): string {
-    const parts = [];
-    
-    if (paper.title) {
-      parts.push(`Title: ${paper.title}`);
-    }
-    
-    if (paper.authors && paper.authors.length > 0) {
-      parts.push(`Authors: ${paper.authors.join(', ')}`);
-    }
-    
-    if (paper.abstract) {
-      parts.push(`Abstract: ${paper.abstract}`);
-    }
-    
-    if (paper.content) {
-      parts.push(`Content: ${paper.content}`);
-    }
-    
-    return parts.join('\n\n');
-  }
-
-  /**
-   * Calculate confidence score based on analysis results
-   */
-  private calculateConfidenceScore(summary: string, keywords: string[], relevance: any): number {
+  private calculateConfidenceScore({ analysis, attempts }: StructuredAnalysisResult): number {
     let score = 0.5; // Base score
-    
-    // Adjust based on summary length and quality
-    if (summary && summary.length > 100) {
-      score += 0.2;
-    }
-    
-    // Adjust based on keywords count
-    if (keywords && keywords.length >= 5) {
+
+    if (analysis.summary.length > 100) {
       score += 0.2;
     }
-    
-    // Adjust based on relevance analysis
-    if (relevance && typeof relevance === 'object' && !relevance.error) {
+
+    if (analysis.keywords.length >= 5) {
       score += 0.1;
     }
-    
-    return Math.min(1.0, score);
+
+    if (analysis.keyFindings.length >= 2 && analysis.limitations.length > 0) {
+      score += 0.2;
+    }
+
+    score -= (attempts - 1) * 0.1;
+
+    return Math.max(0, Math.min(1.0, score));
   }
 
   /**
@@ -0,0 +1,315 @@
+import { BaseAIService } from './BaseAIService';
+import type { PromptCompletion, StructuredPrompt } from './structuredAnalysis';
+
+/**
+ * Where a self-hosted model is served. The key is optional since most local
+ * servers (Ollama, LM Studio, llama.cpp) don't check one.
+ */
+export interface OpenAICompatibleEndpoint {
+  baseUrl: string;
+  apiKey?: string;
+  modelName?: string;
+}
+
+/**
+ * The base URL isn't a usable http(s) URL
+ */
+export class OpenAICompatibleConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenAICompatibleConfigError';
+  }
+}
+
+/**
+ * Trim a base URL and drop trailing slashes. A bare host such as
+ * http://localhost:11434 gets the conventional /v1 path.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL((baseUrl || '').trim());
+  } catch {
+    throw new OpenAICompatibleConfigError(`Invalid base URL "${baseUrl}"`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new OpenAICompatibleConfigError('Base URL must start with http:// or https://');
+  }
+
+  const path = url.pathname.replace(/\/+$/, '');
+  return `${url.origin}${path || '/v1'}`;
+}
+
+// Listing models is quick; a completion on a local model can take minutes
+const LIST_MODELS_TIMEOUT_MS = 10_000;
+const COMPLETION_TIMEOUT_MS = 180_000;
+
+function ipv4Octets(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+}
+
+function isPrivateIpv6(host: string): boolean {
+  if (host === '::' || host === '::1') {
+    return true;
+  }
+
+  // IPv4-mapped addresses, which URL writes as ::ffff:7f00:1
+  const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+
+  const first = parseInt(host.split(':')[0] || '0', 16);
+  // fc00::/7 unique local, fe80::/10 link-local
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80;
+}
+
+/**
+ * Whether a host name is loopback, private or link-local
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  const octets = ipv4Octets(host);
+  if (octets) {
+    return isPrivateIpv4(octets);
+  }
+
+  return host.includes(':') && isPrivateIpv6(host);
+}
+
+/**
+ * Normalize a base URL the server will call on a user's behalf. Loopback,
+ * private and link-local hosts are refused so the server can't be used to
+ * reach internal services, unless the host is listed in
+ * OPENAI_COMPATIBLE_ALLOWED_HOSTS (comma-separated) for a self-hosted
+ * deployment. Host names are checked as written, not resolved.
+ */
+export function assertPublicBaseUrl(baseUrl: string): string {
+  const normalized = normalizeBaseUrl(baseUrl);
+  const { hostname } = new URL(normalized);
+
+  const allowedHosts = (process.env.OPENAI_COMPATIBLE_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (isPrivateHost(hostname) && !allowedHosts.includes(hostname.toLowerCase())) {
+    throw new OpenAICompatibleConfigError(`Base URL host "${hostname}" is not allowed`);
+  }
+
+  return normalized;
+}
+
+function authHeaders(apiKey?: string): Record<string, string> {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+}
+
+/**
+ * The ids of the models the server offers, from its /models endpoint
+ */
+export async function listOpenAICompatibleModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const response = await fetch(`${normalizeBaseUrl(baseUrl)}/models`, {
+    headers: authHeaders(apiKey),
+    signal: AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Model server error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const models: Array<{ id?: unknown }> = Array.isArray(data?.data) ? data.data : [];
+  return models
+    .map(model => model.id)
+    .filter((id): id is string => typeof id === 'string' && id.length > 0)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * A self-hosted model behind an OpenAI-compatible chat completions API, such
+ * as Ollama, vLLM or LM Studio. Requests never leave the configured server and
+ * cost nothing. Without a model name the server's first model is used.
+ */
+export class OpenAICompatibleService extends BaseAIService {
+  private baseUrl: string;
+  private lastUsageStats = {
+    tokensUsed: 0,
+    processingTimeMs: 0,
+    cost: 0
+  };
+
+  constructor(apiKey: string, modelName: string, baseUrl: string) {
+    super(apiKey, modelName);
+    this.baseUrl = normalizeBaseUrl(baseUrl);
+  }
+
+  async summarize(text: string): Promise<string> {
+    const completion = await this.complete({
+      system: 'You are a scientific paper analysis assistant. Provide concise, accurate summaries of academic papers.',
+      user: `Please provide a comprehensive summary of this scientific paper:\n\n${text}`
+    }, 'text');
+    return completion.content;
+  }
+
+  async extractKeywords(text: string): Promise<string[]> {
+    const completion = await this.complete({
+      system: 'You are a scientific paper analysis assistant. Extract the most important keywords and key phrases from academic papers. Return only a JSON array of strings.',
+      user: `Extract 10-15 key scientific terms, concepts, and phrases from this paper:\n\n${text}`
+    }, 'text');
+
+    const content = completion.content || '[]';
+    try {
+      return JSON.parse(content);
+    } catch {
+      // Fallback: split by commas if JSON parsing fails
+      return content.split(',').map((k: string) => k.trim()).filter(Boolean);
+    }
+  }
+
+  async analyzeRelevance(text: string): Promise<any> {
+    const completion = await this.complete({
+      system: 'You are a scientific paper analysis assistant. Analyze the scientific relevance and impact of academic papers. Return a JSON object with relevance metrics.',
+      user: `Analyze the scientific relevance of this paper and return a JSON object with the following structure:
+{
+  "novelty": number (1-10),
+  "methodology": number (1-10),
+  "impact": number (1-10),
+  "clarity": number (1-10),
+  "significance": string,
+  "strengths": string[],
+  "limitations": string[]
+}
+
+Paper text:\n\n${text}`
+    }, 'json');
+
+    try {
+      return JSON.parse(completion.content || '{}');
+    } catch {
+      return { error: 'Failed to parse relevance analysis' };
+    }
+  }
+
+  protected async complete(prompt: StructuredPrompt, format: 'json' | 'text'): Promise<PromptCompletion> {
+    const startTime = Date.now();
+
+    try {
+      const model = await this.resolveModel();
+      // JSON mode isn't sent: servers disagree on response_format, and the
+      // structured analysis repairs replies that aren't clean JSON
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...authHeaders(this.apiKey),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user }
+          ],
+          max_tokens: format === 'json' ? 1500 : 2500,
+          temperature: format === 'json' ? 0.2 : 0.3
+        }),
+        signal: AbortSignal.timeout(COMPLETION_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Model server error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const tokensUsed = data.usage?.total_tokens || 0;
+
+      this.lastUsageStats = {
+        tokensUsed,
+        processingTimeMs: Date.now() - startTime,
+        cost: this.calculateCost()
+      };
+
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        tokensUsed,
+        cost: 0
+      };
+    } catch (error) {
+      this.lastUsageStats = {
+        tokensUsed: 0,
+        processingTimeMs: Date.now() - startTime,
+        cost: 0
+      };
+      throw error;
+    }
+  }
+
+  /**
+   * The server is reachable and accepts the key, if one is set
+   */
+  async validateApiKey(key: string): Promise<boolean> {
+    try {
+      await listOpenAICompatibleModels(this.baseUrl, key || this.apiKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Models the server offers
+   */
+  async listModels(): Promise<string[]> {
+    return listOpenAICompatibleModels(this.baseUrl, this.apiKey);
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  getProvider(): string {
+    return 'openai-compatible';
+  }
+
+  getLastUsageStats() {
+    return this.lastUsageStats;
+  }
+
+  protected calculateCost(): number {
+    // Self-hosted: no per-token charge
+    return 0;
+  }
+
+  private async resolveModel(): Promise<string> {
+    if (!this.modelName) {
+      const [first] = await this.listModels();
+      if (!first) {
+        throw new Error(`No models available at ${this.baseUrl}`);
+      }
+      this.modelName = first;
+    }
+    return this.modelName;
+  }
+}
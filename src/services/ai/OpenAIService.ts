@@ -1,4 +1,5 @@
 import { BaseAIService } from './BaseAIService';
+import type { PromptCompletion, StructuredPrompt } from './structuredAnalysis';
 
 /**
  * OpenAI service implementation
@@ -186,6 +187,56 @@ Paper text:\n\n${text}`
     }
   }
 
+  protected async complete(prompt: StructuredPrompt, format: 'json' | 'text'): Promise<PromptCompletion> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.modelName,
+          messages: [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user }
+          ],
+          ...(format === 'json' ? { response_format: { type: 'json_object' } } : {}),
+          max_tokens: format === 'json' ? 1500 : 2500,
+          temperature: format === 'json' ? 0.2 : 0.3
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const tokensUsed = data.usage?.total_tokens || 0;
+
+      this.lastUsageStats = {
+        tokensUsed,
+        processingTimeMs: Date.now() - startTime,
+        cost: this.calculateCost(tokensUsed)
+      };
+
+      return {
+        content: data.choices[0]?.message?.content || '',
+        tokensUsed,
+        cost: this.lastUsageStats.cost
+      };
+    } catch (error) {
+      this.lastUsageStats = {
+        tokensUsed: 0,
+        processingTimeMs: Date.now() - startTime,
+        cost: 0
+      };
+      throw error;
+    }
+  }
+
   async validateApiKey(key: string): Promise<boolean> {
     try {
       const response = await fetch('https://api.openai.com/v1/models', {
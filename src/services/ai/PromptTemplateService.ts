@@ -0,0 +1,355 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient, TABLES } from '@/lib/database';
+import { PaperTextExtractionService } from '@/services/extraction/PaperTextExtractionService';
+import type { AIAnalysisResult } from '@/types';
+import { MAX_CONTENT_CHARS } from './structuredAnalysis';
+import {
+  validatePromptTemplate,
+  type PromptTemplate,
+  type PromptTemplateInput,
+  type PromptTemplateVersion,
+  type TemplateValues
+} from './promptTemplates';
+
+const TEMPLATES_TABLE = 'analysis_prompt_templates';
+const VERSIONS_TABLE = 'analysis_prompt_template_versions';
+
+interface TemplateRow {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface VersionRow {
+  version: number;
+  system_prompt: string;
+  user_prompt: string;
+  created_at: string;
+}
+
+/**
+ * Stores each user's analysis prompt templates. Changing a template's prompts
+ * adds a version rather than editing it, so analyses tagged with a template
+ * version keep pointing at the prompt that produced them.
+ */
+export class PromptTemplateService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient();
+  }
+
+  /**
+   * The user's templates at their current versions, by name
+   */
+  async listTemplates(userId: string): Promise<PromptTemplate[]> {
+    const { data, error } = await this.supabase
+      .from(TEMPLATES_TABLE)
+      .select('id, name, description, current_version, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) {
+      throw new Error(`Failed to load prompt templates: ${error.message}`);
+    }
+
+    const rows = (data || []) as TemplateRow[];
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { data: versions, error: versionsError } = await this.supabase
+      .from(VERSIONS_TABLE)
+      .select('template_id, version, system_prompt, user_prompt, created_at')
+      .in('template_id', rows.map(row => row.id));
+
+    if (versionsError) {
+      throw new Error(`Failed to load prompt templates: ${versionsError.message}`);
+    }
+
+    const current = new Map<string, VersionRow>();
+    for (const version of (versions || []) as Array<VersionRow & { template_id: string }>) {
+      const row = rows.find(template => template.id === version.template_id);
+      if (row && row.current_version === version.version) {
+        current.set(version.template_id, version);
+      }
+    }
+
+    return rows
+      .filter(row => current.has(row.id))
+      .map(row => mapTemplate(row, current.get(row.id)!));
+  }
+
+  /**
+   * One of the user's templates, at its current version unless another is
+   * asked for; null when either doesn't exist
+   */
+  async getTemplate(userId: string, id: string, version?: number): Promise<PromptTemplate | null> {
+    const row = await this.getTemplateRow(userId, id);
+    if (!row) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase
+      .from(VERSIONS_TABLE)
+      .select('version, system_prompt, user_prompt, created_at')
+      .eq('template_id', id)
+      .eq('version', version ?? row.current_version)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load prompt template: ${error.message}`);
+    }
+
+    return data ? mapTemplate(row, data as VersionRow) : null;
+  }
+
+  /**
+   * Every version of a template, newest first; null when the template doesn't exist
+   */
+  async listVersions(userId: string, id: string): Promise<PromptTemplateVersion[] | null> {
+    const row = await this.getTemplateRow(userId, id);
+    if (!row) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase
+      .from(VERSIONS_TABLE)
+      .select('version, system_prompt, user_prompt, created_at')
+      .eq('template_id', id)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load prompt template versions: ${error.message}`);
+    }
+
+    return ((data || []) as VersionRow[]).map(mapVersion);
+  }
+
+  /**
+   * Save a new template as version 1; throws PromptTemplateError when it isn't valid
+   */
+  async createTemplate(userId: string, input: PromptTemplateInput): Promise<PromptTemplate> {
+    const template = validatePromptTemplate(input);
+
+    const { data, error } = await this.supabase
+      .from(TEMPLATES_TABLE)
+      .insert({
+        user_id: userId,
+        name: template.name,
+        description: template.description || null,
+        current_version: 1
+      })
+      .select('id, name, description, current_version, created_at, updated_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save prompt template: ${error.message}`);
+    }
+
+    const row = data as TemplateRow;
+    try {
+      const version = await this.insertVersion(row.id, 1, template.systemPrompt, template.userPrompt);
+      return mapTemplate(row, version);
+    } catch (versionError) {
+      await this.supabase.from(TEMPLATES_TABLE).delete().eq('id', row.id);
+      throw versionError;
+    }
+  }
+
+  /**
+   * Rename or re-describe a template, adding a version when its prompts
+   * changed. Returns null when the template doesn't exist.
+   */
+  async updateTemplate(userId: string, id: string, input: PromptTemplateInput): Promise<PromptTemplate | null> {
+    const template = validatePromptTemplate(input);
+    const existing = await this.getTemplate(userId, id);
+    if (!existing) {
+      return null;
+    }
+
+    const promptsChanged = existing.systemPrompt !== template.systemPrompt || existing.userPrompt !== template.userPrompt;
+    const version = promptsChanged ? existing.version + 1 : existing.version;
+
+    const versionRow = promptsChanged
+      ? await this.insertVersion(id, version, template.systemPrompt, template.userPrompt)
+      : { version, system_prompt: existing.systemPrompt, user_prompt: existing.userPrompt, created_at: '' };
+
+    const { data, error } = await this.supabase
+      .from(TEMPLATES_TABLE)
+      .update({
+        name: template.name,
+        description: template.description || null,
+        current_version: version,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id, name, description, current_version, created_at, updated_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update prompt template: ${error.message}`);
+    }
+
+    return mapTemplate(data as TemplateRow, versionRow);
+  }
+
+  /**
+   * Delete a template with all its versions and analyses; returns false when it doesn't exist
+   */
+  async deleteTemplate(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(TEMPLATES_TABLE)
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete prompt template: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Template variable values for the user's papers. Papers the user doesn't
+   * own are left out of the result.
+   */
+  async getTemplateValues(userId: string, paperIds: string[]): Promise<Map<string, TemplateValues>> {
+    const values = new Map<string, TemplateValues>();
+    if (paperIds.length === 0) {
+      return values;
+    }
+
+    const { data: papers, error } = await this.supabase
+      .from(TABLES.PAPERS)
+      .select('id, title, abstract')
+      .in('id', paperIds)
+      .eq('created_by', userId);
+
+    if (error) {
+      throw new Error(`Failed to load papers: ${error.message}`);
+    }
+
+    const ownedIds = (papers || []).map(paper => paper.id as string);
+    const notes = new Map<string, string>();
+    if (ownedIds.length > 0) {
+      const { data: evaluations, error: evaluationsError } = await this.supabase
+        .from(TABLES.USER_EVALUATIONS)
+        .select('paper_id, notes')
+        .in('paper_id', ownedIds);
+
+      if (evaluationsError) {
+        throw new Error(`Failed to load paper notes: ${evaluationsError.message}`);
+      }
+      for (const evaluation of evaluations || []) {
+        if (evaluation.notes) {
+          notes.set(evaluation.paper_id, evaluation.notes);
+        }
+      }
+    }
+
+    const texts = new PaperTextExtractionService(this.supabase);
+    for (const paper of papers || []) {
+      values.set(paper.id, {
+        title: paper.title,
+        abstract: paper.abstract || undefined,
+        fullText: await texts.getAnalysisText(paper.id, MAX_CONTENT_CHARS),
+        notes: notes.get(paper.id)
+      });
+    }
+
+    return values;
+  }
+
+  /**
+   * Store a template analysis, replacing an earlier run of the same model and
+   * template version
+   */
+  async saveTemplateAnalysis(result: AIAnalysisResult & { templateId: string; templateVersion: number }): Promise<void> {
+    const { error } = await this.supabase
+      .from(TABLES.AI_ANALYSES)
+      .upsert({
+        paper_id: result.paperId,
+        model_provider: result.modelProvider,
+        model_name: result.modelName,
+        summary: result.summary,
+        keywords: result.keywords,
+        scientific_relevance: null,
+        confidence_score: null,
+        tokens_used: result.tokensUsed,
+        processing_time_ms: result.processingTimeMs,
+        template_id: result.templateId,
+        template_version: result.templateVersion,
+        created_at: result.createdAt.toISOString()
+      }, {
+        onConflict: 'paper_id,model_provider,model_name,template_id,template_version'
+      });
+
+    if (error) {
+      throw new Error(`Failed to save template analysis: ${error.message}`);
+    }
+  }
+
+  private async getTemplateRow(userId: string, id: string): Promise<TemplateRow | null> {
+    const { data, error } = await this.supabase
+      .from(TEMPLATES_TABLE)
+      .select('id, name, description, current_version, created_at, updated_at')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    // 22P02: the id isn't a UUID, so no template has it
+    if (error && error.code !== '22P02') {
+      throw new Error(`Failed to load prompt template: ${error.message}`);
+    }
+
+    return (data as TemplateRow | null) || null;
+  }
+
+  private async insertVersion(templateId: string, version: number, systemPrompt: string, userPrompt: string): Promise<VersionRow> {
+    const { data, error } = await this.supabase
+      .from(VERSIONS_TABLE)
+      .insert({
+        template_id: templateId,
+        version,
+        system_prompt: systemPrompt,
+        user_prompt: userPrompt
+      })
+      .select('version, system_prompt, user_prompt, created_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save prompt template version: ${error.message}`);
+    }
+
+    return data as VersionRow;
+  }
+}
+
+function mapVersion(row: VersionRow): PromptTemplateVersion {
+  return {
+    version: row.version,
+    systemPrompt: row.system_prompt,
+    userPrompt: row.user_prompt,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+function mapTemplate(row: TemplateRow, version: VersionRow): PromptTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    version: version.version,
+    systemPrompt: version.system_prompt,
+    userPrompt: version.user_prompt,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
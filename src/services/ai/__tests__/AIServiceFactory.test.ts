@@ -3,6 +3,7 @@ import { OpenAIService } from '../OpenAIService';
 import { AnthropicService } from '../AnthropicService';
 import { XAIService } from '../XAIService';
 import { GeminiService } from '../GeminiService';
+import { OpenAICompatibleService } from '../OpenAICompatibleService';
 
 describe('AIServiceFactory', () => {
   const mockApiKey = 'test-api-key';
@@ -48,6 +49,29 @@ describe('AIServiceFactory', () => {
       expect(service.getProvider()).toBe('gemini');
     });
 
+    it('should create a self-hosted service without an API key', () => {
+      const service = AIServiceFactory.createService({
+        provider: 'openai-compatible',
+        apiKey: '',
+        baseUrl: 'http://localhost:11434',
+        modelName: 'llama3.1'
+      });
+
+      expect(service).toBeInstanceOf(OpenAICompatibleService);
+      expect(service.getProvider()).toBe('openai-compatible');
+      expect(service.getModelName()).toBe('llama3.1');
+      expect((service as OpenAICompatibleService).getBaseUrl()).toBe('http://localhost:11434/v1');
+    });
+
+    it('should throw error for a self-hosted service without a base URL', () => {
+      expect(() => {
+        AIServiceFactory.createService({
+          provider: 'openai-compatible',
+          apiKey: ''
+        });
+      }).toThrow('Base URL is required for openai-compatible service');
+    });
+
     it('should throw error for unsupported provider', () => {
       expect(() => {
         AIServiceFactory.createService({
@@ -110,7 +134,7 @@ describe('AIServiceFactory', () => {
     it('should return all available providers', () => {
       const providers = AIServiceFactory.getAvailableProviders();
       
-      expect(providers).toEqual(['openai', 'anthropic', 'xai', 'gemini']);
+      expect(providers).toEqual(['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']);
     });
   });
 
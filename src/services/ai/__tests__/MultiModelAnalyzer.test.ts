@@ -1,6 +1,7 @@
 import { MultiModelAnalyzer } from '../MultiModelAnalyzer';
 import { BaseAIService } from '../BaseAIService';
 import { AIProvider } from '../AIServiceFactory';
+import { PromptCompletion, StructuredPrompt } from '../structuredAnalysis';
 
 // Mock AI service for testing
 class MockAIService extends BaseAIService {
@@ -28,6 +29,22 @@ class MockAIService extends BaseAIService {
     };
   }
 
+  protected async complete(prompt: StructuredPrompt): Promise<PromptCompletion> {
+    return {
+      content: JSON.stringify({
+        summary: `Mock summary from ${this.provider}`,
+        keywords: [`keyword1-${this.provider}`, `keyword2-${this.provider}`],
+        keyFindings: ['Finding one', 'Finding two'],
+        methodology: 'Controlled experiment',
+        limitations: ['Small sample'],
+        significance: 'Advances the field',
+        scores: { novelty: 8, methodology: 7, impact: 9, clarity: 8 }
+      }),
+      tokensUsed: 100,
+      cost: 0.01
+    };
+  }
+
   async validateApiKey(key: string): Promise<boolean> {
     return true;
   }
@@ -75,6 +92,20 @@ describe('MultiModelAnalyzer', () => {
       expect(result.completedAt).toBeInstanceOf(Date);
     });
 
+    it('should return the structured fields from each model', async () => {
+      const result = await analyzer.analyzePaper(mockPaper, ['openai']);
+
+      expect(result.openai?.summary).toBe('Mock summary from openai');
+      expect(result.openai?.keyFindings).toEqual(['Finding one', 'Finding two']);
+      expect(result.openai?.methodology).toBe('Controlled experiment');
+      expect(result.openai?.limitations).toEqual(['Small sample']);
+      expect(result.openai?.significance).toBe('Advances the field');
+      expect(result.openai?.scientificRelevance).toMatchObject({
+        scores: { novelty: 8, methodology: 7, impact: 9, clarity: 8 }
+      });
+      expect(result.openai?.tokensUsed).toBe(100);
+    });
+
     it('should analyze paper with selected providers only', async () => {
       const result = await analyzer.analyzePaper(mockPaper, ['openai']);
 
@@ -86,7 +117,7 @@ describe('MultiModelAnalyzer', () => {
     it('should handle analysis failures gracefully', async () => {
       // Create a service that throws an error
       const failingService = new MockAIService('failing');
-      failingService.summarize = jest.fn().mockRejectedValue(new Error('API Error'));
+      failingService.analyzeStructured = jest.fn().mockRejectedValue(new Error('API Error'));
       
       mockServices.set('openai', failingService);
       analyzer = new MultiModelAnalyzer(mockServices);
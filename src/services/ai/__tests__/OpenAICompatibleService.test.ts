@@ -0,0 +1,149 @@
+import {
+  OpenAICompatibleConfigError,
+  OpenAICompatibleService,
+  assertPublicBaseUrl,
+  isPrivateHost,
+  listOpenAICompatibleModels,
+  normalizeBaseUrl
+} from '../OpenAICompatibleService';
+
+const validAnalysis = {
+  summary: 'The paper studies transformers on small datasets.',
+  keywords: ['transformers', 'small data'],
+  keyFindings: ['Pretraining helps'],
+  methodology: 'Benchmarks on five datasets',
+  limitations: ['Only English text'],
+  significance: 'Lowers the data needed for good results',
+  scores: { novelty: 7, methodology: 8, impact: 6, clarity: 9 }
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body
+  } as Response;
+}
+
+describe('normalizeBaseUrl', () => {
+  it('adds /v1 to a bare host and drops trailing slashes', () => {
+    expect(normalizeBaseUrl(' http://localhost:11434/ ')).toBe('http://localhost:11434/v1');
+    expect(normalizeBaseUrl('https://llm.lab.example/openai/v1//')).toBe('https://llm.lab.example/openai/v1');
+  });
+
+  it('rejects URLs that are not http(s)', () => {
+    expect(() => normalizeBaseUrl('localhost:11434')).toThrow(OpenAICompatibleConfigError);
+    expect(() => normalizeBaseUrl('ftp://models.example')).toThrow('Base URL must start with http:// or https://');
+  });
+});
+
+describe('assertPublicBaseUrl', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.OPENAI_COMPATIBLE_ALLOWED_HOSTS;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('accepts public hosts', () => {
+    expect(assertPublicBaseUrl('https://llm.lab.example/')).toBe('https://llm.lab.example/v1');
+    expect(assertPublicBaseUrl('http://8.8.8.8:8000/v1')).toBe('http://8.8.8.8:8000/v1');
+  });
+
+  it('refuses loopback, private and link-local hosts', () => {
+    for (const url of [
+      'http://localhost:11434',
+      'http://127.0.0.1:8000',
+      'http://2130706433',
+      'http://10.1.2.3',
+      'http://172.20.0.5',
+      'http://192.168.1.10',
+      'http://169.254.169.254/latest',
+      'http://0.0.0.0',
+      'http://[::1]:8000',
+      'http://[::ffff:127.0.0.1]',
+      'http://[fd12:3456::1]',
+      'http://[fe80::1]'
+    ]) {
+      expect(() => assertPublicBaseUrl(url)).toThrow(OpenAICompatibleConfigError);
+    }
+  });
+
+  it('accepts private hosts listed in OPENAI_COMPATIBLE_ALLOWED_HOSTS', () => {
+    process.env.OPENAI_COMPATIBLE_ALLOWED_HOSTS = 'localhost, 10.0.0.7';
+
+    expect(assertPublicBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+    expect(assertPublicBaseUrl('http://10.0.0.7:8000/v1')).toBe('http://10.0.0.7:8000/v1');
+    expect(() => assertPublicBaseUrl('http://10.0.0.8:8000/v1')).toThrow('is not allowed');
+  });
+});
+
+describe('isPrivateHost', () => {
+  it('leaves public addresses and names alone', () => {
+    expect(isPrivateHost('172.32.0.1')).toBe(false);
+    expect(isPrivateHost('[2001:db8::1]')).toBe(false);
+    expect(isPrivateHost('models.example')).toBe(false);
+  });
+});
+
+describe('OpenAICompatibleService', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('lists model ids, sending the key only when there is one', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ data: [{ id: 'qwen2.5' }, { id: 'llama3.1' }, {}] }));
+
+    await expect(listOpenAICompatibleModels('http://localhost:11434')).resolves.toEqual(['llama3.1', 'qwen2.5']);
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/models', {
+      headers: {},
+      signal: expect.any(AbortSignal)
+    });
+  });
+
+  it('runs the structured analysis against the server at no cost', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      choices: [{ message: { content: JSON.stringify(validAnalysis) } }],
+      usage: { total_tokens: 900 }
+    }));
+    const service = new OpenAICompatibleService('', 'llama3.1', 'http://gpu-box:8000/v1');
+
+    const result = await service.analyzeStructured({ title: 'Paper A', authors: ['A. Author'], abstract: 'About things' });
+
+    expect(result.tokensUsed).toBe(900);
+    expect(result.cost).toBe(0);
+    expect(service.getLastUsageStats().cost).toBe(0);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://gpu-box:8000/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.1' });
+  });
+
+  it('falls back to the first model the server lists', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: [{ id: 'mistral' }] }))
+      .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { content: 'A summary' } }] }));
+    const service = new OpenAICompatibleService('secret-key', '', 'http://localhost:1234/v1');
+
+    await expect(service.summarize('Paper text')).resolves.toBe('A summary');
+    expect(service.getModelName()).toBe('mistral');
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ 'Authorization': 'Bearer secret-key' });
+  });
+
+  it('reports an unreachable server as invalid', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const service = new OpenAICompatibleService('', 'llama3.1', 'http://localhost:11434');
+
+    await expect(service.validateApiKey('')).resolves.toBe(false);
+  });
+});
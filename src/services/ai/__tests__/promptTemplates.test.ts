@@ -0,0 +1,254 @@
+import { BaseAIService } from '../BaseAIService';
+import { MultiModelAnalyzer } from '../MultiModelAnalyzer';
+import { PromptTemplateService } from '../PromptTemplateService';
+import type { AIProvider } from '../AIServiceFactory';
+import type { PromptCompletion, StructuredPrompt } from '../structuredAnalysis';
+import { createSupabaseMock, type MockQuery } from '@/lib/__mocks__/supabase-client';
+import {
+  DEFAULT_TEMPLATE_SYSTEM_PROMPT,
+  PromptTemplateError,
+  TEMPLATE_PRESETS,
+  findTemplateVariables,
+  renderPromptTemplate,
+  validatePromptTemplate,
+  type PromptTemplate
+} from '../promptTemplates';
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  TABLES: { PAPERS: 'papers', USER_EVALUATIONS: 'user_evaluations', AI_ANALYSES: 'ai_analyses' }
+}));
+
+jest.mock('@/services/extraction/PaperTextExtractionService', () => ({
+  PaperTextExtractionService: jest.fn().mockImplementation(() => ({
+    getAnalysisText: jest.fn().mockResolvedValue('Extracted body text')
+  }))
+}));
+
+// Replies with a fixed report and records the prompts it got
+class ReportingAIService extends BaseAIService {
+  prompts: Array<{ prompt: StructuredPrompt; format: string }> = [];
+
+  constructor(private provider: string, private reply = 'Report text') {
+    super('test-key', `${provider}-model`);
+  }
+
+  protected async complete(prompt: StructuredPrompt, format: 'json' | 'text'): Promise<PromptCompletion> {
+    this.prompts.push({ prompt, format });
+    return { content: this.reply, tokensUsed: 80, cost: 0.002 };
+  }
+
+  async summarize(): Promise<string> {
+    return '';
+  }
+
+  async extractKeywords(): Promise<string[]> {
+    return [];
+  }
+
+  async analyzeRelevance(): Promise<unknown> {
+    return {};
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    return true;
+  }
+
+  getProvider(): string {
+    return this.provider;
+  }
+
+  getLastUsageStats() {
+    return { tokensUsed: 0, processingTimeMs: 0, cost: 0 };
+  }
+
+  protected calculateCost(): number {
+    return 0;
+  }
+}
+
+const template: PromptTemplate = {
+  id: 'template-1',
+  name: 'Reproducibility checklist',
+  version: 3,
+  systemPrompt: DEFAULT_TEMPLATE_SYSTEM_PROMPT,
+  userPrompt: 'Check {{title}}.\n\nNotes: {{notes}}\n\n{{fullText}}',
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-02-01')
+};
+
+describe('prompt templates', () => {
+  it('lists the variables a template uses', () => {
+    expect(findTemplateVariables('{{title}} and {{ abstract }} then {{title}} and {{custom}}'))
+      .toEqual(['title', 'abstract', 'custom']);
+  });
+
+  it('validates and trims a template, defaulting the system prompt', () => {
+    expect(validatePromptTemplate({ name: '  Rigor ', userPrompt: ' Review {{abstract}} ', description: ' ' })).toEqual({
+      name: 'Rigor',
+      description: undefined,
+      systemPrompt: DEFAULT_TEMPLATE_SYSTEM_PROMPT,
+      userPrompt: 'Review {{abstract}}'
+    });
+  });
+
+  it('rejects missing fields and unknown variables', () => {
+    expect(() => validatePromptTemplate({ name: '', userPrompt: 'x' })).toThrow(PromptTemplateError);
+    expect(() => validatePromptTemplate({ name: 'x', userPrompt: ' ' })).toThrow('Template prompt is required');
+    expect(() => validatePromptTemplate({ name: 'x', userPrompt: 'Use {{doi}} and {{journal}}' }))
+      .toThrow('Unknown variables {{doi}}, {{journal}}');
+  });
+
+  it('ships presets that validate', () => {
+    for (const preset of TEMPLATE_PRESETS) {
+      expect(() => validatePromptTemplate(preset)).not.toThrow();
+    }
+  });
+
+  it('fills variables and marks missing values', () => {
+    const prompt = renderPromptTemplate(template, { title: 'Paper A', fullText: 'Body' });
+
+    expect(prompt.system).toBe(DEFAULT_TEMPLATE_SYSTEM_PROMPT);
+    expect(prompt.user).toBe('Check Paper A.\n\nNotes: (not available)\n\nBody');
+  });
+
+  it('truncates long full text', () => {
+    const prompt = renderPromptTemplate(template, { title: 'Paper A', fullText: 'x'.repeat(30000) });
+
+    expect(prompt.user).toContain('[...truncated]');
+    expect(prompt.user.length).toBeLessThan(25000);
+  });
+});
+
+describe('BaseAIService.analyzeWithTemplate', () => {
+  it('sends the rendered prompt as a text request', async () => {
+    const service = new ReportingAIService('openai', '  The paper passes 5 of 7 checks.  ');
+
+    const result = await service.analyzeWithTemplate(template, { title: 'Paper A', notes: 'Aim 1' });
+
+    expect(result.output).toBe('The paper passes 5 of 7 checks.');
+    expect(result.tokensUsed).toBe(80);
+    expect(service.prompts[0].format).toBe('text');
+    expect(service.prompts[0].prompt.user).toContain('Notes: Aim 1');
+  });
+
+  it('rejects an empty reply', async () => {
+    const service = new ReportingAIService('openai', '   ');
+
+    await expect(service.analyzeWithTemplate(template, {})).rejects.toThrow('empty reply');
+  });
+});
+
+describe('MultiModelAnalyzer.analyzePaperWithTemplate', () => {
+  it('tags each model result with the template version', async () => {
+    const failing = new ReportingAIService('anthropic');
+    failing.analyzeWithTemplate = jest.fn().mockRejectedValue(new Error('API Error'));
+    const analyzer = new MultiModelAnalyzer(new Map<AIProvider, BaseAIService>([
+      ['openai', new ReportingAIService('openai')],
+      ['anthropic', failing]
+    ]));
+
+    const result = await analyzer.analyzePaperWithTemplate('paper-1', template, { title: 'Paper A' });
+
+    expect(result.openai).toMatchObject({
+      paperId: 'paper-1',
+      modelName: 'openai-model',
+      summary: 'Report text',
+      keywords: [],
+      templateId: 'template-1',
+      templateVersion: 3
+    });
+    expect(result.anthropic).toBeUndefined();
+  });
+});
+
+describe('PromptTemplateService', () => {
+  const templateRow = {
+    id: 'template-1',
+    name: 'Reproducibility checklist',
+    description: null,
+    current_version: 3,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-02-01T00:00:00Z'
+  };
+  const versionRow = {
+    version: 3,
+    system_prompt: DEFAULT_TEMPLATE_SYSTEM_PROMPT,
+    user_prompt: 'Check {{title}}.',
+    created_at: '2026-02-01T00:00:00Z'
+  };
+
+  function respondWithTemplate({ table, calls }: MockQuery) {
+    const inserting = calls.find(([method]) => method === 'insert');
+    const updating = calls.find(([method]) => method === 'update');
+    if (table === 'analysis_prompt_template_versions') {
+      if (inserting) {
+        const row = inserting[1][0] as { version: number; system_prompt: string; user_prompt: string };
+        return { data: { ...row, created_at: '2026-03-01T00:00:00Z' }, error: null };
+      }
+      return { data: versionRow, error: null };
+    }
+    if (updating) {
+      const changes = updating[1][0] as { name: string; current_version: number };
+      return { data: { ...templateRow, ...changes }, error: null };
+    }
+    return { data: templateRow, error: null };
+  }
+
+  it('adds a version when the prompt changes', async () => {
+    const { client, queries } = createSupabaseMock(respondWithTemplate);
+
+    const updated = await new PromptTemplateService(client).updateTemplate('user-1', 'template-1', {
+      name: 'Reproducibility checklist',
+      userPrompt: 'Check {{title}} and {{abstract}}.'
+    });
+
+    expect(updated?.version).toBe(4);
+    expect(updated?.userPrompt).toBe('Check {{title}} and {{abstract}}.');
+    const insert = queries.find(query => query.calls.some(([method]) => method === 'insert'));
+    expect(insert?.calls.find(([method]) => method === 'insert')?.[1][0]).toMatchObject({
+      template_id: 'template-1',
+      version: 4
+    });
+  });
+
+  it('keeps the version when only the name changes', async () => {
+    const { client, queries } = createSupabaseMock(respondWithTemplate);
+
+    const updated = await new PromptTemplateService(client).updateTemplate('user-1', 'template-1', {
+      name: 'Repro checklist',
+      userPrompt: 'Check {{title}}.'
+    });
+
+    expect(updated).toMatchObject({ name: 'Repro checklist', version: 3 });
+    expect(queries.some(query => query.calls.some(([method]) => method === 'insert'))).toBe(false);
+  });
+
+  it('returns null for a template the user does not have', async () => {
+    const { client } = createSupabaseMock(() => ({ data: null }));
+
+    await expect(new PromptTemplateService(client).updateTemplate('user-1', 'missing', {
+      name: 'x',
+      userPrompt: 'y'
+    })).resolves.toBeNull();
+  });
+
+  it('leaves out papers the user does not own', async () => {
+    const { client } = createSupabaseMock(({ table }) => {
+      if (table === 'papers') {
+        return { data: [{ id: 'paper-1', title: 'Paper A', abstract: null }], error: null };
+      }
+      return { data: [{ paper_id: 'paper-1', notes: 'Relevant to aim 2' }], error: null };
+    });
+
+    const values = await new PromptTemplateService(client).getTemplateValues('user-1', ['paper-1', 'paper-2']);
+
+    expect(Array.from(values.keys())).toEqual(['paper-1']);
+    expect(values.get('paper-1')).toEqual({
+      title: 'Paper A',
+      abstract: undefined,
+      fullText: 'Extracted body text',
+      notes: 'Relevant to aim 2'
+    });
+  });
+});
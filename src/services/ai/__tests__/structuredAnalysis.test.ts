@@ -0,0 +1,176 @@
+import { BaseAIService } from '../BaseAIService';
+import {
+  PromptCompletion,
+  StructuredAnalysisError,
+  StructuredPrompt,
+  buildStructuredAnalysisPrompt,
+  formatPaperForAnalysis,
+  MAX_CONTENT_CHARS,
+  parseStructuredAnalysis,
+  readStructuredFields
+} from '../structuredAnalysis';
+
+const validAnalysis = {
+  summary: 'The paper studies transformers on small datasets.',
+  keywords: ['transformers', 'small data'],
+  keyFindings: ['Pretraining helps'],
+  methodology: 'Benchmarks on five datasets',
+  limitations: ['Only English text'],
+  significance: 'Lowers the data needed for good results',
+  scores: { novelty: 7, methodology: 8, impact: 6, clarity: 9 }
+};
+
+// Replies with each scripted output in turn and records the prompts it got
+class ScriptedAIService extends BaseAIService {
+  prompts: StructuredPrompt[] = [];
+
+  constructor(private outputs: string[]) {
+    super('test-key', 'test-model');
+  }
+
+  protected async complete(prompt: StructuredPrompt): Promise<PromptCompletion> {
+    this.prompts.push(prompt);
+    return { content: this.outputs[this.prompts.length - 1] ?? '', tokensUsed: 50, cost: 0.001 };
+  }
+
+  async summarize(): Promise<string> {
+    return '';
+  }
+
+  async extractKeywords(): Promise<string[]> {
+    return [];
+  }
+
+  async analyzeRelevance(): Promise<unknown> {
+    return {};
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    return true;
+  }
+
+  getProvider(): string {
+    return 'scripted';
+  }
+
+  getLastUsageStats() {
+    return { tokensUsed: 0, processingTimeMs: 0, cost: 0 };
+  }
+
+  protected calculateCost(): number {
+    return 0;
+  }
+}
+
+const paper = {
+  title: 'Transformers for Small Data',
+  authors: ['A. Author', 'B. Author'],
+  abstract: 'We study transformers.'
+};
+
+describe('parseStructuredAnalysis', () => {
+  it('accepts a valid analysis', () => {
+    const result = parseStructuredAnalysis(JSON.stringify(validAnalysis));
+
+    expect(result).toEqual({ success: true, data: validAnalysis });
+  });
+
+  it('reads JSON wrapped in code fences and commentary', () => {
+    const output = `Here is the analysis:\n\`\`\`json\n${JSON.stringify(validAnalysis)}\n\`\`\`\nHope this helps.`;
+
+    expect(parseStructuredAnalysis(output).success).toBe(true);
+  });
+
+  it('coerces and rounds numeric scores', () => {
+    const result = parseStructuredAnalysis(JSON.stringify({
+      ...validAnalysis,
+      scores: { novelty: '7', methodology: 7.6, impact: 6, clarity: 9 }
+    }));
+
+    expect(result.success && result.data.scores).toEqual({ novelty: 7, methodology: 8, impact: 6, clarity: 9 });
+  });
+
+  it('reports invalid JSON', () => {
+    const result = parseStructuredAnalysis('{"summary": ');
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/invalid JSON/);
+  });
+
+  it('reports the fields that fail the schema', () => {
+    const result = parseStructuredAnalysis(JSON.stringify({
+      ...validAnalysis,
+      keyFindings: [],
+      scores: { ...validAnalysis.scores, impact: 12 }
+    }));
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('keyFindings');
+    expect(!result.success && result.error).toContain('scores.impact');
+  });
+});
+
+describe('formatPaperForAnalysis', () => {
+  it('truncates long full text', () => {
+    const text = formatPaperForAnalysis({ ...paper, content: 'x'.repeat(MAX_CONTENT_CHARS + 100) });
+
+    expect(text).toContain('Title: Transformers for Small Data');
+    expect(text).toContain('Authors: A. Author, B. Author');
+    expect(text).toContain('[...truncated]');
+    expect(text.length).toBeLessThan(MAX_CONTENT_CHARS + 500);
+  });
+});
+
+describe('BaseAIService.analyzeStructured', () => {
+  it('returns the analysis from the first valid reply', async () => {
+    const service = new ScriptedAIService([JSON.stringify(validAnalysis)]);
+
+    const result = await service.analyzeStructured(paper);
+
+    expect(result.analysis).toEqual(validAnalysis);
+    expect(result.attempts).toBe(1);
+    expect(result.tokensUsed).toBe(50);
+    expect(service.prompts[0]).toEqual(buildStructuredAnalysisPrompt(paper));
+  });
+
+  it('asks the model to repair an invalid reply', async () => {
+    const service = new ScriptedAIService(['not json at all', JSON.stringify(validAnalysis)]);
+
+    const result = await service.analyzeStructured(paper);
+
+    expect(result.attempts).toBe(2);
+    expect(result.tokensUsed).toBe(100);
+    expect(result.cost).toBeCloseTo(0.002);
+    expect(service.prompts[1].user).toContain('not json at all');
+    expect(service.prompts[1].user).toContain('invalid JSON');
+    expect(service.prompts[1].user).not.toContain('We study transformers.');
+  });
+
+  it('throws once every attempt is invalid', async () => {
+    const service = new ScriptedAIService(['{}', '{}', '{}', JSON.stringify(validAnalysis)]);
+
+    await expect(service.analyzeStructured(paper)).rejects.toBeInstanceOf(StructuredAnalysisError);
+    expect(service.prompts).toHaveLength(3);
+  });
+});
+
+describe('readStructuredFields', () => {
+  it('reads the structured fields stored with an analysis', () => {
+    expect(readStructuredFields(validAnalysis)).toEqual({
+      keyFindings: validAnalysis.keyFindings,
+      methodology: validAnalysis.methodology,
+      limitations: validAnalysis.limitations,
+      significance: validAnalysis.significance
+    });
+  });
+
+  it('leaves fields out for older free-form relevance', () => {
+    expect(readStructuredFields({ score: 0.8, methodology: 7 })).toEqual({
+      keyFindings: undefined,
+      methodology: undefined,
+      limitations: undefined,
+      significance: undefined
+    });
+    expect(readStructuredFields(null)).toEqual({});
+  });
+});
@@ -34,14 +34,14 @@ async function singleServiceExample() {
     });
 
     // Use the service to analyze a paper
-    const summary = await openaiService.summarize(examplePaper.abstract || '');
-    const keywords = await openaiService.extractKeywords(examplePaper.abstract || '');
-    const relevance = await openaiService.analyzeRelevance(examplePaper.abstract || '');
+    const { analysis, attempts } = await openaiService.analyzeStructured(examplePaper);
 
     console.log('OpenAI Analysis Results:');
-    console.log('Summary:', summary);
-    console.log('Keywords:', keywords);
-    console.log('Relevance:', relevance);
+    console.log('Summary:', analysis.summary);
+    console.log('Keywords:', analysis.keywords);
+    console.log('Key Findings:', analysis.keyFindings);
+    console.log('Scores:', analysis.scores);
+    console.log('Attempts:', attempts);
     console.log('Usage Stats:', openaiService.getLastUsageStats());
   } catch (error) {
     console.error('Single service example failed:', error);
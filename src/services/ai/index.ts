@@ -2,11 +2,47 @@
 export { BaseAIService } from './BaseAIService';
 export type { AIAnalysisResult, MultiModelAnalysis } from './BaseAIService';
 
+// Structured analysis schema
+export {
+  StructuredAnalysisSchema,
+  StructuredAnalysisError,
+  formatPaperForAnalysis,
+  parseStructuredAnalysis,
+  readStructuredFields
+} from './structuredAnalysis';
+export type { AnalyzablePaper, StructuredAnalysis, StructuredAnalysisResult } from './structuredAnalysis';
+
+// User-defined prompt templates
+export {
+  TEMPLATE_VARIABLES,
+  TEMPLATE_PRESETS,
+  PromptTemplateError,
+  renderPromptTemplate,
+  validatePromptTemplate
+} from './promptTemplates';
+export type {
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateVersion,
+  TemplateAnalysisResult,
+  TemplateValues
+} from './promptTemplates';
+export { PromptTemplateService } from './PromptTemplateService';
+
 // Concrete service implementations
 export { OpenAIService } from './OpenAIService';
 export { AnthropicService } from './AnthropicService';
 export { XAIService } from './XAIService';
 export { GeminiService } from './GeminiService';
+export {
+  OpenAICompatibleService,
+  OpenAICompatibleConfigError,
+  assertPublicBaseUrl,
+  isPrivateHost,
+  listOpenAICompatibleModels,
+  normalizeBaseUrl
+} from './OpenAICompatibleService';
+export type { OpenAICompatibleEndpoint } from './OpenAICompatibleService';
 
 // Factory and analyzer
 export { AIServiceFactory } from './AIServiceFactory';
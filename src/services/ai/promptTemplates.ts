@@ -0,0 +1,193 @@
+import { MAX_CONTENT_CHARS, type StructuredPrompt } from './structuredAnalysis';
+
+/**
+ * Paper fields a template can reference as {{name}}
+ */
+export const TEMPLATE_VARIABLES = ['title', 'abstract', 'fullText', 'notes'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+/**
+ * A template at one version. Analyses record the id and version they ran with.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  createdAt: Date;
+}
+
+/**
+ * The outcome of `analyzeWithTemplate`
+ */
+export interface TemplateAnalysisResult {
+  output: string;
+  tokensUsed: number;
+  cost: number;
+  processingTimeMs: number;
+}
+
+export interface PromptTemplateInput {
+  name: string;
+  description?: string;
+  // Defaults to DEFAULT_TEMPLATE_SYSTEM_PROMPT when empty
+  systemPrompt?: string;
+  userPrompt: string;
+}
+
+/**
+ * The template is missing a field, too long or uses an unknown variable
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export const DEFAULT_TEMPLATE_SYSTEM_PROMPT = 'You are a scientific paper analysis assistant. Answer in clear, well-structured prose and base every statement on the paper provided.';
+
+const MAX_NAME_LENGTH = 255;
+const MAX_PROMPT_LENGTH = 20000;
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+const MISSING_VALUE = '(not available)';
+
+/**
+ * Starting points offered when creating a template
+ */
+export const TEMPLATE_PRESETS: PromptTemplateInput[] = [
+  {
+    name: 'Statistical rigor review',
+    description: 'Sample sizes, tests, effect sizes and multiple-comparison handling',
+    userPrompt: `Review the statistical rigor of this paper. Cover sample size and power, the choice of statistical tests, effect sizes and confidence intervals, corrections for multiple comparisons, and any signs of p-hacking or selective reporting. Finish with an overall rating (weak, adequate or strong) and the single most important fix.
+
+Title: {{title}}
+
+Abstract: {{abstract}}
+
+Full text:
+{{fullText}}`
+  },
+  {
+    name: 'Reproducibility checklist',
+    description: 'Whether the work could be reproduced from what is published',
+    userPrompt: `Go through this reproducibility checklist for the paper, answering yes, no or unclear for each item with a one-line justification:
+- Data is available or its source is identified
+- Code is available
+- Software versions and dependencies are given
+- Hyperparameters and settings are reported
+- Random seeds or run-to-run variance are reported
+- Evaluation protocol is fully described
+- Compute requirements are stated
+
+Title: {{title}}
+
+Abstract: {{abstract}}
+
+Full text:
+{{fullText}}`
+  },
+  {
+    name: 'Relevance to our grant aims',
+    description: 'How the paper bears on the aims written in your notes',
+    userPrompt: `Our grant aims and reading notes are below. Assess how this paper relates to each aim: what it contributes, what it contradicts, and whether we should cite or build on it. End with a relevance rating from 1 to 5.
+
+Aims and notes:
+{{notes}}
+
+Title: {{title}}
+
+Abstract: {{abstract}}
+
+Full text:
+{{fullText}}`
+  }
+];
+
+/**
+ * The distinct variable names a template text uses, in order of appearance
+ */
+export function findTemplateVariables(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+/**
+ * Trimmed template fields; throws PromptTemplateError when the template can't be saved
+ */
+export function validatePromptTemplate(input: PromptTemplateInput): PromptTemplateInput & { systemPrompt: string } {
+  const name = (input.name || '').trim();
+  const userPrompt = (input.userPrompt || '').trim();
+  const systemPrompt = (input.systemPrompt || '').trim() || DEFAULT_TEMPLATE_SYSTEM_PROMPT;
+  const description = (input.description || '').trim() || undefined;
+
+  if (!name) {
+    throw new PromptTemplateError('Template name is required');
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new PromptTemplateError(`Template name is longer than ${MAX_NAME_LENGTH} characters`);
+  }
+  if (!userPrompt) {
+    throw new PromptTemplateError('Template prompt is required');
+  }
+  if (userPrompt.length > MAX_PROMPT_LENGTH || systemPrompt.length > MAX_PROMPT_LENGTH) {
+    throw new PromptTemplateError(`Prompts are limited to ${MAX_PROMPT_LENGTH} characters`);
+  }
+
+  const unknown = [...findTemplateVariables(systemPrompt), ...findTemplateVariables(userPrompt)]
+    .filter(variable => !isTemplateVariable(variable));
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(
+      `Unknown variable${unknown.length > 1 ? 's' : ''} ${unknown.map(v => `{{${v}}}`).join(', ')}; ` +
+      `use ${TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(', ')}`
+    );
+  }
+
+  return { name, description, systemPrompt, userPrompt };
+}
+
+/**
+ * Fill a template's variables with a paper's values. Missing values read as
+ * "(not available)" so the model knows they were left out; full text is
+ * truncated to what the structured analysis sends.
+ */
+export function renderPromptTemplate(
+  template: Pick<PromptTemplate, 'systemPrompt' | 'userPrompt'>,
+  values: TemplateValues
+): StructuredPrompt {
+  const fill = (text: string) => text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!isTemplateVariable(name)) {
+      return placeholder;
+    }
+    let value = values[name]?.trim();
+    if (name === 'fullText' && value && value.length > MAX_CONTENT_CHARS) {
+      value = `${value.slice(0, MAX_CONTENT_CHARS)}\n[...truncated]`;
+    }
+    return value || MISSING_VALUE;
+  });
+
+  return {
+    system: fill(template.systemPrompt),
+    user: fill(template.userPrompt)
+  };
+}
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+
+/**
+ * A paper as sent to a model for analysis
+ */
+export interface AnalyzablePaper {
+  title: string;
+  authors: string[];
+  abstract?: string;
+  content?: string;
+}
+
+// Upper bound on full-text characters sent to a provider (~6k tokens)
+export const MAX_CONTENT_CHARS = 24000;
+
+// One request plus this many repair requests when the reply isn't valid
+export const MAX_STRUCTURED_ATTEMPTS = 3;
+
+const score = z.coerce.number().min(1).max(10).transform(Math.round);
+const text = z.string().trim().min(1);
+const textList = z.array(text);
+
+export const StructuredAnalysisSchema = z.object({
+  summary: text,
+  keywords: textList.min(1).max(20),
+  keyFindings: textList.min(1),
+  methodology: text,
+  limitations: textList,
+  significance: text,
+  scores: z.object({
+    novelty: score,
+    methodology: score,
+    impact: score,
+    clarity: score
+  })
+});
+
+export type StructuredAnalysis = z.infer<typeof StructuredAnalysisSchema>;
+
+/**
+ * The outcome of `analyzeStructured`: the validated analysis and what it cost
+ * across every attempt, including repairs
+ */
+export interface StructuredAnalysisResult {
+  analysis: StructuredAnalysis;
+  attempts: number;
+  tokensUsed: number;
+  cost: number;
+  processingTimeMs: number;
+}
+
+export interface StructuredPrompt {
+  system: string;
+  user: string;
+}
+
+/**
+ * One completion from a provider
+ */
+export interface PromptCompletion {
+  content: string;
+  tokensUsed: number;
+  cost: number;
+}
+
+/**
+ * The model's reply still didn't match the schema after every repair attempt
+ */
+export class StructuredAnalysisError extends Error {
+  constructor(message: string, public readonly rawOutput: string, public readonly attempts: number) {
+    super(message);
+    this.name = 'StructuredAnalysisError';
+  }
+}
+
+const SCHEMA_DESCRIPTION = `{
+  "summary": string (3-5 sentences),
+  "keywords": string[] (5-15 key terms and phrases),
+  "keyFindings": string[] (the main results, one sentence each),
+  "methodology": string (how the study was done),
+  "limitations": string[] (weaknesses or open questions; empty if none are apparent),
+  "significance": string (why the work matters to the field),
+  "scores": { "novelty": 1-10, "methodology": 1-10, "impact": 1-10, "clarity": 1-10 }
+}`;
+
+const SYSTEM_PROMPT = 'You are a scientific paper analysis assistant. Reply with a single JSON object and nothing else: no markdown, no code fences, no commentary.';
+
+/**
+ * Title, authors, abstract and (truncated) full text as one block of text
+ */
+export function formatPaperForAnalysis(paper: AnalyzablePaper): string {
+  const parts = [];
+
+  if (paper.title) {
+    parts.push(`Title: ${paper.title}`);
+  }
+
+  if (paper.authors && paper.authors.length > 0) {
+    parts.push(`Authors: ${paper.authors.join(', ')}`);
+  }
+
+  if (paper.abstract) {
+    parts.push(`Abstract: ${paper.abstract}`);
+  }
+
+  if (paper.content) {
+    const content = paper.content.length > MAX_CONTENT_CHARS
+      ? `${paper.content.slice(0, MAX_CONTENT_CHARS)}\n[...truncated]`
+      : paper.content;
+    parts.push(`Full Text:\n${content}`);
+  }
+
+  return parts.join('\n\n');
+}
+
+export function buildStructuredAnalysisPrompt(paper: AnalyzablePaper): StructuredPrompt {
+  return {
+    system: SYSTEM_PROMPT,
+    user: `Analyze this scientific paper and return a JSON object with exactly this structure:
+${SCHEMA_DESCRIPTION}
+
+Paper:
+
+${formatPaperForAnalysis(paper)}`
+  };
+}
+
+/**
+ * Ask the model to fix its previous reply. The paper itself isn't resent; the
+ * reply already holds the analysis and only its shape needs correcting.
+ */
+export function buildRepairPrompt(previousOutput: string, error: string): StructuredPrompt {
+  return {
+    system: SYSTEM_PROMPT,
+    user: `Your previous reply was not a valid analysis: ${error}
+
+Previous reply:
+${previousOutput.slice(0, 8000)}
+
+Return the corrected analysis as a single JSON object with exactly this structure:
+${SCHEMA_DESCRIPTION}`
+  };
+}
+
+/**
+ * The JSON object in a model reply, ignoring code fences and text around it
+ */
+export function extractJsonObject(output: string): string {
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : output;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate.trim();
+}
+
+export type ParsedStructuredAnalysis =
+  | { success: true; data: StructuredAnalysis }
+  | { success: false; error: string };
+
+/**
+ * Parse and validate a model reply against the analysis schema
+ */
+export function parseStructuredAnalysis(output: string): ParsedStructuredAnalysis {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJsonObject(output));
+  } catch (error) {
+    return { success: false, error: `invalid JSON (${error instanceof Error ? error.message : String(error)})` };
+  }
+
+  const result = StructuredAnalysisSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 10)
+      .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+    return { success: false, error: issues.join('; ') };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * The structured fields stored in an analysis's `scientific_relevance`, for
+ * analyses read back from the database. Older analyses have none.
+ */
+export function readStructuredFields(relevance: unknown): {
+  keyFindings?: string[];
+  methodology?: string;
+  limitations?: string[];
+  significance?: string;
+} {
+  if (!relevance || typeof relevance !== 'object') {
+    return {};
+  }
+
+  const value = relevance as Record<string, unknown>;
+  const strings = (list: unknown) =>
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : undefined;
+
+  return {
+    keyFindings: strings(value.keyFindings),
+    methodology: typeof value.methodology === 'string' ? value.methodology : undefined,
+    limitations: strings(value.limitations),
+    significance: typeof value.significance === 'string' ? value.significance : undefined
+  };
+}
@@ -0,0 +1,199 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import type { SupabaseVectorService } from '@/services/vector/SupabaseVectorService'
+import type { PaperArchiveReason } from '@/types'
+
+/**
+ * An archived paper as listed for admins
+ */
+export interface ArchivedPaper {
+  id: string
+  title: string
+  authors: string[]
+  zoteroKey?: string
+  ownerId?: string
+  archivedAt: Date
+  archiveReason: PaperArchiveReason
+}
+
+/**
+ * Where paper embeddings live: removed on archive, rebuilt on restore
+ */
+export type PaperEmbeddingStore = Pick<SupabaseVectorService, 'removePaperEmbedding' | 'reembedPaper'>
+
+interface ArchivedPaperRow {
+  id: string
+  title: string
+  authors: string[] | null
+  zotero_key: string | null
+  created_by: string | null
+  archived_at: string
+  archive_reason: PaperArchiveReason
+}
+
+const ARCHIVED_PAPER_COLUMNS = 'id, title, authors, zotero_key, created_by, archived_at, archive_reason'
+const KEY_CHUNK_SIZE = 200
+
+/**
+ * Soft-deletes papers whose Zotero items were deleted or trashed, and restores
+ * them. Archived papers keep their evaluations and analyses but lose their
+ * embeddings, so they drop out of search and RAG until restored.
+ */
+export class PaperArchiveService {
+  private supabase: SupabaseClient
+  private embeddings?: PaperEmbeddingStore
+
+  constructor(supabase?: SupabaseClient, embeddings?: PaperEmbeddingStore) {
+    this.supabase = supabase || getSupabaseClient()
+    this.embeddings = embeddings
+  }
+
+  /**
+   * Archive the papers of the given items of a Zotero library (its API path) and
+   * remove their embeddings. Papers synced before libraries were tracked match
+   * any library. Papers already archived are left as they are. Returns the
+   * archived papers' IDs.
+   */
+  async archiveZoteroItems(zoteroLibrary: string, zoteroKeys: string[], reason: PaperArchiveReason): Promise<string[]> {
+    const archivedIds: string[] = []
+
+    for (let i = 0; i < zoteroKeys.length; i += KEY_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .update({ archived_at: new Date().toISOString(), archive_reason: reason })
+        .in('zotero_key', zoteroKeys.slice(i, i + KEY_CHUNK_SIZE))
+        .or(`zotero_library.eq.${zoteroLibrary},zotero_library.is.null`)
+        .is('archived_at', null)
+        .select('id')
+
+      if (error) {
+        throw new Error(`Failed to archive papers: ${error.message}`)
+      }
+      archivedIds.push(...(data || []).map((row: { id: string }) => row.id))
+    }
+
+    if (archivedIds.length > 0) {
+      const embeddings = await this.getEmbeddingStore()
+      for (const paperId of archivedIds) {
+        try {
+          await embeddings.removePaperEmbedding(paperId)
+        } catch (error) {
+          console.error(`Failed to remove embeddings of archived paper ${paperId}:`, error)
+        }
+      }
+    }
+
+    return archivedIds
+  }
+
+  /**
+   * Restore archived papers whose items are back in the Zotero library.
+   * Returns the restored papers' IDs.
+   */
+  async restoreZoteroItems(zoteroLibrary: string, zoteroKeys: string[]): Promise<string[]> {
+    const restoredIds: string[] = []
+
+    for (let i = 0; i < zoteroKeys.length; i += KEY_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .update({ archived_at: null, archive_reason: null })
+        .in('zotero_key', zoteroKeys.slice(i, i + KEY_CHUNK_SIZE))
+        .or(`zotero_library.eq.${zoteroLibrary},zotero_library.is.null`)
+        .not('archived_at', 'is', null)
+        .select('id')
+
+      if (error) {
+        throw new Error(`Failed to restore papers: ${error.message}`)
+      }
+      restoredIds.push(...(data || []).map((row: { id: string }) => row.id))
+    }
+
+    await this.reembed(restoredIds)
+    return restoredIds
+  }
+
+  /**
+   * Archived papers of all users, most recently archived first
+   */
+  async listArchivedPapers(limit = 50, offset = 0): Promise<{ papers: ArchivedPaper[]; total: number }> {
+    const { data, error, count } = await this.supabase
+      .from(TABLES.PAPERS)
+      .select(ARCHIVED_PAPER_COLUMNS, { count: 'exact' })
+      .not('archived_at', 'is', null)
+      .order('archived_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      throw new Error(`Failed to load archived papers: ${error.message}`)
+    }
+
+    return {
+      papers: ((data || []) as ArchivedPaperRow[]).map(mapArchivedPaper),
+      total: count ?? 0
+    }
+  }
+
+  /**
+   * Put an archived paper back in its owner's library and embed it again.
+   * Returns false when there is no such archived paper.
+   */
+  async restorePaper(paperId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(TABLES.PAPERS)
+      .update({ archived_at: null, archive_reason: null })
+      .eq('id', paperId)
+      .not('archived_at', 'is', null)
+      .select('id')
+
+    if (error) {
+      if (error.code === '22P02') {
+        return false
+      }
+      throw new Error(`Failed to restore paper: ${error.message}`)
+    }
+    if (!data || data.length === 0) {
+      return false
+    }
+
+    await this.reembed([paperId])
+    return true
+  }
+
+  /**
+   * Embed restored papers again. Failures are logged and don't undo the restore.
+   */
+  private async reembed(paperIds: string[]): Promise<void> {
+    if (paperIds.length === 0) {
+      return
+    }
+
+    const embeddings = await this.getEmbeddingStore()
+    for (const paperId of paperIds) {
+      try {
+        await embeddings.reembedPaper(paperId)
+      } catch (error) {
+        console.error(`Failed to re-embed restored paper ${paperId}:`, error)
+      }
+    }
+  }
+
+  private async getEmbeddingStore(): Promise<PaperEmbeddingStore> {
+    if (!this.embeddings) {
+      const { SupabaseVectorService } = await import('@/services/vector/SupabaseVectorService')
+      this.embeddings = new SupabaseVectorService()
+    }
+    return this.embeddings
+  }
+}
+
+function mapArchivedPaper(row: ArchivedPaperRow): ArchivedPaper {
+  return {
+    id: row.id,
+    title: row.title,
+    authors: row.authors || [],
+    zoteroKey: row.zotero_key || undefined,
+    ownerId: row.created_by || undefined,
+    archivedAt: new Date(row.archived_at),
+    archiveReason: row.archive_reason
+  }
+}
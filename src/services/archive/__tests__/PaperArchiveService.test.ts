@@ -0,0 +1,114 @@
+import { PaperArchiveService } from '../PaperArchiveService'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  TABLES: { PAPERS: 'papers' }
+}))
+
+type QueryResult = { data: unknown; error: unknown; count?: number }
+
+// A chainable query that resolves to the given result however it's ended
+function query(result: QueryResult) {
+  const chain: any = {}
+  for (const method of ['select', 'update', 'eq', 'in', 'is', 'not', 'or', 'order', 'range']) {
+    chain[method] = jest.fn(() => chain)
+  }
+  chain.then = (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject)
+  return chain
+}
+
+function mockSupabase(queries: any[]) {
+  return { from: jest.fn(() => queries.shift()) } as any
+}
+
+function mockEmbeddings() {
+  return {
+    removePaperEmbedding: jest.fn(async () => undefined),
+    reembedPaper: jest.fn(async () => true)
+  }
+}
+
+describe('PaperArchiveService', () => {
+  it('archives the papers of a library\'s removed Zotero items and drops their embeddings', async () => {
+    const archive = query({ data: [{ id: 'paper-1' }, { id: 'paper-2' }], error: null })
+    const embeddings = mockEmbeddings()
+
+    const archived = await new PaperArchiveService(mockSupabase([archive]), embeddings)
+      .archiveZoteroItems('groups/4711', ['KEY1', 'KEY2', 'KEY3'], 'zotero_trashed')
+
+    expect(archived).toEqual(['paper-1', 'paper-2'])
+    expect(archive.update).toHaveBeenCalledWith(expect.objectContaining({ archive_reason: 'zotero_trashed' }))
+    expect(archive.in).toHaveBeenCalledWith('zotero_key', ['KEY1', 'KEY2', 'KEY3'])
+    expect(archive.or).toHaveBeenCalledWith('zotero_library.eq.groups/4711,zotero_library.is.null')
+    expect(archive.is).toHaveBeenCalledWith('archived_at', null)
+    expect(embeddings.removePaperEmbedding.mock.calls).toEqual([['paper-1'], ['paper-2']])
+  })
+
+  it('keeps archiving when removing an embedding fails', async () => {
+    const embeddings = mockEmbeddings()
+    embeddings.removePaperEmbedding.mockRejectedValueOnce(new Error('vector store down'))
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const archived = await new PaperArchiveService(
+      mockSupabase([query({ data: [{ id: 'paper-1' }, { id: 'paper-2' }], error: null })]),
+      embeddings
+    ).archiveZoteroItems('users/123', ['KEY1', 'KEY2'], 'zotero_deleted')
+
+    expect(archived).toEqual(['paper-1', 'paper-2'])
+    expect(embeddings.removePaperEmbedding).toHaveBeenCalledTimes(2)
+  })
+
+  it('restores papers whose Zotero items are back and embeds them again', async () => {
+    const restore = query({ data: [{ id: 'paper-1' }], error: null })
+    const embeddings = mockEmbeddings()
+
+    const restored = await new PaperArchiveService(mockSupabase([restore]), embeddings).restoreZoteroItems('users/123', ['KEY1', 'KEY9'])
+
+    expect(restored).toEqual(['paper-1'])
+    expect(restore.update).toHaveBeenCalledWith({ archived_at: null, archive_reason: null })
+    expect(restore.not).toHaveBeenCalledWith('archived_at', 'is', null)
+    expect(restore.or).toHaveBeenCalledWith('zotero_library.eq.users/123,zotero_library.is.null')
+    expect(embeddings.reembedPaper).toHaveBeenCalledWith('paper-1')
+  })
+
+  it('does not restore a paper that is not archived', async () => {
+    const embeddings = mockEmbeddings()
+
+    const restored = await new PaperArchiveService(mockSupabase([query({ data: [], error: null })]), embeddings)
+      .restorePaper('paper-1')
+
+    expect(restored).toBe(false)
+    expect(embeddings.reembedPaper).not.toHaveBeenCalled()
+  })
+
+  it('lists archived papers with the total', async () => {
+    const list = query({
+      data: [{
+        id: 'paper-1',
+        title: 'Attention Is All You Need',
+        authors: ['Vaswani'],
+        zotero_key: 'KEY1',
+        created_by: 'user-1',
+        archived_at: '2026-10-10T08:00:00Z',
+        archive_reason: 'zotero_deleted'
+      }],
+      error: null,
+      count: 51
+    })
+
+    const { papers, total } = await new PaperArchiveService(mockSupabase([list]), mockEmbeddings()).listArchivedPapers(1, 50)
+
+    expect(total).toBe(51)
+    expect(list.range).toHaveBeenCalledWith(50, 50)
+    expect(papers).toEqual([{
+      id: 'paper-1',
+      title: 'Attention Is All You Need',
+      authors: ['Vaswani'],
+      zoteroKey: 'KEY1',
+      ownerId: 'user-1',
+      archivedAt: new Date('2026-10-10T08:00:00Z'),
+      archiveReason: 'zotero_deleted'
+    }])
+  })
+})
@@ -0,0 +1,2 @@
+export { PaperArchiveService } from './PaperArchiveService'
+export type { ArchivedPaper, PaperEmbeddingStore } from './PaperArchiveService'
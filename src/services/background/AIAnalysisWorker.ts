@@ -1,4 +1,4 @@
-import { Worker, Job } from 'bullmq'
+import { Worker, Job, UnrecoverableError } from 'bullmq'
 import { 
   AIAnalysisWorker as IAIAnalysisWorker, 
   AnalysisJob, 
@@ -11,6 +11,8 @@ import { AIServiceFactory, MultiModelAnalyzer, MultiModelAnalysis } from '../ai'
 import { getSupabaseAdminClient, AIAnalysisInsert, Paper } from '../../lib/database'
 import { UserApiKeyService } from '../settings/UserApiKeyService'
 import { getNotificationService } from '../notifications'
+import { getPaperTextExtractionService } from '../extraction'
+import { AIBudgetService, AIBudgetExceededError } from '../usage/AIBudgetService'
 
 export class AIAnalysisWorker implements IAIAnalysisWorker {
   private worker: Worker | null = null
@@ -155,6 +157,7 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
       
       // Save results to database
       await this.saveAnalysisResults(jobData.paperId, results)
+      await this.recordAnalysisSpend(jobData.userId, jobData.paperId, results)
       
       await this.updateJobProgress(job.id!, 100, 'Analysis completed successfully')
       
@@ -220,7 +223,7 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
       throw new Error('User ID is required')
     }
     
-    const validProviders: AIProvider[] = ['openai', 'anthropic', 'gemini', 'xai']
+    const validProviders: AIProvider[] = ['openai', 'anthropic', 'gemini', 'xai', 'openai-compatible']
     const invalidProviders = jobData.providers.filter(p => !validProviders.includes(p))
     
     if (invalidProviders.length > 0) {
@@ -250,12 +253,20 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
         throw new Error(`Paper ${paperId} not found`)
       }
       
+      // Full text comes from the extraction stage; analysis still runs on metadata if it is missing
+      let content: string | undefined
+      try {
+        content = await getPaperTextExtractionService().getAnalysisText(paperId)
+      } catch (textError) {
+        console.warn(`No extracted text available for paper ${paperId}:`, textError)
+      }
+      
       return {
         id: paper.id,
         title: paper.title,
         authors: paper.authors || [],
         abstract: paper.abstract || undefined,
-        content: undefined // We don't store full content in the database yet
+        content
       }
     } catch (error) {
       throw new Error(`Failed to fetch paper content: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -268,13 +279,18 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
   private async createAIServices(userId: string, providers: AIProvider[]): Promise<Map<AIProvider, any>> {
     const services = new Map()
     const apiKeyService = new UserApiKeyService()
+    const budgetService = new AIBudgetService(getSupabaseAdminClient())
+    const budgetErrors: AIBudgetExceededError[] = []
     
     for (const provider of providers) {
       try {
-        // Get user's API key for this provider
-        const apiKey = await apiKeyService.getApiKey(userId, provider)
+        // Providers whose budget is spent are left out
+        await budgetService.assertWithinBudget(userId, provider)
+
+        // Get user's API key (and, for self-hosted models, server and model) for this provider
+        const credentials = await apiKeyService.getProviderCredentials(userId, provider)
         
-        if (!apiKey) {
+        if (!credentials) {
           console.warn(`No API key found for provider ${provider}`)
           continue
         }
@@ -289,7 +305,9 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
         // Create AI service
         const service = AIServiceFactory.createService({
           provider,
-          apiKey
+          apiKey: credentials.apiKey,
+          baseUrl: credentials.baseUrl,
+          modelName: credentials.modelName
         })
         
         services.set(provider, service)
@@ -298,10 +316,20 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
         // Increment usage count
         await apiKeyService.incrementUsage(userId, provider)
       } catch (error) {
+        if (error instanceof AIBudgetExceededError) {
+          console.warn(`Skipping provider ${provider}: ${error.message}`)
+          budgetErrors.push(error)
+          continue
+        }
         console.error(`Failed to create AI service for ${provider}:`, error)
       }
     }
     
+    // Retrying can't help until the budget resets
+    if (services.size === 0 && budgetErrors.length > 0) {
+      throw new UnrecoverableError(budgetErrors[0].message)
+    }
+    
     return services
   }
 
@@ -312,7 +340,7 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
     const results: AIAnalysisResult[] = []
     
     // Extract results from each provider
-    const providers: AIProvider[] = ['openai', 'anthropic', 'xai', 'gemini']
+    const providers: AIProvider[] = ['openai', 'anthropic', 'xai', 'gemini', 'openai-compatible']
     
     for (const provider of providers) {
       const analysisResult = multiModelAnalysis[provider]
@@ -320,16 +348,19 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
         results.push({
           paperId: analysisResult.paperId,
           provider,
+          modelName: analysisResult.modelName,
           analysis: {
             summary: analysisResult.summary,
-            keyFindings: analysisResult.keywords,
-            methodology: `Analysis performed using ${analysisResult.modelName}`,
-            limitations: [], // Could be extracted from scientificRelevance if available
-            significance: analysisResult.scientificRelevance ? 
-              JSON.stringify(analysisResult.scientificRelevance) : 
-              'Scientific relevance analysis completed'
+            keywords: analysisResult.keywords,
+            keyFindings: analysisResult.keyFindings || [],
+            methodology: analysisResult.methodology || '',
+            limitations: analysisResult.limitations || [],
+            significance: analysisResult.significance || '',
+            scores: analysisResult.scientificRelevance?.scores
           },
           confidence: analysisResult.confidenceScore,
+          tokensUsed: analysisResult.tokensUsed,
+          cost: analysisResult.cost,
           processingTime: analysisResult.processingTimeMs,
           completedAt: analysisResult.createdAt
         })
@@ -352,17 +383,19 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
       const analysisRecords: AIAnalysisInsert[] = results.map(result => ({
         paper_id: result.paperId,
         model_provider: result.provider as any,
-        model_name: `${result.provider}-model`, // We'll need to get actual model name from the service
+        model_name: result.modelName,
         summary: result.analysis.summary,
-        keywords: result.analysis.keyFindings,
+        keywords: result.analysis.keywords,
         scientific_relevance: {
+          scores: result.analysis.scores,
+          keyFindings: result.analysis.keyFindings,
           methodology: result.analysis.methodology,
           limitations: result.analysis.limitations,
           significance: result.analysis.significance
         },
         confidence_score: result.confidence,
         processing_time_ms: result.processingTime,
-        tokens_used: null, // We'll need to track this from the AI service
+        tokens_used: result.tokensUsed,
         created_at: result.completedAt.toISOString()
       }))
       
@@ -381,6 +414,28 @@ export class AIAnalysisWorker implements IAIAnalysisWorker {
     }
   }
 
+  /**
+   * Charge the analyses' cost to the user's AI budgets
+   */
+  private async recordAnalysisSpend(userId: string, paperId: string, results: AIAnalysisResult[]): Promise<void> {
+    const budgetService = new AIBudgetService(getSupabaseAdminClient())
+
+    for (const result of results) {
+      try {
+        await budgetService.recordSpend(userId, {
+          provider: result.provider as AIProvider,
+          costUsd: result.cost ?? 0,
+          tokensUsed: result.tokensUsed,
+          source: 'analysis',
+          paperId
+        })
+      } catch (error) {
+        // The analysis is saved; a missing spend record mustn't fail the job
+        console.error(`Failed to record AI spend of ${result.provider} for paper ${paperId}:`, error)
+      }
+    }
+  }
+
   /**
    * Notify user of analysis completion
    */
@@ -0,0 +1,117 @@
+import { Queue } from 'bullmq'
+import { checkSavedSearchAlerts } from '../search/SavedSearchAlerts'
+import { SavedSearchAlertJobData } from './types'
+import { getBackgroundJobConfig } from './config'
+
+const JOB_NAME = 'check-saved-search-alerts'
+
+/**
+ * Queues saved search alert checks of newly added papers, so they survive
+ * the request that added the papers and are retried when they fail. Without
+ * Redis, checks run right away in the request.
+ */
+export class SavedSearchAlertQueue {
+  private redis: any
+  private queue: Queue | null = null
+  private readonly config = getBackgroundJobConfig().savedSearchAlerts
+  private readonly ready: Promise<void>
+
+  constructor(redisUrl?: string) {
+    this.redis = null
+    this.ready = this.initializeRedis(redisUrl)
+  }
+
+  private async initializeRedis(redisUrl?: string): Promise<void> {
+    try {
+      // Never connect during build/static generation or in the browser
+      const isBuildTime = process.env.NEXT_PHASE === 'phase-production-build' ||
+                         typeof window !== 'undefined'
+
+      const redisConnectionUrl = redisUrl || process.env.REDIS_URL
+
+      if (isBuildTime || !redisConnectionUrl) {
+        const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+        this.redis = new MockRedis()
+        return
+      }
+
+      const Redis = (await import('ioredis')).default
+      this.redis = new Redis(redisConnectionUrl, {
+        maxRetriesPerRequest: 3,
+        lazyConnect: true
+      })
+
+      this.queue = new Queue(this.config.queueName, {
+        connection: this.redis,
+        defaultJobOptions: {
+          removeOnComplete: 100,
+          removeOnFail: 50,
+          attempts: this.config.attempts,
+          backoff: {
+            type: 'exponential',
+            delay: this.config.backoffDelayMs
+          }
+        }
+      })
+
+      this.queue.on('error', (error) => {
+        console.error('Saved search alert queue error:', error)
+      })
+    } catch (error) {
+      console.warn('Redis initialization failed in SavedSearchAlertQueue, alerts are checked in requests:', error)
+      const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+      this.redis = new MockRedis()
+      this.queue = null
+    }
+  }
+
+  /**
+   * Check the owners' saved searches against the papers. Returns whether the
+   * check was queued; without Redis it ran before returning. Failures are
+   * logged and never thrown, so adding papers doesn't fail on alerts.
+   */
+  async enqueue(paperIds: string[]): Promise<boolean> {
+    const uniqueIds = Array.from(new Set(paperIds))
+    if (uniqueIds.length === 0) {
+      return false
+    }
+
+    await this.ready
+    const data: SavedSearchAlertJobData = { paperIds: uniqueIds }
+
+    if (this.queue) {
+      try {
+        await this.queue.add(JOB_NAME, data)
+        return true
+      } catch (error) {
+        console.error('Failed to queue saved search alerts, checking them now:', error)
+      }
+    }
+
+    try {
+      await checkSavedSearchAlerts(data.paperIds)
+    } catch (error) {
+      console.error('Saved search alerts failed:', error)
+    }
+    return false
+  }
+
+  // Cleanup method for graceful shutdown
+  async close(): Promise<void> {
+    await this.ready
+    await this.queue?.close()
+    await this.redis?.quit()
+  }
+
+  // Health check method
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.ready
+      await this.redis.ping()
+      return true
+    } catch (error) {
+      console.error('Saved search alert queue health check failed:', error)
+      return false
+    }
+  }
+}
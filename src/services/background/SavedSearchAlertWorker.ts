@@ -0,0 +1,120 @@
+import { Worker, Job } from 'bullmq'
+import { checkSavedSearchAlerts, type SavedSearchAlertResult } from '../search/SavedSearchAlerts'
+import { SavedSearchAlertJobData } from './types'
+import { getBackgroundJobConfig } from './config'
+
+/**
+ * Runs queued saved search alert checks. A check fails when any saved search
+ * fails, and is retried with exponential backoff, up to the queue's attempts.
+ * Searches already notified are kept in the job data and skipped on retry.
+ */
+export class SavedSearchAlertWorker {
+  private worker: Worker | null = null
+  private redis: any
+  private redisInitialized = false
+  private readonly config = getBackgroundJobConfig().savedSearchAlerts
+
+  constructor(redisUrl?: string) {
+    this.redis = null
+    this.initializeRedis(redisUrl)
+  }
+
+  private async initializeRedis(redisUrl?: string) {
+    if (this.redisInitialized) return
+
+    try {
+      // Never connect during build/static generation or in the browser
+      const isBuildTime = process.env.NEXT_PHASE === 'phase-production-build' ||
+                         typeof window !== 'undefined'
+
+      const redisConnectionUrl = redisUrl || process.env.REDIS_URL
+
+      if (isBuildTime || !redisConnectionUrl) {
+        if (!isBuildTime) {
+          console.warn('Redis URL not configured - saved search alert worker disabled')
+        }
+        const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+        this.redis = new MockRedis()
+        this.redisInitialized = true
+        return
+      }
+
+      const Redis = (await import('ioredis')).default
+      this.redis = new Redis(redisConnectionUrl, {
+        // BullMQ workers block on Redis and must not give up on requests
+        maxRetriesPerRequest: null,
+        lazyConnect: true
+      })
+
+      this.worker = new Worker(
+        this.config.queueName,
+        this.processJob.bind(this),
+        {
+          connection: this.redis,
+          concurrency: this.config.concurrency,
+          removeOnComplete: { count: 100 },
+          removeOnFail: { count: 50 }
+        }
+      )
+
+      this.setupEventListeners()
+      this.redisInitialized = true
+    } catch (error) {
+      console.warn('Redis initialization failed in SavedSearchAlertWorker, using mock:', error)
+      const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+      this.redis = new MockRedis()
+      this.redisInitialized = true
+    }
+  }
+
+  private setupEventListeners(): void {
+    if (!this.worker) return
+
+    this.worker.on('completed', (job) => {
+      console.log(`Saved search alert worker completed job ${job.id}`)
+    })
+
+    this.worker.on('failed', (job, error) => {
+      console.error(`Saved search alert worker failed job ${job?.id}:`, error.message)
+    })
+
+    this.worker.on('error', (error) => {
+      console.error('Saved search alert worker error:', error)
+    })
+  }
+
+  /**
+   * Main job processing function
+   */
+  private async processJob(job: Job<SavedSearchAlertJobData>): Promise<SavedSearchAlertResult> {
+    const notifiedSearchIds = [...(job.data.notifiedSearchIds || [])]
+
+    return checkSavedSearchAlerts(job.data.paperIds, {
+      notifiedSearchIds,
+      onNotified: async (savedSearchId) => {
+        notifiedSearchIds.push(savedSearchId)
+        await job.updateData({ ...job.data, notifiedSearchIds })
+      }
+    })
+  }
+
+  /**
+   * Graceful shutdown
+   */
+  async close(): Promise<void> {
+    await this.worker?.close()
+    await this.redis?.quit()
+  }
+
+  /**
+   * Health check
+   */
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.redis.ping()
+      return !this.worker?.closing
+    } catch {
+      return false
+    }
+  }
+}
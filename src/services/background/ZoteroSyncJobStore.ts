@@ -0,0 +1,344 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient } from '@/lib/database'
+import type { ZoteroSyncResult } from '@/services/zotero/ZoteroService'
+import type { ZoteroSyncStatusValue } from '@/services/settings/UserZoteroService'
+import type { ZoteroSyncJobData } from './types'
+
+export const ZOTERO_SYNC_JOB_TYPE = 'zotero-sync'
+
+const JOBS_TABLE = 'background_jobs'
+const PROGRESS_TABLE = 'job_progress'
+const SETTINGS_TABLE = 'user_zotero_settings'
+
+// Sync statuses during which no other sync of the user is started
+const ACTIVE_STATUSES: ZoteroSyncStatusValue[] = ['queued', 'syncing']
+
+/**
+ * The latest progress report of a sync
+ */
+export interface ZoteroSyncProgress {
+  progress: number
+  message: string | null
+  data: Record<string, unknown>
+  createdAt: Date
+}
+
+/**
+ * A user's Zotero sync as kept in user_zotero_settings: the current or last
+ * sync's job, and how the last finished sync went
+ */
+export interface ZoteroSyncState {
+  status: ZoteroSyncStatusValue
+  isRunning: boolean
+  jobId: string | null
+  lastSyncAt: Date | null
+  lastResult: ZoteroSyncResult | null
+  error: string | null
+  progress: ZoteroSyncProgress | null
+}
+
+/**
+ * The sync job a request for a sync got: a new one, or the user's sync that
+ * is already queued or running
+ */
+export interface ZoteroSyncClaim {
+  jobId: string
+  created: boolean
+}
+
+/**
+ * When a user's scheduled syncs run
+ */
+export interface ZoteroSyncScheduleSettings {
+  userId: string
+  // Seconds between syncs, used without a cron pattern
+  syncInterval: number
+  syncSchedule: string | null
+}
+
+interface SyncSettingsRow {
+  id: string
+  sync_status: ZoteroSyncStatusValue | null
+  sync_job_id: string | null
+  sync_error: string | null
+  last_sync_at: string | null
+  last_sync_result: ZoteroSyncResult | null
+}
+
+interface JobProgressRow {
+  progress: number
+  message: string | null
+  data: Record<string, unknown> | null
+  created_at: string
+}
+
+const SYNC_SETTINGS_COLUMNS = 'id, sync_status, sync_job_id, sync_error, last_sync_at, last_sync_result'
+
+/**
+ * Bookkeeping of Zotero sync jobs: their background_jobs rows, the progress
+ * they report to job_progress, and the sync state in user_zotero_settings.
+ * Works across users, so it uses the service role client.
+ */
+export class ZoteroSyncJobStore {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseAdminClient()
+  }
+
+  /**
+   * Make a new sync the user's current one, unless a sync of theirs is
+   * already queued or running. A sync without progress for `staleAfterMs`
+   * is considered dead and replaced.
+   */
+  async claim(data: Omit<ZoteroSyncJobData, 'backgroundJobId'>, staleAfterMs: number): Promise<ZoteroSyncClaim> {
+    const settings = await this.loadSettings(data.userId)
+    if (!settings) {
+      throw new Error('Zotero not configured')
+    }
+
+    const { data: job, error: insertError } = await this.supabase
+      .from(JOBS_TABLE)
+      .insert({
+        type: ZOTERO_SYNC_JOB_TYPE,
+        status: 'pending',
+        data,
+        user_id: data.userId
+      })
+      .select('id')
+      .single()
+
+    if (insertError || !job) {
+      throw new Error(`Failed to create sync job: ${insertError?.message ?? 'no job returned'}`)
+    }
+
+    const staleBefore = new Date(Date.now() - staleAfterMs).toISOString()
+    const { data: claimed, error: claimError } = await this.supabase
+      .from(SETTINGS_TABLE)
+      .update({
+        sync_status: 'queued',
+        sync_job_id: job.id,
+        sync_error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', settings.id)
+      .or(`sync_status.is.null,sync_status.not.in.(${ACTIVE_STATUSES.join(',')}),updated_at.lt.${staleBefore}`)
+      .select('id')
+
+    if (claimError) {
+      await this.supabase.from(JOBS_TABLE).delete().eq('id', job.id)
+      throw new Error(`Failed to claim sync: ${claimError.message}`)
+    }
+
+    if (!claimed || claimed.length === 0) {
+      await this.supabase.from(JOBS_TABLE).delete().eq('id', job.id)
+      const current = await this.loadSettings(data.userId)
+      if (!current?.sync_job_id) {
+        throw new Error('Failed to claim sync: no sync job to join')
+      }
+      return { jobId: current.sync_job_id, created: false }
+    }
+
+    // A sync that was taken over as dead won't be finished
+    if (settings.sync_job_id && ACTIVE_STATUSES.includes(settings.sync_status as ZoteroSyncStatusValue)) {
+      await this.supabase
+        .from(JOBS_TABLE)
+        .update({ status: 'cancelled', error_message: 'Sync stopped without finishing' })
+        .eq('id', settings.sync_job_id)
+        .in('status', ['pending', 'processing'])
+    }
+
+    return { jobId: job.id, created: true }
+  }
+
+  /**
+   * Mark a sync job as started
+   */
+  async start(jobId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(JOBS_TABLE)
+      .update({ status: 'processing' })
+      .eq('id', jobId)
+      .eq('status', 'pending')
+
+    if (error) {
+      throw new Error(`Failed to start sync job: ${error.message}`)
+    }
+  }
+
+  /**
+   * Record a sync's progress (0-100). Also shows the sync is alive, so it
+   * isn't taken over as dead.
+   */
+  async reportProgress(
+    jobId: string,
+    progress: number,
+    message: string,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    const rounded = Math.max(0, Math.min(100, Math.round(progress)))
+
+    const [{ error: progressError }, { error: jobError }] = await Promise.all([
+      this.supabase
+        .from(PROGRESS_TABLE)
+        .insert({ job_id: jobId, progress: rounded, message, data }),
+      this.supabase
+        .from(JOBS_TABLE)
+        .update({ progress: rounded })
+        .eq('id', jobId)
+    ])
+
+    if (progressError || jobError) {
+      console.error(`Failed to record progress of sync job ${jobId}:`, progressError || jobError)
+    }
+
+    await this.heartbeat(jobId)
+  }
+
+  /**
+   * Show that a sync is still alive
+   */
+  async heartbeat(jobId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(SETTINGS_TABLE)
+      .update({ updated_at: new Date().toISOString() })
+      .eq('sync_job_id', jobId)
+
+    if (error) {
+      console.error(`Failed to record heartbeat of sync job ${jobId}:`, error)
+    }
+  }
+
+  /**
+   * Record a finished sync. Errors of single libraries or items don't fail
+   * the job; they're kept as the sync's error.
+   */
+  async complete(jobId: string, result: ZoteroSyncResult): Promise<void> {
+    await this.reportProgress(jobId, 100, 'Sync completed', {
+      newItems: result.newItems,
+      updatedItems: result.updatedItems,
+      errors: result.errors.length
+    })
+
+    const [{ error: jobError }, { error: settingsError }] = await Promise.all([
+      this.supabase
+        .from(JOBS_TABLE)
+        .update({ status: 'completed', progress: 100, result })
+        .eq('id', jobId),
+      this.supabase
+        .from(SETTINGS_TABLE)
+        .update({
+          last_sync_result: result,
+          sync_error: result.errors.length > 0 ? result.errors.join('\n') : null
+        })
+        .eq('sync_job_id', jobId)
+    ])
+
+    if (jobError || settingsError) {
+      throw new Error(`Failed to record sync result: ${(jobError || settingsError)?.message}`)
+    }
+  }
+
+  /**
+   * Record a sync that failed as a whole
+   */
+  async fail(jobId: string, message: string): Promise<void> {
+    const [{ error: jobError }, { error: settingsError }] = await Promise.all([
+      this.supabase
+        .from(JOBS_TABLE)
+        .update({ status: 'failed', error_message: message })
+        .eq('id', jobId),
+      this.supabase
+        .from(SETTINGS_TABLE)
+        .update({ sync_status: 'failed', sync_error: message })
+        .eq('sync_job_id', jobId)
+    ])
+
+    if (jobError || settingsError) {
+      console.error(`Failed to record failure of sync job ${jobId}:`, jobError || settingsError)
+    }
+  }
+
+  /**
+   * The user's sync state with the latest progress of the current or last
+   * sync. Null without a Zotero connection.
+   */
+  async getState(userId: string): Promise<ZoteroSyncState | null> {
+    const settings = await this.loadSettings(userId)
+    if (!settings) {
+      return null
+    }
+
+    let progress: ZoteroSyncProgress | null = null
+    if (settings.sync_job_id) {
+      const { data, error } = await this.supabase
+        .from(PROGRESS_TABLE)
+        .select('progress, message, data, created_at')
+        .eq('job_id', settings.sync_job_id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to load sync progress: ${error.message}`)
+      }
+
+      const row = data as JobProgressRow | null
+      if (row) {
+        progress = {
+          progress: row.progress,
+          message: row.message,
+          data: row.data || {},
+          createdAt: new Date(row.created_at)
+        }
+      }
+    }
+
+    const status = settings.sync_status || 'inactive'
+    return {
+      status,
+      isRunning: ACTIVE_STATUSES.includes(status),
+      jobId: settings.sync_job_id,
+      lastSyncAt: settings.last_sync_at ? new Date(settings.last_sync_at) : null,
+      lastResult: settings.last_sync_result,
+      error: settings.sync_error,
+      progress
+    }
+  }
+
+  /**
+   * Schedules of every user with auto sync on
+   */
+  async listScheduledSyncs(): Promise<ZoteroSyncScheduleSettings[]> {
+    const { data, error } = await this.supabase
+      .from(SETTINGS_TABLE)
+      .select('user_id, sync_interval, sync_schedule')
+      .eq('is_active', true)
+      .eq('auto_sync', true)
+
+    if (error) {
+      throw new Error(`Failed to load sync schedules: ${error.message}`)
+    }
+
+    return ((data || []) as { user_id: string; sync_interval: number; sync_schedule: string | null }[]).map(row => ({
+      userId: row.user_id,
+      syncInterval: row.sync_interval,
+      syncSchedule: row.sync_schedule
+    }))
+  }
+
+  private async loadSettings(userId: string): Promise<SyncSettingsRow | null> {
+    const { data, error } = await this.supabase
+      .from(SETTINGS_TABLE)
+      .select(SYNC_SETTINGS_COLUMNS)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load Zotero settings: ${error.message}`)
+    }
+
+    return data as SyncSettingsRow | null
+  }
+}
@@ -0,0 +1,243 @@
+import { Queue } from 'bullmq'
+import * as cron from 'node-cron'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ZoteroSyncResult } from '../zotero/ZoteroService'
+import { ZoteroSyncJobData } from './types'
+import { ZoteroSyncJobStore, type ZoteroSyncScheduleSettings } from './ZoteroSyncJobStore'
+import { runZoteroSyncJob } from './ZoteroSyncWorker'
+import { getBackgroundJobConfig } from './config'
+
+const JOB_NAME = 'sync-zotero'
+
+// Scheduled syncs run at most once a minute
+const MIN_SYNC_INTERVAL_SECONDS = 60
+
+/**
+ * What a request for a sync got
+ */
+export interface ZoteroSyncRequest {
+  // The sync's row in background_jobs
+  jobId: string
+  // False when the user's sync that was already queued or running is returned
+  created: boolean
+  // Whether the sync runs in a worker; otherwise it ran in the request
+  queued: boolean
+  // Result of a sync that ran in the request
+  result?: ZoteroSyncResult
+}
+
+/**
+ * Whether a cron pattern is accepted for scheduled syncs
+ */
+export function isValidSyncSchedule(pattern: string): boolean {
+  return pattern.trim().length > 0 && cron.validate(pattern.trim())
+}
+
+/**
+ * When a user's scheduled syncs repeat: on their cron pattern, or every
+ * sync interval without one
+ */
+export function zoteroSyncRepeatOptions(
+  settings: Pick<ZoteroSyncScheduleSettings, 'syncInterval' | 'syncSchedule'>
+): { pattern: string } | { every: number } {
+  if (settings.syncSchedule) {
+    return { pattern: settings.syncSchedule }
+  }
+  return { every: Math.max(MIN_SYNC_INTERVAL_SECONDS, settings.syncInterval) * 1000 }
+}
+
+/**
+ * Queues Zotero syncs and keeps their schedules. Each user has at most one
+ * sync queued or running: asking again while one is returns that sync.
+ * Without Redis, syncs run right away in the request asking for them, and
+ * there are no scheduled syncs.
+ */
+export class ZoteroSyncQueue {
+  private redis: any
+  private queue: Queue | null = null
+  private readonly config = getBackgroundJobConfig().zoteroSync
+  private readonly ready: Promise<void>
+  private store: ZoteroSyncJobStore | null
+
+  constructor(redisUrl?: string, store?: ZoteroSyncJobStore) {
+    this.redis = null
+    this.store = store || null
+    this.ready = this.initializeRedis(redisUrl)
+  }
+
+  private async initializeRedis(redisUrl?: string): Promise<void> {
+    try {
+      // Never connect during build/static generation or in the browser
+      const isBuildTime = process.env.NEXT_PHASE === 'phase-production-build' ||
+                         typeof window !== 'undefined'
+
+      const redisConnectionUrl = redisUrl || process.env.REDIS_URL
+
+      if (isBuildTime || !redisConnectionUrl) {
+        const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+        this.redis = new MockRedis()
+        return
+      }
+
+      const Redis = (await import('ioredis')).default
+      this.redis = new Redis(redisConnectionUrl, {
+        maxRetriesPerRequest: 3,
+        lazyConnect: true
+      })
+
+      this.queue = new Queue(this.config.queueName, {
+        connection: this.redis,
+        defaultJobOptions: {
+          removeOnComplete: 100,
+          removeOnFail: 50,
+          // A failed sync is retried by the next scheduled or requested one
+          attempts: 1
+        }
+      })
+
+      this.queue.on('error', (error) => {
+        console.error('Zotero sync queue error:', error)
+      })
+    } catch (error) {
+      console.warn('Redis initialization failed in ZoteroSyncQueue, syncs run in requests:', error)
+      const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+      this.redis = new MockRedis()
+      this.queue = null
+    }
+  }
+
+  /**
+   * Sync every library the user subscribes to. Returns the sync that's
+   * already queued or running if there is one. Without Redis the sync runs
+   * right away with `fallbackClient`, which must act as the user.
+   */
+  async requestSync(
+    userId: string,
+    type: ZoteroSyncJobData['type'],
+    fallbackClient?: SupabaseClient
+  ): Promise<ZoteroSyncRequest> {
+    await this.ready
+    const store = this.getStore()
+
+    const claim = await store.claim({ userId, type, trigger: 'manual' }, this.config.staleAfterMs)
+    if (!claim.created) {
+      return { jobId: claim.jobId, created: false, queued: this.queue !== null }
+    }
+
+    const data: ZoteroSyncJobData = { userId, type, trigger: 'manual', backgroundJobId: claim.jobId }
+
+    if (!this.queue) {
+      if (!fallbackClient) {
+        const message = 'Background job processing is disabled - Redis not configured'
+        await store.fail(claim.jobId, message)
+        throw new Error(message)
+      }
+
+      const result = await runZoteroSyncJob(claim.jobId, data, { supabase: fallbackClient, store })
+      return { jobId: claim.jobId, created: true, queued: false, result }
+    }
+
+    try {
+      await this.queue.add(JOB_NAME, data, { jobId: claim.jobId })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await store.fail(claim.jobId, `Failed to queue sync: ${message}`)
+      throw new Error(`Failed to queue Zotero sync: ${message}`)
+    }
+
+    return { jobId: claim.jobId, created: true, queued: true }
+  }
+
+  /**
+   * Register or remove the user's scheduled syncs to match their settings.
+   * Returns whether scheduled syncs are available at all.
+   */
+  async applySchedule(
+    userId: string,
+    settings: { autoSync: boolean } & Pick<ZoteroSyncScheduleSettings, 'syncInterval' | 'syncSchedule'>
+  ): Promise<boolean> {
+    await this.ready
+    if (!this.queue) {
+      return false
+    }
+
+    if (!settings.autoSync) {
+      await this.queue.removeJobScheduler(schedulerId(userId))
+      return true
+    }
+
+    const data: ZoteroSyncJobData = { userId, type: 'incremental', trigger: 'schedule' }
+    await this.queue.upsertJobScheduler(schedulerId(userId), zoteroSyncRepeatOptions(settings), {
+      name: JOB_NAME,
+      data
+    })
+    return true
+  }
+
+  /**
+   * Make the registered schedules match the settings of all users, e.g. when
+   * a worker starts. Returns the number of users with scheduled syncs.
+   */
+  async reconcileSchedules(): Promise<number> {
+    await this.ready
+    if (!this.queue) {
+      return 0
+    }
+
+    const schedules = await this.getStore().listScheduledSyncs()
+    const scheduledUsers = new Set<string>()
+
+    for (const schedule of schedules) {
+      try {
+        await this.applySchedule(schedule.userId, { autoSync: true, ...schedule })
+        scheduledUsers.add(schedule.userId)
+      } catch (error) {
+        console.error(`Failed to schedule Zotero syncs of user ${schedule.userId}:`, error)
+      }
+    }
+
+    const registered = await this.queue.getJobSchedulers()
+    for (const scheduler of registered) {
+      const userId = userIdOfScheduler(scheduler.key)
+      if (userId && !scheduledUsers.has(userId)) {
+        await this.queue.removeJobScheduler(scheduler.key)
+      }
+    }
+
+    return scheduledUsers.size
+  }
+
+  private getStore(): ZoteroSyncJobStore {
+    if (!this.store) {
+      this.store = new ZoteroSyncJobStore()
+    }
+    return this.store
+  }
+
+  // Cleanup method for graceful shutdown
+  async close(): Promise<void> {
+    await this.ready
+    await this.queue?.close()
+    await this.redis?.quit()
+  }
+
+  // Health check method
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.ready
+      await this.redis.ping()
+      return true
+    } catch (error) {
+      console.error('Zotero sync queue health check failed:', error)
+      return false
+    }
+  }
+}
+
+function schedulerId(userId: string): string {
+  return `zotero-sync:${userId}`
+}
+
+function userIdOfScheduler(key: string): string | null {
+  return key.startsWith('zotero-sync:') ? key.slice('zotero-sync:'.length) : null
+}
@@ -0,0 +1,277 @@
+import { Worker, Job, DelayedError } from 'bullmq'
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createSupabaseClientForUser } from '@/lib/supabase-server'
+import type { ZoteroSyncResult } from '../zotero/ZoteroService'
+import {
+  ZoteroLibrarySyncService,
+  combineLibrarySyncResults,
+  zoteroLibraryLabel
+} from '../zotero/ZoteroLibrarySyncService'
+import { ZoteroSyncJobData } from './types'
+import { ZoteroSyncJobStore } from './ZoteroSyncJobStore'
+import { getBackgroundJobConfig } from './config'
+
+// Access tokens of workers acting as a user outlast the longest syncs
+const USER_TOKEN_TTL_SECONDS = 6 * 60 * 60
+
+// Deletes or extends a lock only while it's still held with the given token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`
+
+const RENEW_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`
+
+export interface ZoteroSyncJobResult {
+  // The sync's row in background_jobs
+  jobId: string
+  // Set when a scheduled sync found one of the user's syncs queued or running
+  skipped?: boolean
+  result?: ZoteroSyncResult
+}
+
+/**
+ * Run a claimed sync of every library the user subscribes to. `supabase` must
+ * act as the user, since synced papers and collections are theirs. Progress
+ * goes to job_progress as each library starts; `onProgress` is told as well.
+ */
+export async function runZoteroSyncJob(
+  jobId: string,
+  data: ZoteroSyncJobData,
+  options: {
+    supabase: SupabaseClient
+    store: ZoteroSyncJobStore
+    onProgress?: (progress: number) => void | Promise<void>
+  }
+): Promise<ZoteroSyncResult> {
+  const { supabase, store, onProgress } = options
+
+  const report = async (progress: number, message: string, details: Record<string, unknown> = {}) => {
+    await store.reportProgress(jobId, progress, message, details)
+    await onProgress?.(progress)
+  }
+
+  try {
+    await store.start(jobId)
+    await report(0, data.type === 'full' ? 'Starting full sync' : 'Starting sync', { trigger: data.trigger })
+
+    const libraries = await new ZoteroLibrarySyncService(supabase).syncUserLibraries(
+      data.userId,
+      data.type,
+      ({ library, completed, total }) => report(
+        5 + (90 * completed) / total,
+        `Syncing ${zoteroLibraryLabel(library)}`,
+        { library: library.id, completed, total }
+      )
+    )
+
+    const result = combineLibrarySyncResults(libraries)
+    await store.complete(jobId, result)
+    await onProgress?.(100)
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    await store.fail(jobId, errorMessage)
+    throw error
+  }
+}
+
+/**
+ * Runs queued and scheduled Zotero syncs. A Redis lock per user makes sure
+ * only one sync of a user runs at a time, across all workers; a sync finding
+ * its user locked is delayed and tried again.
+ */
+export class ZoteroSyncWorker {
+  private worker: Worker | null = null
+  private redis: any
+  private redisInitialized = false
+  private readonly config = getBackgroundJobConfig().zoteroSync
+  private store: ZoteroSyncJobStore | null = null
+
+  constructor(redisUrl?: string) {
+    this.redis = null
+    this.initializeRedis(redisUrl)
+  }
+
+  private async initializeRedis(redisUrl?: string) {
+    if (this.redisInitialized) return
+
+    try {
+      // Never connect during build/static generation or in the browser
+      const isBuildTime = process.env.NEXT_PHASE === 'phase-production-build' ||
+                         typeof window !== 'undefined'
+
+      const redisConnectionUrl = redisUrl || process.env.REDIS_URL
+
+      if (isBuildTime || !redisConnectionUrl) {
+        if (!isBuildTime) {
+          console.warn('Redis URL not configured - Zotero sync worker disabled')
+        }
+        const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+        this.redis = new MockRedis()
+        this.redisInitialized = true
+        return
+      }
+
+      const Redis = (await import('ioredis')).default
+      this.redis = new Redis(redisConnectionUrl, {
+        // BullMQ workers block on Redis and must not give up on requests
+        maxRetriesPerRequest: null,
+        lazyConnect: true
+      })
+
+      this.worker = new Worker(
+        this.config.queueName,
+        this.processJob.bind(this),
+        {
+          connection: this.redis,
+          concurrency: this.config.concurrency,
+          removeOnComplete: { count: 100 },
+          removeOnFail: { count: 50 }
+        }
+      )
+
+      this.setupEventListeners()
+      this.redisInitialized = true
+    } catch (error) {
+      console.warn('Redis initialization failed in ZoteroSyncWorker, using mock:', error)
+      const MockRedis = (await import('@/lib/__mocks__/ioredis')).default
+      this.redis = new MockRedis()
+      this.redisInitialized = true
+    }
+  }
+
+  private setupEventListeners(): void {
+    if (!this.worker) return
+
+    this.worker.on('completed', (job) => {
+      console.log(`Zotero sync worker completed job ${job.id}`)
+    })
+
+    this.worker.on('failed', (job, error) => {
+      console.error(`Zotero sync worker failed job ${job?.id}:`, error.message)
+    })
+
+    this.worker.on('error', (error) => {
+      console.error('Zotero sync worker error:', error)
+    })
+  }
+
+  /**
+   * Main job processing function
+   */
+  private async processJob(job: Job<ZoteroSyncJobData>, token?: string): Promise<ZoteroSyncJobResult> {
+    const store = this.getStore()
+    let data = job.data
+
+    // Scheduled syncs are claimed when they start. One of the user's syncs
+    // already queued or running makes them unnecessary.
+    if (!data.backgroundJobId) {
+      const claim = await store.claim(
+        { userId: data.userId, type: data.type, trigger: data.trigger },
+        this.config.staleAfterMs
+      )
+      if (!claim.created) {
+        console.log(`Skipping scheduled Zotero sync of user ${data.userId}: sync ${claim.jobId} is under way`)
+        return { jobId: claim.jobId, skipped: true }
+      }
+
+      data = { ...data, backgroundJobId: claim.jobId }
+      await job.updateData(data)
+    }
+
+    const jobId = data.backgroundJobId as string
+    const lockToken = await this.acquireLock(data.userId)
+    if (!lockToken) {
+      console.log(`User ${data.userId} is being synced by another worker, delaying sync ${jobId}`)
+      await job.moveToDelayed(Date.now() + this.config.lockRetryDelayMs, token)
+      throw new DelayedError()
+    }
+
+    const renewal = setInterval(() => {
+      this.renewLock(data.userId, lockToken).catch(error => {
+        console.error(`Failed to renew the Zotero sync lock of user ${data.userId}:`, error)
+      })
+      store.heartbeat(jobId)
+    }, Math.floor(this.config.lockTtlMs / 3))
+
+    try {
+      const supabase = createSupabaseClientForUser(data.userId, USER_TOKEN_TTL_SECONDS)
+      if (!supabase) {
+        const message = 'Cannot sync as the user - SUPABASE_JWT_SECRET is not configured'
+        await store.fail(jobId, message)
+        throw new Error(message)
+      }
+
+      const result = await runZoteroSyncJob(jobId, data, {
+        supabase,
+        store,
+        onProgress: progress => job.updateProgress(progress)
+      })
+      return { jobId, result }
+    } finally {
+      clearInterval(renewal)
+      await this.releaseLock(data.userId, lockToken)
+    }
+  }
+
+  /**
+   * Take the user's sync lock. Returns the token it's held with, or null if
+   * another sync holds it.
+   */
+  private async acquireLock(userId: string): Promise<string | null> {
+    const lockToken = randomUUID()
+    const acquired = await this.redis.set(lockKey(userId), lockToken, 'PX', this.config.lockTtlMs, 'NX')
+    return acquired === 'OK' ? lockToken : null
+  }
+
+  private async renewLock(userId: string, lockToken: string): Promise<void> {
+    await this.redis.eval(RENEW_LOCK_SCRIPT, 1, lockKey(userId), lockToken, this.config.lockTtlMs)
+  }
+
+  private async releaseLock(userId: string, lockToken: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey(userId), lockToken)
+    } catch (error) {
+      // The lock expires by itself
+      console.error(`Failed to release the Zotero sync lock of user ${userId}:`, error)
+    }
+  }
+
+  private getStore(): ZoteroSyncJobStore {
+    if (!this.store) {
+      this.store = new ZoteroSyncJobStore()
+    }
+    return this.store
+  }
+
+  /**
+   * Graceful shutdown
+   */
+  async close(): Promise<void> {
+    await this.worker?.close()
+    await this.redis?.quit()
+  }
+
+  /**
+   * Health check
+   */
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.redis.ping()
+      return !this.worker?.closing
+    } catch {
+      return false
+    }
+  }
+}
+
+function lockKey(userId: string): string {
+  return `zotero-sync:lock:${userId}`
+}
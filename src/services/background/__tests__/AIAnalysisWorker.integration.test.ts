@@ -26,6 +26,7 @@ jest.mock('../../../lib/database', () => ({
 jest.mock('../../settings/UserApiKeyService', () => ({
   UserApiKeyService: jest.fn(() => ({
     getApiKey: jest.fn(() => Promise.resolve('test-api-key')),
+    getProviderCredentials: jest.fn(() => Promise.resolve({ apiKey: 'test-api-key' })),
     validateApiKey: jest.fn(() => Promise.resolve(true)),
     incrementUsage: jest.fn(() => Promise.resolve())
   }))
@@ -0,0 +1,74 @@
+import { SavedSearchAlertQueue } from '../SavedSearchAlertQueue'
+import { checkSavedSearchAlerts } from '../../search/SavedSearchAlerts'
+
+jest.mock('bullmq', () => ({
+  Queue: jest.fn(),
+  Worker: jest.fn()
+}))
+
+jest.mock('../../search/SavedSearchAlerts', () => ({
+  checkSavedSearchAlerts: jest.fn()
+}))
+
+const mockCheckSavedSearchAlerts = checkSavedSearchAlerts as jest.MockedFunction<typeof checkSavedSearchAlerts>
+
+/**
+ * A queue connected to Redis. Tests run in a browser-like environment where
+ * the queue never connects, so the BullMQ queue is put in place by hand.
+ */
+async function connectedQueue(add: jest.Mock) {
+  const queue = new SavedSearchAlertQueue()
+  await (queue as any).ready
+  ;(queue as any).queue = { add, close: jest.fn(), on: jest.fn() }
+  return queue
+}
+
+describe('SavedSearchAlertQueue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockCheckSavedSearchAlerts.mockResolvedValue({ checked: 1, matches: [] })
+  })
+
+  it('queues a check of the new papers', async () => {
+    const add = jest.fn().mockResolvedValue({ id: 'job-1' })
+    const queue = await connectedQueue(add)
+
+    await expect(queue.enqueue(['paper-1', 'paper-2', 'paper-1'])).resolves.toBe(true)
+
+    expect(add).toHaveBeenCalledWith('check-saved-search-alerts', { paperIds: ['paper-1', 'paper-2'] })
+    expect(mockCheckSavedSearchAlerts).not.toHaveBeenCalled()
+  })
+
+  it('checks the papers in the request when they cannot be queued', async () => {
+    const queue = await connectedQueue(jest.fn().mockRejectedValue(new Error('Connection is closed')))
+
+    await expect(queue.enqueue(['paper-1'])).resolves.toBe(false)
+
+    expect(mockCheckSavedSearchAlerts).toHaveBeenCalledWith(['paper-1'])
+  })
+
+  it('checks the papers in the request without Redis', async () => {
+    const queue = new SavedSearchAlertQueue()
+
+    await expect(queue.enqueue(['paper-1'])).resolves.toBe(false)
+
+    expect(mockCheckSavedSearchAlerts).toHaveBeenCalledWith(['paper-1'])
+  })
+
+  it('never throws when the check fails', async () => {
+    mockCheckSavedSearchAlerts.mockRejectedValue(new Error('Failed to load new papers'))
+    const queue = new SavedSearchAlertQueue()
+
+    await expect(queue.enqueue(['paper-1'])).resolves.toBe(false)
+  })
+
+  it('does nothing without papers', async () => {
+    const add = jest.fn()
+    const queue = await connectedQueue(add)
+
+    await expect(queue.enqueue([])).resolves.toBe(false)
+
+    expect(add).not.toHaveBeenCalled()
+    expect(mockCheckSavedSearchAlerts).not.toHaveBeenCalled()
+  })
+})
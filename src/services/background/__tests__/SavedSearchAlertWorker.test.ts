@@ -0,0 +1,48 @@
+import { SavedSearchAlertWorker } from '../SavedSearchAlertWorker'
+import { checkSavedSearchAlerts, type SavedSearchAlertOptions } from '../../search/SavedSearchAlerts'
+
+jest.mock('bullmq', () => ({
+  Queue: jest.fn(),
+  Worker: jest.fn()
+}))
+
+jest.mock('../../search/SavedSearchAlerts', () => ({
+  checkSavedSearchAlerts: jest.fn()
+}))
+
+const mockCheckSavedSearchAlerts = checkSavedSearchAlerts as jest.MockedFunction<typeof checkSavedSearchAlerts>
+
+function job(data: Record<string, unknown>) {
+  return { id: 'job-1', data, updateData: jest.fn().mockResolvedValue(undefined) } as any
+}
+
+describe('SavedSearchAlertWorker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('keeps the notified searches in the job data, so a retry skips them', async () => {
+    mockCheckSavedSearchAlerts.mockImplementation(async (_paperIds: string[], options?: SavedSearchAlertOptions) => {
+      await options?.onNotified?.('search-2')
+      throw new Error('Failed to check 1 saved search: boom')
+    })
+    const worker = new SavedSearchAlertWorker()
+    const failedJob = job({ paperIds: ['paper-1'], notifiedSearchIds: ['search-1'] })
+
+    await expect((worker as any).processJob(failedJob)).rejects.toThrow('boom')
+
+    expect(mockCheckSavedSearchAlerts).toHaveBeenCalledWith(['paper-1'], expect.objectContaining({
+      notifiedSearchIds: ['search-1', 'search-2']
+    }))
+    expect(failedJob.updateData).toHaveBeenCalledWith({ paperIds: ['paper-1'], notifiedSearchIds: ['search-1', 'search-2'] })
+  })
+
+  it('checks every search on the first attempt', async () => {
+    mockCheckSavedSearchAlerts.mockResolvedValue({ checked: 2, matches: [] })
+    const worker = new SavedSearchAlertWorker()
+
+    await expect((worker as any).processJob(job({ paperIds: ['paper-1'] }))).resolves.toEqual({ checked: 2, matches: [] })
+
+    expect(mockCheckSavedSearchAlerts).toHaveBeenCalledWith(['paper-1'], expect.objectContaining({ notifiedSearchIds: [] }))
+  })
+})
@@ -0,0 +1,143 @@
+import { ZoteroSyncJobStore, ZOTERO_SYNC_JOB_TYPE } from '../ZoteroSyncJobStore'
+import { createSupabaseMock } from '@/lib/__mocks__/supabase-client'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseAdminClient: jest.fn()
+}))
+
+function settingsRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'settings-1',
+    sync_status: 'completed',
+    sync_job_id: 'job-0',
+    sync_error: null,
+    last_sync_at: '2026-10-01T08:00:00.000Z',
+    last_sync_result: null,
+    ...overrides
+  }
+}
+
+const syncData = { userId: 'user-1', type: 'incremental' as const, trigger: 'manual' as const }
+
+describe('ZoteroSyncJobStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('claim', () => {
+    it('makes a new sync the current one when none is under way', async () => {
+      const { client, queries } = createSupabaseMock({
+        user_zotero_settings: [{ data: settingsRow() }, { data: [{ id: 'settings-1' }] }],
+        background_jobs: [{ data: { id: 'job-1' } }]
+      })
+
+      const claim = await new ZoteroSyncJobStore(client).claim(syncData, 60000)
+
+      expect(claim).toEqual({ jobId: 'job-1', created: true })
+
+      const insert = queries.find(({ table }) => table === 'background_jobs')
+      expect(insert?.calls[0]).toEqual(['insert', [{
+        type: ZOTERO_SYNC_JOB_TYPE,
+        status: 'pending',
+        data: syncData,
+        user_id: 'user-1'
+      }]])
+
+      const update = queries[2]
+      expect(update.calls[0][0]).toBe('update')
+      expect(update.calls[0][1][0]).toMatchObject({ sync_status: 'queued', sync_job_id: 'job-1', sync_error: null })
+      expect(update.calls.find(([method]) => method === 'or')?.[1][0])
+        .toMatch(/^sync_status\.is\.null,sync_status\.not\.in\.\(queued,syncing\),updated_at\.lt\./)
+
+      // The previous sync finished, so nothing is cancelled
+      expect(queries).toHaveLength(3)
+    })
+
+    it('returns the sync under way and drops the new job', async () => {
+      const { client, queries } = createSupabaseMock({
+        user_zotero_settings: [
+          { data: settingsRow({ sync_status: 'syncing', sync_job_id: 'job-0' }) },
+          { data: [] },
+          { data: settingsRow({ sync_status: 'syncing', sync_job_id: 'job-0' }) }
+        ],
+        background_jobs: [{ data: { id: 'job-1' } }, { data: null }]
+      })
+
+      const claim = await new ZoteroSyncJobStore(client).claim(syncData, 60000)
+
+      expect(claim).toEqual({ jobId: 'job-0', created: false })
+      const deletion = queries.find(({ calls }) => calls.some(([method]) => method === 'delete'))
+      expect(deletion?.calls).toContainEqual(['eq', ['id', 'job-1']])
+    })
+
+    it('cancels a sync that was taken over as dead', async () => {
+      const { client, queries } = createSupabaseMock({
+        user_zotero_settings: [
+          { data: settingsRow({ sync_status: 'syncing', sync_job_id: 'job-0' }) },
+          { data: [{ id: 'settings-1' }] }
+        ],
+        background_jobs: [{ data: { id: 'job-1' } }, { data: null }]
+      })
+
+      const claim = await new ZoteroSyncJobStore(client).claim(syncData, 60000)
+
+      expect(claim).toEqual({ jobId: 'job-1', created: true })
+      const cancellation = queries[3]
+      expect(cancellation.table).toBe('background_jobs')
+      expect(cancellation.calls[0][1][0]).toMatchObject({ status: 'cancelled' })
+      expect(cancellation.calls).toContainEqual(['eq', ['id', 'job-0']])
+    })
+
+    it('refuses users without a Zotero connection', async () => {
+      const { client, queries } = createSupabaseMock({
+        user_zotero_settings: [{ data: null }]
+      })
+
+      await expect(new ZoteroSyncJobStore(client).claim(syncData, 60000)).rejects.toThrow('Zotero not configured')
+      expect(queries).toHaveLength(1)
+    })
+  })
+
+  describe('getState', () => {
+    it('returns the sync state with the latest progress', async () => {
+      const { client } = createSupabaseMock({
+        user_zotero_settings: [{ data: settingsRow({ sync_status: 'syncing', sync_job_id: 'job-1' }) }],
+        job_progress: [{
+          data: {
+            progress: 50,
+            message: 'Syncing group 4711',
+            data: { completed: 1, total: 2 },
+            created_at: '2026-10-01T09:00:00.000Z'
+          }
+        }]
+      })
+
+      const state = await new ZoteroSyncJobStore(client).getState('user-1')
+
+      expect(state).toEqual({
+        status: 'syncing',
+        isRunning: true,
+        jobId: 'job-1',
+        lastSyncAt: new Date('2026-10-01T08:00:00.000Z'),
+        lastResult: null,
+        error: null,
+        progress: {
+          progress: 50,
+          message: 'Syncing group 4711',
+          data: { completed: 1, total: 2 },
+          createdAt: new Date('2026-10-01T09:00:00.000Z')
+        }
+      })
+    })
+
+    it('is inactive before the first sync', async () => {
+      const { client } = createSupabaseMock({
+        user_zotero_settings: [{ data: settingsRow({ sync_status: null, sync_job_id: null, last_sync_at: null }) }]
+      })
+
+      const state = await new ZoteroSyncJobStore(client).getState('user-1')
+
+      expect(state).toMatchObject({ status: 'inactive', isRunning: false, progress: null })
+    })
+  })
+})
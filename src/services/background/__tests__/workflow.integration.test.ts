@@ -47,6 +47,7 @@ describe('Background Analysis Workflow Integration', () => {
     const mockApiKeyService = require('../../settings/UserApiKeyService')
     mockApiKeyService.UserApiKeyService.mockImplementation(() => ({
       getApiKey: jest.fn(() => Promise.resolve('test-api-key')),
+      getProviderCredentials: jest.fn(() => Promise.resolve({ apiKey: 'test-api-key' })),
       validateApiKey: jest.fn(() => Promise.resolve(true)),
       incrementUsage: jest.fn(() => Promise.resolve())
     }))
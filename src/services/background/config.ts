@@ -35,6 +35,23 @@ export interface BackgroundJobConfig {
     failedJobRetentionDays: number
     progressRetentionHours: number
   }
+  zoteroSync: {
+    queueName: string
+    concurrency: number
+    // A user's sync lock expires unless renewed within this time
+    lockTtlMs: number
+    // Delay before a sync whose user is already syncing is tried again
+    lockRetryDelayMs: number
+    // A queued or running sync without progress for this long is taken over
+    staleAfterMs: number
+  }
+  savedSearchAlerts: {
+    queueName: string
+    concurrency: number
+    attempts: number
+    // Delay before a failed alert check is first retried, doubling after
+    backoffDelayMs: number
+  }
 }
 
 /**
@@ -74,6 +91,19 @@ export const defaultBackgroundJobConfig: BackgroundJobConfig = {
     completedJobRetentionDays: 7,
     failedJobRetentionDays: 30,
     progressRetentionHours: 24
+  },
+  zoteroSync: {
+    queueName: 'zotero-sync',
+    concurrency: parseInt(process.env.ZOTERO_SYNC_CONCURRENCY || '2'),
+    lockTtlMs: 5 * 60 * 1000,
+    lockRetryDelayMs: 60 * 1000,
+    staleAfterMs: parseInt(process.env.ZOTERO_SYNC_STALE_AFTER_MS || String(30 * 60 * 1000))
+  },
+  savedSearchAlerts: {
+    queueName: 'saved-search-alerts',
+    concurrency: parseInt(process.env.SAVED_SEARCH_ALERT_CONCURRENCY || '2'),
+    attempts: parseInt(process.env.MAX_JOB_ATTEMPTS || '3'),
+    backoffDelayMs: 5000
   }
 }
 
@@ -98,6 +128,16 @@ export function getBackgroundJobConfig(): BackgroundJobConfig {
         ...defaultBackgroundJobConfig.queue.defaultJobOptions,
         attempts: parseInt(process.env.MAX_JOB_ATTEMPTS || String(defaultBackgroundJobConfig.queue.defaultJobOptions.attempts))
       }
+    },
+    zoteroSync: {
+      ...defaultBackgroundJobConfig.zoteroSync,
+      concurrency: parseInt(process.env.ZOTERO_SYNC_CONCURRENCY || String(defaultBackgroundJobConfig.zoteroSync.concurrency)),
+      staleAfterMs: parseInt(process.env.ZOTERO_SYNC_STALE_AFTER_MS || String(defaultBackgroundJobConfig.zoteroSync.staleAfterMs))
+    },
+    savedSearchAlerts: {
+      ...defaultBackgroundJobConfig.savedSearchAlerts,
+      concurrency: parseInt(process.env.SAVED_SEARCH_ALERT_CONCURRENCY || String(defaultBackgroundJobConfig.savedSearchAlerts.concurrency)),
+      attempts: parseInt(process.env.MAX_JOB_ATTEMPTS || String(defaultBackgroundJobConfig.savedSearchAlerts.attempts))
     }
   }
 }
@@ -126,6 +166,18 @@ export function validateBackgroundJobConfig(config: BackgroundJobConfig): void {
   if (config.retry.maxDelay < config.retry.baseDelay) {
     throw new Error('Max retry delay must be greater than base delay')
   }
+
+  if (config.zoteroSync.concurrency < 1) {
+    throw new Error('Zotero sync concurrency must be at least 1')
+  }
+
+  if (config.zoteroSync.staleAfterMs < config.zoteroSync.lockTtlMs) {
+    throw new Error('Zotero sync stale time must be at least the lock TTL')
+  }
+
+  if (config.savedSearchAlerts.concurrency < 1) {
+    throw new Error('Saved search alert concurrency must be at least 1')
+  }
 }
 
 /**
@@ -146,5 +198,25 @@ export const ENVIRONMENT_VARIABLES = {
     description: 'Maximum number of retry attempts for failed jobs',
     default: '3',
     required: false
+  },
+  ZOTERO_SYNC_CONCURRENCY: {
+    description: 'Number of Zotero syncs a worker runs at once, each for a different user',
+    default: '2',
+    required: false
+  },
+  ZOTERO_SYNC_STALE_AFTER_MS: {
+    description: 'Time without progress after which a queued or running Zotero sync is considered dead',
+    default: '1800000',
+    required: false
+  },
+  SAVED_SEARCH_ALERT_CONCURRENCY: {
+    description: 'Number of saved search alert checks a worker runs at once',
+    default: '2',
+    required: false
+  },
+  SUPABASE_JWT_SECRET: {
+    description: 'Supabase JWT secret, used by workers to sync Zotero libraries as their users',
+    default: '',
+    required: false
   }
 } as const
\ No newline at end of file
@@ -1,8 +1,20 @@
 // Background job queue system exports
 
+import { JobQueueManager } from './JobQueueManager'
+import { AIAnalysisWorker } from './AIAnalysisWorker'
+import { ZoteroSyncQueue } from './ZoteroSyncQueue'
+import { ZoteroSyncWorker } from './ZoteroSyncWorker'
+import { SavedSearchAlertQueue } from './SavedSearchAlertQueue'
+import type { QueueStatus } from './types'
+
 export { JobQueueManager } from './JobQueueManager'
 export { AIAnalysisWorker } from './AIAnalysisWorker'
 export { JobErrorHandler } from './JobErrorHandler'
+export { ZoteroSyncQueue, isValidSyncSchedule, zoteroSyncRepeatOptions } from './ZoteroSyncQueue'
+export { ZoteroSyncWorker, runZoteroSyncJob } from './ZoteroSyncWorker'
+export { ZoteroSyncJobStore, ZOTERO_SYNC_JOB_TYPE } from './ZoteroSyncJobStore'
+export { SavedSearchAlertQueue } from './SavedSearchAlertQueue'
+export { SavedSearchAlertWorker } from './SavedSearchAlertWorker'
 
 export type {
   JobQueueManager as IJobQueueManager,
@@ -15,12 +27,26 @@ export type {
   AIProvider,
   JobRetryOptions,
   JobProgressUpdate,
-  JobError
+  JobError,
+  ZoteroSyncJobData,
+  ZoteroSyncTrigger,
+  SavedSearchAlertJobData
 } from './types'
+export type { ZoteroSyncRequest } from './ZoteroSyncQueue'
+export type { ZoteroSyncJobResult } from './ZoteroSyncWorker'
+export type {
+  ZoteroSyncState,
+  ZoteroSyncProgress,
+  ZoteroSyncClaim,
+  ZoteroSyncScheduleSettings
+} from './ZoteroSyncJobStore'
 
 // Singleton instances for application use
 let jobQueueManager: JobQueueManager | null = null
 let aiAnalysisWorker: AIAnalysisWorker | null = null
+let zoteroSyncQueue: ZoteroSyncQueue | null = null
+let zoteroSyncWorker: ZoteroSyncWorker | null = null
+let savedSearchAlertQueue: SavedSearchAlertQueue | null = null
 
 /**
  * Get or create the job queue manager singleton
@@ -42,6 +68,36 @@ export function getAIAnalysisWorker(): AIAnalysisWorker {
   return aiAnalysisWorker
 }
 
+/**
+ * Get or create the Zotero sync queue singleton
+ */
+export function getZoteroSyncQueue(): ZoteroSyncQueue {
+  if (!zoteroSyncQueue) {
+    zoteroSyncQueue = new ZoteroSyncQueue()
+  }
+  return zoteroSyncQueue
+}
+
+/**
+ * Get or create the Zotero sync worker singleton
+ */
+export function getZoteroSyncWorker(): ZoteroSyncWorker {
+  if (!zoteroSyncWorker) {
+    zoteroSyncWorker = new ZoteroSyncWorker()
+  }
+  return zoteroSyncWorker
+}
+
+/**
+ * Get or create the saved search alert queue singleton
+ */
+export function getSavedSearchAlertQueue(): SavedSearchAlertQueue {
+  if (!savedSearchAlertQueue) {
+    savedSearchAlertQueue = new SavedSearchAlertQueue()
+  }
+  return savedSearchAlertQueue
+}
+
 /**
  * Initialize the background job system
  */
@@ -84,6 +140,21 @@ export async function shutdownBackgroundJobs(): Promise<void> {
     promises.push(aiAnalysisWorker.close())
     aiAnalysisWorker = null
   }
+
+  if (zoteroSyncQueue) {
+    promises.push(zoteroSyncQueue.close())
+    zoteroSyncQueue = null
+  }
+
+  if (zoteroSyncWorker) {
+    promises.push(zoteroSyncWorker.close())
+    zoteroSyncWorker = null
+  }
+
+  if (savedSearchAlertQueue) {
+    promises.push(savedSearchAlertQueue.close())
+    savedSearchAlertQueue = null
+  }
   
   await Promise.all(promises)
   console.log('Background job system shutdown complete')
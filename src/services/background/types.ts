@@ -53,19 +53,26 @@ export interface AnalysisJobData {
 export interface AIAnalysisResult {
   paperId: string
   provider: string
+  modelName: string
   analysis: {
     summary: string
+    keywords: string[]
     keyFindings: string[]
     methodology: string
     limitations: string[]
     significance: string
+    // Novelty, methodology, impact and clarity on 1-10
+    scores?: Record<string, number>
   }
   confidence: number
+  tokensUsed: number
+  // USD cost of the analysis, as computed by the provider's service
+  cost?: number
   processingTime: number
   completedAt: Date
 }
 
-export type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'xai'
+export type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'xai' | 'openai-compatible'
 
 export interface JobRetryOptions {
   attempts: number
@@ -87,4 +94,20 @@ export interface JobError {
   stack?: string
   code?: string
   retryable: boolean
-}
\ No newline at end of file
+}
+export type ZoteroSyncTrigger = 'manual' | 'schedule'
+
+export interface ZoteroSyncJobData {
+  userId: string
+  type: 'full' | 'incremental'
+  trigger: ZoteroSyncTrigger
+  // The sync's row in background_jobs. Scheduled syncs get one when they start.
+  backgroundJobId?: string
+}
+
+export interface SavedSearchAlertJobData {
+  // Newly added papers to check the owners' alerting saved searches against
+  paperIds: string[]
+  // Saved searches an earlier attempt already notified, skipped on retry
+  notifiedSearchIds?: string[]
+}
@@ -0,0 +1,293 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import type { Paper as PaperRow } from '@/lib/database'
+import { DedupeService } from '@/services/dedupe/DedupeService'
+import {
+  AdvancedSearchService,
+  type AdvancedSearchFilters,
+  type SearchMode,
+  type SortOption
+} from '@/services/search/AdvancedSearchService'
+import { scheduleSavedSearchAlerts } from '@/services/search/SavedSearchAlerts'
+import { detectBibliographyFormat, formatBibliography, parseBibliography } from './formats'
+import type { BibliographyEntry, BibliographyFormat, ExportablePaper } from './types'
+
+export interface BibliographyImportReport {
+  format: BibliographyFormat
+  // Entries found in the file, including those that failed to parse
+  total: number
+  imported: Array<{ index: number; paperId: string; title: string }>
+  // Entries matching a paper already in the library, or an earlier entry in the same file
+  duplicates: Array<{
+    index: number
+    title: string
+    existingPaperId?: string
+    duplicateOfIndex?: number
+    score: number
+  }>
+  failed: Array<{ index: number; line?: number; key?: string; title?: string; message: string }>
+}
+
+/**
+ * What to export: explicit papers, the results of a search, or (neither) the whole library
+ */
+export interface BibliographyExportSelection {
+  paperIds?: string[]
+  search?: {
+    query?: string
+    mode?: SearchMode
+    filters?: AdvancedSearchFilters
+    sortBy?: SortOption
+  }
+}
+
+export class BibliographyImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BibliographyImportError'
+  }
+}
+
+const PAGE_SIZE = 1000
+const SEARCH_PAGE_SIZE = 200
+const ID_CHUNK_SIZE = 200
+const CANDIDATE_PREFIX = 'entry:'
+
+/**
+ * Imports BibTeX, RIS and CSL-JSON files into a user's library and exports
+ * papers in those formats. Evaluation tags travel as keywords both ways.
+ */
+export class BibliographyService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  /**
+   * Add the entries of a bibliography file to the library. Entries that fail to
+   * parse or save, and entries the duplicate check matches, are reported rather
+   * than aborting the import.
+   */
+  async importBibliography(
+    userId: string,
+    content: string,
+    options: { format?: BibliographyFormat; fileName?: string } = {}
+  ): Promise<BibliographyImportReport> {
+    const format = options.format || detectBibliographyFormat(content, options.fileName)
+    if (!format) {
+      throw new BibliographyImportError('Could not detect the file format; expected BibTeX, RIS or CSL-JSON')
+    }
+
+    const parsed = parseBibliography(content, format)
+    const report: BibliographyImportReport = {
+      format,
+      total: parsed.entries.length + parsed.errors.length,
+      imported: [],
+      duplicates: [],
+      failed: parsed.errors.map(error => ({ ...error }))
+    }
+
+    const matches = await new DedupeService(this.supabase).findDuplicatesOf(
+      userId,
+      parsed.entries.map(({ index, entry }) => ({ id: `${CANDIDATE_PREFIX}${index}`, ...entry }))
+    )
+
+    for (const [position, { index, entry }] of parsed.entries.entries()) {
+      const match = matches[position]
+      if (match) {
+        report.duplicates.push({
+          index,
+          title: entry.title,
+          ...(match.paperId.startsWith(CANDIDATE_PREFIX)
+            ? { duplicateOfIndex: Number(match.paperId.slice(CANDIDATE_PREFIX.length)) }
+            : { existingPaperId: match.paperId }),
+          score: match.score
+        })
+        continue
+      }
+
+      try {
+        const paperId = await this.insertEntry(userId, entry)
+        report.imported.push({ index, paperId, title: entry.title })
+      } catch (error) {
+        report.failed.push({
+          index,
+          key: entry.key,
+          title: entry.title,
+          message: error instanceof Error ? error.message : 'Failed to save entry'
+        })
+      }
+    }
+
+    report.failed.sort((a, b) => a.index - b.index)
+    await scheduleSavedSearchAlerts(report.imported.map(item => item.paperId))
+    return report
+  }
+
+  /**
+   * The selected papers as a bibliography file, in selection (or search result) order
+   */
+  async exportPapers(
+    userId: string,
+    selection: BibliographyExportSelection,
+    format: BibliographyFormat
+  ): Promise<{ content: string; count: number }> {
+    const rows = await this.loadSelection(userId, selection)
+    const tags = await this.loadTags(rows.map(row => row.id))
+
+    const papers: ExportablePaper[] = rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      authors: row.authors || [],
+      journal: row.journal || undefined,
+      publicationYear: row.publication_year || undefined,
+      doi: row.doi || undefined,
+      abstract: row.abstract || undefined,
+      googleDriveUrl: row.google_drive_url || undefined,
+      tags: tags.get(row.id)
+    }))
+
+    return { content: formatBibliography(papers, format), count: papers.length }
+  }
+
+  private async insertEntry(userId: string, entry: BibliographyEntry): Promise<string> {
+    const now = new Date().toISOString()
+    const { data, error } = await this.supabase
+      .from(TABLES.PAPERS)
+      .insert({
+        title: entry.title,
+        authors: entry.authors,
+        journal: entry.journal || null,
+        publication_year: entry.publicationYear || null,
+        doi: entry.doi || null,
+        abstract: entry.abstract || null,
+        reading_status: 'unread',
+        created_by: userId,
+        date_added: now,
+        last_modified: now
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      // papers.doi is unique across the table, so the DOI may belong to another user's paper
+      throw new Error(error.code === '23505' ? 'A paper with this DOI already exists' : `Failed to save paper: ${error.message}`)
+    }
+
+    if (entry.tags.length > 0) {
+      const { error: tagsError } = await this.supabase
+        .from(TABLES.USER_EVALUATIONS)
+        .insert({ paper_id: data.id, tags: entry.tags })
+
+      if (tagsError) {
+        console.warn(`Imported paper ${data.id} without its tags:`, tagsError.message)
+      }
+    }
+
+    return data.id
+  }
+
+  private async loadSelection(userId: string, selection: BibliographyExportSelection): Promise<PaperRow[]> {
+    if (selection.paperIds) {
+      return this.loadPapersById(userId, selection.paperIds)
+    }
+
+    if (!selection.search) {
+      return this.loadLibrary(userId)
+    }
+
+    // Restricting the search to the user's papers keeps it scoped with the service-role client
+    const searchService = new AdvancedSearchService({ supabase: this.supabase })
+    const paperIds: string[] = []
+    for (let page = 1; ; page++) {
+      const response = await searchService.searchPapers({
+        textQuery: selection.search.query?.trim() || undefined,
+        mode: selection.search.mode,
+        filters: selection.search.filters || {},
+        sortBy: selection.search.sortBy || 'relevance',
+        pagination: { page, limit: SEARCH_PAGE_SIZE },
+        createdBy: userId,
+        rankAllMatches: true
+      })
+
+      paperIds.push(...response.results.map(result => result.paper.id))
+      if (response.results.length < SEARCH_PAGE_SIZE) break
+    }
+
+    return this.loadPapersById(userId, paperIds)
+  }
+
+  private async loadPapersById(userId: string, paperIds: string[]): Promise<PaperRow[]> {
+    const ids = Array.from(new Set(paperIds))
+    const rows: PaperRow[] = []
+
+    for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .select('*')
+        .eq('created_by', userId)
+        .in('id', ids.slice(start, start + ID_CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load papers: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+    }
+
+    const rowsById = new Map(rows.map(row => [row.id, row]))
+    return ids.map(id => rowsById.get(id)).filter((row): row is PaperRow => !!row)
+  }
+
+  private async loadLibrary(userId: string): Promise<PaperRow[]> {
+    const rows: PaperRow[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .select('*')
+        .eq('created_by', userId)
+        .is('archived_at', null)
+        .order('date_added', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load papers: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if ((data || []).length < PAGE_SIZE) return rows
+    }
+  }
+
+  private async loadTags(paperIds: string[]): Promise<Map<string, string[]>> {
+    const tags = new Map<string, string[]>()
+
+    for (let start = 0; start < paperIds.length; start += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.USER_EVALUATIONS)
+        .select('paper_id, tags')
+        .in('paper_id', paperIds.slice(start, start + ID_CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load tags: ${error.message}`)
+      }
+
+      for (const row of data || []) {
+        if (row.tags?.length) tags.set(row.paper_id, row.tags)
+      }
+    }
+
+    return tags
+  }
+}
+
+let bibliographyServiceInstance: BibliographyService | null = null
+
+export function getBibliographyService(): BibliographyService {
+  if (!bibliographyServiceInstance) {
+    bibliographyServiceInstance = new BibliographyService()
+  }
+  return bibliographyServiceInstance
+}
@@ -0,0 +1,74 @@
+import { BibliographyService } from '../BibliographyService'
+import { AdvancedSearchService } from '@/services/search/AdvancedSearchService'
+import { createSupabaseMock, callsOf, type MockQuery } from '@/lib/__mocks__/supabase-client'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  TABLES: { PAPERS: 'papers', USER_EVALUATIONS: 'user_evaluations' }
+}))
+
+jest.mock('@/services/search/AdvancedSearchService', () => ({
+  AdvancedSearchService: jest.fn()
+}))
+
+jest.mock('@/services/search/SavedSearchAlerts', () => ({
+  scheduleSavedSearchAlerts: jest.fn()
+}))
+
+const MockAdvancedSearchService = AdvancedSearchService as jest.MockedClass<typeof AdvancedSearchService>
+
+function paperRow(id: string) {
+  return { id, title: `Paper ${id}`, authors: ['A. Author'], journal: null, publication_year: 2024, doi: null, abstract: null, google_drive_url: null }
+}
+
+// Paper lookups by id get the rows of those ids, library loads `libraryIds`
+// and tag lookups nothing
+function answerPapers(libraryIds: string[] = []) {
+  return (query: MockQuery) => {
+    const [, ids = libraryIds] = (callsOf([query], 'in')[0] || []) as [string, string[]?]
+    return { data: query.table === 'papers' ? ids.map(paperRow) : [] }
+  }
+}
+
+describe('BibliographyService', () => {
+  describe('exportPapers', () => {
+    it('pages through every search result, scoped to the user', async () => {
+      // 450 matches, served 200 at a time in relevance order
+      const matches = Array.from({ length: 450 }, (_, i) => `paper-${i}`)
+      const searchPapers = jest.fn(async ({ pagination }: any) => {
+        const offset = (pagination.page - 1) * pagination.limit
+        return { results: matches.slice(offset, offset + pagination.limit).map(id => ({ paper: { id } })) }
+      })
+      MockAdvancedSearchService.mockImplementation(() => ({ searchPapers }) as any)
+      const { client, queries } = createSupabaseMock(answerPapers())
+
+      const { count, content } = await new BibliographyService(client).exportPapers(
+        'user-1',
+        { search: { query: 'attention', mode: 'hybrid' } },
+        'csl-json'
+      )
+
+      expect(count).toBe(450)
+      expect(JSON.parse(content)[449].title).toBe('Paper paper-449')
+      expect(searchPapers).toHaveBeenCalledTimes(3)
+      expect(searchPapers.mock.calls[0][0]).toMatchObject({
+        textQuery: 'attention',
+        createdBy: 'user-1',
+        rankAllMatches: true,
+        pagination: { page: 1, limit: 200 }
+      })
+      expect(searchPapers.mock.calls[0][0]).not.toHaveProperty('paperIds')
+      // Papers are loaded in chunks rather than one request with every id
+      expect(callsOf(queries, 'in').every(([, ids]) => (ids as string[]).length <= 200)).toBe(true)
+    })
+
+    it('exports the library without its archived papers', async () => {
+      const { client, queries } = createSupabaseMock(answerPapers(['paper-1', 'paper-2']))
+
+      const { count } = await new BibliographyService(client).exportPapers('user-1', {}, 'csl-json')
+
+      expect(count).toBe(2)
+      expect(callsOf(queries, 'is')).toContainEqual(['archived_at', null])
+    })
+  })
+})
@@ -0,0 +1,218 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { parseBibtex, formatBibtex, decodeLatex } from '../bibtex'
+import { parseRis, formatRis } from '../ris'
+import { parseCslJson, formatCslJson } from '../csl-json'
+import { detectBibliographyFormat, formatBibliography, parseBibliography } from '../formats'
+import type { BibliographyFormat, ExportablePaper } from '../types'
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf8')
+}
+
+const papers: ExportablePaper[] = [
+  {
+    id: 'p1',
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani', 'Noam Shazeer'],
+    journal: 'Advances in Neural Information Processing Systems',
+    publicationYear: 2017,
+    doi: '10.48550/arxiv.1706.03762',
+    abstract: 'The dominant sequence transduction models\nare based on recurrence.',
+    tags: ['transformers', 'nlp']
+  },
+  {
+    id: 'p2',
+    title: 'Über 50% of {Networks} & Co',
+    authors: ['Jörg Müller', 'Ludwig van Beethoven', 'UNESCO'],
+    publicationYear: 2020,
+    tags: []
+  },
+  {
+    id: 'p3',
+    title: 'Attention Is Not Explanation',
+    authors: ['Ashish Vaswani'],
+    publicationYear: 2017
+  }
+]
+
+describe('BibTeX', () => {
+  it('parses entries, expanding macros and LaTeX, and reports malformed entries with their line', () => {
+    const { entries, errors } = parseBibtex(fixture('library.bib'))
+
+    expect(entries.map(({ index, entry }) => [index, entry.key])).toEqual([
+      [0, 'vaswani2017attention'],
+      [1, 'mueller2020'],
+      [5, 'zhang2021']
+    ])
+
+    expect(entries[0].entry).toEqual({
+      key: 'vaswani2017attention',
+      title: 'Attention Is All You Need',
+      authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+      journal: 'Advances in Neural Information Processing Systems 30',
+      publicationYear: 2017,
+      doi: '10.48550/arxiv.1706.03762',
+      abstract: undefined,
+      tags: ['transformers', 'attention', 'nlp'],
+      url: undefined
+    })
+    expect(entries[1].entry).toMatchObject({
+      title: 'A Study of über-Networks in München',
+      authors: ['Jörg Müller', 'Ana de la Cruz', 'World Health Organization'],
+      journal: 'Journal of Testing',
+      publicationYear: 2020,
+      abstract: 'Results show a 10–20% gain.',
+      tags: []
+    })
+    expect(entries[2].entry).toMatchObject({ publicationYear: 2021, url: 'https://example.org/graph' })
+
+    expect(errors).toEqual([
+      expect.objectContaining({ index: 2, line: 24 }),
+      { index: 3, line: 28, key: 'notitle', message: 'Entry has no title' },
+      expect.objectContaining({ index: 4, line: 32, message: 'Undefined string "springer"' })
+    ])
+  })
+
+  it('decodes accents, special letters and escapes', () => {
+    expect(decodeLatex('Erd{\\H o}s, {\\AA}ngstr{\\"o}m, Stra{\\ss}e')).toBe('Erdős, Ångström, Straße')
+    expect(decodeLatex('Gar{\\c{c}}on \\& fils --- 100\\%')).toBe('Garçon & fils — 100%')
+  })
+
+  it('writes unique citation keys, escaped values and tags as keywords', () => {
+    const output = formatBibtex(papers)
+
+    expect(output).toContain('@article{vaswani2017attention,')
+    expect(output).toContain('@misc{muller2020uber,')
+    expect(output).toContain('@misc{vaswani2017attentiona,')
+    expect(output).toContain('  author = {Vaswani, Ashish and Shazeer, Noam},')
+    expect(output).toContain('  keywords = {transformers, nlp}')
+    expect(output).toContain('  title = {Über 50\\% of \\{Networks\\} \\& Co},')
+    expect(output).toContain('  author = {Müller, Jörg and van Beethoven, Ludwig and {UNESCO}},')
+  })
+
+  it('round-trips exported papers', () => {
+    const { entries, errors } = parseBibtex(formatBibtex(papers))
+
+    expect(errors).toEqual([])
+    expect(entries.map(({ entry }) => entry.title)).toEqual(papers.map(paper => paper.title))
+    expect(entries[1].entry.authors).toEqual(papers[1].authors)
+    expect(entries[0].entry).toMatchObject({
+      journal: papers[0].journal,
+      doi: papers[0].doi,
+      tags: papers[0].tags
+    })
+  })
+})
+
+describe('RIS', () => {
+  it('parses records, joining wrapped lines, and reports incomplete records while tolerating a final missing ER', () => {
+    const { entries, errors } = parseRis(fixture('library.ris'))
+
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toEqual({
+      index: 0,
+      entry: {
+        key: 'he2016',
+        title: 'Deep Residual Learning for Image Recognition',
+        authors: ['Kaiming He', 'Xiangyu Zhang'],
+        journal: 'Proceedings of CVPR',
+        publicationYear: 2016,
+        doi: '10.1109/cvpr.2016.90',
+        abstract: 'Deeper neural networks are more difficult to train.',
+        tags: ['vision', 'resnet'],
+        url: undefined
+      }
+    })
+    expect(entries[1]).toMatchObject({
+      index: 4,
+      entry: { title: 'Last Record Without ER', authors: ['Richard Roe'], journal: 'Short Journal', publicationYear: 2018 }
+    })
+
+    expect(errors).toEqual([
+      { index: 1, line: 15, key: undefined, message: 'Record has no title' },
+      { index: 2, line: 20, message: 'AU line outside a record (missing TY)' },
+      { index: 3, line: 21, message: 'Record has no ER line' }
+    ])
+  })
+
+  it('round-trips exported papers', () => {
+    const output = formatRis(papers)
+    const { entries, errors } = parseRis(output)
+
+    expect(output).toContain('TY  - JOUR\nTI  - Attention Is All You Need\nAU  - Vaswani, Ashish')
+    expect(output).toContain('KW  - transformers\nKW  - nlp\nER  - ')
+    expect(errors).toEqual([])
+    expect(entries.map(({ entry }) => entry.authors)).toEqual(papers.map(paper => paper.authors))
+    expect(entries[0].entry).toMatchObject({
+      abstract: 'The dominant sequence transduction models are based on recurrence.',
+      tags: ['transformers', 'nlp']
+    })
+  })
+})
+
+describe('CSL-JSON', () => {
+  it('parses items and reports the ones that are not papers', () => {
+    const { entries, errors } = parseCslJson(fixture('library.json'))
+
+    expect(entries.map(({ index }) => index)).toEqual([0, 3])
+    expect(entries[0].entry).toEqual({
+      key: 'devlin2019',
+      title: 'BERT: Pre-training of Deep Bidirectional Transformers',
+      authors: ['Jacob Devlin', 'Google AI Language'],
+      journal: 'Proceedings of NAACL',
+      publicationYear: 2019,
+      doi: '10.18653/v1/n19-1423',
+      abstract: undefined,
+      tags: ['nlp', 'pretraining'],
+      url: undefined
+    })
+    expect(entries[1].entry).toMatchObject({ publicationYear: 2015, tags: ['a', 'b'] })
+
+    expect(errors).toEqual([
+      { index: 1, message: 'Item is not an object' },
+      { index: 2, key: '42', message: 'Item has no title' }
+    ])
+  })
+
+  it('reports invalid JSON as a single failure', () => {
+    const { entries, errors } = parseCslJson('[{"title": "Unclosed"')
+
+    expect(entries).toEqual([])
+    expect(errors).toHaveLength(1)
+    expect(errors[0].message).toMatch(/^Invalid JSON: /)
+  })
+
+  it('round-trips exported papers', () => {
+    const { entries, errors } = parseCslJson(formatCslJson(papers))
+
+    expect(errors).toEqual([])
+    expect(entries.map(({ entry }) => entry.authors)).toEqual(papers.map(paper => paper.authors))
+    expect(entries[0].entry).toMatchObject({
+      key: 'p1',
+      journal: papers[0].journal,
+      publicationYear: 2017,
+      tags: ['transformers', 'nlp']
+    })
+  })
+})
+
+describe('format detection', () => {
+  it.each([
+    ['refs.bib', '', 'bibtex'],
+    ['refs.RIS', '', 'ris'],
+    ['refs.json', '', 'csl-json'],
+    [undefined, '﻿[{"title": "x"}]', 'csl-json'],
+    [undefined, 'TY  - JOUR\nTI  - x\nER  - ', 'ris'],
+    [undefined, '% comment\n@article{key, title = {x}}', 'bibtex'],
+    [undefined, 'plain text', null]
+  ])('detects %s %j as %s', (fileName: string | undefined, content: string, expected: BibliographyFormat | null) => {
+    expect(detectBibliographyFormat(content, fileName)).toBe(expected)
+  })
+
+  it.each(['bibtex', 'ris', 'csl-json'] as BibliographyFormat[])('parses its own %s output', (format: BibliographyFormat) => {
+    const { entries } = parseBibliography(formatBibliography(papers, format), format)
+
+    expect(entries.map(({ entry }) => entry.title)).toEqual(papers.map(paper => paper.title))
+  })
+})
@@ -0,0 +1,395 @@
+import { parseYear, cleanString } from '@/services/metadata/normalize'
+import { normalizeDoi } from '@/services/metadata/identifiers'
+import { formatInvertedName, parseInvertedName, splitKeywords, splitPersonName } from './names'
+import type { BibliographyEntry, ExportablePaper, ParsedBibliography } from './types'
+
+// Combining marks for LaTeX accent commands (\'e, \"{o}, \c{c}, ...)
+const LATEX_ACCENTS: Record<string, string> = {
+  '`': '\u0300',
+  "'": '\u0301',
+  '^': '\u0302',
+  '~': '\u0303',
+  '=': '\u0304',
+  'u': '\u0306',
+  '.': '\u0307',
+  '"': '\u0308',
+  'r': '\u030a',
+  'H': '\u030b',
+  'v': '\u030c',
+  'c': '\u0327',
+  'k': '\u0328'
+}
+
+const LATEX_LETTERS: Record<string, string> = {
+  ss: 'ß',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  aa: 'å',
+  AA: 'Å',
+  o: 'ø',
+  O: 'Ø',
+  l: 'ł',
+  L: 'Ł'
+}
+
+// Standard month macros, so `month = jan` does not fail as an undefined string
+const MONTH_MACROS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+class BibtexSyntaxError extends Error {}
+
+/**
+ * Parse a BibTeX or BibLaTeX file. @string macros are expanded; @comment and
+ * @preamble are skipped. A malformed entry is reported and parsing resumes at
+ * the next entry.
+ */
+export function parseBibtex(text: string): ParsedBibliography {
+  const result: ParsedBibliography = { entries: [], errors: [] }
+  const macros = new Map<string, string>(MONTH_MACROS.map((month, i) => [month, String(i + 1)]))
+  const lineOf = lineCounter(text)
+  let index = 0
+  let position = nextEntryStart(text, 0)
+
+  while (position !== -1) {
+    const reader = new BibtexReader(text, position + 1)
+    const type = reader.readIdentifier().toLowerCase()
+    const line = lineOf(position)
+
+    if (type === 'comment' || !type) {
+      position = nextEntryStart(text, position + 1)
+      continue
+    }
+
+    try {
+      const close = reader.readOpening()
+
+      if (type === 'preamble') {
+        reader.readValue(macros)
+        reader.expect(close)
+      } else if (type === 'string') {
+        const name = reader.readIdentifier().toLowerCase()
+        reader.expect('=')
+        macros.set(name, reader.readValue(macros))
+        reader.expect(close)
+      } else {
+        const { key, fields } = reader.readEntryBody(close, macros)
+        const entry = toEntry(type, key, fields)
+        if (typeof entry === 'string') {
+          result.errors.push({ index, line, key, message: entry })
+        } else {
+          result.entries.push({ index, entry })
+        }
+        index++
+      }
+      position = nextEntryStart(text, reader.position)
+    } catch (error) {
+      if (type !== 'preamble' && type !== 'string') {
+        result.errors.push({ index, line, message: error instanceof Error ? error.message : 'Invalid entry' })
+        index++
+      }
+      position = nextEntryStart(text, position + 1)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Write papers as BibTeX, with tags as `keywords`. Citation keys are
+ * `familyYEARword`, suffixed a, b, ... when they would repeat.
+ */
+export function formatBibtex(papers: ExportablePaper[]): string {
+  const usedKeys = new Set<string>()
+
+  return papers.map(paper => {
+    const key = uniqueKey(citationKey(paper), usedKeys)
+    const fields: Array<[string, string | undefined]> = [
+      ['title', paper.title],
+      ['author', paper.authors.length > 0 ? paper.authors.map(formatBibtexName).join(' and ') : undefined],
+      ['journal', paper.journal],
+      ['year', paper.publicationYear?.toString()],
+      ['doi', paper.doi],
+      ['url', paper.googleDriveUrl],
+      ['abstract', paper.abstract],
+      ['keywords', paper.tags && paper.tags.length > 0 ? paper.tags.join(', ') : undefined]
+    ]
+
+    const body = fields
+      .filter((field): field is [string, string] => !!field[1])
+      // Author names are escaped one by one so organisation braces survive
+      .map(([name, value]) => `  ${name} = {${name === 'url' || name === 'doi' || name === 'author' ? value : escapeLatex(value)}}`)
+      .join(',\n')
+
+    return `@${paper.journal ? 'article' : 'misc'}{${key},\n${body}\n}`
+  }).join('\n\n') + '\n'
+}
+
+class BibtexReader {
+  constructor(private text: string, public position: number) {}
+
+  readIdentifier(): string {
+    this.skipWhitespace()
+    const match = /^[^\s"#%'(),={}]+/.exec(this.text.slice(this.position, this.position + 200))
+    if (!match) return ''
+    this.position += match[0].length
+    return match[0]
+  }
+
+  readOpening(): string {
+    this.skipWhitespace()
+    const char = this.text[this.position]
+    if (char !== '{' && char !== '(') {
+      throw new BibtexSyntaxError('Expected "{" after entry type')
+    }
+    this.position++
+    return char === '{' ? '}' : ')'
+  }
+
+  expect(char: string): void {
+    this.skipWhitespace()
+    if (this.text[this.position] !== char) {
+      throw new BibtexSyntaxError(
+        this.position >= this.text.length ? `Unexpected end of file, expected "${char}"` : `Expected "${char}"`
+      )
+    }
+    this.position++
+  }
+
+  readEntryBody(close: string, macros: Map<string, string>): { key: string; fields: Map<string, string> } {
+    const key = this.readIdentifier()
+    if (!key) {
+      throw new BibtexSyntaxError('Entry has no citation key')
+    }
+
+    const fields = new Map<string, string>()
+    while (true) {
+      this.skipWhitespace()
+      const char = this.text[this.position]
+      if (char === close) {
+        this.position++
+        return { key, fields }
+      }
+      if (char !== ',') {
+        throw new BibtexSyntaxError(char === undefined ? 'Unexpected end of file' : `Expected "," or "${close}" after field`)
+      }
+      this.position++
+      this.skipWhitespace()
+      // Trailing comma before the closing delimiter
+      if (this.text[this.position] === close) continue
+
+      const name = this.readIdentifier().toLowerCase()
+      if (!name) {
+        throw new BibtexSyntaxError('Expected a field name')
+      }
+      this.expect('=')
+      fields.set(name, this.readValue(macros))
+    }
+  }
+
+  /**
+   * A braced, quoted, numeric or macro value, possibly concatenated with #.
+   * Returned raw: braces inside the value are kept for name splitting and LaTeX decoding.
+   */
+  readValue(macros: Map<string, string>): string {
+    let value = ''
+    while (true) {
+      this.skipWhitespace()
+      const char = this.text[this.position]
+      if (char === '{') {
+        value += this.readDelimited('}')
+      } else if (char === '"') {
+        value += this.readDelimited('"')
+      } else {
+        const part = this.readIdentifier()
+        if (!part) {
+          throw new BibtexSyntaxError('Expected a field value')
+        }
+        if (/^\d+$/.test(part)) {
+          value += part
+        } else if (macros.has(part.toLowerCase())) {
+          value += macros.get(part.toLowerCase())
+        } else {
+          throw new BibtexSyntaxError(`Undefined string "${part}"`)
+        }
+      }
+
+      this.skipWhitespace()
+      if (this.text[this.position] !== '#') return value
+      this.position++
+    }
+  }
+
+  /**
+   * Text between the delimiters; braces inside must balance
+   */
+  private readDelimited(close: '}' | '"'): string {
+    const start = ++this.position
+    let depth = 0
+    while (this.position < this.text.length) {
+      const char = this.text[this.position]
+      if (char === '\\') {
+        this.position += 2
+        continue
+      }
+      if (char === '{') {
+        depth++
+      } else if (char === '}' && depth > 0) {
+        depth--
+      } else if (char === close && depth === 0) {
+        return this.text.slice(start, this.position++)
+      } else if (char === '}') {
+        throw new BibtexSyntaxError('Unbalanced braces in field value')
+      }
+      this.position++
+    }
+    throw new BibtexSyntaxError('Unexpected end of file inside a field value')
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) {
+      this.position++
+    }
+  }
+}
+
+function toEntry(type: string, key: string, fields: Map<string, string>): BibliographyEntry | string {
+  const title = decodeLatex(fields.get('title') || '')
+  if (!title) {
+    return 'Entry has no title'
+  }
+
+  const journal = fields.get('journal') || fields.get('journaltitle') ||
+    (type === 'inproceedings' || type === 'incollection' ? fields.get('booktitle') : undefined)
+  const doi = fields.get('doi')
+
+  return {
+    key,
+    title,
+    authors: splitBibtexNames(fields.get('author') || ''),
+    journal: journal ? decodeLatex(journal) : undefined,
+    publicationYear: parseYear(fields.get('year') || fields.get('date')),
+    doi: doi ? normalizeDoi(decodeLatex(doi)) : undefined,
+    abstract: cleanString(decodeLatex(fields.get('abstract') || '')),
+    tags: splitKeywords(decodeLatex(fields.get('keywords') || fields.get('keyword') || '')),
+    url: cleanString(fields.get('url'))
+  }
+}
+
+/**
+ * Split an author field on top-level "and"; a fully braced name such as
+ * {World Health Organization} is kept as written
+ */
+function splitBibtexNames(value: string): string[] {
+  const names: string[] = []
+  let depth = 0
+  let current = ''
+  const words = value.split(/(\s+)/)
+
+  for (const word of words) {
+    if (depth === 0 && word.toLowerCase() === 'and') {
+      names.push(current)
+      current = ''
+      continue
+    }
+    for (const char of word) {
+      if (char === '{') depth++
+      else if (char === '}') depth = Math.max(0, depth - 1)
+    }
+    current += word
+  }
+  names.push(current)
+
+  return names
+    .map(name => name.trim())
+    .filter(name => name && name.toLowerCase() !== 'others')
+    .map(name => /^\{[^{}]*\}$/.test(name) ? decodeLatex(name) : parseInvertedName(decodeLatex(name)))
+    .filter(Boolean)
+}
+
+/**
+ * Plain Unicode text from a LaTeX-encoded value
+ */
+export function decodeLatex(value: string): string {
+  return value
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/\\\{/g, '\uE000')
+    .replace(/\\\}/g, '\uE001')
+    .replace(/\\[ij](?![a-zA-Z])/g, match => match[1])
+    .replace(/\\([`'^"~=.uvHckr])\s*\{([a-zA-Z])\}/g, (_, accent: string, letter: string) => letter + LATEX_ACCENTS[accent])
+    .replace(/\\([`'^"~=.])([a-zA-Z])/g, (_, accent: string, letter: string) => letter + LATEX_ACCENTS[accent])
+    .replace(/\\([uvHckr]) ([a-zA-Z])/g, (_, accent: string, letter: string) => letter + LATEX_ACCENTS[accent])
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L)(?![a-zA-Z]) ?/g, (_, letter: string) => LATEX_LETTERS[letter])
+    .replace(/\\(?:textit|textbf|emph|textrm|textsc|mathrm|text)\s*/g, '')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/(^|[^\\])~/g, '$1 ')
+    .replace(/[{}]/g, '')
+    .replace(/\uE000/g, '{')
+    .replace(/\uE001/g, '}')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC')
+}
+
+function escapeLatex(value: string): string {
+  return value
+    .replace(/\\/g, '\\textbackslash ')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/\\textbackslash /g, '\\textbackslash{}')
+}
+
+function formatBibtexName(name: string): string {
+  const person = splitPersonName(name)
+  // Organisations and mononyms are braced so BibTeX does not split them
+  return 'literal' in person ? `{${escapeLatex(person.literal)}}` : escapeLatex(formatInvertedName(name))
+}
+
+function citationKey(paper: ExportablePaper): string {
+  const first = paper.authors[0] ? splitPersonName(paper.authors[0]) : undefined
+  const family = first ? ('literal' in first ? first.literal : first.family) : 'anonymous'
+  const word = paper.title
+    .split(/\s+/)
+    .map(asciiKeyPart)
+    .find(part => part.length > 3) || ''
+
+  return `${asciiKeyPart(family) || 'anonymous'}${paper.publicationYear || ''}${word}`
+}
+
+function asciiKeyPart(value: string): string {
+  return value.normalize('NFKD').replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
+}
+
+function uniqueKey(key: string, used: Set<string>): string {
+  let candidate = key
+  for (let suffix = 0; used.has(candidate); suffix++) {
+    candidate = `${key}${String.fromCharCode(97 + (suffix % 26))}${suffix >= 26 ? Math.floor(suffix / 26) : ''}`
+  }
+  used.add(candidate)
+  return candidate
+}
+
+/**
+ * 1-based line of a position; positions must be asked for in increasing order
+ */
+function lineCounter(text: string): (position: number) => number {
+  let line = 1
+  let scanned = 0
+  return (position: number) => {
+    for (; scanned < position; scanned++) {
+      if (text[scanned] === '\n') line++
+    }
+    return line
+  }
+}
+
+/**
+ * Entries start with "@" at the beginning of a line; anything else outside an
+ * entry is a comment, as in BibTeX itself
+ */
+function nextEntryStart(text: string, from: number): number {
+  const match = /(^|\n)\s*@/g
+  match.lastIndex = from
+  const found = match.exec(text)
+  return found ? found.index + found[0].length - 1 : -1
+}
@@ -0,0 +1,120 @@
+import { parseYear, cleanString, formatPersonName } from '@/services/metadata/normalize'
+import { normalizeDoi } from '@/services/metadata/identifiers'
+import { splitKeywords, splitPersonName } from './names'
+import type { BibliographyEntry, ExportablePaper, ParsedBibliography } from './types'
+
+interface CslName {
+  family?: string
+  given?: string
+  literal?: string
+}
+
+interface CslDate {
+  'date-parts'?: Array<Array<number | string>>
+  raw?: string
+  literal?: string
+}
+
+export interface CslItem {
+  id?: string | number
+  type?: string
+  title?: string
+  author?: CslName[]
+  'container-title'?: string | string[]
+  issued?: CslDate
+  DOI?: string
+  abstract?: string
+  keyword?: string | string[]
+  URL?: string
+}
+
+/**
+ * Parse CSL-JSON: an array of items (a single item object is accepted too)
+ */
+export function parseCslJson(text: string): ParsedBibliography {
+  const result: ParsedBibliography = { entries: [], errors: [] }
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    result.errors.push({ index: 0, message: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` })
+    return result
+  }
+
+  const items = Array.isArray(data) ? data : [data]
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      result.errors.push({ index, message: 'Item is not an object' })
+      return
+    }
+
+    const entry = toEntry(item as CslItem)
+    if (typeof entry === 'string') {
+      const id = (item as CslItem).id
+      result.errors.push({ index, key: id === undefined ? undefined : String(id), message: entry })
+    } else {
+      result.entries.push({ index, entry })
+    }
+  })
+
+  return result
+}
+
+/**
+ * Write papers as a CSL-JSON array, with tags as the comma-separated `keyword` variable
+ */
+export function formatCslJson(papers: ExportablePaper[]): string {
+  return JSON.stringify(papers.map(toCslItem), null, 2) + '\n'
+}
+
+/**
+ * A paper as a CSL-JSON item. Papers with a journal are journal articles.
+ */
+export function toCslItem(paper: ExportablePaper): CslItem {
+  return {
+    id: paper.id,
+    type: paper.journal ? 'article-journal' : 'article',
+    title: paper.title,
+    author: paper.authors.map(author => {
+      const person = splitPersonName(author)
+      return 'literal' in person ? { literal: person.literal } : { family: person.family, given: person.given }
+    }),
+    'container-title': paper.journal,
+    issued: paper.publicationYear ? { 'date-parts': [[paper.publicationYear]] } : undefined,
+    DOI: paper.doi,
+    abstract: paper.abstract,
+    keyword: paper.tags && paper.tags.length > 0 ? paper.tags.join(', ') : undefined,
+    URL: paper.googleDriveUrl
+  }
+}
+
+function toEntry(item: CslItem): BibliographyEntry | string {
+  const title = cleanString(item.title)
+  if (!title) {
+    return 'Item has no title'
+  }
+
+  const containerTitle = Array.isArray(item['container-title']) ? item['container-title'][0] : item['container-title']
+  const keywords = Array.isArray(item.keyword) ? item.keyword.join(',') : item.keyword
+
+  return {
+    key: item.id === undefined ? undefined : String(item.id),
+    title,
+    authors: (Array.isArray(item.author) ? item.author : [])
+      .map(name => cleanString(name.literal) || formatPersonName(name.given, name.family))
+      .filter(Boolean),
+    journal: cleanString(containerTitle),
+    publicationYear: issuedYear(item.issued),
+    doi: typeof item.DOI === 'string' && item.DOI.trim() ? normalizeDoi(item.DOI) : undefined,
+    abstract: cleanString(item.abstract),
+    tags: typeof keywords === 'string' ? splitKeywords(keywords) : [],
+    url: cleanString(item.URL)
+  }
+}
+
+function issuedYear(issued?: CslDate): number | undefined {
+  if (!issued) return undefined
+  const year = issued['date-parts']?.[0]?.[0]
+  return parseYear(year ?? issued.raw ?? issued.literal)
+}
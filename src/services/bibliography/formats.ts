@@ -0,0 +1,52 @@
+import { parseBibtex, formatBibtex } from './bibtex'
+import { parseRis, formatRis } from './ris'
+import { parseCslJson, formatCslJson } from './csl-json'
+import type { BibliographyFormat, BibliographyFormatInfo, ExportablePaper, ParsedBibliography } from './types'
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, BibliographyFormatInfo> = {
+  'bibtex': { format: 'bibtex', label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  'ris': { format: 'ris', label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  'csl-json': { format: 'csl-json', label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' }
+}
+
+export function isBibliographyFormat(value: unknown): value is BibliographyFormat {
+  return typeof value === 'string' && value in BIBLIOGRAPHY_FORMATS
+}
+
+/**
+ * Format from the file extension, falling back to sniffing the content
+ */
+export function detectBibliographyFormat(content: string, fileName?: string): BibliographyFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase()
+  if (extension === 'bib' || extension === 'bibtex') return 'bibtex'
+  if (extension === 'ris') return 'ris'
+  if (extension === 'json') return 'csl-json'
+
+  const start = content.replace(/^\uFEFF/, '').trimStart()
+  if (start.startsWith('[') || start.startsWith('{')) return 'csl-json'
+  if (/^TY {2}- /m.test(content)) return 'ris'
+  if (/(^|\n)\s*@[a-zA-Z]+\s*[{(]/.test(content)) return 'bibtex'
+  return null
+}
+
+export function parseBibliography(content: string, format: BibliographyFormat): ParsedBibliography {
+  switch (format) {
+    case 'bibtex':
+      return parseBibtex(content)
+    case 'ris':
+      return parseRis(content)
+    case 'csl-json':
+      return parseCslJson(content)
+  }
+}
+
+export function formatBibliography(papers: ExportablePaper[], format: BibliographyFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return formatBibtex(papers)
+    case 'ris':
+      return formatRis(papers)
+    case 'csl-json':
+      return formatCslJson(papers)
+  }
+}
@@ -0,0 +1,21 @@
+export { BibliographyService, BibliographyImportError, getBibliographyService } from './BibliographyService'
+export {
+  BIBLIOGRAPHY_FORMATS,
+  isBibliographyFormat,
+  detectBibliographyFormat,
+  parseBibliography,
+  formatBibliography
+} from './formats'
+export { parseBibtex, formatBibtex, decodeLatex } from './bibtex'
+export { parseRis, formatRis } from './ris'
+export { parseCslJson, formatCslJson, toCslItem } from './csl-json'
+export type { BibliographyImportReport, BibliographyExportSelection } from './BibliographyService'
+export type { CslItem } from './csl-json'
+export type {
+  BibliographyFormat,
+  BibliographyFormatInfo,
+  BibliographyEntry,
+  BibliographyParseError,
+  ExportablePaper,
+  ParsedBibliography
+} from './types'
@@ -0,0 +1,53 @@
+import { formatPersonName } from '@/services/metadata/normalize'
+
+export type PersonName = { family: string; given?: string } | { literal: string }
+
+// Lower-case name particles that belong to the family name ("Ludwig van Beethoven")
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'dos', 'la', 'le', 'ten', 'ter', 'bin', 'al'])
+
+/**
+ * Split a library author ("Given Family") into family and given names for
+ * formats that store them separately. Single-word names (organisations,
+ * mononyms) stay literal.
+ */
+export function splitPersonName(name: string): PersonName {
+  const parts = name.replace(/\s+/g, ' ').trim().split(' ')
+  if (parts.length < 2) {
+    return { literal: parts[0] || '' }
+  }
+
+  let familyStart = parts.length - 1
+  while (familyStart > 1 && NAME_PARTICLES.has(parts[familyStart - 1])) {
+    familyStart--
+  }
+
+  return {
+    family: parts.slice(familyStart).join(' '),
+    given: parts.slice(0, familyStart).join(' ')
+  }
+}
+
+/**
+ * "Family, Given" as written by BibTeX and RIS
+ */
+export function formatInvertedName(name: string): string {
+  const person = splitPersonName(name)
+  return 'literal' in person ? person.literal : `${person.family}, ${person.given}`
+}
+
+/**
+ * Parse "Family, Given" or "Family, Suffix, Given" (BibTeX, RIS) into the library's "Given Family"
+ */
+export function parseInvertedName(name: string): string {
+  const parts = name.split(',').map(part => part.trim())
+  if (parts.length === 1) return parts[0]
+  if (parts.length === 2) return formatPersonName(parts[1], parts[0])
+  return formatPersonName(parts.slice(2).join(' '), `${parts[0]} ${parts[1]}`)
+}
+
+/**
+ * Keywords separated by commas or semicolons, without duplicates
+ */
+export function splitKeywords(value: string): string[] {
+  return Array.from(new Set(value.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean)))
+}
@@ -0,0 +1,130 @@
+import { parseYear, cleanString } from '@/services/metadata/normalize'
+import { normalizeDoi } from '@/services/metadata/identifiers'
+import { formatInvertedName, parseInvertedName, splitKeywords } from './names'
+import type { BibliographyEntry, ExportablePaper, ParsedBibliography } from './types'
+
+const TAG_LINE = /^([A-Z][A-Z0-9])  -(?: (.*))?$/
+
+// Publication title tags, most specific first (Zotero writes T2, EndNote JF/JO)
+const JOURNAL_TAGS = ['JF', 'T2', 'JO', 'BT', 'JA', 'J2']
+
+/**
+ * Parse an RIS file. Each record runs from `TY` to `ER`; lines that are not
+ * tagged continue the previous field (wrapped abstracts).
+ */
+export function parseRis(text: string): ParsedBibliography {
+  const result: ParsedBibliography = { entries: [], errors: [] }
+  let record: { line: number; fields: Map<string, string[]> } | null = null
+  let lastTag: string | null = null
+  let index = 0
+
+  const finish = () => {
+    if (!record) return
+    const entry = toEntry(record.fields)
+    if (typeof entry === 'string') {
+      result.errors.push({ index, line: record.line, key: record.fields.get('ID')?.[0], message: entry })
+    } else {
+      result.entries.push({ index, entry })
+    }
+    index++
+    record = null
+    lastTag = null
+  }
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trimEnd()
+    const tagged = TAG_LINE.exec(line)
+
+    if (!tagged) {
+      if (record && lastTag && line.trim()) {
+        const values = record.fields.get(lastTag)!
+        values[values.length - 1] = `${values[values.length - 1]} ${line.trim()}`
+      }
+      return
+    }
+
+    const [, tag, value = ''] = tagged
+    if (tag === 'TY') {
+      if (record) {
+        result.errors.push({ index, line: record.line, message: 'Record has no ER line' })
+        index++
+      }
+      record = { line: i + 1, fields: new Map() }
+    } else if (!record) {
+      if (tag !== 'ER') {
+        result.errors.push({ index, line: i + 1, message: `${tag} line outside a record (missing TY)` })
+        index++
+      }
+      return
+    }
+
+    if (tag === 'ER') {
+      finish()
+      return
+    }
+
+    const values = record.fields.get(tag) || []
+    values.push(value.trim())
+    record.fields.set(tag, values)
+    lastTag = tag
+  })
+
+  // Tolerate a missing ER on the last record
+  finish()
+
+  return result
+}
+
+/**
+ * Write papers as RIS records, with tags as `KW` lines
+ */
+export function formatRis(papers: ExportablePaper[]): string {
+  return papers.map(paper => {
+    const lines: Array<[string, string | undefined]> = [
+      ['TY', paper.journal ? 'JOUR' : 'GEN'],
+      ['TI', paper.title],
+      ...paper.authors.map((author): [string, string] => ['AU', formatInvertedName(author)]),
+      ['T2', paper.journal],
+      ['PY', paper.publicationYear?.toString()],
+      ['DO', paper.doi],
+      ['UR', paper.googleDriveUrl],
+      ['AB', paper.abstract?.replace(/\s+/g, ' ')],
+      ...(paper.tags || []).map((tag): [string, string] => ['KW', tag])
+    ]
+
+    return lines
+      .filter((line): line is [string, string] => !!line[1])
+      .map(([tag, value]) => `${tag}  - ${value}`)
+      .concat('ER  - ')
+      .join('\n')
+  }).join('\n\n') + '\n'
+}
+
+function toEntry(fields: Map<string, string[]>): BibliographyEntry | string {
+  const first = (...tags: string[]) => {
+    for (const tag of tags) {
+      const value = fields.get(tag)?.find(Boolean)
+      if (value) return value
+    }
+    return undefined
+  }
+
+  const title = cleanString(first('TI', 'T1', 'CT'))
+  if (!title) {
+    return 'Record has no title'
+  }
+
+  const doi = first('DO')
+
+  return {
+    key: first('ID'),
+    title,
+    authors: [...(fields.get('AU') || []), ...(fields.get('A1') || [])].filter(Boolean).map(parseInvertedName),
+    journal: cleanString(first(...JOURNAL_TAGS)),
+    publicationYear: parseYear(first('PY', 'Y1', 'DA')),
+    doi: doi ? normalizeDoi(doi) : undefined,
+    abstract: cleanString(first('AB', 'N2')),
+    tags: splitKeywords((fields.get('KW') || []).join(';')),
+    url: first('UR')
+  }
+}
@@ -0,0 +1,45 @@
+import type { Paper } from '@/types'
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl-json'
+
+/**
+ * Paper fields carried by bibliography files. `tags` maps to keywords and is
+ * stored as `UserEvaluation.tags` on import.
+ */
+export type BibliographyEntry = Pick<Paper, 'title' | 'authors'> &
+  Partial<Pick<Paper, 'journal' | 'publicationYear' | 'doi' | 'abstract'>> & {
+    tags: string[]
+    // Citation key (BibTeX), ID (RIS) or id (CSL-JSON) from the source file
+    key?: string
+    url?: string
+  }
+
+/**
+ * A paper to export: the paper itself plus its evaluation tags
+ */
+export type ExportablePaper = Pick<Paper, 'id' | 'title' | 'authors'> &
+  Partial<Pick<Paper, 'journal' | 'publicationYear' | 'doi' | 'abstract' | 'googleDriveUrl'>> & {
+    tags?: string[]
+  }
+
+export interface BibliographyParseError {
+  // Position of the entry in the file, counting from 0
+  index: number
+  // 1-based line the entry starts on, when the format has lines
+  line?: number
+  key?: string
+  message: string
+}
+
+export interface ParsedBibliography {
+  // Entries in file order; `index` matches BibliographyParseError.index
+  entries: Array<{ index: number; entry: BibliographyEntry }>
+  errors: BibliographyParseError[]
+}
+
+export interface BibliographyFormatInfo {
+  format: BibliographyFormat
+  label: string
+  extension: string
+  mimeType: string
+}
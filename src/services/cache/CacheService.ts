@@ -101,6 +101,7 @@ export class CacheService {
       { pattern: 'user:*:profile', description: 'User profile data', ttl: 3600 },
       { pattern: 'paper:*:analysis', description: 'AI analysis results', ttl: 86400 },
       { pattern: 'search:*', description: 'Search results', ttl: 1800 },
+      { pattern: 'metadata:*', description: 'Resolved DOI/arXiv/PubMed metadata', ttl: 604800 },
       { pattern: 'api:*:usage', description: 'API usage metrics', ttl: 300 },
       { pattern: 'health:*', description: 'Health check results', ttl: 60 },
       { pattern: 'notifications:*', description: 'User notifications', ttl: 3600 }
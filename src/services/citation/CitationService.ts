@@ -0,0 +1,278 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import type { Paper as PaperRow } from '@/lib/database'
+import { toCslItem } from '@/services/bibliography/csl-json'
+import type { Paper } from '@/types'
+import { CslStyleError, parseCslStyle, type CitationOutputFormat, type CslItem, type CslStyle } from './CslStyle'
+import { BUILT_IN_CITATION_STYLES, getBuiltInStyle, isBuiltInCitationStyle, type BuiltInCitationStyle } from './styles'
+
+export interface CitationStyleSummary {
+  // Built-in style name ('apa', 'ieee', ...) or the id of an uploaded style
+  id: string
+  name: string
+  builtIn: boolean
+  // Numbered styles cite as [1] or a superscript rather than author and year
+  numeric: boolean
+  createdAt?: Date
+}
+
+export interface FormattedCitation {
+  paperId: string
+  inline: string
+  bibliography: string
+}
+
+export interface FormattedCitations {
+  // In the order the papers were given
+  citations: FormattedCitation[]
+  // Entries in the style's bibliography order
+  bibliography: string[]
+}
+
+/**
+ * The paper fields citations use
+ */
+export type CitablePaper = Pick<Paper, 'id' | 'title' | 'authors'> &
+  Partial<Pick<Paper, 'journal' | 'publicationYear' | 'doi'>>
+
+export class CitationStyleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CitationStyleError'
+  }
+}
+
+const CITATION_STYLES_TABLE = 'citation_styles'
+const ID_CHUNK_SIZE = 200
+const MAX_STYLE_SIZE = 512 * 1024
+const MAX_NAME_LENGTH = 255
+
+/**
+ * Formats papers as inline citations and bibliography entries with the
+ * built-in CSL styles or styles the user uploaded
+ */
+export class CitationService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  /**
+   * Built-in styles followed by the user's uploaded styles
+   */
+  async listStyles(userId: string): Promise<CitationStyleSummary[]> {
+    const { data, error } = await this.supabase
+      .from(CITATION_STYLES_TABLE)
+      .select('id, name, xml, created_at')
+      .eq('user_id', userId)
+      .order('name')
+
+    if (error) {
+      throw new Error(`Failed to load citation styles: ${error.message}`)
+    }
+
+    const builtIn = Object.entries(BUILT_IN_CITATION_STYLES).map(([id, info]) => ({
+      id,
+      name: info.label,
+      builtIn: true,
+      numeric: getBuiltInStyle(id as BuiltInCitationStyle).isNumeric
+    }))
+
+    const uploaded = (data || []).map(row => ({
+      id: row.id,
+      name: row.name,
+      builtIn: false,
+      numeric: isNumericStyle(row.xml),
+      createdAt: new Date(row.created_at)
+    }))
+
+    return [...builtIn, ...uploaded]
+  }
+
+  /**
+   * Store an uploaded CSL file; throws CitationStyleError when it is not a usable style
+   */
+  async createStyle(userId: string, xml: string): Promise<CitationStyleSummary> {
+    if (!xml.trim()) {
+      throw new CitationStyleError('Style file is empty')
+    }
+    if (xml.length > MAX_STYLE_SIZE) {
+      throw new CitationStyleError('Style file is larger than 512 KB')
+    }
+
+    const style = parseStyle(xml)
+    if (!style.hasBibliography) {
+      throw new CitationStyleError('Style has no <bibliography> layout')
+    }
+
+    const { data, error } = await this.supabase
+      .from(CITATION_STYLES_TABLE)
+      .insert({ user_id: userId, name: style.title.slice(0, MAX_NAME_LENGTH), xml })
+      .select('id, name, created_at')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save citation style: ${error.message}`)
+    }
+
+    return { id: data.id, name: data.name, builtIn: false, numeric: style.isNumeric, createdAt: new Date(data.created_at) }
+  }
+
+  /**
+   * Delete an uploaded style; returns false when it does not exist
+   */
+  async deleteStyle(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(CITATION_STYLES_TABLE)
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete citation style: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * A built-in style by name, or one of the user's uploaded styles by id.
+   * Uploaded styles need a user; returns null when the style does not exist.
+   */
+  async getStyle(userId: string | null, styleId: string): Promise<CslStyle | null> {
+    if (isBuiltInCitationStyle(styleId)) {
+      return getBuiltInStyle(styleId)
+    }
+    if (!userId) {
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from(CITATION_STYLES_TABLE)
+      .select('xml')
+      .eq('user_id', userId)
+      .eq('id', styleId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116' || error.code === '22P02') {
+        return null
+      }
+      throw new Error(`Failed to load citation style: ${error.message}`)
+    }
+
+    return parseStyle(data.xml)
+  }
+
+  /**
+   * Cite papers from the user's library. Papers that are not in the library are skipped.
+   */
+  async citePapers(
+    userId: string,
+    paperIds: string[],
+    styleId: string,
+    format: CitationOutputFormat = 'text'
+  ): Promise<FormattedCitations> {
+    const style = await this.getStyle(userId, styleId)
+    if (!style) {
+      throw new CitationStyleError(`Unknown citation style "${styleId}"`)
+    }
+
+    const rows = await this.loadPapersById(userId, paperIds)
+    return formatCitations(rows.map(mapPaperRow), style, format)
+  }
+
+  private async loadPapersById(userId: string, paperIds: string[]): Promise<PaperRow[]> {
+    const ids = Array.from(new Set(paperIds))
+    const rows: PaperRow[] = []
+
+    for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .select('*')
+        .eq('created_by', userId)
+        .in('id', ids.slice(start, start + ID_CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load papers: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+    }
+
+    const rowsById = new Map(rows.map(row => [row.id, row]))
+    return ids.map(id => rowsById.get(id)).filter((row): row is PaperRow => !!row)
+  }
+}
+
+/**
+ * Format papers with a style. Numbered styles number the papers in
+ * bibliography order, which is the given order unless the style sorts.
+ */
+export function formatCitations(
+  papers: CitablePaper[],
+  style: CslStyle,
+  format: CitationOutputFormat = 'text'
+): FormattedCitations {
+  const items: CslItem[] = papers.map(({ id, title, authors, journal, publicationYear, doi }) => ({
+    ...toCslItem({ id, title, authors: authors || [], journal, publicationYear, doi }),
+    id
+  }))
+  const sorted = style.sortBibliography(items)
+  sorted.forEach((item, index) => {
+    item['citation-number'] = index + 1
+  })
+
+  const bibliography = style.formatBibliography(sorted, format)
+  const entries = new Map(sorted.map((item, index) => [item.id, bibliography[index]]))
+
+  return {
+    citations: items.map(item => ({
+      paperId: String(item.id),
+      inline: style.formatCitation([item], format),
+      bibliography: entries.get(item.id) || ''
+    })),
+    bibliography: bibliography.filter(Boolean)
+  }
+}
+
+function parseStyle(xml: string): CslStyle {
+  try {
+    return parseCslStyle(xml)
+  } catch (error) {
+    if (error instanceof CslStyleError) {
+      throw new CitationStyleError(error.message)
+    }
+    throw error
+  }
+}
+
+function isNumericStyle(xml: string): boolean {
+  try {
+    return parseCslStyle(xml).isNumeric
+  } catch {
+    return false
+  }
+}
+
+function mapPaperRow(row: PaperRow): CitablePaper {
+  return {
+    id: row.id,
+    title: row.title,
+    authors: row.authors || [],
+    journal: row.journal || undefined,
+    publicationYear: row.publication_year || undefined,
+    doi: row.doi || undefined
+  }
+}
+
+let citationServiceInstance: CitationService | null = null
+
+export function getCitationService(): CitationService {
+  if (!citationServiceInstance) {
+    citationServiceInstance = new CitationService()
+  }
+  return citationServiceInstance
+}
@@ -0,0 +1,635 @@
+import { childElement, childElements, parseXml, XmlSyntaxError, type XmlNode } from './xml'
+import { applyLocaleTerms, defaultTerms, lookupTerm, type TermForm, type TermTable } from './locale'
+
+export type CitationOutputFormat = 'text' | 'html'
+
+export interface CslName {
+  family?: string
+  given?: string
+  literal?: string
+}
+
+export interface CslDate {
+  'date-parts'?: Array<Array<number | string>>
+  raw?: string
+  literal?: string
+}
+
+/**
+ * A CSL-JSON item. Names are arrays of CslName and dates are CslDate; every
+ * other variable is a string or number.
+ */
+export interface CslItem {
+  id: string | number
+  type?: string
+  [variable: string]: unknown
+}
+
+export class CslStyleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CslStyleError'
+  }
+}
+
+interface RenderContext {
+  item: CslItem
+  format: CitationOutputFormat
+  nameOptions: Record<string, string>
+  // Variables already rendered through cs:substitute, which CSL renders only once
+  suppressed: Set<string>
+  // Variables called and variables that rendered something, for group suppression
+  counts: { called: number; rendered: number }
+}
+
+const NAME_VARIABLES = new Set([
+  'author', 'editor', 'translator', 'container-author', 'collection-editor', 'composer', 'director',
+  'editorial-director', 'illustrator', 'interviewer', 'original-author', 'recipient', 'reviewed-author'
+])
+const DATE_VARIABLES = new Set(['issued', 'accessed', 'event-date', 'original-date', 'submitted'])
+
+// Name options cs:style, cs:citation and cs:bibliography pass down to cs:name
+const INHERITED_NAME_OPTIONS: Record<string, string> = {
+  'and': 'and',
+  'delimiter-precedes-et-al': 'delimiter-precedes-et-al',
+  'delimiter-precedes-last': 'delimiter-precedes-last',
+  'et-al-min': 'et-al-min',
+  'et-al-use-first': 'et-al-use-first',
+  'initialize': 'initialize',
+  'initialize-with': 'initialize-with',
+  'name-as-sort-order': 'name-as-sort-order',
+  'sort-separator': 'sort-separator',
+  'name-form': 'form',
+  'name-delimiter': 'delimiter'
+}
+
+const TITLE_CASE_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'down', 'for', 'from', 'in', 'into', 'nor', 'of', 'on',
+  'onto', 'or', 'over', 'so', 'the', 'till', 'to', 'up', 'via', 'with', 'yet'
+])
+
+/**
+ * A parsed CSL style. Supports the parts of CSL 1.0 that journal styles rely on
+ * for articles: names, dates, terms, macros, groups, conditionals, affixes,
+ * formatting and bibliography sorting. Disambiguation, year suffixes and cite
+ * collapsing are not implemented.
+ */
+export class CslStyle {
+  readonly title: string
+  readonly styleClass: 'in-text' | 'note'
+  readonly isNumeric: boolean
+  readonly hasBibliography: boolean
+
+  private macros = new Map<string, XmlNode>()
+  private terms: TermTable = defaultTerms()
+  private citation: XmlNode
+  private bibliography?: XmlNode
+  private styleOptions: Record<string, string>
+
+  constructor(root: XmlNode) {
+    if (root.name !== 'style') {
+      throw new CslStyleError('Not a CSL style: the root element must be <style>')
+    }
+
+    const citation = childElement(root, 'citation')
+    if (!citation || !childElement(citation, 'layout')) {
+      throw new CslStyleError('CSL style has no <citation> layout')
+    }
+
+    const info = childElement(root, 'info')
+    this.title = (info && childElement(info, 'title')?.text.trim()) || 'Untitled style'
+    this.styleClass = root.attributes.class === 'note' ? 'note' : 'in-text'
+    this.citation = citation
+    this.bibliography = childElement(root, 'bibliography')
+    this.hasBibliography = !!this.bibliography && !!childElement(this.bibliography, 'layout')
+    this.styleOptions = root.attributes
+
+    for (const macro of childElements(root, 'macro')) {
+      if (macro.attributes.name) this.macros.set(macro.attributes.name, macro)
+    }
+    applyLocaleTerms(this.terms, childElements(root, 'locale'))
+
+    this.isNumeric = this.callsVariable(childElement(citation, 'layout')!, 'citation-number', new Set())
+  }
+
+  /**
+   * One inline citation for the items, e.g. "(Vaswani et al., 2017)" or "[1, 2]".
+   * Numeric styles read each item's `citation-number`.
+   */
+  formatCitation(items: CslItem[], format: CitationOutputFormat = 'text'): string {
+    const layout = childElement(this.citation, 'layout')!
+    const rendered = items
+      .map(item => this.renderChildren(layout, this.createContext(item, format, this.citation)))
+      .filter(Boolean)
+    if (rendered.length === 0) return ''
+
+    return cleanup(this.decorate(layout, rendered.join(layout.attributes.delimiter ?? ''), format), format)
+  }
+
+  /**
+   * One bibliography entry per item, in the order given (see sortBibliography)
+   */
+  formatBibliography(items: CslItem[], format: CitationOutputFormat = 'text'): string[] {
+    if (!this.bibliography) return []
+    const layout = childElement(this.bibliography, 'layout')!
+
+    return items.map(item => {
+      const entry = this.renderChildren(layout, this.createContext(item, format, this.bibliography!))
+      return entry ? cleanup(this.decorate(layout, entry, format), format) : ''
+    })
+  }
+
+  /**
+   * Items in the bibliography's `<sort>` order, or unchanged when it has none
+   */
+  sortBibliography<T extends CslItem>(items: T[]): T[] {
+    const sort = this.bibliography && childElement(this.bibliography, 'sort')
+    const keys = sort ? childElements(sort, 'key') : []
+    if (keys.length === 0) return items.slice()
+
+    const sortKeys = new Map(items.map(item => [
+      item,
+      keys.map(key => this.sortKey(key, this.createContext(item, 'text', this.bibliography!)))
+    ]))
+
+    return items.slice().sort((a, b) => {
+      for (let i = 0; i < keys.length; i++) {
+        const order = compareSortValues(sortKeys.get(a)![i], sortKeys.get(b)![i], keys[i].attributes.sort === 'descending')
+        if (order !== 0) return order
+      }
+      return 0
+    })
+  }
+
+  private createContext(item: CslItem, format: CitationOutputFormat, section: XmlNode): RenderContext {
+    const nameOptions: Record<string, string> = {}
+    for (const source of [this.styleOptions, section.attributes]) {
+      for (const [attribute, option] of Object.entries(INHERITED_NAME_OPTIONS)) {
+        if (source[attribute] !== undefined) nameOptions[option] = source[attribute]
+      }
+    }
+    return { item, format, nameOptions, suppressed: new Set(), counts: { called: 0, rendered: 0 } }
+  }
+
+  private sortKey(key: XmlNode, ctx: RenderContext): string | number {
+    const variable = key.attributes.variable
+    if (variable) {
+      const value = ctx.item[variable]
+      if (NAME_VARIABLES.has(variable)) {
+        return (Array.isArray(value) ? value as CslName[] : [])
+          .map(name => name.literal || [name.family, name.given].filter(Boolean).join(' '))
+          .join(' ')
+          .toLowerCase()
+      }
+      if (DATE_VARIABLES.has(variable)) {
+        const { year, month, day } = dateParts(value as CslDate | undefined)
+        return year === undefined ? '' : year * 10000 + (month || 0) * 100 + (day || 0)
+      }
+      return typeof value === 'number' ? value : scalarText(value).toLowerCase()
+    }
+
+    const macro = key.attributes.macro && this.macros.get(key.attributes.macro)
+    if (!macro) return ''
+    const options = { ...ctx.nameOptions }
+    if (key.attributes['names-min']) options['et-al-min'] = key.attributes['names-min']
+    if (key.attributes['names-use-first']) options['et-al-use-first'] = key.attributes['names-use-first']
+    return this.renderChildren(macro, { ...ctx, nameOptions: options }).toLowerCase()
+  }
+
+  private renderChildren(node: XmlNode, ctx: RenderContext): string {
+    return node.children.map(child => this.render(child, ctx)).join('')
+  }
+
+  private render(node: XmlNode, ctx: RenderContext): string {
+    switch (node.name) {
+      case 'text':
+        return this.renderText(node, ctx)
+      case 'number':
+        return this.decorate(node, this.variable(ctx, node.attributes.variable), ctx.format)
+      case 'label':
+        return this.renderLabel(node, ctx, node.attributes.variable)
+      case 'names':
+        return this.renderNames(node, ctx)
+      case 'date':
+        return this.renderDate(node, ctx)
+      case 'group':
+        return this.renderGroup(node, ctx)
+      case 'choose':
+        return this.renderChoose(node, ctx)
+      default:
+        return ''
+    }
+  }
+
+  private renderText(node: XmlNode, ctx: RenderContext): string {
+    const { variable, macro, term, value } = node.attributes
+    let text = ''
+
+    if (variable) {
+      text = this.variable(ctx, variable, node.attributes.form)
+    } else if (macro) {
+      const macroNode = this.macros.get(macro)
+      if (!macroNode) throw new CslStyleError(`Undefined macro "${macro}"`)
+      text = this.renderChildren(macroNode, ctx)
+    } else if (term) {
+      text = escape(lookupTerm(this.terms, term, node.attributes.form as TermForm, node.attributes.plural === 'true'), ctx.format)
+    } else if (value !== undefined) {
+      text = escape(value, ctx.format)
+    }
+
+    return this.decorate(node, text, ctx.format)
+  }
+
+  private variable(ctx: RenderContext, name: string | undefined, form?: string): string {
+    if (!name) return ''
+    ctx.counts.called++
+    if (ctx.suppressed.has(name)) return ''
+
+    const value = (form === 'short' && scalarText(ctx.item[`${name}-short`])) || scalarText(ctx.item[name])
+    if (value) ctx.counts.rendered++
+    return escape(value, ctx.format)
+  }
+
+  private renderLabel(node: XmlNode, ctx: RenderContext, variable: string | undefined, count?: number): string {
+    if (!variable) return ''
+    const value = ctx.item[variable]
+    if (value === undefined || value === null || value === '' || ctx.suppressed.has(variable)) return ''
+
+    const plural = node.attributes.plural === 'always' ||
+      (node.attributes.plural !== 'never' && (count !== undefined ? count > 1 : /[-,&\u2013]/.test(String(value))))
+    const term = lookupTerm(this.terms, variable === 'page' || variable === 'locator' ? 'page' : variable, (node.attributes.form || 'long') as TermForm, plural)
+    return this.decorate(node, escape(term, ctx.format), ctx.format)
+  }
+
+  private renderNames(node: XmlNode, ctx: RenderContext, inherited?: XmlNode): string {
+    const variables = (node.attributes.variable || '').split(/\s+/).filter(Boolean)
+    const nameNode = childElement(node, 'name') || (inherited && childElement(inherited, 'name'))
+    const etAlNode = childElement(node, 'et-al') || (inherited && childElement(inherited, 'et-al'))
+    const labelNode = childElement(node, 'label') || (inherited && childElement(inherited, 'label'))
+    const options = { ...ctx.nameOptions, ...(nameNode?.attributes || {}) }
+
+    ctx.counts.called++
+    const lists = variables
+      .filter(variable => !ctx.suppressed.has(variable))
+      .map(variable => ({ variable, names: Array.isArray(ctx.item[variable]) ? ctx.item[variable] as CslName[] : [] }))
+      .filter(({ names }) => names.length > 0)
+      .map(({ variable, names }) => {
+        let list = this.formatNameList(names, options, etAlNode, ctx.format)
+        if (nameNode) list = this.decorate(nameNode, list, ctx.format)
+        const label = labelNode ? this.renderLabel(labelNode, ctx, variable, names.length) : ''
+        const labelFirst = !!labelNode && !!nameNode && node.children.indexOf(labelNode) < node.children.indexOf(nameNode)
+        return labelFirst ? label + list : list + label
+      })
+
+    if (lists.length > 0) {
+      ctx.counts.rendered++
+      return this.decorate(node, lists.join(node.attributes.delimiter ?? ''), ctx.format)
+    }
+
+    const substitute = childElement(node, 'substitute')
+    for (const child of substitute?.children || []) {
+      const text = child.name === 'names' ? this.renderNames(child, ctx, node) : this.render(child, ctx)
+      if (text) {
+        ctx.counts.rendered++
+        for (const variable of (child.attributes.variable || '').split(/\s+/).filter(Boolean)) {
+          ctx.suppressed.add(variable)
+        }
+        return this.decorate(node, text, ctx.format)
+      }
+    }
+    return ''
+  }
+
+  private formatNameList(
+    names: CslName[],
+    options: Record<string, string>,
+    etAlNode: XmlNode | undefined,
+    format: CitationOutputFormat
+  ): string {
+    const etAlMin = Number(options['et-al-min']) || 0
+    const useFirst = Number(options['et-al-use-first']) || 1
+    const truncated = etAlMin > 0 && names.length >= etAlMin ? names.slice(0, useFirst) : names
+    if (options.form === 'count') return String(truncated.length)
+
+    const rendered = truncated.map((name, index) => escape(formatName(name, index, options), format))
+    const delimiter = options.delimiter ?? ', '
+    const lastInverted = isInverted(options, rendered.length - 1)
+
+    if (truncated.length < names.length) {
+      const precedes = options['delimiter-precedes-et-al'] || 'contextual'
+      const useDelimiter = precedes === 'always' ||
+        (precedes === 'contextual' && rendered.length > 1) ||
+        (precedes === 'after-inverted-name' && lastInverted)
+      const term = lookupTerm(this.terms, etAlNode?.attributes.term || 'et-al')
+      const etAl = etAlNode ? this.decorate(etAlNode, escape(term, format), format) : escape(term, format)
+      return rendered.join(delimiter) + (useDelimiter ? delimiter : ' ') + etAl
+    }
+
+    const and = options.and === 'text' ? lookupTerm(this.terms, 'and') : options.and === 'symbol' ? '&' : ''
+    if (rendered.length === 1 || !and) {
+      return rendered.join(delimiter)
+    }
+
+    const precedes = options['delimiter-precedes-last'] || 'contextual'
+    const useDelimiter = precedes === 'always' ||
+      (precedes === 'contextual' && rendered.length > 2) ||
+      (precedes === 'after-inverted-name' && isInverted(options, rendered.length - 2))
+    return rendered.slice(0, -1).join(delimiter) + (useDelimiter ? delimiter : ' ') + escape(and, format) + ' ' + rendered[rendered.length - 1]
+  }
+
+  private renderDate(node: XmlNode, ctx: RenderContext): string {
+    const variable = node.attributes.variable
+    if (!variable) return ''
+    ctx.counts.called++
+    if (ctx.suppressed.has(variable)) return ''
+
+    const value = ctx.item[variable] as CslDate | undefined
+    const parts = dateParts(value)
+    if (parts.year === undefined) {
+      const literal = value?.literal || value?.raw
+      if (literal) ctx.counts.rendered++
+      return literal ? this.decorate(node, escape(literal, ctx.format), ctx.format) : ''
+    }
+    ctx.counts.rendered++
+
+    let text: string
+    const form = node.attributes.form
+    if (form === 'text' || form === 'numeric') {
+      const precision = node.attributes['date-parts'] || 'year-month-day'
+      const month = precision !== 'year' ? parts.month : undefined
+      const day = precision === 'year-month-day' && month ? parts.day : undefined
+      text = form === 'numeric'
+        ? [month, day, parts.year].filter(part => part !== undefined).join('/')
+        : [month && lookupTerm(this.terms, monthTerm(month)), day && `${day},`, parts.year].filter(Boolean).join(' ')
+      text = escape(text, ctx.format)
+    } else {
+      text = childElements(node, 'date-part')
+        .map(part => this.renderDatePart(part, parts, ctx.format))
+        .filter(Boolean)
+        .join(node.attributes.delimiter ?? '')
+    }
+
+    return this.decorate(node, text, ctx.format)
+  }
+
+  private renderDatePart(node: XmlNode, parts: DateParts, format: CitationOutputFormat): string {
+    const form = node.attributes.form
+    let text = ''
+
+    switch (node.attributes.name) {
+      case 'year':
+        text = parts.year === undefined ? '' : form === 'short' ? String(parts.year).slice(-2) : String(parts.year)
+        break
+      case 'month':
+        if (!parts.month) break
+        text = form === 'numeric' ? String(parts.month)
+          : form === 'numeric-leading-zeros' ? String(parts.month).padStart(2, '0')
+          : lookupTerm(this.terms, monthTerm(parts.month), form === 'short' ? 'short' : 'long')
+        break
+      case 'day':
+        if (!parts.day) break
+        text = form === 'numeric-leading-zeros' ? String(parts.day).padStart(2, '0')
+          : form === 'ordinal' ? ordinal(parts.day)
+          : String(parts.day)
+        break
+    }
+
+    return this.decorate(node, escape(text, format), format)
+  }
+
+  private renderGroup(node: XmlNode, ctx: RenderContext): string {
+    const before = { ...ctx.counts }
+    const rendered = node.children.map(child => this.render(child, ctx)).filter(Boolean)
+
+    // CSL suppresses a group that calls variables when none of them has a value
+    const called = ctx.counts.called - before.called
+    const nonEmpty = ctx.counts.rendered - before.rendered
+    if (rendered.length === 0 || (called > 0 && nonEmpty === 0)) {
+      return ''
+    }
+
+    // A rendered group counts as a rendered variable for enclosing groups
+    if (called === 0) ctx.counts.rendered++
+    return this.decorate(node, rendered.join(node.attributes.delimiter ?? ''), ctx.format)
+  }
+
+  private renderChoose(node: XmlNode, ctx: RenderContext): string {
+    for (const branch of node.children) {
+      if (branch.name === 'else' || ((branch.name === 'if' || branch.name === 'else-if') && this.test(branch, ctx))) {
+        return this.renderChildren(branch, ctx)
+      }
+    }
+    return ''
+  }
+
+  private test(branch: XmlNode, ctx: RenderContext): boolean {
+    const results: boolean[] = []
+    const values = (attribute: string) => (branch.attributes[attribute] || '').split(/\s+/).filter(Boolean)
+
+    values('type').forEach(type => results.push(ctx.item.type === type))
+    values('variable').forEach(variable => results.push(hasValue(ctx.item[variable]) && !ctx.suppressed.has(variable)))
+    values('is-numeric').forEach(variable => results.push(/^\s*\d+/.test(scalarText(ctx.item[variable]))))
+    // Position, locator and disambiguation only apply to cite clusters, which are not tracked
+    ;['position', 'locator', 'is-uncertain-date'].forEach(attribute => values(attribute).forEach(() => results.push(false)))
+    if (branch.attributes.disambiguate) results.push(false)
+
+    switch (branch.attributes.match) {
+      case 'any':
+        return results.some(Boolean)
+      case 'none':
+        return !results.some(Boolean)
+      default:
+        return results.every(Boolean)
+    }
+  }
+
+  /**
+   * Apply text-case, formatting, quotes and affixes (outermost) to rendered text
+   */
+  private decorate(node: XmlNode, text: string, format: CitationOutputFormat): string {
+    if (!text) return ''
+    const attributes = node.attributes
+
+    if (attributes['text-case']) text = applyTextCase(text, attributes['text-case'])
+    if (attributes['strip-periods'] === 'true') text = mapTextOutsideTags(text, part => part.replace(/\./g, ''))
+
+    if (format === 'html') {
+      if (attributes['font-style'] === 'italic' || attributes['font-style'] === 'oblique') text = `<i>${text}</i>`
+      if (attributes['font-weight'] === 'bold') text = `<b>${text}</b>`
+      if (attributes['font-variant'] === 'small-caps') text = `<span style="font-variant:small-caps">${text}</span>`
+      if (attributes['vertical-align'] === 'sup') text = `<sup>${text}</sup>`
+      if (attributes['vertical-align'] === 'sub') text = `<sub>${text}</sub>`
+    }
+    if (attributes.quotes === 'true') {
+      text = lookupTerm(this.terms, 'open-quote') + text + lookupTerm(this.terms, 'close-quote')
+    }
+
+    return escape(attributes.prefix || '', format) + text + escape(attributes.suffix || '', format)
+  }
+
+  private callsVariable(node: XmlNode, variable: string, visited: Set<string>): boolean {
+    if (node.attributes.variable?.split(/\s+/).includes(variable)) return true
+    const macro = node.name === 'text' ? node.attributes.macro : undefined
+    if (macro && !visited.has(macro)) {
+      visited.add(macro)
+      const macroNode = this.macros.get(macro)
+      if (macroNode && this.callsVariable(macroNode, variable, visited)) return true
+    }
+    return node.children.some(child => this.callsVariable(child, variable, visited))
+  }
+}
+
+/**
+ * Parse and validate a CSL style file
+ */
+export function parseCslStyle(xml: string): CslStyle {
+  try {
+    return new CslStyle(parseXml(xml))
+  } catch (error) {
+    if (error instanceof XmlSyntaxError) {
+      throw new CslStyleError(`Invalid CSL XML: ${error.message}`)
+    }
+    throw error
+  }
+}
+
+interface DateParts {
+  year?: number
+  month?: number
+  day?: number
+}
+
+function dateParts(value: CslDate | undefined): DateParts {
+  const [year, month, day] = (value?.['date-parts']?.[0] || []).map(part => Number(part))
+  if (year && Number.isFinite(year)) {
+    return { year, month: month || undefined, day: day || undefined }
+  }
+
+  const raw = value?.raw?.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/)
+  return raw ? { year: Number(raw[1]), month: Number(raw[2]) || undefined, day: Number(raw[3]) || undefined } : {}
+}
+
+function formatName(name: CslName, index: number, options: Record<string, string>): string {
+  if (name.literal || !name.family) {
+    return name.literal || name.given || ''
+  }
+  if (options.form === 'short') {
+    return name.family
+  }
+
+  let given = name.given || ''
+  if (given && options['initialize-with'] !== undefined && options.initialize !== 'false') {
+    given = initialize(given, options['initialize-with'])
+  }
+
+  if (!given) return name.family
+  return isInverted(options, index)
+    ? `${name.family}${options['sort-separator'] ?? ', '}${given}`
+    : `${given} ${name.family}`
+}
+
+function isInverted(options: Record<string, string>, index: number): boolean {
+  return options['name-as-sort-order'] === 'all' || (options['name-as-sort-order'] === 'first' && index === 0)
+}
+
+/**
+ * "Jean-Paul Marie" with ". " becomes "J.-P. M."; with "" it becomes "JPM"
+ */
+function initialize(given: string, initializeWith: string): string {
+  const mark = initializeWith.trimEnd()
+  const gap = initializeWith.slice(mark.length)
+
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word
+      .split('-')
+      .filter(Boolean)
+      .map(part => part.charAt(0).toUpperCase() + mark)
+      .join(mark ? '-' : ''))
+    .join(gap)
+    .trim()
+}
+
+function monthTerm(month: number): string {
+  return `month-${String(month).padStart(2, '0')}`
+}
+
+function ordinal(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th'
+  return `${day}${suffix}`
+}
+
+function scalarText(value: unknown): string {
+  if (typeof value === 'string') return value.trim()
+  if (typeof value === 'number') return String(value)
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0].trim()
+  return ''
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  if (value && typeof value === 'object') return dateParts(value as CslDate).year !== undefined || !!(value as CslDate).literal
+  return scalarText(value) !== ''
+}
+
+function compareSortValues(a: string | number, b: string | number, descending: boolean): number {
+  // Items missing a key sort last in either direction
+  if (a === '' || b === '') return a === b ? 0 : a === '' ? 1 : -1
+  const order = typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))
+  return descending ? -order : order
+}
+
+function escape(text: string, format: CitationOutputFormat): string {
+  return format === 'html'
+    ? text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    : text
+}
+
+function mapTextOutsideTags(text: string, transform: (part: string, index: number) => string): string {
+  let textIndex = 0
+  return text
+    .split(/(<[^>]+>)/)
+    .map(part => part.startsWith('<') && part.endsWith('>') ? part : transform(part, textIndex++))
+    .join('')
+}
+
+function applyTextCase(text: string, textCase: string): string {
+  switch (textCase) {
+    case 'lowercase':
+      return mapTextOutsideTags(text, part => part.toLowerCase())
+    case 'uppercase':
+      return mapTextOutsideTags(text, part => part.toUpperCase())
+    case 'capitalize-first':
+    case 'sentence':
+      return mapTextOutsideTags(text, (part, index) => index === 0 ? part.charAt(0).toUpperCase() + part.slice(1) : part)
+    case 'capitalize-all':
+      return mapTextOutsideTags(text, part => part.replace(/\b([a-z])/g, letter => letter.toUpperCase()))
+    case 'title': {
+      let first = true
+      return mapTextOutsideTags(text, part => part.replace(/[A-Za-z][\w'\u2019]*/g, word => {
+        const keepLower = !first && TITLE_CASE_STOP_WORDS.has(word.toLowerCase())
+        first = false
+        return keepLower || word !== word.toLowerCase() ? word : word.charAt(0).toUpperCase() + word.slice(1)
+      }))
+    }
+    default:
+      return text
+  }
+}
+
+/**
+ * Tidy punctuation where affixes meet: doubled periods ("et al.."), spaces before
+ * commas, and (en-US) commas and periods moved inside closing quotes
+ */
+function cleanup(text: string, format: CitationOutputFormat): string {
+  const tag = format === 'html' ? '((?:</[a-z]+>)*)' : '()'
+  return text
+    .replace(new RegExp(`\u201D${tag}([.,])`, 'g'), '$2\u201D$1')
+    .replace(new RegExp(`([.?!])${tag}([.,])`, 'g'), (match, mark: string, tags: string, next: string) =>
+      mark === '.' && next === ',' ? match : mark + tags)
+    .replace(/\s+([,.;:])/g, '$1')
+    .replace(/,,/g, ',')
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+}
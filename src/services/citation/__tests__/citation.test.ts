@@ -0,0 +1,240 @@
+import { formatCitations, type CitablePaper } from '../CitationService'
+import { CslStyleError, parseCslStyle, type CslItem } from '../CslStyle'
+import { getBuiltInStyle, type BuiltInCitationStyle } from '../styles'
+import { parseXml, XmlSyntaxError } from '../xml'
+
+const papers: CitablePaper[] = [
+  {
+    id: 'p1',
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+    journal: 'Advances in Neural Information Processing Systems',
+    publicationYear: 2017,
+    doi: '10.48550/arxiv.1706.03762'
+  },
+  {
+    id: 'p2',
+    title: 'Deep Residual Learning for Image Recognition?',
+    authors: ['Kaiming He', 'Xiangyu Zhang'],
+    publicationYear: 2016
+  },
+  {
+    id: 'p3',
+    title: 'A Report',
+    authors: ['UNESCO']
+  }
+]
+
+describe('built-in styles', () => {
+  it.each([
+    [
+      'apa',
+      ['(Vaswani et al., 2017)', '(He & Zhang, 2016)', '(UNESCO, n.d.)'],
+      [
+        'He, K., & Zhang, X. (2016). Deep Residual Learning for Image Recognition?',
+        'UNESCO. (n.d.). A Report.',
+        'Vaswani, A., Shazeer, N., & Parmar, N. (2017). Attention Is All You Need. Advances in Neural Information Processing Systems. https://doi.org/10.48550/arxiv.1706.03762'
+      ]
+    ],
+    [
+      'chicago',
+      ['(Vaswani, Shazeer, and Parmar 2017)', '(He and Zhang 2016)', '(UNESCO n.d.)'],
+      [
+        'He, Kaiming, and Xiangyu Zhang. 2016. “Deep Residual Learning for Image Recognition?”',
+        'UNESCO. n.d. “A Report.”',
+        'Vaswani, Ashish, Noam Shazeer, and Niki Parmar. 2017. “Attention Is All You Need.” Advances in Neural Information Processing Systems. https://doi.org/10.48550/arxiv.1706.03762.'
+      ]
+    ],
+    [
+      'ieee',
+      ['[1]', '[2]', '[3]'],
+      [
+        '[1] A. Vaswani, N. Shazeer, and N. Parmar, “Attention Is All You Need,” Advances in Neural Information Processing Systems, 2017, doi: 10.48550/arxiv.1706.03762.',
+        '[2] K. He and X. Zhang, “Deep Residual Learning for Image Recognition?” 2016.',
+        '[3] UNESCO, “A Report.”'
+      ]
+    ],
+    [
+      'vancouver',
+      ['(1)', '(2)', '(3)'],
+      [
+        '1. Vaswani A, Shazeer N, Parmar N. Attention Is All You Need. Advances in Neural Information Processing Systems. 2017. doi:10.48550/arxiv.1706.03762.',
+        '2. He K, Zhang X. Deep Residual Learning for Image Recognition? 2016.',
+        '3. UNESCO. A Report.'
+      ]
+    ],
+    [
+      'nature',
+      ['1', '2', '3'],
+      [
+        '1. Vaswani, A., Shazeer, N. & Parmar, N. Attention Is All You Need. Advances in Neural Information Processing Systems (2017).',
+        '2. He, K. & Zhang, X. Deep Residual Learning for Image Recognition? (2016).',
+        '3. UNESCO. A Report.'
+      ]
+    ]
+  ])('formats %s citations and bibliography', (styleId: string, inline: string[], bibliography: string[]) => {
+    const result = formatCitations(papers, getBuiltInStyle(styleId as BuiltInCitationStyle))
+
+    expect(result.citations.map(citation => citation.inline)).toEqual(inline)
+    expect(result.bibliography).toEqual(bibliography)
+    expect(result.citations.map(citation => citation.paperId)).toEqual(['p1', 'p2', 'p3'])
+    expect(result.bibliography).toEqual(expect.arrayContaining(result.citations.map(citation => citation.bibliography)))
+  })
+
+  it('writes formatting and escapes text in HTML output', () => {
+    const apa = formatCitations([{ ...papers[0], authors: ['Ashish Vaswani', 'Noam Shazeer'], title: 'Attention <Is> All' }], getBuiltInStyle('apa'), 'html')
+    const nature = formatCitations(papers.slice(0, 1), getBuiltInStyle('nature'), 'html')
+
+    expect(apa.bibliography[0]).toBe(
+      'Vaswani, A., &amp; Shazeer, N. (2017). Attention &lt;Is&gt; All. <i>Advances in Neural Information Processing Systems</i>. https://doi.org/10.48550/arxiv.1706.03762'
+    )
+    expect(nature.citations[0].inline).toBe('<sup>1</sup>')
+  })
+})
+
+const customStyle = `<?xml version="1.0" encoding="utf-8"?>
+<!-- A style exercising the CSL features the engine supports -->
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0" initialize-with=". ">
+  <info><title>Test &amp; Style</title></info>
+  <locale xml:lang="en">
+    <terms>
+      <term name="et-al">and colleagues</term>
+      <term name="editor" form="short"><single>ed.</single><multiple>eds.</multiple></term>
+    </terms>
+  </locale>
+  <locale xml:lang="de"><terms><term name="et-al">u. a.</term></terms></locale>
+  <macro name="contributors">
+    <names variable="author">
+      <name name-as-sort-order="first" and="text"/>
+      <label form="short" prefix=" (" suffix=")"/>
+      <substitute>
+        <names variable="editor"/>
+        <text variable="title" text-case="uppercase"/>
+      </substitute>
+    </names>
+  </macro>
+  <citation et-al-min="3" et-al-use-first="2">
+    <layout prefix="{" suffix="}" delimiter="; ">
+      <names variable="author"><name form="short" and="symbol"/></names>
+    </layout>
+  </citation>
+  <bibliography>
+    <sort><key variable="issued" sort="descending"/><key macro="contributors"/></sort>
+    <layout suffix=".">
+      <group delimiter=". ">
+        <text macro="contributors"/>
+        <date variable="issued" form="text"/>
+        <text variable="title" strip-periods="true"/>
+        <choose>
+          <if type="chapter paper-conference" match="any">
+            <text term="in" text-case="capitalize-first" suffix=" "/>
+            <text variable="container-title" font-style="italic"/>
+          </if>
+          <else-if variable="container-title">
+            <text variable="container-title" font-style="italic"/>
+          </else-if>
+          <else><text value="Unpublished"/></else>
+        </choose>
+        <group delimiter=" ">
+          <label variable="page" form="short"/>
+          <text variable="page"/>
+        </group>
+        <date variable="accessed" delimiter=" ">
+          <date-part name="day" form="ordinal"/>
+          <date-part name="month" form="short"/>
+          <date-part name="year" form="short"/>
+        </date>
+      </group>
+    </layout>
+  </bibliography>
+</style>`
+
+const items: CslItem[] = [
+  {
+    id: 'a',
+    type: 'article-journal',
+    title: 'On U.S. Networks',
+    author: [{ family: 'Curie', given: 'Marie' }, { family: 'Meitner', given: 'Lise' }, { family: 'Franklin', given: 'Rosalind' }],
+    'container-title': 'Physics',
+    issued: { 'date-parts': [[1911, 3, 4]] },
+    page: '12-19',
+    accessed: { 'date-parts': [[2024, 9, 2]] }
+  },
+  {
+    id: 'b',
+    type: 'chapter',
+    title: 'Edited Works',
+    editor: [{ family: 'Sartre', given: 'Jean-Paul' }, { family: 'de Beauvoir', given: 'Simone' }],
+    'container-title': 'Collected Essays',
+    issued: { raw: '1943-06' }
+  },
+  {
+    id: 'c',
+    type: 'report',
+    title: 'Anonymous Work',
+    issued: { literal: 'forthcoming' }
+  }
+]
+
+describe('CSL engine', () => {
+  const style = parseCslStyle(customStyle)
+
+  it('reads the style title and class', () => {
+    expect(style.title).toBe('Test & Style')
+    expect(style.styleClass).toBe('in-text')
+    expect(style.isNumeric).toBe(false)
+    expect(style.hasBibliography).toBe(true)
+  })
+
+  it('truncates names with et-al and uses English locale terms', () => {
+    expect(style.formatCitation([items[0]])).toBe('{Curie, Meitner, and colleagues}')
+    expect(style.formatCitation([items[0], { id: 'd', author: [{ family: 'Bohr', given: 'Niels' }, { literal: 'CERN' }] }]))
+      .toBe('{Curie, Meitner, and colleagues; Bohr & CERN}')
+  })
+
+  it('renders names, substitutes, dates, conditionals, labels and suppresses empty groups', () => {
+    expect(style.formatBibliography(items)).toEqual([
+      'Curie, M., L. Meitner, and R. Franklin. March 4, 1911. On US Networks. Physics. pp. 12-19. 2nd Sep. 24.',
+      'Sartre, J.-P. and S. de Beauvoir (eds.). June 1943. Edited Works. In Collected Essays.',
+      'ANONYMOUS WORK. forthcoming. Unpublished.'
+    ])
+  })
+
+  it('sorts the bibliography by its sort keys', () => {
+    expect(style.sortBibliography(items).map(item => item.id)).toEqual(['b', 'a', 'c'])
+  })
+
+  it('reports malformed and non-CSL documents', () => {
+    expect(() => parseCslStyle('<style><citation>')).toThrow(CslStyleError)
+    expect(() => parseCslStyle('<style><citation>')).toThrow('Invalid CSL XML: Unclosed tag <citation>')
+    expect(() => parseCslStyle('<html></html>')).toThrow('root element must be <style>')
+    expect(() => parseCslStyle('<style><info/></style>')).toThrow('CSL style has no <citation> layout')
+  })
+})
+
+describe('XML reading', () => {
+  it('reads elements, attributes, entities and CDATA, ignoring namespaces and comments', () => {
+    const root = parseXml('\uFEFF<?xml version="1.0"?><a:root x="1 &lt; 2"><!-- note --><b>caf&#233; &amp;<![CDATA[ <raw> ]]></b><c/></a:root>')
+
+    expect(root).toEqual({
+      name: 'root',
+      attributes: { x: '1 < 2' },
+      text: '',
+      children: [
+        { name: 'b', attributes: {}, children: [], text: 'café & <raw> ' },
+        { name: 'c', attributes: {}, children: [], text: '' }
+      ]
+    })
+  })
+
+  it.each([
+    ['<a><b></a>', 'Unexpected closing tag </a>'],
+    ['<a><!-- never closed', 'Unterminated comment'],
+    ['<a/><b/>', 'Document has more than one root element'],
+    ['', 'Document has no root element'],
+    ['<a><b x=1/></a>', 'Malformed tag']
+  ])('rejects %j', (xml: string, message: string) => {
+    expect(() => parseXml(xml)).toThrow(XmlSyntaxError)
+    expect(() => parseXml(xml)).toThrow(message)
+  })
+})
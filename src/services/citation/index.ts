@@ -0,0 +1,11 @@
+export {
+  CitationService,
+  CitationStyleError,
+  formatCitations,
+  getCitationService
+} from './CitationService'
+export { CslStyle, CslStyleError, parseCslStyle } from './CslStyle'
+export { BUILT_IN_CITATION_STYLES, isBuiltInCitationStyle, getBuiltInStyle } from './styles'
+export type { CitablePaper, CitationStyleSummary, FormattedCitation, FormattedCitations } from './CitationService'
+export type { CitationOutputFormat, CslItem, CslName, CslDate } from './CslStyle'
+export type { BuiltInCitationStyle } from './styles'
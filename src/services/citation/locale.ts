@@ -0,0 +1,110 @@
+import { childElements, type XmlNode } from './xml'
+
+export type TermForm = 'long' | 'short' | 'verb' | 'verb-short' | 'symbol'
+
+interface Term {
+  single: string
+  multiple: string
+}
+
+export type TermTable = Map<string, Term>
+
+// en-US terms the built-in styles and most journal styles use
+const EN_US_TERMS: Array<[string, TermForm, string, string?]> = [
+  ['and', 'long', 'and'],
+  ['and', 'symbol', '&'],
+  ['et-al', 'long', 'et al.'],
+  ['and others', 'long', 'and others'],
+  ['anonymous', 'long', 'anonymous'],
+  ['anonymous', 'short', 'anon.'],
+  ['accessed', 'long', 'accessed'],
+  ['available at', 'long', 'available at'],
+  ['by', 'long', 'by'],
+  ['cited', 'long', 'cited'],
+  ['from', 'long', 'from'],
+  ['ibid', 'long', 'ibid.'],
+  ['in', 'long', 'in'],
+  ['in press', 'long', 'in press'],
+  ['internet', 'long', 'internet'],
+  ['no date', 'long', 'no date'],
+  ['no date', 'short', 'n.d.'],
+  ['online', 'long', 'online'],
+  ['presented at', 'long', 'presented at the'],
+  ['retrieved', 'long', 'retrieved'],
+  ['version', 'long', 'version'],
+  ['edition', 'long', 'edition', 'editions'],
+  ['edition', 'short', 'ed.', 'eds.'],
+  ['editor', 'long', 'editor', 'editors'],
+  ['editor', 'short', 'ed.', 'eds.'],
+  ['issue', 'long', 'issue', 'issues'],
+  ['issue', 'short', 'no.', 'nos.'],
+  ['page', 'long', 'page', 'pages'],
+  ['page', 'short', 'p.', 'pp.'],
+  ['volume', 'long', 'volume', 'volumes'],
+  ['volume', 'short', 'vol.', 'vols.'],
+  ['translator', 'long', 'translator', 'translators'],
+  ['translator', 'short', 'trans.', 'trans.'],
+  ['open-quote', 'long', '\u201C'],
+  ['close-quote', 'long', '\u201D'],
+  ['open-inner-quote', 'long', '\u2018'],
+  ['close-inner-quote', 'long', '\u2019'],
+  ['page-range-delimiter', 'long', '\u2013'],
+  ...['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+    .flatMap((month, i): Array<[string, TermForm, string]> => {
+      const name = `month-${String(i + 1).padStart(2, '0')}`
+      return [[name, 'long', month], [name, 'short', month.length > 4 ? `${month.slice(0, 3)}.` : month]]
+    })
+]
+
+export function defaultTerms(): TermTable {
+  const terms: TermTable = new Map()
+  for (const [name, form, single, multiple] of EN_US_TERMS) {
+    terms.set(termKey(name, form), { single, multiple: multiple ?? single })
+  }
+  return terms
+}
+
+/**
+ * Override terms with those of a style's `<locale>` elements
+ */
+export function applyLocaleTerms(terms: TermTable, locales: XmlNode[]): void {
+  for (const locale of locales) {
+    const lang = locale.attributes['xml:lang'] || locale.attributes.lang
+    if (lang && !lang.startsWith('en')) continue
+
+    for (const termsNode of childElements(locale, 'terms')) {
+      for (const term of childElements(termsNode, 'term')) {
+        const form = (term.attributes.form || 'long') as TermForm
+        const single = childElements(term, 'single')[0]
+        const multiple = childElements(term, 'multiple')[0]
+        terms.set(termKey(term.attributes.name, form), {
+          single: single ? single.text : term.text,
+          multiple: multiple ? multiple.text : single ? single.text : term.text
+        })
+      }
+    }
+  }
+}
+
+/**
+ * A term, falling back from verb-short to verb to long and from symbol to short to long as CSL specifies
+ */
+export function lookupTerm(terms: TermTable, name: string, form: TermForm = 'long', plural = false): string {
+  const fallbacks: Record<TermForm, TermForm[]> = {
+    'long': ['long'],
+    'short': ['short', 'long'],
+    'verb': ['verb', 'long'],
+    'verb-short': ['verb-short', 'verb', 'long'],
+    'symbol': ['symbol', 'short', 'long']
+  }
+
+  for (const candidate of fallbacks[form] || ['long']) {
+    const term = terms.get(termKey(name, candidate))
+    if (term) return plural ? term.multiple : term.single
+  }
+  return ''
+}
+
+function termKey(name: string, form: TermForm): string {
+  return `${name}/${form}`
+}
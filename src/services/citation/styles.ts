@@ -0,0 +1,223 @@
+import { parseCslStyle, type CslStyle } from './CslStyle'
+
+export type BuiltInCitationStyle = 'apa' | 'chicago' | 'ieee' | 'vancouver' | 'nature'
+
+// Journal-article subsets of the official CSL styles, written against the parts of CSL the engine supports
+export const BUILT_IN_CITATION_STYLES: Record<BuiltInCitationStyle, { label: string; xml: string }> = {
+  'apa': {
+    label: 'APA',
+    xml: `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>APA 7th edition</title><id>apa</id></info>
+  <macro name="author">
+    <names variable="author">
+      <name name-as-sort-order="all" and="symbol" sort-separator=", " initialize-with=". " delimiter=", " delimiter-precedes-last="always"/>
+      <substitute><names variable="editor"/><text variable="title"/></substitute>
+    </names>
+  </macro>
+  <macro name="author-short">
+    <names variable="author">
+      <name form="short" and="symbol" delimiter=", "/>
+      <substitute><names variable="editor"/><text variable="title" form="short" quotes="true"/></substitute>
+    </names>
+  </macro>
+  <macro name="issued">
+    <choose>
+      <if variable="issued"><date variable="issued"><date-part name="year"/></date></if>
+      <else><text term="no date" form="short"/></else>
+    </choose>
+  </macro>
+  <macro name="access">
+    <choose>
+      <if variable="DOI"><text variable="DOI" prefix="https://doi.org/"/></if>
+      <else><text variable="URL"/></else>
+    </choose>
+  </macro>
+  <citation et-al-min="3" et-al-use-first="1">
+    <layout prefix="(" suffix=")" delimiter="; ">
+      <group delimiter=", "><text macro="author-short"/><text macro="issued"/></group>
+    </layout>
+  </citation>
+  <bibliography et-al-min="21" et-al-use-first="19">
+    <sort><key macro="author"/><key macro="issued"/></sort>
+    <layout>
+      <group delimiter=" ">
+        <text macro="author" suffix="."/>
+        <text macro="issued" prefix="(" suffix=")."/>
+        <text variable="title" suffix="."/>
+        <group delimiter=", " suffix=".">
+          <text variable="container-title" font-style="italic"/>
+          <group><text variable="volume" font-style="italic"/><text variable="issue" prefix="(" suffix=")"/></group>
+          <text variable="page"/>
+        </group>
+        <text macro="access"/>
+      </group>
+    </layout>
+  </bibliography>
+</style>`
+  },
+
+  'chicago': {
+    label: 'Chicago (author-date)',
+    xml: `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Chicago Manual of Style 17th edition (author-date)</title><id>chicago</id></info>
+  <macro name="author">
+    <names variable="author">
+      <name name-as-sort-order="first" and="text" sort-separator=", " delimiter=", " delimiter-precedes-last="always"/>
+      <substitute><names variable="editor"/><text variable="title"/></substitute>
+    </names>
+  </macro>
+  <macro name="author-short">
+    <names variable="author">
+      <name form="short" and="text" delimiter=", "/>
+      <substitute><names variable="editor"/><text variable="title" form="short" quotes="true"/></substitute>
+    </names>
+  </macro>
+  <macro name="issued">
+    <choose>
+      <if variable="issued"><date variable="issued"><date-part name="year"/></date></if>
+      <else><text term="no date" form="short"/></else>
+    </choose>
+  </macro>
+  <citation et-al-min="4" et-al-use-first="1">
+    <layout prefix="(" suffix=")" delimiter="; ">
+      <group delimiter=" "><text macro="author-short"/><text macro="issued"/></group>
+    </layout>
+  </citation>
+  <bibliography et-al-min="11" et-al-use-first="7">
+    <sort><key macro="author"/><key macro="issued"/></sort>
+    <layout suffix=".">
+      <group delimiter=". ">
+        <text macro="author"/>
+        <text macro="issued"/>
+        <text variable="title" quotes="true"/>
+        <group delimiter=" ">
+          <text variable="container-title" font-style="italic"/>
+          <text variable="volume"/>
+          <text variable="issue" prefix="(" suffix=")"/>
+          <text variable="page" prefix=": "/>
+        </group>
+        <choose>
+          <if variable="DOI"><text variable="DOI" prefix="https://doi.org/"/></if>
+          <else><text variable="URL"/></else>
+        </choose>
+      </group>
+    </layout>
+  </bibliography>
+</style>`
+  },
+
+  'ieee': {
+    label: 'IEEE',
+    xml: `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>IEEE</title><id>ieee</id></info>
+  <citation>
+    <layout prefix="[" suffix="]" delimiter=", ">
+      <text variable="citation-number"/>
+    </layout>
+  </citation>
+  <bibliography et-al-min="7" et-al-use-first="1">
+    <layout suffix=".">
+      <text variable="citation-number" prefix="[" suffix="] "/>
+      <group delimiter=", ">
+        <names variable="author">
+          <name initialize-with=". " and="text" delimiter=", "/>
+          <et-al font-style="italic"/>
+        </names>
+        <text variable="title" quotes="true"/>
+        <text variable="container-title" font-style="italic"/>
+        <text variable="volume" prefix="vol. "/>
+        <text variable="issue" prefix="no. "/>
+        <text variable="page" prefix="pp. "/>
+        <date variable="issued"><date-part name="year"/></date>
+        <text variable="DOI" prefix="doi: "/>
+      </group>
+    </layout>
+  </bibliography>
+</style>`
+  },
+
+  'vancouver': {
+    label: 'Vancouver',
+    xml: `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Vancouver</title><id>vancouver</id></info>
+  <citation>
+    <layout prefix="(" suffix=")" delimiter=",">
+      <text variable="citation-number"/>
+    </layout>
+  </citation>
+  <bibliography et-al-min="7" et-al-use-first="6">
+    <layout>
+      <text variable="citation-number" suffix=". "/>
+      <group delimiter=". " suffix=".">
+        <names variable="author">
+          <name name-as-sort-order="all" sort-separator=" " initialize-with="" delimiter=", " delimiter-precedes-last="always"/>
+        </names>
+        <text variable="title"/>
+        <text variable="container-title"/>
+        <group>
+          <date variable="issued"><date-part name="year"/></date>
+          <text variable="volume" prefix=";"/>
+          <text variable="issue" prefix="(" suffix=")"/>
+          <text variable="page" prefix=":"/>
+        </group>
+        <text variable="DOI" prefix="doi:"/>
+      </group>
+    </layout>
+  </bibliography>
+</style>`
+  },
+
+  'nature': {
+    label: 'Nature',
+    xml: `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Nature</title><id>nature</id></info>
+  <citation>
+    <layout vertical-align="sup" delimiter=",">
+      <text variable="citation-number"/>
+    </layout>
+  </citation>
+  <bibliography et-al-min="6" et-al-use-first="1">
+    <layout>
+      <text variable="citation-number" suffix=". "/>
+      <group delimiter=". " suffix=".">
+        <names variable="author">
+          <name name-as-sort-order="all" sort-separator=", " initialize-with=". " and="symbol" delimiter=", " delimiter-precedes-last="never"/>
+        </names>
+        <text variable="title"/>
+        <group delimiter=" ">
+          <text variable="container-title" font-style="italic"/>
+          <group delimiter=", ">
+            <text variable="volume" font-weight="bold"/>
+            <text variable="page"/>
+          </group>
+          <date variable="issued" prefix="(" suffix=")"><date-part name="year"/></date>
+        </group>
+      </group>
+    </layout>
+  </bibliography>
+</style>`
+  }
+}
+
+const parsedStyles = new Map<BuiltInCitationStyle, CslStyle>()
+
+export function isBuiltInCitationStyle(value: unknown): value is BuiltInCitationStyle {
+  return typeof value === 'string' && value in BUILT_IN_CITATION_STYLES
+}
+
+/**
+ * A built-in style, parsed once per process
+ */
+export function getBuiltInStyle(id: BuiltInCitationStyle): CslStyle {
+  let style = parsedStyles.get(id)
+  if (!style) {
+    style = parseCslStyle(BUILT_IN_CITATION_STYLES[id].xml)
+    parsedStyles.set(id, style)
+  }
+  return style
+}
@@ -0,0 +1,145 @@
+// Minimal XML tree reading for CSL style files: elements, attributes, text,
+// comments and CDATA. Namespaces are ignored and DTDs are not supported.
+
+export interface XmlNode {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+  text: string
+}
+
+export class XmlSyntaxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'XmlSyntaxError'
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0'
+}
+
+const TAG = /<([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y
+const CLOSING_TAG = /<\/([A-Za-z_][\w.:-]*)\s*>/y
+const ATTRIBUTE = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+/**
+ * Parse a document into its root element
+ */
+export function parseXml(xml: string): XmlNode {
+  const source = xml.replace(/^\uFEFF/, '')
+  const stack: XmlNode[] = []
+  let root: XmlNode | null = null
+  let position = 0
+
+  const skipPast = (terminator: string, message: string) => {
+    const end = source.indexOf(terminator, position)
+    if (end === -1) throw new XmlSyntaxError(message)
+    position = end + terminator.length
+  }
+
+  while (position < source.length) {
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->', 'Unterminated comment')
+      continue
+    }
+    if (source.startsWith('<?', position) || source.startsWith('<!DOCTYPE', position)) {
+      skipPast('>', 'Unterminated declaration')
+      continue
+    }
+
+    if (source.startsWith('<![CDATA[', position)) {
+      const start = position + 9
+      skipPast(']]>', 'Unterminated CDATA section')
+      if (stack.length > 0) stack[stack.length - 1].text += source.slice(start, position - 3)
+      continue
+    }
+
+    CLOSING_TAG.lastIndex = position
+    const closing = CLOSING_TAG.exec(source)
+    if (closing) {
+      const node = stack.pop()
+      if (!node || localName(closing[1]) !== node.name) {
+        throw new XmlSyntaxError(`Unexpected closing tag </${closing[1]}>`)
+      }
+      position = CLOSING_TAG.lastIndex
+      continue
+    }
+
+    TAG.lastIndex = position
+    const tag = TAG.exec(source)
+    if (tag) {
+      const node: XmlNode = { name: localName(tag[1]), attributes: parseAttributes(tag[2]), children: [], text: '' }
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(node)
+      } else if (root) {
+        throw new XmlSyntaxError('Document has more than one root element')
+      } else {
+        root = node
+      }
+      if (!tag[3]) stack.push(node)
+      position = TAG.lastIndex
+      continue
+    }
+
+    if (source[position] === '<') {
+      throw new XmlSyntaxError(`Malformed tag near "${source.slice(position, position + 30)}"`)
+    }
+
+    const end = source.indexOf('<', position)
+    const text = source.slice(position, end === -1 ? source.length : end)
+    if (stack.length > 0) {
+      stack[stack.length - 1].text += decodeEntities(text)
+    } else if (text.trim()) {
+      throw new XmlSyntaxError('Text outside the root element')
+    }
+    position += text.length
+  }
+
+  if (stack.length > 0) {
+    throw new XmlSyntaxError(`Unclosed tag <${stack[stack.length - 1].name}>`)
+  }
+  if (!root) {
+    throw new XmlSyntaxError('Document has no root element')
+  }
+
+  return root
+}
+
+/**
+ * Child elements with the given name
+ */
+export function childElements(node: XmlNode, name: string): XmlNode[] {
+  return node.children.filter(child => child.name === name)
+}
+
+export function childElement(node: XmlNode, name: string): XmlNode | undefined {
+  return node.children.find(child => child.name === name)
+}
+
+function localName(name: string): string {
+  return name.includes(':') ? name.slice(name.indexOf(':') + 1) : name
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  ATTRIBUTE.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = ATTRIBUTE.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3])
+  }
+  return attributes
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16))
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10))
+    return ENTITIES[name] ?? entity
+  })
+}
@@ -0,0 +1,549 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import type { Collection } from '@/types'
+
+/**
+ * Changes to a collection: a new name, a new parent (null for the top level),
+ * and its position among its new siblings
+ */
+export interface CollectionUpdate {
+  name?: string
+  parentId?: string | null
+  position?: number
+}
+
+/**
+ * A collection imported from Zotero, keyed by its Zotero key
+ */
+export interface ImportedCollection {
+  key: string
+  name: string
+  // Key of the parent collection, or null at the top level
+  parentKey: string | null
+}
+
+/**
+ * A collection name is invalid, or a collection or paper it refers to is not the user's
+ */
+export class CollectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CollectionError'
+  }
+}
+
+interface CollectionRow {
+  id: string
+  parent_id: string | null
+  name: string
+  position: number
+  zotero_key: string | null
+  created_at: string
+  updated_at: string
+  collection_papers?: Array<{ count: number }>
+}
+
+interface MembershipRow {
+  paper_id: string
+  position: number
+}
+
+const COLLECTIONS_TABLE = 'collections'
+const MEMBERSHIPS_TABLE = 'collection_papers'
+const COLLECTION_COLUMNS = 'id, parent_id, name, position, zotero_key, created_at, updated_at, collection_papers(count)'
+const MAX_NAME_LENGTH = 255
+const ID_CHUNK_SIZE = 200
+
+/**
+ * Stores each user's collections: nested, ordered folders of papers, where a
+ * paper can be in any number of collections
+ */
+export class CollectionService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  /**
+   * The user's collections, flat and ordered by position within each parent
+   */
+  async listCollections(userId: string): Promise<Collection[]> {
+    const { data, error } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .select(COLLECTION_COLUMNS)
+      .eq('user_id', userId)
+      .order('position')
+      .order('name')
+
+    if (error) {
+      throw new Error(`Failed to load collections: ${error.message}`)
+    }
+
+    return ((data || []) as CollectionRow[]).map(mapCollection)
+  }
+
+  /**
+   * A collection; null when it does not exist
+   */
+  async getCollection(userId: string, id: string): Promise<Collection | null> {
+    const { data, error } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .select(COLLECTION_COLUMNS)
+      .eq('user_id', userId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '22P02') {
+        return null
+      }
+      throw new Error(`Failed to load collection: ${error.message}`)
+    }
+
+    return data ? mapCollection(data as CollectionRow) : null
+  }
+
+  /**
+   * Create a collection after its siblings, at the top level or inside another collection
+   */
+  async createCollection(userId: string, name: string, parentId: string | null = null): Promise<Collection> {
+    const validName = validateName(name)
+
+    if (parentId && !await this.getCollection(userId, parentId)) {
+      throw new CollectionError('Parent collection not found')
+    }
+
+    const collections = await this.listCollections(userId)
+    const position = collections
+      .filter(collection => collection.parentId === parentId)
+      .reduce((max, collection) => Math.max(max, collection.position + 1), 0)
+
+    const { data, error } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .insert({ user_id: userId, parent_id: parentId, name: validName, position })
+      .select(COLLECTION_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create collection: ${error.message}`)
+    }
+
+    return mapCollection(data as CollectionRow)
+  }
+
+  /**
+   * Rename, move or reorder a collection. Its former and new siblings are
+   * renumbered to keep their order. Returns null when it does not exist.
+   */
+  async updateCollection(userId: string, id: string, update: CollectionUpdate): Promise<Collection | null> {
+    const validName = update.name === undefined ? undefined : validateName(update.name)
+
+    const collections = await this.listCollections(userId)
+    const current = collections.find(collection => collection.id === id)
+    if (!current) {
+      return null
+    }
+
+    const parentId = update.parentId === undefined ? current.parentId : update.parentId
+    if (parentId !== current.parentId) {
+      assertValidParent(collections, id, parentId)
+    }
+
+    const changes: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (validName !== undefined) {
+      changes.name = validName
+    }
+
+    if (parentId !== current.parentId || update.position !== undefined) {
+      const siblings = collections
+        .filter(collection => collection.parentId === parentId && collection.id !== id)
+        .sort((a, b) => a.position - b.position)
+      const index = Math.max(0, Math.min(update.position ?? siblings.length, siblings.length))
+
+      changes.parent_id = parentId
+      changes.position = index
+
+      // Siblings are renumbered around the moved collection
+      const reordered = [...siblings.slice(0, index), current, ...siblings.slice(index)]
+      for (const [position, sibling] of reordered.entries()) {
+        if (sibling.id !== id && sibling.position !== position) {
+          await this.setPosition(userId, sibling.id, position)
+        }
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .update(changes)
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select(COLLECTION_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update collection: ${error.message}`)
+    }
+
+    return mapCollection(data as CollectionRow)
+  }
+
+  /**
+   * Delete a collection with its subcollections. Its papers stay in the library.
+   * Returns false when it does not exist.
+   */
+  async deleteCollection(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      if (error.code === '22P02') {
+        return false
+      }
+      throw new Error(`Failed to delete collection: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * IDs of the papers in the collections, in collection order, including
+   * those in subcollections unless `includeSubcollections` is false. With a
+   * user ID, collections that are not the user's are ignored; otherwise row
+   * level security decides which are visible. Archived papers are left out.
+   */
+  async getPaperIds(
+    collectionIds: string[],
+    { userId, includeSubcollections = true }: { userId?: string; includeSubcollections?: boolean } = {}
+  ): Promise<string[]> {
+    let ids = await this.selectCollectionIds('id', collectionIds, userId)
+
+    if (includeSubcollections) {
+      const seen = new Set(ids)
+      let level = ids
+      while (level.length > 0) {
+        const children = (await this.selectCollectionIds('parent_id', level, userId)).filter(child => !seen.has(child))
+        children.forEach(child => seen.add(child))
+        level = children
+      }
+      ids = Array.from(seen)
+    }
+
+    const paperIds = new Set<string>()
+    for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(MEMBERSHIPS_TABLE)
+        .select('paper_id, position, papers!inner(archived_at)')
+        .in('collection_id', ids.slice(start, start + ID_CHUNK_SIZE))
+        .is('papers.archived_at', null)
+        .order('position')
+        .order('added_at')
+
+      if (error) {
+        throw new Error(`Failed to load collection papers: ${error.message}`)
+      }
+
+      ((data || []) as MembershipRow[]).forEach(row => paperIds.add(row.paper_id))
+    }
+
+    return Array.from(paperIds)
+  }
+
+  /**
+   * Add the user's papers to a collection, after the papers already in it.
+   * Papers already in the collection keep their place. Returns null when the
+   * collection does not exist.
+   */
+  async addPapers(userId: string, id: string, paperIds: string[]): Promise<Collection | null> {
+    if (!await this.getCollection(userId, id)) {
+      return null
+    }
+
+    const requested = Array.from(new Set(paperIds))
+    const owned = await this.selectOwnedPaperIds(userId, requested)
+    if (owned.length < requested.length) {
+      throw new CollectionError(`${requested.length - owned.length} of the papers were not found`)
+    }
+
+    const members = await this.listMemberships(id)
+    const memberIds = new Set(members.map(member => member.paper_id))
+    const nextPosition = members.reduce((max, member) => Math.max(max, member.position + 1), 0)
+
+    const rows = owned
+      .filter(paperId => !memberIds.has(paperId))
+      .map((paperId, index) => ({ collection_id: id, paper_id: paperId, position: nextPosition + index }))
+
+    if (rows.length > 0) {
+      const { error } = await this.supabase
+        .from(MEMBERSHIPS_TABLE)
+        .upsert(rows, { onConflict: 'collection_id,paper_id', ignoreDuplicates: true })
+
+      if (error) {
+        throw new Error(`Failed to add papers to collection: ${error.message}`)
+      }
+    }
+
+    return this.getCollection(userId, id)
+  }
+
+  /**
+   * Take papers out of a collection; returns null when it does not exist
+   */
+  async removePapers(userId: string, id: string, paperIds: string[]): Promise<Collection | null> {
+    if (!await this.getCollection(userId, id)) {
+      return null
+    }
+
+    if (paperIds.length > 0) {
+      const { error } = await this.supabase
+        .from(MEMBERSHIPS_TABLE)
+        .delete()
+        .eq('collection_id', id)
+        .in('paper_id', paperIds)
+
+      if (error) {
+        throw new Error(`Failed to remove papers from collection: ${error.message}`)
+      }
+    }
+
+    return this.getCollection(userId, id)
+  }
+
+  /**
+   * Put the given papers first in a collection, in the given order; the rest
+   * follow in their current order. Returns the collection's paper IDs in their
+   * new order, or null when it does not exist.
+   */
+  async reorderPapers(userId: string, id: string, paperIds: string[]): Promise<string[] | null> {
+    if (!await this.getCollection(userId, id)) {
+      return null
+    }
+
+    const members = await this.listMemberships(id)
+    const memberIds = new Set(members.map(member => member.paper_id))
+    const listed = Array.from(new Set(paperIds)).filter(paperId => memberIds.has(paperId))
+    const order = [...listed, ...members.map(member => member.paper_id).filter(paperId => !listed.includes(paperId))]
+    const positions = new Map(members.map(member => [member.paper_id, member.position]))
+
+    for (const [position, paperId] of order.entries()) {
+      if (positions.get(paperId) === position) {
+        continue
+      }
+
+      const { error } = await this.supabase
+        .from(MEMBERSHIPS_TABLE)
+        .update({ position })
+        .eq('collection_id', id)
+        .eq('paper_id', paperId)
+
+      if (error) {
+        throw new Error(`Failed to reorder collection papers: ${error.message}`)
+      }
+    }
+
+    return order
+  }
+
+  /**
+   * Create or update collections imported from Zotero, nested as they are
+   * there, and add the synced papers to them. `memberships` maps paper IDs to
+   * the Zotero keys of their collections. Imported collections belong to the
+   * signed-in user, as synced papers do. Returns the number of collections imported.
+   */
+  async importZoteroCollections(collections: ImportedCollection[], memberships: Map<string, string[]>): Promise<number> {
+    if (collections.length === 0) {
+      return 0
+    }
+
+    // Zotero lists collections by name, so siblings are positioned that way
+    const positions = new Map<string, number>()
+    const byParent = new Map<string | null, ImportedCollection[]>()
+    collections.forEach(collection => {
+      byParent.set(collection.parentKey, [...(byParent.get(collection.parentKey) || []), collection])
+    })
+    byParent.forEach(siblings => {
+      siblings
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach((collection, index) => positions.set(collection.key, index))
+    })
+
+    const rows = collections.map(collection => ({
+      zotero_key: collection.key,
+      name: collection.name.trim().slice(0, MAX_NAME_LENGTH) || 'Untitled',
+      position: positions.get(collection.key) ?? 0,
+      updated_at: new Date().toISOString()
+    }))
+
+    const { data, error } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .upsert(rows, { onConflict: 'user_id,zotero_key' })
+      .select('id, zotero_key')
+
+    if (error) {
+      throw new Error(`Failed to import collections: ${error.message}`)
+    }
+
+    const idsByKey = new Map(
+      ((data || []) as Array<{ id: string; zotero_key: string }>).map(row => [row.zotero_key, row.id])
+    )
+
+    // Parents are linked once every collection has an ID
+    const { error: parentError } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .upsert(
+        rows.map((row, index) => {
+          const parentKey = collections[index].parentKey
+          return { ...row, parent_id: parentKey ? idsByKey.get(parentKey) ?? null : null }
+        }),
+        { onConflict: 'user_id,zotero_key' }
+      )
+
+    if (parentError) {
+      throw new Error(`Failed to nest imported collections: ${parentError.message}`)
+    }
+
+    const membershipRows = Array.from(memberships.entries()).flatMap(([paperId, keys]) =>
+      keys
+        .map(key => idsByKey.get(key))
+        .filter((collectionId): collectionId is string => !!collectionId)
+        .map(collectionId => ({ collection_id: collectionId, paper_id: paperId }))
+    )
+
+    for (let start = 0; start < membershipRows.length; start += ID_CHUNK_SIZE) {
+      const { error: membershipError } = await this.supabase
+        .from(MEMBERSHIPS_TABLE)
+        .upsert(membershipRows.slice(start, start + ID_CHUNK_SIZE), {
+          onConflict: 'collection_id,paper_id',
+          ignoreDuplicates: true
+        })
+
+      if (membershipError) {
+        throw new Error(`Failed to import collection papers: ${membershipError.message}`)
+      }
+    }
+
+    return idsByKey.size
+  }
+
+  private async setPosition(userId: string, id: string, position: number): Promise<void> {
+    const { error } = await this.supabase
+      .from(COLLECTIONS_TABLE)
+      .update({ position })
+      .eq('user_id', userId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to reorder collections: ${error.message}`)
+    }
+  }
+
+  private async listMemberships(id: string): Promise<MembershipRow[]> {
+    const { data, error } = await this.supabase
+      .from(MEMBERSHIPS_TABLE)
+      .select('paper_id, position')
+      .eq('collection_id', id)
+      .order('position')
+      .order('added_at')
+
+    if (error) {
+      throw new Error(`Failed to load collection papers: ${error.message}`)
+    }
+
+    return (data || []) as MembershipRow[]
+  }
+
+  // IDs of collections whose `column` is one of `values`
+  private async selectCollectionIds(column: 'id' | 'parent_id', values: string[], userId?: string): Promise<string[]> {
+    const ids: string[] = []
+
+    for (let start = 0; start < values.length; start += ID_CHUNK_SIZE) {
+      let query = this.supabase
+        .from(COLLECTIONS_TABLE)
+        .select('id')
+        .in(column, values.slice(start, start + ID_CHUNK_SIZE))
+
+      if (userId) {
+        query = query.eq('user_id', userId)
+      }
+
+      const { data, error } = await query
+      if (error) {
+        if (error.code === '22P02') {
+          continue
+        }
+        throw new Error(`Failed to load collections: ${error.message}`)
+      }
+
+      ids.push(...((data || []) as Array<{ id: string }>).map(row => row.id))
+    }
+
+    return ids
+  }
+
+  private async selectOwnedPaperIds(userId: string, paperIds: string[]): Promise<string[]> {
+    const owned: string[] = []
+
+    for (let start = 0; start < paperIds.length; start += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .select('id')
+        .eq('created_by', userId)
+        .in('id', paperIds.slice(start, start + ID_CHUNK_SIZE))
+
+      if (error) {
+        if (error.code === '22P02') {
+          continue
+        }
+        throw new Error(`Failed to load papers: ${error.message}`)
+      }
+
+      owned.push(...((data || []) as Array<{ id: string }>).map(row => row.id))
+    }
+
+    return owned
+  }
+}
+
+function validateName(name: string): string {
+  const trimmed = (name || '').trim()
+  if (!trimmed) {
+    throw new CollectionError('Collection name is required')
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new CollectionError(`Collection name must be at most ${MAX_NAME_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+// A collection can only move under one of the user's collections outside its own subtree
+function assertValidParent(collections: Collection[], id: string, parentId: string | null): void {
+  const byId = new Map(collections.map(collection => [collection.id, collection]))
+  const seen = new Set<string>()
+
+  for (let ancestor = parentId; ancestor && !seen.has(ancestor); ancestor = byId.get(ancestor)?.parentId ?? null) {
+    if (!byId.has(ancestor)) {
+      throw new CollectionError('Parent collection not found')
+    }
+    if (ancestor === id) {
+      throw new CollectionError('A collection cannot be moved into itself or its subcollections')
+    }
+    seen.add(ancestor)
+  }
+}
+
+function mapCollection(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id,
+    position: row.position,
+    ...(row.zotero_key ? { zoteroKey: row.zotero_key } : {}),
+    paperCount: row.collection_papers?.[0]?.count ?? 0,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
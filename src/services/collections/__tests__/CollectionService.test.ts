@@ -0,0 +1,223 @@
+import { CollectionError, CollectionService } from '../CollectionService'
+import { buildCollectionTree, flattenCollectionTree } from '../tree'
+import type { Collection } from '@/types'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  TABLES: { PAPERS: 'papers' }
+}))
+
+type QueryResult = { data: unknown; error: unknown }
+
+// A chainable query that resolves to the given result however it's ended
+function query(result: QueryResult) {
+  const chain: any = {}
+  for (const method of ['select', 'insert', 'update', 'upsert', 'delete', 'eq', 'in', 'is', 'order', 'limit']) {
+    chain[method] = jest.fn(() => chain)
+  }
+  chain.single = jest.fn(async () => result)
+  chain.maybeSingle = jest.fn(async () => result)
+  chain.then = (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject)
+  return chain
+}
+
+function mockSupabase(queries: Record<string, any[]>) {
+  return { from: jest.fn((table: string) => queries[table].shift()) } as any
+}
+
+function collectionRow(id: string, parentId: string | null, position: number, name = id) {
+  return {
+    id,
+    parent_id: parentId,
+    name,
+    position,
+    zotero_key: null,
+    created_at: '2026-10-01T10:00:00Z',
+    updated_at: '2026-10-01T10:00:00Z',
+    collection_papers: [{ count: 0 }]
+  }
+}
+
+function collection(id: string, parentId: string | null, position: number, name = id): Collection {
+  return {
+    id,
+    name,
+    parentId,
+    position,
+    paperCount: 0,
+    createdAt: new Date('2026-10-01T10:00:00Z'),
+    updatedAt: new Date('2026-10-01T10:00:00Z')
+  }
+}
+
+describe('buildCollectionTree', () => {
+  it('nests collections under their parents in position order', () => {
+    const tree = buildCollectionTree([
+      collection('methods', null, 1, 'Methods'),
+      collection('surveys', 'reading', 1, 'Surveys'),
+      collection('reading', null, 0, 'Reading'),
+      collection('classics', 'reading', 0, 'Classics'),
+      collection('orphan', 'deleted', 0, 'Orphan')
+    ])
+
+    expect(flattenCollectionTree(tree).map(({ collection, depth }) => `${depth}:${collection.name}`)).toEqual([
+      '0:Orphan',
+      '0:Reading',
+      '1:Classics',
+      '1:Surveys',
+      '0:Methods'
+    ])
+  })
+})
+
+describe('CollectionService', () => {
+  it('creates a collection after its siblings', async () => {
+    const insert = query({ data: collectionRow('new', 'parent', 2, 'Transformers'), error: null })
+    const supabase = mockSupabase({
+      collections: [
+        query({ data: collectionRow('parent', null, 0), error: null }),
+        query({
+          data: [collectionRow('parent', null, 0), collectionRow('a', 'parent', 0), collectionRow('b', 'parent', 1)],
+          error: null
+        }),
+        insert
+      ]
+    })
+
+    const created = await new CollectionService(supabase).createCollection('user-1', '  Transformers ', 'parent')
+
+    expect(insert.insert).toHaveBeenCalledWith({ user_id: 'user-1', parent_id: 'parent', name: 'Transformers', position: 2 })
+    expect(created).toMatchObject({ id: 'new', parentId: 'parent', position: 2, paperCount: 0 })
+  })
+
+  it('rejects an empty name', async () => {
+    const service = new CollectionService(mockSupabase({}))
+
+    await expect(service.createCollection('user-1', '   ')).rejects.toThrow(CollectionError)
+  })
+
+  it('moves a collection to the front, renumbering its siblings', async () => {
+    const firstSibling = query({ data: null, error: null })
+    const secondSibling = query({ data: null, error: null })
+    const update = query({ data: collectionRow('c', null, 0), error: null })
+    const supabase = mockSupabase({
+      collections: [
+        query({
+          data: [collectionRow('a', null, 0), collectionRow('b', null, 1), collectionRow('c', null, 2)],
+          error: null
+        }),
+        firstSibling,
+        secondSibling,
+        update
+      ]
+    })
+
+    await new CollectionService(supabase).updateCollection('user-1', 'c', { position: 0 })
+
+    expect(firstSibling.update).toHaveBeenCalledWith({ position: 1 })
+    expect(firstSibling.eq).toHaveBeenCalledWith('id', 'a')
+    expect(secondSibling.update).toHaveBeenCalledWith({ position: 2 })
+    expect(secondSibling.eq).toHaveBeenCalledWith('id', 'b')
+    expect(update.update.mock.calls[0][0]).toMatchObject({ parent_id: null, position: 0 })
+  })
+
+  it('refuses to move a collection into its own subcollection', async () => {
+    const supabase = mockSupabase({
+      collections: [query({
+        data: [collectionRow('root', null, 0), collectionRow('child', 'root', 0), collectionRow('grandchild', 'child', 0)],
+        error: null
+      })]
+    })
+
+    await expect(new CollectionService(supabase).updateCollection('user-1', 'root', { parentId: 'grandchild' }))
+      .rejects.toThrow('cannot be moved into itself')
+  })
+
+  it('returns null when updating a collection that does not exist', async () => {
+    const supabase = mockSupabase({
+      collections: [query({ data: [collectionRow('a', null, 0)], error: null })]
+    })
+
+    await expect(new CollectionService(supabase).updateCollection('user-1', 'missing', { name: 'Renamed' })).resolves.toBeNull()
+  })
+
+  it('finds the unarchived papers of a collection and its subcollections', async () => {
+    const memberships = query({
+      data: [{ paper_id: 'p1', position: 0 }, { paper_id: 'p2', position: 1 }, { paper_id: 'p1', position: 0 }],
+      error: null
+    })
+    const supabase = mockSupabase({
+      collections: [
+        query({ data: [{ id: 'root' }], error: null }),
+        query({ data: [{ id: 'child' }], error: null }),
+        query({ data: [], error: null })
+      ],
+      collection_papers: [memberships]
+    })
+
+    const paperIds = await new CollectionService(supabase).getPaperIds(['root'], { userId: 'user-1' })
+
+    expect(paperIds).toEqual(['p1', 'p2'])
+    expect(memberships.in).toHaveBeenCalledWith('collection_id', ['root', 'child'])
+    expect(memberships.is).toHaveBeenCalledWith('papers.archived_at', null)
+  })
+
+  it('adds papers after those already in the collection', async () => {
+    const upsert = query({ data: null, error: null })
+    const supabase = mockSupabase({
+      collections: [
+        query({ data: collectionRow('c', null, 0), error: null }),
+        query({ data: { ...collectionRow('c', null, 0), collection_papers: [{ count: 3 }] }, error: null })
+      ],
+      papers: [query({ data: [{ id: 'p1' }, { id: 'p2' }], error: null })],
+      collection_papers: [
+        query({ data: [{ paper_id: 'p1', position: 0 }, { paper_id: 'p0', position: 1 }], error: null }),
+        upsert
+      ]
+    })
+
+    const updated = await new CollectionService(supabase).addPapers('user-1', 'c', ['p1', 'p2'])
+
+    expect(upsert.upsert.mock.calls[0][0]).toEqual([{ collection_id: 'c', paper_id: 'p2', position: 2 }])
+    expect(updated?.paperCount).toBe(3)
+  })
+
+  it('refuses to add papers the user does not own', async () => {
+    const supabase = mockSupabase({
+      collections: [query({ data: collectionRow('c', null, 0), error: null })],
+      papers: [query({ data: [{ id: 'p1' }], error: null })]
+    })
+
+    await expect(new CollectionService(supabase).addPapers('user-1', 'c', ['p1', 'someone-elses']))
+      .rejects.toThrow(CollectionError)
+  })
+
+  it('imports Zotero collections nested as they are there, with their papers', async () => {
+    const created = query({
+      data: [{ id: 'id-parent', zotero_key: 'PARENT' }, { id: 'id-child', zotero_key: 'CHILD' }],
+      error: null
+    })
+    const nested = query({ data: null, error: null })
+    const memberships = query({ data: null, error: null })
+    const supabase = mockSupabase({
+      collections: [created, nested],
+      collection_papers: [memberships]
+    })
+
+    const imported = await new CollectionService(supabase).importZoteroCollections(
+      [
+        { key: 'CHILD', name: 'Vision', parentKey: 'PARENT' },
+        { key: 'PARENT', name: 'Deep learning', parentKey: null }
+      ],
+      new Map([['paper-1', ['CHILD', 'UNKNOWN']]])
+    )
+
+    expect(imported).toBe(2)
+    expect(nested.upsert.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ zotero_key: 'CHILD', parent_id: 'id-parent' }),
+      expect.objectContaining({ zotero_key: 'PARENT', parent_id: null })
+    ])
+    expect(memberships.upsert.mock.calls[0][0]).toEqual([{ collection_id: 'id-child', paper_id: 'paper-1' }])
+  })
+})
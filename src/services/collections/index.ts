@@ -0,0 +1,3 @@
+export { CollectionService, CollectionError } from './CollectionService'
+export { buildCollectionTree, flattenCollectionTree } from './tree'
+export type { CollectionUpdate, ImportedCollection } from './CollectionService'
@@ -0,0 +1,42 @@
+import type { Collection, CollectionNode } from '@/types'
+
+/**
+ * Nest collections under their parents, each level ordered by position then name.
+ * Collections whose parent is missing are shown at the top level.
+ */
+export function buildCollectionTree(collections: Collection[]): CollectionNode[] {
+  const nodes = new Map<string, CollectionNode>(
+    collections.map(collection => [collection.id, { ...collection, children: [] }])
+  )
+  const roots: CollectionNode[] = []
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const sort = (level: CollectionNode[]) => {
+    level.sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+    level.forEach(node => sort(node.children))
+  }
+  sort(roots)
+
+  return roots
+}
+
+/**
+ * A tree's collections in display order, with their depth, for indented lists
+ */
+export function flattenCollectionTree(
+  tree: CollectionNode[],
+  depth = 0
+): Array<{ collection: CollectionNode; depth: number }> {
+  return tree.flatMap(node => [
+    { collection: node, depth },
+    ...flattenCollectionTree(node.children, depth + 1)
+  ])
+}
@@ -0,0 +1,591 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import type {
+  Paper as PaperRow,
+  UserEvaluation as EvaluationRow,
+  AIAnalysis as AnalysisRow,
+  PaperFullText as FullTextRow,
+  Document as DocumentRow
+} from '@/lib/database'
+import type { Paper } from '@/types'
+import {
+  findDuplicateClusters,
+  findLibraryMatches,
+  type DedupeCandidate,
+  type DedupeOptions,
+  type DuplicateCluster,
+  type LibraryMatch
+} from './scoring'
+import {
+  canonicalMemberships,
+  fillMissingPaperFields,
+  mergeEvaluations,
+  partitionAnalyses,
+  type MembershipRow
+} from './merging'
+
+export interface DuplicateClusterPaper extends Paper {
+  rating?: number
+  analysisCount: number
+}
+
+export interface DuplicateClusterWithPapers extends DuplicateCluster {
+  papers: DuplicateClusterPaper[]
+}
+
+export interface PaperMerge {
+  id: string
+  userId: string
+  canonicalPaperId: string
+  mergedPaperIds: string[]
+  mergedZoteroKeys: string[]
+  createdAt: Date
+  undoneAt?: Date
+}
+
+/**
+ * Rows as they were before a merge, and what the merge moved, so it can be undone
+ */
+interface MergeSnapshot {
+  canonical: PaperRow
+  papers: PaperRow[]
+  evaluations: EvaluationRow[]
+  analyses: AnalysisRow[]
+  movedAnalysisIds: string[]
+  // Embedding chunks and the paper each belonged to
+  movedDocuments: Array<{ id: number; paperId: string }>
+  fullTexts: FullTextRow[]
+  movedFullTextFrom?: string
+  // The merged papers' collection memberships, and the collections the canonical
+  // paper joined in their place. Missing from merges made before collections.
+  memberships?: MembershipRow[]
+  addedCollectionIds?: string[]
+  // The merged papers' unresolved Zotero sync conflicts, and the paper whose
+  // conflicts moved to the canonical paper with its Zotero item
+  zoteroConflicts?: ZoteroConflictRow[]
+  movedZoteroConflictsFrom?: string
+}
+
+// An unresolved two-way sync conflict (zotero_sync_conflicts)
+interface ZoteroConflictRow {
+  id: string
+  paper_id: string
+  field: string
+}
+
+// The two-way sync columns of papers and evaluations, missing from the generated types
+interface ZoteroSyncColumns {
+  zotero_version?: number | null
+  zotero_library?: string | null
+  zotero_attachment_key?: string | null
+  zotero_attachment_version?: number | null
+  zotero_sync_state?: unknown
+}
+
+
+export type PaperMergeErrorCode = 'invalid' | 'not_found' | 'conflict'
+
+export class PaperMergeError extends Error {
+  readonly code: PaperMergeErrorCode
+
+  constructor(message: string, code: PaperMergeErrorCode) {
+    super(message)
+    this.name = 'PaperMergeError'
+    this.code = code
+  }
+}
+
+const MEMBERSHIPS_TABLE = 'collection_papers'
+const ZOTERO_CONFLICTS_TABLE = 'zotero_sync_conflicts'
+
+// The Zotero columns of a merged paper in a merge snapshot
+interface MergedZoteroPaper {
+  zotero_key: string | null
+  zotero_library?: string | null
+}
+
+const PAPER_MERGES_TABLE = 'paper_merges'
+const PAGE_SIZE = 1000
+const MAX_MERGE_SIZE = 20
+
+/**
+ * Finds likely duplicate papers in a user's library and merges them into a
+ * canonical paper, moving evaluations, AI analyses, embeddings and full text
+ * onto it. Every merge stores a snapshot so it can be undone. Methods are scoped
+ * by user id, so they are safe with the service-role client used by API routes.
+ */
+export class DedupeService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  /**
+   * Duplicate clusters across the user's whole library, with the papers to review
+   */
+  async findDuplicates(userId: string, options: DedupeOptions = {}): Promise<DuplicateClusterWithPapers[]> {
+    const rows = await this.loadLibrary(userId)
+    const papers = rows.map(mapPaperRow)
+    const clusters = findDuplicateClusters(papers, options)
+    if (clusters.length === 0) return []
+
+    const clusteredIds = clusters.flatMap(cluster => cluster.paperIds)
+    const [evaluations, analyses] = await Promise.all([
+      this.selectByPaperIds<EvaluationRow>(TABLES.USER_EVALUATIONS, 'paper_id, rating', clusteredIds),
+      this.selectByPaperIds<AnalysisRow>(TABLES.AI_ANALYSES, 'paper_id', clusteredIds)
+    ])
+
+    const papersById = new Map(papers.map(paper => [paper.id, paper]))
+    return clusters.map(cluster => ({
+      ...cluster,
+      papers: cluster.paperIds.map(id => ({
+        ...papersById.get(id)!,
+        rating: evaluations.find(evaluation => evaluation.paper_id === id)?.rating ?? undefined,
+        analysisCount: analyses.filter(analysis => analysis.paper_id === id).length
+      }))
+    }))
+  }
+
+  /**
+   * The duplicate check for papers entering the library (uploads, imports): the
+   * best existing match for each candidate, or for an earlier candidate in the batch
+   */
+  async findDuplicatesOf(
+    userId: string,
+    candidates: DedupeCandidate[],
+    options: DedupeOptions = {}
+  ): Promise<Array<LibraryMatch | null>> {
+    if (candidates.length === 0) return []
+    const library = (await this.loadLibrary(userId)).map(mapPaperRow)
+    return findLibraryMatches(candidates, library, options)
+  }
+
+  async listMerges(userId: string, limit = 20): Promise<PaperMerge[]> {
+    const { data, error } = await this.supabase
+      .from(PAPER_MERGES_TABLE)
+      .select('id, user_id, canonical_paper_id, merged_paper_ids, merged_zotero_keys, created_at, undone_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to load paper merges: ${error.message}`)
+    }
+
+    return (data || []).map(mapMergeRow)
+  }
+
+  /**
+   * Merge duplicates into the canonical paper and delete them. The canonical paper
+   * keeps its own values and gains any the duplicates have and it lacks.
+   */
+  async mergePapers(userId: string, canonicalId: string, duplicateIds: string[]): Promise<PaperMerge> {
+    const mergedIds = Array.from(new Set(duplicateIds)).filter(id => id !== canonicalId)
+    if (!canonicalId || mergedIds.length === 0) {
+      throw new PaperMergeError('Select a canonical paper and at least one duplicate', 'invalid')
+    }
+    if (mergedIds.length > MAX_MERGE_SIZE) {
+      throw new PaperMergeError(`At most ${MAX_MERGE_SIZE} papers can be merged at once`, 'invalid')
+    }
+
+    const allIds = [canonicalId, ...mergedIds]
+    const { data: paperRows, error: papersError } = await this.supabase
+      .from(TABLES.PAPERS)
+      .select('*')
+      .eq('created_by', userId)
+      .in('id', allIds)
+
+    if (papersError) {
+      throw new Error(`Failed to load papers: ${papersError.message}`)
+    }
+    if ((paperRows || []).length !== allIds.length) {
+      throw new PaperMergeError('One or more papers were not found', 'not_found')
+    }
+
+    const canonical = paperRows!.find(row => row.id === canonicalId) as PaperRow
+    const duplicates = mergedIds.map(id => paperRows!.find(row => row.id === id) as PaperRow)
+
+    const [evaluations, analyses, documents, fullTexts, memberships, conflicts] = await Promise.all([
+      this.selectByPaperIds<EvaluationRow>(TABLES.USER_EVALUATIONS, '*', allIds),
+      this.selectByPaperIds<AnalysisRow>(TABLES.AI_ANALYSES, '*', allIds),
+      this.selectDocuments(mergedIds),
+      this.selectByPaperIds<FullTextRow>(TABLES.PAPER_FULL_TEXTS, '*', allIds),
+      this.selectByPaperIds<MembershipRow>(MEMBERSHIPS_TABLE, '*', allIds),
+      this.selectByPaperIds<ZoteroConflictRow>(ZOTERO_CONFLICTS_TABLE, '*', allIds)
+    ])
+
+    const canonicalEvaluation = evaluations.find(evaluation => evaluation.paper_id === canonicalId)
+    const duplicateEvaluations = evaluations.filter(evaluation => evaluation.paper_id !== canonicalId)
+    const { move: movedAnalyses, discard: discardedAnalyses } = partitionAnalyses(
+      analyses.filter(analysis => analysis.paper_id === canonicalId),
+      analyses.filter(analysis => analysis.paper_id !== canonicalId)
+    )
+    const movableFullText = fullTexts.some(fullText => fullText.paper_id === canonicalId)
+      ? undefined
+      : fullTexts.find(fullText => fullText.paper_id !== canonicalId && fullText.status === 'completed')
+    const addedMemberships = canonicalMemberships(canonicalId, memberships)
+    // The canonical paper takes over a duplicate's Zotero item when it has none,
+    // and with it the item's sync version, sync state and conflicts
+    const zoteroSource = canonical.zotero_key ? undefined : duplicates.find(paper => paper.zotero_key)
+    const canonicalConflictFields = new Set(conflicts.filter(conflict => conflict.paper_id === canonicalId).map(conflict => conflict.field))
+    const movedConflicts = conflicts.filter(conflict =>
+      conflict.paper_id === zoteroSource?.id && !canonicalConflictFields.has(conflict.field)
+    )
+
+    const snapshot: MergeSnapshot = {
+      canonical,
+      papers: duplicates,
+      evaluations,
+      analyses: analyses.filter(analysis => analysis.paper_id !== canonicalId),
+      movedAnalysisIds: movedAnalyses.map(analysis => analysis.id),
+      movedDocuments: documents.map(document => ({ id: document.id, paperId: document.metadata?.paper_id })),
+      fullTexts: fullTexts.filter(fullText => fullText.paper_id !== canonicalId),
+      movedFullTextFrom: movableFullText?.paper_id,
+      memberships: memberships.filter(membership => membership.paper_id !== canonicalId),
+      addedCollectionIds: addedMemberships.map(membership => membership.collection_id),
+      zoteroConflicts: conflicts.filter(conflict => conflict.paper_id !== canonicalId),
+      movedZoteroConflictsFrom: movedConflicts.length > 0 ? zoteroSource?.id : undefined
+    }
+
+    // Record the undo snapshot before touching anything, so a merge that fails
+    // halfway can still be rolled back
+    const { data: mergeRow, error: mergeError } = await this.supabase
+      .from(PAPER_MERGES_TABLE)
+      .insert({
+        user_id: userId,
+        canonical_paper_id: canonicalId,
+        merged_paper_ids: mergedIds,
+        merged_zotero_keys: duplicates.map(paper => paper.zotero_key).filter((key): key is string => !!key),
+        snapshot
+      })
+      .select('id, user_id, canonical_paper_id, merged_paper_ids, merged_zotero_keys, created_at, undone_at')
+      .single()
+
+    if (mergeError) {
+      throw new Error(`Failed to record paper merge: ${mergeError.message}`)
+    }
+
+    const syncState = zoteroSource
+      ? (duplicateEvaluations.find(evaluation => evaluation.paper_id === zoteroSource.id) as ZoteroSyncColumns | undefined)?.zotero_sync_state
+      : (canonicalEvaluation as ZoteroSyncColumns | undefined)?.zotero_sync_state
+    await this.applyEvaluationMerge(canonicalId, canonicalEvaluation, duplicateEvaluations, syncState ?? null)
+
+    for (const analysis of discardedAnalyses) {
+      await this.run(this.supabase.from(TABLES.AI_ANALYSES).delete().eq('id', analysis.id), 'remove duplicate analysis')
+    }
+    if (movedAnalyses.length > 0) {
+      await this.run(
+        this.supabase.from(TABLES.AI_ANALYSES).update({ paper_id: canonicalId }).in('id', snapshot.movedAnalysisIds),
+        'move analyses'
+      )
+    }
+
+    await this.repointDocuments(documents, canonicalId)
+
+    if (movableFullText) {
+      await this.run(
+        this.supabase.from(TABLES.PAPER_FULL_TEXTS).update({ paper_id: canonicalId }).eq('paper_id', movableFullText.paper_id),
+        'move full text'
+      )
+    }
+
+    if (movedConflicts.length > 0) {
+      await this.run(
+        this.supabase.from(ZOTERO_CONFLICTS_TABLE).update({ paper_id: canonicalId }).in('id', movedConflicts.map(conflict => conflict.id)),
+        'move Zotero sync conflicts'
+      )
+    }
+
+    if (addedMemberships.length > 0) {
+      await this.run(
+        this.supabase.from(MEMBERSHIPS_TABLE).insert(addedMemberships),
+        'add canonical paper to collections'
+      )
+    }
+
+    // Deleting first frees the unique DOI and Zotero key for the canonical paper
+    await this.run(
+      this.supabase.from(TABLES.PAPERS).delete().eq('created_by', userId).in('id', mergedIds),
+      'delete merged papers'
+    )
+
+    const updates: Record<string, unknown> = fillMissingPaperFields(canonical, duplicates)
+    if (zoteroSource) {
+      const { zotero_version, zotero_library, zotero_attachment_key, zotero_attachment_version } = zoteroSource as PaperRow & ZoteroSyncColumns
+      Object.assign(updates, { zotero_version, zotero_library, zotero_attachment_key, zotero_attachment_version })
+    }
+    if (Object.keys(updates).length > 0) {
+      await this.run(
+        this.supabase.from(TABLES.PAPERS).update(updates).eq('id', canonicalId),
+        'update canonical paper'
+      )
+    }
+
+    return mapMergeRow(mergeRow)
+  }
+
+  /**
+   * Restore the merged papers and everything moved off them. Changes made to the
+   * canonical paper's evaluation since the merge are replaced by the snapshot.
+   */
+  async undoMerge(userId: string, mergeId: string): Promise<PaperMerge> {
+    const { data: row, error } = await this.supabase
+      .from(PAPER_MERGES_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', mergeId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new PaperMergeError('Merge not found', 'not_found')
+      }
+      throw new Error(`Failed to load paper merge: ${error.message}`)
+    }
+    if (row.undone_at) {
+      throw new PaperMergeError('Merge has already been undone', 'conflict')
+    }
+
+    // Undoing out of order would restore rows a later merge still depends on
+    const { data: later, error: laterError } = await this.supabase
+      .from(PAPER_MERGES_TABLE)
+      .select('id')
+      .eq('canonical_paper_id', row.canonical_paper_id)
+      .is('undone_at', null)
+      .gt('created_at', row.created_at)
+      .limit(1)
+
+    if (laterError) {
+      throw new Error(`Failed to check later merges: ${laterError.message}`)
+    }
+    if ((later || []).length > 0) {
+      throw new PaperMergeError('Undo the later merge into this paper first', 'conflict')
+    }
+
+    const snapshot = row.snapshot as MergeSnapshot
+    const canonicalId = snapshot.canonical.id
+
+    await this.run(this.supabase.from(TABLES.PAPERS).upsert(snapshot.canonical), 'restore canonical paper')
+    await this.run(this.supabase.from(TABLES.PAPERS).upsert(snapshot.papers), 'restore merged papers')
+
+    await this.run(
+      this.supabase.from(TABLES.USER_EVALUATIONS).delete().eq('paper_id', canonicalId),
+      'reset canonical evaluation'
+    )
+    if (snapshot.evaluations.length > 0) {
+      await this.run(this.supabase.from(TABLES.USER_EVALUATIONS).upsert(snapshot.evaluations), 'restore evaluations')
+    }
+
+    if (snapshot.analyses.length > 0) {
+      await this.run(this.supabase.from(TABLES.AI_ANALYSES).upsert(snapshot.analyses), 'restore analyses')
+    }
+
+    if (snapshot.movedDocuments.length > 0) {
+      const { data: documents, error: documentsError } = await this.supabase
+        .from(TABLES.DOCUMENTS)
+        .select('id, metadata')
+        .in('id', snapshot.movedDocuments.map(document => document.id))
+
+      if (documentsError) {
+        throw new Error(`Failed to load documents: ${documentsError.message}`)
+      }
+      for (const paper of snapshot.papers) {
+        const ids = new Set(snapshot.movedDocuments.filter(document => document.paperId === paper.id).map(document => document.id))
+        await this.repointDocuments((documents || []).filter(document => ids.has(document.id)), paper.id)
+      }
+    }
+
+    if (snapshot.addedCollectionIds?.length) {
+      await this.run(
+        this.supabase.from(MEMBERSHIPS_TABLE).delete().eq('paper_id', canonicalId).in('collection_id', snapshot.addedCollectionIds),
+        'remove canonical paper from collections'
+      )
+    }
+    if (snapshot.memberships?.length) {
+      await this.run(this.supabase.from(MEMBERSHIPS_TABLE).upsert(snapshot.memberships), 'restore collection memberships')
+    }
+    // Moved conflicts go back to their paper with the upsert
+    if (snapshot.zoteroConflicts?.length) {
+      await this.run(this.supabase.from(ZOTERO_CONFLICTS_TABLE).upsert(snapshot.zoteroConflicts), 'restore Zotero sync conflicts')
+    }
+
+    if (snapshot.movedFullTextFrom) {
+      await this.run(
+        this.supabase.from(TABLES.PAPER_FULL_TEXTS).delete().eq('paper_id', canonicalId),
+        'remove moved full text'
+      )
+    }
+    if (snapshot.fullTexts.length > 0) {
+      await this.run(this.supabase.from(TABLES.PAPER_FULL_TEXTS).upsert(snapshot.fullTexts), 'restore full texts')
+    }
+
+    const { data: undone, error: undoError } = await this.supabase
+      .from(PAPER_MERGES_TABLE)
+      .update({ undone_at: new Date().toISOString() })
+      .eq('id', mergeId)
+      .select('id, user_id, canonical_paper_id, merged_paper_ids, merged_zotero_keys, created_at, undone_at')
+      .single()
+
+    if (undoError) {
+      throw new Error(`Failed to mark merge as undone: ${undoError.message}`)
+    }
+
+    return mapMergeRow(undone)
+  }
+
+  /**
+   * Whether a Zotero item's paper was merged into another one, so sync should not
+   * recreate it. Item keys are only unique within a library, so the merged papers'
+   * libraries must match too; papers merged before libraries were tracked match any.
+   */
+  async isMergedZoteroKey(userId: string, zoteroLibrary: string, zoteroKey: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(PAPER_MERGES_TABLE)
+      .select('papers:snapshot->papers')
+      .eq('user_id', userId)
+      .contains('merged_zotero_keys', [zoteroKey])
+      .is('undone_at', null)
+
+    if (error) {
+      throw new Error(`Failed to check merged Zotero keys: ${error.message}`)
+    }
+
+    return (data || []).some(row => ((row.papers || []) as unknown as MergedZoteroPaper[]).some(paper =>
+      paper.zotero_key === zoteroKey && (!paper.zotero_library || paper.zotero_library === zoteroLibrary)
+    ))
+  }
+
+  private async applyEvaluationMerge(
+    canonicalId: string,
+    canonical: EvaluationRow | undefined,
+    duplicates: EvaluationRow[],
+    zoteroSyncState: unknown
+  ): Promise<void> {
+    const merged = mergeEvaluations(canonical, duplicates)
+    if (!merged || duplicates.length === 0) return
+
+    // A paper has one evaluation: update the canonical's, or move the first duplicate's onto it
+    const target = canonical || duplicates[0]
+    const removed = duplicates.filter(evaluation => evaluation.id !== target.id)
+
+    if (removed.length > 0) {
+      await this.run(
+        this.supabase.from(TABLES.USER_EVALUATIONS).delete().in('id', removed.map(evaluation => evaluation.id)),
+        'remove duplicate evaluations'
+      )
+    }
+    await this.run(
+      this.supabase.from(TABLES.USER_EVALUATIONS).update({ ...merged, paper_id: canonicalId, zotero_sync_state: zoteroSyncState }).eq('id', target.id),
+      'merge evaluations'
+    )
+  }
+
+  /**
+   * Embedding chunks link to papers through `metadata.paper_id` rather than a foreign key
+   */
+  private async repointDocuments(documents: Pick<DocumentRow, 'id' | 'metadata'>[], paperId: string): Promise<void> {
+    for (const document of documents) {
+      await this.run(
+        this.supabase.from(TABLES.DOCUMENTS).update({ metadata: { ...document.metadata, paper_id: paperId } }).eq('id', document.id),
+        'move embeddings'
+      )
+    }
+  }
+
+  private async loadLibrary(userId: string): Promise<PaperRow[]> {
+    const rows: PaperRow[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .select('*')
+        .eq('created_by', userId)
+        .is('archived_at', null)
+        .order('date_added')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load papers: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if ((data || []).length < PAGE_SIZE) return rows
+    }
+  }
+
+  private async selectByPaperIds<T>(table: string, columns: string, paperIds: string[]): Promise<T[]> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .select(columns)
+      .in('paper_id', paperIds)
+
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`)
+    }
+
+    return (data || []) as T[]
+  }
+
+  private async selectDocuments(paperIds: string[]): Promise<Pick<DocumentRow, 'id' | 'metadata'>[]> {
+    const { data, error } = await this.supabase
+      .from(TABLES.DOCUMENTS)
+      .select('id, metadata')
+      .in('metadata->>paper_id', paperIds)
+
+    if (error) {
+      throw new Error(`Failed to load documents: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  private async run(query: PromiseLike<{ error: { message: string } | null }>, action: string): Promise<void> {
+    const { error } = await query
+    if (error) {
+      throw new Error(`Failed to ${action}: ${error.message}`)
+    }
+  }
+}
+
+function mapPaperRow(row: PaperRow): Paper {
+  return {
+    id: row.id,
+    title: row.title,
+    authors: row.authors || [],
+    journal: row.journal || undefined,
+    publicationYear: row.publication_year || undefined,
+    doi: row.doi || undefined,
+    abstract: row.abstract || undefined,
+    zoteroKey: row.zotero_key || undefined,
+    googleDriveId: row.google_drive_id || undefined,
+    googleDriveUrl: row.google_drive_url || undefined,
+    pdfPath: row.pdf_path || undefined,
+    storageBackend: row.storage_backend || undefined,
+    readingStatus: row.reading_status || 'unread',
+    dateAdded: new Date(row.date_added),
+    dateRead: row.date_read ? new Date(row.date_read) : undefined,
+    lastModified: new Date(row.last_modified)
+  }
+}
+
+function mapMergeRow(row: any): PaperMerge {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    canonicalPaperId: row.canonical_paper_id,
+    mergedPaperIds: row.merged_paper_ids || [],
+    mergedZoteroKeys: row.merged_zotero_keys || [],
+    createdAt: new Date(row.created_at),
+    undoneAt: row.undone_at ? new Date(row.undone_at) : undefined
+  }
+}
+
+let dedupeServiceInstance: DedupeService | null = null
+
+export function getDedupeService(): DedupeService {
+  if (!dedupeServiceInstance) {
+    dedupeServiceInstance = new DedupeService()
+  }
+  return dedupeServiceInstance
+}
@@ -0,0 +1,198 @@
+import { DedupeService } from '../DedupeService'
+import { createSupabaseMock, callsOf, type MockQuery } from '@/lib/__mocks__/supabase-client'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  TABLES: {
+    PAPERS: 'papers',
+    USER_EVALUATIONS: 'user_evaluations',
+    AI_ANALYSES: 'ai_analyses',
+    PAPER_FULL_TEXTS: 'paper_full_texts',
+    DOCUMENTS: 'documents'
+  }
+}))
+
+function paperRow(id: string, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani'],
+    zotero_key: null,
+    reading_status: 'unread',
+    date_added: '2024-01-01T00:00:00Z',
+    last_modified: '2024-01-01T00:00:00Z',
+    ...fields
+  }
+}
+
+function membership(collectionId: string, paperId: string, position = 0) {
+  return { collection_id: collectionId, paper_id: paperId, position, added_at: '2024-01-01T00:00:00Z' }
+}
+
+function mergeRow(snapshot: unknown) {
+  return {
+    id: 'merge-1',
+    user_id: 'user-1',
+    canonical_paper_id: 'canonical',
+    merged_paper_ids: ['dup'],
+    merged_zotero_keys: [],
+    snapshot,
+    created_at: '2024-02-01T00:00:00Z',
+    undone_at: null
+  }
+}
+
+// The call made on a query with the given method, e.g. the rows it inserted
+function callOf(queries: MockQuery[], table: string, method: string) {
+  return callsOf(queries.filter(query => query.table === table), method)[0]
+}
+
+describe('DedupeService', () => {
+  describe('mergePapers', () => {
+    it('keeps the duplicates\' collections on the canonical paper', async () => {
+      const { client, queries } = createSupabaseMock({
+        papers: [{ data: [paperRow('canonical'), paperRow('dup')] }],
+        collection_papers: [{ data: [membership('reading-list', 'canonical'), membership('reading-list', 'dup'), membership('thesis', 'dup', 4)] }],
+        paper_merges: [{ data: mergeRow({}) }]
+      })
+
+      await new DedupeService(client).mergePapers('user-1', 'canonical', ['dup'])
+
+      const [merge] = callOf(queries, 'paper_merges', 'insert') as any[]
+      expect(merge.snapshot).toMatchObject({
+        memberships: [membership('reading-list', 'dup'), membership('thesis', 'dup', 4)],
+        addedCollectionIds: ['thesis']
+      })
+      expect(callOf(queries, 'collection_papers', 'insert')).toEqual([[membership('thesis', 'canonical', 4)]])
+
+      // The memberships are copied before deleting the duplicates drops theirs
+      const order = queries.map(query => `${query.table}.${query.calls[0][0]}`)
+      expect(order.indexOf('collection_papers.insert')).toBeLessThan(order.indexOf('papers.delete'))
+    })
+
+    it('hands a duplicate\'s Zotero item over with its sync state and conflicts', async () => {
+      const conflict = { id: 'conflict-1', paper_id: 'dup', field: 'tags', local_value: ['nlp'], remote_value: ['ml'], remote_version: 13 }
+      const { client, queries } = createSupabaseMock({
+        papers: [{
+          data: [
+            paperRow('canonical'),
+            paperRow('dup', { zotero_key: 'ABCD1234', zotero_version: 12, zotero_library: 'users/123', zotero_attachment_key: null, zotero_attachment_version: null })
+          ]
+        }],
+        user_evaluations: [{
+          data: [
+            { id: 'e1', paper_id: 'canonical', rating: 4, notes: null, tags: [], highlights: {}, zotero_sync_state: null },
+            { id: 'e2', paper_id: 'dup', rating: null, notes: null, tags: ['nlp'], highlights: {}, zotero_sync_state: { tags: ['nlp'], noteKey: 'NOTE1' } }
+          ]
+        }],
+        zotero_sync_conflicts: [{ data: [conflict] }],
+        paper_merges: [{ data: mergeRow({}) }]
+      })
+
+      await new DedupeService(client).mergePapers('user-1', 'canonical', ['dup'])
+
+      const [merge] = callOf(queries, 'paper_merges', 'insert') as any[]
+      expect(merge.snapshot).toMatchObject({ zoteroConflicts: [conflict], movedZoteroConflictsFrom: 'dup' })
+
+      const conflictMove = queries.find(query => query.table === 'zotero_sync_conflicts' && query.calls[0][0] === 'update')
+      expect(conflictMove?.calls).toEqual([['update', [{ paper_id: 'canonical' }]], ['in', ['id', ['conflict-1']]]])
+
+      const evaluationUpdate = queries.find(query => query.table === 'user_evaluations' && query.calls[0][0] === 'update')
+      expect(evaluationUpdate?.calls[0][1][0]).toMatchObject({ paper_id: 'canonical', zotero_sync_state: { tags: ['nlp'], noteKey: 'NOTE1' } })
+
+      const paperUpdate = queries.find(query => query.table === 'papers' && query.calls[0][0] === 'update')
+      expect(paperUpdate?.calls[0][1][0]).toMatchObject({ zotero_key: 'ABCD1234', zotero_version: 12, zotero_library: 'users/123' })
+    })
+
+    it('leaves the canonical paper\'s own Zotero item and sync state alone', async () => {
+      const { client, queries } = createSupabaseMock({
+        papers: [{ data: [paperRow('canonical', { zotero_key: 'EFGH5678' }), paperRow('dup', { zotero_key: 'ABCD1234', zotero_version: 12 })] }],
+        user_evaluations: [{
+          data: [
+            { id: 'e1', paper_id: 'canonical', rating: 4, notes: null, tags: [], highlights: {}, zotero_sync_state: { rating: 4 } },
+            { id: 'e2', paper_id: 'dup', rating: null, notes: null, tags: ['nlp'], highlights: {}, zotero_sync_state: { tags: ['nlp'] } }
+          ]
+        }],
+        zotero_sync_conflicts: [{ data: [{ id: 'conflict-1', paper_id: 'dup', field: 'tags' }] }],
+        paper_merges: [{ data: mergeRow({}) }]
+      })
+
+      await new DedupeService(client).mergePapers('user-1', 'canonical', ['dup'])
+
+      expect(queries.some(query => query.table === 'zotero_sync_conflicts' && query.calls[0][0] === 'update')).toBe(false)
+      const evaluationUpdate = queries.find(query => query.table === 'user_evaluations' && query.calls[0][0] === 'update')
+      expect(evaluationUpdate?.calls[0][1][0]).toMatchObject({ zotero_sync_state: { rating: 4 } })
+      const [merge] = callOf(queries, 'paper_merges', 'insert') as any[]
+      expect(merge.snapshot.zoteroConflicts).toEqual([{ id: 'conflict-1', paper_id: 'dup', field: 'tags' }])
+    })
+  })
+
+  describe('undoMerge', () => {
+    it('puts the collections and Zotero sync conflicts back as they were', async () => {
+      const snapshot = {
+        canonical: paperRow('canonical'),
+        papers: [paperRow('dup')],
+        evaluations: [],
+        analyses: [],
+        movedAnalysisIds: [],
+        movedDocuments: [],
+        fullTexts: [],
+        memberships: [membership('thesis', 'dup', 4)],
+        addedCollectionIds: ['thesis'],
+        zoteroConflicts: [{ id: 'conflict-1', paper_id: 'dup', field: 'tags' }],
+        movedZoteroConflictsFrom: 'dup'
+      }
+      const { client, queries } = createSupabaseMock({
+        paper_merges: [{ data: mergeRow(snapshot) }, { data: [] }, { data: { ...mergeRow(snapshot), undone_at: '2024-02-02T00:00:00Z' } }]
+      })
+
+      await new DedupeService(client).undoMerge('user-1', 'merge-1')
+
+      const removal = queries.find(query => query.table === 'collection_papers' && query.calls[0][0] === 'delete')
+      expect(removal?.calls).toEqual([['delete', []], ['eq', ['paper_id', 'canonical']], ['in', ['collection_id', ['thesis']]]])
+      expect(callOf(queries, 'collection_papers', 'upsert')).toEqual([[membership('thesis', 'dup', 4)]])
+      expect(callOf(queries, 'zotero_sync_conflicts', 'upsert')).toEqual([[{ id: 'conflict-1', paper_id: 'dup', field: 'tags' }]])
+    })
+  })
+
+  describe('findDuplicatesOf', () => {
+    it('matches against the library without its archived papers', async () => {
+      const { client, queries } = createSupabaseMock({ papers: [{ data: [paperRow('existing')] }] })
+
+      const [match] = await new DedupeService(client).findDuplicatesOf('user-1', [
+        { id: 'new', title: 'Attention Is All You Need', authors: ['Ashish Vaswani'] }
+      ])
+
+      expect(match?.paperId).toBe('existing')
+      expect(queries[0].calls).toContainEqual(['is', ['archived_at', null]])
+    })
+  })
+
+  describe('isMergedZoteroKey', () => {
+    it('matches merged papers of the same user and library', async () => {
+      const { client, queries } = createSupabaseMock({
+        paper_merges: [{ data: [{ papers: [{ zotero_key: 'ABCD1234', zotero_library: 'groups/4711' }] }] }]
+      })
+
+      await expect(new DedupeService(client).isMergedZoteroKey('user-1', 'groups/4711', 'ABCD1234')).resolves.toBe(true)
+      expect(queries[0].calls).toContainEqual(['eq', ['user_id', 'user-1']])
+      expect(queries[0].calls).toContainEqual(['contains', ['merged_zotero_keys', ['ABCD1234']]])
+    })
+
+    it('ignores a paper with the same key merged in another library', async () => {
+      const { client } = createSupabaseMock({
+        paper_merges: [{ data: [{ papers: [{ zotero_key: 'ABCD1234', zotero_library: 'users/123' }] }] }]
+      })
+
+      await expect(new DedupeService(client).isMergedZoteroKey('user-1', 'groups/4711', 'ABCD1234')).resolves.toBe(false)
+    })
+
+    it('matches papers merged before their library was tracked', async () => {
+      const { client } = createSupabaseMock({
+        paper_merges: [{ data: [{ papers: [{ zotero_key: 'ABCD1234', zotero_library: null }] }] }]
+      })
+
+      await expect(new DedupeService(client).isMergedZoteroKey('user-1', 'groups/4711', 'ABCD1234')).resolves.toBe(true)
+    })
+  })
+})
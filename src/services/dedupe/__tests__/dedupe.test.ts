@@ -0,0 +1,296 @@
+import {
+  findDuplicateClusters,
+  findLibraryMatches,
+  scorePaperPair,
+  titleSimilarity,
+  authorOverlap,
+  suggestCanonicalPaper,
+  type DedupeCandidate
+} from '../scoring'
+import { canonicalMemberships, fillMissingPaperFields, mergeEvaluations, partitionAnalyses } from '../merging'
+import type {
+  Paper as PaperRow,
+  UserEvaluation as EvaluationRow,
+  AIAnalysis as AnalysisRow
+} from '@/lib/database'
+
+function candidate(id: string, fields: Partial<DedupeCandidate> = {}): DedupeCandidate {
+  return {
+    id,
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+    publicationYear: 2017,
+    ...fields
+  }
+}
+
+function paperRow(id: string, fields: Partial<PaperRow> = {}): PaperRow {
+  return {
+    id,
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani'],
+    journal: null,
+    publication_year: null,
+    doi: null,
+    abstract: null,
+    zotero_key: null,
+    google_drive_id: null,
+    google_drive_url: null,
+    pdf_path: null,
+    storage_backend: null,
+    reading_status: 'unread',
+    date_added: '2024-01-01T00:00:00Z',
+    date_read: null,
+    last_modified: '2024-01-01T00:00:00Z',
+    ...fields
+  }
+}
+
+function evaluation(id: string, paperId: string, fields: Partial<EvaluationRow> = {}): EvaluationRow {
+  return {
+    id,
+    paper_id: paperId,
+    rating: null,
+    notes: null,
+    tags: [],
+    highlights: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...fields
+  }
+}
+
+function analysis(
+  id: string,
+  paperId: string,
+  modelName: string,
+  createdAt: string,
+  template: Pick<AnalysisRow, 'template_id' | 'template_version'> = { template_id: null, template_version: null }
+): AnalysisRow {
+  return {
+    id,
+    paper_id: paperId,
+    model_provider: 'openai',
+    model_name: modelName,
+    summary: null,
+    keywords: [],
+    scientific_relevance: null,
+    confidence_score: null,
+    tokens_used: null,
+    processing_time_ms: null,
+    ...template,
+    created_at: createdAt
+  }
+}
+
+describe('duplicate scoring', () => {
+  it('treats a shared DOI as conclusive, whatever its formatting', () => {
+    const { score, signals } = scorePaperPair(
+      candidate('a', { title: 'Attention is all you need', doi: 'https://doi.org/10.48550/arXiv.1706.03762' }),
+      candidate('b', { title: 'Transformers (preprint)', doi: '10.48550/arxiv.1706.03762' })
+    )
+
+    expect(score).toBe(1)
+    expect(signals.doiMatch).toBe(true)
+  })
+
+  it('matches titles that differ in case, punctuation and diacritics', () => {
+    expect(titleSimilarity('Attention Is All You Need', 'attention is all you need.')).toBe(1)
+    expect(titleSimilarity('Résumé parsing with CRFs', 'Resume Parsing with CRFs')).toBe(1)
+    expect(titleSimilarity('Attention Is All You Need', 'Atention is all you need')).toBeGreaterThan(0.9)
+    expect(titleSimilarity('Attention Is All You Need', 'Deep Residual Learning for Image Recognition')).toBeLessThan(0.3)
+  })
+
+  it('compares authors by family name, in either name order, against the shorter list', () => {
+    expect(authorOverlap(['Ashish Vaswani', 'Noam Shazeer'], ['Vaswani, A.', 'Shazeer, N.', 'Parmar, N.'])).toBe(1)
+    expect(authorOverlap(['Ashish Vaswani'], ['Kaiming He'])).toBe(0)
+    expect(authorOverlap([], ['Kaiming He'])).toBeUndefined()
+  })
+
+  it('scores a Zotero copy with a slightly different title as a duplicate', () => {
+    const { score } = scorePaperPair(
+      candidate('a'),
+      candidate('b', { title: 'Attention is all you need.', authors: ['Vaswani, Ashish', 'Shazeer, Noam'], publicationYear: 2017 })
+    )
+
+    expect(score).toBeGreaterThanOrEqual(0.95)
+  })
+
+  it('keeps preprint and published versions together but penalizes conflicting DOIs', () => {
+    const preprint = scorePaperPair(
+      candidate('a', { doi: '10.48550/arxiv.1706.03762', publicationYear: 2017 }),
+      candidate('b', { doi: '10.5555/3295222.3295349', publicationYear: 2018 })
+    )
+    const conflicting = scorePaperPair(
+      candidate('a', { doi: '10.1000/first' }),
+      candidate('b', { doi: '10.1000/second' })
+    )
+
+    expect(preprint.signals.doiConflict).toBe(false)
+    expect(preprint.score).toBeGreaterThan(0.85)
+    expect(conflicting.signals.doiConflict).toBe(true)
+    expect(conflicting.score).toBeLessThan(0.85)
+  })
+
+  it('does not match different papers by the same authors', () => {
+    const { score } = scorePaperPair(
+      candidate('a'),
+      candidate('b', { title: 'One Model To Learn Them All' })
+    )
+
+    expect(score).toBe(0)
+  })
+})
+
+describe('findDuplicateClusters', () => {
+  it('joins matching pairs transitively and leaves other papers out', () => {
+    const papers = [
+      candidate('1', { doi: '10.48550/arxiv.1706.03762' }),
+      candidate('2', { title: 'Attention is all you need', doi: '10.48550/ARXIV.1706.03762', authors: [] }),
+      candidate('3', { title: 'Attention Is All You Need.', authors: ['Vaswani, A.'], publicationYear: undefined }),
+      candidate('4', { title: 'Deep Residual Learning for Image Recognition', authors: ['Kaiming He'], publicationYear: 2016 }),
+      candidate('5', { title: 'BERT: Pre-training of Deep Bidirectional Transformers', authors: ['Jacob Devlin'], publicationYear: 2019 })
+    ]
+
+    const clusters = findDuplicateClusters(papers)
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].paperIds).toEqual(['1', '2', '3'])
+    expect(clusters[0].pairs.length).toBeGreaterThanOrEqual(2)
+    expect(clusters[0].score).toBeGreaterThanOrEqual(0.85)
+  })
+
+  it('respects a custom threshold', () => {
+    const papers = [
+      candidate('1'),
+      candidate('2', { publicationYear: 2019 })
+    ]
+
+    expect(findDuplicateClusters(papers)).toHaveLength(1)
+    expect(findDuplicateClusters(papers, { threshold: 0.99 })).toHaveLength(0)
+  })
+
+  it('suggests the most complete paper as canonical, then the oldest', () => {
+    const bare = candidate('bare', { dateAdded: new Date('2020-01-01') })
+    const complete = candidate('complete', { doi: '10.1000/x', abstract: 'Abstract', dateAdded: new Date('2023-01-01') })
+    const older = candidate('older', { doi: '10.1000/x', abstract: 'Abstract', dateAdded: new Date('2022-01-01') })
+
+    expect(suggestCanonicalPaper([bare, complete]).id).toBe('complete')
+    expect(suggestCanonicalPaper([complete, older]).id).toBe('older')
+  })
+})
+
+describe('findLibraryMatches', () => {
+  it('matches incoming papers against the library and earlier incoming papers', () => {
+    const library = [
+      candidate('lib-1', { doi: '10.48550/arxiv.1706.03762' }),
+      candidate('lib-2', { title: 'Deep Residual Learning for Image Recognition', authors: ['Kaiming He'], publicationYear: 2016 })
+    ]
+    const incoming = [
+      candidate('new-1', { title: 'Attention is all you need.', authors: ['Vaswani, Ashish'] }),
+      candidate('new-2', { title: 'BERT: Pre-training of Deep Bidirectional Transformers', authors: ['Jacob Devlin'], publicationYear: 2019 }),
+      candidate('new-3', { title: 'BERT: pre-training of deep bidirectional transformers', authors: ['Devlin, J.'], publicationYear: 2019 })
+    ]
+
+    const matches = findLibraryMatches(incoming, library)
+
+    expect(matches[0]).toMatchObject({ paperId: 'lib-1' })
+    expect(matches[1]).toBeNull()
+    expect(matches[2]).toMatchObject({ paperId: 'new-2' })
+    expect(matches[2]!.score).toBeGreaterThanOrEqual(0.85)
+  })
+
+  it('never reports a library paper as matching another library paper', () => {
+    const library = [candidate('lib-1'), candidate('lib-2')]
+
+    expect(findLibraryMatches([], library)).toEqual([])
+    expect(findLibraryMatches([candidate('new', { title: 'Something else entirely' })], library)).toEqual([null])
+  })
+})
+
+describe('merging', () => {
+  it('fills only fields the canonical paper lacks', () => {
+    const updates = fillMissingPaperFields(
+      paperRow('canonical', { journal: 'NeurIPS', reading_status: 'reading' }),
+      [
+        paperRow('dup1', { journal: 'arXiv', doi: '10.48550/arxiv.1706.03762', zotero_key: 'ABCD1234', authors: ['Ashish Vaswani', 'Noam Shazeer'] }),
+        paperRow('dup2', { abstract: 'The dominant sequence transduction models…', reading_status: 'completed' })
+      ]
+    )
+
+    expect(updates).toEqual({
+      doi: '10.48550/arxiv.1706.03762',
+      abstract: 'The dominant sequence transduction models…',
+      zotero_key: 'ABCD1234',
+      authors: ['Ashish Vaswani', 'Noam Shazeer'],
+      reading_status: 'completed'
+    })
+  })
+
+  it('combines evaluations, keeping the canonical rating', () => {
+    const merged = mergeEvaluations(
+      evaluation('e1', 'canonical', { rating: 4, notes: 'Read twice', tags: ['nlp'], highlights: { p1: 'canonical' } }),
+      [
+        evaluation('e2', 'dup', { rating: 5, notes: 'Key paper', tags: ['nlp', 'transformer'], highlights: { p1: 'dup', p2: 'dup' } })
+      ]
+    )
+
+    expect(merged).toEqual({
+      rating: 4,
+      notes: 'Read twice\n\nKey paper',
+      tags: ['nlp', 'transformer'],
+      highlights: { p1: 'canonical', p2: 'dup' }
+    })
+  })
+
+  it('takes a duplicate rating when the canonical paper has no evaluation', () => {
+    expect(mergeEvaluations(undefined, [evaluation('e2', 'dup', { rating: 3 })])).toMatchObject({ rating: 3, notes: null })
+    expect(mergeEvaluations(undefined, [])).toBeNull()
+  })
+
+  it('moves analyses from new models and discards those the canonical paper already has', () => {
+    const { move, discard } = partitionAnalyses(
+      [analysis('a1', 'canonical', 'gpt-4o', '2024-01-01T00:00:00Z')],
+      [
+        analysis('a2', 'dup1', 'gpt-4o', '2024-02-01T00:00:00Z'),
+        analysis('a3', 'dup1', 'gpt-4o-mini', '2024-01-01T00:00:00Z'),
+        analysis('a4', 'dup2', 'gpt-4o-mini', '2024-03-01T00:00:00Z')
+      ]
+    )
+
+    expect(move.map(row => row.id)).toEqual(['a4'])
+    expect(discard.map(row => row.id).sort()).toEqual(['a2', 'a3'])
+  })
+
+  it('keeps a duplicate\'s template analyses from a model the canonical paper already used', () => {
+    const summaryTemplate = { template_id: 'template-1', template_version: 1 }
+    const { move, discard } = partitionAnalyses(
+      [
+        analysis('a1', 'canonical', 'gpt-4o', '2024-01-01T00:00:00Z'),
+        analysis('a2', 'canonical', 'gpt-4o', '2024-01-01T00:00:00Z', summaryTemplate)
+      ],
+      [
+        analysis('a3', 'dup1', 'gpt-4o', '2024-02-01T00:00:00Z', { template_id: 'template-1', template_version: 2 }),
+        analysis('a4', 'dup1', 'gpt-4o', '2024-02-01T00:00:00Z', { template_id: 'template-2', template_version: 1 }),
+        analysis('a5', 'dup1', 'gpt-4o', '2024-02-01T00:00:00Z', summaryTemplate)
+      ]
+    )
+
+    expect(move.map(row => row.id).sort()).toEqual(['a3', 'a4'])
+    expect(discard.map(row => row.id)).toEqual(['a5'])
+  })
+
+  it('adds the canonical paper to the duplicates\' collections it is not in', () => {
+    const membership = (collectionId: string, paperId: string, position: number) =>
+      ({ collection_id: collectionId, paper_id: paperId, position, added_at: '2024-01-01T00:00:00Z' })
+
+    const added = canonicalMemberships('canonical', [
+      membership('reading-list', 'canonical', 0),
+      membership('reading-list', 'dup1', 3),
+      membership('thesis', 'dup1', 2),
+      membership('thesis', 'dup2', 5)
+    ])
+
+    expect(added).toEqual([membership('thesis', 'canonical', 2)])
+  })
+})
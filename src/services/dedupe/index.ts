@@ -0,0 +1,30 @@
+export { DedupeService, PaperMergeError, getDedupeService } from './DedupeService'
+export {
+  findDuplicateClusters,
+  findLibraryMatches,
+  scorePaperPair,
+  candidatePairs,
+  suggestCanonicalPaper,
+  normalizeTitle,
+  normalizePaperDoi,
+  titleSimilarity,
+  authorOverlap,
+  authorFamilyName,
+  DEFAULT_DUPLICATE_THRESHOLD
+} from './scoring'
+export { fillMissingPaperFields, mergeEvaluations, partitionAnalyses } from './merging'
+export type {
+  DuplicateClusterPaper,
+  DuplicateClusterWithPapers,
+  PaperMerge,
+  PaperMergeErrorCode
+} from './DedupeService'
+export type {
+  DedupeCandidate,
+  DedupeOptions,
+  DuplicateCluster,
+  DuplicatePair,
+  DuplicateSignals,
+  LibraryMatch
+} from './scoring'
+export type { PaperFieldUpdates, MergedEvaluation } from './merging'
@@ -0,0 +1,157 @@
+import type {
+  Paper as PaperRow,
+  UserEvaluation as EvaluationRow,
+  AIAnalysis as AnalysisRow
+} from '@/lib/database'
+
+// Paper columns a merge fills on the canonical paper when only a duplicate has them
+const FILLABLE_PAPER_FIELDS = [
+  'journal',
+  'publication_year',
+  'doi',
+  'abstract',
+  'zotero_key',
+  'google_drive_id',
+  'google_drive_url',
+  'pdf_path',
+  'storage_backend',
+  'date_read'
+] as const
+
+const READING_PROGRESS: Record<PaperRow['reading_status'], number> = {
+  unread: 0,
+  reading: 1,
+  completed: 2
+}
+
+export type PaperFieldUpdates = Partial<Pick<PaperRow, typeof FILLABLE_PAPER_FIELDS[number] | 'authors' | 'reading_status'>>
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Columns the canonical paper lacks and a duplicate has, taken from duplicates in
+ * order. The furthest reading status wins, and the longer author list replaces a
+ * truncated one.
+ */
+export function fillMissingPaperFields(canonical: PaperRow, duplicates: PaperRow[]): PaperFieldUpdates {
+  const updates: Record<string, unknown> = {}
+
+  for (const field of FILLABLE_PAPER_FIELDS) {
+    if (!isEmpty(canonical[field])) continue
+    const source = duplicates.find(duplicate => !isEmpty(duplicate[field]))
+    if (source) updates[field] = source[field]
+  }
+
+  const longestAuthors = duplicates.reduce<string[]>(
+    (longest, duplicate) => (duplicate.authors?.length || 0) > longest.length ? duplicate.authors! : longest,
+    canonical.authors || []
+  )
+  if (longestAuthors !== (canonical.authors || [])) {
+    updates.authors = longestAuthors
+  }
+
+  const furthest = duplicates.reduce(
+    (status, duplicate) => READING_PROGRESS[duplicate.reading_status] > READING_PROGRESS[status] ? duplicate.reading_status : status,
+    canonical.reading_status
+  )
+  if (furthest !== canonical.reading_status) {
+    updates.reading_status = furthest
+  }
+
+  return updates as PaperFieldUpdates
+}
+
+export type MergedEvaluation = Pick<EvaluationRow, 'rating' | 'notes' | 'tags' | 'highlights'>
+
+/**
+ * Combine evaluations into one, since a paper has at most one. The canonical
+ * rating wins; notes are concatenated, tags unioned and highlights merged with
+ * the canonical's taking precedence.
+ */
+export function mergeEvaluations(canonical: EvaluationRow | undefined, duplicates: EvaluationRow[]): MergedEvaluation | null {
+  const evaluations = [...(canonical ? [canonical] : []), ...duplicates]
+  if (evaluations.length === 0) return null
+
+  const notes = Array.from(new Set(evaluations.map(evaluation => evaluation.notes?.trim()).filter(Boolean)))
+  const tags = Array.from(new Set(evaluations.flatMap(evaluation => evaluation.tags || [])))
+  const highlights = evaluations
+    .slice()
+    .reverse()
+    .reduce<Record<string, unknown> | null>(
+      (merged, evaluation) => evaluation.highlights ? { ...(merged || {}), ...evaluation.highlights } : merged,
+      null
+    )
+
+  return {
+    rating: evaluations.find(evaluation => evaluation.rating)?.rating ?? null,
+    notes: notes.length > 0 ? notes.join('\n\n') : null,
+    tags,
+    highlights
+  }
+}
+
+// A paper has one analysis per model and prompt template version (NULL for
+// the structured analysis), as ai_analyses' unique constraint has it
+function analysisKey(analysis: AnalysisRow): string {
+  return JSON.stringify([
+    analysis.model_provider,
+    analysis.model_name,
+    analysis.template_id ?? null,
+    analysis.template_version ?? null
+  ])
+}
+
+/**
+ * Split duplicate analyses into those that can move onto the canonical paper and
+ * those that would collide with an analysis it already has from the same model
+ * and template version. Newer analyses win among duplicates.
+ */
+export function partitionAnalyses(
+  canonical: AnalysisRow[],
+  duplicates: AnalysisRow[]
+): { move: AnalysisRow[]; discard: AnalysisRow[] } {
+  const taken = new Set(canonical.map(analysisKey))
+  const move: AnalysisRow[] = []
+  const discard: AnalysisRow[] = []
+
+  duplicates
+    .slice()
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .forEach(analysis => {
+      const key = analysisKey(analysis)
+      if (taken.has(key)) {
+        discard.push(analysis)
+      } else {
+        taken.add(key)
+        move.push(analysis)
+      }
+    })
+
+  return { move, discard }
+}
+
+// A paper's place in a collection (collection_papers)
+export interface MembershipRow {
+  collection_id: string
+  paper_id: string
+  position: number
+  added_at: string
+}
+
+/**
+ * Memberships that put the canonical paper in the duplicates' collections it
+ * isn't in yet, at the position of a duplicate in that collection
+ */
+export function canonicalMemberships(canonicalId: string, memberships: MembershipRow[]): MembershipRow[] {
+  const added = new Map<string, MembershipRow>()
+  const joined = new Set(memberships.filter(membership => membership.paper_id === canonicalId).map(membership => membership.collection_id))
+
+  for (const membership of memberships) {
+    if (joined.has(membership.collection_id) || added.has(membership.collection_id)) continue
+    added.set(membership.collection_id, { ...membership, paper_id: canonicalId })
+  }
+
+  return Array.from(added.values())
+}
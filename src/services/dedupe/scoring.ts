@@ -0,0 +1,333 @@
+import type { Paper } from '@/types'
+import { normalizeDoi } from '@/services/metadata/identifiers'
+
+export type DedupeCandidate = Pick<Paper, 'id' | 'title' | 'authors'> &
+  Partial<Pick<Paper, 'doi' | 'publicationYear' | 'journal' | 'abstract' | 'zoteroKey' | 'googleDriveId' | 'pdfPath' | 'dateAdded'>>
+
+export interface DuplicateSignals {
+  // Both papers carry the same normalized DOI
+  doiMatch: boolean
+  // Both papers carry DOIs that differ (and neither is a preprint DOI)
+  doiConflict: boolean
+  // 0-1 character-bigram similarity of normalized titles
+  title: number
+  // 0-1 share of family names in common, relative to the shorter author list
+  authors?: number
+  // 1 for the same year, 0.5 one year apart (preprint vs. published), otherwise 0
+  year?: number
+}
+
+export interface DuplicatePair {
+  a: string
+  b: string
+  score: number
+  signals: DuplicateSignals
+}
+
+export interface DuplicateCluster {
+  id: string
+  paperIds: string[]
+  suggestedCanonicalId: string
+  // Lowest score among the pairs that joined the cluster
+  score: number
+  pairs: DuplicatePair[]
+}
+
+export interface LibraryMatch {
+  // The library paper, or earlier candidate, the candidate duplicates
+  paperId: string
+  score: number
+  signals: DuplicateSignals
+}
+
+export interface DedupeOptions {
+  threshold?: number
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85
+
+const TITLE_WEIGHT = 0.6
+const AUTHOR_WEIGHT = 0.25
+const YEAR_WEIGHT = 0.15
+// Below this, titles are treated as different papers whatever the other signals say
+const MIN_TITLE_SIMILARITY = 0.75
+const DOI_CONFLICT_PENALTY = 0.6
+// Each paper is compared only with papers sharing one of its rarest title words
+const BLOCKING_TOKENS_PER_PAPER = 3
+const PREPRINT_DOI_PREFIXES = ['10.48550/', '10.1101/', '10.21203/', '10.20944/']
+
+/**
+ * Lower-case title without diacritics, punctuation or repeated whitespace
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Bare lower-case DOI, or undefined when the stored value is not a DOI
+ */
+export function normalizePaperDoi(doi?: string | null): string | undefined {
+  if (!doi) return undefined
+  const normalized = normalizeDoi(doi)
+  return /^10\.\d{4,9}\//.test(normalized) ? normalized : undefined
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams, tolerant of typos and
+ * small wording differences such as a dropped subtitle word
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a).replace(/ /g, '')
+  const right = normalizeTitle(b).replace(/ /g, '')
+  if (!left || !right) return 0
+  if (left === right) return 1
+  if (left.length < 2 || right.length < 2) return 0
+
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1)
+  }
+
+  let shared = 0
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.slice(i, i + 2)
+    const count = bigrams.get(bigram) || 0
+    if (count > 0) {
+      bigrams.set(bigram, count - 1)
+      shared++
+    }
+  }
+
+  return (2 * shared) / (left.length + right.length - 2)
+}
+
+/**
+ * Family name of an author written "Given Family" or "Family, Given"
+ */
+export function authorFamilyName(author: string): string {
+  const name = author.includes(',') ? author.split(',')[0] : author.trim().split(/\s+/).pop() || ''
+  return normalizeTitle(name).replace(/ /g, '')
+}
+
+/**
+ * Share of family names in common relative to the shorter list, so a truncated
+ * author list ("Vaswani et al.") still matches the full one
+ */
+export function authorOverlap(a: string[], b: string[]): number | undefined {
+  const left = new Set(a.map(authorFamilyName).filter(Boolean))
+  const right = new Set(b.map(authorFamilyName).filter(Boolean))
+  if (left.size === 0 || right.size === 0) return undefined
+
+  let shared = 0
+  left.forEach(name => {
+    if (right.has(name)) shared++
+  })
+  return shared / Math.min(left.size, right.size)
+}
+
+function yearAgreement(a?: number, b?: number): number | undefined {
+  if (!a || !b) return undefined
+  const gap = Math.abs(a - b)
+  return gap === 0 ? 1 : gap === 1 ? 0.5 : 0
+}
+
+function isPreprintDoi(doi: string): boolean {
+  return PREPRINT_DOI_PREFIXES.some(prefix => doi.startsWith(prefix))
+}
+
+/**
+ * Likelihood (0-1) that two papers are the same work. A shared DOI is conclusive;
+ * otherwise title, author and year agreement are weighted, ignoring signals that
+ * one of the papers lacks.
+ */
+export function scorePaperPair(a: DedupeCandidate, b: DedupeCandidate): { score: number; signals: DuplicateSignals } {
+  const doiA = normalizePaperDoi(a.doi)
+  const doiB = normalizePaperDoi(b.doi)
+  const doiMatch = !!doiA && doiA === doiB
+  // A preprint and its published version legitimately carry different DOIs
+  const doiConflict = !!doiA && !!doiB && !doiMatch && !isPreprintDoi(doiA) && !isPreprintDoi(doiB)
+
+  const signals: DuplicateSignals = {
+    doiMatch,
+    doiConflict,
+    title: titleSimilarity(a.title, b.title),
+    authors: authorOverlap(a.authors || [], b.authors || []),
+    year: yearAgreement(a.publicationYear, b.publicationYear)
+  }
+
+  if (doiMatch) {
+    return { score: 1, signals }
+  }
+  if (signals.title < MIN_TITLE_SIMILARITY) {
+    return { score: 0, signals }
+  }
+
+  let weighted = signals.title * TITLE_WEIGHT
+  let weights = TITLE_WEIGHT
+  if (signals.authors !== undefined) {
+    weighted += signals.authors * AUTHOR_WEIGHT
+    weights += AUTHOR_WEIGHT
+  }
+  if (signals.year !== undefined) {
+    weighted += signals.year * YEAR_WEIGHT
+    weights += YEAR_WEIGHT
+  }
+
+  const score = (weighted / weights) * (doiConflict ? DOI_CONFLICT_PENALTY : 1)
+  return { score: Math.round(score * 1000) / 1000, signals }
+}
+
+/**
+ * Candidate pairs worth scoring: papers sharing a DOI or one of their rarest
+ * shared title words. Avoids comparing every pair in a large library.
+ */
+export function candidatePairs(papers: DedupeCandidate[]): Array<[number, number]> {
+  const tokensByPaper = papers.map(paper =>
+    Array.from(new Set(normalizeTitle(paper.title).split(' ').filter(token => token.length > 2)))
+  )
+
+  const frequency = new Map<string, number>()
+  tokensByPaper.forEach(tokens => tokens.forEach(token => frequency.set(token, (frequency.get(token) || 0) + 1)))
+
+  const blocks = new Map<string, number[]>()
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key)
+    if (block) block.push(index)
+    else blocks.set(key, [index])
+  }
+
+  papers.forEach((paper, index) => {
+    const doi = normalizePaperDoi(paper.doi)
+    if (doi) addToBlock(`doi:${doi}`, index)
+
+    // Words no other paper uses cannot pair anything up
+    tokensByPaper[index]
+      .filter(token => frequency.get(token)! > 1)
+      .sort((x, y) => (frequency.get(x)! - frequency.get(y)!) || x.localeCompare(y))
+      .slice(0, BLOCKING_TOKENS_PER_PAPER)
+      .forEach(token => addToBlock(`title:${token}`, index))
+  })
+
+  const seen = new Set<string>()
+  const pairs: Array<[number, number]> = []
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = `${block[i]}:${block[j]}`
+        if (!seen.has(key)) {
+          seen.add(key)
+          pairs.push([block[i], block[j]])
+        }
+      }
+    }
+  })
+  return pairs
+}
+
+/**
+ * How much a paper has that a merge would otherwise have to copy over
+ */
+function completeness(paper: DedupeCandidate): number {
+  return [paper.doi, paper.abstract, paper.journal, paper.publicationYear, paper.zoteroKey, paper.googleDriveId, paper.pdfPath]
+    .filter(value => value !== undefined && value !== null && value !== '').length +
+    Math.min(paper.authors?.length || 0, 3) / 3
+}
+
+/**
+ * The most complete paper, oldest first on ties, so links and history stay on the original
+ */
+export function suggestCanonicalPaper<T extends DedupeCandidate>(papers: T[]): T {
+  return papers.slice().sort((a, b) =>
+    completeness(b) - completeness(a) ||
+    (a.dateAdded ? new Date(a.dateAdded).getTime() : Infinity) - (b.dateAdded ? new Date(b.dateAdded).getTime() : Infinity) ||
+    a.id.localeCompare(b.id)
+  )[0]
+}
+
+/**
+ * Group papers into duplicate clusters. Pairs scoring at or above the threshold
+ * are joined transitively, so A~B and B~C produce one cluster {A, B, C}.
+ */
+export function findDuplicateClusters(papers: DedupeCandidate[], options: DedupeOptions = {}): DuplicateCluster[] {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+  const parent = papers.map((_, index) => index)
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  const matches: Array<{ i: number; pair: DuplicatePair }> = []
+  for (const [i, j] of candidatePairs(papers)) {
+    const { score, signals } = scorePaperPair(papers[i], papers[j])
+    if (score >= threshold) {
+      parent[root(j)] = root(i)
+      matches.push({ i, pair: { a: papers[i].id, b: papers[j].id, score, signals } })
+    }
+  }
+
+  const members = new Map<number, number[]>()
+  papers.forEach((_, index) => {
+    const group = root(index)
+    members.set(group, [...(members.get(group) || []), index])
+  })
+
+  const pairsByGroup = new Map<number, DuplicatePair[]>()
+  matches.forEach(({ i, pair }) => {
+    const group = root(i)
+    pairsByGroup.set(group, [...(pairsByGroup.get(group) || []), pair])
+  })
+
+  const clusters: DuplicateCluster[] = []
+  members.forEach((indexes, group) => {
+    if (indexes.length < 2) return
+
+    const clusterPapers = indexes.map(index => papers[index])
+    const pairs = pairsByGroup.get(group) || []
+    const paperIds = clusterPapers.map(paper => paper.id).sort()
+    clusters.push({
+      id: paperIds.join(':'),
+      paperIds,
+      suggestedCanonicalId: suggestCanonicalPaper(clusterPapers).id,
+      score: Math.min(...pairs.map(pair => pair.score)),
+      pairs: pairs.sort((x, y) => y.score - x.score)
+    })
+  })
+
+  return clusters.sort((x, y) => y.score - x.score || x.id.localeCompare(y.id))
+}
+
+/**
+ * Best duplicate for each incoming paper (upload, import) among the library and
+ * the candidates before it, or null when it is new
+ */
+export function findLibraryMatches(
+  candidates: DedupeCandidate[],
+  library: DedupeCandidate[],
+  options: DedupeOptions = {}
+): Array<LibraryMatch | null> {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+  const all = [...library, ...candidates]
+  const matches: Array<LibraryMatch | null> = candidates.map(() => null)
+
+  for (const [i, j] of candidatePairs(all)) {
+    // Blocks list papers in order, so j is the later paper of the pair
+    if (j < library.length) continue
+
+    const { score, signals } = scorePaperPair(all[j], all[i])
+    const current = matches[j - library.length]
+    if (score >= threshold && (!current || score > current.score)) {
+      matches[j - library.length] = { paperId: all[i].id, score, signals }
+    }
+  }
+
+  return matches
+}
@@ -0,0 +1,86 @@
+import { Embeddings } from '@langchain/core/embeddings'
+import { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider'
+import { GeminiEmbeddingProvider } from './GeminiEmbeddingProvider'
+import { LocalEmbeddingProvider } from './LocalEmbeddingProvider'
+import type { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingProviderId, EmbeddingSettings } from './types'
+
+export const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = ['openai', 'gemini', 'local']
+
+/**
+ * The provider a library starts with before it has one stored.
+ * EMBEDDING_PROVIDER picks it; otherwise OpenAI is used when the server has
+ * an OpenAI key and the local backend when it does not. Keys sent with a
+ * request never pick the provider.
+ */
+export function defaultEmbeddingSettings(): EmbeddingSettings {
+  const configured = process.env.EMBEDDING_PROVIDER
+  const model = process.env.EMBEDDING_MODEL || undefined
+  const dimensions = process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10) : undefined
+
+  if (configured) {
+    if (!EMBEDDING_PROVIDER_IDS.includes(configured as EmbeddingProviderId)) {
+      throw new Error(`Unknown embedding provider: ${configured}`)
+    }
+    return { provider: configured as EmbeddingProviderId, model, dimensions }
+  }
+
+  return process.env.OPENAI_API_KEY
+    ? { provider: 'openai', model, dimensions }
+    : { provider: 'local', dimensions }
+}
+
+/**
+ * Config for the library's embedding provider, with the API key it needs.
+ * A key sent with the request is preferred over the server's.
+ */
+export function resolveEmbeddingProviderConfig(
+  settings: EmbeddingSettings,
+  keys: { openaiApiKey?: string; geminiApiKey?: string } = {}
+): EmbeddingProviderConfig {
+  const apiKey = settings.provider === 'openai'
+    ? keys.openaiApiKey || process.env.OPENAI_API_KEY
+    : settings.provider === 'gemini'
+      ? keys.geminiApiKey || process.env.GOOGLE_AI_API_KEY
+      : undefined
+
+  return { provider: settings.provider, apiKey, model: settings.model, dimensions: settings.dimensions }
+}
+
+/**
+ * Create an embedding provider from config
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      if (!config.apiKey) {
+        throw new Error('OpenAI API key is required for OpenAI embeddings')
+      }
+      return new OpenAIEmbeddingProvider(config.apiKey, config.model, config.dimensions)
+    case 'gemini':
+      if (!config.apiKey) {
+        throw new Error('Gemini API key is required for Gemini embeddings')
+      }
+      return new GeminiEmbeddingProvider(config.apiKey, config.model, config.dimensions)
+    case 'local':
+      return new LocalEmbeddingProvider(config.dimensions)
+    default:
+      throw new Error(`Unsupported embedding provider: ${config.provider}`)
+  }
+}
+
+/**
+ * LangChain adapter so any EmbeddingProvider can back a LangChain vector store
+ */
+export class ProviderEmbeddings extends Embeddings {
+  constructor(private provider: EmbeddingProvider) {
+    super({})
+  }
+
+  embedDocuments(documents: string[]): Promise<number[][]> {
+    return this.caller.call(() => this.provider.embedDocuments(documents))
+  }
+
+  embedQuery(document: string): Promise<number[]> {
+    return this.caller.call(() => this.provider.embedQuery(document))
+  }
+}
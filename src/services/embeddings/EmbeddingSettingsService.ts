@@ -0,0 +1,124 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient } from '@/lib/database'
+import { EMBEDDING_PROVIDER_IDS, defaultEmbeddingSettings } from './EmbeddingProviderFactory'
+import type { EmbeddingProviderId, EmbeddingSettings } from './types'
+
+const EMBEDDING_SETTINGS_TABLE = 'embedding_settings'
+
+export class EmbeddingSettingsValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmbeddingSettingsValidationError'
+  }
+}
+
+/**
+ * Check a requested embedding provider, model and dimension
+ */
+export function validateEmbeddingSettings(input: Record<string, unknown>): EmbeddingSettings {
+  const { provider, model, dimensions } = input
+
+  if (typeof provider !== 'string' || !EMBEDDING_PROVIDER_IDS.includes(provider as EmbeddingProviderId)) {
+    throw new EmbeddingSettingsValidationError(`Embedding provider must be one of: ${EMBEDDING_PROVIDER_IDS.join(', ')}`)
+  }
+  if (model !== undefined && model !== null && (typeof model !== 'string' || !model.trim())) {
+    throw new EmbeddingSettingsValidationError('Embedding model must be a non-empty string')
+  }
+  if (dimensions !== undefined && dimensions !== null && (!Number.isInteger(dimensions) || (dimensions as number) < 1)) {
+    throw new EmbeddingSettingsValidationError('Embedding dimensions must be a positive integer')
+  }
+
+  return {
+    provider: provider as EmbeddingProviderId,
+    model: typeof model === 'string' ? model.trim() : undefined,
+    dimensions: typeof dimensions === 'number' ? dimensions : undefined
+  }
+}
+
+/**
+ * The embedding provider of the library, shared by indexing and queries so
+ * every vector lives in the same space. It only changes when switched
+ * explicitly; papers embedded by the previous provider are then re-embedded.
+ */
+export class EmbeddingSettingsService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseAdminClient()
+  }
+
+  /**
+   * The library's embedding provider. A library without one stores the
+   * default (see `defaultEmbeddingSettings`), so later configuration or
+   * request keys can't change it.
+   */
+  async getSettings(): Promise<EmbeddingSettings> {
+    const stored = await this.loadSettings()
+    if (stored) {
+      return stored
+    }
+
+    const defaults = defaultEmbeddingSettings()
+    const { error } = await this.supabase
+      .from(EMBEDDING_SETTINGS_TABLE)
+      .upsert(this.toRow(defaults), { onConflict: 'id', ignoreDuplicates: true })
+
+    if (error) {
+      throw new Error(`Failed to store embedding settings: ${error.message}`)
+    }
+
+    // Another request may have stored its default first
+    return (await this.loadSettings()) || defaults
+  }
+
+  /**
+   * Switch the library to another embedding provider. Returns whether the
+   * provider, model or dimension changed.
+   */
+  async setSettings(settings: EmbeddingSettings): Promise<{ settings: EmbeddingSettings; changed: boolean }> {
+    const current = await this.getSettings()
+    const changed = current.provider !== settings.provider ||
+      current.model !== settings.model ||
+      current.dimensions !== settings.dimensions
+
+    if (!changed) {
+      return { settings: current, changed }
+    }
+
+    const { error } = await this.supabase
+      .from(EMBEDDING_SETTINGS_TABLE)
+      .upsert(this.toRow(settings), { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to update embedding settings: ${error.message}`)
+    }
+
+    return { settings, changed }
+  }
+
+  private async loadSettings(): Promise<EmbeddingSettings | null> {
+    const { data, error } = await this.supabase
+      .from(EMBEDDING_SETTINGS_TABLE)
+      .select('provider, model, dimensions')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load embedding settings: ${error.message}`)
+    }
+
+    return data ? {
+      provider: data.provider,
+      model: data.model || undefined,
+      dimensions: data.dimensions || undefined
+    } : null
+  }
+
+  private toRow(settings: EmbeddingSettings) {
+    return {
+      id: true,
+      provider: settings.provider,
+      model: settings.model ?? null,
+      dimensions: settings.dimensions ?? null
+    }
+  }
+}
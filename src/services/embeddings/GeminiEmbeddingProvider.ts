@@ -0,0 +1,65 @@
+import type { EmbeddingProvider, SimilarityThresholds } from './types'
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta'
+
+// batchEmbedContents accepts at most 100 requests per call
+const MAX_BATCH_SIZE = 100
+
+/**
+ * Google Gemini embeddings (text-embedding-004, 768 dimensions by default)
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'gemini' as const
+  readonly model: string
+  readonly dimensions: number
+  readonly similarityThresholds: SimilarityThresholds = { search: 0.6, rag: 0.5 }
+  private apiKey: string
+
+  constructor(apiKey: string, model: string = 'text-embedding-004', dimensions: number = 768) {
+    this.apiKey = apiKey
+    this.model = model
+    this.dimensions = dimensions
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = []
+
+    for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
+      const batch = texts.slice(i, i + MAX_BATCH_SIZE)
+      const data = await this.request('batchEmbedContents', {
+        requests: batch.map(text => this.buildRequest(text, 'RETRIEVAL_DOCUMENT')),
+      })
+      vectors.push(...(data.embeddings || []).map((embedding: { values: number[] }) => embedding.values))
+    }
+
+    return vectors
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const data = await this.request('embedContent', this.buildRequest(text, 'RETRIEVAL_QUERY'))
+    return data.embedding?.values || []
+  }
+
+  private buildRequest(text: string, taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY') {
+    return {
+      model: `models/${this.model}`,
+      content: { parts: [{ text }] },
+      taskType,
+      outputDimensionality: this.dimensions,
+    }
+  }
+
+  private async request(method: string, body: unknown) {
+    const response = await fetch(`${GEMINI_API_BASE}/models/${this.model}:${method}?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Gemini embedding API error: ${response.status} ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+}
@@ -0,0 +1,88 @@
+import type { EmbeddingProvider, SimilarityThresholds } from './types'
+
+// Letters and digits in any script (built at runtime: the `u` flag needs an ES2018 target)
+const TOKEN_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu')
+
+// Word unigrams dominate; bigrams add phrase order, trigrams tolerate inflection and typos
+const FEATURE_WEIGHTS: Record<string, number> = { w: 1, b: 0.5, c: 0.25 }
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'with',
+])
+
+/**
+ * Offline embeddings: word unigrams, word bigrams and character trigrams are
+ * hashed into a fixed number of signed buckets (the "hashing trick") and the
+ * result is L2-normalised. Deterministic and network-free, so the full RAG path
+ * can run in CI or air-gapped installs; quality is lexical rather than semantic.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'local' as const
+  readonly model = 'hashed-ngram-v1'
+  readonly dimensions: number
+  readonly similarityThresholds: SimilarityThresholds = { search: 0.2, rag: 0.15 }
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text))
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text)
+  }
+
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+
+    this.extractFeatures(text).forEach((weight, feature) => {
+      const hash = fnv1a(feature)
+      const sign = fnv1a(`${feature}#sign`) & 1 ? 1 : -1
+      vector[hash % this.dimensions] += sign * weight
+    })
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map(value => value / norm) : vector
+  }
+
+  /**
+   * Weighted features; term frequency is dampened with 1 + log(tf)
+   */
+  private extractFeatures(text: string): Map<string, number> {
+    const counts = new Map<string, number>()
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1)
+
+    const tokens = (text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(TOKEN_PATTERN) || [])
+      .filter(token => !STOP_WORDS.has(token))
+
+    tokens.forEach((token, i) => {
+      add(`w:${token}`)
+      if (i > 0) {
+        add(`b:${tokens[i - 1]} ${token}`)
+      }
+      const padded = `^${token}$`
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`)
+      }
+    })
+
+    const weights = new Map<string, number>()
+    counts.forEach((count, feature) => {
+      weights.set(feature, FEATURE_WEIGHTS[feature[0]] * (1 + Math.log(count)))
+    })
+    return weights
+  }
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
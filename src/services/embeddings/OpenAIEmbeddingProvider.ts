@@ -0,0 +1,31 @@
+import { OpenAIEmbeddings } from '@langchain/openai'
+import type { EmbeddingProvider, SimilarityThresholds } from './types'
+
+/**
+ * OpenAI embeddings (text-embedding-3-small, 1536 dimensions by default)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'openai' as const
+  readonly model: string
+  readonly dimensions: number
+  readonly similarityThresholds: SimilarityThresholds = { search: 0.7, rag: 0.6 }
+  private embeddings: OpenAIEmbeddings
+
+  constructor(apiKey: string, model: string = 'text-embedding-3-small', dimensions: number = 1536) {
+    this.model = model
+    this.dimensions = dimensions
+    this.embeddings = new OpenAIEmbeddings({
+      openAIApiKey: apiKey,
+      modelName: model,
+      dimensions,
+    })
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.embeddings.embedDocuments(texts)
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return this.embeddings.embedQuery(text)
+  }
+}
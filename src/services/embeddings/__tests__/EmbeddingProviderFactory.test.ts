@@ -0,0 +1,110 @@
+jest.mock('@langchain/openai')
+
+import { createEmbeddingProvider, defaultEmbeddingSettings, resolveEmbeddingProviderConfig } from '../EmbeddingProviderFactory'
+import { LocalEmbeddingProvider } from '../LocalEmbeddingProvider'
+import { GeminiEmbeddingProvider } from '../GeminiEmbeddingProvider'
+
+describe('defaultEmbeddingSettings', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.EMBEDDING_PROVIDER
+    delete process.env.EMBEDDING_MODEL
+    delete process.env.EMBEDDING_DIMENSIONS
+    delete process.env.OPENAI_API_KEY
+    delete process.env.GOOGLE_AI_API_KEY
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('falls back to the local provider when the server has no OpenAI key', () => {
+    expect(defaultEmbeddingSettings()).toEqual({ provider: 'local', dimensions: undefined })
+  })
+
+  it('uses OpenAI when the server has a key', () => {
+    process.env.OPENAI_API_KEY = 'sk-server'
+
+    expect(defaultEmbeddingSettings()).toMatchObject({ provider: 'openai' })
+  })
+
+  it('honours EMBEDDING_PROVIDER', () => {
+    process.env.EMBEDDING_PROVIDER = 'gemini'
+    process.env.OPENAI_API_KEY = 'sk-server'
+    process.env.EMBEDDING_DIMENSIONS = '256'
+
+    expect(defaultEmbeddingSettings()).toEqual({ provider: 'gemini', model: undefined, dimensions: 256 })
+  })
+
+  it('rejects unknown providers', () => {
+    process.env.EMBEDDING_PROVIDER = 'word2vec'
+
+    expect(() => defaultEmbeddingSettings()).toThrow('Unknown embedding provider: word2vec')
+  })
+})
+
+describe('resolveEmbeddingProviderConfig', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.OPENAI_API_KEY
+    delete process.env.GOOGLE_AI_API_KEY
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('keeps the library\'s provider whether or not a key is supplied', () => {
+    expect(resolveEmbeddingProviderConfig({ provider: 'local' }, { openaiApiKey: 'sk-test' })).toEqual({
+      provider: 'local',
+      apiKey: undefined,
+      model: undefined,
+      dimensions: undefined
+    })
+    expect(resolveEmbeddingProviderConfig({ provider: 'openai', model: 'text-embedding-3-large' })).toEqual({
+      provider: 'openai',
+      apiKey: undefined,
+      model: 'text-embedding-3-large',
+      dimensions: undefined
+    })
+  })
+
+  it('prefers the supplied key over the server\'s', () => {
+    process.env.OPENAI_API_KEY = 'sk-server'
+
+    expect(resolveEmbeddingProviderConfig({ provider: 'openai' }, { openaiApiKey: 'sk-test' })).toMatchObject({ apiKey: 'sk-test' })
+    expect(resolveEmbeddingProviderConfig({ provider: 'openai' })).toMatchObject({ apiKey: 'sk-server' })
+  })
+
+  it('uses the Gemini key for Gemini', () => {
+    process.env.GOOGLE_AI_API_KEY = 'gm-test'
+
+    expect(resolveEmbeddingProviderConfig({ provider: 'gemini', dimensions: 256 }, { openaiApiKey: 'sk-test' })).toEqual({
+      provider: 'gemini',
+      apiKey: 'gm-test',
+      model: undefined,
+      dimensions: 256
+    })
+  })
+})
+
+describe('createEmbeddingProvider', () => {
+  it('creates providers with their defaults', () => {
+    const local = createEmbeddingProvider({ provider: 'local' })
+    const gemini = createEmbeddingProvider({ provider: 'gemini', apiKey: 'gm-test' })
+
+    expect(local).toBeInstanceOf(LocalEmbeddingProvider)
+    expect(local.dimensions).toBe(512)
+    expect(gemini).toBeInstanceOf(GeminiEmbeddingProvider)
+    expect(gemini).toMatchObject({ model: 'text-embedding-004', dimensions: 768 })
+  })
+
+  it('requires API keys for hosted providers', () => {
+    expect(() => createEmbeddingProvider({ provider: 'openai' })).toThrow('OpenAI API key is required')
+    expect(() => createEmbeddingProvider({ provider: 'gemini' })).toThrow('Gemini API key is required')
+  })
+})
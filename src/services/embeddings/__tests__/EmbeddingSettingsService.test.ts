@@ -0,0 +1,84 @@
+import { EmbeddingSettingsService, validateEmbeddingSettings, EmbeddingSettingsValidationError } from '../EmbeddingSettingsService'
+import { createSupabaseMock, callsOf } from '@/lib/__mocks__/supabase-client'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseAdminClient: jest.fn()
+}))
+
+describe('EmbeddingSettingsService', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.EMBEDDING_PROVIDER
+    delete process.env.EMBEDDING_MODEL
+    delete process.env.EMBEDDING_DIMENSIONS
+    delete process.env.OPENAI_API_KEY
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('getSettings', () => {
+    it('returns the stored provider', async () => {
+      const { client, queries } = createSupabaseMock({ embedding_settings: [{ data: { provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 } }] })
+
+      await expect(new EmbeddingSettingsService(client).getSettings()).resolves.toEqual({
+        provider: 'openai',
+        model: 'text-embedding-3-small',
+        dimensions: 1536
+      })
+      expect(callsOf(queries, 'upsert')).toEqual([])
+    })
+
+    it('stores the default for a library without a provider', async () => {
+      const { client, queries } = createSupabaseMock({ embedding_settings: [{ data: null }, {}, { data: { provider: 'local', model: null, dimensions: null } }] })
+
+      await expect(new EmbeddingSettingsService(client).getSettings()).resolves.toEqual({
+        provider: 'local',
+        model: undefined,
+        dimensions: undefined
+      })
+      expect(callsOf(queries, 'upsert')).toEqual([[
+        { id: true, provider: 'local', model: null, dimensions: null },
+        { onConflict: 'id', ignoreDuplicates: true }
+      ]])
+    })
+  })
+
+  describe('setSettings', () => {
+    it('switches to another provider', async () => {
+      const { client, queries } = createSupabaseMock({ embedding_settings: [{ data: { provider: 'openai', model: null, dimensions: null } }, {}] })
+
+      await expect(new EmbeddingSettingsService(client).setSettings({ provider: 'local', dimensions: 256 })).resolves.toEqual({
+        settings: { provider: 'local', dimensions: 256 },
+        changed: true
+      })
+      expect(callsOf(queries, 'upsert')).toEqual([[{ id: true, provider: 'local', model: null, dimensions: 256 }, { onConflict: 'id' }]])
+    })
+
+    it('leaves an unchanged provider alone', async () => {
+      const { client, queries } = createSupabaseMock({ embedding_settings: [{ data: { provider: 'local', model: null, dimensions: null } }] })
+
+      await expect(new EmbeddingSettingsService(client).setSettings({ provider: 'local' })).resolves.toMatchObject({ changed: false })
+      expect(callsOf(queries, 'upsert')).toEqual([])
+    })
+  })
+})
+
+describe('validateEmbeddingSettings', () => {
+  it('accepts a provider with an optional model and dimension', () => {
+    expect(validateEmbeddingSettings({ provider: 'gemini', model: ' text-embedding-004 ', dimensions: 768 })).toEqual({
+      provider: 'gemini',
+      model: 'text-embedding-004',
+      dimensions: 768
+    })
+  })
+
+  it('rejects unknown providers and invalid dimensions', () => {
+    expect(() => validateEmbeddingSettings({ provider: 'word2vec' })).toThrow(EmbeddingSettingsValidationError)
+    expect(() => validateEmbeddingSettings({ provider: 'local', dimensions: 0 })).toThrow('positive integer')
+    expect(() => validateEmbeddingSettings({ provider: 'local', model: ' ' })).toThrow('non-empty string')
+  })
+})
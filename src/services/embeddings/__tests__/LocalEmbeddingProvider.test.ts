@@ -0,0 +1,38 @@
+import { LocalEmbeddingProvider } from '../LocalEmbeddingProvider'
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider(256)
+
+  it('produces deterministic unit vectors of the configured dimension', async () => {
+    const [first] = await provider.embedDocuments(['Protein folding with deep learning'])
+    const second = await provider.embedQuery('Protein folding with deep learning')
+
+    expect(first).toHaveLength(256)
+    expect(first).toEqual(second)
+    expect(cosine(first, first)).toBeCloseTo(1, 6)
+  })
+
+  it('ranks lexically related text above unrelated text', async () => {
+    const query = await provider.embedQuery('protein structure prediction')
+    const [related, unrelated] = await provider.embedDocuments([
+      'We predict the structure of each protein from its sequence.',
+      'Monetary policy shocks and inflation expectations in small economies.',
+    ])
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+  })
+
+  it('returns a zero vector for text without tokens', async () => {
+    const vector = await provider.embedQuery('  ... ')
+
+    expect(vector.every(value => value === 0)).toBe(true)
+  })
+
+  it('handles non-Latin scripts', async () => {
+    const [a, b] = await provider.embedDocuments(['단백질 구조 예측', '단백질 구조'])
+
+    expect(cosine(a, b)).toBeGreaterThan(0.5)
+  })
+})
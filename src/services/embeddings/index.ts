@@ -0,0 +1,22 @@
+export { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider'
+export { GeminiEmbeddingProvider } from './GeminiEmbeddingProvider'
+export { LocalEmbeddingProvider } from './LocalEmbeddingProvider'
+export {
+  createEmbeddingProvider,
+  defaultEmbeddingSettings,
+  resolveEmbeddingProviderConfig,
+  ProviderEmbeddings,
+  EMBEDDING_PROVIDER_IDS
+} from './EmbeddingProviderFactory'
+export {
+  EmbeddingSettingsService,
+  EmbeddingSettingsValidationError,
+  validateEmbeddingSettings
+} from './EmbeddingSettingsService'
+export type {
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderId,
+  EmbeddingSettings,
+  SimilarityThresholds
+} from './types'
@@ -0,0 +1,38 @@
+export type EmbeddingProviderId = 'openai' | 'gemini' | 'local'
+
+/**
+ * A backend that turns text into vectors. Every vector stored in `documents`
+ * records the provider id, model and dimension that produced it, so vectors
+ * from different providers are never compared with each other.
+ */
+export interface EmbeddingProvider {
+  readonly id: EmbeddingProviderId
+  readonly model: string
+  readonly dimensions: number
+  // Cosine similarity scales differ per model, so each provider sets its own cut-offs
+  readonly similarityThresholds: SimilarityThresholds
+  embedDocuments(texts: string[]): Promise<number[][]>
+  embedQuery(text: string): Promise<number[]>
+}
+
+export interface SimilarityThresholds {
+  search: number
+  rag: number
+}
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderId
+  apiKey?: string
+  model?: string
+  dimensions?: number
+}
+
+/**
+ * The library's embedding provider, as stored in `embedding_settings`.
+ * Without a model or dimension the provider's defaults are used.
+ */
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderId
+  model?: string
+  dimensions?: number
+}
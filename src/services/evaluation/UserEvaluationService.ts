@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import { UserEvaluation } from '@/types'
+import { normalizeHighlights } from './highlights'
 
 export class UserEvaluationService {
   private supabase
@@ -196,7 +197,7 @@ export class UserEvaluationService {
       rating: data.rating,
       notes: data.notes,
       tags: data.tags || [],
-      highlights: data.highlights,
+      highlights: normalizeHighlights(data.highlights),
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at)
     }
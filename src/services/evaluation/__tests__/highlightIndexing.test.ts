@@ -0,0 +1,51 @@
+jest.mock('@/lib/database', () => ({
+  getSupabaseAdminClient: jest.fn(),
+  TABLES: { DOCUMENTS: 'documents' }
+}))
+
+import { SupabaseVectorService } from '@/services/vector/SupabaseVectorService'
+import { LocalEmbeddingProvider } from '@/services/embeddings'
+import type { Paper, UserEvaluation } from '@/types'
+
+const paper: Paper = {
+  id: 'paper-1',
+  title: 'Attention Is All You Need',
+  authors: ['A. Vaswani'],
+  readingStatus: 'reading',
+  dateAdded: new Date('2024-01-01'),
+  lastModified: new Date('2024-01-01')
+}
+
+const evaluation: UserEvaluation = {
+  id: 'eval-1',
+  paperId: 'paper-1',
+  tags: ['transformers'],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01')
+}
+
+// The text each paper is embedded with, as semantic search and RAG see it
+function paperContent(evaluation: UserEvaluation): string {
+  const service = new SupabaseVectorService(undefined, new LocalEmbeddingProvider())
+  return (service as any).buildPaperContent(paper, evaluation)
+}
+
+describe('indexing reader highlights', () => {
+  it('embeds highlighted text and margin notes in reading order', () => {
+    const content = paperContent({
+      ...evaluation,
+      highlights: {
+        h2: { id: 'h2', type: 'note', page: 2, quads: [[0.9, 0.1, 0.92, 0.1, 0.9, 0.12, 0.92, 0.12]], color: 'blue', comment: 'Compare with baseline', createdAt: '2024-01-02T00:00:00.000Z' },
+        h1: { id: 'h1', type: 'highlight', page: 1, quads: [[0.1, 0.5, 0.6, 0.5, 0.1, 0.52, 0.6, 0.52]], color: 'yellow', text: 'attention weights', createdAt: '2024-01-02T00:00:00.000Z' }
+      }
+    })
+
+    expect(content).toContain('Tags: transformers')
+    expect(content).toContain('Highlights: attention weights\nCompare with baseline')
+  })
+
+  it('leaves the highlights out when there are none', () => {
+    expect(paperContent(evaluation)).not.toContain('Highlights:')
+    expect(paperContent({ ...evaluation, highlights: {} })).not.toContain('Highlights:')
+  })
+})
@@ -0,0 +1,98 @@
+import type { PaperHighlight } from '@/types'
+import {
+  highlightSearchText,
+  normalizeHighlights,
+  quadBounds,
+  quadsFromClientRects,
+  sortHighlights
+} from '../highlights'
+
+const highlight = (id: string, page: number, top: number, extra: Partial<PaperHighlight> = {}): PaperHighlight => ({
+  id,
+  type: 'highlight',
+  page,
+  quads: [[0.1, top, 0.5, top, 0.1, top + 0.02, 0.5, top + 0.02]],
+  color: 'yellow',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  ...extra
+})
+
+describe('normalizeHighlights', () => {
+  it('returns undefined when nothing is stored', () => {
+    expect(normalizeHighlights(null)).toBeUndefined()
+    expect(normalizeHighlights(undefined)).toBeUndefined()
+    expect(normalizeHighlights(['not', 'a', 'record'])).toBeUndefined()
+  })
+
+  it('keeps reader highlights and drops malformed entries', () => {
+    const stored = {
+      a: highlight('a', 2, 0.3, { text: 'gradient noise', comment: '' }),
+      b: { page: 0, quads: [[0, 0, 1, 0, 0, 1, 1, 1]] },
+      c: { page: 1, quads: [[0, 0, 1]] },
+      d: 'legacy value',
+      e: { page: 3, quads: [[0.2, 0.2, 0.3, 0.2, 0.2, 0.25, 0.3, 0.25]], color: 'purple', type: 'note', comment: 'Check' }
+    }
+
+    expect(normalizeHighlights(stored)).toEqual({
+      a: { ...highlight('a', 2, 0.3), text: 'gradient noise', comment: undefined, updatedAt: undefined },
+      e: {
+        id: 'e',
+        type: 'note',
+        page: 3,
+        quads: [[0.2, 0.2, 0.3, 0.2, 0.2, 0.25, 0.3, 0.25]],
+        color: 'yellow',
+        text: undefined,
+        comment: 'Check',
+        createdAt: new Date(0).toISOString(),
+        updatedAt: undefined
+      }
+    })
+  })
+})
+
+describe('reading order', () => {
+  const highlights = {
+    late: highlight('late', 2, 0.1, { text: 'Second page' }),
+    low: highlight('low', 1, 0.8, { text: 'Bottom of page one', comment: 'Key result' }),
+    high: highlight('high', 1, 0.2, { text: '  Top of page one ' })
+  }
+
+  it('sorts by page, then from the top', () => {
+    expect(sortHighlights(highlights).map(h => h.id)).toEqual(['high', 'low', 'late'])
+    expect(sortHighlights(undefined)).toEqual([])
+  })
+
+  it('joins highlighted text and comments for search', () => {
+    expect(highlightSearchText(highlights)).toBe('Top of page one\nBottom of page one\nKey result\nSecond page')
+    expect(highlightSearchText({})).toBe('')
+  })
+})
+
+describe('quadsFromClientRects', () => {
+  const page = { left: 100, top: 50, width: 600, height: 800 }
+
+  it('normalizes rects to the page and merges touching rects on a line', () => {
+    const quads = quadsFromClientRects([
+      { left: 160, top: 130, width: 120, height: 16 },
+      { left: 280, top: 131, width: 60, height: 14 },
+      { left: 160, top: 150, width: 300, height: 16 },
+      { left: 90, top: 1000, width: 10, height: 10 }
+    ], page)
+
+    expect(quads).toEqual([
+      [0.1, 0.1, 0.4, 0.1, 0.1, 0.12, 0.4, 0.12],
+      [0.1, 0.125, 0.6, 0.125, 0.1, 0.145, 0.6, 0.145]
+    ])
+    expect(quadBounds(quads[1])).toEqual({ left: 0.1, top: 0.125, width: 0.5, height: expect.closeTo(0.02, 5) })
+  })
+
+  it('keeps separated rects on one line apart and clips to the page', () => {
+    expect(quadsFromClientRects([
+      { left: 40, top: 50, width: 120, height: 80 },
+      { left: 400, top: 50, width: 60, height: 80 }
+    ], page)).toEqual([
+      [0, 0, 0.1, 0, 0, 0.1, 0.1, 0.1],
+      [0.5, 0, 0.6, 0, 0.5, 0.1, 0.6, 0.1]
+    ])
+  })
+})
@@ -0,0 +1,149 @@
+import type { HighlightColor, PaperHighlight, PdfQuad } from '@/types'
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink', 'orange']
+
+export interface HighlightRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Client rects closer than this (in page fractions) on one line are merged into one quad
+const MERGE_GAP = 0.005
+
+/**
+ * Read stored highlights, dropping entries that are not reader highlights.
+ * Returns undefined when nothing is stored.
+ */
+export function normalizeHighlights(value: unknown): Record<string, PaperHighlight> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined
+  }
+
+  const highlights: Record<string, PaperHighlight> = {}
+  Object.entries(value as Record<string, unknown>).forEach(([id, entry]) => {
+    const highlight = readHighlight(id, entry)
+    if (highlight) {
+      highlights[id] = highlight
+    }
+  })
+  return highlights
+}
+
+function readHighlight(id: string, entry: unknown): PaperHighlight | null {
+  if (!entry || typeof entry !== 'object') return null
+  const raw = entry as Record<string, unknown>
+
+  const page = Number(raw.page)
+  const quads = Array.isArray(raw.quads) ? raw.quads.filter(isQuad) : []
+  if (!Number.isInteger(page) || page < 1 || quads.length === 0) return null
+
+  return {
+    id,
+    type: raw.type === 'note' ? 'note' : 'highlight',
+    page,
+    quads,
+    color: HIGHLIGHT_COLORS.includes(raw.color as HighlightColor) ? raw.color as HighlightColor : 'yellow',
+    text: typeof raw.text === 'string' && raw.text ? raw.text : undefined,
+    comment: typeof raw.comment === 'string' && raw.comment ? raw.comment : undefined,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date(0).toISOString(),
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : undefined
+  }
+}
+
+function isQuad(value: unknown): value is PdfQuad {
+  return Array.isArray(value) && value.length === 8 && value.every(n => typeof n === 'number' && Number.isFinite(n))
+}
+
+/**
+ * Highlights in reading order: by page, then top to bottom, then left to right
+ */
+export function sortHighlights(highlights: Record<string, PaperHighlight> | undefined): PaperHighlight[] {
+  return Object.values(highlights || {}).sort((a, b) => {
+    if (a.page !== b.page) return a.page - b.page
+    const boundsA = quadBounds(a.quads[0])
+    const boundsB = quadBounds(b.quads[0])
+    return boundsA.top - boundsB.top || boundsA.left - boundsB.left
+  })
+}
+
+/**
+ * Highlighted text and comments in reading order, for search and embeddings
+ */
+export function highlightSearchText(highlights: Record<string, PaperHighlight> | undefined): string {
+  return sortHighlights(highlights)
+    .flatMap(highlight => [highlight.text, highlight.comment])
+    .filter((part): part is string => !!part?.trim())
+    .map(part => part.trim())
+    .join('\n')
+}
+
+/**
+ * The axis-aligned box around a quad, in page fractions
+ */
+export function quadBounds(quad: PdfQuad): HighlightRect {
+  const xs = [quad[0], quad[2], quad[4], quad[6]]
+  const ys = [quad[1], quad[3], quad[5], quad[7]]
+  const left = Math.min(...xs)
+  const top = Math.min(...ys)
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top }
+}
+
+export function rectToQuad({ left, top, width, height }: HighlightRect): PdfQuad {
+  const right = left + width
+  const bottom = top + height
+  return [left, top, right, top, left, bottom, right, bottom].map(roundCoordinate) as PdfQuad
+}
+
+/**
+ * Convert the client rects of a text selection to quads relative to the page
+ * element's rect. Rects outside the page are dropped and touching rects on the
+ * same line are merged, so a selected line becomes one quad.
+ */
+export function quadsFromClientRects(rects: HighlightRect[], page: HighlightRect): PdfQuad[] {
+  const lines: HighlightRect[] = []
+
+  rects
+    .map(rect => clipToPage(rect, page))
+    .filter((rect): rect is HighlightRect => !!rect)
+    .sort((a, b) => a.top - b.top || a.left - b.left)
+    .forEach(rect => {
+      const line = lines.find(existing => sameLine(existing, rect))
+      if (line) {
+        const right = Math.max(line.left + line.width, rect.left + rect.width)
+        const bottom = Math.max(line.top + line.height, rect.top + rect.height)
+        line.left = Math.min(line.left, rect.left)
+        line.top = Math.min(line.top, rect.top)
+        line.width = right - line.left
+        line.height = bottom - line.top
+      } else {
+        lines.push({ ...rect })
+      }
+    })
+
+  return lines.map(rectToQuad)
+}
+
+function clipToPage(rect: HighlightRect, page: HighlightRect): HighlightRect | null {
+  if (page.width <= 0 || page.height <= 0) return null
+
+  const left = Math.max(0, (rect.left - page.left) / page.width)
+  const top = Math.max(0, (rect.top - page.top) / page.height)
+  const right = Math.min(1, (rect.left + rect.width - page.left) / page.width)
+  const bottom = Math.min(1, (rect.top + rect.height - page.top) / page.height)
+  if (right <= left || bottom <= top) return null
+
+  return { left, top, width: right - left, height: bottom - top }
+}
+
+// Rects overlapping vertically by more than half the smaller height, with no horizontal gap
+function sameLine(a: HighlightRect, b: HighlightRect): boolean {
+  const overlap = Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top)
+  if (overlap <= Math.min(a.height, b.height) / 2) return false
+  return b.left <= a.left + a.width + MERGE_GAP && a.left <= b.left + b.width + MERGE_GAP
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
@@ -0,0 +1,152 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient, TABLES, type PaperFullText, type PaperFullTextInsert } from '@/lib/database'
+import { extractPdfText, getBodyText, type PdfTextPage, type PdfTextSection } from '@/lib/pdf-text'
+
+export type TextExtractionSource = 'upload' | 'zotero' | 'manual'
+export type TextExtractionStatus = 'completed' | 'empty' | 'encrypted' | 'failed'
+
+export interface StoredPaperText {
+  paperId: string
+  content: string
+  sections: PdfTextSection[]
+  pages: PdfTextPage[]
+  pageCount: number
+  charCount: number
+  status: TextExtractionStatus
+  source: TextExtractionSource
+  errorMessage?: string
+  extractedAt: Date
+}
+
+/**
+ * PaperTextExtractionService runs full-text extraction on a paper's PDF and stores
+ * the section-ordered result in paper_full_texts, one row per paper.
+ * Downstream consumers (AI analysis, embeddings) read it back via getPaperText.
+ */
+export class PaperTextExtractionService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseAdminClient()
+  }
+
+  /**
+   * Extract text from a PDF and persist it for the given paper
+   */
+  async extractAndStore(
+    paperId: string,
+    pdf: Buffer,
+    source: TextExtractionSource = 'upload'
+  ): Promise<StoredPaperText> {
+    let row: PaperFullTextInsert
+
+    try {
+      const extraction = await extractPdfText(pdf)
+      const status: TextExtractionStatus = extraction.encrypted
+        ? 'encrypted'
+        : extraction.text.trim() ? 'completed' : 'empty'
+
+      row = {
+        paper_id: paperId,
+        content: extraction.text,
+        sections: extraction.sections,
+        pages: extraction.pages,
+        page_count: extraction.pageCount,
+        char_count: extraction.text.length,
+        status,
+        source,
+        error_message: null,
+        extracted_at: new Date().toISOString()
+      }
+    } catch (error) {
+      row = {
+        paper_id: paperId,
+        status: 'failed',
+        source,
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        extracted_at: new Date().toISOString()
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from(TABLES.PAPER_FULL_TEXTS)
+      .upsert(row, { onConflict: 'paper_id' })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to store extracted text: ${error.message}`)
+    }
+
+    return this.mapRow(data as PaperFullText)
+  }
+
+  /**
+   * Get stored full text for a paper, or null if it has not been extracted
+   */
+  async getPaperText(paperId: string): Promise<StoredPaperText | null> {
+    const { data, error } = await this.supabase
+      .from(TABLES.PAPER_FULL_TEXTS)
+      .select('*')
+      .eq('paper_id', paperId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null
+      }
+      throw new Error(`Failed to fetch extracted text: ${error.message}`)
+    }
+
+    return data ? this.mapRow(data as PaperFullText) : null
+  }
+
+  /**
+   * Get body text (no references) suitable for AI prompts, or undefined when nothing was extracted
+   */
+  async getAnalysisText(paperId: string, maxChars?: number): Promise<string | undefined> {
+    const stored = await this.getPaperText(paperId)
+    if (!stored || stored.status !== 'completed') {
+      return undefined
+    }
+    return getBodyText({ text: stored.content, sections: stored.sections }, maxChars) || undefined
+  }
+
+  /**
+   * Remove stored text for a paper
+   */
+  async deletePaperText(paperId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(TABLES.PAPER_FULL_TEXTS)
+      .delete()
+      .eq('paper_id', paperId)
+
+    if (error) {
+      throw new Error(`Failed to delete extracted text: ${error.message}`)
+    }
+  }
+
+  private mapRow(row: PaperFullText): StoredPaperText {
+    return {
+      paperId: row.paper_id,
+      content: row.content || '',
+      sections: Array.isArray(row.sections) ? row.sections : [],
+      pages: Array.isArray(row.pages) ? row.pages : [],
+      pageCount: row.page_count || 0,
+      charCount: row.char_count || 0,
+      status: row.status,
+      source: row.source,
+      errorMessage: row.error_message || undefined,
+      extractedAt: new Date(row.extracted_at)
+    }
+  }
+}
+
+let paperTextExtractionServiceInstance: PaperTextExtractionService | null = null
+
+export function getPaperTextExtractionService(): PaperTextExtractionService {
+  if (!paperTextExtractionServiceInstance) {
+    paperTextExtractionServiceInstance = new PaperTextExtractionService()
+  }
+  return paperTextExtractionServiceInstance
+}
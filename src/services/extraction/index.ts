@@ -0,0 +1,6 @@
+export { PaperTextExtractionService, getPaperTextExtractionService } from './PaperTextExtractionService'
+export type {
+  StoredPaperText,
+  TextExtractionSource,
+  TextExtractionStatus
+} from './PaperTextExtractionService'
@@ -0,0 +1,53 @@
+import { expectBody, fetchTransport } from './http'
+import { xmlElements, xmlText } from './xml'
+import { parseYear } from './normalize'
+import { normalizeDoi } from './identifiers'
+import type { HttpTransport, MetadataSourceResolver, ResolvedPaperMetadata } from './types'
+
+const ARXIV_API_URL = 'https://export.arxiv.org/api/query'
+
+/**
+ * Resolves arXiv ids through the arXiv Atom API. The API has no reference lists,
+ * so `references` is always empty; a published version's DOI can be resolved separately.
+ */
+export class ArxivResolver implements MetadataSourceResolver {
+  readonly type = 'arxiv' as const
+
+  constructor(private transport: HttpTransport = fetchTransport) {}
+
+  async resolve(arxivId: string): Promise<ResolvedPaperMetadata | null> {
+    const response = await this.transport({
+      url: `${ARXIV_API_URL}?id_list=${encodeURIComponent(arxivId)}&max_results=1`,
+      headers: { Accept: 'application/atom+xml' }
+    })
+
+    const body = expectBody(response, 'arXiv')
+    if (body === null) return null
+
+    const [entry] = xmlElements(body, 'entry')
+    // Unknown ids produce either no entry or an "Error" entry pointing at api/errors
+    if (!entry || /\/api\/errors/.test(xmlText(entry.content, 'id') || '')) {
+      return null
+    }
+
+    const title = xmlText(entry.content, 'title')
+    if (!title) return null
+
+    const doi = xmlText(entry.content, 'arxiv:doi')
+
+    return {
+      title,
+      authors: xmlElements(entry.content, 'author')
+        .map(author => xmlText(author.content, 'name'))
+        .filter((name): name is string => !!name),
+      journal: xmlText(entry.content, 'arxiv:journal_ref') || 'arXiv',
+      publicationYear: parseYear(xmlText(entry.content, 'published')),
+      doi: doi ? normalizeDoi(doi) : undefined,
+      abstract: xmlText(entry.content, 'summary'),
+      references: [],
+      source: 'arxiv',
+      identifier: arxivId,
+      url: `https://arxiv.org/abs/${arxivId}`
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { expectBody, fetchTransport } from './http'
+import { cleanMarkupText } from './xml'
+import { cleanString, formatPersonName, parseYear } from './normalize'
+import type { HttpTransport, MetadataSourceResolver, PaperReference, ResolvedPaperMetadata } from './types'
+
+const CROSSREF_API_URL = 'https://api.crossref.org/works'
+
+interface CrossrefPerson {
+  given?: string
+  family?: string
+  name?: string
+}
+
+interface CrossrefDate {
+  'date-parts'?: Array<Array<number | null>>
+}
+
+interface CrossrefReference {
+  DOI?: string
+  'article-title'?: string
+  'journal-title'?: string
+  author?: string
+  year?: string
+  unstructured?: string
+}
+
+interface CrossrefWork {
+  DOI: string
+  URL?: string
+  title?: string[]
+  author?: CrossrefPerson[]
+  'container-title'?: string[]
+  'short-container-title'?: string[]
+  issued?: CrossrefDate
+  'published-print'?: CrossrefDate
+  'published-online'?: CrossrefDate
+  abstract?: string
+  reference?: CrossrefReference[]
+}
+
+/**
+ * Resolves DOIs through the Crossref REST API
+ */
+export class CrossrefResolver implements MetadataSourceResolver {
+  readonly type = 'doi' as const
+
+  constructor(
+    private transport: HttpTransport = fetchTransport,
+    // Crossref routes requests that include a contact address to its faster "polite" pool
+    private mailto: string | undefined = process.env.CROSSREF_MAILTO
+  ) {}
+
+  async resolve(doi: string): Promise<ResolvedPaperMetadata | null> {
+    const query = this.mailto ? `?mailto=${encodeURIComponent(this.mailto)}` : ''
+    const response = await this.transport({
+      url: `${CROSSREF_API_URL}/${encodeURIComponent(doi)}${query}`,
+      headers: { Accept: 'application/json' }
+    })
+
+    const body = expectBody(response, 'Crossref')
+    if (body === null) return null
+
+    const work: CrossrefWork | undefined = JSON.parse(body)?.message
+    const title = cleanString(work?.title?.[0])
+    if (!work || !title) return null
+
+    return {
+      title,
+      authors: (work.author || []).map(person => person.name?.trim() || formatPersonName(person.given, person.family)).filter(Boolean),
+      journal: cleanString(work['container-title']?.[0]) || cleanString(work['short-container-title']?.[0]),
+      publicationYear: firstYear(work.issued, work['published-print'], work['published-online']),
+      doi: work.DOI.toLowerCase(),
+      abstract: work.abstract ? cleanMarkupText(work.abstract).replace(/^Abstract\s+/i, '') || undefined : undefined,
+      references: (work.reference || []).map(toReference),
+      source: 'doi',
+      identifier: doi,
+      url: work.URL
+    }
+  }
+}
+
+function firstYear(...dates: Array<CrossrefDate | undefined>): number | undefined {
+  for (const date of dates) {
+    const year = parseYear(date?.['date-parts']?.[0]?.[0])
+    if (year) return year
+  }
+  return undefined
+}
+
+function toReference(reference: CrossrefReference): PaperReference {
+  const author = cleanString(reference.author)
+  return {
+    title: cleanString(reference['article-title']),
+    authors: author ? [author] : undefined,
+    publicationYear: parseYear(reference.year),
+    journal: cleanString(reference['journal-title']),
+    doi: reference.DOI?.toLowerCase(),
+    unstructured: cleanString(reference.unstructured)
+  }
+}
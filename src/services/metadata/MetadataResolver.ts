@@ -0,0 +1,91 @@
+import { CacheService, getCacheService } from '@/services/cache/CacheService'
+import { fetchTransport } from './http'
+import { CrossrefResolver } from './CrossrefResolver'
+import { ArxivResolver } from './ArxivResolver'
+import { PubMedResolver } from './PubMedResolver'
+import { parseMetadataIdentifier } from './identifiers'
+import type {
+  HttpTransport,
+  MetadataIdentifier,
+  MetadataIdentifierType,
+  MetadataSourceResolver,
+  ResolvedPaperMetadata
+} from './types'
+
+// Published metadata rarely changes; a week keeps repeat uploads off the public APIs
+const METADATA_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export interface MetadataResolverOptions {
+  transport?: HttpTransport
+  cache?: Pick<CacheService, 'get' | 'set'> | null
+  resolvers?: MetadataSourceResolver[]
+}
+
+/**
+ * Resolves DOIs, arXiv ids and PubMed ids to normalized paper metadata, caching
+ * results through CacheService. Pass a transport to run every resolver against
+ * recorded fixtures instead of the network.
+ */
+export class MetadataResolver {
+  private resolvers: Map<MetadataIdentifierType, MetadataSourceResolver>
+  private cache: Pick<CacheService, 'get' | 'set'> | null
+
+  constructor(options: MetadataResolverOptions = {}) {
+    const transport = options.transport || fetchTransport
+    const resolvers = options.resolvers || [
+      new CrossrefResolver(transport),
+      new ArxivResolver(transport),
+      new PubMedResolver(transport)
+    ]
+
+    this.resolvers = new Map(resolvers.map(resolver => [resolver.type, resolver]))
+    this.cache = options.cache === undefined ? getCacheService() : options.cache
+  }
+
+  /**
+   * Resolve one identifier, given parsed or as user input (`10.1000/x`, `arXiv:1706.03762`, `PMID: 123`)
+   */
+  async resolve(identifier: MetadataIdentifier | string): Promise<ResolvedPaperMetadata | null> {
+    const parsed = typeof identifier === 'string' ? parseMetadataIdentifier(identifier) : identifier
+    if (!parsed) return null
+
+    const resolver = this.resolvers.get(parsed.type)
+    if (!resolver) return null
+
+    const cacheKey = `metadata:${parsed.type}:${parsed.value}`
+    const cached = await this.cache?.get<ResolvedPaperMetadata>(cacheKey)
+    if (cached) return cached
+
+    const resolved = await resolver.resolve(parsed.value)
+    if (resolved) {
+      // A cache outage should not cost us a result we already have
+      await this.cache?.set(cacheKey, resolved, { ttl: METADATA_CACHE_TTL_SECONDS }).catch(() => undefined)
+    }
+    return resolved
+  }
+
+  /**
+   * Try identifiers in order and return the first that resolves. A failing source
+   * (network error, rate limit) moves on to the next identifier.
+   */
+  async resolveFirst(identifiers: MetadataIdentifier[]): Promise<ResolvedPaperMetadata | null> {
+    for (const identifier of identifiers) {
+      try {
+        const resolved = await this.resolve(identifier)
+        if (resolved) return resolved
+      } catch (error) {
+        console.warn(`Metadata resolution failed for ${identifier.type}:${identifier.value}:`, error)
+      }
+    }
+    return null
+  }
+}
+
+let metadataResolverInstance: MetadataResolver | null = null
+
+export function getMetadataResolver(): MetadataResolver {
+  if (!metadataResolverInstance) {
+    metadataResolverInstance = new MetadataResolver()
+  }
+  return metadataResolverInstance
+}
@@ -0,0 +1,97 @@
+import { expectBody, fetchTransport } from './http'
+import { xmlElements, xmlText, cleanMarkupText, type XmlElement } from './xml'
+import { formatPersonName, parseYear } from './normalize'
+import { normalizeDoi } from './identifiers'
+import type { HttpTransport, MetadataSourceResolver, PaperReference, ResolvedPaperMetadata } from './types'
+
+const EFETCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi'
+
+/**
+ * Resolves PubMed ids through NCBI E-utilities (efetch, XML)
+ */
+export class PubMedResolver implements MetadataSourceResolver {
+  readonly type = 'pmid' as const
+
+  constructor(
+    private transport: HttpTransport = fetchTransport,
+    // An NCBI API key raises the rate limit from 3 to 10 requests per second
+    private apiKey: string | undefined = process.env.NCBI_API_KEY
+  ) {}
+
+  async resolve(pmid: string): Promise<ResolvedPaperMetadata | null> {
+    const apiKey = this.apiKey ? `&api_key=${encodeURIComponent(this.apiKey)}` : ''
+    const response = await this.transport({
+      url: `${EFETCH_URL}?db=pubmed&retmode=xml&id=${encodeURIComponent(pmid)}${apiKey}`,
+      headers: { Accept: 'application/xml' }
+    })
+
+    const body = expectBody(response, 'PubMed')
+    if (body === null) return null
+
+    const [article] = xmlElements(body, 'PubmedArticle')
+    if (!article) return null
+
+    // Reference lists carry their own ArticleIdList; keep them out of the article's own ids
+    const [referenceList] = xmlElements(article.content, 'ReferenceList')
+    const articleXml = referenceList ? article.content.replace(referenceList.content, '') : article.content
+
+    const title = xmlText(articleXml, 'ArticleTitle')
+    if (!title) return null
+
+    const [journal] = xmlElements(articleXml, 'Journal')
+    const [pubDate] = xmlElements(journal?.content || '', 'PubDate')
+
+    return {
+      title: title.replace(/\.$/, ''),
+      authors: xmlElements(articleXml, 'Author').map(authorName).filter(Boolean),
+      journal: journal ? xmlText(journal.content, 'Title') : undefined,
+      publicationYear: pubDate
+        ? parseYear(xmlText(pubDate.content, 'Year') || xmlText(pubDate.content, 'MedlineDate'))
+        : undefined,
+      doi: articleDoi(articleXml),
+      abstract: abstractText(articleXml),
+      references: referenceList ? xmlElements(referenceList.content, 'Reference').map(toReference) : [],
+      source: 'pmid',
+      identifier: pmid,
+      url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`
+    }
+  }
+}
+
+function authorName(author: XmlElement): string {
+  return xmlText(author.content, 'CollectiveName') ||
+    formatPersonName(
+      xmlText(author.content, 'ForeName') || xmlText(author.content, 'Initials'),
+      xmlText(author.content, 'LastName')
+    )
+}
+
+function articleDoi(articleXml: string): string | undefined {
+  const doi = xmlElements(articleXml, 'ELocationID').find(element => element.attributes.EIdType === 'doi') ||
+    xmlElements(articleXml, 'ArticleId').find(element => element.attributes.IdType === 'doi')
+  return doi ? normalizeDoi(cleanMarkupText(doi.content)) : undefined
+}
+
+/**
+ * Structured abstracts are split into labelled sections (BACKGROUND, METHODS, ...)
+ */
+function abstractText(articleXml: string): string | undefined {
+  const [abstract] = xmlElements(articleXml, 'Abstract')
+  if (!abstract) return undefined
+
+  const sections = xmlElements(abstract.content, 'AbstractText').map(section => {
+    const text = cleanMarkupText(section.content)
+    return section.attributes.Label ? `${section.attributes.Label}: ${text}` : text
+  })
+  return sections.join('\n\n') || undefined
+}
+
+function toReference(reference: XmlElement): PaperReference {
+  const doi = xmlElements(reference.content, 'ArticleId').find(element => element.attributes.IdType === 'doi')
+  const citation = xmlText(reference.content, 'Citation')
+  return {
+    publicationYear: parseYear(citation),
+    doi: doi ? normalizeDoi(cleanMarkupText(doi.content)) : undefined,
+    unstructured: citation
+  }
+}
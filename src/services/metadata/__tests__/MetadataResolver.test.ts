@@ -0,0 +1,163 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { MetadataResolver } from '../MetadataResolver'
+import { parseMetadataIdentifier, findMetadataIdentifiers } from '../identifiers'
+import type { HttpRequest, HttpTransport } from '../types'
+
+jest.mock('@/services/cache/CacheService', () => ({
+  getCacheService: jest.fn(() => null)
+}))
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf8')
+}
+
+/**
+ * Replays recorded responses keyed by a URL substring; anything else is a 404
+ */
+function fixtureTransport(routes: Record<string, string>): HttpTransport {
+  return jest.fn(async ({ url }: HttpRequest) => {
+    const route = Object.keys(routes).find(part => url.includes(part))
+    return route ? { status: 200, body: fixture(routes[route]) } : { status: 404, body: '' }
+  })
+}
+
+describe('MetadataResolver', () => {
+  it('normalizes a Crossref work', async () => {
+    const transport = fixtureTransport({ 'api.crossref.org/works/10.1038%2Fnature14539': 'crossref-10.1038-nature14539.json' })
+    const resolver = new MetadataResolver({ transport, cache: null })
+
+    const metadata = await resolver.resolve('https://doi.org/10.1038/NATURE14539')
+
+    expect(metadata).toMatchObject({
+      title: 'Deep learning',
+      authors: ['Yann LeCun', 'Yoshua Bengio', 'Geoffrey Hinton'],
+      journal: 'Nature',
+      publicationYear: 2015,
+      doi: '10.1038/nature14539',
+      source: 'doi',
+      identifier: '10.1038/nature14539'
+    })
+    expect(metadata!.abstract).toMatch(/^Deep learning allows computational models/)
+    expect(metadata!.references).toEqual([
+      {
+        title: 'ImageNet classification with deep convolutional neural networks',
+        authors: ['Krizhevsky'],
+        publicationYear: 2012,
+        journal: 'Proc. Advances in Neural Information Processing Systems',
+        doi: '10.1145/3065386',
+        unstructured: undefined
+      },
+      expect.objectContaining({ unstructured: expect.stringMatching(/^Hinton, G\. et al\./) }),
+      expect.objectContaining({ doi: '10.1162/neco.1997.9.8.1735', publicationYear: 1997 })
+    ])
+  })
+
+  it('normalizes an arXiv entry', async () => {
+    const transport = fixtureTransport({ 'id_list=1706.03762': 'arxiv-1706.03762.xml' })
+    const resolver = new MetadataResolver({ transport, cache: null })
+
+    const metadata = await resolver.resolve('arXiv:1706.03762v7')
+
+    expect(metadata).toMatchObject({
+      title: 'Attention Is All You Need',
+      authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+      journal: 'arXiv',
+      publicationYear: 2017,
+      references: [],
+      source: 'arxiv',
+      identifier: '1706.03762',
+      url: 'https://arxiv.org/abs/1706.03762'
+    })
+    expect(metadata!.abstract).toContain('attention mechanisms & dispensing with recurrence')
+  })
+
+  it('returns null for an unknown arXiv id', async () => {
+    const transport = fixtureTransport({ 'id_list=9999.99999': 'arxiv-not-found.xml' })
+    const resolver = new MetadataResolver({ transport, cache: null })
+
+    expect(await resolver.resolve('arXiv:9999.99999')).toBeNull()
+  })
+
+  it('normalizes a PubMed article with a structured abstract and references', async () => {
+    const transport = fixtureTransport({ 'db=pubmed': 'pubmed-31452104.xml' })
+    const resolver = new MetadataResolver({ transport, cache: null })
+
+    const metadata = await resolver.resolve('PMID: 31452104')
+
+    expect(metadata).toMatchObject({
+      title: 'Deep learning predicts hip fracture using confounding patient and healthcare variables',
+      authors: ['Marcus A Badgeley', 'JR Zech', 'Hip Fracture Study Group'],
+      journal: 'Nature medicine',
+      publicationYear: 2019,
+      doi: '10.1038/s41591-019-0548-6',
+      source: 'pmid'
+    })
+    expect(metadata!.abstract).toBe(
+      'BACKGROUND: Hip fractures are a leading cause of death & disability.\n\nMETHODS: We trained deep learning models on radiographs.'
+    )
+    expect(metadata!.references).toHaveLength(2)
+    expect(metadata!.references[0]).toMatchObject({ doi: '10.1371/journal.pmed.1002683', publicationYear: 2018 })
+    expect(metadata!.references[1].doi).toBeUndefined()
+  })
+
+  it('caches resolved metadata and reuses it', async () => {
+    const store = new Map<string, unknown>()
+    const cache = {
+      get: jest.fn(async (key: string) => (store.get(key) as any) ?? null),
+      set: jest.fn(async (key: string, value: unknown) => { store.set(key, value) })
+    }
+    const transport = fixtureTransport({ 'api.crossref.org': 'crossref-10.1038-nature14539.json' })
+    const resolver = new MetadataResolver({ transport, cache })
+
+    const first = await resolver.resolve('10.1038/nature14539')
+    const second = await resolver.resolve('doi:10.1038/nature14539')
+
+    expect(second).toEqual(first)
+    expect(transport).toHaveBeenCalledTimes(1)
+    expect(cache.set).toHaveBeenCalledWith('metadata:doi:10.1038/nature14539', first, expect.objectContaining({ ttl: expect.any(Number) }))
+  })
+
+  it('falls through to the next identifier when a source fails or has no record', async () => {
+    const transport = jest.fn(async ({ url }: HttpRequest) => {
+      if (url.includes('crossref')) return { status: 503, body: 'unavailable' }
+      return { status: 200, body: fixture('arxiv-1706.03762.xml') }
+    })
+    const resolver = new MetadataResolver({ transport, cache: null })
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const metadata = await resolver.resolveFirst([
+      { type: 'doi', value: '10.48550/arxiv.1706.03762' },
+      { type: 'arxiv', value: '1706.03762' }
+    ])
+    warn.mockRestore()
+
+    expect(metadata?.source).toBe('arxiv')
+  })
+})
+
+describe('metadata identifiers', () => {
+  it.each([
+    ['10.1038/nature14539', { type: 'doi', value: '10.1038/nature14539' }],
+    ['https://dx.doi.org/10.1038/Nature14539.', { type: 'doi', value: '10.1038/nature14539' }],
+    ['https://arxiv.org/abs/1706.03762v5', { type: 'arxiv', value: '1706.03762' }],
+    ['https://arxiv.org/pdf/1706.03762.pdf', { type: 'arxiv', value: '1706.03762' }],
+    ['arXiv:hep-th/9901001v2', { type: 'arxiv', value: 'hep-th/9901001' }],
+    ['2101.00001', { type: 'arxiv', value: '2101.00001' }],
+    ['PMID: 31452104', { type: 'pmid', value: '31452104' }],
+    ['https://pubmed.ncbi.nlm.nih.gov/31452104/', { type: 'pmid', value: '31452104' }],
+    ['not an identifier', null],
+  ])('parses %s', (input: string, expected: unknown) => {
+    expect(parseMetadataIdentifier(input)).toEqual(expected)
+  })
+
+  it('finds prefixed identifiers in text, DOI first', () => {
+    const text = 'Preprint arXiv:1706.03762v2 [cs.CL]. Published as doi:10.5555/12345678; PMID 31452104.'
+
+    expect(findMetadataIdentifiers(text)).toEqual([
+      { type: 'doi', value: '10.5555/12345678' },
+      { type: 'arxiv', value: '1706.03762' },
+      { type: 'pmid', value: '31452104' }
+    ])
+  })
+})
@@ -0,0 +1,41 @@
+import type { HttpTransport, HttpResponse } from './types'
+
+const REQUEST_TIMEOUT_MS = 10000
+
+export class MetadataHttpError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'MetadataHttpError'
+    this.status = status
+  }
+}
+
+/**
+ * Default transport backed by `fetch`, with a timeout so a slow source cannot stall uploads
+ */
+export const fetchTransport: HttpTransport = async ({ url, headers }) => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, { headers, signal: controller.signal })
+    return { status: response.status, body: await response.text() }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Return the body of a successful response, null for 404, and throw otherwise
+ */
+export function expectBody(response: HttpResponse, source: string): string | null {
+  if (response.status === 404) {
+    return null
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new MetadataHttpError(`${source} request failed with status ${response.status}`, response.status)
+  }
+  return response.body
+}
@@ -0,0 +1,88 @@
+import type { MetadataIdentifier } from './types'
+
+const DOI_PATTERN = /10\.\d{4,9}\/[^\s"<>]+/
+const ARXIV_NEW_PATTERN = /(\d{4}\.\d{4,5})(?:v\d+)?/
+const ARXIV_OLD_PATTERN = /([a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?/
+
+/**
+ * Parse a single identifier typed or pasted by a user: a DOI (bare, `doi:` or
+ * doi.org URL), an arXiv id (bare, `arXiv:` or arxiv.org URL) or a PubMed id
+ * (bare, `PMID:` or pubmed URL)
+ */
+export function parseMetadataIdentifier(input: string): MetadataIdentifier | null {
+  const value = input.trim()
+  if (!value) return null
+
+  const arxivUrl = /arxiv\.org\/(?:abs|pdf)\/(.+?)(?:\.pdf)?$/i.exec(value)
+  const arxivPrefixed = /^arxiv:\s*(.+)$/i.exec(value)
+  const arxivCandidate = arxivUrl?.[1] || arxivPrefixed?.[1]
+  if (arxivCandidate) {
+    const arxivId = matchArxivId(arxivCandidate)
+    return arxivId ? { type: 'arxiv', value: arxivId } : null
+  }
+
+  const pubmedUrl = /pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/i.exec(value)
+  const pmidPrefixed = /^pmid:?\s*(\d+)$/i.exec(value)
+  if (pubmedUrl || pmidPrefixed) {
+    return { type: 'pmid', value: (pubmedUrl || pmidPrefixed)![1] }
+  }
+
+  const doi = DOI_PATTERN.exec(value)
+  if (doi) {
+    return { type: 'doi', value: normalizeDoi(doi[0]) }
+  }
+
+  const bareArxiv = new RegExp(`^${ARXIV_NEW_PATTERN.source}$`).exec(value)
+  if (bareArxiv) {
+    return { type: 'arxiv', value: bareArxiv[1] }
+  }
+
+  if (/^\d{1,9}$/.test(value)) {
+    return { type: 'pmid', value }
+  }
+
+  return null
+}
+
+/**
+ * Identifiers mentioned in free text such as extracted PDF content, most reliable first.
+ * arXiv ids and PMIDs need their prefix here, since bare numbers are too ambiguous.
+ */
+export function findMetadataIdentifiers(text: string): MetadataIdentifier[] {
+  const identifiers: MetadataIdentifier[] = []
+
+  const doi = DOI_PATTERN.exec(text)
+  if (doi) {
+    identifiers.push({ type: 'doi', value: normalizeDoi(doi[0]) })
+  }
+
+  const arxiv = /(?:arxiv:\s*|arxiv\.org\/(?:abs|pdf)\/)([\w./-]+)/i.exec(text)
+  const arxivId = arxiv && matchArxivId(arxiv[1])
+  if (arxivId) {
+    identifiers.push({ type: 'arxiv', value: arxivId })
+  }
+
+  const pmid = /\bPMID:?\s*(\d{1,9})\b/i.exec(text)
+  if (pmid) {
+    identifiers.push({ type: 'pmid', value: pmid[1] })
+  }
+
+  return identifiers
+}
+
+/**
+ * Bare lower-case DOI without trailing punctuation picked up from prose
+ */
+export function normalizeDoi(value: string): string {
+  return value
+    .trim()
+    .replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '')
+    .replace(/[.,;:)\]]+$/, '')
+    .toLowerCase()
+}
+
+function matchArxivId(value: string): string | null {
+  const match = new RegExp(`^${ARXIV_NEW_PATTERN.source}`).exec(value) ||
+    new RegExp(`^${ARXIV_OLD_PATTERN.source}`).exec(value)
+  return match ? match[1] : null
+}
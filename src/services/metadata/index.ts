@@ -0,0 +1,18 @@
+export { MetadataResolver, getMetadataResolver } from './MetadataResolver'
+export { CrossrefResolver } from './CrossrefResolver'
+export { ArxivResolver } from './ArxivResolver'
+export { PubMedResolver } from './PubMedResolver'
+export { fetchTransport, MetadataHttpError } from './http'
+export { parseMetadataIdentifier, findMetadataIdentifiers, normalizeDoi } from './identifiers'
+export type { MetadataResolverOptions } from './MetadataResolver'
+export type {
+  MetadataIdentifier,
+  MetadataIdentifierType,
+  MetadataSourceResolver,
+  PaperReference,
+  ResolvedPaperFields,
+  ResolvedPaperMetadata,
+  HttpTransport,
+  HttpRequest,
+  HttpResponse
+} from './types'
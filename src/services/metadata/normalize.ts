@@ -0,0 +1,26 @@
+/**
+ * "Given Family", the author format used across the library (see ZoteroService.convertToPaper)
+ */
+export function formatPersonName(given?: string, family?: string): string {
+  return [given, family].map(part => part?.replace(/\s+/g, ' ').trim()).filter(Boolean).join(' ')
+}
+
+/**
+ * First plausible four-digit year in a date string or number
+ */
+export function parseYear(value: unknown): number | undefined {
+  const match = /\b(1[5-9]\d{2}|20\d{2})\b/.exec(String(value ?? ''))
+  if (!match) return undefined
+
+  const year = parseInt(match[1], 10)
+  return year <= new Date().getFullYear() + 1 ? year : undefined
+}
+
+/**
+ * Collapse whitespace and drop empty strings
+ */
+export function cleanString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const cleaned = value.replace(/\s+/g, ' ').trim()
+  return cleaned || undefined
+}
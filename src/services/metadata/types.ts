@@ -0,0 +1,55 @@
+import type { Paper } from '@/types'
+
+export type MetadataIdentifierType = 'doi' | 'arxiv' | 'pmid'
+
+export interface MetadataIdentifier {
+  type: MetadataIdentifierType
+  // Normalized: bare DOI (lower case), arXiv id without version prefix/URL, numeric PMID
+  value: string
+}
+
+export interface PaperReference {
+  title?: string
+  authors?: string[]
+  publicationYear?: number
+  journal?: string
+  doi?: string
+  // Citation text as given by the source when it is not broken into fields
+  unstructured?: string
+}
+
+/**
+ * Metadata from an authoritative source, normalized to the `Paper` fields
+ */
+export type ResolvedPaperFields = Pick<Paper, 'title' | 'authors'> &
+  Partial<Pick<Paper, 'journal' | 'publicationYear' | 'doi' | 'abstract'>>
+
+export interface ResolvedPaperMetadata extends ResolvedPaperFields {
+  references: PaperReference[]
+  source: MetadataIdentifierType
+  identifier: string
+  // Landing page at the source
+  url?: string
+}
+
+export interface HttpRequest {
+  url: string
+  headers?: Record<string, string>
+}
+
+export interface HttpResponse {
+  status: number
+  body: string
+}
+
+/**
+ * Performs GET requests for resolvers. Tests inject a transport that replays
+ * recorded fixtures instead of calling the network.
+ */
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>
+
+export interface MetadataSourceResolver {
+  readonly type: MetadataIdentifierType
+  // null when the source has no record for the identifier
+  resolve(value: string): Promise<ResolvedPaperMetadata | null>
+}
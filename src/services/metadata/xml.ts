@@ -0,0 +1,72 @@
+// Minimal XML reading for the flat Atom (arXiv) and PubMed documents the resolvers consume.
+// It does not handle nesting of an element inside itself, which neither format uses.
+
+export interface XmlElement {
+  attributes: Record<string, string>
+  content: string
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+/**
+ * All `<tag>` elements (namespaced tags such as `arxiv:doi` included) with their raw inner XML
+ */
+export function xmlElements(xml: string, tag: string): XmlElement[] {
+  const escaped = tag.replace(/[.:-]/g, '\\$&')
+  const pattern = new RegExp(`<${escaped}(\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${escaped}>)`, 'g')
+  const elements: XmlElement[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(xml)) !== null) {
+    elements.push({ attributes: parseAttributes(match[1] || ''), content: match[2] || '' })
+  }
+
+  return elements
+}
+
+/**
+ * Text of the first `<tag>` element, or undefined when absent or empty
+ */
+export function xmlText(xml: string, tag: string): string | undefined {
+  const [element] = xmlElements(xml, tag)
+  const text = element && cleanMarkupText(element.content)
+  return text || undefined
+}
+
+/**
+ * Strip tags (including JATS markup in Crossref abstracts), decode entities and collapse whitespace
+ */
+export function cleanMarkupText(markup: string): string {
+  return decodeEntities(markup.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4])
+  }
+
+  return attributes
+}
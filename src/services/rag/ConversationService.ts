@@ -0,0 +1,412 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import type { Paper as PaperRow } from '@/lib/database'
+import type { ChatMessage, Paper, RAGCitation, RAGConversation, RAGHistoryTurn, RAGUnsupportedClaim } from '@/types'
+
+export interface ConversationWithMessages extends RAGConversation {
+  messages: ChatMessage[]
+}
+
+/**
+ * A question and the answer given to it, recorded together
+ */
+export interface ConversationExchange {
+  question: string
+  askedAt: Date
+  answer: string
+  sourcePaperIds: string[]
+  confidence?: number
+  citations?: RAGCitation[]
+  unsupportedClaims?: RAGUnsupportedClaim[]
+}
+
+/**
+ * A conversation title is empty or too long
+ */
+export class ConversationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConversationError'
+  }
+}
+
+interface ConversationRow {
+  id: string
+  title: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface MessageRow {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  source_paper_ids: string[] | null
+  confidence: number | null
+  citations: RAGCitation[] | null
+  unsupported_claims: RAGUnsupportedClaim[] | null
+  created_at: string
+}
+
+const CONVERSATIONS_TABLE = 'rag_conversations'
+const MESSAGES_TABLE = 'rag_messages'
+const DEFAULT_TITLE = 'New conversation'
+const MAX_TITLE_LENGTH = 255
+// Generated titles are cut to fit conversation lists
+const GENERATED_TITLE_LENGTH = 80
+// Most recent messages given to the model for a follow-up
+const HISTORY_MESSAGES = 10
+const ID_CHUNK_SIZE = 200
+
+/**
+ * Stores each user's research chat conversations, so they survive reloads,
+ * can be resumed, and give follow-up questions their earlier turns
+ */
+export class ConversationService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  /**
+   * The user's conversations, most recently active first
+   */
+  async listConversations(userId: string): Promise<RAGConversation[]> {
+    const { data, error } = await this.supabase
+      .from(CONVERSATIONS_TABLE)
+      .select('id, title, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load conversations: ${error.message}`)
+    }
+
+    return ((data || []) as ConversationRow[]).map(mapConversation)
+  }
+
+  /**
+   * Start a conversation. Without a title, the first question becomes one.
+   */
+  async createConversation(userId: string, title?: string): Promise<RAGConversation> {
+    const validTitle = title === undefined ? null : validateTitle(title)
+
+    const { data, error } = await this.supabase
+      .from(CONVERSATIONS_TABLE)
+      .insert({ user_id: userId, title: validTitle })
+      .select('id, title, created_at, updated_at')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create conversation: ${error.message}`)
+    }
+
+    return mapConversation(data as ConversationRow)
+  }
+
+  /**
+   * A conversation with its messages, oldest first; null when it does not exist.
+   * Answers list their source papers, minus any deleted since.
+   */
+  async getConversation(userId: string, id: string): Promise<ConversationWithMessages | null> {
+    const row = await this.getConversationRow(userId, id)
+    if (!row) {
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from(MESSAGES_TABLE)
+      .select('id, role, content, source_paper_ids, confidence, citations, unsupported_claims, created_at')
+      .eq('conversation_id', id)
+      .order('created_at')
+
+    if (error) {
+      throw new Error(`Failed to load conversation messages: ${error.message}`)
+    }
+
+    const messages = (data || []) as MessageRow[]
+    const papers = await this.loadPapersById(
+      userId,
+      messages.flatMap(message => message.source_paper_ids || [])
+    )
+
+    return {
+      ...mapConversation(row),
+      messages: messages.map(message => mapMessage(message, papers))
+    }
+  }
+
+  /**
+   * Rename a conversation; returns null when it does not exist
+   */
+  async renameConversation(userId: string, id: string, title: string): Promise<RAGConversation | null> {
+    const validTitle = validateTitle(title)
+
+    const { data, error } = await this.supabase
+      .from(CONVERSATIONS_TABLE)
+      .update({ title: validTitle, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select('id, title, created_at, updated_at')
+
+    if (error) {
+      if (error.code === '22P02') {
+        return null
+      }
+      throw new Error(`Failed to rename conversation: ${error.message}`)
+    }
+
+    const rows = (data || []) as ConversationRow[]
+    return rows.length ? mapConversation(rows[0]) : null
+  }
+
+  /**
+   * Delete a conversation and its messages; returns false when it does not exist
+   */
+  async deleteConversation(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(CONVERSATIONS_TABLE)
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      if (error.code === '22P02') {
+        return false
+      }
+      throw new Error(`Failed to delete conversation: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * The latest turns of a conversation, oldest first, for answering a
+   * follow-up; null when the conversation does not exist
+   */
+  async getHistory(userId: string, id: string): Promise<RAGHistoryTurn[] | null> {
+    const row = await this.getConversationRow(userId, id)
+    if (!row) {
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from(MESSAGES_TABLE)
+      .select('role, content')
+      .eq('conversation_id', id)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_MESSAGES)
+
+    if (error) {
+      throw new Error(`Failed to load conversation history: ${error.message}`)
+    }
+
+    return ((data || []) as RAGHistoryTurn[]).reverse()
+  }
+
+  /**
+   * Record a question and its answer. An untitled conversation is named
+   * after its first question. Returns null when the conversation does not exist.
+   */
+  async addExchange(userId: string, id: string, exchange: ConversationExchange): Promise<RAGConversation | null> {
+    const row = await this.getConversationRow(userId, id)
+    if (!row) {
+      return null
+    }
+
+    const { error } = await this.supabase
+      .from(MESSAGES_TABLE)
+      .insert([
+        {
+          conversation_id: id,
+          role: 'user',
+          content: exchange.question,
+          created_at: exchange.askedAt.toISOString()
+        },
+        {
+          conversation_id: id,
+          role: 'assistant',
+          content: exchange.answer,
+          source_paper_ids: exchange.sourcePaperIds,
+          confidence: exchange.confidence ?? null,
+          citations: exchange.citations ?? null,
+          unsupported_claims: exchange.unsupportedClaims ?? null,
+          created_at: new Date().toISOString()
+        }
+      ])
+
+    if (error) {
+      throw new Error(`Failed to save conversation messages: ${error.message}`)
+    }
+
+    const { data, error: updateError } = await this.supabase
+      .from(CONVERSATIONS_TABLE)
+      .update({
+        title: row.title ?? generateConversationTitle(exchange.question),
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select('id, title, created_at, updated_at')
+      .single()
+
+    if (updateError) {
+      throw new Error(`Failed to update conversation: ${updateError.message}`)
+    }
+
+    return mapConversation(data as ConversationRow)
+  }
+
+  private async getConversationRow(userId: string, id: string): Promise<ConversationRow | null> {
+    const { data, error } = await this.supabase
+      .from(CONVERSATIONS_TABLE)
+      .select('id, title, created_at, updated_at')
+      .eq('user_id', userId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '22P02') {
+        return null
+      }
+      throw new Error(`Failed to load conversation: ${error.message}`)
+    }
+
+    return data as ConversationRow | null
+  }
+
+  private async loadPapersById(userId: string, paperIds: string[]): Promise<Map<string, Paper>> {
+    const ids = Array.from(new Set(paperIds))
+    const papers = new Map<string, Paper>()
+
+    for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .select('*')
+        .eq('created_by', userId)
+        .in('id', ids.slice(start, start + ID_CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load source papers: ${error.message}`)
+      }
+
+      for (const row of (data || []) as PaperRow[]) {
+        papers.set(row.id, mapPaperRow(row))
+      }
+    }
+
+    return papers
+  }
+}
+
+/**
+ * A conversation title from its first question: whitespace collapsed and
+ * cut at a word boundary to fit conversation lists
+ */
+export function generateConversationTitle(question: string): string {
+  const text = question.replace(/\s+/g, ' ').trim()
+  if (!text) {
+    return DEFAULT_TITLE
+  }
+  if (text.length <= GENERATED_TITLE_LENGTH) {
+    return text
+  }
+
+  const cut = text.slice(0, GENERATED_TITLE_LENGTH - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  const words = lastSpace > GENERATED_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut
+  return `${words.replace(/[\s,;:.-]+$/, '')}…`
+}
+
+/**
+ * A conversation as Markdown, with each answer's citations (or, for answers
+ * saved without them, its sources) listed under it
+ */
+export function formatConversationMarkdown(conversation: ConversationWithMessages): string {
+  const lines = [`# ${conversation.title}`, '']
+
+  for (const message of conversation.messages) {
+    lines.push(`**${message.role === 'user' ? 'You' : 'Assistant'}** (${message.timestamp.toISOString()})`, '')
+    lines.push(message.content, '')
+
+    if (message.citations?.length) {
+      // Numbered as the answer's markers are
+      lines.push('Citations:')
+      message.citations.forEach(citation => {
+        const paper = message.sources?.find(source => source.id === citation.paperId)
+        const page = citation.page ? `, p. ${citation.page}` : ''
+        lines.push(`[${citation.marker}] ${paper?.title ?? 'Deleted paper'}${page}`)
+      })
+      lines.push('')
+    } else if (message.sources?.length) {
+      lines.push('Sources:')
+      message.sources.forEach((paper, index) => {
+        const year = paper.publicationYear ? ` (${paper.publicationYear})` : ''
+        lines.push(`${index + 1}. ${paper.title}${year}`)
+      })
+      lines.push('')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+function validateTitle(title: string): string {
+  const trimmed = (title || '').trim()
+  if (!trimmed) {
+    throw new ConversationError('Conversation title is required')
+  }
+  if (trimmed.length > MAX_TITLE_LENGTH) {
+    throw new ConversationError(`Conversation title must be at most ${MAX_TITLE_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+function mapConversation(row: ConversationRow): RAGConversation {
+  return {
+    id: row.id,
+    title: row.title || DEFAULT_TITLE,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function mapMessage(row: MessageRow, papers: Map<string, Paper>): ChatMessage {
+  const sources = (row.source_paper_ids || [])
+    .map(id => papers.get(id))
+    .filter((paper): paper is Paper => !!paper)
+
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    timestamp: new Date(row.created_at),
+    ...(row.role === 'assistant' ? { sources } : {}),
+    ...(row.citations ? { citations: row.citations } : {}),
+    ...(row.unsupported_claims ? { unsupportedClaims: row.unsupported_claims } : {}),
+    ...(row.confidence !== null ? { confidence: row.confidence } : {})
+  }
+}
+
+function mapPaperRow(row: PaperRow): Paper {
+  return {
+    id: row.id,
+    title: row.title,
+    authors: row.authors || [],
+    journal: row.journal || undefined,
+    publicationYear: row.publication_year || undefined,
+    doi: row.doi || undefined,
+    abstract: row.abstract || undefined,
+    zoteroKey: row.zotero_key || undefined,
+    googleDriveId: row.google_drive_id || undefined,
+    googleDriveUrl: row.google_drive_url || undefined,
+    pdfPath: row.pdf_path || undefined,
+    storageBackend: row.storage_backend || undefined,
+    readingStatus: row.reading_status || 'unread',
+    dateAdded: new Date(row.date_added),
+    dateRead: row.date_read ? new Date(row.date_read) : undefined,
+    lastModified: new Date(row.last_modified)
+  }
+}
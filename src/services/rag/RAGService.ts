@@ -1,10 +1,31 @@
 import { SupabaseVectorService } from '@/services/vector/SupabaseVectorService'
-import type { ChatMessage, RAGResponse, SearchFilters } from '@/types'
+import type { OpenAICompatibleEndpoint } from '@/services/ai/OpenAICompatibleService'
+import { readSSE } from '@/lib/sse'
+import type { ChatMessage, RAGConversation, RAGHistoryTurn, RAGResponse, RAGScope, RAGStreamEvent, SearchFilters } from '@/types'
 
 export interface RAGServiceConfig {
-  openaiApiKey: string
+  // Optional: needed when the library embeds with OpenAI; without it answers are written without an LLM
+  openaiApiKey?: string
+  // Optional: answer with a self-hosted model instead of OpenAI
+  openaiCompatible?: OpenAICompatibleEndpoint
   maxContextPapers?: number
   similarityThreshold?: number
+  // Citation style (built-in name or uploaded style id) for the bibliography appended to answers
+  citationStyle?: string
+  // Save conversations on the server for the signed-in user, so they can be resumed
+  persistConversations?: boolean
+  // Answer from these papers only, instead of the whole library
+  scope?: RAGScope
+}
+
+// Earlier turns sent with a question when the conversation isn't saved on the server
+const MAX_HISTORY_TURNS = 6
+
+export interface AskQuestionOptions {
+  // Stream the answer, called with the assistant message each time it grows
+  onUpdate?: (message: ChatMessage) => void
+  // Stop a streamed answer; the partial answer is kept and marked cancelled
+  signal?: AbortSignal
 }
 
 /**
@@ -13,8 +34,9 @@ export interface RAGServiceConfig {
  */
 export class RAGService {
   private vectorService: SupabaseVectorService
-  private config: Required<RAGServiceConfig>
+  private config: RAGServiceConfig & Required<Omit<RAGServiceConfig, 'openaiApiKey' | 'openaiCompatible' | 'citationStyle' | 'persistConversations' | 'scope'>>
   private chatHistory: ChatMessage[] = []
+  private conversation?: RAGConversation
 
   constructor(config: RAGServiceConfig) {
     this.config = {
@@ -27,14 +49,21 @@ export class RAGService {
   }
 
   /**
-   * Process a user question and generate a response
+   * Process a user question and generate a response.
+   * With onUpdate or a signal the answer is streamed and can be cancelled.
    */
   async askQuestion(
     question: string, 
     filters?: SearchFilters,
-    _conversationId?: string
+    options: AskQuestionOptions = {}
   ): Promise<ChatMessage> {
     try {
+      // Saved conversations keep their history on the server; otherwise the recent turns go with the question
+      const history = this.config.persistConversations ? undefined : this.buildHistory()
+      if (this.config.persistConversations && !this.conversation) {
+        this.conversation = await this.createConversation()
+      }
+
       // Add user message to history
       const userMessage: ChatMessage = {
         id: this.generateMessageId(),
@@ -45,11 +74,17 @@ export class RAGService {
       
       this.chatHistory.push(userMessage)
 
-      // Build context from conversation history
-      const contextualQuestion = this.buildContextualQuestion(question)
+      if (options.onUpdate || options.signal) {
+        const streamedMessage = await this.streamRAGAPI(question, filters, history, options)
+        this.chatHistory.push(streamedMessage)
+        return streamedMessage
+      }
       
       // Get RAG response via API
-      const ragResponse = await this.queryRAGAPI(contextualQuestion, filters)
+      const ragResponse = await this.queryRAGAPI(question, filters, history)
+      if (ragResponse.conversation) {
+        this.conversation = parseConversation(ragResponse.conversation)
+      }
 
       // Create assistant message
       const assistantMessage: ChatMessage = {
@@ -57,7 +92,10 @@ export class RAGService {
         role: 'assistant',
         content: ragResponse.answer,
         timestamp: new Date(),
-        sources: ragResponse.sources
+        sources: ragResponse.sources,
+        citations: ragResponse.citations,
+        unsupportedClaims: ragResponse.unsupportedClaims,
+        bibliography: ragResponse.bibliography
       }
 
       this.chatHistory.push(assistantMessage)
@@ -79,6 +117,46 @@ export class RAGService {
     }
   }
 
+  /**
+   * Append a bibliography of the sources to later answers, or stop with undefined
+   */
+  setCitationStyle(citationStyle?: string): void {
+    this.config.citationStyle = citationStyle
+  }
+
+  /**
+   * Answer later questions from the scope's papers only, or the whole library with undefined
+   */
+  setScope(scope?: RAGScope): void {
+    this.config.scope = scope
+  }
+
+  /**
+   * The saved conversation questions are added to, once there is one
+   */
+  getConversation(): RAGConversation | undefined {
+    return this.conversation
+  }
+
+  /**
+   * Resume a saved conversation: its messages replace the chat history
+   */
+  async loadConversation(conversationId: string): Promise<ChatMessage[]> {
+    const response = await fetch(`/api/rag/conversations/${conversationId}`, {
+      headers: this.buildRequestHeaders()
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `Failed to load conversation: ${response.status}`)
+    }
+
+    const { data } = await response.json()
+    this.conversation = parseConversation(data)
+    this.importChatHistory(data.messages)
+    return this.getChatHistory()
+  }
+
   /**
    * Get chat history
    */
@@ -87,10 +165,11 @@ export class RAGService {
   }
 
   /**
-   * Clear chat history
+   * Clear chat history. A saved conversation is left as it is; the next question starts a new one.
    */
   clearHistory(): void {
     this.chatHistory = []
+    this.conversation = undefined
   }
 
   /**
@@ -163,31 +242,12 @@ export class RAGService {
   }
 
   /**
-   * Build contextual question incorporating conversation history
+   * The latest turns before the question being asked, for answering follow-ups
    */
-  private buildContextualQuestion(currentQuestion: string): string {
-    if (this.chatHistory.length < 2) {
-      return currentQuestion
-    }
-
-    // Get recent context (last 4 messages)
-    const recentContext = this.chatHistory
-      .slice(-4)
-      .filter(msg => msg.role === 'user')
-      .map(msg => msg.content)
-      .join(' ')
-
-    // If the current question seems to reference previous context, combine them
-    const contextualWords = ['this', 'that', 'these', 'those', 'it', 'they', 'also', 'additionally', 'furthermore']
-    const hasContextualReference = contextualWords.some(word => 
-      currentQuestion.toLowerCase().includes(word)
-    )
-
-    if (hasContextualReference && recentContext) {
-      return `Previous context: ${recentContext}\n\nCurrent question: ${currentQuestion}`
-    }
-
-    return currentQuestion
+  private buildHistory(): RAGHistoryTurn[] {
+    return this.chatHistory
+      .slice(-MAX_HISTORY_TURNS)
+      .map(msg => ({ role: msg.role, content: msg.content }))
   }
 
   /**
@@ -230,17 +290,15 @@ export class RAGService {
   /**
    * Query RAG API endpoint
    */
-  private async queryRAGAPI(question: string, filters?: SearchFilters): Promise<RAGResponse> {
+  private async queryRAGAPI(
+    question: string,
+    filters?: SearchFilters,
+    history?: RAGHistoryTurn[]
+  ): Promise<RAGResponse> {
     const response = await fetch('/api/rag/query', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        question,
-        filters,
-        openaiApiKey: this.config.openaiApiKey
-      })
+      headers: this.buildRequestHeaders(),
+      body: this.buildRequestBody(question, filters, history)
     })
 
     if (!response.ok) {
@@ -252,10 +310,133 @@ export class RAGService {
     return data.data
   }
 
+  /**
+   * Query the streaming RAG endpoint, building the assistant message as events arrive
+   */
+  private async streamRAGAPI(
+    question: string,
+    filters: SearchFilters | undefined,
+    history: RAGHistoryTurn[] | undefined,
+    options: AskQuestionOptions
+  ): Promise<ChatMessage> {
+    const message: ChatMessage = {
+      id: this.generateMessageId(),
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      streaming: true
+    }
+
+    try {
+      const response = await fetch('/api/rag/query/stream', {
+        method: 'POST',
+        headers: this.buildRequestHeaders(),
+        body: this.buildRequestBody(question, filters, history),
+        signal: options.signal
+      })
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `API request failed: ${response.status}`)
+      }
+
+      for await (const { data } of readSSE(response.body)) {
+        const event: RAGStreamEvent = JSON.parse(data)
+
+        if (event.type === 'sources') {
+          message.sources = event.sources
+          message.citations = event.citations
+          message.bibliography = event.bibliography
+        } else if (event.type === 'delta') {
+          message.content += event.text
+        } else if (event.type === 'done') {
+          message.confidence = event.confidence
+          message.usage = event.usage
+          message.unsupportedClaims = event.unsupportedClaims
+          if (event.conversation) {
+            this.conversation = parseConversation(event.conversation)
+          }
+        } else {
+          throw new Error(event.error)
+        }
+
+        options.onUpdate?.({ ...message })
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error
+      }
+      message.cancelled = true
+    }
+
+    message.streaming = false
+    options.onUpdate?.({ ...message })
+    return message
+  }
+
+  private buildRequestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    }
+    // Uploaded citation styles, saved conversations, tags and collections belong to the signed-in user
+    const needsAuth = this.config.citationStyle ||
+      this.config.persistConversations ||
+      this.config.scope?.tag ||
+      this.config.scope?.collectionId
+    const token = needsAuth && typeof localStorage !== 'undefined'
+      ? localStorage.getItem('auth_token')
+      : null
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`
+    }
+    return headers
+  }
+
+  private buildRequestBody(question: string, filters?: SearchFilters, history?: RAGHistoryTurn[]): string {
+    return JSON.stringify({
+      question,
+      filters,
+      openaiApiKey: this.config.openaiApiKey,
+      openaiCompatible: this.config.openaiCompatible,
+      citationStyle: this.config.citationStyle,
+      scope: this.config.scope,
+      conversationId: this.conversation?.id,
+      history
+    })
+  }
+
+  private async createConversation(): Promise<RAGConversation> {
+    const response = await fetch('/api/rag/conversations', {
+      method: 'POST',
+      headers: this.buildRequestHeaders(),
+      body: JSON.stringify({})
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `Failed to start conversation: ${response.status}`)
+    }
+
+    const { data } = await response.json()
+    return parseConversation(data)
+  }
+
   /**
    * Generate unique message ID
    */
   private generateMessageId(): string {
     return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
-}
\ No newline at end of file
+}
+
+/**
+ * A conversation from an API response, whose dates arrive as strings
+ */
+function parseConversation(data: RAGConversation): RAGConversation {
+  return {
+    id: data.id,
+    title: data.title,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt)
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  ConversationError,
+  ConversationService,
+  formatConversationMarkdown,
+  generateConversationTitle
+} from '../ConversationService'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  TABLES: { PAPERS: 'papers' }
+}))
+
+type QueryResult = { data: unknown; error: unknown }
+
+// A chainable query that resolves to the given result however it's ended
+function query(result: QueryResult) {
+  const chain: any = {}
+  for (const method of ['select', 'insert', 'update', 'delete', 'eq', 'in', 'order', 'limit']) {
+    chain[method] = jest.fn(() => chain)
+  }
+  chain.single = jest.fn(async () => result)
+  chain.maybeSingle = jest.fn(async () => result)
+  chain.then = (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject)
+  return chain
+}
+
+function mockSupabase(queries: Record<string, any[]>) {
+  return { from: jest.fn((table: string) => queries[table].shift()) } as any
+}
+
+const conversationRow = {
+  id: 'conv-1',
+  title: null,
+  created_at: '2026-10-01T10:00:00Z',
+  updated_at: '2026-10-01T10:00:00Z'
+}
+
+const paperRow = {
+  id: 'paper-1',
+  title: 'Attention Is All You Need',
+  authors: ['A. Vaswani'],
+  journal: null,
+  publication_year: 2017,
+  doi: null,
+  abstract: null,
+  zotero_key: null,
+  google_drive_id: null,
+  google_drive_url: null,
+  pdf_path: null,
+  storage_backend: null,
+  reading_status: 'completed',
+  date_added: '2026-01-01T00:00:00Z',
+  date_read: null,
+  last_modified: '2026-01-01T00:00:00Z'
+}
+
+describe('generateConversationTitle', () => {
+  it('uses a short question as it is, with whitespace collapsed', () => {
+    expect(generateConversationTitle('  What do   my papers say\nabout attention? ')).toBe('What do my papers say about attention?')
+  })
+
+  it('cuts long questions at a word boundary', () => {
+    const title = generateConversationTitle(
+      'Which of the papers in my collection compare transformer architectures against recurrent networks on long documents?'
+    )
+
+    expect(title.length).toBeLessThanOrEqual(80)
+    expect(title).toBe('Which of the papers in my collection compare transformer architectures against…')
+  })
+})
+
+describe('ConversationService', () => {
+  it('records an exchange and titles the conversation after its first question', async () => {
+    const messages = query({ data: null, error: null })
+    const update = query({ data: { ...conversationRow, title: 'How do transformers scale?' }, error: null })
+    const supabase = mockSupabase({
+      rag_conversations: [query({ data: conversationRow, error: null }), update],
+      rag_messages: [messages]
+    })
+    const askedAt = new Date('2026-10-01T10:05:00Z')
+
+    const conversation = await new ConversationService(supabase).addExchange('user-1', 'conv-1', {
+      question: 'How do transformers scale?',
+      askedAt,
+      answer: 'Roughly with the square of the sequence length.',
+      sourcePaperIds: ['paper-1'],
+      confidence: 0.8
+    })
+
+    const [question, answer] = messages.insert.mock.calls[0][0]
+    expect(question).toEqual({
+      conversation_id: 'conv-1',
+      role: 'user',
+      content: 'How do transformers scale?',
+      created_at: askedAt.toISOString()
+    })
+    expect(answer).toMatchObject({ role: 'assistant', source_paper_ids: ['paper-1'], confidence: 0.8 })
+    expect(update.update.mock.calls[0][0].title).toBe('How do transformers scale?')
+    expect(conversation?.title).toBe('How do transformers scale?')
+  })
+
+  it('keeps an existing title', async () => {
+    const update = query({ data: { ...conversationRow, title: 'Scaling' }, error: null })
+    const supabase = mockSupabase({
+      rag_conversations: [query({ data: { ...conversationRow, title: 'Scaling' }, error: null }), update],
+      rag_messages: [query({ data: null, error: null })]
+    })
+
+    await new ConversationService(supabase).addExchange('user-1', 'conv-1', {
+      question: 'And memory?',
+      askedAt: new Date(),
+      answer: 'Also quadratic.',
+      sourcePaperIds: []
+    })
+
+    expect(update.update.mock.calls[0][0].title).toBe('Scaling')
+  })
+
+  it('resumes a conversation with its sources, skipping deleted papers', async () => {
+    const supabase = mockSupabase({
+      rag_conversations: [query({ data: conversationRow, error: null })],
+      rag_messages: [query({
+        data: [
+          { id: 'm1', role: 'user', content: 'Question', source_paper_ids: [], confidence: null, created_at: '2026-10-01T10:01:00Z' },
+          { id: 'm2', role: 'assistant', content: 'Answer', source_paper_ids: ['paper-1', 'deleted'], confidence: 0.7, created_at: '2026-10-01T10:02:00Z' }
+        ],
+        error: null
+      })],
+      papers: [query({ data: [paperRow], error: null })]
+    })
+
+    const conversation = await new ConversationService(supabase).getConversation('user-1', 'conv-1')
+
+    expect(conversation?.title).toBe('New conversation')
+    expect(conversation?.messages).toHaveLength(2)
+    expect(conversation?.messages[0]).not.toHaveProperty('sources')
+    expect(conversation?.messages[1].sources?.map(paper => paper.id)).toEqual(['paper-1'])
+    expect(conversation?.messages[1].confidence).toBe(0.7)
+
+    const markdown = formatConversationMarkdown(conversation!)
+    expect(markdown).toContain('# New conversation')
+    expect(markdown).toContain('1. Attention Is All You Need (2017)')
+  })
+
+  it('returns null history for a conversation that does not exist', async () => {
+    const supabase = mockSupabase({
+      rag_conversations: [query({ data: null, error: null })]
+    })
+
+    await expect(new ConversationService(supabase).getHistory('user-1', 'missing')).resolves.toBeNull()
+  })
+
+  it('rejects an empty title', async () => {
+    const service = new ConversationService(mockSupabase({}))
+
+    await expect(service.renameConversation('user-1', 'conv-1', '   ')).rejects.toThrow(ConversationError)
+  })
+})
@@ -4,6 +4,20 @@ import type { ChatMessage, SearchFilters } from '@/types'
 // Mock the fetch function
 global.fetch = jest.fn()
 
+// A response body that yields the given SSE chunks
+function sseBody(chunks: string[]) {
+  const encoder = new TextEncoder()
+  let index = 0
+  return {
+    getReader: () => ({
+      read: async () => index < chunks.length
+        ? { done: false, value: encoder.encode(chunks[index++]) }
+        : { done: true, value: undefined },
+      releaseLock: () => {}
+    })
+  }
+}
+
 // Mock SupabaseVectorService
 jest.mock('@/services/vector/SupabaseVectorService', () => ({
   SupabaseVectorService: jest.fn().mockImplementation(() => ({
@@ -175,7 +189,7 @@ describe('RAGService', () => {
   })
 
   describe('conversation context', () => {
-    it('builds contextual questions from history', async () => {
+    it('sends earlier turns as history for follow-up questions', async () => {
       const mockResponse = {
         answer: 'Test answer',
         sources: [],
@@ -195,14 +209,18 @@ describe('RAGService', () => {
 
       expect(fetch).toHaveBeenCalledTimes(2)
       
-      // Check that the second call includes contextual information
+      // The question goes as asked, with the earlier turns alongside
       const secondCall = (fetch as jest.Mock).mock.calls[1][1]
       const secondCallBody = JSON.parse(secondCall.body)
       
-      expect(secondCallBody.question).toContain('Previous context')
+      expect(secondCallBody.question).toBe('How does it work?')
+      expect(secondCallBody.history).toEqual([
+        { role: 'user', content: 'What is machine learning?' },
+        { role: 'assistant', content: 'Test answer' }
+      ])
     })
 
-    it('does not add context for standalone questions', async () => {
+    it('sends no history with the first question', async () => {
       const mockResponse = {
         answer: 'Test answer',
         sources: [],
@@ -220,7 +238,32 @@ describe('RAGService', () => {
       const firstCallBody = JSON.parse(firstCall.body)
       
       expect(firstCallBody.question).toBe('What is deep learning?')
-      expect(firstCallBody.question).not.toContain('Previous context')
+      expect(firstCallBody.history).toEqual([])
+    })
+
+    it('saves the conversation on the server when persisting', async () => {
+      const conversation = { id: 'conv-1', title: 'New conversation', createdAt: '2026-10-01T10:00:00Z', updatedAt: '2026-10-01T10:00:00Z' }
+      const persistingService = new RAGService({ persistConversations: true })
+
+      ;(fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: conversation }) })
+        .mockResolvedValue({
+          ok: true,
+          json: async () => ({
+            data: { answer: 'Test answer', sources: [], confidence: 0.8, conversation: { ...conversation, title: 'What is it?' } }
+          })
+        })
+
+      await persistingService.askQuestion('What is it?')
+      await persistingService.askQuestion('And why?')
+
+      const calls = (fetch as jest.Mock).mock.calls
+      expect(calls).toHaveLength(3)
+      expect(calls[0][0]).toBe('/api/rag/conversations')
+      const followUp = JSON.parse(calls[2][1].body)
+      expect(followUp.conversationId).toBe('conv-1')
+      expect(followUp.history).toBeUndefined()
+      expect(persistingService.getConversation()?.title).toBe('What is it?')
     })
   })
 
@@ -303,6 +346,91 @@ describe('RAGService', () => {
     })
   })
 
+  describe('streaming', () => {
+    it('builds the answer from stream events', async () => {
+      const source = { id: 'p1', title: 'Paper One' }
+      ;(fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: sseBody([
+          `event: sources\ndata: ${JSON.stringify({ type: 'sources', sources: [source] })}\n\n`,
+          'event: delta\ndata: {"type":"delta","text":"Deep "}\n\n',
+          'event: delta\ndata: {"type":"delta","text":"learning"}\n\n',
+          'event: done\ndata: {"type":"done","confidence":0.9,"usage":{"promptTokens":10,"completionTokens":2,"totalTokens":12}}\n\n'
+        ])
+      })
+      const onUpdate = jest.fn()
+
+      const result = await ragService.askQuestion('What is it?', undefined, { onUpdate })
+
+      expect((fetch as jest.Mock).mock.calls[0][0]).toBe('/api/rag/query/stream')
+      expect(onUpdate.mock.calls[0][0]).toMatchObject({ content: '', sources: [source], streaming: true })
+      expect(onUpdate.mock.calls[1][0].content).toBe('Deep ')
+      expect(result).toMatchObject({
+        role: 'assistant',
+        content: 'Deep learning',
+        confidence: 0.9,
+        usage: { totalTokens: 12 },
+        streaming: false
+      })
+      expect(ragService.getChatHistory()[1]).toEqual(result)
+    })
+
+    it('keeps the citations and unsupported claims of a streamed answer', async () => {
+      const citation = { marker: 1, paperId: 'p1', excerpt: 'Attention replaces recurrence.' }
+      const claim = { text: 'It was invented in 1990 [1].', start: 25, end: 53, markers: [1], reason: 'unsupported' }
+      ;(fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: sseBody([
+          `event: sources\ndata: ${JSON.stringify({ type: 'sources', sources: [{ id: 'p1' }], citations: [citation] })}\n\n`,
+          `event: delta\ndata: ${JSON.stringify({ type: 'delta', text: 'It uses attention [1]. It was invented in 1990 [1].' })}\n\n`,
+          `event: done\ndata: ${JSON.stringify({ type: 'done', confidence: 0.7, unsupportedClaims: [claim] })}\n\n`
+        ])
+      })
+
+      const result = await ragService.askQuestion('What is it?', undefined, { onUpdate: jest.fn() })
+
+      expect(result.citations).toEqual([citation])
+      expect(result.unsupportedClaims).toEqual([claim])
+    })
+
+    it('keeps the partial answer when cancelled', async () => {
+      const controller = new AbortController()
+      let reads = 0
+      ;(fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: {
+          getReader: () => ({
+            read: async () => {
+              if (reads++ === 0) {
+                return { done: false, value: new TextEncoder().encode('event: delta\ndata: {"type":"delta","text":"Partial"}\n\n') }
+              }
+              controller.abort()
+              throw new DOMException('Aborted', 'AbortError')
+            },
+            releaseLock: () => {}
+          })
+        }
+      })
+
+      const result = await ragService.askQuestion('Question', undefined, { signal: controller.signal })
+
+      expect(result.content).toBe('Partial')
+      expect(result.cancelled).toBe(true)
+      expect(result.streaming).toBe(false)
+    })
+
+    it('reports an error event as a failed answer', async () => {
+      ;(fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: sseBody(['event: error\ndata: {"type":"error","error":"Model server error: 502"}\n\n'])
+      })
+
+      const result = await ragService.askQuestion('Question', undefined, { onUpdate: jest.fn() })
+
+      expect(result.content).toContain('encountered an error')
+    })
+  })
+
   describe('search filters', () => {
     it('passes search filters to API correctly', async () => {
       const mockResponse = {
@@ -329,5 +457,28 @@ describe('RAGService', () => {
 
       expect(callBody.filters).toEqual(filters)
     })
+
+    it('sends the scope, signed in when it names a tag', async () => {
+      localStorage.setItem('auth_token', 'token-1')
+      ;(fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ data: { answer: 'Scoped answer', sources: [], confidence: 0.8 } })
+      })
+
+      ragService.setScope({ paperIds: ['p1', 'p2'] })
+      await ragService.askQuestion('Compare them')
+      ragService.setScope({ tag: 'transformers' })
+      await ragService.askQuestion('What do they share?')
+      ragService.setScope(undefined)
+      await ragService.askQuestion('And the rest?')
+
+      const [papersCall, tagCall, libraryCall] = (fetch as jest.Mock).mock.calls.map(call => call[1])
+      expect(JSON.parse(papersCall.body).scope).toEqual({ paperIds: ['p1', 'p2'] })
+      expect(papersCall.headers.Authorization).toBeUndefined()
+      expect(JSON.parse(tagCall.body).scope).toEqual({ tag: 'transformers' })
+      expect(tagCall.headers.Authorization).toBe('Bearer token-1')
+      expect(JSON.parse(libraryCall.body).scope).toBeUndefined()
+      localStorage.removeItem('auth_token')
+    })
   })
 })
\ No newline at end of file
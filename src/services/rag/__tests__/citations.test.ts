@@ -0,0 +1,109 @@
+import {
+  buildCitations,
+  parseCitationMarkers,
+  stripCitationMarkers,
+  verifyAnswer
+} from '../citations'
+import type { Paper, RAGCitation, SearchResult } from '@/types'
+
+const paper = (id: string): Paper => ({
+  id,
+  title: `Paper ${id}`,
+  authors: [],
+  readingStatus: 'unread',
+  dateAdded: new Date('2026-01-01'),
+  lastModified: new Date('2026-01-01')
+})
+
+const citations: RAGCitation[] = [
+  {
+    marker: 1,
+    paperId: 'p1',
+    excerpt: 'The transformer replaces recurrence with self-attention, which lets training run in parallel across sequence positions.',
+    start: 1200,
+    end: 1320,
+    page: 3
+  },
+  {
+    marker: 2,
+    paperId: 'p2',
+    excerpt: 'Protein structures were predicted from amino acid sequences with a median backbone accuracy of 0.96 angstroms.'
+  }
+]
+
+describe('citations', () => {
+  describe('buildCitations', () => {
+    it('numbers each paper\'s excerpts in context order, keeping passage locations', () => {
+      const results: SearchResult[] = [
+        {
+          id: 'p1',
+          paper: paper('p1'),
+          similarity: 0.9,
+          relevantExcerpts: ['first', 'second', 'third'],
+          passages: [
+            { content: 'first', similarity: 0.9, start: 0, end: 5, page: 1, sectionHeading: 'Introduction' },
+            { content: 'second', similarity: 0.8, start: 5, end: 11, page: 2 },
+            { content: 'third', similarity: 0.7, start: 11, end: 16 }
+          ]
+        },
+        { id: 'p2', paper: paper('p2'), similarity: 0.8, relevantExcerpts: ['overview sentence'] },
+        { id: 'p3', paper: paper('p3'), similarity: 0.7, relevantExcerpts: [] }
+      ]
+
+      expect(buildCitations(results)).toEqual([
+        { marker: 1, paperId: 'p1', excerpt: 'first', start: 0, end: 5, page: 1, sectionHeading: 'Introduction' },
+        { marker: 2, paperId: 'p1', excerpt: 'second', start: 5, end: 11, page: 2, sectionHeading: undefined },
+        { marker: 3, paperId: 'p2', excerpt: 'overview sentence', start: undefined, end: undefined, page: undefined, sectionHeading: undefined }
+      ])
+    })
+  })
+
+  describe('markers', () => {
+    it('parses single and grouped markers once each', () => {
+      expect(parseCitationMarkers('A [2]. B [1, 3][2]. C [4,5].')).toEqual([2, 1, 3, 4, 5])
+    })
+
+    it('strips markers and the space before them', () => {
+      expect(stripCitationMarkers('Attention is parallel [1]. Accuracy was high [1, 2].'))
+        .toBe('Attention is parallel. Accuracy was high.')
+    })
+  })
+
+  describe('verifyAnswer', () => {
+    it('accepts claims their cited excerpts support', () => {
+      const answer = 'The transformer uses self-attention instead of recurrence, so training runs in parallel [1]. ' +
+        'Structures were predicted from sequences with 0.96 angstrom accuracy. [2]'
+
+      expect(verifyAnswer(answer, citations)).toEqual([])
+    })
+
+    it('flags claims no excerpt supports, with their position in the answer', () => {
+      const answer = 'Self-attention lets training run in parallel [1]. The model was deployed in hospitals across Europe in 2019 [1].'
+
+      const [claim, ...rest] = verifyAnswer(answer, citations)
+
+      expect(rest).toHaveLength(0)
+      expect(claim).toMatchObject({ markers: [1], reason: 'unsupported' })
+      expect(answer.slice(claim.start, claim.end)).toBe(claim.text)
+      expect(claim.text).toBe('The model was deployed in hospitals across Europe in 2019 [1].')
+    })
+
+    it('flags claims that cite the wrong excerpt', () => {
+      const answer = 'Protein structures were predicted from amino acid sequences [1].'
+
+      expect(verifyAnswer(answer, citations)).toMatchObject([{ markers: [1], reason: 'miscited' }])
+    })
+
+    it('treats markers without an excerpt as uncited', () => {
+      const answer = 'Protein structures were predicted from amino acid sequences [7].'
+
+      expect(verifyAnswer(answer, citations)).toMatchObject([{ markers: [7], reason: 'miscited' }])
+    })
+
+    it('skips short sentences and questions', () => {
+      const answer = 'In short, yes. Would the hospital deployment in Europe scale to other continents?'
+
+      expect(verifyAnswer(answer, citations)).toEqual([])
+    })
+  })
+})
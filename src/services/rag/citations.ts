@@ -0,0 +1,163 @@
+import type { RAGCitation, RAGUnsupportedClaim, SearchPassage, SearchResult } from '@/types'
+
+// Excerpts of each paper given to the model, and so citable
+const EXCERPTS_PER_PAPER = 2
+
+// A sentence is checked as a claim when it has at least this many content words
+const MIN_CLAIM_TERMS = 4
+// Share of a claim's content words an excerpt must contain to support it
+const SUPPORT_THRESHOLD = 0.5
+
+// [3], [1, 4] or [1,4]
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+// Sentence ends, taking markers placed after the full stop with the sentence
+const SENTENCE_END_PATTERN = /[.!?]+((?:\s*\[\d+(?:\s*,\s*\d+)*\])*)(?=\s|$)|\n+/g
+
+// Function words, and words answers use to talk about their sources rather than make claims
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'also', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'being', 'between',
+  'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'each', 'for', 'from', 'had', 'has',
+  'have', 'how', 'however', 'if', 'in', 'into', 'is', 'it', 'its', 'may', 'might', 'more', 'most',
+  'not', 'of', 'on', 'one', 'or', 'other', 'over', 'such', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'under', 'was', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with', 'within', 'would',
+  'according', 'answer', 'authors', 'based', 'collection', 'context', 'excerpt', 'excerpts',
+  'information', 'mention', 'mentions', 'paper', 'papers', 'provided', 'report', 'reports',
+  'show', 'shows', 'source', 'sources', 'state', 'states', 'studies', 'study'
+])
+
+/**
+ * Number the excerpts given to the model, in the order the context lists them,
+ * so the answer can cite each one as [n]
+ */
+export function buildCitations(searchResults: SearchResult[]): RAGCitation[] {
+  const citations: RAGCitation[] = []
+
+  for (const result of searchResults) {
+    const excerpts: Array<Pick<SearchPassage, 'content'> & Partial<SearchPassage>> = result.passages?.length
+      ? result.passages
+      : result.relevantExcerpts.map(content => ({ content }))
+
+    for (const excerpt of excerpts.slice(0, EXCERPTS_PER_PAPER)) {
+      citations.push({
+        marker: citations.length + 1,
+        paperId: result.paper.id,
+        excerpt: excerpt.content,
+        start: excerpt.start,
+        end: excerpt.end,
+        page: excerpt.page,
+        sectionHeading: excerpt.sectionHeading
+      })
+    }
+  }
+
+  return citations
+}
+
+/**
+ * The citation numbers in a piece of text, in order of first appearance
+ */
+export function parseCitationMarkers(text: string): number[] {
+  const markers: number[] = []
+
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    for (const value of match[1].split(',')) {
+      const marker = Number(value.trim())
+      if (!markers.includes(marker)) {
+        markers.push(marker)
+      }
+    }
+  }
+
+  return markers
+}
+
+/**
+ * Text without its citation markers. Earlier answers are given to the model
+ * this way, since their numbers refer to excerpts it no longer sees.
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(/[ \t]*\[\d+(?:\s*,\s*\d+)*\]/g, '')
+}
+
+/**
+ * Check each claim of a generated answer against the retrieved excerpts.
+ * A claim no excerpt supports is `unsupported`; one that is supported, but
+ * not by the excerpts it cites, is `miscited`. Support is measured by the
+ * share of the claim's content words found in an excerpt, so paraphrases
+ * with different wording can be flagged too.
+ */
+export function verifyAnswer(answer: string, citations: RAGCitation[]): RAGUnsupportedClaim[] {
+  const excerptTerms = new Map(citations.map(citation => [citation.marker, new Set(extractTerms(citation.excerpt))]))
+  const unsupported: RAGUnsupportedClaim[] = []
+
+  for (const sentence of splitSentences(answer)) {
+    const terms = extractTerms(stripCitationMarkers(sentence.text))
+    if (terms.length < MIN_CLAIM_TERMS || sentence.text.trim().endsWith('?')) {
+      continue
+    }
+
+    const markers = parseCitationMarkers(sentence.text)
+    const supports = (marker: number) => {
+      const available = excerptTerms.get(marker)
+      return !!available && coverage(terms, available) >= SUPPORT_THRESHOLD
+    }
+
+    if (markers.some(supports)) {
+      continue
+    }
+
+    const supportedElsewhere = citations.some(citation => supports(citation.marker))
+    if (supportedElsewhere && markers.length === 0) {
+      continue
+    }
+
+    unsupported.push({
+      ...sentence,
+      markers,
+      reason: supportedElsewhere ? 'miscited' : 'unsupported'
+    })
+  }
+
+  return unsupported
+}
+
+function splitSentences(text: string): Array<{ text: string; start: number; end: number }> {
+  const sentences: Array<{ text: string; start: number; end: number }> = []
+  let start = 0
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end)
+    const leading = raw.length - raw.trimStart().length
+    const trimmed = raw.trim()
+    if (trimmed) {
+      sentences.push({ text: trimmed, start: start + leading, end: start + leading + trimmed.length })
+    }
+    start = end
+  }
+
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) {
+    push(match.index! + match[0].length)
+  }
+  push(text.length)
+
+  return sentences
+}
+
+function extractTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => (word.length > 2 || /^\d+$/.test(word)) && !STOPWORDS.has(word))
+    .map(stem)
+}
+
+// Crude suffix stripping, so "models" matches "model" and "trained" matches "training"
+function stem(word: string): string {
+  if (word.length <= 4) return word
+  return word.replace(/ies$/, 'y').replace(/(ing|ed|es|s)$/, '')
+}
+
+function coverage(terms: string[], available: Set<string>): number {
+  return terms.filter(term => available.has(term)).length / terms.length
+}
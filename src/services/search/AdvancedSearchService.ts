@@ -1,18 +1,46 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { getSupabaseClient } from '@/lib/database'
 import { TABLES } from '@/lib/database'
-import type { Paper, SearchFilters } from '@/types'
+import type { Paper, SearchFilters, SearchResult as VectorSearchResult } from '@/types'
+import { highlightSearchText, normalizeHighlights } from '@/services/evaluation/highlights'
+import { CollectionService } from '@/services/collections/CollectionService'
+import { reciprocalRankFusion, normalizeFusedScore } from './ranking'
+import { extractSearchTerms, highlightFields, highlightText, type FieldHighlight } from './highlighting'
+import {
+  parseSearchQuery,
+  mergeSearchFilters,
+  getQueryCompletionContext,
+  completeFieldNames,
+  formatFieldTerm,
+  replaceQueryTerm,
+  READING_STATUSES,
+  type QueryCompletionContext,
+  type QueryParseError
+} from './query-language'
 
 export interface AdvancedSearchFilters extends SearchFilters {
   journals?: string[]
   authors?: string[]
   dateRange?: { start: Date; end: Date }
+  doi?: string
 }
 
+export type SearchMode = 'lexical' | 'semantic' | 'hybrid'
+
 export interface SearchQuery {
+  // Free text plus optional field terms, e.g. `graph networks author:Kipf year:2017..`
   textQuery?: string
+  mode?: SearchMode
   filters: AdvancedSearchFilters
   sortBy: SortOption
   pagination: { page: number; limit: number }
+  // Only consider these papers (used to match newly added papers against saved searches)
+  paperIds?: string[]
+  // Only consider this user's papers; scopes searches made with the service-role client
+  createdBy?: string
+  // Rank every lexical match instead of the top candidates, so paging reaches all
+  // of them (exports). Semantic ranking still contributes its top candidates.
+  rankAllMatches?: boolean
 }
 
 export interface SearchResult {
@@ -21,6 +49,7 @@ export interface SearchResult {
   similarity: number
   relevantExcerpts: string[]
   matchedFields: string[]
+  highlights?: FieldHighlight[]
 }
 
 export interface SearchResponse {
@@ -30,6 +59,7 @@ export interface SearchResponse {
   currentPage: number
   query: SearchQuery
   suggestions?: string[]
+  parseErrors?: QueryParseError[]
 }
 
 export type SortOption = 
@@ -43,51 +73,97 @@ export type SortOption =
   | 'title_asc'
   | 'title_desc'
 
+export interface AdvancedSearchOptions {
+  // Used for semantic ranking when the library embeds with OpenAI
+  openaiApiKey?: string
+  // Defaults to the shared client; background jobs pass the admin client
+  supabase?: SupabaseClient
+}
+
+export const DEFAULT_SEARCH_MODE: SearchMode = 'hybrid'
+
+// Candidates taken from each ranker before filtering and fusion
+const RANK_CANDIDATES = 200
+
+// Column and direction of each sort order. Sorting by rating would need the
+// user_evaluations join, so it falls back to last modified like relevance.
+const SORT_ORDERS: Record<SortOption, { column: string; ascending: boolean; nullsLast?: boolean }> = {
+  relevance: { column: 'last_modified', ascending: false },
+  date_added_desc: { column: 'date_added', ascending: false },
+  date_added_asc: { column: 'date_added', ascending: true },
+  publication_year_desc: { column: 'publication_year', ascending: false, nullsLast: true },
+  publication_year_asc: { column: 'publication_year', ascending: true, nullsLast: true },
+  rating_desc: { column: 'last_modified', ascending: false },
+  rating_asc: { column: 'last_modified', ascending: true },
+  title_asc: { column: 'title', ascending: true },
+  title_desc: { column: 'title', ascending: false }
+}
+
+const PAPER_COLUMNS = `
+  id,
+  title,
+  authors,
+  journal,
+  publication_year,
+  abstract,
+  doi,
+  reading_status,
+  date_added,
+  date_read,
+  last_modified,
+  user_evaluations (
+    rating,
+    tags,
+    notes,
+    highlights
+  )
+`
+
 /**
- * Advanced Search Service with comprehensive filtering and sorting capabilities
+ * Advanced Search Service with comprehensive filtering and sorting capabilities.
+ * Text queries are ranked lexically (Postgres full-text rank), semantically (vector
+ * similarity) or both, fused with reciprocal rank fusion.
  */
 export class AdvancedSearchService {
-  private supabase = getSupabaseClient()
+  private supabase: SupabaseClient
+  private options: AdvancedSearchOptions
+
+  constructor(options: AdvancedSearchOptions = {}) {
+    this.options = options
+    this.supabase = options.supabase || getSupabaseClient()
+  }
 
   /**
    * Perform advanced search with filters and sorting
    */
   async searchPapers(query: SearchQuery): Promise<SearchResponse> {
     try {
-      const { textQuery, filters, sortBy, pagination } = query
+      const { sortBy, pagination } = query
+
+      // Field terms in the query (author:, year:, tag:...) become filters; invalid terms are skipped
+      const parsed = parseSearchQuery(query.textQuery || '')
+      const filters = mergeSearchFilters(query.filters, parsed.filters)
+      const parseErrors = parsed.errors.length > 0 ? parsed.errors : undefined
+      const paperIdFilter = intersectIds(
+        intersectIds(query.paperIds, await this.resolveEvaluationFilter(filters)),
+        await this.resolveCollectionFilter(filters)
+      )
+
+      if (parsed.text.trim()) {
+        const response = await this.searchRanked(query, parsed.text.trim(), filters, paperIdFilter)
+        return { ...response, parseErrors }
+      }
       
       // Build base query with joins for user evaluations
       let searchQuery = this.supabase
         .from(TABLES.PAPERS)
-        .select(`
-          id,
-          title,
-          authors,
-          journal,
-          publication_year,
-          abstract,
-          doi,
-          reading_status,
-          date_added,
-          date_read,
-          last_modified,
-          user_evaluations (
-            rating,
-            tags,
-            notes
-          )
-        `)
-
-      // Apply text search if provided
-      if (textQuery && textQuery.trim()) {
-        searchQuery = this.applyTextSearch(searchQuery, textQuery.trim())
-      }
+        .select(PAPER_COLUMNS)
 
       // Apply filters
-      searchQuery = this.applyFilters(searchQuery, filters)
+      searchQuery = this.applyFilters(searchQuery, filters, paperIdFilter, query.createdBy)
 
       // Get total count for pagination
-      const countQuery = this.buildCountQuery(textQuery, filters)
+      const countQuery = this.buildCountQuery(filters, paperIdFilter, query.createdBy)
       const { count: totalResults } = await countQuery
 
       // Apply sorting
@@ -106,7 +182,7 @@ export class AdvancedSearchService {
       }
 
       // Transform results
-      const searchResults = this.transformResults(papers || [], textQuery)
+      const searchResults = this.transformResults(papers || [])
 
       // Calculate pagination info
       const totalPages = Math.ceil((totalResults || 0) / pagination.limit)
@@ -117,7 +193,8 @@ export class AdvancedSearchService {
         totalPages,
         currentPage: pagination.page,
         query,
-        suggestions: await this.getSearchSuggestions(textQuery)
+        suggestions: [],
+        parseErrors
       }
 
     } catch (error) {
@@ -127,14 +204,154 @@ export class AdvancedSearchService {
   }
 
   /**
-   * Get search suggestions based on partial query
+   * Rank candidates for a text query, then filter, sort and paginate them
+   */
+  private async searchRanked(
+    query: SearchQuery,
+    textQuery: string,
+    filters: AdvancedSearchFilters,
+    paperIdFilter: string[] | null
+  ): Promise<SearchResponse> {
+    const { sortBy, pagination } = query
+    const mode = query.mode || DEFAULT_SEARCH_MODE
+
+    const [lexicalIds, semanticHits] = await Promise.all([
+      mode === 'semantic' ? Promise.resolve([]) : this.rankLexical(textQuery, paperIdFilter, query),
+      mode === 'lexical' ? Promise.resolve([]) : this.rankSemantic(textQuery, paperIdFilter, query),
+    ])
+
+    const rankerCount = mode === 'hybrid' ? 2 : 1
+    const fused = reciprocalRankFusion([lexicalIds, semanticHits.map(hit => hit.id)])
+    const semanticById = new Map(semanticHits.map(hit => [hit.id, hit]))
+
+    // Filters still run in the database, restricted to the candidates a chunk at a time
+    const candidateIds = Array.from(fused.keys())
+    const papers: any[] = []
+    for (let start = 0; start < candidateIds.length; start += RANK_CANDIDATES) {
+      let searchQuery = this.supabase
+        .from(TABLES.PAPERS)
+        .select(PAPER_COLUMNS)
+        .in('id', candidateIds.slice(start, start + RANK_CANDIDATES))
+
+      searchQuery = this.applyFilters(searchQuery, filters, paperIdFilter, query.createdBy)
+
+      const { data, error } = await searchQuery
+      if (error) {
+        throw new Error(`Search query failed: ${error.message}`)
+      }
+      papers.push(...(data || []))
+    }
+
+    if (sortBy === 'relevance') {
+      papers.sort((a, b) => (fused.get(b.id) || 0) - (fused.get(a.id) || 0))
+    } else {
+      papers.sort(compareBySortOrder(sortBy))
+    }
+
+    const offset = (pagination.page - 1) * pagination.limit
+    const pagePapers = papers.slice(offset, offset + pagination.limit)
+
+    const results = this.transformResults(pagePapers, textQuery, paperId => {
+      // Semantic-only results keep the vector similarity, which is meaningful on its own
+      if (mode === 'semantic') {
+        return semanticById.get(paperId)?.similarity || 0
+      }
+      return normalizeFusedScore(fused.get(paperId) || 0, rankerCount)
+    }, semanticById)
+
+    return {
+      results,
+      totalResults: papers.length,
+      totalPages: Math.ceil(papers.length / pagination.limit),
+      currentPage: pagination.page,
+      query,
+      suggestions: await this.getSearchSuggestions(textQuery)
+    }
+  }
+
+  /**
+   * Paper ids ordered by weighted full-text rank over title, tags, abstract, reader highlights and notes
+   */
+  private async rankLexical(
+    textQuery: string,
+    paperIdFilter: string[] | null,
+    { createdBy, rankAllMatches }: SearchQuery
+  ): Promise<string[]> {
+    const { data, error } = await this.supabase.rpc('search_papers_lexical', {
+      search_query: textQuery,
+      limit_count: rankAllMatches ? null : RANK_CANDIDATES,
+      filter_paper_ids: paperIdFilter,
+      filter_created_by: createdBy || null
+    })
+
+    if (error) {
+      throw new Error(`Lexical search failed: ${error.message}`)
+    }
+
+    return (data || []).map((row: { paper_id: string }) => row.paper_id)
+  }
+
+  /**
+   * Papers ordered by vector similarity of their best-matching chunk (server-side only).
+   * The paper id and owner filters apply in the match RPC, so the candidates are the
+   * best matches among those papers rather than a filtered slice of the whole library.
+   * Falls back to no semantic candidates when embeddings are unavailable.
    */
-  async getSearchSuggestions(partialQuery?: string): Promise<string[]> {
+  private async rankSemantic(
+    textQuery: string,
+    paperIdFilter: string[] | null,
+    { createdBy }: SearchQuery
+  ): Promise<VectorSearchResult[]> {
+    if (typeof window !== 'undefined') {
+      return []
+    }
+
+    const filter: Record<string, unknown> = {}
+    if (paperIdFilter) filter.paper_ids = paperIdFilter
+    if (createdBy) filter.created_by = createdBy
+
+    try {
+      const { SupabaseVectorService } = await import('@/services/vector/SupabaseVectorService')
+      const vectorService = new SupabaseVectorService(this.options.openaiApiKey)
+      return await vectorService.semanticSearch(textQuery, { matchCount: RANK_CANDIDATES, filter })
+    } catch (error) {
+      console.warn('Semantic ranking unavailable, using lexical ranking only:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get search suggestions based on partial query. Completes field names
+   * (`au` -> `author:`) and field values (`tag:ml` -> `tag:ml-theory`) for the
+   * term at the cursor; plain queries are matched against titles and journals.
+   * Suggestions are full queries with the completed term substituted.
+   */
+  async getSearchSuggestions(partialQuery?: string, cursor?: number): Promise<string[]> {
     if (!partialQuery || partialQuery.length < 2) {
       return []
     }
 
     try {
+      const context = getQueryCompletionContext(partialQuery, cursor)
+      if (context?.field) {
+        return await this.getFieldValueSuggestions(partialQuery, context)
+      }
+
+      const suggestions: string[] = []
+
+      // Field name completions for the term being typed
+      if (context && !context.negated) {
+        completeFieldNames(context.prefix).forEach(info => {
+          suggestions.push(replaceQueryTerm(partialQuery, context, `${info.name}:`))
+        })
+      }
+
+      // Title/journal matches only make sense for plain text queries
+      const parsed = parseSearchQuery(partialQuery)
+      if (Object.keys(parsed.filters).length > 0 || parsed.errors.length > 0) {
+        return suggestions
+      }
+
       // Get suggestions from titles, journals, and authors
       const { data: titleSuggestions } = await this.supabase
         .from(TABLES.PAPERS)
@@ -149,8 +366,6 @@ export class AdvancedSearchService {
         .not('journal', 'is', null)
         .limit(3)
 
-      const suggestions: string[] = []
-
       // Add title suggestions
       titleSuggestions?.forEach(item => {
         if (item.title) {
@@ -173,6 +388,39 @@ export class AdvancedSearchService {
     }
   }
 
+  /**
+   * Complete the value of a field term from the library's own values
+   */
+  private async getFieldValueSuggestions(partialQuery: string, context: QueryCompletionContext): Promise<string[]> {
+    const field = context.field!
+    let values: string[] = []
+
+    switch (field) {
+      case 'status':
+        values = READING_STATUSES
+        break
+      case 'rating':
+        values = ['5', '>=4', '>=3', '<3']
+        break
+      case 'author':
+      case 'journal':
+      case 'tag': {
+        const options = await this.getFilterOptions()
+        values = field === 'author' ? options.authors : field === 'journal' ? options.journals : options.tags
+        break
+      }
+      default:
+        return []
+    }
+
+    const prefix = context.prefix.toLowerCase()
+    return values
+      .filter(value => value.toLowerCase().includes(prefix) && value !== context.prefix)
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(prefix)) - Number(!b.toLowerCase().startsWith(prefix)))
+      .slice(0, 8)
+      .map(value => replaceQueryTerm(partialQuery, context, formatFieldTerm(field, value)))
+  }
+
   /**
    * Get available filter options for UI
    */
@@ -242,33 +490,16 @@ export class AdvancedSearchService {
   }
 
   /**
-   * Apply text search to query
+   * Apply filters to search query
    */
-  private applyTextSearch(query: any, textQuery: string) {
-    const searchTerms = textQuery.toLowerCase().split(/\s+/).filter(term => term.length > 0)
-    
-    if (searchTerms.length === 0) {
-      return query
-    }
+  private applyFilters(query: any, filters: AdvancedSearchFilters, paperIdFilter: string[] | null = null, createdBy?: string) {
+    // Archived papers are never searched
+    query = query.is('archived_at', null)
 
-    // Build OR conditions for text search across multiple fields
-    const orConditions = searchTerms.flatMap(term => {
-      const escapedTerm = `%${term}%`
-      return [
-        `title.ilike.${escapedTerm}`,
-        `abstract.ilike.${escapedTerm}`,
-        `journal.ilike.${escapedTerm}`,
-        `authors.cs.{"${term}"}`
-      ]
-    })
-
-    return query.or(orConditions.join(','))
-  }
+    if (createdBy) {
+      query = query.eq('created_by', createdBy)
+    }
 
-  /**
-   * Apply filters to search query
-   */
-  private applyFilters(query: any, filters: AdvancedSearchFilters) {
     // Publication year filter
     if (filters.publicationYear) {
       if (filters.publicationYear.min) {
@@ -296,6 +527,16 @@ export class AdvancedSearchService {
       query = query.or(authorConditions.join(','))
     }
 
+    // DOI filter (case-insensitive exact match)
+    if (filters.doi) {
+      query = query.ilike('doi', filters.doi.replace(/[\\%_]/g, '\\$&'))
+    }
+
+    // Tag/rating filters (resolved against user evaluations) and explicit paper restrictions
+    if (paperIdFilter) {
+      query = query.in('id', paperIdFilter)
+    }
+
     // Date range filter (date_added)
     if (filters.dateRange) {
       if (filters.dateRange.start) {
@@ -309,48 +550,68 @@ export class AdvancedSearchService {
     return query
   }
 
+  /**
+   * Paper ids whose evaluation matches the tag (any of) and rating filters,
+   * or null when neither filter is set
+   */
+  private async resolveEvaluationFilter(filters: AdvancedSearchFilters): Promise<string[] | null> {
+    const { tags, rating } = filters
+    if (!tags?.length && !rating?.min && !rating?.max) {
+      return null
+    }
+
+    let query = this.supabase
+      .from(TABLES.USER_EVALUATIONS)
+      .select('paper_id')
+
+    if (tags?.length) {
+      query = query.overlaps('tags', tags)
+    }
+    if (rating?.min) {
+      query = query.gte('rating', rating.min)
+    }
+    if (rating?.max) {
+      query = query.lte('rating', rating.max)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Evaluation filter failed: ${error.message}`)
+    }
+
+    return Array.from(new Set((data || []).map((row: { paper_id: string }) => row.paper_id)))
+  }
+
+  /**
+   * Paper ids in any of the filtered collections or their subcollections,
+   * or null when no collection filter is set
+   */
+  private async resolveCollectionFilter(filters: AdvancedSearchFilters): Promise<string[] | null> {
+    if (!filters.collectionIds?.length) {
+      return null
+    }
+
+    return new CollectionService(this.supabase).getPaperIds(filters.collectionIds)
+  }
+
   /**
    * Apply sorting to search query
    */
   private applySorting(query: any, sortBy: SortOption) {
-    switch (sortBy) {
-      case 'date_added_desc':
-        return query.order('date_added', { ascending: false })
-      case 'date_added_asc':
-        return query.order('date_added', { ascending: true })
-      case 'publication_year_desc':
-        return query.order('publication_year', { ascending: false, nullsLast: true })
-      case 'publication_year_asc':
-        return query.order('publication_year', { ascending: true, nullsLast: true })
-      case 'title_asc':
-        return query.order('title', { ascending: true })
-      case 'title_desc':
-        return query.order('title', { ascending: false })
-      case 'rating_desc':
-        // Note: This would require a more complex query with user_evaluations join
-        return query.order('last_modified', { ascending: false })
-      case 'rating_asc':
-        return query.order('last_modified', { ascending: true })
-      case 'relevance':
-      default:
-        return query.order('last_modified', { ascending: false })
-    }
+    const { column, ...options } = SORT_ORDERS[sortBy] || SORT_ORDERS.relevance
+    return query.order(column, options)
   }
 
   /**
    * Build count query for pagination
    */
-  private buildCountQuery(textQuery?: string, filters?: AdvancedSearchFilters) {
+  private buildCountQuery(filters?: AdvancedSearchFilters, paperIdFilter: string[] | null = null, createdBy?: string) {
     let countQuery = this.supabase
       .from(TABLES.PAPERS)
       .select('*', { count: 'exact', head: true })
 
-    if (textQuery && textQuery.trim()) {
-      countQuery = this.applyTextSearch(countQuery, textQuery.trim())
-    }
-
     if (filters) {
-      countQuery = this.applyFilters(countQuery, filters)
+      countQuery = this.applyFilters(countQuery, filters, paperIdFilter, createdBy)
     }
 
     return countQuery
@@ -359,19 +620,16 @@ export class AdvancedSearchService {
   /**
    * Transform database results to SearchResult format
    */
-  private transformResults(papers: any[], textQuery?: string): SearchResult[] {
-    const searchTerms = textQuery ? 
-      textQuery.toLowerCase().split(/\s+/).filter(term => term.length > 0) : []
+  private transformResults(
+    papers: any[],
+    textQuery?: string,
+    scoreFor: (paperId: string) => number = () => 0.5,
+    semanticById: Map<string, VectorSearchResult> = new Map()
+  ): SearchResult[] {
+    const searchTerms = textQuery ? extractSearchTerms(textQuery) : []
 
     return papers.map(paper => {
-      // Calculate similarity score
-      const similarity = this.calculateSimilarity(paper, searchTerms)
-      
-      // Extract relevant excerpts
-      const relevantExcerpts = this.extractRelevantExcerpts(paper, searchTerms)
-      
-      // Identify matched fields
-      const matchedFields = this.identifyMatchedFields(paper, searchTerms)
+      const highlights = this.buildHighlights(paper, searchTerms, semanticById.get(paper.id))
 
       // Transform paper data
       const transformedPaper: Paper = {
@@ -391,139 +649,67 @@ export class AdvancedSearchService {
       return {
         id: paper.id,
         paper: transformedPaper,
-        similarity,
-        relevantExcerpts,
-        matchedFields
+        similarity: scoreFor(paper.id),
+        relevantExcerpts: highlights
+          .filter(highlight => highlight.field !== 'title')
+          .map(highlight => highlight.excerpt)
+          .slice(0, 3),
+        matchedFields: Array.from(new Set(highlights.map(highlight => highlight.field))),
+        highlights
       }
     })
   }
 
   /**
-   * Calculate similarity score based on term matches
+   * Per-field highlighted excerpts; full-text passages come from the semantic ranker
    */
-  private calculateSimilarity(paper: any, searchTerms: string[]): number {
-    if (searchTerms.length === 0) return 0.5
-
-    let score = 0
-    const weights = {
-      title: 3,
-      abstract: 2,
-      journal: 1,
-      authors: 1
-    }
-
-    // Title matches
-    const titleMatches = searchTerms.filter(term => 
-      paper.title?.toLowerCase().includes(term)).length
-    score += (titleMatches / searchTerms.length) * weights.title
-
-    // Abstract matches
-    const abstractMatches = searchTerms.filter(term => 
-      paper.abstract?.toLowerCase().includes(term)).length
-    score += (abstractMatches / searchTerms.length) * weights.abstract
-
-    // Journal matches
-    const journalMatches = searchTerms.filter(term => 
-      paper.journal?.toLowerCase().includes(term)).length
-    score += (journalMatches / searchTerms.length) * weights.journal
-
-    // Author matches
-    const authorMatches = searchTerms.filter(term => 
-      paper.authors?.some((author: string) => 
-        author.toLowerCase().includes(term))).length
-    score += (authorMatches / searchTerms.length) * weights.authors
-
-    const maxScore = Object.values(weights).reduce((sum, weight) => sum + weight, 0)
-    return Math.min(score / maxScore, 1.0)
-  }
-
-  /**
-   * Extract relevant text excerpts containing search terms
-   */
-  private extractRelevantExcerpts(paper: any, searchTerms: string[]): string[] {
-    const excerpts: string[] = []
-    
-    if (searchTerms.length === 0) return excerpts
-
-    // Extract from title
-    if (paper.title) {
-      const titleExcerpts = this.extractExcerpts(paper.title, searchTerms, 100)
-      excerpts.push(...titleExcerpts)
-    }
-
-    // Extract from abstract
-    if (paper.abstract) {
-      const abstractExcerpts = this.extractExcerpts(paper.abstract, searchTerms, 150)
-      excerpts.push(...abstractExcerpts)
-    }
-
-    // Extract from journal
-    if (paper.journal && searchTerms.some(term => 
-        paper.journal.toLowerCase().includes(term))) {
-      excerpts.push(paper.journal)
-    }
+  private buildHighlights(paper: any, searchTerms: string[], semanticHit?: VectorSearchResult): FieldHighlight[] {
+    if (searchTerms.length === 0 && !semanticHit) return []
+
+    const evaluations: Array<{ tags?: string[]; notes?: string; highlights?: unknown }> = paper.user_evaluations || []
+    const highlights = highlightFields({
+      title: paper.title,
+      authors: paper.authors,
+      journal: paper.journal,
+      abstract: paper.abstract,
+      tags: evaluations.flatMap(evaluation => evaluation.tags || []),
+      notes: evaluations.map(evaluation => evaluation.notes).filter(Boolean).join(' '),
+      highlights: evaluations
+        .map(evaluation => highlightSearchText(normalizeHighlights(evaluation.highlights)))
+        .filter(Boolean)
+        .join('\n')
+    }, searchTerms)
+
+    const passages = semanticHit?.passages || []
+    passages.slice(0, 2).forEach(passage => {
+      const excerpt = highlightText(passage.content, searchTerms, 240)
+        || (passage.content.length > 240 ? `${passage.content.slice(0, 240)}...` : passage.content)
+      highlights.push({ field: 'full_text', excerpt })
+    })
 
-    return excerpts.slice(0, 3) // Limit to 3 excerpts
+    return highlights
   }
+}
 
-  /**
-   * Extract text excerpts around search terms
-   */
-  private extractExcerpts(text: string, searchTerms: string[], maxLength: number = 150): string[] {
-    const excerpts: string[] = []
-    const lowerText = text.toLowerCase()
-    
-    for (const term of searchTerms) {
-      const index = lowerText.indexOf(term.toLowerCase())
-      if (index !== -1) {
-        const start = Math.max(0, index - Math.floor(maxLength / 2))
-        const end = Math.min(text.length, start + maxLength)
-        
-        let excerpt = text.substring(start, end)
-        
-        if (start > 0) excerpt = '...' + excerpt
-        if (end < text.length) excerpt = excerpt + '...'
-        
-        if (!excerpts.includes(excerpt)) {
-          excerpts.push(excerpt)
-        }
-        
-        if (excerpts.length >= 2) break
-      }
-    }
-    
-    return excerpts
-  }
-
-  /**
-   * Identify which fields matched the search terms
-   */
-  private identifyMatchedFields(paper: any, searchTerms: string[]): string[] {
-    const matchedFields: string[] = []
-    
-    if (searchTerms.length === 0) return matchedFields
-
-    if (paper.title && searchTerms.some(term => 
-        paper.title.toLowerCase().includes(term))) {
-      matchedFields.push('title')
-    }
-
-    if (paper.abstract && searchTerms.some(term => 
-        paper.abstract.toLowerCase().includes(term))) {
-      matchedFields.push('abstract')
-    }
-
-    if (paper.journal && searchTerms.some(term => 
-        paper.journal.toLowerCase().includes(term))) {
-      matchedFields.push('journal')
-    }
-
-    if (paper.authors && searchTerms.some(term => 
-        paper.authors.some((author: string) => 
-          author.toLowerCase().includes(term)))) {
-      matchedFields.push('authors')
-    }
+// Intersect optional id restrictions; null means unrestricted
+function intersectIds(a: string[] | undefined | null, b: string[] | null): string[] | null {
+  if (!a) return b
+  if (!b) return a
+  const allowed = new Set(b)
+  return a.filter(id => allowed.has(id))
+}
 
-    return matchedFields
+// Compare paper rows the way the database orders them for a sort option:
+// NULLs come last ascending and first descending unless nullsLast is set
+function compareBySortOrder(sortBy: SortOption) {
+  const { column, ascending, nullsLast } = SORT_ORDERS[sortBy] || SORT_ORDERS.relevance
+  return (a: Record<string, any>, b: Record<string, any>): number => {
+    const x = a[column]
+    const y = b[column]
+    if (x === y) return 0
+    if (x === null || x === undefined) return nullsLast || ascending ? 1 : -1
+    if (y === null || y === undefined) return nullsLast || ascending ? -1 : 1
+    const order = x < y ? -1 : 1
+    return ascending ? order : -order
   }
-}
\ No newline at end of file
+}
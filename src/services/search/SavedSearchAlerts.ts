@@ -0,0 +1,167 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient, TABLES } from '@/lib/database'
+import { getNotificationService } from '@/services/notifications/NotificationService'
+import { AdvancedSearchService } from './AdvancedSearchService'
+import { SavedSearchService, type SavedSearch } from './SavedSearchService'
+
+export interface SavedSearchMatch {
+  savedSearch: SavedSearch
+  paperIds: string[]
+}
+
+export interface SavedSearchAlertResult {
+  checked: number
+  matches: SavedSearchMatch[]
+}
+
+type NotifyFn = (userId: string, match: SavedSearchMatch, titles: Map<string, string>) => Promise<void>
+
+export interface SavedSearchAlertOptions {
+  supabase?: SupabaseClient
+  notify?: NotifyFn
+  // Searches an earlier attempt at the same check already notified; skipped
+  notifiedSearchIds?: string[]
+  // Called once a search's owner is notified, to record the attempt's progress
+  onNotified?: (savedSearchId: string) => Promise<void>
+}
+
+/**
+ * Some saved searches could not be checked; the others were checked and
+ * notified. Retrying with their ids as `notifiedSearchIds` checks only the rest.
+ */
+export class SavedSearchAlertError extends Error {
+  constructor(public readonly failedSearchIds: string[], cause: unknown) {
+    super(
+      `Failed to check ${failedSearchIds.length} saved search${failedSearchIds.length === 1 ? '' : 'es'}: ` +
+      (cause instanceof Error ? cause.message : String(cause))
+    )
+    this.name = 'SavedSearchAlertError'
+  }
+}
+
+/**
+ * Re-run the alerting saved searches of the owners of newly added papers,
+ * restricted to those papers, and notify owners whose searches match. Each
+ * search is recorded and marked as soon as its owner is notified. When any
+ * search fails the others are still checked, then a SavedSearchAlertError is
+ * thrown so the check can be retried.
+ */
+export async function checkSavedSearchAlerts(
+  paperIds: string[],
+  {
+    supabase = getSupabaseAdminClient(),
+    notify = notifySavedSearchMatch,
+    notifiedSearchIds = [],
+    onNotified
+  }: SavedSearchAlertOptions = {}
+): Promise<SavedSearchAlertResult> {
+  const uniqueIds = Array.from(new Set(paperIds))
+  if (uniqueIds.length === 0) {
+    return { checked: 0, matches: [] }
+  }
+
+  const { data: papers, error } = await supabase
+    .from(TABLES.PAPERS)
+    .select('id, title, created_by')
+    .in('id', uniqueIds)
+    .is('archived_at', null)
+
+  if (error) {
+    throw new Error(`Failed to load new papers: ${error.message}`)
+  }
+
+  const papersByOwner = new Map<string, string[]>()
+  const titles = new Map<string, string>()
+  for (const paper of papers || []) {
+    titles.set(paper.id, paper.title)
+    if (!paper.created_by) continue
+    papersByOwner.set(paper.created_by, [...(papersByOwner.get(paper.created_by) || []), paper.id])
+  }
+
+  const savedSearchService = new SavedSearchService(supabase)
+  const savedSearches = await savedSearchService.listAlertingSearches(Array.from(papersByOwner.keys()))
+  const searchService = new AdvancedSearchService({ supabase })
+  const alreadyNotified = new Set(notifiedSearchIds)
+  const matches: SavedSearchMatch[] = []
+  const failedSearchIds: string[] = []
+  let lastError: unknown
+
+  for (const savedSearch of savedSearches) {
+    if (alreadyNotified.has(savedSearch.id)) continue
+
+    const ownerPaperIds = papersByOwner.get(savedSearch.userId) || []
+    try {
+      const response = await searchService.searchPapers({
+        textQuery: savedSearch.query || undefined,
+        filters: savedSearch.filters,
+        sortBy: savedSearch.sortBy,
+        pagination: { page: 1, limit: ownerPaperIds.length },
+        paperIds: ownerPaperIds
+      })
+
+      const matchedIds = response.results.map(result => result.paper.id)
+      if (matchedIds.length === 0) continue
+
+      const match = { savedSearch, paperIds: matchedIds }
+      await notify(savedSearch.userId, match, titles)
+      matches.push(match)
+      // Recorded before anything else can fail, so a retry never notifies twice
+      await onNotified?.(savedSearch.id)
+      await savedSearchService.markMatched([savedSearch.id])
+    } catch (error) {
+      console.error(`Failed to check saved search ${savedSearch.id}:`, error)
+      failedSearchIds.push(savedSearch.id)
+      lastError = error
+    }
+  }
+
+  if (failedSearchIds.length > 0) {
+    throw new SavedSearchAlertError(failedSearchIds, lastError)
+  }
+
+  return { checked: savedSearches.length, matches }
+}
+
+/**
+ * Queue a check of saved search alerts after papers are added; without Redis
+ * the check runs before this returns. Server-only; failures are logged and
+ * never surface to the caller.
+ */
+export async function scheduleSavedSearchAlerts(paperIds: string[]): Promise<void> {
+  if (typeof window !== 'undefined' || paperIds.length === 0) {
+    return
+  }
+
+  try {
+    // Loaded lazily, since the queue runs the checks of this module
+    const { getSavedSearchAlertQueue } = await import('@/services/background')
+    await getSavedSearchAlertQueue().enqueue(paperIds)
+  } catch (error) {
+    console.error('Failed to schedule saved search alerts:', error)
+  }
+}
+
+async function notifySavedSearchMatch(
+  userId: string,
+  { savedSearch, paperIds }: SavedSearchMatch,
+  titles: Map<string, string>
+): Promise<void> {
+  const notificationService = await getNotificationService()
+  if (!notificationService) return
+
+  const message = paperIds.length === 1
+    ? `"${titles.get(paperIds[0]) || 'A new paper'}" matches your saved search "${savedSearch.name}".`
+    : `${paperIds.length} new papers match your saved search "${savedSearch.name}".`
+
+  await notificationService.sendNotification(userId, {
+    type: 'saved_search_match',
+    title: 'New Papers Match Your Saved Search',
+    message,
+    data: {
+      savedSearchId: savedSearch.id,
+      savedSearchName: savedSearch.name,
+      paperIds
+    },
+    priority: 'low'
+  })
+}
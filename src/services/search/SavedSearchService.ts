@@ -0,0 +1,264 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '@/lib/database'
+import type { AdvancedSearchFilters, SortOption } from './AdvancedSearchService'
+import { parseSearchQuery, type QueryParseError } from './query-language'
+
+export interface SavedSearch {
+  id: string
+  userId: string
+  name: string
+  query: string
+  filters: AdvancedSearchFilters
+  sortBy: SortOption
+  notifyOnMatch: boolean
+  lastMatchedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SavedSearchInput {
+  name: string
+  query?: string
+  filters?: AdvancedSearchFilters
+  sortBy?: SortOption
+  notifyOnMatch?: boolean
+}
+
+export const SORT_OPTIONS: SortOption[] = [
+  'relevance',
+  'date_added_desc',
+  'date_added_asc',
+  'publication_year_desc',
+  'publication_year_asc',
+  'rating_desc',
+  'rating_asc',
+  'title_asc',
+  'title_desc'
+]
+
+const SAVED_SEARCHES_TABLE = 'saved_searches'
+const MAX_NAME_LENGTH = 255
+
+export class SavedSearchValidationError extends Error {
+  readonly queryErrors: QueryParseError[]
+
+  constructor(message: string, queryErrors: QueryParseError[] = []) {
+    super(message)
+    this.name = 'SavedSearchValidationError'
+    this.queryErrors = queryErrors
+  }
+}
+
+/**
+ * Saved searches (name, query, filters, sort) stored per user. Every method is
+ * scoped by user id, so it is safe with the service-role client used by API routes.
+ */
+export class SavedSearchService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  async listSavedSearches(userId: string): Promise<SavedSearch[]> {
+    const { data, error } = await this.supabase
+      .from(SAVED_SEARCHES_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('name')
+
+    if (error) {
+      throw new Error(`Failed to load saved searches: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapRow(row))
+  }
+
+  /**
+   * Saved searches of several users that want new-match notifications
+   */
+  async listAlertingSearches(userIds: string[]): Promise<SavedSearch[]> {
+    if (userIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from(SAVED_SEARCHES_TABLE)
+      .select('*')
+      .in('user_id', userIds)
+      .eq('notify_on_match', true)
+
+    if (error) {
+      throw new Error(`Failed to load saved searches: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapRow(row))
+  }
+
+  async getSavedSearch(userId: string, id: string): Promise<SavedSearch | null> {
+    const { data, error } = await this.supabase
+      .from(SAVED_SEARCHES_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null
+      }
+      throw new Error(`Failed to load saved search: ${error.message}`)
+    }
+
+    return this.mapRow(data)
+  }
+
+  async createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    validateSavedSearchInput(input)
+
+    const { data, error } = await this.supabase
+      .from(SAVED_SEARCHES_TABLE)
+      .insert({
+        user_id: userId,
+        name: input.name.trim(),
+        query: input.query?.trim() || '',
+        filters: input.filters || {},
+        sort_by: input.sortBy || 'relevance',
+        notify_on_match: input.notifyOnMatch ?? true
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw this.toWriteError(error, input.name)
+    }
+
+    return this.mapRow(data)
+  }
+
+  /**
+   * Update some fields of a saved search; returns null when it does not exist
+   */
+  async updateSavedSearch(userId: string, id: string, updates: Partial<SavedSearchInput>): Promise<SavedSearch | null> {
+    validateSavedSearchInput(updates, true)
+
+    const row: Record<string, unknown> = {}
+    if (updates.name !== undefined) row.name = updates.name.trim()
+    if (updates.query !== undefined) row.query = updates.query.trim()
+    if (updates.filters !== undefined) row.filters = updates.filters
+    if (updates.sortBy !== undefined) row.sort_by = updates.sortBy
+    if (updates.notifyOnMatch !== undefined) row.notify_on_match = updates.notifyOnMatch
+
+    const { data, error } = await this.supabase
+      .from(SAVED_SEARCHES_TABLE)
+      .update(row)
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null
+      }
+      throw this.toWriteError(error, updates.name)
+    }
+
+    return this.mapRow(data)
+  }
+
+  /**
+   * Delete a saved search; returns false when it does not exist
+   */
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(SAVED_SEARCHES_TABLE)
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete saved search: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  async markMatched(ids: string[], matchedAt: Date = new Date()): Promise<void> {
+    if (ids.length === 0) return
+
+    const { error } = await this.supabase
+      .from(SAVED_SEARCHES_TABLE)
+      .update({ last_matched_at: matchedAt.toISOString() })
+      .in('id', ids)
+
+    if (error) {
+      throw new Error(`Failed to update saved searches: ${error.message}`)
+    }
+  }
+
+  private toWriteError(error: { code?: string; message: string }, name?: string): Error {
+    // 23505: unique_violation on (user_id, name)
+    if (error.code === '23505') {
+      return new SavedSearchValidationError(`A saved search named "${name?.trim()}" already exists`)
+    }
+    return new Error(`Failed to save search: ${error.message}`)
+  }
+
+  private mapRow(row: any): SavedSearch {
+    const filters: AdvancedSearchFilters = { ...(row.filters || {}) }
+    // JSONB stores dates as strings
+    if (filters.dateRange) {
+      filters.dateRange = {
+        start: filters.dateRange.start && new Date(filters.dateRange.start),
+        end: filters.dateRange.end && new Date(filters.dateRange.end)
+      }
+    }
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      query: row.query || '',
+      filters,
+      sortBy: row.sort_by,
+      notifyOnMatch: row.notify_on_match,
+      lastMatchedAt: row.last_matched_at ? new Date(row.last_matched_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+}
+
+/**
+ * Reject unnamed searches, unknown sort options and queries with syntax errors
+ */
+export function validateSavedSearchInput(input: Partial<SavedSearchInput>, partial = false): void {
+  if (!partial || input.name !== undefined) {
+    const name = input.name?.trim()
+    if (!name) {
+      throw new SavedSearchValidationError('Saved search name is required')
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new SavedSearchValidationError(`Saved search name must be at most ${MAX_NAME_LENGTH} characters`)
+    }
+  }
+
+  if (input.sortBy !== undefined && !SORT_OPTIONS.includes(input.sortBy)) {
+    throw new SavedSearchValidationError(`Invalid sort option: ${input.sortBy}`)
+  }
+
+  if (input.filters !== undefined && (typeof input.filters !== 'object' || input.filters === null || Array.isArray(input.filters))) {
+    throw new SavedSearchValidationError('Filters must be an object')
+  }
+
+  if (input.query) {
+    const { errors } = parseSearchQuery(input.query)
+    if (errors.length > 0) {
+      throw new SavedSearchValidationError('Search query has syntax errors', errors)
+    }
+  }
+
+  if (!partial && !input.query?.trim() && Object.keys(input.filters || {}).length === 0) {
+    throw new SavedSearchValidationError('A saved search needs a query or at least one filter')
+  }
+}
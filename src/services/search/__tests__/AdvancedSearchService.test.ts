@@ -9,6 +9,7 @@ const mockSupabase = {
   lte: jest.fn(() => mockSupabase),
   in: jest.fn(() => mockSupabase),
   not: jest.fn(() => mockSupabase),
+  is: jest.fn(() => mockSupabase),
   order: jest.fn(() => mockSupabase),
   range: jest.fn(() => mockSupabase),
   ilike: jest.fn(() => mockSupabase),
@@ -0,0 +1,178 @@
+import { checkSavedSearchAlerts, SavedSearchAlertError } from '../SavedSearchAlerts'
+import { validateSavedSearchInput, SavedSearchValidationError } from '../SavedSearchService'
+import type { SavedSearch } from '../SavedSearchService'
+
+const mockSearchPapers = jest.fn()
+const mockListAlertingSearches = jest.fn()
+const mockMarkMatched = jest.fn()
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  getSupabaseAdminClient: jest.fn(),
+  TABLES: { PAPERS: 'papers' }
+}))
+
+jest.mock('@/services/notifications/NotificationService', () => ({
+  getNotificationService: jest.fn()
+}))
+
+jest.mock('../AdvancedSearchService', () => ({
+  AdvancedSearchService: jest.fn().mockImplementation(() => ({ searchPapers: mockSearchPapers }))
+}))
+
+jest.mock('../SavedSearchService', () => ({
+  ...jest.requireActual('../SavedSearchService'),
+  SavedSearchService: jest.fn().mockImplementation(() => ({
+    listAlertingSearches: mockListAlertingSearches,
+    markMatched: mockMarkMatched
+  }))
+}))
+
+function mockSupabase(papers: Array<{ id: string; title: string; created_by: string | null }>) {
+  const query: any = {
+    select: jest.fn(() => query),
+    in: jest.fn(() => query),
+    is: jest.fn(async () => ({ data: papers, error: null }))
+  }
+  return { from: () => query, query } as any
+}
+
+function savedSearch(overrides: Partial<SavedSearch>): SavedSearch {
+  return {
+    id: 'search-1',
+    userId: 'user-1',
+    name: 'GNNs',
+    query: 'graph networks',
+    filters: {},
+    sortBy: 'relevance',
+    notifyOnMatch: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  }
+}
+
+describe('checkSavedSearchAlerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('runs each owner\'s saved searches against only their new papers and notifies on matches', async () => {
+    const supabase = mockSupabase([
+      { id: 'p1', title: 'Graph Attention Networks', created_by: 'user-1' },
+      { id: 'p2', title: 'Unrelated', created_by: 'user-1' },
+      { id: 'p3', title: 'Someone else\'s paper', created_by: 'user-2' }
+    ])
+    mockListAlertingSearches.mockResolvedValue([
+      savedSearch({ id: 'search-1', userId: 'user-1' }),
+      savedSearch({ id: 'search-2', userId: 'user-2', query: 'diffusion' })
+    ])
+    mockSearchPapers.mockImplementation(async ({ paperIds }: { paperIds: string[] }) => ({
+      results: paperIds.includes('p1') ? [{ paper: { id: 'p1' } }] : []
+    }))
+    const notify = jest.fn().mockResolvedValue(undefined)
+
+    const result = await checkSavedSearchAlerts(['p1', 'p2', 'p3', 'p1'], { supabase, notify })
+
+    expect(mockListAlertingSearches).toHaveBeenCalledWith(['user-1', 'user-2'])
+    expect(mockSearchPapers).toHaveBeenCalledWith(expect.objectContaining({
+      textQuery: 'graph networks',
+      paperIds: ['p1', 'p2'],
+      pagination: { page: 1, limit: 2 }
+    }))
+    expect(mockSearchPapers).toHaveBeenCalledWith(expect.objectContaining({
+      textQuery: 'diffusion',
+      paperIds: ['p3']
+    }))
+    expect(result.checked).toBe(2)
+    expect(result.matches.map(match => match.savedSearch.id)).toEqual(['search-1'])
+    expect(notify).toHaveBeenCalledTimes(1)
+    expect(notify).toHaveBeenCalledWith('user-1', expect.objectContaining({ paperIds: ['p1'] }), expect.any(Map))
+    expect(mockMarkMatched).toHaveBeenCalledWith(['search-1'])
+  })
+
+  it('checks the other searches when one fails, then fails so the check is retried', async () => {
+    const supabase = mockSupabase([{ id: 'p1', title: 'Paper', created_by: 'user-1' }])
+    mockListAlertingSearches.mockResolvedValue([
+      savedSearch({ id: 'broken' }),
+      savedSearch({ id: 'working' })
+    ])
+    mockSearchPapers
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce({ results: [{ paper: { id: 'p1' } }] })
+    const notify = jest.fn().mockResolvedValue(undefined)
+    const onNotified = jest.fn().mockResolvedValue(undefined)
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const check = checkSavedSearchAlerts(['p1'], { supabase, notify, onNotified })
+    await expect(check).rejects.toThrow(SavedSearchAlertError)
+    await expect(check).rejects.toMatchObject({ failedSearchIds: ['broken'], message: expect.stringContaining('boom') })
+    consoleError.mockRestore()
+
+    expect(notify).toHaveBeenCalledTimes(1)
+    expect(onNotified).toHaveBeenCalledWith('working')
+    expect(mockMarkMatched).toHaveBeenCalledWith(['working'])
+  })
+
+  it('skips the searches an earlier attempt notified', async () => {
+    const supabase = mockSupabase([{ id: 'p1', title: 'Paper', created_by: 'user-1' }])
+    mockListAlertingSearches.mockResolvedValue([
+      savedSearch({ id: 'notified' }),
+      savedSearch({ id: 'retried' })
+    ])
+    mockSearchPapers.mockResolvedValue({ results: [{ paper: { id: 'p1' } }] })
+    const notify = jest.fn().mockResolvedValue(undefined)
+
+    const result = await checkSavedSearchAlerts(['p1'], { supabase, notify, notifiedSearchIds: ['notified'] })
+
+    expect(mockSearchPapers).toHaveBeenCalledTimes(1)
+    expect(notify).toHaveBeenCalledWith('user-1', expect.objectContaining({ savedSearch: expect.objectContaining({ id: 'retried' }) }), expect.any(Map))
+    expect(result.matches.map(match => match.savedSearch.id)).toEqual(['retried'])
+  })
+
+  it('leaves archived papers out', async () => {
+    const supabase = mockSupabase([])
+    mockListAlertingSearches.mockResolvedValue([])
+
+    await checkSavedSearchAlerts(['p1'], { supabase, notify: jest.fn() })
+
+    expect(supabase.query.is).toHaveBeenCalledWith('archived_at', null)
+  })
+
+  it('does nothing without paper ids', async () => {
+    const result = await checkSavedSearchAlerts([], { supabase: mockSupabase([]), notify: jest.fn() })
+
+    expect(result).toEqual({ checked: 0, matches: [] })
+    expect(mockListAlertingSearches).not.toHaveBeenCalled()
+  })
+})
+
+describe('validateSavedSearchInput', () => {
+  it('accepts a named query', () => {
+    expect(() => validateSavedSearchInput({ name: 'GNNs', query: 'graph author:Kipf' })).not.toThrow()
+  })
+
+  it.each([
+    [{ name: ' ', query: 'graph' }, 'name is required'],
+    [{ name: 'Empty' }, 'needs a query or at least one filter'],
+    [{ name: 'Sort', query: 'graph', sortBy: 'newest' as any }, 'Invalid sort option'],
+  ])('rejects %o', (input: any, message: string) => {
+    expect(() => validateSavedSearchInput(input)).toThrow(message)
+  })
+
+  it('reports query syntax errors', () => {
+    let thrown: unknown
+    try {
+      validateSavedSearchInput({ name: 'Bad', query: 'year:20x9' })
+    } catch (error) {
+      thrown = error
+    }
+
+    expect(thrown).toBeInstanceOf(SavedSearchValidationError)
+    expect((thrown as SavedSearchValidationError).queryErrors[0].message).toMatch(/Invalid year/)
+  })
+
+  it('only checks given fields on partial updates', () => {
+    expect(() => validateSavedSearchInput({ notifyOnMatch: false }, true)).not.toThrow()
+  })
+})
@@ -0,0 +1,59 @@
+import { extractSearchTerms, highlightText, highlightFields } from '../highlighting'
+
+describe('extractSearchTerms', () => {
+  it('drops stop words, quotes and exclusions', () => {
+    expect(extractSearchTerms('"Graph neural" networks for -survey the OR chemistry')).toEqual([
+      'graph', 'neural', 'networks', 'chemistry',
+    ])
+  })
+})
+
+describe('highlightText', () => {
+  it('marks every match, including inflected forms', () => {
+    expect(highlightText('Learned representations help learning.', ['learning'])).toBe(
+      '<mark>Learned</mark> representations help <mark>learning</mark>.'
+    )
+  })
+
+  it('only matches at the start of words', () => {
+    expect(highlightText('A relearned skill', ['learn'])).toBeNull()
+  })
+
+  it('returns null when nothing matches', () => {
+    expect(highlightText('Protein folding', ['transformer'])).toBeNull()
+    expect(highlightText('Protein folding', [])).toBeNull()
+  })
+
+  it('windows long text around the first match', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(20)
+    const text = `${filler}the attention mechanism ${filler}`
+
+    const excerpt = highlightText(text, ['attention'], 100)!
+
+    expect(excerpt.startsWith('...')).toBe(true)
+    expect(excerpt.endsWith('...')).toBe(true)
+    expect(excerpt).toContain('<mark>attention</mark>')
+    expect(excerpt.replace(/<\/?mark>|\.\.\./g, '').length).toBeLessThanOrEqual(100)
+  })
+})
+
+describe('highlightFields', () => {
+  it('returns a highlight per matching field in field order', () => {
+    const highlights = highlightFields({
+      title: 'Attention is all you need',
+      authors: ['Vaswani', 'Shazeer'],
+      abstract: 'We propose the Transformer, based solely on attention mechanisms.',
+      tags: ['nlp', 'transformers'],
+      notes: undefined,
+    }, ['attention', 'transformer'])
+
+    expect(highlights).toEqual([
+      { field: 'title', excerpt: '<mark>Attention</mark> is all you need' },
+      {
+        field: 'abstract',
+        excerpt: 'We propose the <mark>Transformer</mark>, based solely on <mark>attention</mark> mechanisms.',
+      },
+      { field: 'tags', excerpt: 'nlp, <mark>transformers</mark>' },
+    ])
+  })
+})
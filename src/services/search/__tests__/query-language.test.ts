@@ -0,0 +1,119 @@
+import {
+  parseSearchQuery,
+  mergeSearchFilters,
+  getQueryCompletionContext,
+  completeFieldNames,
+  formatFieldTerm,
+  replaceQueryTerm,
+} from '../query-language'
+
+describe('parseSearchQuery', () => {
+  it('splits field terms into filters and keeps the rest as text', () => {
+    const parsed = parseSearchQuery(
+      'graph networks author:"Kipf, Thomas" journal:ICLR year:2017..2020 tag:gnn rating:>=4 status:Reading doi:https://doi.org/10.1000/XYZ'
+    )
+
+    expect(parsed.errors).toEqual([])
+    expect(parsed.text).toBe('graph networks')
+    expect(parsed.filters).toEqual({
+      authors: ['Kipf, Thomas'],
+      journals: ['ICLR'],
+      publicationYear: { min: 2017, max: 2020 },
+      tags: ['gnn'],
+      rating: { min: 4 },
+      readingStatus: ['reading'],
+      doi: '10.1000/XYZ',
+    })
+  })
+
+  it('keeps phrases, exclusions and OR in the text', () => {
+    const parsed = parseSearchQuery('"self attention" OR transformer -survey')
+
+    expect(parsed.errors).toEqual([])
+    expect(parsed.text).toBe('"self attention" or transformer -survey')
+  })
+
+  it('collects OR-ed and repeated values of a field', () => {
+    expect(parseSearchQuery('tag:a OR tag:b tag:a').filters.tags).toEqual(['a', 'b'])
+  })
+
+  it.each([
+    ['year:2019', { min: 2019, max: 2019 }],
+    ['year:2019..', { min: 2019 }],
+    ['year:..2020', { max: 2020 }],
+    ['year:>2019', { min: 2020 }],
+    ['year:<2020', { max: 2019 }],
+  ])('parses %s', (query: string, range: { min?: number; max?: number }) => {
+    expect(parseSearchQuery(query).filters.publicationYear).toEqual(range)
+  })
+
+  it('reports invalid values with their position', () => {
+    const query = 'deep learning year:20x9 status:done'
+    const parsed = parseSearchQuery(query)
+
+    expect(parsed.text).toBe('deep learning')
+    expect(parsed.filters).toEqual({})
+    expect(parsed.errors).toHaveLength(2)
+    expect(parsed.errors[0].message).toMatch(/Invalid year/)
+    expect(query.slice(parsed.errors[0].start, parsed.errors[0].end)).toBe('20x9')
+    expect(parsed.errors[1].message).toMatch(/Unknown status/)
+    expect(query.slice(parsed.errors[1].start, parsed.errors[1].end)).toBe('done')
+  })
+
+  it.each([
+    ['rating:7', 'Rating must be between 1 and 5', 'rating:7'.indexOf('7')],
+    ['year:2020..2010', 'Year range starts after it ends', 5],
+    ['auther:smith', 'Unknown field "auther"', 0],
+    ['author:', 'Missing value for author:', 0],
+    ['-tag:old', 'Exclusion (-) only applies to text', 0],
+    ['year:2019 year:2020', 'year: can only be used once', 10],
+    ['attention OR', 'OR needs a term on both sides', 10],
+    ['tag:a OR author:b', 'OR can only join', 0],
+    ['"unfinished phrase', 'Unterminated quote', 0],
+  ])('reports %s', (query: string, message: string, start: number) => {
+    const [error] = parseSearchQuery(query).errors
+
+    expect(error.message).toContain(message)
+    expect(error.start).toBe(start)
+    expect(error.end).toBeGreaterThan(error.start)
+  })
+
+  it('treats a trailing colon on an unknown word as text', () => {
+    const parsed = parseSearchQuery('Attention: a survey')
+
+    expect(parsed.errors).toEqual([])
+    expect(parsed.text).toBe('Attention: a survey')
+  })
+})
+
+describe('mergeSearchFilters', () => {
+  it('lets query terms override the same panel filter', () => {
+    expect(mergeSearchFilters(
+      { tags: ['panel'], readingStatus: ['unread'] },
+      { tags: ['query'] }
+    )).toEqual({ tags: ['query'], readingStatus: ['unread'] })
+  })
+})
+
+describe('autocomplete helpers', () => {
+  it('describes a partial field name', () => {
+    const context = getQueryCompletionContext('transformers au')!
+
+    expect(context).toMatchObject({ start: 13, end: 15, prefix: 'au', negated: false })
+    expect(context.field).toBeUndefined()
+    expect(completeFieldNames(context.prefix).map(info => info.name)).toEqual(['author'])
+    expect(replaceQueryTerm('transformers au', context, 'author:')).toBe('transformers author:')
+  })
+
+  it('describes a partial field value at the cursor', () => {
+    const query = 'tag:ml deep'
+    const context = getQueryCompletionContext(query, 6)!
+
+    expect(context).toMatchObject({ field: 'tag', prefix: 'ml', start: 0, end: 6 })
+    expect(replaceQueryTerm(query, context, formatFieldTerm('tag', 'ml theory'))).toBe('tag:"ml theory" deep')
+  })
+
+  it('has nothing to complete after whitespace', () => {
+    expect(getQueryCompletionContext('deep ')).toBeNull()
+  })
+})
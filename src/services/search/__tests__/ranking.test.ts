@@ -0,0 +1,36 @@
+import { reciprocalRankFusion, normalizeFusedScore, RRF_K } from '../ranking'
+
+describe('reciprocalRankFusion', () => {
+  it('scores each id by the sum of its reciprocal ranks', () => {
+    const fused = reciprocalRankFusion([['a', 'b'], ['b', 'c']])
+
+    expect(fused.get('a')).toBeCloseTo(1 / (RRF_K + 1))
+    expect(fused.get('b')).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1))
+    expect(fused.get('c')).toBeCloseTo(1 / (RRF_K + 2))
+  })
+
+  it('iterates best-first, favouring ids found by several rankers', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['b', 'd']])
+
+    expect(Array.from(fused.keys())).toEqual(['b', 'a', 'd', 'c'])
+  })
+
+  it('ignores empty rankings', () => {
+    const fused = reciprocalRankFusion([[], ['x', 'y']])
+
+    expect(Array.from(fused.keys())).toEqual(['x', 'y'])
+  })
+})
+
+describe('normalizeFusedScore', () => {
+  it('maps a first place in every ranking to 1', () => {
+    const fused = reciprocalRankFusion([['a', 'b'], ['a', 'b']])
+
+    expect(normalizeFusedScore(fused.get('a')!, 2)).toBeCloseTo(1)
+    expect(normalizeFusedScore(fused.get('b')!, 2)).toBeLessThan(1)
+  })
+
+  it('returns 0 without rankers', () => {
+    expect(normalizeFusedScore(0.5, 0)).toBe(0)
+  })
+})
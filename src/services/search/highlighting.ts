@@ -0,0 +1,90 @@
+export interface FieldHighlight {
+  field: string
+  excerpt: string // matched terms wrapped in <mark></mark>
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'to', 'was', 'with',
+])
+
+// Crude suffix stripping so "learning" highlights "learned" the way Postgres stemming matches it
+const SUFFIXES = ['ations', 'ation', 'ings', 'ing', 'ies', 'ied', 'es', 'ed', 's', 'ly']
+
+const WORD_CHAR = '[\\p{L}\\p{N}]'
+
+/**
+ * Terms worth highlighting from a web-search style query (quotes, OR and -exclusions are dropped)
+ */
+export function extractSearchTerms(query: string): string[] {
+  return Array.from(new Set(
+    query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(token => token && !token.startsWith('-'))
+      .map(token => token.replace(/^["'(]+|["'),.;:!?]+$/g, ''))
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+  ))
+}
+
+export function stemTerm(term: string): string {
+  for (const suffix of SUFFIXES) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= 3) {
+      return term.slice(0, -suffix.length)
+    }
+  }
+  return term
+}
+
+function buildPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null
+  const stems = terms.map(term => stemTerm(term).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  // The `u` flag needs an ES2018 target, so build at runtime
+  return new RegExp(`(?<!${WORD_CHAR})(?:${stems.join('|')})${WORD_CHAR}*`, 'giu')
+}
+
+/**
+ * Return an excerpt of `text` around the first match with every match marked,
+ * or null when no term occurs in the text
+ */
+export function highlightText(text: string, terms: string[], maxLength: number = 160): string | null {
+  const pattern = buildPattern(terms)
+  if (!pattern || !text) return null
+
+  const first = pattern.exec(text)
+  if (!first) return null
+
+  let start = 0
+  let end = text.length
+  if (text.length > maxLength) {
+    start = Math.max(0, first.index - Math.floor(maxLength / 3))
+    end = Math.min(text.length, start + maxLength)
+    // Snap to word boundaries
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start
+    if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end
+  }
+
+  const marked = text.slice(start, end).replace(pattern, match => `<mark>${match}</mark>`)
+  return `${start > 0 ? '...' : ''}${marked}${end < text.length ? '...' : ''}`
+}
+
+/**
+ * Highlight each field that contains a query term, in the order the fields are given
+ */
+export function highlightFields(
+  fields: Record<string, string | string[] | null | undefined>,
+  terms: string[],
+  maxLength?: number
+): FieldHighlight[] {
+  const highlights: FieldHighlight[] = []
+
+  Object.entries(fields).forEach(([field, value]) => {
+    const text = Array.isArray(value) ? value.join(', ') : value
+    const excerpt = text ? highlightText(text, terms, maxLength) : null
+    if (excerpt) {
+      highlights.push({ field, excerpt })
+    }
+  })
+
+  return highlights
+}
@@ -1,8 +1,39 @@
-export { AdvancedSearchService } from './AdvancedSearchService'
+export { AdvancedSearchService, DEFAULT_SEARCH_MODE } from './AdvancedSearchService'
+export { reciprocalRankFusion, normalizeFusedScore, RRF_K } from './ranking'
+export { extractSearchTerms, highlightText, highlightFields } from './highlighting'
+export {
+  parseSearchQuery,
+  mergeSearchFilters,
+  getQueryCompletionContext,
+  completeFieldNames,
+  formatFieldTerm,
+  replaceQueryTerm,
+  SEARCH_FIELDS,
+  READING_STATUSES
+} from './query-language'
+export {
+  SavedSearchService,
+  SavedSearchValidationError,
+  validateSavedSearchInput,
+  SORT_OPTIONS
+} from './SavedSearchService'
+export { SavedSearchAlertError, checkSavedSearchAlerts, scheduleSavedSearchAlerts } from './SavedSearchAlerts'
 export type {
   AdvancedSearchFilters,
+  AdvancedSearchOptions,
   SearchQuery,
   SearchResult,
   SearchResponse,
-  SortOption
-} from './AdvancedSearchService'
\ No newline at end of file
+  SortOption,
+  SearchMode
+} from './AdvancedSearchService'
+export type { FieldHighlight } from './highlighting'
+export type {
+  SearchField,
+  SearchFieldInfo,
+  QueryParseError,
+  ParsedSearchQuery,
+  QueryCompletionContext
+} from './query-language'
+export type { SavedSearch, SavedSearchInput } from './SavedSearchService'
+export type { SavedSearchMatch, SavedSearchAlertOptions, SavedSearchAlertResult } from './SavedSearchAlerts'
@@ -0,0 +1,349 @@
+import type { AdvancedSearchFilters } from './AdvancedSearchService'
+
+export type SearchField = 'author' | 'journal' | 'year' | 'tag' | 'rating' | 'status' | 'doi'
+
+export interface SearchFieldInfo {
+  name: SearchField
+  description: string
+  example: string
+}
+
+export const SEARCH_FIELDS: SearchFieldInfo[] = [
+  { name: 'author', description: 'Author name', example: 'author:"Hinton, Geoffrey"' },
+  { name: 'journal', description: 'Journal name', example: 'journal:Nature' },
+  { name: 'year', description: 'Publication year or range', example: 'year:2019..2023' },
+  { name: 'tag', description: 'Your tags', example: 'tag:to-review' },
+  { name: 'rating', description: 'Your rating, 1-5', example: 'rating:>=4' },
+  { name: 'status', description: 'Reading status', example: 'status:reading' },
+  { name: 'doi', description: 'DOI', example: 'doi:10.1038/nature14539' },
+]
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  author: 'author',
+  authors: 'author',
+  journal: 'journal',
+  year: 'year',
+  tag: 'tag',
+  tags: 'tag',
+  rating: 'rating',
+  status: 'status',
+  doi: 'doi',
+}
+
+export const READING_STATUSES = ['unread', 'reading', 'completed']
+
+// Fields that map to a single value or range rather than a list
+const SINGLE_VALUE_FIELDS: SearchField[] = ['year', 'rating', 'doi']
+
+export interface QueryParseError {
+  message: string
+  // Character offsets into the query; end is exclusive
+  start: number
+  end: number
+}
+
+export interface ParsedSearchQuery {
+  // Residual free text in web-search syntax: "phrases", -exclusions and or
+  text: string
+  filters: AdvancedSearchFilters
+  errors: QueryParseError[]
+}
+
+export interface QueryCompletionContext {
+  // Span of the term being completed
+  start: number
+  end: number
+  negated: boolean
+  // Set when completing a value; otherwise the prefix is a partial field name or word
+  field?: SearchField
+  prefix: string
+}
+
+interface QueryToken {
+  start: number
+  end: number
+  negated: boolean
+  field?: string
+  valueStart: number
+  value: string
+  quoted: boolean
+}
+
+/**
+ * Parse a search bar query such as
+ * `transformer -survey author:Vaswani year:2017..2020 "attention mechanism" OR "self attention"`
+ * into filters plus the remaining free text. Invalid terms are reported with
+ * their positions and left out of both.
+ *
+ * Repeating a list field (author, journal, tag, status) matches any of its values,
+ * so `tag:a OR tag:b` and `tag:a tag:b` are equivalent.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const { tokens, errors } = tokenize(input)
+  const filters: AdvancedSearchFilters = {}
+  const textParts: string[] = []
+  const seenFields = new Set<SearchField>()
+
+  tokens.forEach((token, index) => {
+    if (isOrOperator(token)) {
+      const previous = tokens[index - 1]
+      const next = tokens[index + 1]
+      if (!previous || !next || isOrOperator(previous) || isOrOperator(next)) {
+        errors.push({ message: 'OR needs a term on both sides', start: token.start, end: token.end })
+      } else if (termKind(previous) !== termKind(next)) {
+        errors.push({
+          message: 'OR can only join text terms or values of the same field',
+          start: previous.start,
+          end: next.end
+        })
+      } else if (termKind(previous) === 'text') {
+        textParts.push('or')
+      }
+      return
+    }
+
+    const field = token.field ? FIELD_ALIASES[token.field.toLowerCase()] : undefined
+
+    if (!token.field || (!field && !token.value)) {
+      textParts.push(formatTextTerm(token, input))
+      return
+    }
+
+    if (!field) {
+      errors.push({
+        message: `Unknown field "${token.field}". Use ${SEARCH_FIELDS.map(info => `${info.name}:`).join(', ')}`,
+        start: token.negated ? token.start + 1 : token.start,
+        end: token.valueStart
+      })
+      return
+    }
+
+    if (token.negated) {
+      errors.push({ message: 'Exclusion (-) only applies to text, not to field filters', start: token.start, end: token.start + 1 })
+      return
+    }
+
+    if (!token.value) {
+      errors.push({ message: `Missing value for ${field}:`, start: token.start, end: token.end })
+      return
+    }
+
+    if (SINGLE_VALUE_FIELDS.includes(field) && seenFields.has(field)) {
+      errors.push({ message: `${field}: can only be used once`, start: token.start, end: token.end })
+      return
+    }
+
+    const message = applyFieldTerm(filters, field, token.value)
+    if (message) {
+      errors.push({ message, start: token.valueStart, end: token.end })
+    } else {
+      seenFields.add(field)
+    }
+  })
+
+  return { text: textParts.join(' '), filters, errors }
+}
+
+/**
+ * Combine panel filters with filters typed in the query; query terms win for the same filter
+ */
+export function mergeSearchFilters(
+  panelFilters: AdvancedSearchFilters,
+  queryFilters: AdvancedSearchFilters
+): AdvancedSearchFilters {
+  return { ...panelFilters, ...queryFilters }
+}
+
+/**
+ * Describe the term under the cursor for autocomplete, or null when the cursor is
+ * not at the end of a term (e.g. after a space or inside a quoted phrase)
+ */
+export function getQueryCompletionContext(input: string, cursor: number = input.length): QueryCompletionContext | null {
+  const { tokens } = tokenize(input)
+  const token = tokens.find(candidate => candidate.start < cursor && cursor <= candidate.end)
+  if (!token) return null
+
+  if (token.field) {
+    const field = FIELD_ALIASES[token.field.toLowerCase()]
+    if (!field) return null
+    return { start: token.start, end: token.end, negated: token.negated, field, prefix: token.value }
+  }
+
+  if (token.quoted) return null
+  return { start: token.start, end: token.end, negated: token.negated, prefix: token.value }
+}
+
+/**
+ * Field names starting with a partial word
+ */
+export function completeFieldNames(prefix: string): SearchFieldInfo[] {
+  if (!prefix) return []
+  const lower = prefix.toLowerCase()
+  return SEARCH_FIELDS.filter(info => info.name.startsWith(lower) && info.name !== lower)
+}
+
+/**
+ * Render a field term, quoting values that contain spaces
+ */
+export function formatFieldTerm(field: SearchField, value: string): string {
+  return /[\s"]/.test(value) ? `${field}:"${value.replace(/"/g, '')}"` : `${field}:${value}`
+}
+
+/**
+ * Replace the term described by a completion context
+ */
+export function replaceQueryTerm(input: string, context: QueryCompletionContext, replacement: string): string {
+  return `${input.slice(0, context.start)}${replacement}${input.slice(context.end)}`
+}
+
+function tokenize(input: string): { tokens: QueryToken[]; errors: QueryParseError[] } {
+  const tokens: QueryToken[] = []
+  const errors: QueryParseError[] = []
+  let i = 0
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    let negated = false
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true
+      i++
+    }
+
+    let field: string | undefined
+    const fieldMatch = /^([A-Za-z]+):/.exec(input.slice(i))
+    if (fieldMatch) {
+      field = fieldMatch[1]
+      i += fieldMatch[0].length
+    }
+
+    const valueStart = i
+    let value: string
+    let quoted = false
+    if (input[i] === '"') {
+      quoted = true
+      const close = input.indexOf('"', i + 1)
+      if (close === -1) {
+        errors.push({ message: 'Unterminated quote', start: i, end: input.length })
+        value = input.slice(i + 1)
+        i = input.length
+      } else {
+        value = input.slice(i + 1, close)
+        i = close + 1
+      }
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) i++
+      value = input.slice(valueStart, i)
+    }
+
+    tokens.push({ start, end: i, negated, field, valueStart, value, quoted })
+  }
+
+  return { tokens, errors }
+}
+
+function isOrOperator(token: QueryToken): boolean {
+  return !token.field && !token.quoted && !token.negated && token.value === 'OR'
+}
+
+function termKind(token: QueryToken): string {
+  return (token.field && FIELD_ALIASES[token.field.toLowerCase()]) || 'text'
+}
+
+function formatTextTerm(token: QueryToken, input: string): string {
+  if (!token.quoted) return input.slice(token.start, token.end)
+  return `${token.negated ? '-' : ''}${token.field ? `${token.field}:` : ''}"${token.value}"`
+}
+
+/**
+ * Add one field term to the filters; returns an error message for invalid values
+ */
+function applyFieldTerm(filters: AdvancedSearchFilters, field: SearchField, value: string): string | null {
+  switch (field) {
+    case 'author':
+      filters.authors = appendUnique(filters.authors, value)
+      return null
+    case 'journal':
+      filters.journals = appendUnique(filters.journals, value)
+      return null
+    case 'tag':
+      filters.tags = appendUnique(filters.tags, value)
+      return null
+    case 'status': {
+      const status = value.toLowerCase()
+      if (!READING_STATUSES.includes(status)) {
+        return `Unknown status "${value}". Use ${READING_STATUSES.join(', ')}`
+      }
+      filters.readingStatus = appendUnique(filters.readingStatus, status)
+      return null
+    }
+    case 'doi':
+      filters.doi = normalizeDoi(value)
+      return null
+    case 'year': {
+      const range = parseRange(value)
+      if (!range) return `Invalid year "${value}". Use 2020, 2019..2023, 2019.., >=2019 or <2020`
+      if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+        return 'Year range starts after it ends'
+      }
+      filters.publicationYear = range
+      return null
+    }
+    case 'rating': {
+      const range = parseRange(value)
+      if (!range) return `Invalid rating "${value}". Use 4, 3..5, >=4 or <3`
+      if ([range.min, range.max].some(bound => bound !== undefined && (bound < 1 || bound > 5))) {
+        return 'Rating must be between 1 and 5'
+      }
+      if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+        return 'Rating range starts after it ends'
+      }
+      filters.rating = range
+      return null
+    }
+  }
+}
+
+/**
+ * Integer ranges: `N`, `A..B`, `A..`, `..B`, `>=N`, `>N`, `<=N`, `<N`
+ */
+function parseRange(value: string): { min?: number; max?: number } | null {
+  const comparison = /^(>=|<=|>|<)(\d+)$/.exec(value)
+  if (comparison) {
+    const bound = parseInt(comparison[2], 10)
+    switch (comparison[1]) {
+      case '>=': return { min: bound }
+      case '>': return { min: bound + 1 }
+      case '<=': return { max: bound }
+      default: return { max: bound - 1 }
+    }
+  }
+
+  const range = /^(\d+)?\.\.(\d+)?$/.exec(value)
+  if (range && (range[1] || range[2])) {
+    return {
+      ...(range[1] ? { min: parseInt(range[1], 10) } : {}),
+      ...(range[2] ? { max: parseInt(range[2], 10) } : {})
+    }
+  }
+
+  if (/^\d+$/.test(value)) {
+    const exact = parseInt(value, 10)
+    return { min: exact, max: exact }
+  }
+
+  return null
+}
+
+function normalizeDoi(value: string): string {
+  return value.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/i, '')
+}
+
+function appendUnique(values: string[] | undefined, value: string): string[] {
+  const current = values || []
+  return current.includes(value) ? current : [...current, value]
+}
@@ -0,0 +1,27 @@
+// Standard RRF constant: damps the influence of the very top ranks
+export const RRF_K = 60
+
+/**
+ * Reciprocal rank fusion: score(d) = sum over rankings of 1 / (k + rank(d)).
+ * Only ranks matter, so lexical and vector scores need no common scale.
+ * Returned map iterates best-first.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>()
+
+  rankings.forEach(ranking => {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1))
+    })
+  })
+
+  return new Map([...scores.entries()].sort((a, b) => b[1] - a[1]))
+}
+
+/**
+ * Scale a fused score to 0-1, where 1 means ranked first by every ranker
+ */
+export function normalizeFusedScore(score: number, rankerCount: number, k: number = RRF_K): number {
+  if (rankerCount === 0) return 0
+  return Math.min(score / (rankerCount / (k + 1)), 1)
+}
@@ -97,7 +97,9 @@ export class UserAiModelService {
         maxTokens: 1000000,
         supportedFeatures: ['text', 'vision', 'json']
       }
-    ]
+    ],
+    // Discovered from the user's server, see UserApiKeyService.discoverModels
+    'openai-compatible': []
   }
 
   // Default parameters per provider
@@ -124,6 +126,11 @@ export class UserAiModelService {
       maxOutputTokens: 4000,
       topP: 1,
       topK: 40
+    },
+    'openai-compatible': {
+      temperature: 0.7,
+      max_tokens: 4000,
+      top_p: 1
     }
   }
 
@@ -1,13 +1,24 @@
 import { getSupabaseClient } from '@/lib/database'
 import { UserApiKey, UserApiKeyInsert, UserApiKeyUpdate } from '@/lib/database'
 import { validateUserId, logSecurityEvent, handleAuthError } from '@/lib/auth-helpers'
+import { assertPublicBaseUrl, listOpenAICompatibleModels } from '@/services/ai/OpenAICompatibleService'
 import CryptoJS from 'crypto-js'
 
-export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini'
+export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
 
 export interface APIKeyData {
   provider: AIProvider
+  // May be empty for 'openai-compatible'
   apiKey: string
+  // Server and model for 'openai-compatible'
+  baseUrl?: string
+  modelName?: string
+}
+
+export interface ProviderCredentials {
+  apiKey: string
+  baseUrl?: string
+  modelName?: string
 }
 
 export interface APIKeyInfo {
@@ -17,6 +28,8 @@ export interface APIKeyInfo {
   lastValidatedAt: Date | null
   usageCount: number
   hasKey: boolean
+  baseUrl?: string
+  modelName?: string
   createdAt: Date
   updatedAt: Date
 }
@@ -79,6 +92,8 @@ export class UserApiKeyService {
         lastValidatedAt: key.last_validated_at ? new Date(key.last_validated_at) : null,
         usageCount: key.usage_count,
         hasKey: true, // If record exists, they have a key
+        baseUrl: key.base_url || undefined,
+        modelName: key.model_name || undefined,
         createdAt: new Date(key.created_at),
         updatedAt: new Date(key.updated_at)
       }))
@@ -125,6 +140,38 @@ export class UserApiKeyService {
     }
   }
 
+  /**
+   * Decrypted key plus the server and model stored for 'openai-compatible'
+   */
+  async getProviderCredentials(userId: string, provider: AIProvider): Promise<ProviderCredentials | null> {
+    if (!validateUserId(userId)) {
+      logSecurityEvent('invalid_session', { userId, provider, action: 'getProviderCredentials' })
+      throw new Error('Invalid user ID format')
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_api_keys')
+      .select('api_key_encrypted, base_url, model_name')
+      .eq('user_id', userId)
+      .eq('provider', provider)
+      .maybeSingle()
+
+    if (error && error.code !== 'PGRST116') {
+      console.error(`Error getting credentials for ${provider}:`, error)
+      throw error
+    }
+
+    if (!data) {
+      return null
+    }
+
+    return {
+      apiKey: this.decryptApiKey(data.api_key_encrypted),
+      baseUrl: data.base_url || undefined,
+      modelName: data.model_name || undefined
+    }
+  }
+
   /**
    * Save or update user's API key
    */
@@ -136,13 +183,21 @@ export class UserApiKeyService {
         throw new Error('Invalid user ID format')
       }
 
-      // Validate API key format
-      if (!keyData.apiKey || keyData.apiKey.length < 10) {
+      // Self-hosted servers need a base URL; their key is optional
+      let baseUrl: string | null = null
+      const apiKey = keyData.apiKey?.trim() || ''
+      if (keyData.provider === 'openai-compatible') {
+        if (!keyData.baseUrl) {
+          throw new Error('Base URL is required')
+        }
+        baseUrl = assertPublicBaseUrl(keyData.baseUrl)
+      } else if (apiKey.length < 10) {
         throw new Error('Invalid API key format')
       }
+      const modelName = keyData.modelName?.trim() || null
 
-      const encryptedKey = this.encryptApiKey(keyData.apiKey)
-      const keyHash = this.createApiKeyHash(keyData.apiKey)
+      const encryptedKey = this.encryptApiKey(apiKey)
+      const keyHash = this.createApiKeyHash(apiKey)
 
       // Check if key already exists
       const { data: existing, error: existErr } = await this.supabase
@@ -159,6 +214,8 @@ export class UserApiKeyService {
         const updateData: UserApiKeyUpdate = {
           api_key_encrypted: encryptedKey,
           api_key_hash: keyHash,
+          base_url: baseUrl,
+          model_name: modelName,
           is_valid: false, // Will be validated separately
           last_validated_at: null,
           updated_at: new Date().toISOString()
@@ -186,6 +243,8 @@ export class UserApiKeyService {
           provider: keyData.provider,
           api_key_encrypted: encryptedKey,
           api_key_hash: keyHash,
+          base_url: baseUrl,
+          model_name: modelName,
           is_valid: false,
           usage_count: 0
         }
@@ -213,6 +272,8 @@ export class UserApiKeyService {
         lastValidatedAt: result.last_validated_at ? new Date(result.last_validated_at) : null,
         usageCount: result.usage_count,
         hasKey: true,
+        baseUrl: result.base_url || undefined,
+        modelName: result.model_name || undefined,
         createdAt: new Date(result.created_at),
         updatedAt: new Date(result.updated_at)
       }
@@ -227,10 +288,11 @@ export class UserApiKeyService {
    */
   async validateApiKey(userId: string, provider: AIProvider): Promise<boolean> {
     try {
-      const apiKey = await this.getApiKey(userId, provider)
-      if (!apiKey) {
+      const credentials = await this.getProviderCredentials(userId, provider)
+      if (!credentials) {
         return false
       }
+      const { apiKey } = credentials
 
       let isValid = false
 
@@ -248,6 +310,9 @@ export class UserApiKeyService {
         case 'gemini':
           isValid = await this.testGeminiKey(apiKey)
           break
+        case 'openai-compatible':
+          isValid = await this.testOpenAICompatibleEndpoint(credentials.baseUrl, apiKey)
+          break
         default:
           isValid = false
       }
@@ -269,6 +334,33 @@ export class UserApiKeyService {
     }
   }
 
+  /**
+   * Models offered by the user's 'openai-compatible' server
+   */
+  async discoverModels(userId: string): Promise<string[]> {
+    const credentials = await this.getProviderCredentials(userId, 'openai-compatible')
+    if (!credentials?.baseUrl) {
+      throw new Error('No self-hosted model server is configured')
+    }
+    return listOpenAICompatibleModels(credentials.baseUrl, credentials.apiKey)
+  }
+
+  /**
+   * Pick the model used for a provider, e.g. one found by discoverModels
+   */
+  async setModel(userId: string, provider: AIProvider, modelName: string | null): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_api_keys')
+      .update({ model_name: modelName, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('provider', provider)
+
+    if (error) {
+      console.error(`Error setting model for ${provider}:`, error)
+      throw error
+    }
+  }
+
   /**
    * Delete API key
    */
@@ -405,4 +497,20 @@ export class UserApiKeyService {
       throw new Error('Gemini validation failed: Network error')
     }
   }
+
+  private async testOpenAICompatibleEndpoint(baseUrl: string | undefined, apiKey: string): Promise<boolean> {
+    if (!baseUrl) {
+      throw new Error('Model server validation failed: No base URL configured')
+    }
+
+    try {
+      await listOpenAICompatibleModels(baseUrl, apiKey)
+      return true
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Model server validation failed: ${error.message}`)
+      }
+      throw new Error('Model server validation failed: Network error')
+    }
+  }
 }
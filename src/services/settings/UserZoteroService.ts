@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { getSupabaseClient } from '@/lib/database'
 import { UserZoteroSettings, UserZoteroSettingsInsert, UserZoteroSettingsUpdate } from '@/lib/database'
 import CryptoJS from 'crypto-js'
@@ -11,6 +12,8 @@ export interface ZoteroConfig {
   syncInterval?: number
 }
 
+export type ZoteroSyncStatusValue = 'inactive' | 'queued' | 'syncing' | 'completed' | 'failed'
+
 export interface ZoteroSettingsInfo {
   id: string
   userIdZotero: string
@@ -18,18 +21,49 @@ export interface ZoteroSettingsInfo {
   libraryId: string | null
   autoSync: boolean
   syncInterval: number
+  // Cron pattern of scheduled syncs; null syncs every syncInterval seconds
+  syncSchedule: string | null
   lastSyncAt: Date | null
-  syncStatus: 'inactive' | 'syncing' | 'completed' | 'failed'
+  syncStatus: ZoteroSyncStatusValue
   isActive: boolean
   hasApiKey: boolean
   createdAt: Date
   updatedAt: Date
 }
 
+/**
+ * A Zotero library the user syncs: their personal library or a group library
+ */
+export interface ZoteroLibrary {
+  id: string
+  libraryType: 'user' | 'group'
+  // Zotero user ID or group ID
+  libraryId: string
+  name: string | null
+  lastSyncVersion: number
+  lastSyncAt: Date | null
+}
+
+interface ZoteroLibraryRow {
+  id: string
+  library_type: 'user' | 'group'
+  library_id: string
+  name: string | null
+  last_sync_version: number
+  last_sync_at: string | null
+}
+
+const LIBRARIES_TABLE = 'user_zotero_libraries'
+const LIBRARY_COLUMNS = 'id, library_type, library_id, name, last_sync_version, last_sync_at'
+
 export class UserZoteroService {
-  private supabase = getSupabaseClient()
+  private supabase: SupabaseClient
   private readonly encryptionKey = process.env.NEXT_PUBLIC_ENCRYPTION_KEY || 'fallback-key-for-development'
 
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
   /**
    * Encrypt API key for storage
    */
@@ -72,8 +106,9 @@ export class UserZoteroService {
         libraryId: data.library_id,
         autoSync: data.auto_sync,
         syncInterval: data.sync_interval,
+        syncSchedule: data.sync_schedule ?? null,
         lastSyncAt: data.last_sync_at ? new Date(data.last_sync_at) : null,
-        syncStatus: data.sync_status as 'inactive' | 'syncing' | 'completed' | 'failed',
+        syncStatus: data.sync_status as ZoteroSyncStatusValue,
         isActive: data.is_active,
         hasApiKey: true,
         createdAt: new Date(data.created_at),
@@ -155,8 +190,9 @@ export class UserZoteroService {
         libraryId: data.library_id,
         autoSync: data.auto_sync,
         syncInterval: data.sync_interval,
+        syncSchedule: data.sync_schedule ?? null,
         lastSyncAt: data.last_sync_at ? new Date(data.last_sync_at) : null,
-        syncStatus: data.sync_status as 'inactive' | 'syncing' | 'completed' | 'failed',
+        syncStatus: data.sync_status as ZoteroSyncStatusValue,
         isActive: data.is_active,
         hasApiKey: true,
         createdAt: new Date(data.created_at),
@@ -176,6 +212,7 @@ export class UserZoteroService {
     settings: {
       autoSync?: boolean
       syncInterval?: number
+      syncSchedule?: string | null
     }
   ): Promise<void> {
     try {
@@ -189,6 +226,9 @@ export class UserZoteroService {
       if (settings.syncInterval !== undefined) {
         updateData.sync_interval = settings.syncInterval
       }
+      if (settings.syncSchedule !== undefined) {
+        updateData.sync_schedule = settings.syncSchedule
+      }
 
       const { error } = await this.supabase
         .from('user_zotero_settings')
@@ -210,7 +250,7 @@ export class UserZoteroService {
    */
   async updateSyncStatus(
     userId: string,
-    status: 'inactive' | 'syncing' | 'completed' | 'failed',
+    status: ZoteroSyncStatusValue,
     lastSyncAt?: Date
   ): Promise<void> {
     try {
@@ -344,6 +384,110 @@ export class UserZoteroService {
     }
   }
 
+  /**
+   * Libraries the user syncs, in the order they were added
+   */
+  async getZoteroLibraries(userId: string): Promise<ZoteroLibrary[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from(LIBRARIES_TABLE)
+        .select(LIBRARY_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        throw error
+      }
+
+      return ((data || []) as ZoteroLibraryRow[]).map(mapLibraryRow)
+    } catch (error) {
+      console.error('Error getting Zotero libraries:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Subscribe to a library. Subscribing again only updates the name.
+   */
+  async addZoteroLibrary(
+    userId: string,
+    library: { libraryType: 'user' | 'group'; libraryId: string; name?: string }
+  ): Promise<ZoteroLibrary> {
+    try {
+      const { data, error } = await this.supabase
+        .from(LIBRARIES_TABLE)
+        .upsert(
+          {
+            user_id: userId,
+            library_type: library.libraryType,
+            library_id: library.libraryId,
+            name: library.name || null
+          },
+          { onConflict: 'user_id,library_type,library_id' }
+        )
+        .select(LIBRARY_COLUMNS)
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      return mapLibraryRow(data as ZoteroLibraryRow)
+    } catch (error) {
+      console.error('Error adding Zotero library:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Stop syncing a library. Papers already synced from it are kept.
+   * Returns false when the user has no such library.
+   */
+  async removeZoteroLibrary(userId: string, id: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from(LIBRARIES_TABLE)
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id')
+
+      if (error) {
+        if (error.code === '22P02') {
+          return false
+        }
+        throw error
+      }
+
+      return (data || []).length > 0
+    } catch (error) {
+      console.error('Error removing Zotero library:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Record the library version a sync of the library reached
+   */
+  async updateLibrarySyncVersion(id: string, version: number, syncedAt: Date = new Date()): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from(LIBRARIES_TABLE)
+        .update({
+          last_sync_version: version,
+          last_sync_at: syncedAt.toISOString()
+        })
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+    } catch (error) {
+      console.error('Error updating library sync version:', error)
+      throw error
+    }
+  }
+
   /**
    * Trigger manual sync
    */
@@ -376,4 +520,15 @@ export class UserZoteroService {
       throw error
     }
   }
-}
\ No newline at end of file
+}
+
+function mapLibraryRow(row: ZoteroLibraryRow): ZoteroLibrary {
+  return {
+    id: row.id,
+    libraryType: row.library_type,
+    libraryId: row.library_id,
+    name: row.name,
+    lastSyncVersion: row.last_sync_version ?? 0,
+    lastSyncAt: row.last_sync_at ? new Date(row.last_sync_at) : null
+  }
+}
@@ -80,6 +80,7 @@ describe('UserZoteroService', () => {
         libraryId: null,
         autoSync: true,
         syncInterval: 3600,
+        syncSchedule: null,
         syncStatus: 'inactive',
         isActive: true,
         lastSyncAt: new Date('2023-01-01T00:00:00Z'),
@@ -160,6 +161,7 @@ describe('UserZoteroService', () => {
         libraryId: null,
         autoSync: true,
         syncInterval: 3600,
+        syncSchedule: null,
         syncStatus: 'inactive',
         isActive: true,
         lastSyncAt: null,
@@ -0,0 +1,89 @@
+import type { GoogleDriveService } from '@/lib/google-drive'
+import { parsePaperFileKey } from './keys'
+import { StorageError, type PaperStorageBackend, type StoredFileLocation, type StoredPaperFile } from './types'
+
+/**
+ * Stores PDFs in the user's Google Drive, in year/journal/title folders
+ */
+export class GoogleDriveStorageBackend implements PaperStorageBackend {
+  readonly type = 'google_drive' as const
+  private drive: GoogleDriveService
+  private rootFolderId?: string
+
+  constructor(drive: GoogleDriveService, rootFolderId?: string) {
+    this.drive = drive
+    this.rootFolderId = rootFolderId
+  }
+
+  async put(key: string, data: Buffer): Promise<StoredPaperFile> {
+    const { year, journal, title, fileName } = parsePaperFileKey(key)
+    // Drive tells same-named files apart by id, so nothing is replaced
+    const result = await this.drive.uploadPDF(data, fileName, year, journal, title, this.rootFolderId)
+
+    return {
+      backend: this.type,
+      key: [year, journal, title, fileName].join('/'),
+      fileId: result.fileId,
+      url: result.webViewLink,
+      size: data.length
+    }
+  }
+
+  async get(location: StoredFileLocation): Promise<Buffer> {
+    try {
+      return await this.drive.downloadFile(this.fileId(location))
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageError(`File not found in Google Drive: ${location.fileId}`, 'not_found')
+      }
+      throw error
+    }
+  }
+
+  async delete(location: StoredFileLocation): Promise<void> {
+    try {
+      await this.drive.deleteFile(this.fileId(location))
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error
+      }
+    }
+  }
+
+  async exists(location: StoredFileLocation): Promise<boolean> {
+    if (!location.fileId) {
+      return false
+    }
+    try {
+      await this.drive.getFileInfo(location.fileId)
+      return true
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Name of the file in Drive, used to build keys for papers stored before
+   * keys included the file name
+   */
+  async getFileName(location: StoredFileLocation): Promise<string> {
+    const info = await this.drive.getFileInfo(this.fileId(location))
+    return info.name
+  }
+
+  // Drive finds files by id, not by path
+  private fileId(location: StoredFileLocation): string {
+    if (!location.fileId) {
+      throw new StorageError(`No Google Drive file id for ${location.key}`, 'not_found')
+    }
+    return location.fileId
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  const status = (error as { code?: number; status?: number })?.code ?? (error as { status?: number })?.status
+  return status === 404
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { normalizeKey } from './keys'
+import { StorageError, type PaperStorageBackend, type StoredFileLocation, type StoredPaperFile } from './types'
+
+/**
+ * Stores PDFs on the server's disk under a root directory, one per user
+ */
+export class LocalStorageBackend implements PaperStorageBackend {
+  readonly type = 'local' as const
+  private root: string
+
+  constructor(root: string) {
+    this.root = path.resolve(root)
+  }
+
+  async put(key: string, data: Buffer): Promise<StoredPaperFile> {
+    const normalized = normalizeKey(key)
+    const filePath = this.resolvePath(normalized)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+    // Write then link so readers never see a partial file; linking fails
+    // rather than replace another paper's file
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+    try {
+      await fs.writeFile(tempPath, data)
+      await fs.link(tempPath, filePath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'EEXIST') {
+        throw new StorageError(`File already exists: ${normalized}`, 'exists')
+      }
+      throw error
+    } finally {
+      await fs.rm(tempPath, { force: true })
+    }
+
+    return { backend: this.type, key: normalized, size: data.length }
+  }
+
+  async get(location: StoredFileLocation): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath(location.key))
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageError(`File not found: ${location.key}`, 'not_found')
+      }
+      throw error
+    }
+  }
+
+  async delete(location: StoredFileLocation): Promise<void> {
+    const filePath = this.resolvePath(location.key)
+    await fs.rm(filePath, { force: true })
+    await this.removeEmptyParents(path.dirname(filePath))
+  }
+
+  async exists(location: StoredFileLocation): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(location.key))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, normalizeKey(key))
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new StorageError(`Invalid storage key "${key}"`, 'invalid_key')
+    }
+    return filePath
+  }
+
+  // Keep the year/journal/title folders tidy after files move away
+  private async removeEmptyParents(dir: string): Promise<void> {
+    while (dir.startsWith(this.root + path.sep)) {
+      try {
+        await fs.rmdir(dir)
+      } catch {
+        return
+      }
+      dir = path.dirname(dir)
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
@@ -0,0 +1,289 @@
+import * as path from 'path'
+import CryptoJS from 'crypto-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient } from '@/lib/database'
+import { UserGoogleDriveService } from '@/services/google-drive/UserGoogleDriveService'
+import { GoogleDriveStorageBackend } from './GoogleDriveStorageBackend'
+import { LocalStorageBackend } from './LocalStorageBackend'
+import { S3StorageBackend } from './S3StorageBackend'
+import { numberPaperFileKey } from './keys'
+import {
+  STORAGE_BACKENDS,
+  StorageError,
+  type PaperStorageBackend,
+  type S3StorageConfig,
+  type StorageBackendType,
+  type StorageSettings,
+  type StoredFileLocation,
+  type StoredPaperFile
+} from './types'
+
+// Papers in one folder sharing a file name before storing gives up
+const MAX_KEY_ATTEMPTS = 100
+
+/**
+ * The paper columns that say where its PDF is stored
+ */
+export interface PaperFileRow {
+  id: string
+  title: string
+  pdf_path: string | null
+  google_drive_id: string | null
+  google_drive_url: string | null
+  storage_backend: StorageBackendType | null
+}
+
+/**
+ * Storage settings as shown to the user; the S3 secret is never sent back
+ */
+export interface StorageSettingsSummary {
+  backend: StorageBackendType
+  s3?: Omit<S3StorageConfig, 'secretAccessKey'> & { hasSecretAccessKey: boolean }
+  googleDriveConfigured: boolean
+}
+
+export interface StorageSettingsUpdate {
+  backend: StorageBackendType
+  // An empty secretAccessKey keeps the stored one
+  s3?: Partial<S3StorageConfig>
+}
+
+interface StorageSettingsRow {
+  backend: StorageBackendType
+  s3_endpoint: string | null
+  s3_region: string | null
+  s3_bucket: string | null
+  s3_access_key_id: string | null
+  s3_secret_access_key_encrypted: string | null
+  s3_force_path_style: boolean | null
+  s3_prefix: string | null
+}
+
+const STORAGE_SETTINGS_TABLE = 'user_storage_settings'
+const DEFAULT_BACKEND: StorageBackendType = 'google_drive'
+
+/**
+ * Root directory of the local backend; each user gets a subdirectory
+ */
+export function getLocalStorageRoot(): string {
+  return process.env.PAPER_STORAGE_LOCAL_PATH || path.join(process.cwd(), 'storage', 'papers')
+}
+
+/**
+ * The backend holding a paper's PDF, or null when it has none. Papers stored
+ * before backends were selectable are on Google Drive.
+ */
+export function paperStorageBackendOf(row: PaperFileRow): StorageBackendType | null {
+  if (row.storage_backend) {
+    return row.storage_backend
+  }
+  return row.google_drive_id ? 'google_drive' : null
+}
+
+export function paperFileLocation(row: PaperFileRow): StoredFileLocation {
+  return { key: row.pdf_path || '', fileId: row.google_drive_id || undefined }
+}
+
+/**
+ * Store a paper's PDF under `key`, or under `file (2).pdf`, `file (3).pdf`,
+ * ... when another paper with the same title and file name already has it.
+ * The returned key is the one to keep as the paper's `pdf_path`.
+ */
+export async function putPaperFile(backend: PaperStorageBackend, key: string, data: Buffer): Promise<StoredPaperFile> {
+  for (let n = 1; n <= MAX_KEY_ATTEMPTS; n++) {
+    try {
+      return await backend.put(numberPaperFileKey(key, n), data)
+    } catch (error) {
+      if (!(error instanceof StorageError && error.code === 'exists')) {
+        throw error
+      }
+    }
+  }
+  throw new StorageError(`Too many files stored as "${key}"`, 'exists')
+}
+
+/**
+ * Per-user choice of where uploaded PDFs are stored, and the backends for reading them
+ */
+export class PaperStorageService {
+  private supabase: SupabaseClient
+  private readonly encryptionKey = process.env.NEXT_PUBLIC_ENCRYPTION_KEY || 'fallback-key-for-development'
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseAdminClient()
+  }
+
+  async getSettings(userId: string): Promise<StorageSettings> {
+    const { data, error } = await this.supabase
+      .from(STORAGE_SETTINGS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return { backend: DEFAULT_BACKEND }
+      }
+      throw new Error(`Failed to load storage settings: ${error.message}`)
+    }
+
+    return mapSettingsRow(data, this.decryptSecret(data.s3_secret_access_key_encrypted))
+  }
+
+  async getSettingsSummary(userId: string): Promise<StorageSettingsSummary> {
+    const [settings, driveSettings] = await Promise.all([
+      this.getSettings(userId),
+      new UserGoogleDriveService().getUserSettings(userId)
+    ])
+
+    const s3 = settings.s3
+    return {
+      backend: settings.backend,
+      s3: s3
+        ? {
+            endpoint: s3.endpoint,
+            region: s3.region,
+            bucket: s3.bucket,
+            accessKeyId: s3.accessKeyId,
+            forcePathStyle: s3.forcePathStyle,
+            prefix: s3.prefix,
+            hasSecretAccessKey: !!s3.secretAccessKey
+          }
+        : undefined,
+      googleDriveConfigured: !!driveSettings?.refresh_token
+    }
+  }
+
+  /**
+   * Save the user's backend choice; S3 needs a bucket and credentials
+   */
+  async saveSettings(userId: string, update: StorageSettingsUpdate): Promise<StorageSettings> {
+    if (!STORAGE_BACKENDS.includes(update.backend)) {
+      throw new StorageError(`Unknown storage backend "${update.backend}"`, 'not_configured')
+    }
+
+    const current = await this.getSettings(userId)
+    const s3 = update.s3 || current.s3 ? mergeS3Config(current.s3, update.s3) : undefined
+
+    if (update.backend === 's3' && (!s3?.bucket || !s3.accessKeyId || !s3.secretAccessKey)) {
+      throw new StorageError('S3 storage needs a bucket, access key id and secret access key', 'not_configured')
+    }
+
+    const { data, error } = await this.supabase
+      .from(STORAGE_SETTINGS_TABLE)
+      .upsert({
+        user_id: userId,
+        backend: update.backend,
+        s3_endpoint: s3?.endpoint || null,
+        s3_region: s3?.region || null,
+        s3_bucket: s3?.bucket || null,
+        s3_access_key_id: s3?.accessKeyId || null,
+        s3_secret_access_key_encrypted: s3?.secretAccessKey ? this.encryptSecret(s3.secretAccessKey) : null,
+        s3_force_path_style: s3?.forcePathStyle ?? null,
+        s3_prefix: s3?.prefix || null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save storage settings: ${error.message}`)
+    }
+
+    return mapSettingsRow(data, s3?.secretAccessKey || '')
+  }
+
+  /**
+   * A backend for the user: the one in their settings, or the given type.
+   * Throws StorageError when that backend is not configured.
+   */
+  async getBackend(userId: string, type?: StorageBackendType): Promise<PaperStorageBackend> {
+    const settings = await this.getSettings(userId)
+    const backendType = type || settings.backend
+
+    switch (backendType) {
+      case 'local':
+        return new LocalStorageBackend(path.join(getLocalStorageRoot(), userId))
+      case 's3':
+        if (!settings.s3) {
+          throw new StorageError('S3 storage is not configured', 'not_configured')
+        }
+        return new S3StorageBackend(settings.s3)
+      case 'google_drive': {
+        const userDrive = new UserGoogleDriveService()
+        const [drive, driveSettings] = await Promise.all([
+          userDrive.createGoogleDriveService(userId),
+          userDrive.getUserSettings(userId)
+        ])
+        if (!drive) {
+          throw new StorageError('Google Drive is not configured', 'not_configured')
+        }
+        return new GoogleDriveStorageBackend(drive, driveSettings?.root_folder_id || undefined)
+      }
+      default:
+        throw new StorageError(`Unknown storage backend "${backendType}"`, 'not_configured')
+    }
+  }
+
+  /**
+   * Read a paper's PDF from whichever backend holds it
+   */
+  async readPaperFile(userId: string, row: PaperFileRow): Promise<Buffer> {
+    const backendType = paperStorageBackendOf(row)
+    if (!backendType) {
+      throw new StorageError('This paper has no stored PDF', 'not_found')
+    }
+
+    const backend = await this.getBackend(userId, backendType)
+    return backend.get(paperFileLocation(row))
+  }
+
+  /**
+   * Encrypt the S3 secret for storage
+   */
+  private encryptSecret(secret: string): string {
+    return CryptoJS.AES.encrypt(secret, this.encryptionKey).toString()
+  }
+
+  /**
+   * Decrypt the stored S3 secret for use
+   */
+  private decryptSecret(encryptedSecret: string | null): string {
+    if (!encryptedSecret) return ''
+    const bytes = CryptoJS.AES.decrypt(encryptedSecret, this.encryptionKey)
+    return bytes.toString(CryptoJS.enc.Utf8)
+  }
+}
+
+function mergeS3Config(current: S3StorageConfig | undefined, update: Partial<S3StorageConfig> | undefined): S3StorageConfig {
+  const merged = { ...current, ...update } as S3StorageConfig
+  if (!update?.secretAccessKey) {
+    merged.secretAccessKey = current?.secretAccessKey || ''
+  }
+  return merged
+}
+
+function mapSettingsRow(row: StorageSettingsRow, secretAccessKey: string): StorageSettings {
+  const s3: S3StorageConfig | undefined = row.s3_bucket
+    ? {
+        endpoint: row.s3_endpoint || undefined,
+        region: row.s3_region || 'us-east-1',
+        bucket: row.s3_bucket,
+        accessKeyId: row.s3_access_key_id || '',
+        secretAccessKey,
+        forcePathStyle: row.s3_force_path_style ?? undefined,
+        prefix: row.s3_prefix || undefined
+      }
+    : undefined
+
+  return { backend: row.backend, s3 }
+}
+
+let paperStorageServiceInstance: PaperStorageService | null = null
+
+export function getPaperStorageService(): PaperStorageService {
+  if (!paperStorageServiceInstance) {
+    paperStorageServiceInstance = new PaperStorageService()
+  }
+  return paperStorageServiceInstance
+}
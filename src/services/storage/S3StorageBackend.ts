@@ -0,0 +1,121 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3'
+import { normalizeKey } from './keys'
+import {
+  StorageError,
+  type PaperStorageBackend,
+  type S3StorageConfig,
+  type StoredFileLocation,
+  type StoredPaperFile
+} from './types'
+
+/**
+ * Stores PDFs in an S3 bucket or an S3-compatible service such as MinIO
+ */
+export class S3StorageBackend implements PaperStorageBackend {
+  readonly type = 's3' as const
+  private client: S3Client
+  private bucket: string
+  private prefix: string
+
+  constructor(config: S3StorageConfig, client?: S3Client) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new StorageError('S3 storage needs a bucket, access key id and secret access key', 'not_configured')
+    }
+
+    this.bucket = config.bucket
+    this.prefix = config.prefix ? normalizeKey(config.prefix) + '/' : ''
+    this.client = client || new S3Client({
+      endpoint: config.endpoint || undefined,
+      region: config.region || 'us-east-1',
+      forcePathStyle: config.forcePathStyle ?? !!config.endpoint,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey
+      }
+    })
+  }
+
+  async put(key: string, data: Buffer): Promise<StoredPaperFile> {
+    const normalized = normalizeKey(key)
+    try {
+      // Conditional write: the bucket refuses to replace another paper's file
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(normalized),
+        Body: data,
+        ContentType: 'application/pdf',
+        ContentLength: data.length,
+        IfNoneMatch: '*'
+      }))
+    } catch (error) {
+      if (isAlreadyStored(error)) {
+        throw new StorageError(`File already exists: ${normalized}`, 'exists')
+      }
+      throw error
+    }
+    return { backend: this.type, key: normalized, size: data.length }
+  }
+
+  async get(location: StoredFileLocation): Promise<Buffer> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(location.key)
+      }))
+      if (!response.Body) {
+        throw new StorageError(`File not found: ${location.key}`, 'not_found')
+      }
+      return Buffer.from(await response.Body.transformToByteArray())
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageError(`File not found: ${location.key}`, 'not_found')
+      }
+      throw error
+    }
+  }
+
+  async delete(location: StoredFileLocation): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(location.key)
+    }))
+  }
+
+  async exists(location: StoredFileLocation): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(location.key)
+      }))
+      return true
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix + normalizeKey(key)
+  }
+}
+
+// 409 when another conditional write to the key is in flight
+function isAlreadyStored(error: unknown): boolean {
+  const name = (error as { name?: string })?.name
+  const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode
+  return name === 'PreconditionFailed' || name === 'ConditionalRequestConflict' || status === 412 || status === 409
+}
+
+function isNotFound(error: unknown): boolean {
+  const name = (error as { name?: string })?.name
+  const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode
+  return name === 'NoSuchKey' || name === 'NotFound' || status === 404
+}
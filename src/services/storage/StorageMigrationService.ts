@@ -0,0 +1,166 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient, TABLES } from '@/lib/database'
+import { GoogleDriveStorageBackend } from './GoogleDriveStorageBackend'
+import { normalizeKey, resolveLegacyKey } from './keys'
+import {
+  PaperStorageService,
+  paperFileLocation,
+  paperStorageBackendOf,
+  putPaperFile,
+  type PaperFileRow
+} from './PaperStorageService'
+import type { PaperStorageBackend, StorageBackendType } from './types'
+
+export interface StorageMigrationOptions {
+  // Remove each file from its old backend once the paper points at the new copy
+  deleteSource?: boolean
+  // Only move these papers
+  paperIds?: string[]
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface StorageMigrationFailure {
+  paperId: string
+  title: string
+  error: string
+}
+
+export interface StorageMigrationResult {
+  target: StorageBackendType
+  migrated: number
+  // Papers already on the target backend
+  skipped: number
+  failed: StorageMigrationFailure[]
+  // Files copied whose old copy could not be deleted
+  sourceDeleteFailures: StorageMigrationFailure[]
+}
+
+const PAPER_FILE_COLUMNS = 'id, title, pdf_path, google_drive_id, google_drive_url, storage_backend'
+
+/**
+ * Moves a user's PDFs from one storage backend to another. Each paper keeps
+ * the same `pdfPath` key unless the target already holds another file under
+ * it; its row is updated only after the copy succeeds, so an interrupted
+ * migration can simply be run again.
+ */
+export class StorageMigrationService {
+  private supabase: SupabaseClient
+  private storage: PaperStorageService
+
+  constructor(supabase?: SupabaseClient, storage?: PaperStorageService) {
+    this.supabase = supabase || getSupabaseAdminClient()
+    this.storage = storage || new PaperStorageService(this.supabase)
+  }
+
+  async migrateUserFiles(
+    userId: string,
+    target: StorageBackendType,
+    options: StorageMigrationOptions = {}
+  ): Promise<StorageMigrationResult> {
+    const rows = await this.loadPaperFiles(userId, options.paperIds)
+    const targetBackend = await this.storage.getBackend(userId, target)
+    const backends = new Map<StorageBackendType, PaperStorageBackend>([[target, targetBackend]])
+    const result: StorageMigrationResult = { target, migrated: 0, skipped: 0, failed: [], sourceDeleteFailures: [] }
+
+    for (const [index, row] of rows.entries()) {
+      const source = paperStorageBackendOf(row)!
+      if (source === target) {
+        result.skipped++
+      } else {
+        try {
+          if (!backends.has(source)) {
+            backends.set(source, await this.storage.getBackend(userId, source))
+          }
+          const sourceBackend = backends.get(source)!
+          await this.migratePaper(row, sourceBackend, targetBackend, options.deleteSource, result)
+          result.migrated++
+        } catch (error) {
+          result.failed.push({ paperId: row.id, title: row.title, error: errorMessage(error) })
+        }
+      }
+      options.onProgress?.(index + 1, rows.length)
+    }
+
+    return result
+  }
+
+  private async migratePaper(
+    row: PaperFileRow,
+    source: PaperStorageBackend,
+    target: PaperStorageBackend,
+    deleteSource: boolean | undefined,
+    result: StorageMigrationResult
+  ): Promise<void> {
+    const location = paperFileLocation(row)
+    const key = await this.resolveKey(row, source)
+    const data = await source.get(location)
+    const stored = await putPaperFile(target, key, data)
+
+    const { error } = await this.supabase
+      .from(TABLES.PAPERS)
+      .update({
+        storage_backend: target.type,
+        pdf_path: stored.key,
+        google_drive_id: stored.fileId || null,
+        google_drive_url: stored.url || null,
+        last_modified: new Date().toISOString()
+      })
+      .eq('id', row.id)
+
+    if (error) {
+      // The paper still points at the source; drop the orphaned copy
+      await target.delete(stored).catch(() => undefined)
+      throw new Error(`Failed to update paper: ${error.message}`)
+    }
+
+    if (deleteSource) {
+      try {
+        await source.delete(location)
+      } catch (deleteError) {
+        result.sourceDeleteFailures.push({ paperId: row.id, title: row.title, error: errorMessage(deleteError) })
+      }
+    }
+  }
+
+  // Drive papers uploaded before keys named the file only stored the folder path
+  private async resolveKey(row: PaperFileRow, source: PaperStorageBackend): Promise<string> {
+    if (source instanceof GoogleDriveStorageBackend && row.pdf_path?.split('/').filter(Boolean).length !== 4) {
+      const fileName = await source.getFileName(paperFileLocation(row))
+      return resolveLegacyKey(row.pdf_path, fileName, row.title)
+    }
+    return normalizeKey(row.pdf_path || '')
+  }
+
+  private async loadPaperFiles(userId: string, paperIds?: string[]): Promise<PaperFileRow[]> {
+    let query = this.supabase
+      .from(TABLES.PAPERS)
+      .select(PAPER_FILE_COLUMNS)
+      .eq('created_by', userId)
+      .or('google_drive_id.not.is.null,storage_backend.not.is.null')
+      .order('date_added', { ascending: true })
+
+    if (paperIds?.length) {
+      query = query.in('id', paperIds)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to load papers: ${error.message}`)
+    }
+
+    return ((data || []) as PaperFileRow[]).filter(row => paperStorageBackendOf(row) !== null)
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+let storageMigrationServiceInstance: StorageMigrationService | null = null
+
+export function getStorageMigrationService(): StorageMigrationService {
+  if (!storageMigrationServiceInstance) {
+    storageMigrationServiceInstance = new StorageMigrationService()
+  }
+  return storageMigrationServiceInstance
+}
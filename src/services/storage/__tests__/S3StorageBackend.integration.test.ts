@@ -0,0 +1,62 @@
+/**
+ * @jest-environment-options {"customExportConditions": ["node", "node-addons"]}
+ */
+
+/**
+ * Runs the S3 backend against a real S3-compatible server. Start MinIO with
+ * `docker compose -f docker-compose.dev.yml --profile testing up -d minio-test`, then:
+ *
+ * RUN_INTEGRATION_TESTS=true S3_TEST_ENDPOINT=http://localhost:9000 npm test -- S3StorageBackend.integration
+ */
+
+import { CreateBucketCommand, S3Client } from '@aws-sdk/client-s3'
+import { S3StorageBackend } from '../S3StorageBackend'
+import type { S3StorageConfig } from '../types'
+
+const shouldRunIntegrationTests = process.env.S3_TEST_ENDPOINT && process.env.RUN_INTEGRATION_TESTS === 'true'
+
+const describeIf = shouldRunIntegrationTests ? describe : describe.skip
+
+describeIf('S3StorageBackend against MinIO', () => {
+  const config: S3StorageConfig = {
+    endpoint: process.env.S3_TEST_ENDPOINT,
+    region: 'us-east-1',
+    bucket: process.env.S3_TEST_BUCKET || 'paper-storage-test',
+    accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID || 'minioadmin',
+    secretAccessKey: process.env.S3_TEST_SECRET_ACCESS_KEY || 'minioadmin',
+    prefix: `run-${Date.now()}`
+  }
+  const key = '2024/Test Journal/Integration Paper/paper.pdf'
+  const pdf = Buffer.from('%PDF-1.7 integration test')
+  let backend: S3StorageBackend
+
+  beforeAll(async () => {
+    const client = new S3Client({
+      endpoint: config.endpoint,
+      region: config.region,
+      forcePathStyle: true,
+      credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+    })
+    try {
+      await client.send(new CreateBucketCommand({ Bucket: config.bucket }))
+    } catch (error) {
+      const name = (error as { name?: string }).name
+      if (name !== 'BucketAlreadyOwnedByYou' && name !== 'BucketAlreadyExists') {
+        throw error
+      }
+    }
+    backend = new S3StorageBackend(config, client)
+  })
+
+  it('stores, reads and deletes a PDF', async () => {
+    const stored = await backend.put(key, pdf)
+    expect(stored).toEqual({ backend: 's3', key, size: pdf.length })
+
+    expect(await backend.exists(stored)).toBe(true)
+    expect(await backend.get(stored)).toEqual(pdf)
+
+    await backend.delete(stored)
+    expect(await backend.exists(stored)).toBe(false)
+    await expect(backend.get(stored)).rejects.toMatchObject({ code: 'not_found' })
+  })
+})
@@ -0,0 +1,389 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import CryptoJS from 'crypto-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { S3Client } from '@aws-sdk/client-s3'
+import type { GoogleDriveService } from '@/lib/google-drive'
+import { buildPaperFileKey, normalizeKey, numberPaperFileKey, parsePaperFileKey, resolveLegacyKey } from '../keys'
+import { LocalStorageBackend } from '../LocalStorageBackend'
+import { S3StorageBackend } from '../S3StorageBackend'
+import { GoogleDriveStorageBackend } from '../GoogleDriveStorageBackend'
+import { PaperStorageService, paperStorageBackendOf, putPaperFile, type PaperFileRow } from '../PaperStorageService'
+import { StorageMigrationService } from '../StorageMigrationService'
+import {
+  StorageError,
+  type PaperStorageBackend,
+  type StorageBackendType,
+  type StoredFileLocation,
+  type StoredPaperFile
+} from '../types'
+
+jest.mock('@/services/google-drive/UserGoogleDriveService', () => ({
+  UserGoogleDriveService: jest.fn()
+}))
+
+// The SDK's browser build doesn't load under jsdom; commands only need to carry their input
+jest.mock('@aws-sdk/client-s3', () => {
+  class Command {
+    constructor(public input: Record<string, unknown>) {}
+  }
+  return {
+    S3Client: jest.fn(),
+    PutObjectCommand: class PutObjectCommand extends Command {},
+    GetObjectCommand: class GetObjectCommand extends Command {},
+    DeleteObjectCommand: class DeleteObjectCommand extends Command {},
+    HeadObjectCommand: class HeadObjectCommand extends Command {}
+  }
+})
+
+const pdf = Buffer.from('%PDF-1.7 test')
+
+describe('storage keys', () => {
+  it('builds year/journal/title/file keys', () => {
+    expect(buildPaperFileKey({
+      year: '2017',
+      journal: 'NeurIPS',
+      title: 'Attention Is All You Need',
+      fileName: 'attention.pdf'
+    })).toBe('2017/NeurIPS/Attention Is All You Need/attention.pdf')
+  })
+
+  it('removes characters that would change the key structure', () => {
+    const key = buildPaperFileKey({ year: '2020', journal: 'A/B: Journal', title: '..Why? <Not>', fileName: 'paper' })
+    expect(key).toBe('2020/AB Journal/Why Not/paper.pdf')
+    expect(parsePaperFileKey(key)).toEqual({ year: '2020', journal: 'AB Journal', title: 'Why Not', fileName: 'paper.pdf' })
+  })
+
+  it('fills in missing parts', () => {
+    expect(buildPaperFileKey({ title: '', fileName: 'x.PDF' })).toBe(
+      `${new Date().getFullYear()}/Unknown Journal/Untitled/x.PDF`
+    )
+  })
+
+  it.each<[string]>([['../etc/passwd'], ['/abs/file.pdf'], ['a\\b.pdf'], ['a/./b.pdf'], ['']])(
+    'rejects the unsafe key %j',
+    (key: string) => {
+      expect(() => normalizeKey(key)).toThrow(StorageError)
+    }
+  )
+
+  it('resolves keys of papers stored with only the Drive folder path', () => {
+    expect(resolveLegacyKey('2019/Nature/Some Title', 'file.pdf', 'Some Title')).toBe('2019/Nature/Some Title/file.pdf')
+    expect(resolveLegacyKey('2019/Nature/Some Title/file.pdf', 'other.pdf', 'x')).toBe('2019/Nature/Some Title/file.pdf')
+    expect(resolveLegacyKey(null, 'file.pdf', 'Some Title')).toMatch(/\/Unknown Journal\/Some Title\/file\.pdf$/)
+  })
+
+  it('numbers the file name of keys already taken', () => {
+    expect(numberPaperFileKey('2021/Science/Title/paper.pdf', 1)).toBe('2021/Science/Title/paper.pdf')
+    expect(numberPaperFileKey('2021/Science/Title/paper.pdf', 2)).toBe('2021/Science/Title/paper (2).pdf')
+    expect(numberPaperFileKey('2021/Science.v2/Title/paper', 3)).toBe('2021/Science.v2/Title/paper (3)')
+  })
+})
+
+describe('LocalStorageBackend', () => {
+  let root: string
+  let backend: LocalStorageBackend
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'paper-storage-'))
+    backend = new LocalStorageBackend(root)
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('stores, reads and deletes files by key', async () => {
+    const stored = await backend.put('2021/Science/Title/paper.pdf', pdf)
+    expect(stored).toEqual({ backend: 'local', key: '2021/Science/Title/paper.pdf', size: pdf.length })
+    expect(await fs.readFile(path.join(root, '2021/Science/Title/paper.pdf'))).toEqual(pdf)
+
+    expect(await backend.exists(stored)).toBe(true)
+    expect(await backend.get(stored)).toEqual(pdf)
+
+    await backend.delete(stored)
+    expect(await backend.exists(stored)).toBe(false)
+    // Empty folders go too
+    expect(await fs.readdir(root)).toEqual([])
+  })
+
+  it('reports missing files as not_found', async () => {
+    await expect(backend.get({ key: '2021/Science/Title/missing.pdf' })).rejects.toMatchObject({ code: 'not_found' })
+  })
+
+  it('refuses keys outside its root', async () => {
+    await expect(backend.put('../outside.pdf', pdf)).rejects.toMatchObject({ code: 'invalid_key' })
+  })
+
+  it('never replaces a stored file', async () => {
+    await backend.put('2021/Science/Title/paper.pdf', pdf)
+
+    await expect(backend.put('2021/Science/Title/paper.pdf', Buffer.from('other'))).rejects.toMatchObject({ code: 'exists' })
+    expect(await fs.readFile(path.join(root, '2021/Science/Title/paper.pdf'))).toEqual(pdf)
+    expect(await fs.readdir(path.join(root, '2021/Science/Title'))).toEqual(['paper.pdf'])
+  })
+
+  it('keeps both papers when their titles and file names match', async () => {
+    const key = buildPaperFileKey({ year: '2021', journal: 'Science', title: 'Title', fileName: 'paper.pdf' })
+    const other = Buffer.from('%PDF-1.7 other')
+
+    const first = await putPaperFile(backend, key, pdf)
+    const second = await putPaperFile(backend, key, other)
+
+    expect(first.key).toBe('2021/Science/Title/paper.pdf')
+    expect(second.key).toBe('2021/Science/Title/paper (2).pdf')
+    expect(await backend.get(first)).toEqual(pdf)
+    expect(await backend.get(second)).toEqual(other)
+  })
+})
+
+describe('S3StorageBackend', () => {
+  const config = { region: 'us-east-1', bucket: 'papers', accessKeyId: 'key', secretAccessKey: 'secret', prefix: 'user-1' }
+
+  function createBackend(send: jest.Mock) {
+    return new S3StorageBackend(config, { send } as unknown as S3Client)
+  }
+
+  it('puts objects under the prefix', async () => {
+    const send = jest.fn().mockResolvedValue({})
+    const stored = await createBackend(send).put('2021/Science/Title/paper.pdf', pdf)
+
+    expect(stored).toEqual({ backend: 's3', key: '2021/Science/Title/paper.pdf', size: pdf.length })
+    expect(send.mock.calls[0][0].input).toMatchObject({
+      Bucket: 'papers',
+      Key: 'user-1/2021/Science/Title/paper.pdf',
+      ContentType: 'application/pdf',
+      IfNoneMatch: '*'
+    })
+  })
+
+  it('maps a refused conditional write to exists', async () => {
+    const taken = Object.assign(new Error('taken'), { name: 'PreconditionFailed', $metadata: { httpStatusCode: 412 } })
+    const backend = createBackend(jest.fn().mockRejectedValueOnce(taken).mockResolvedValueOnce({}))
+
+    const stored = await putPaperFile(backend, '2021/Science/Title/paper.pdf', pdf)
+
+    expect(stored.key).toBe('2021/Science/Title/paper (2).pdf')
+  })
+
+  it('reads object bodies', async () => {
+    const send = jest.fn().mockResolvedValue({ Body: { transformToByteArray: async () => new Uint8Array(pdf) } })
+    expect(await createBackend(send).get({ key: '2021/Science/Title/paper.pdf' })).toEqual(pdf)
+  })
+
+  it('maps missing objects to not_found', async () => {
+    const missing = Object.assign(new Error('missing'), { name: 'NoSuchKey' })
+    const notFound = Object.assign(new Error('missing'), { name: 'NotFound', $metadata: { httpStatusCode: 404 } })
+    const backend = createBackend(jest.fn().mockRejectedValueOnce(missing).mockRejectedValueOnce(notFound))
+
+    await expect(backend.get({ key: 'a/b/c/d.pdf' })).rejects.toMatchObject({ code: 'not_found' })
+    expect(await backend.exists({ key: 'a/b/c/d.pdf' })).toBe(false)
+  })
+
+  it('needs a bucket and credentials', () => {
+    expect(() => new S3StorageBackend({ ...config, secretAccessKey: '' })).toThrow(StorageError)
+  })
+})
+
+class MemoryBackend implements PaperStorageBackend {
+  files = new Map<string, Buffer>()
+  failPut = false
+
+  constructor(readonly type: StorageBackendType) {}
+
+  async put(key: string, data: Buffer): Promise<StoredPaperFile> {
+    if (this.failPut) throw new Error('disk full')
+    if (this.files.has(key)) throw new StorageError(`File already exists: ${key}`, 'exists')
+    this.files.set(key, data)
+    return { backend: this.type, key, size: data.length }
+  }
+
+  async get(location: StoredFileLocation): Promise<Buffer> {
+    const data = this.files.get(location.key)
+    if (!data) throw new StorageError(`File not found: ${location.key}`, 'not_found')
+    return data
+  }
+
+  async delete(location: StoredFileLocation): Promise<void> {
+    this.files.delete(location.key)
+  }
+
+  async exists(location: StoredFileLocation): Promise<boolean> {
+    return this.files.has(location.key)
+  }
+}
+
+function createSupabase(rows: PaperFileRow[], updateError: { message: string } | null = null) {
+  const updates: Array<{ id: string; values: Record<string, unknown> }> = []
+  const query: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'or', 'order', 'in']) {
+    query[method] = () => query
+  }
+  query.then = (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null })
+
+  const client = {
+    from: () => ({
+      select: () => query,
+      update: (values: Record<string, unknown>) => ({
+        eq: (_column: string, id: string) => {
+          updates.push({ id, values })
+          return Promise.resolve({ error: updateError })
+        }
+      })
+    })
+  }
+
+  return { client: client as unknown as SupabaseClient, updates }
+}
+
+function paperRow(overrides: Partial<PaperFileRow>): PaperFileRow {
+  return {
+    id: 'p1',
+    title: 'Title',
+    pdf_path: '2021/Science/Title/paper.pdf',
+    google_drive_id: null,
+    google_drive_url: null,
+    storage_backend: 'local',
+    ...overrides
+  }
+}
+
+describe('StorageMigrationService', () => {
+  function createService(rows: PaperFileRow[], backends: PaperStorageBackend[], updateError?: { message: string }) {
+    const supabase = createSupabase(rows, updateError)
+    const storage = {
+      getBackend: jest.fn(async (_userId: string, type: StorageBackendType) => backends.find(backend => backend.type === type)!)
+    } as unknown as PaperStorageService
+    return { service: new StorageMigrationService(supabase.client, storage), updates: supabase.updates }
+  }
+
+  it('copies files to the target and keeps the key', async () => {
+    const local = new MemoryBackend('local')
+    const s3 = new MemoryBackend('s3')
+    local.files.set('2021/Science/Title/paper.pdf', pdf)
+    const { service, updates } = createService([paperRow({}), paperRow({ id: 'p2', storage_backend: 's3' })], [local, s3])
+
+    const result = await service.migrateUserFiles('user-1', 's3', { deleteSource: true })
+
+    expect(result).toMatchObject({ target: 's3', migrated: 1, skipped: 1, failed: [], sourceDeleteFailures: [] })
+    expect(s3.files.get('2021/Science/Title/paper.pdf')).toEqual(pdf)
+    expect(local.files.size).toBe(0)
+    expect(updates).toEqual([{
+      id: 'p1',
+      values: expect.objectContaining({
+        storage_backend: 's3',
+        pdf_path: '2021/Science/Title/paper.pdf',
+        google_drive_id: null,
+        google_drive_url: null
+      })
+    }])
+  })
+
+  it('moves legacy Drive papers using the Drive file name', async () => {
+    const drive = {
+      downloadFile: jest.fn().mockResolvedValue(pdf),
+      getFileInfo: jest.fn().mockResolvedValue({ name: 'attention.pdf' }),
+      deleteFile: jest.fn()
+    }
+    const driveBackend = new GoogleDriveStorageBackend(drive as unknown as GoogleDriveService)
+    const local = new MemoryBackend('local')
+    const row = paperRow({ pdf_path: '2017/NeurIPS/Attention', google_drive_id: 'drive-1', storage_backend: null })
+    expect(paperStorageBackendOf(row)).toBe('google_drive')
+
+    const { service, updates } = createService([row], [driveBackend, local])
+    const result = await service.migrateUserFiles('user-1', 'local')
+
+    expect(result.migrated).toBe(1)
+    expect(local.files.has('2017/NeurIPS/Attention/attention.pdf')).toBe(true)
+    expect(updates[0].values).toMatchObject({ pdf_path: '2017/NeurIPS/Attention/attention.pdf', google_drive_id: null })
+    expect(drive.deleteFile).not.toHaveBeenCalled()
+  })
+
+  it('numbers the key when the target holds another file under it', async () => {
+    const local = new MemoryBackend('local')
+    const s3 = new MemoryBackend('s3')
+    const existing = Buffer.from('%PDF-1.7 another paper')
+    local.files.set('2021/Science/Title/paper.pdf', pdf)
+    s3.files.set('2021/Science/Title/paper.pdf', existing)
+    const { service, updates } = createService([paperRow({})], [local, s3])
+
+    const result = await service.migrateUserFiles('user-1', 's3')
+
+    expect(result.migrated).toBe(1)
+    expect(s3.files.get('2021/Science/Title/paper.pdf')).toEqual(existing)
+    expect(s3.files.get('2021/Science/Title/paper (2).pdf')).toEqual(pdf)
+    expect(updates[0].values).toMatchObject({ pdf_path: '2021/Science/Title/paper (2).pdf' })
+  })
+
+  it('leaves papers on their backend when the copy fails', async () => {
+    const local = new MemoryBackend('local')
+    const s3 = new MemoryBackend('s3')
+    local.files.set('2021/Science/Title/paper.pdf', pdf)
+    s3.failPut = true
+    const { service, updates } = createService([paperRow({})], [local, s3])
+
+    const result = await service.migrateUserFiles('user-1', 's3', { deleteSource: true })
+
+    expect(result.migrated).toBe(0)
+    expect(result.failed).toEqual([{ paperId: 'p1', title: 'Title', error: 'disk full' }])
+    expect(updates).toEqual([])
+    expect(local.files.size).toBe(1)
+  })
+
+  it('removes the new copy when the paper cannot be updated', async () => {
+    const local = new MemoryBackend('local')
+    const s3 = new MemoryBackend('s3')
+    local.files.set('2021/Science/Title/paper.pdf', pdf)
+    const { service } = createService([paperRow({})], [local, s3], { message: 'permission denied' })
+
+    const result = await service.migrateUserFiles('user-1', 's3', { deleteSource: true })
+
+    expect(result.failed[0].error).toBe('Failed to update paper: permission denied')
+    expect(s3.files.size).toBe(0)
+    expect(local.files.size).toBe(1)
+  })
+})
+
+describe('PaperStorageService settings', () => {
+  it('keeps the stored S3 secret when the update leaves it empty', async () => {
+    const upsert = jest.fn((row: Record<string, unknown>) => ({
+      select: () => ({ single: async () => ({ data: row, error: null }) })
+    }))
+    const existing = {
+      backend: 's3',
+      s3_region: 'us-east-1',
+      s3_bucket: 'papers',
+      s3_access_key_id: 'key',
+      s3_secret_access_key_encrypted: CryptoJS.AES.encrypt('secret', 'fallback-key-for-development').toString()
+    }
+    const supabase = {
+      from: () => ({
+        select: () => ({ eq: () => ({ single: async () => ({ data: existing, error: null }) }) }),
+        upsert
+      })
+    } as unknown as SupabaseClient
+
+    const settings = await new PaperStorageService(supabase).saveSettings('user-1', {
+      backend: 's3',
+      s3: { bucket: 'papers-2', secretAccessKey: '' }
+    })
+
+    const saved = upsert.mock.calls[0][0]
+    expect(saved).toMatchObject({ s3_bucket: 'papers-2' })
+    expect(saved.s3_secret_access_key_encrypted).not.toBe('secret')
+    expect(CryptoJS.AES.decrypt(saved.s3_secret_access_key_encrypted as string, 'fallback-key-for-development').toString(CryptoJS.enc.Utf8)).toBe('secret')
+    expect(settings.s3).toMatchObject({ bucket: 'papers-2', secretAccessKey: 'secret' })
+  })
+
+  it('rejects S3 without credentials', async () => {
+    const supabase = {
+      from: () => ({
+        select: () => ({ eq: () => ({ single: async () => ({ data: null, error: { code: 'PGRST116', message: 'none' } }) }) })
+      })
+    } as unknown as SupabaseClient
+
+    await expect(new PaperStorageService(supabase).saveSettings('user-1', { backend: 's3', s3: { bucket: 'b' } }))
+      .rejects.toMatchObject({ code: 'not_configured' })
+  })
+})
@@ -0,0 +1,26 @@
+export { STORAGE_BACKENDS, StorageError } from './types'
+export { buildPaperFileKey, normalizeKey, numberPaperFileKey, parsePaperFileKey, resolveLegacyKey } from './keys'
+export { LocalStorageBackend } from './LocalStorageBackend'
+export { S3StorageBackend } from './S3StorageBackend'
+export { GoogleDriveStorageBackend } from './GoogleDriveStorageBackend'
+export {
+  PaperStorageService,
+  getPaperStorageService,
+  getLocalStorageRoot,
+  paperFileLocation,
+  paperStorageBackendOf,
+  putPaperFile
+} from './PaperStorageService'
+export { StorageMigrationService, getStorageMigrationService } from './StorageMigrationService'
+export type {
+  PaperStorageBackend,
+  S3StorageConfig,
+  StorageBackendType,
+  StorageErrorCode,
+  StorageSettings,
+  StoredFileLocation,
+  StoredPaperFile
+} from './types'
+export type { PaperFileKeyParts } from './keys'
+export type { PaperFileRow, StorageSettingsSummary, StorageSettingsUpdate } from './PaperStorageService'
+export type { StorageMigrationFailure, StorageMigrationOptions, StorageMigrationResult } from './StorageMigrationService'
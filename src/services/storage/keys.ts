@@ -0,0 +1,92 @@
+import { StorageError } from './types'
+
+export interface PaperFileKeyParts {
+  year: string
+  journal: string
+  title: string
+  fileName: string
+}
+
+const MAX_SEGMENT_LENGTH = 100
+
+// Characters that are invalid in Windows/Drive names or that would change the key's structure
+function cleanSegment(value: string, fallback: string): string {
+  const cleaned = value
+    .replace(/[<>:"/\\|?*\u0000-\u001F]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .substring(0, MAX_SEGMENT_LENGTH)
+    .trim()
+  return cleaned || fallback
+}
+
+/**
+ * The storage key for a paper's PDF: `year/journal/title/file.pdf`, the folder
+ * layout uploads have always used on Google Drive
+ */
+export function buildPaperFileKey(parts: Partial<PaperFileKeyParts>): string {
+  const fileName = cleanSegment(parts.fileName || '', 'paper.pdf')
+  return [
+    cleanSegment(parts.year || '', new Date().getFullYear().toString()),
+    cleanSegment(parts.journal || '', 'Unknown Journal'),
+    cleanSegment(parts.title || '', 'Untitled'),
+    /\.pdf$/i.test(fileName) ? fileName : `${fileName}.pdf`
+  ].join('/')
+}
+
+/**
+ * The key with ` (n)` added to its file name, for the nth paper whose file
+ * would have the same key. The first keeps the key as it is.
+ */
+export function numberPaperFileKey(key: string, n: number): string {
+  if (n <= 1) {
+    return key
+  }
+  return key.replace(/(\.[^./]*)?$/, extension => ` (${n})${extension}`)
+}
+
+/**
+ * Split a key built by buildPaperFileKey back into its parts
+ */
+export function parsePaperFileKey(key: string): PaperFileKeyParts {
+  const segments = normalizeKey(key).split('/')
+  if (segments.length !== 4) {
+    throw new StorageError(`Storage key "${key}" is not year/journal/title/file`, 'invalid_key')
+  }
+  const [year, journal, title, fileName] = segments
+  return { year, journal, title, fileName }
+}
+
+/**
+ * Validate a relative key so it cannot escape the storage root
+ */
+export function normalizeKey(key: string): string {
+  const segments = key.split('/').filter(Boolean)
+  if (
+    segments.length === 0 ||
+    key.startsWith('/') ||
+    key.includes('\\') ||
+    key.includes('\u0000') ||
+    segments.some(segment => segment === '.' || segment === '..')
+  ) {
+    throw new StorageError(`Invalid storage key "${key}"`, 'invalid_key')
+  }
+  return segments.join('/')
+}
+
+/**
+ * Key for a paper stored before keys included the file name, when `pdfPath`
+ * held only the Drive folder path (`year/journal/title`)
+ */
+export function resolveLegacyKey(pdfPath: string | null | undefined, fileName: string, title: string): string {
+  const segments = (pdfPath || '').split('/').filter(Boolean)
+  if (segments.length === 4) {
+    return normalizeKey(pdfPath!)
+  }
+  if (segments.length === 3) {
+    const [year, journal, folderTitle] = segments
+    return buildPaperFileKey({ year, journal, title: folderTitle, fileName })
+  }
+  return buildPaperFileKey({ title, fileName })
+}
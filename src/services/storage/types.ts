@@ -0,0 +1,59 @@
+export type StorageBackendType = 'google_drive' | 'local' | 's3'
+
+export const STORAGE_BACKENDS: StorageBackendType[] = ['google_drive', 'local', 's3']
+
+/**
+ * Where a paper's PDF lives. `key` is the paper's `pdfPath`: the same
+ * `year/journal/title/file.pdf` path in every backend. Google Drive also
+ * needs the Drive file id.
+ */
+export interface StoredFileLocation {
+  key: string
+  fileId?: string
+}
+
+export interface StoredPaperFile extends StoredFileLocation {
+  backend: StorageBackendType
+  size: number
+  // Browser link to the file, when the backend has one (Google Drive)
+  url?: string
+}
+
+/**
+ * A place to keep paper PDFs. `put` never replaces a stored file: it fails
+ * with `exists` when the key is taken.
+ */
+export interface PaperStorageBackend {
+  readonly type: StorageBackendType
+  put(key: string, data: Buffer): Promise<StoredPaperFile>
+  get(location: StoredFileLocation): Promise<Buffer>
+  delete(location: StoredFileLocation): Promise<void>
+  exists(location: StoredFileLocation): Promise<boolean>
+}
+
+export interface S3StorageConfig {
+  // Leave empty for AWS; set for MinIO and other S3-compatible services
+  endpoint?: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  // Path-style URLs (http://host/bucket/key), which MinIO needs
+  forcePathStyle?: boolean
+  // Key prefix inside the bucket
+  prefix?: string
+}
+
+export interface StorageSettings {
+  backend: StorageBackendType
+  s3?: S3StorageConfig
+}
+
+export type StorageErrorCode = 'not_found' | 'not_configured' | 'invalid_key' | 'exists'
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly code: StorageErrorCode) {
+    super(message)
+    this.name = 'StorageError'
+  }
+}
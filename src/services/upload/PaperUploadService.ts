@@ -1,4 +1,5 @@
 import { Paper } from '@/types';
+import type { StorageBackendType, StoredPaperFile } from '@/services/storage';
 
 // Re-export types for client use
 export interface UploadResult {
@@ -7,6 +8,9 @@ export interface UploadResult {
   webViewLink: string;
   webContentLink: string;
   folderPath: string;
+  // Set when the file went to a backend other than Google Drive; pdfPath is its key
+  storageBackend?: StorageBackendType;
+  storageKey?: string;
 }
 
 export interface UploadConfig {
@@ -113,6 +117,21 @@ export class PaperUploadService {
 
       const { year, journal, paperTitle } = this.generateFolderPath(paperData);
 
+      const storageBackend = await this.getStorageBackend(opts?.accessToken);
+      if (storageBackend !== 'google_drive') {
+        onProgress?.({ stage: 'uploading', progress: 30, message: 'Uploading...' });
+        const stored = await this.uploadToStorage(paperData.file, { year, journal, paperTitle }, opts!.accessToken!);
+        return this.completeUpload(paperData, {
+          fileId: '',
+          fileName: paperData.file.name,
+          webViewLink: '',
+          webContentLink: '',
+          folderPath: stored.key.split('/').slice(0, -1).join('/'),
+          storageBackend: stored.backend,
+          storageKey: stored.key
+        }, onProgress);
+      }
+
       // Stage 3: Start resumable upload session
       onProgress?.({ stage: 'uploading', progress: 30, message: 'Starting upload session...' });
 
@@ -181,36 +200,7 @@ export class PaperUploadService {
         throw new Error('Upload did not finalize properly');
       }
 
-      // Stage 5: Create paper object
-      onProgress?.({
-        stage: 'processing',
-        progress: 95,
-        message: 'Processing paper data...'
-      });
-
-      const paper: Partial<Paper> = {
-        title: paperData.title,
-        authors: paperData.authors,
-        journal: paperData.journal,
-        publicationYear: paperData.publicationYear,
-        doi: paperData.doi,
-        abstract: paperData.abstract,
-        googleDriveId: finalResult.fileId,
-        googleDriveUrl: finalResult.webViewLink,
-        pdfPath: finalResult.folderPath,
-        readingStatus: 'unread',
-        dateAdded: new Date(),
-        lastModified: new Date()
-      };
-
-      // Stage 6: Complete
-      onProgress?.({
-        stage: 'complete',
-        progress: 100,
-        message: 'Upload completed successfully!'
-      });
-
-      return { paper, uploadResult: finalResult };
+      return this.completeUpload(paperData, finalResult, onProgress);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -226,6 +216,126 @@ export class PaperUploadService {
     }
   }
 
+  private completeUpload(
+    paperData: PaperUploadData,
+    uploadResult: UploadResult,
+    onProgress?: (progress: UploadProgress) => void
+  ): { paper: Partial<Paper>; uploadResult: UploadResult } {
+    onProgress?.({
+      stage: 'processing',
+      progress: 95,
+      message: 'Processing paper data...'
+    });
+
+    const storedOnDrive = !uploadResult.storageBackend;
+    const paper: Partial<Paper> = {
+      title: paperData.title,
+      authors: paperData.authors,
+      journal: paperData.journal,
+      publicationYear: paperData.publicationYear,
+      doi: paperData.doi,
+      abstract: paperData.abstract,
+      googleDriveId: storedOnDrive ? uploadResult.fileId : undefined,
+      googleDriveUrl: storedOnDrive ? uploadResult.webViewLink : undefined,
+      pdfPath: uploadResult.storageKey || uploadResult.folderPath,
+      storageBackend: uploadResult.storageBackend || 'google_drive',
+      readingStatus: 'unread',
+      dateAdded: new Date(),
+      lastModified: new Date()
+    };
+
+    onProgress?.({
+      stage: 'complete',
+      progress: 100,
+      message: 'Upload completed successfully!'
+    });
+
+    return { paper, uploadResult };
+  }
+
+  /**
+   * The backend the user stores new uploads on; Google Drive when it can't be loaded
+   */
+  private async getStorageBackend(accessToken?: string): Promise<StorageBackendType> {
+    if (!accessToken) {
+      return 'google_drive';
+    }
+
+    try {
+      const response = await fetch('/api/storage/settings', {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      if (!response.ok) {
+        return 'google_drive';
+      }
+      const { data } = await response.json();
+      return data?.backend || 'google_drive';
+    } catch (error) {
+      console.error('Error loading storage settings:', error);
+      return 'google_drive';
+    }
+  }
+
+  /**
+   * Upload to the user's local or S3 storage in a single request
+   */
+  private async uploadToStorage(
+    file: File,
+    folder: { year: string; journal: string; paperTitle: string },
+    accessToken: string
+  ): Promise<StoredPaperFile> {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('year', folder.year);
+    form.append('journal', folder.journal);
+    form.append('paperTitle', folder.paperTitle);
+
+    const response = await fetch('/api/storage/upload', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: form
+    });
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`Upload failed: ${errText}`);
+    }
+
+    const { data } = await response.json();
+    return data;
+  }
+
+  /**
+   * Run server-side full-text extraction for an uploaded (and persisted) paper.
+   * Extraction failures are non-fatal: the paper stays usable with metadata only.
+   */
+  async extractPaperText(
+    paperId: string,
+    file: File,
+    opts?: { accessToken?: string }
+  ): Promise<{ status: string; pageCount: number; charCount: number } | null> {
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('source', 'upload');
+
+      const response = await fetch(`/api/papers/${encodeURIComponent(paperId)}/full-text`, {
+        method: 'POST',
+        headers: opts?.accessToken ? { Authorization: `Bearer ${opts.accessToken}` } : undefined,
+        body: form
+      });
+
+      if (!response.ok) {
+        throw new Error(`Text extraction failed: ${response.statusText}`);
+      }
+
+      const { data } = await response.json();
+      return data;
+    } catch (error) {
+      console.error('Error extracting paper text:', error);
+      return null;
+    }
+  }
+
   /**
    * Upload multiple papers in batch
    */
@@ -256,28 +366,34 @@ export class PaperUploadService {
   }
 
   /**
-   * Check if paper already exists
+   * Check if paper already exists in the user's library (same matching as
+   * library-wide duplicate detection and bibliography imports)
    */
   async checkDuplicatePaper(
     title: string,
     year?: number,
-    journal?: string
+    journal?: string,
+    options?: { doi?: string; authors?: string[]; accessToken?: string }
   ): Promise<boolean> {
     try {
       const params = new URLSearchParams({
         title,
         ...(year && { year: year.toString() }),
-        ...(journal && { journal })
+        ...(journal && { journal }),
+        ...(options?.doi && { doi: options.doi })
       });
+      options?.authors?.forEach(author => params.append('authors', author));
 
-      const response = await fetch(`/api/google-drive/check-duplicate?${params}`);
+      const response = await fetch(`/api/papers/duplicates/check?${params}`, {
+        headers: options?.accessToken ? { Authorization: `Bearer ${options.accessToken}` } : undefined
+      });
       
       if (!response.ok) {
         throw new Error(`Check failed: ${response.statusText}`);
       }
 
-      const { exists } = await response.json();
-      return exists;
+      const { data } = await response.json();
+      return !!data?.isDuplicate;
     } catch (error) {
       console.error('Error checking duplicate paper:', error);
       return false;
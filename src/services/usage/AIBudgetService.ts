@@ -0,0 +1,523 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AIProvider } from '@/lib/database'
+import { getNotificationService } from '@/services/notifications/NotificationService'
+
+export type AIBudgetPeriod = 'daily' | 'monthly'
+
+export type AISpendSource = 'analysis' | 'rag'
+
+export interface AIBudget {
+  id: string
+  userId: string
+  // Null covers all providers
+  provider: AIProvider | null
+  period: AIBudgetPeriod
+  limitUsd: number
+  // Percentages of the limit at which the user is warned, once per period
+  warningThresholds: number[]
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface AIBudgetStatus extends AIBudget {
+  spentUsd: number
+  remainingUsd: number
+  percentUsed: number
+  periodStart: Date
+  resetsAt: Date
+  // Spent up to the limit: requests it covers are refused until it resets
+  exceeded: boolean
+}
+
+export interface AIBudgetInput {
+  provider?: AIProvider | null
+  period: AIBudgetPeriod
+  limitUsd: number
+  warningThresholds?: number[]
+  isActive?: boolean
+}
+
+export interface AISpendRecord {
+  provider: AIProvider
+  costUsd: number
+  tokensUsed?: number
+  source: AISpendSource
+  paperId?: string
+}
+
+/**
+ * One day of the month in the burn-down: what was spent by the end of it and,
+ * from today on, what is forecast
+ */
+export interface AISpendDay {
+  // YYYY-MM-DD, UTC
+  date: string
+  spentUsd: number
+  // Spent this month by the end of the day; null for days still to come
+  cumulativeUsd: number | null
+  // Forecast spend by the end of the day; null for days before today
+  projectedUsd: number | null
+  // The monthly budget left, actual and forecast; null without a budget
+  remainingUsd: number | null
+  projectedRemainingUsd: number | null
+  // Left if the budget were spent evenly over the month
+  idealRemainingUsd: number | null
+}
+
+export interface AISpendForecast {
+  monthStart: Date
+  daysInMonth: number
+  spentUsd: number
+  // End-of-month spend at the average daily rate so far
+  forecastUsd: number
+  // The monthly budget across all providers, if there is one
+  monthlyLimitUsd: number | null
+  // When the monthly budget runs out at that rate, if before the month ends
+  exhaustedAt: Date | null
+  byProvider: Partial<Record<AIProvider, number>>
+  days: AISpendDay[]
+}
+
+/**
+ * A request was refused because one of the user's budgets is spent
+ */
+export class AIBudgetExceededError extends Error {
+  budget: AIBudgetStatus
+
+  constructor(budget: AIBudgetStatus) {
+    const scope = budget.provider ? `${budget.provider} ` : ''
+    super(
+      `${budget.period === 'daily' ? 'Daily' : 'Monthly'} ${scope}AI budget of ${formatUsd(budget.limitUsd)} is spent ` +
+      `(${formatUsd(budget.spentUsd)}); it resets at ${budget.resetsAt.toISOString()}`
+    )
+    this.name = 'AIBudgetExceededError'
+    this.budget = budget
+  }
+}
+
+const BUDGETS_TABLE = 'ai_budgets'
+const SPEND_TABLE = 'ai_spend'
+const WARNINGS_TABLE = 'ai_budget_warnings'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_WARNING_THRESHOLDS = [80, 100]
+
+interface BudgetRow {
+  id: string
+  user_id: string
+  provider: AIProvider | null
+  period: AIBudgetPeriod
+  limit_usd: number | string
+  warning_thresholds: number[] | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+interface SpendRow {
+  provider: AIProvider
+  cost_usd: number | string
+  created_at: string
+}
+
+/**
+ * Start of the budget period `now` falls in. Periods follow UTC days and months.
+ */
+export function budgetPeriodStart(period: AIBudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+/**
+ * When the budget period `now` falls in ends and its spend starts from zero
+ */
+export function budgetPeriodEnd(period: AIBudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+}
+
+/**
+ * Forecast this month's spend from what was spent each day so far, assuming
+ * the average daily rate holds for the rest of the month
+ */
+export function forecastMonthlySpend(
+  dailySpend: Map<string, number>,
+  monthlyLimitUsd: number | null,
+  now: Date = new Date()
+): Omit<AISpendForecast, 'byProvider'> {
+  const monthStart = budgetPeriodStart('monthly', now)
+  const monthEnd = budgetPeriodEnd('monthly', now)
+  const daysInMonth = Math.round((monthEnd.getTime() - monthStart.getTime()) / DAY_MS)
+
+  const spentUsd = Array.from(dailySpend.values()).reduce((sum, cost) => sum + cost, 0)
+  // A month's first hours say little about its rate, so count at least a day
+  const elapsedDays = Math.max(1, (now.getTime() - monthStart.getTime()) / DAY_MS)
+  const dailyRate = spentUsd / elapsedDays
+  const forecastUsd = spentUsd + dailyRate * (monthEnd.getTime() - now.getTime()) / DAY_MS
+
+  let exhaustedAt: Date | null = null
+  if (monthlyLimitUsd !== null && spentUsd < monthlyLimitUsd && forecastUsd > monthlyLimitUsd && dailyRate > 0) {
+    exhaustedAt = new Date(now.getTime() + ((monthlyLimitUsd - spentUsd) / dailyRate) * DAY_MS)
+  }
+
+  const today = budgetPeriodStart('daily', now).getTime()
+  const days: AISpendDay[] = []
+  let cumulative = 0
+
+  for (let day = 0; day < daysInMonth; day++) {
+    const dayStart = monthStart.getTime() + day * DAY_MS
+    const date = new Date(dayStart).toISOString().slice(0, 10)
+    const spent = dailySpend.get(date) || 0
+    cumulative += spent
+
+    const past = dayStart <= today
+    const projected = dayStart >= today
+      ? spentUsd + dailyRate * (dayStart + DAY_MS - now.getTime()) / DAY_MS
+      : null
+
+    days.push({
+      date,
+      spentUsd: past ? roundUsd(spent) : 0,
+      cumulativeUsd: past ? roundUsd(cumulative) : null,
+      projectedUsd: projected === null ? null : roundUsd(projected),
+      remainingUsd: monthlyLimitUsd !== null && past ? roundUsd(monthlyLimitUsd - cumulative) : null,
+      projectedRemainingUsd: monthlyLimitUsd !== null && projected !== null ? roundUsd(monthlyLimitUsd - projected) : null,
+      idealRemainingUsd: monthlyLimitUsd !== null
+        ? roundUsd(monthlyLimitUsd * (1 - (day + 1) / daysInMonth))
+        : null
+    })
+  }
+
+  return {
+    monthStart,
+    daysInMonth,
+    spentUsd: roundUsd(spentUsd),
+    forecastUsd: roundUsd(forecastUsd),
+    monthlyLimitUsd,
+    exhaustedAt,
+    days
+  }
+}
+
+/**
+ * Per-user AI spending budgets. Records the USD cost of AI analyses and RAG
+ * answers, refuses new requests once a daily or monthly budget is spent, and
+ * warns users as their spend crosses a budget's thresholds.
+ */
+export class AIBudgetService {
+  private supabase: SupabaseClient
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase
+  }
+
+  /**
+   * The user's budgets
+   */
+  async getBudgets(userId: string): Promise<AIBudget[]> {
+    const { data, error } = await this.supabase
+      .from(BUDGETS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('period')
+      .order('created_at')
+
+    if (error) {
+      throw new Error(`Failed to load AI budgets: ${error.message}`)
+    }
+
+    return ((data || []) as BudgetRow[]).map(mapBudget)
+  }
+
+  /**
+   * Create or change the user's budget for a period and provider (or all
+   * providers without one)
+   */
+  async setBudget(userId: string, input: AIBudgetInput): Promise<AIBudget> {
+    const provider = input.provider ?? null
+    const thresholds = normalizeThresholds(input.warningThresholds ?? DEFAULT_WARNING_THRESHOLDS)
+
+    let query = this.supabase
+      .from(BUDGETS_TABLE)
+      .select('id')
+      .eq('user_id', userId)
+      .eq('period', input.period)
+    query = provider ? query.eq('provider', provider) : query.is('provider', null)
+
+    const { data: existing, error: findError } = await query.maybeSingle()
+    if (findError) {
+      throw new Error(`Failed to load AI budget: ${findError.message}`)
+    }
+
+    const values = {
+      limit_usd: input.limitUsd,
+      warning_thresholds: thresholds,
+      is_active: input.isActive ?? true
+    }
+
+    const { data, error } = existing
+      ? await this.supabase
+        .from(BUDGETS_TABLE)
+        .update(values)
+        .eq('id', (existing as { id: string }).id)
+        .select('*')
+        .single()
+      : await this.supabase
+        .from(BUDGETS_TABLE)
+        .insert({ ...values, user_id: userId, provider, period: input.period })
+        .select('*')
+        .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to save AI budget: ${error?.message ?? 'no budget returned'}`)
+    }
+
+    return mapBudget(data as BudgetRow)
+  }
+
+  /**
+   * Remove one of the user's budgets. Returns whether it existed.
+   */
+  async deleteBudget(userId: string, budgetId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(BUDGETS_TABLE)
+      .delete()
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete AI budget: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * The user's active budgets with what has been spent against them in the
+   * current period
+   */
+  async getBudgetStatuses(userId: string, now: Date = new Date()): Promise<AIBudgetStatus[]> {
+    const budgets = (await this.getBudgets(userId)).filter(budget => budget.isActive)
+    if (budgets.length === 0) {
+      return []
+    }
+
+    const spend = await this.loadSpend(userId, budgetPeriodStart('monthly', now))
+    return budgets.map(budget => budgetStatus(budget, spend, now))
+  }
+
+  /**
+   * Throw AIBudgetExceededError if a budget covering the provider is spent
+   */
+  async assertWithinBudget(userId: string, provider: AIProvider, now: Date = new Date()): Promise<void> {
+    const exceeded = (await this.getBudgetStatuses(userId, now))
+      .find(status => status.exceeded && (status.provider === null || status.provider === provider))
+
+    if (exceeded) {
+      throw new AIBudgetExceededError(exceeded)
+    }
+  }
+
+  /**
+   * Record what a request cost, and warn the user about budgets whose
+   * thresholds it crossed
+   */
+  async recordSpend(userId: string, spend: AISpendRecord): Promise<void> {
+    const { error } = await this.supabase
+      .from(SPEND_TABLE)
+      .insert({
+        user_id: userId,
+        provider: spend.provider,
+        source: spend.source,
+        cost_usd: Math.max(0, spend.costUsd),
+        tokens_used: spend.tokensUsed ?? null,
+        paper_id: spend.paperId ?? null
+      })
+
+    if (error) {
+      throw new Error(`Failed to record AI spend: ${error.message}`)
+    }
+
+    if (spend.costUsd > 0) {
+      await this.sendWarnings(userId, spend.provider)
+    }
+  }
+
+  /**
+   * This month's spend by day and provider with the end-of-month forecast
+   * against the user's monthly budget across all providers
+   */
+  async getForecast(userId: string, now: Date = new Date()): Promise<AISpendForecast> {
+    const [spend, budgets] = await Promise.all([
+      this.loadSpend(userId, budgetPeriodStart('monthly', now)),
+      this.getBudgets(userId)
+    ])
+
+    const monthlyBudget = budgets.find(budget =>
+      budget.isActive && budget.period === 'monthly' && budget.provider === null
+    )
+
+    const dailySpend = new Map<string, number>()
+    const byProvider: Partial<Record<AIProvider, number>> = {}
+    for (const row of spend) {
+      const date = row.createdAt.toISOString().slice(0, 10)
+      dailySpend.set(date, (dailySpend.get(date) || 0) + row.costUsd)
+      byProvider[row.provider] = roundUsd((byProvider[row.provider] || 0) + row.costUsd)
+    }
+
+    return {
+      ...forecastMonthlySpend(dailySpend, monthlyBudget?.limitUsd ?? null, now),
+      byProvider
+    }
+  }
+
+  /**
+   * Notify the user once per period of each threshold their spend has reached
+   * in a budget covering the provider
+   */
+  private async sendWarnings(userId: string, provider: AIProvider): Promise<void> {
+    const now = new Date()
+    const statuses = (await this.getBudgetStatuses(userId, now))
+      .filter(status => status.provider === null || status.provider === provider)
+
+    for (const status of statuses) {
+      const reached = status.warningThresholds.filter(threshold => status.percentUsed >= threshold)
+      if (reached.length === 0) continue
+
+      const { data, error } = await this.supabase
+        .from(WARNINGS_TABLE)
+        .upsert(
+          reached.map(threshold => ({
+            budget_id: status.id,
+            period_start: status.periodStart.toISOString().slice(0, 10),
+            threshold
+          })),
+          { onConflict: 'budget_id,period_start,threshold', ignoreDuplicates: true }
+        )
+        .select('threshold')
+
+      if (error) {
+        console.error(`Failed to record AI budget warnings of budget ${status.id}:`, error)
+        continue
+      }
+
+      // Only the highest newly reached threshold is worth a notification
+      const newThresholds = ((data || []) as { threshold: number }[]).map(row => row.threshold)
+      if (newThresholds.length > 0) {
+        await notifyBudgetWarning(userId, status, Math.max(...newThresholds))
+      }
+    }
+  }
+
+  private async loadSpend(
+    userId: string,
+    since: Date
+  ): Promise<{ provider: AIProvider; costUsd: number; createdAt: Date }[]> {
+    const { data, error } = await this.supabase
+      .from(SPEND_TABLE)
+      .select('provider, cost_usd, created_at')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+
+    if (error) {
+      throw new Error(`Failed to load AI spend: ${error.message}`)
+    }
+
+    return ((data || []) as SpendRow[]).map(row => ({
+      provider: row.provider,
+      costUsd: Number(row.cost_usd),
+      createdAt: new Date(row.created_at)
+    }))
+  }
+}
+
+/**
+ * Factory function to create AIBudgetService instance
+ */
+export function createAIBudgetService(supabase: SupabaseClient): AIBudgetService {
+  return new AIBudgetService(supabase)
+}
+
+function budgetStatus(
+  budget: AIBudget,
+  spend: { provider: AIProvider; costUsd: number; createdAt: Date }[],
+  now: Date
+): AIBudgetStatus {
+  const periodStart = budgetPeriodStart(budget.period, now)
+  const spentUsd = spend
+    .filter(row => row.createdAt >= periodStart && (budget.provider === null || row.provider === budget.provider))
+    .reduce((sum, row) => sum + row.costUsd, 0)
+
+  return {
+    ...budget,
+    spentUsd: roundUsd(spentUsd),
+    remainingUsd: roundUsd(Math.max(0, budget.limitUsd - spentUsd)),
+    percentUsed: budget.limitUsd > 0 ? Math.round((spentUsd / budget.limitUsd) * 1000) / 10 : 0,
+    periodStart,
+    resetsAt: budgetPeriodEnd(budget.period, now),
+    exceeded: spentUsd >= budget.limitUsd
+  }
+}
+
+async function notifyBudgetWarning(userId: string, status: AIBudgetStatus, threshold: number): Promise<void> {
+  try {
+    const notificationService = await getNotificationService()
+    if (!notificationService) return
+
+    const scope = status.provider ? `${status.provider} ` : ''
+    const period = status.period === 'daily' ? 'daily' : 'monthly'
+    const message = threshold >= 100
+      ? `Your ${period} ${scope}AI budget of ${formatUsd(status.limitUsd)} is spent. AI requests it covers are paused until ${status.resetsAt.toLocaleString()}.`
+      : `You've spent ${formatUsd(status.spentUsd)} (${Math.floor(status.percentUsed)}%) of your ${period} ${scope}AI budget of ${formatUsd(status.limitUsd)}.`
+
+    await notificationService.sendNotification(userId, {
+      type: 'ai_budget_warning',
+      title: threshold >= 100 ? 'AI Budget Spent' : 'AI Budget Warning',
+      message,
+      data: {
+        budgetId: status.id,
+        provider: status.provider,
+        period: status.period,
+        threshold,
+        limitUsd: status.limitUsd,
+        spentUsd: status.spentUsd
+      },
+      priority: threshold >= 100 ? 'high' : 'medium'
+    })
+  } catch (error) {
+    // A missed warning must not fail the request that was charged
+    console.error('Failed to send AI budget warning:', error)
+  }
+}
+
+function mapBudget(row: BudgetRow): AIBudget {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    provider: row.provider,
+    period: row.period,
+    limitUsd: Number(row.limit_usd),
+    warningThresholds: row.warning_thresholds || [],
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function normalizeThresholds(thresholds: number[]): number[] {
+  return Array.from(new Set(thresholds.map(threshold => Math.round(threshold))))
+    .filter(threshold => threshold > 0 && threshold <= 100)
+    .sort((a, b) => a - b)
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1000000) / 1000000
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`
+}
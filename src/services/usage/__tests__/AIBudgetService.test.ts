@@ -0,0 +1,186 @@
+import { AIBudgetService, AIBudgetExceededError, forecastMonthlySpend } from '../AIBudgetService'
+import { createSupabaseMock } from '@/lib/__mocks__/supabase-client'
+import { getNotificationService } from '@/services/notifications/NotificationService'
+
+jest.mock('@/services/notifications/NotificationService', () => ({
+  getNotificationService: jest.fn()
+}))
+
+const mockGetNotificationService = getNotificationService as jest.MockedFunction<typeof getNotificationService>
+
+function budgetRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'budget-1',
+    user_id: 'user-1',
+    provider: null,
+    period: 'monthly',
+    limit_usd: '10.00',
+    warning_thresholds: [80, 100],
+    is_active: true,
+    created_at: '2026-09-01T00:00:00.000Z',
+    updated_at: '2026-09-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+function spendRow(provider: string, cost: number, createdAt: string) {
+  return { provider, cost_usd: cost.toFixed(6), created_at: createdAt }
+}
+
+const now = new Date('2026-10-11T12:00:00.000Z')
+
+describe('forecastMonthlySpend', () => {
+  it('projects the average daily spend to the end of the month', () => {
+    const dailySpend = new Map([['2026-10-01', 2], ['2026-10-05', 3]])
+
+    const forecast = forecastMonthlySpend(dailySpend, 20, now)
+
+    // $5 over 10.5 days, with 20.5 days to go in a 31-day month
+    expect(forecast.daysInMonth).toBe(31)
+    expect(forecast.spentUsd).toBe(5)
+    expect(forecast.forecastUsd).toBeCloseTo(5 + (5 / 10.5) * 20.5, 4)
+    // $15 left at about $0.48 a day lasts until the month is over
+    expect(forecast.exhaustedAt).toBeNull()
+
+    expect(forecast.days).toHaveLength(31)
+    expect(forecast.days[4]).toMatchObject({ date: '2026-10-05', spentUsd: 3, cumulativeUsd: 5, remainingUsd: 15, projectedUsd: null })
+    expect(forecast.days[10]).toMatchObject({ date: '2026-10-11', cumulativeUsd: 5 })
+    expect(forecast.days[10].projectedUsd).toBeCloseTo(5 + 5 / 10.5 * 0.5, 4)
+    expect(forecast.days[30]).toMatchObject({ date: '2026-10-31', cumulativeUsd: null, remainingUsd: null, idealRemainingUsd: 0 })
+    expect(forecast.days[30].projectedUsd).toBeCloseTo(forecast.forecastUsd, 4)
+  })
+
+  it('says when the budget runs out at the current rate', () => {
+    const forecast = forecastMonthlySpend(new Map([['2026-10-02', 10.5]]), 21, now)
+
+    // $1 a day reaches the remaining $10.50 ten and a half days from now
+    expect(forecast.exhaustedAt).toEqual(new Date('2026-10-22T00:00:00.000Z'))
+  })
+
+  it('leaves the budget lines out without a budget', () => {
+    const forecast = forecastMonthlySpend(new Map(), null, now)
+
+    expect(forecast).toMatchObject({ spentUsd: 0, forecastUsd: 0, monthlyLimitUsd: null, exhaustedAt: null })
+    expect(forecast.days.every(day => day.remainingUsd === null && day.idealRemainingUsd === null)).toBe(true)
+  })
+})
+
+describe('AIBudgetService', () => {
+  const sendNotification = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetNotificationService.mockResolvedValue({ sendNotification } as any)
+  })
+
+  describe('assertWithinBudget', () => {
+    it('refuses a provider whose daily budget is spent', async () => {
+      const { client } = createSupabaseMock({
+        ai_budgets: [{ data: [budgetRow({ id: 'budget-2', provider: 'openai', period: 'daily', limit_usd: '1.00' })] }],
+        ai_spend: [{
+          data: [
+            spendRow('openai', 0.6, '2026-10-11T08:00:00.000Z'),
+            spendRow('openai', 0.5, '2026-10-11T10:00:00.000Z')
+          ]
+        }]
+      })
+
+      const error = await new AIBudgetService(client).assertWithinBudget('user-1', 'openai', now).catch(e => e)
+
+      expect(error).toBeInstanceOf(AIBudgetExceededError)
+      expect(error.budget).toMatchObject({ id: 'budget-2', spentUsd: 1.1, exceeded: true })
+      expect(error.message).toBe('Daily openai AI budget of $1.00 is spent ($1.10); it resets at 2026-10-12T00:00:00.000Z')
+    })
+
+    it('counts only spend of the current period and the budget\'s provider', async () => {
+      const { client } = createSupabaseMock({
+        ai_budgets: [{ data: [budgetRow({ provider: 'anthropic', period: 'daily', limit_usd: '1.00' })] }],
+        ai_spend: [{
+          data: [
+            spendRow('anthropic', 2, '2026-10-10T20:00:00.000Z'),
+            spendRow('openai', 2, '2026-10-11T08:00:00.000Z')
+          ]
+        }]
+      })
+      const service = new AIBudgetService(client)
+
+      await expect(service.assertWithinBudget('user-1', 'openai', now)).resolves.toBeUndefined()
+    })
+
+    it('ignores inactive budgets', async () => {
+      const { client, queries } = createSupabaseMock({
+        ai_budgets: [{ data: [budgetRow({ is_active: false, limit_usd: '0.01' })] }]
+      })
+
+      await expect(new AIBudgetService(client).assertWithinBudget('user-1', 'gemini', now)).resolves.toBeUndefined()
+      expect(queries.map(({ table }) => table)).toEqual(['ai_budgets'])
+    })
+  })
+
+  describe('recordSpend', () => {
+    it('warns once about the highest threshold newly reached', async () => {
+      const { client, queries } = createSupabaseMock({
+        ai_budgets: [{ data: [budgetRow()] }],
+        ai_spend: [
+          { data: null },
+          { data: [spendRow('openai', 10.2, '2026-10-11T11:00:00.000Z')] }
+        ],
+        ai_budget_warnings: [{ data: [{ threshold: 80 }, { threshold: 100 }] }]
+      })
+
+      await new AIBudgetService(client).recordSpend('user-1', {
+        provider: 'openai',
+        costUsd: 10.2,
+        tokensUsed: 1200,
+        source: 'rag'
+      })
+
+      expect(queries[0].calls[0]).toEqual(['insert', [{
+        user_id: 'user-1',
+        provider: 'openai',
+        source: 'rag',
+        cost_usd: 10.2,
+        tokens_used: 1200,
+        paper_id: null
+      }]])
+
+      const upsert = queries.find(({ table }) => table === 'ai_budget_warnings')
+      expect(upsert?.calls[0][1][0]).toEqual([
+        { budget_id: 'budget-1', period_start: '2026-10-01', threshold: 80 },
+        { budget_id: 'budget-1', period_start: '2026-10-01', threshold: 100 }
+      ])
+
+      expect(sendNotification).toHaveBeenCalledTimes(1)
+      expect(sendNotification).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        type: 'ai_budget_warning',
+        title: 'AI Budget Spent',
+        priority: 'high',
+        data: expect.objectContaining({ budgetId: 'budget-1', threshold: 100 })
+      }))
+    })
+
+    it('sends nothing for thresholds already warned about', async () => {
+      const { client } = createSupabaseMock({
+        ai_budgets: [{ data: [budgetRow()] }],
+        ai_spend: [
+          { data: null },
+          { data: [spendRow('openai', 8.5, '2026-10-11T11:00:00.000Z')] }
+        ],
+        ai_budget_warnings: [{ data: [] }]
+      })
+
+      await new AIBudgetService(client).recordSpend('user-1', { provider: 'openai', costUsd: 0.5, source: 'analysis' })
+
+      expect(sendNotification).not.toHaveBeenCalled()
+    })
+
+    it('skips the warnings for requests that cost nothing', async () => {
+      const { client, queries } = createSupabaseMock({ ai_spend: [{ data: null }] })
+
+      await new AIBudgetService(client).recordSpend('user-1', { provider: 'openai-compatible', costUsd: 0, source: 'rag' })
+
+      expect(queries).toHaveLength(1)
+      expect(sendNotification).not.toHaveBeenCalled()
+    })
+  })
+})
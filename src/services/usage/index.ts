@@ -5,4 +5,22 @@ export type {
   UsageStatistics,
   SuspiciousActivity,
   UserRateLimit
-} from './APIUsageService'
\ No newline at end of file
+} from './APIUsageService'
+export {
+  AIBudgetService,
+  AIBudgetExceededError,
+  createAIBudgetService,
+  budgetPeriodStart,
+  budgetPeriodEnd,
+  forecastMonthlySpend
+} from './AIBudgetService'
+export type {
+  AIBudget,
+  AIBudgetInput,
+  AIBudgetPeriod,
+  AIBudgetStatus,
+  AISpendDay,
+  AISpendForecast,
+  AISpendRecord,
+  AISpendSource
+} from './AIBudgetService'
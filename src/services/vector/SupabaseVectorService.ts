@@ -1,8 +1,24 @@
-import { OpenAIEmbeddings } from '@langchain/openai'
 import { SupabaseVectorStore } from '@langchain/community/vectorstores/supabase'
 import { Document } from '@langchain/core/documents'
 import { getSupabaseAdminClient, TABLES, type MatchDocumentsResult } from '@/lib/database'
-import type { Paper, UserEvaluation, AIAnalysisResult, MultiModelAnalysis, SearchResult, RAGResponse } from '@/types'
+import { chunkText, type TextChunk, type TextLayout } from '@/lib/text-chunking'
+import { readSSE } from '@/lib/sse'
+import {
+  createEmbeddingProvider,
+  resolveEmbeddingProviderConfig,
+  EmbeddingSettingsService,
+  ProviderEmbeddings,
+  type EmbeddingProvider,
+  type EmbeddingSettings
+} from '@/services/embeddings'
+import { highlightSearchText } from '@/services/evaluation/highlights'
+import { buildCitations, stripCitationMarkers, verifyAnswer } from '@/services/rag/citations'
+import {
+  listOpenAICompatibleModels,
+  normalizeBaseUrl,
+  type OpenAICompatibleEndpoint
+} from '@/services/ai/OpenAICompatibleService'
+import type { Paper, UserEvaluation, AIAnalysisResult, MultiModelAnalysis, SearchResult, SearchPassage, RAGCitation, RAGHistoryTurn, RAGResponse, RAGStreamEvent, RAGUsage } from '@/types'
 
 export interface VectorSearchOptions {
   matchCount?: number
@@ -10,67 +26,192 @@ export interface VectorSearchOptions {
   similarityThreshold?: number
 }
 
+export interface RAGQueryOptions {
+  // Earlier turns of the conversation, oldest first, for follow-up questions
+  history?: RAGHistoryTurn[]
+  signal?: AbortSignal
+}
+
 export interface PaperContext {
   paper: Paper
   evaluation?: UserEvaluation
   analyses?: MultiModelAnalysis
+  fullText?: string
+}
+
+// Full text is embedded as overlapping passages; each row in `documents` is one chunk
+const CHUNK_SIZE = 1500
+const CHUNK_OVERLAP = 200
+const MAX_CHUNKS_PER_PAPER = 120
+
+// Chunk hits are grouped per paper, so fetch more rows than papers requested
+const CHUNK_CANDIDATE_FACTOR = 4
+const MAX_EXCERPTS_PER_PAPER = 3
+
+// Stale papers re-embedded per reembedStalePapers call
+const REEMBED_BATCH_SIZE = 25
+
+// Conversation turns given to the model, and how much of each
+const MAX_HISTORY_TURNS = 6
+const MAX_HISTORY_TURN_CHARS = 2000
+// Earlier questions added to a follow-up's search query
+const RETRIEVAL_HISTORY_QUESTIONS = 2
+
+// GPT-4 pricing in USD per 1K tokens, for answers generated with OpenAI
+const OPENAI_PROMPT_COST_PER_1K = 0.03
+const OPENAI_COMPLETION_COST_PER_1K = 0.06
+// Rough characters per token, to estimate usage the model server never reported
+const CHARS_PER_TOKEN = 4
+
+type ExtractedText = TextLayout & { text: string }
+
+export interface EmbeddingInfo {
+  provider: string
+  model: string
+  dimensions: number
 }
 
+// Provider signatures already checked for stale vectors in this process
+const checkedProviders = new Set<string>()
+
 /**
- * SupabaseVectorService provides vector database operations using LangChain and OpenAI embeddings
+ * A streamed answer stopped after generation began, by cancellation or a
+ * failure. Usage holds the tokens spent so far, estimated when the model
+ * server didn't report them.
+ */
+export class RAGAnswerStoppedError extends Error {
+  usage: RAGUsage
+
+  constructor(message: string, usage: RAGUsage) {
+    super(message)
+    this.name = 'RAGAnswerStoppedError'
+    this.usage = usage
+  }
+}
+
+/**
+ * SupabaseVectorService provides vector database operations using LangChain and a pluggable embedding provider
  * Implements semantic search and RAG functionality for the Science Paper Manager
  */
 export class SupabaseVectorService {
-  private vectorStore: SupabaseVectorStore
-  private embeddings: OpenAIEmbeddings
-
-  constructor(openaiApiKey: string) {
-    // Initialize OpenAI embeddings with text-embedding-3-small model
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: openaiApiKey,
-      modelName: 'text-embedding-3-small',
-      dimensions: 1536, // Default dimensions for text-embedding-3-small
-    })
+  private vectorStore: SupabaseVectorStore | null = null
+  private embeddingProvider: EmbeddingProvider | null
+  private providerLoading: Promise<EmbeddingProvider> | null = null
+  private openaiApiKey?: string
+  private answerModel?: OpenAICompatibleEndpoint
 
-    // Initialize Supabase vector store with LangChain integration
-    // Use try-catch to handle build-time issues gracefully
-    try {
-      this.vectorStore = new SupabaseVectorStore(this.embeddings, {
+  /**
+   * Without an explicit `embeddingProvider`, the library's stored provider is
+   * used (see `EmbeddingSettingsService`); the OpenAI key only authenticates
+   * it and never picks it
+   */
+  constructor(openaiApiKey?: string, embeddingProvider?: EmbeddingProvider) {
+    this.openaiApiKey = openaiApiKey
+    this.embeddingProvider = embeddingProvider || null
+  }
+
+  /**
+   * Answer RAG questions with a self-hosted model instead of OpenAI, so the
+   * retrieved passages never leave that server
+   */
+  setAnswerModel(endpoint: OpenAICompatibleEndpoint): void {
+    this.answerModel = { ...endpoint, baseUrl: normalizeBaseUrl(endpoint.baseUrl) }
+  }
+
+  /**
+   * Provider, model and dimension used for new vectors and queries
+   */
+  async getEmbeddingInfo(): Promise<EmbeddingInfo> {
+    const provider = await this.getEmbeddingProvider()
+    return {
+      provider: provider.id,
+      model: provider.model,
+      dimensions: provider.dimensions,
+    }
+  }
+
+  /**
+   * Switch the library to another embedding provider. When it changes,
+   * papers embedded by the previous one are re-embedded in the background.
+   * Returns whether it changed.
+   */
+  async setLibraryEmbeddingProvider(settings: EmbeddingSettings): Promise<boolean> {
+    // Fails without the API key the new provider needs, before anything is stored
+    const provider = this.createProvider(settings)
+
+    const { changed } = await new EmbeddingSettingsService().setSettings(settings)
+    if (!changed) {
+      return false
+    }
+
+    this.embeddingProvider = provider
+    this.vectorStore = null
+    this.providerLoading = null
+    this.scheduleStaleReembedding()
+    return true
+  }
+
+  /**
+   * The library's embedding provider, loaded on first use
+   */
+  private async getEmbeddingProvider(): Promise<EmbeddingProvider> {
+    if (this.embeddingProvider) {
+      return this.embeddingProvider
+    }
+
+    if (!this.providerLoading) {
+      this.providerLoading = new EmbeddingSettingsService()
+        .getSettings()
+        .then(settings => this.createProvider(settings))
+      // A failed load is tried again on next use
+      this.providerLoading.catch(() => {
+        this.providerLoading = null
+      })
+    }
+
+    this.embeddingProvider = await this.providerLoading
+    return this.embeddingProvider
+  }
+
+  private createProvider(settings: EmbeddingSettings): EmbeddingProvider {
+    return createEmbeddingProvider(resolveEmbeddingProviderConfig(settings, { openaiApiKey: this.openaiApiKey }))
+  }
+
+  /**
+   * LangChain vector store over `documents`, embedding with the library's provider
+   */
+  private async getVectorStore(): Promise<SupabaseVectorStore> {
+    if (!this.vectorStore) {
+      const provider = await this.getEmbeddingProvider()
+      this.vectorStore = new SupabaseVectorStore(new ProviderEmbeddings(provider), {
         client: getSupabaseAdminClient(),
         tableName: TABLES.DOCUMENTS,
         queryName: 'match_documents',
       })
-    } catch (error) {
-      // During build time, environment variables might not be available
-      // Create a mock vector store that will throw meaningful errors at runtime
-      console.warn('Failed to initialize SupabaseVectorStore during build:', error)
-      this.vectorStore = null as any
     }
+    return this.vectorStore
   }
 
   /**
-   * Embed a paper with its full context including metadata, evaluations, and AI analyses
+   * Embed a paper with its full context including metadata, evaluations, and AI analyses.
+   * Produces one overview document plus one document per full-text chunk.
    */
   async embedPaperWithContext(context: PaperContext): Promise<void> {
     const { paper, evaluation, analyses } = context
 
     try {
-      // Build comprehensive content for embedding
-      const content = this.buildPaperContent(paper, evaluation, analyses)
-      
-      // Build metadata for filtering and retrieval
-      const metadata = this.buildPaperMetadata(paper, evaluation, analyses)
+      const fullText = context.fullText !== undefined
+        ? { text: context.fullText }
+        : await this.loadExtractedText(paper.id)
 
-      // Create document for vector storage
-      const document = new Document({
-        pageContent: content,
-        metadata,
-      })
+      const provider = await this.getEmbeddingProvider()
+      const documents = this.buildPaperDocuments(provider, paper, evaluation, analyses, fullText)
 
       // Store in vector database
-      await this.vectorStore.addDocuments([document])
+      const vectorStore = await this.getVectorStore()
+      await vectorStore.addDocuments(documents)
 
-      console.log(`Successfully embedded paper: ${paper.title}`)
+      console.log(`Successfully embedded paper: ${paper.title} (${documents.length} chunks)`)
     } catch (error) {
       console.error(`Failed to embed paper ${paper.id}:`, error)
       throw new Error(`Vector embedding failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -84,36 +225,54 @@ export class SupabaseVectorService {
     query: string, 
     options: VectorSearchOptions = {}
   ): Promise<SearchResult[]> {
-    const {
-      matchCount = 10,
-      filter = {},
-      similarityThreshold = 0.7
-    } = options
-
     try {
-      // Perform similarity search
-      const results = await this.vectorStore.similaritySearchWithScore(
+      const provider = await this.getEmbeddingProvider()
+      const {
+        matchCount = 10,
+        filter = {},
+        similarityThreshold = provider.similarityThresholds.search
+      } = options
+
+      // Perform similarity search over chunks embedded by the library's provider only
+      const vectorStore = await this.getVectorStore()
+      const results = await vectorStore.similaritySearchWithScore(
         query,
-        matchCount,
-        filter
+        matchCount * CHUNK_CANDIDATE_FACTOR,
+        { ...filter, ...this.buildEmbeddingMetadata(provider) }
       )
 
-      // Transform results to SearchResult format
-      const searchResults: SearchResult[] = results
+      // Group chunk hits by paper; a paper scores as its best-matching chunk
+      const byPaper = new Map<string, SearchResult>()
+
+      results
         .filter(([, score]) => score >= similarityThreshold)
-        .map(([document, similarity]) => {
-          const paper = this.extractPaperFromMetadata(document.metadata)
-          const relevantExcerpts = this.extractRelevantExcerpts(document.pageContent, query)
-
-          return {
-            id: paper.id,
-            paper,
-            similarity,
-            relevantExcerpts,
+        .sort(([, a], [, b]) => b - a)
+        .forEach(([document, similarity]) => {
+          const metadata = document.metadata
+          let result = byPaper.get(metadata.paper_id)
+
+          if (!result) {
+            const paper = this.extractPaperFromMetadata(metadata)
+            result = { id: paper.id, paper, similarity, relevantExcerpts: [], passages: [] }
+            byPaper.set(paper.id, result)
+          }
+
+          if (result.relevantExcerpts.length >= MAX_EXCERPTS_PER_PAPER) {
+            return
+          }
+
+          if (metadata.chunk_type === 'passage') {
+            const passage = this.extractPassageFromDocument(document, similarity)
+            result.passages!.push(passage)
+            result.relevantExcerpts.push(passage.content)
+          } else {
+            // Overview rows (and rows embedded before chunking) hold labelled fields, not prose
+            const remaining = MAX_EXCERPTS_PER_PAPER - result.relevantExcerpts.length
+            result.relevantExcerpts.push(...this.extractRelevantExcerpts(document.pageContent, query, remaining))
           }
         })
 
-      return searchResults
+      return Array.from(byPaper.values()).slice(0, matchCount)
     } catch (error) {
       console.error('Semantic search failed:', error)
       throw new Error(`Semantic search failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -123,13 +282,20 @@ export class SupabaseVectorService {
   /**
    * Perform RAG-based question answering
    */
-  async ragQuery(question: string, context?: Record<string, unknown>): Promise<RAGResponse> {
+  async ragQuery(
+    question: string,
+    context?: Record<string, unknown>,
+    options: RAGQueryOptions = {}
+  ): Promise<RAGResponse> {
     try {
+      const history = this.trimHistory(options.history)
+      const provider = await this.getEmbeddingProvider()
+
       // First, find relevant documents
-      const searchResults = await this.semanticSearch(question, {
+      const searchResults = await this.semanticSearch(this.buildRetrievalQuery(question, history), {
         matchCount: 5,
         filter: context,
-        similarityThreshold: 0.6
+        similarityThreshold: provider.similarityThresholds.rag
       })
 
       if (searchResults.length === 0) {
@@ -143,17 +309,21 @@ export class SupabaseVectorService {
       // Extract source papers
       const sources = searchResults.map(result => result.paper)
       
-      // Build context from search results
-      const contextText = this.buildRAGContext(searchResults)
+      // Build context from search results, numbering the excerpts the answer can cite
+      const citations = buildCitations(searchResults)
+      const contextText = this.buildRAGContext(searchResults, citations)
 
-      // Generate answer using AI service
-      const answer = await this.generateRAGAnswerWithAI(question, contextText, searchResults)
+      // Generate answer using AI service, and check its claims against the excerpts
+      const { generated, usage } = await this.generateRAGAnswerWithAI(question, contextText, history)
       const confidence = this.calculateConfidence(searchResults)
 
       return {
-        answer,
+        answer: generated ?? this.generateFallbackAnswer(searchResults, citations),
         sources,
-        confidence
+        confidence,
+        citations,
+        unsupportedClaims: generated ? verifyAnswer(generated, citations) : [],
+        usage
       }
     } catch (error) {
       console.error('RAG query failed:', error)
@@ -161,6 +331,60 @@ export class SupabaseVectorService {
     }
   }
 
+  /**
+   * Perform RAG-based question answering as a stream: the retrieved sources and
+   * citable excerpts first, then the answer as it's generated, then confidence,
+   * token usage and the claims the excerpts don't support
+   */
+  async *ragQueryStream(
+    question: string,
+    context?: Record<string, unknown>,
+    options: RAGQueryOptions = {}
+  ): AsyncGenerator<RAGStreamEvent> {
+    const history = this.trimHistory(options.history)
+    const provider = await this.getEmbeddingProvider()
+    const searchResults = await this.semanticSearch(this.buildRetrievalQuery(question, history), {
+      matchCount: 5,
+      filter: context,
+      similarityThreshold: provider.similarityThresholds.rag
+    })
+
+    const citations = buildCitations(searchResults)
+    yield { type: 'sources', sources: searchResults.map(result => result.paper), citations }
+
+    if (searchResults.length === 0) {
+      yield { type: 'delta', text: "I couldn't find relevant papers in your collection to answer this question." }
+      yield { type: 'done', confidence: 0 }
+      return
+    }
+
+    const contextText = this.buildRAGContext(searchResults, citations)
+    const { usage, generated } = yield* this.streamRAGAnswer(
+      question,
+      contextText,
+      searchResults,
+      citations,
+      history,
+      options.signal
+    )
+
+    yield {
+      type: 'done',
+      confidence: this.calculateConfidence(searchResults),
+      usage,
+      unsupportedClaims: generated ? verifyAnswer(generated, citations) : []
+    }
+  }
+
+  /**
+   * Provider that generates RAG answers: the self-hosted model when one is set,
+   * else OpenAI. Null when answers are assembled from the passages alone.
+   */
+  getAnswerProvider(): 'openai' | 'openai-compatible' | null {
+    if (this.answerModel) return 'openai-compatible'
+    return this.openaiApiKey ? 'openai' : null
+  }
+
   /**
    * Update an existing paper's vector embedding
    */
@@ -200,12 +424,116 @@ export class SupabaseVectorService {
     }
   }
 
+  /**
+   * Embed a paper again from what is stored for it. Returns false if the paper does not exist.
+   */
+  async reembedPaper(paperId: string): Promise<boolean> {
+    const context = await this.loadPaperContext(paperId)
+    if (!context) {
+      return false
+    }
+
+    await this.updatePaperEmbedding(context)
+    return true
+  }
+
+  /**
+   * Find papers whose stored vectors came from a different provider, model or dimension
+   */
+  async findStalePaperIds(limit: number = 1000): Promise<string[]> {
+    const { provider, model, dimensions } = await this.getEmbeddingInfo()
+    const supabaseAdmin = getSupabaseAdminClient()
+
+    const { data, error } = await supabaseAdmin
+      .from(TABLES.DOCUMENTS)
+      .select('paper_id:metadata->>paper_id')
+      .or(`embedding_provider.neq.${provider},embedding_model.neq.${model},embedding_dimension.neq.${dimensions}`)
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to find stale embeddings: ${error.message}`)
+    }
+
+    return Array.from(new Set((data || []).map((row: { paper_id: string | null }) => row.paper_id).filter(Boolean))) as string[]
+  }
+
+  /**
+   * Re-embed papers whose vectors came from another provider than the
+   * library's, a batch at a time
+   */
+  async reembedStalePapers(batchSize: number = REEMBED_BATCH_SIZE): Promise<{
+    reembedded: number
+    failed: number
+    remaining: boolean
+  }> {
+    const paperIds = await this.findStalePaperIds()
+    const batch = paperIds.slice(0, batchSize)
+    let reembedded = 0
+    let failed = 0
+
+    for (const paperId of batch) {
+      try {
+        const context = await this.loadPaperContext(paperId)
+        if (context) {
+          await this.updatePaperEmbedding(context)
+        } else {
+          // Paper no longer exists; drop its orphaned vectors
+          await this.removePaperEmbedding(paperId)
+        }
+        reembedded++
+      } catch (error) {
+        console.error(`Failed to re-embed paper ${paperId}:`, error)
+        failed++
+      }
+    }
+
+    return { reembedded, failed, remaining: paperIds.length > batch.length }
+  }
+
+  /**
+   * Re-embed papers left from a previous library provider in the background,
+   * e.g. after the provider was switched by another process. Runs once per
+   * provider per process.
+   */
+  scheduleStaleReembedding(): void {
+    if (typeof window !== 'undefined') {
+      return
+    }
+
+    const run = async (signature: string) => {
+      let result = await this.reembedStalePapers()
+      while (result.remaining && result.reembedded > 0) {
+        result = await this.reembedStalePapers()
+      }
+      console.log(`Embedding provider ${signature}: stale papers re-embedded`)
+    }
+
+    this.getEmbeddingInfo()
+      .then(({ provider, model, dimensions }) => {
+        const signature = `${provider}:${model}:${dimensions}`
+        if (checkedProviders.has(signature)) {
+          return
+        }
+        checkedProviders.add(signature)
+
+        return run(signature).catch(error => {
+          checkedProviders.delete(signature)
+          console.error(`Background re-embedding for ${signature} failed:`, error)
+        })
+      })
+      .catch(error => {
+        console.error('Background re-embedding failed to load the embedding provider:', error)
+      })
+  }
+
   /**
    * Get embedding statistics
    */
   async getEmbeddingStats(): Promise<{
     totalDocuments: number
     totalPapers: number
+    embedding: EmbeddingInfo
+    stalePapers: number
     lastUpdated?: Date
   }> {
     try {
@@ -232,9 +560,13 @@ export class SupabaseVectorService {
         uniquePapers?.map(doc => doc.metadata?.paper_id).filter(Boolean) || []
       )
 
+      const stalePaperIds = await this.findStalePaperIds()
+
       return {
         totalDocuments: count || 0,
         totalPapers: uniquePaperIds.size,
+        embedding: await this.getEmbeddingInfo(),
+        stalePapers: stalePaperIds.length,
         lastUpdated: new Date()
       }
     } catch (error) {
@@ -244,7 +576,175 @@ export class SupabaseVectorService {
   }
 
   /**
-   * Build comprehensive content for paper embedding
+   * Load a paper with its evaluation and latest analyses for re-embedding
+   */
+  private async loadPaperContext(paperId: string): Promise<PaperContext | null> {
+    const supabaseAdmin = getSupabaseAdminClient()
+
+    const { data: row, error } = await supabaseAdmin
+      .from(TABLES.PAPERS)
+      .select('*')
+      .eq('id', paperId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null
+      }
+      throw new Error(`Failed to load paper: ${error.message}`)
+    }
+
+    const paper: Paper = {
+      id: row.id,
+      title: row.title,
+      authors: row.authors || [],
+      journal: row.journal || undefined,
+      publicationYear: row.publication_year || undefined,
+      doi: row.doi || undefined,
+      abstract: row.abstract || undefined,
+      zoteroKey: row.zotero_key || undefined,
+      readingStatus: row.reading_status || 'unread',
+      dateAdded: new Date(row.date_added),
+      dateRead: row.date_read ? new Date(row.date_read) : undefined,
+      lastModified: new Date(row.last_modified),
+    }
+
+    const [{ data: evaluations }, { data: analysisRows }] = await Promise.all([
+      supabaseAdmin
+        .from(TABLES.USER_EVALUATIONS)
+        .select('*')
+        .eq('paper_id', paperId)
+        .order('updated_at', { ascending: false })
+        .limit(1),
+      supabaseAdmin
+        .from(TABLES.AI_ANALYSES)
+        .select('*')
+        .eq('paper_id', paperId)
+        .order('created_at', { ascending: false }),
+    ])
+
+    const evaluationRow = evaluations?.[0]
+    const evaluation: UserEvaluation | undefined = evaluationRow
+      ? {
+          id: evaluationRow.id,
+          paperId: evaluationRow.paper_id,
+          rating: evaluationRow.rating || undefined,
+          notes: evaluationRow.notes || undefined,
+          tags: evaluationRow.tags || [],
+          createdAt: new Date(evaluationRow.created_at),
+          updatedAt: new Date(evaluationRow.updated_at),
+        }
+      : undefined
+
+    // Rows are newest first; keep the first analysis seen per provider
+    const analyses: MultiModelAnalysis = {}
+    for (const analysisRow of analysisRows || []) {
+      const provider = analysisRow.model_provider as keyof MultiModelAnalysis
+      if (!analyses[provider]) {
+        analyses[provider] = {
+          id: analysisRow.id,
+          paperId: analysisRow.paper_id,
+          modelProvider: analysisRow.model_provider,
+          modelName: analysisRow.model_name,
+          summary: analysisRow.summary || '',
+          keywords: analysisRow.keywords || [],
+          confidenceScore: analysisRow.confidence_score || 0,
+          tokensUsed: analysisRow.tokens_used || 0,
+          processingTimeMs: analysisRow.processing_time_ms || 0,
+          createdAt: new Date(analysisRow.created_at),
+        }
+      }
+    }
+
+    return { paper, evaluation, analyses }
+  }
+
+  /**
+   * Load text stored by the PDF extraction stage (server-side only)
+   */
+  private async loadExtractedText(paperId: string): Promise<ExtractedText | undefined> {
+    if (typeof window !== 'undefined' || !paperId) {
+      return undefined
+    }
+
+    try {
+      const { getPaperTextExtractionService } = await import('@/services/extraction')
+      const stored = await getPaperTextExtractionService().getPaperText(paperId)
+      if (!stored || stored.status !== 'completed') {
+        return undefined
+      }
+      return { text: stored.content, sections: stored.sections, pages: stored.pages }
+    } catch (error) {
+      console.warn(`Extracted text unavailable for paper ${paperId}:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Build the overview document and one document per full-text chunk.
+   * Every document carries the paper metadata so chunk hits can be grouped back into papers.
+   */
+  private buildPaperDocuments(
+    provider: EmbeddingProvider,
+    paper: Paper,
+    evaluation?: UserEvaluation,
+    analyses?: MultiModelAnalysis,
+    fullText?: ExtractedText
+  ): Document[] {
+    const chunks = fullText?.text
+      ? chunkText(fullText.text, fullText, {
+          chunkSize: CHUNK_SIZE,
+          overlap: CHUNK_OVERLAP,
+          maxChunks: MAX_CHUNKS_PER_PAPER,
+        })
+      : []
+
+    const metadata = {
+      ...this.buildPaperMetadata(paper, evaluation, analyses),
+      ...this.buildEmbeddingMetadata(provider),
+    }
+    metadata.has_full_text = chunks.length > 0
+    metadata.chunk_count = chunks.length + 1
+
+    const overview = new Document({
+      pageContent: this.buildPaperContent(paper, evaluation, analyses),
+      metadata: { ...metadata, chunk_type: 'overview', chunk_index: 0 },
+    })
+
+    return [overview, ...chunks.map(chunk => new Document({
+      pageContent: chunk.content,
+      metadata: { ...metadata, ...this.buildChunkMetadata(chunk) },
+    }))]
+  }
+
+  /**
+   * Metadata identifying the vector space; also used as a search filter
+   */
+  private buildEmbeddingMetadata(provider: EmbeddingProvider): Record<string, unknown> {
+    return {
+      embedding_provider: provider.id,
+      embedding_model: provider.model,
+      embedding_dimension: provider.dimensions,
+    }
+  }
+
+  /**
+   * Build location metadata for a full-text chunk
+   */
+  private buildChunkMetadata(chunk: TextChunk): Record<string, unknown> {
+    return {
+      chunk_type: 'passage',
+      chunk_index: chunk.index + 1,
+      section: chunk.section,
+      section_heading: chunk.sectionHeading,
+      page: chunk.page,
+      start_offset: chunk.start,
+      end_offset: chunk.end,
+    }
+  }
+
+  /**
+   * Build comprehensive content for the paper overview embedding
    */
   private buildPaperContent(
     paper: Paper, 
@@ -277,6 +777,11 @@ export class SupabaseVectorService {
       if (evaluation.tags?.length) {
         parts.push(`Tags: ${evaluation.tags.join(', ')}`)
       }
+
+      const highlights = highlightSearchText(evaluation.highlights)
+      if (highlights) {
+        parts.push(`Highlights: ${highlights}`)
+      }
     }
 
     // AI analysis summaries
@@ -348,6 +853,22 @@ export class SupabaseVectorService {
     } as Paper
   }
 
+  /**
+   * Extract a located passage from a chunk document
+   */
+  private extractPassageFromDocument(document: Document, similarity: number): SearchPassage {
+    const metadata = document.metadata
+    return {
+      content: document.pageContent,
+      similarity,
+      section: metadata.section ?? undefined,
+      sectionHeading: metadata.section_heading ?? undefined,
+      page: metadata.page ?? undefined,
+      start: metadata.start_offset,
+      end: metadata.end_offset,
+    }
+  }
+
   /**
    * Extract relevant excerpts from content based on query
    */
@@ -373,41 +894,113 @@ export class SupabaseVectorService {
   }
 
   /**
-   * Build comprehensive context for RAG from search results
+   * Build comprehensive context for RAG from search results, each excerpt
+   * labelled with the number the answer cites it by
    */
-  private buildRAGContext(searchResults: SearchResult[]): string {
+  private buildRAGContext(searchResults: SearchResult[], citations: RAGCitation[]): string {
     return searchResults
-      .map((result, index) => {
+      .map(result => {
         const paper = result.paper
-        const excerpts = result.relevantExcerpts.slice(0, 2) // Limit excerpts to avoid token overflow
+        const excerpts = citations
+          .filter(citation => citation.paperId === paper.id)
+          .map(citation => `[${citation.marker}] ${this.formatPassageLocation(citation)}${citation.excerpt}`)
         
-        return `[Source ${index + 1}] "${paper.title}" (${paper.publicationYear || 'Unknown year'})
+        return `Paper: "${paper.title}" (${paper.publicationYear || 'Unknown year'})
 Authors: ${paper.authors?.join(', ') || 'Unknown'}
 Journal: ${paper.journal || 'Unknown'}
-Relevant content: ${excerpts.join(' ')}
-Similarity score: ${(result.similarity * 100).toFixed(1)}%`
+Similarity score: ${(result.similarity * 100).toFixed(1)}%
+Excerpts:
+${excerpts.join('\n\n') || 'None'}`
       })
       .join('\n\n')
   }
 
   /**
-   * Generate RAG answer using AI service
+   * Format a passage's location as a prefix, e.g. "(Methods, p. 4) "
+   */
+  private formatPassageLocation(passage: Pick<SearchPassage, 'sectionHeading' | 'page'>): string {
+    const parts = [passage.sectionHeading, passage.page ? `p. ${passage.page}` : undefined].filter(Boolean)
+    return parts.length ? `(${parts.join(', ')}) ` : ''
+  }
+
+  /**
+   * Generate RAG answer using AI service; null when there is no model to ask
+   * or it fails, and the answer has to be assembled from the passages instead
    */
   private async generateRAGAnswerWithAI(
     question: string,
     context: string,
-    searchResults: SearchResult[]
-  ): Promise<string> {
+    history: RAGHistoryTurn[] = []
+  ): Promise<{ generated: string | null; usage?: RAGUsage }> {
+    // Without a self-hosted model or an OpenAI key (e.g. local embeddings offline) answer from the retrieved passages alone
+    if (!this.answerModel && !this.openaiApiKey) {
+      return { generated: null }
+    }
+
     try {
-      // Use OpenAI to generate contextual answer
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const { url, init } = await this.createAnswerRequest(question, context, history, false)
+      const response = await fetch(url, init)
+
+      if (!response.ok) {
+        throw new Error(`${this.answerModel ? 'Model server' : 'OpenAI API'} error: ${response.status}`)
+      }
+
+      const data = await response.json()
+      return {
+        generated: data.choices[0]?.message?.content || null,
+        usage: data.usage ? this.createUsage(data.usage) : undefined
+      }
+    } catch (error) {
+      console.error('AI answer generation failed:', error)
+      return { generated: null }
+    }
+  }
+
+  /**
+   * Token usage reported by the chat completions API, with what it cost
+   */
+  private createUsage(usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }): RAGUsage {
+    const promptTokens = usage.prompt_tokens || 0
+    const completionTokens = usage.completion_tokens || 0
+    // Self-hosted models cost nothing per token
+    const cost = this.answerModel
+      ? 0
+      : (promptTokens / 1000) * OPENAI_PROMPT_COST_PER_1K + (completionTokens / 1000) * OPENAI_COMPLETION_COST_PER_1K
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.total_tokens || 0,
+      cost
+    }
+  }
+
+  /**
+   * Chat completion request for a RAG answer, against the self-hosted model when one is set, else OpenAI
+   */
+  private async createAnswerRequest(
+    question: string,
+    context: string,
+    history: RAGHistoryTurn[],
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<{ url: string; init: RequestInit }> {
+    const baseUrl = this.answerModel?.baseUrl ?? 'https://api.openai.com/v1'
+    const apiKey = this.answerModel ? this.answerModel.apiKey : this.openaiApiKey
+    const model = this.answerModel
+      ? this.answerModel.modelName || (await listOpenAICompatibleModels(baseUrl, apiKey))[0]
+      : 'gpt-4'
+
+    return {
+      url: `${baseUrl}/chat/completions`,
+      init: {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.embeddings.openAIApiKey}`,
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: 'gpt-4',
+          model,
           messages: [
             {
               role: 'system',
@@ -417,12 +1010,15 @@ Your task is to answer questions based ONLY on the provided context from the use
 
 Guidelines:
 - Provide accurate, helpful answers based on the context
-- Cite specific papers when referencing information
+- Each excerpt in the context is numbered, e.g. [3]. After every claim, cite the excerpts that state it, e.g. [3] or [1, 4]
+- Only cite an excerpt for what it actually says, and leave out claims no excerpt supports
 - If the context doesn't contain enough information, say so clearly
 - Be concise but comprehensive
 - Use academic tone appropriate for research
 - Always mention which papers your answer is based on`
             },
+            // Earlier turns let follow-up questions refer back to them
+            ...history.map(turn => ({ role: turn.role, content: turn.content })),
             {
               role: 'user',
               content: `Question: ${question}
@@ -434,34 +1030,125 @@ Please provide a comprehensive answer based on this context.`
             }
           ],
           max_tokens: 800,
-          temperature: 0.3
-        })
-      })
+          temperature: 0.3,
+          // Streamed replies only report token usage in their last chunk when asked to
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+        }),
+        signal
+      }
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`)
+  /**
+   * Stream the answer's text from the chat completions API. Returns the generated text
+   * (null for a passage-based answer) and token usage when the server reports it.
+   * Falls back to the passage-based answer if generation fails before any text arrives.
+   */
+  private async *streamRAGAnswer(
+    question: string,
+    context: string,
+    searchResults: SearchResult[],
+    citations: RAGCitation[],
+    history: RAGHistoryTurn[],
+    signal?: AbortSignal
+  ): AsyncGenerator<RAGStreamEvent, { usage?: RAGUsage; generated: string | null }> {
+    if (!this.answerModel && !this.openaiApiKey) {
+      yield { type: 'delta', text: this.generateFallbackAnswer(searchResults, citations) }
+      return { generated: null }
+    }
+
+    let generated = ''
+    let usage: RAGUsage | undefined
+    let promptChars = 0
+
+    try {
+      const { url, init } = await this.createAnswerRequest(question, context, history, true, signal)
+      promptChars = typeof init.body === 'string' ? init.body.length : 0
+      const response = await fetch(url, init)
+
+      if (!response.ok || !response.body) {
+        throw new Error(`${this.answerModel ? 'Model server' : 'OpenAI API'} error: ${response.status}`)
       }
 
-      const data = await response.json()
-      return data.choices[0]?.message?.content || this.generateFallbackAnswer(question, searchResults)
+      for await (const message of readSSE(response.body)) {
+        if (message.data === '[DONE]') break
+
+        const chunk = JSON.parse(message.data)
+        const text = chunk.choices?.[0]?.delta?.content
+        if (text) {
+          generated += text
+          yield { type: 'delta', text }
+        }
+        if (chunk.usage) {
+          usage = this.createUsage(chunk.usage)
+        }
+      }
     } catch (error) {
+      // Text already sent can't be taken back, and a cancelled stream needs no answer.
+      // Either way the model was asked, so the error carries what it cost.
+      if (generated || signal?.aborted) {
+        const promptTokens = Math.ceil(promptChars / CHARS_PER_TOKEN)
+        const completionTokens = Math.ceil(generated.length / CHARS_PER_TOKEN)
+        throw new RAGAnswerStoppedError(
+          error instanceof Error ? error.message : 'Answer generation stopped',
+          usage ?? this.createUsage({
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens
+          })
+        )
+      }
       console.error('AI answer generation failed:', error)
-      return this.generateFallbackAnswer(question, searchResults)
     }
+
+    if (!generated) {
+      yield { type: 'delta', text: this.generateFallbackAnswer(searchResults, citations) }
+      return { usage, generated: null }
+    }
+
+    return { usage, generated }
+  }
+
+  /**
+   * The most recent conversation turns, each cut to a bounded length. Earlier
+   * answers lose their citation markers, which numbered a different set of excerpts.
+   */
+  private trimHistory(history?: RAGHistoryTurn[]): RAGHistoryTurn[] {
+    return (history || [])
+      .filter(turn => turn.content?.trim())
+      .slice(-MAX_HISTORY_TURNS)
+      .map(turn => ({
+        role: turn.role,
+        content: (turn.role === 'assistant' ? stripCitationMarkers(turn.content) : turn.content).slice(0, MAX_HISTORY_TURN_CHARS)
+      }))
+  }
+
+  /**
+   * Search text for a question. Follow-ups like "how does it scale?" name
+   * nothing to search for, so the previous questions are searched with them.
+   */
+  private buildRetrievalQuery(question: string, history: RAGHistoryTurn[]): string {
+    const previousQuestions = history
+      .filter(turn => turn.role === 'user')
+      .slice(-RETRIEVAL_HISTORY_QUESTIONS)
+      .map(turn => turn.content)
+
+    return [...previousQuestions, question].join('\n')
   }
 
   /**
-   * Generate fallback answer when AI service fails
+   * Generate fallback answer when AI service fails, citing the top paper's first excerpt
    */
-  private generateFallbackAnswer(question: string, searchResults: SearchResult[]): string {
+  private generateFallbackAnswer(searchResults: SearchResult[], citations: RAGCitation[]): string {
     const topResult = searchResults[0]
     const paperCount = searchResults.length
+    const keyCitation = citations.find(citation => citation.paperId === topResult.paper.id)
     
     return `Based on your paper collection, I found ${paperCount} relevant paper${paperCount > 1 ? 's' : ''} related to your question. 
 
 The most relevant paper is "${topResult.paper.title}" by ${topResult.paper.authors?.join(', ') || 'Unknown authors'} (${topResult.paper.publicationYear || 'Unknown year'}).
 
-Key relevant content: ${topResult.relevantExcerpts[0] || 'Please refer to the full paper for details.'}
+Key relevant content: ${keyCitation ? `${keyCitation.excerpt} [${keyCitation.marker}]` : 'Please refer to the full paper for details.'}
 
 ${paperCount > 1 ? `Other relevant papers include: ${searchResults.slice(1, 3).map(r => `"${r.paper.title}"`).join(', ')}.` : ''}
 
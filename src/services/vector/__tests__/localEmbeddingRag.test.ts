@@ -0,0 +1,177 @@
+// Exercises embed -> search -> RAG end to end with the offline embedding provider and an in-memory documents table
+const mockRows: Array<{ id: number; content: string; metadata: Record<string, unknown>; embedding: number[] }> = []
+
+jest.mock('@/lib/database', () => {
+  const containsFilter = (metadata: Record<string, unknown>, filter: Record<string, unknown>) =>
+    Object.entries(filter).every(([key, value]) => metadata[key] === value)
+
+  const client = {
+    from: (table: string) => table === 'embedding_settings' ? {
+      // The library embeds with the local provider
+      select: () => ({
+        maybeSingle: async () => ({ data: { provider: 'local', model: null, dimensions: null }, error: null }),
+      }),
+    } : ({
+      upsert: (rows: Array<{ content: string; metadata: Record<string, unknown>; embedding: number[] }>) => ({
+        select: async () => {
+          const inserted = rows.map(row => ({ id: mockRows.length + 1, ...row }))
+          mockRows.push(...inserted)
+          return { data: inserted, error: null }
+        },
+      }),
+    }),
+    rpc: async (_name: string, params: { query_embedding: number[]; match_count: number; filter: Record<string, unknown> }) => {
+      const data = mockRows
+        .filter(row => row.embedding.length === params.query_embedding.length && containsFilter(row.metadata, params.filter))
+        .map(row => ({
+          id: row.id,
+          content: row.content,
+          metadata: row.metadata,
+          similarity: row.embedding.reduce((sum, value, i) => sum + value * params.query_embedding[i], 0),
+        }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, params.match_count)
+      return { data, error: null }
+    },
+  }
+
+  return {
+    getSupabaseAdminClient: () => client,
+    TABLES: { DOCUMENTS: 'documents' },
+  }
+})
+
+import { SupabaseVectorService, RAGAnswerStoppedError } from '../SupabaseVectorService'
+import { LocalEmbeddingProvider } from '@/services/embeddings'
+import type { Paper } from '@/types'
+
+const paper = (id: string, title: string): Paper => ({
+  id,
+  title,
+  authors: ['A. Author'],
+  readingStatus: 'unread',
+  dateAdded: new Date('2024-01-01'),
+  lastModified: new Date('2024-01-01'),
+})
+
+describe('SupabaseVectorService with local embeddings', () => {
+  const fetchSpy = jest.fn()
+
+  beforeAll(async () => {
+    global.fetch = fetchSpy
+    const service = new SupabaseVectorService(undefined, new LocalEmbeddingProvider())
+
+    await service.embedPaperWithContext({
+      paper: paper('p1', 'Protein Structure Prediction'),
+      fullText: [
+        'We predict protein structure from amino acid sequences using attention.',
+        'The model is trained on crystallography data and evaluated on held-out folds.',
+      ].join('\n\n'),
+    })
+    await service.embedPaperWithContext({
+      paper: paper('p2', 'Inflation Expectations'),
+      fullText: 'Monetary policy shocks move inflation expectations of households.',
+    })
+  })
+
+  it('stores provider, model and dimension on every row', () => {
+    expect(mockRows.length).toBe(4)
+    mockRows.forEach(row => {
+      expect(row.metadata).toMatchObject({
+        embedding_provider: 'local',
+        embedding_model: 'hashed-ngram-v1',
+        embedding_dimension: 512,
+      })
+      expect(row.embedding).toHaveLength(512)
+    })
+  })
+
+  it('groups passage hits by paper and returns the matching passage', async () => {
+    const service = new SupabaseVectorService(undefined, new LocalEmbeddingProvider())
+
+    const results = await service.semanticSearch('protein structure from amino acid sequences', {
+      similarityThreshold: 0.1,
+    })
+
+    expect(results[0].id).toBe('p1')
+    expect(results.filter(result => result.id === 'p1')).toHaveLength(1)
+    expect(results[0].passages?.[0]).toMatchObject({ start: 0 })
+    expect(results[0].relevantExcerpts).toContain(results[0].passages![0].content)
+  })
+
+  it('ignores vectors from a different provider', async () => {
+    const service = new SupabaseVectorService(undefined, new LocalEmbeddingProvider(256))
+
+    expect(await service.semanticSearch('protein structure', { similarityThreshold: 0 })).toEqual([])
+  })
+
+  it('searches with the library\'s provider when a request sends an OpenAI key', async () => {
+    const service = new SupabaseVectorService('sk-test')
+
+    const results = await service.semanticSearch('protein structure from amino acid sequences', {
+      similarityThreshold: 0.1,
+    })
+
+    expect(fetchSpy).not.toHaveBeenCalled()
+    expect(results[0].id).toBe('p1')
+    await expect(service.getEmbeddingInfo()).resolves.toEqual({ provider: 'local', model: 'hashed-ngram-v1', dimensions: 512 })
+  })
+
+  it('answers RAG queries without network access', async () => {
+    const service = new SupabaseVectorService(undefined, new LocalEmbeddingProvider())
+
+    const response = await service.ragQuery('How is protein structure predicted from sequences?')
+
+    expect(fetchSpy).not.toHaveBeenCalled()
+    expect(response.sources[0].id).toBe('p1')
+    expect(response.answer).toContain('Protein Structure Prediction')
+  })
+
+  it('reports the tokens of a streamed answer cancelled part way', async () => {
+    const service = new SupabaseVectorService('sk-test', new LocalEmbeddingProvider())
+    const abortController = new AbortController()
+    const chunk = new TextEncoder().encode('data: {"choices":[{"delta":{"content":"Structure is predicted"}}]}\n\n')
+    let sent = false
+
+    // A model server that sends one chunk and then waits until the request is aborted
+    fetchSpy.mockImplementationOnce(async (_url: string, init: RequestInit) => ({
+      ok: true,
+      body: {
+        getReader: () => ({
+          read: () => {
+            if (!sent) {
+              sent = true
+              return Promise.resolve({ done: false, value: chunk })
+            }
+            return new Promise((_resolve, reject) => {
+              const abort = () => reject(new DOMException('Aborted', 'AbortError'))
+              if (init.signal?.aborted) abort()
+              init.signal?.addEventListener('abort', abort)
+            })
+          },
+          releaseLock: () => {}
+        })
+      }
+    }))
+
+    const events = service.ragQueryStream('How is protein structure predicted from sequences?', undefined, {
+      signal: abortController.signal
+    })
+
+    let stopped: unknown
+    try {
+      for await (const event of events) {
+        if (event.type === 'delta') abortController.abort()
+      }
+    } catch (error) {
+      stopped = error
+    }
+
+    expect(stopped).toBeInstanceOf(RAGAnswerStoppedError)
+    const { usage } = stopped as RAGAnswerStoppedError
+    expect(usage.completionTokens).toBe(Math.ceil('Structure is predicted'.length / 4))
+    expect(usage.promptTokens).toBeGreaterThan(0)
+    expect(usage.totalTokens).toBe(usage.promptTokens + usage.completionTokens)
+    expect(usage.cost).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import {
+  CONFLICTS_TABLE,
+  toEvaluationColumn,
+  type SyncedField,
+  type SyncedValues,
+  type ZoteroSyncState
+} from './ZoteroEvaluationSync'
+
+/**
+ * An evaluation field edited both in the app and in Zotero since the last sync
+ */
+export interface ZoteroSyncConflict {
+  id: string
+  paperId: string
+  paperTitle: string
+  field: SyncedField
+  localValue: SyncedValues[SyncedField]
+  remoteValue: SyncedValues[SyncedField]
+  detectedAt: Date
+}
+
+/**
+ * Which side's value to keep: the app's, or Zotero's
+ */
+export type ConflictResolution = 'local' | 'zotero'
+
+interface ConflictRow {
+  id: string
+  paper_id: string
+  field: SyncedField
+  local_value: SyncedValues[SyncedField]
+  remote_value: SyncedValues[SyncedField]
+  created_at: string
+  papers: { title: string } | Array<{ title: string }> | null
+}
+
+const CONFLICT_COLUMNS = 'id, paper_id, field, local_value, remote_value, created_at, papers!inner(title, created_by)'
+
+/**
+ * Lists a user's Zotero sync conflicts and applies their choices
+ */
+export class ZoteroConflictService {
+  private supabase: SupabaseClient
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  /**
+   * Conflicts on the user's papers, newest first
+   */
+  async listConflicts(userId: string): Promise<ZoteroSyncConflict[]> {
+    const { data, error } = await this.supabase
+      .from(CONFLICTS_TABLE)
+      .select(CONFLICT_COLUMNS)
+      .eq('papers.created_by', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load sync conflicts: ${error.message}`)
+    }
+
+    return ((data || []) as ConflictRow[]).map(mapConflict)
+  }
+
+  /**
+   * Resolve a conflict. Keeping Zotero's value writes it to the evaluation;
+   * keeping the app's value marks Zotero's as already seen, so the next sync
+   * writes the app's value to Zotero. Returns false when the conflict does not exist.
+   */
+  async resolveConflict(userId: string, id: string, keep: ConflictResolution): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(CONFLICTS_TABLE)
+      .select(CONFLICT_COLUMNS)
+      .eq('papers.created_by', userId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '22P02') {
+        return false
+      }
+      throw new Error(`Failed to load sync conflict: ${error.message}`)
+    }
+    if (!data) {
+      return false
+    }
+
+    const conflict = data as ConflictRow
+    const { data: evaluation, error: evaluationError } = await this.supabase
+      .from(TABLES.USER_EVALUATIONS)
+      .select('zotero_sync_state')
+      .eq('paper_id', conflict.paper_id)
+      .maybeSingle()
+
+    if (evaluationError) {
+      throw new Error(`Failed to load evaluation: ${evaluationError.message}`)
+    }
+
+    const state: ZoteroSyncState = {
+      ...(evaluation?.zotero_sync_state || {}),
+      [conflict.field]: conflict.remote_value
+    }
+    const columns: Record<string, unknown> = { paper_id: conflict.paper_id, zotero_sync_state: state }
+    if (keep === 'zotero') {
+      columns[conflict.field] = toEvaluationColumn(conflict.field, conflict.remote_value)
+    }
+
+    const { error: saveError } = await this.supabase
+      .from(TABLES.USER_EVALUATIONS)
+      .upsert(columns, { onConflict: 'paper_id' })
+
+    if (saveError) {
+      throw new Error(`Failed to save evaluation: ${saveError.message}`)
+    }
+
+    const { error: deleteError } = await this.supabase
+      .from(CONFLICTS_TABLE)
+      .delete()
+      .eq('id', id)
+
+    if (deleteError) {
+      throw new Error(`Failed to clear sync conflict: ${deleteError.message}`)
+    }
+
+    return true
+  }
+}
+
+function mapConflict(row: ConflictRow): ZoteroSyncConflict {
+  const paper = Array.isArray(row.papers) ? row.papers[0] : row.papers
+
+  return {
+    id: row.id,
+    paperId: row.paper_id,
+    paperTitle: paper?.title || 'Untitled',
+    field: row.field,
+    localValue: row.local_value,
+    remoteValue: row.remote_value,
+    detectedAt: new Date(row.created_at)
+  }
+}
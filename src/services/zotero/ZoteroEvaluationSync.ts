@@ -0,0 +1,455 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient, TABLES } from '@/lib/database'
+import { ZoteroService, ZoteroItem, ZoteroVersionConflictError } from './ZoteroService'
+
+/**
+ * Evaluation fields kept in sync with Zotero
+ */
+export type SyncedField = 'tags' | 'notes' | 'rating'
+
+export interface SyncedValues {
+  tags: string[]
+  notes: string
+  rating: number | null
+}
+
+/**
+ * What both sides agreed on after the last sync, stored in
+ * `user_evaluations.zotero_sync_state`. A field is missing while it is in conflict
+ * and was never synced before.
+ */
+export interface ZoteroSyncState extends Partial<SyncedValues> {
+  // The Zotero child note the notes are written to
+  noteKey?: string
+  noteVersion?: number
+}
+
+/**
+ * How to reconcile a field: leave it, write the local value to Zotero, take
+ * Zotero's value, or ask the user
+ */
+export type MergeAction = 'none' | 'push' | 'pull' | 'conflict'
+
+export interface EvaluationSyncResult {
+  // Papers whose changes were written to Zotero
+  pushed: number
+  // Papers updated from Zotero
+  pulled: number
+  // Fields edited on both sides, waiting for the user
+  conflicts: number
+  errors: string[]
+}
+
+interface EvaluationRow {
+  tags: string[] | null
+  notes: string | null
+  rating: number | null
+  zotero_sync_state: ZoteroSyncState | null
+}
+
+interface LinkedPaperRow {
+  id: string
+  zotero_key: string
+  zotero_version: number | null
+  user_evaluations: EvaluationRow[] | EvaluationRow | null
+}
+
+export const SYNCED_FIELDS: SyncedField[] = ['tags', 'notes', 'rating']
+export const CONFLICTS_TABLE = 'zotero_sync_conflicts'
+
+// Ratings are kept in Zotero as a tag, since items have no rating field
+const RATING_TAG = /^rating:([1-5])$/
+
+const EMPTY_VALUES: SyncedValues = { tags: [], notes: '', rating: null }
+
+/**
+ * Decide how to reconcile a field from its value after the last sync (undefined
+ * if it was never synced), its value here and its value in Zotero. A field
+ * only changed on one side is copied to the other; one changed on both is a
+ * conflict unless both changed it the same way. Values must be normalized.
+ */
+export function mergeField<F extends SyncedField>(
+  field: F,
+  base: SyncedValues[F] | undefined,
+  local: SyncedValues[F],
+  remote: SyncedValues[F]
+): MergeAction {
+  if (sameValue(local, remote)) {
+    return 'none'
+  }
+
+  if (base === undefined) {
+    // First sync: an empty side takes the other's value
+    if (sameValue(local, EMPTY_VALUES[field])) return 'pull'
+    if (sameValue(remote, EMPTY_VALUES[field])) return 'push'
+    return 'conflict'
+  }
+
+  if (sameValue(local, base)) return 'pull'
+  if (sameValue(remote, base)) return 'push'
+  return 'conflict'
+}
+
+/**
+ * Evaluation values in comparable form: tags trimmed, deduplicated and sorted,
+ * notes trimmed, and ratings outside 1-5 dropped
+ */
+export function normalizeValues(values: { tags?: string[] | null; notes?: string | null; rating?: number | null }): SyncedValues {
+  const rating = values.rating ?? null
+
+  return {
+    tags: Array.from(new Set((values.tags || []).map(tag => tag.trim()).filter(tag => tag.length > 0))).sort(),
+    notes: (values.notes || '').trim(),
+    rating: rating !== null && Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : null
+  }
+}
+
+/**
+ * An item's tags and rating, with the rating tag taken out of the tags
+ */
+export function readItemTags(item: ZoteroItem): Pick<SyncedValues, 'tags' | 'rating'> {
+  const tags: string[] = []
+  let rating: number | null = null
+
+  for (const { tag } of item.tags || []) {
+    const match = tag.match(RATING_TAG)
+    if (match) {
+      rating = rating ?? parseInt(match[1])
+    } else {
+      tags.push(tag)
+    }
+  }
+
+  return { tags: normalizeValues({ tags }).tags, rating }
+}
+
+/**
+ * Tags to write to a Zotero item, the rating included as a tag
+ */
+export function toZoteroTags(tags: string[], rating: number | null): string[] {
+  return rating === null ? tags : [...tags, `rating:${rating}`]
+}
+
+/**
+ * Plain-text notes as Zotero note HTML: a paragraph per blank-line separated block
+ */
+export function noteToHtml(notes: string): string {
+  return notes
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+}
+
+/**
+ * Zotero note HTML as plain text, keeping paragraphs and line breaks
+ */
+export function htmlToNote(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|pre)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * The `user_evaluations` column value for a synced field
+ */
+export function toEvaluationColumn(field: SyncedField, value: SyncedValues[SyncedField]): string[] | string | number | null {
+  if (field === 'notes') {
+    return value === '' ? null : value
+  }
+  return value
+}
+
+/**
+ * Keeps the ratings, tags and notes of Zotero-linked papers in step with
+ * Zotero in both directions. Each sync compares both sides with what the
+ * previous sync left, copies one-sided changes across and records fields
+ * edited on both sides as conflicts for the user to resolve. Writes to Zotero
+ * carry the item version they were based on, so edits made there in the
+ * meantime are never overwritten.
+ */
+export class ZoteroEvaluationSync {
+  private zoteroService: ZoteroService
+  private supabase: SupabaseClient
+
+  constructor(zoteroService: ZoteroService, supabase?: SupabaseClient) {
+    this.zoteroService = zoteroService
+    this.supabase = supabase || getSupabaseClient()
+  }
+
+  /**
+   * Reconcile the evaluation of every paper synced from the service's
+   * library. `zoteroItems` are the items (and child notes) fetched by this
+   * sync; papers whose items weren't fetched are taken as unchanged in Zotero.
+   */
+  async sync(zoteroItems: ZoteroItem[]): Promise<EvaluationSyncResult> {
+    const result: EvaluationSyncResult = { pushed: 0, pulled: 0, conflicts: 0, errors: [] }
+    const itemsByKey = new Map(zoteroItems.map(item => [item.key, item]))
+
+    const papers = await this.loadLinkedPapers()
+    const conflictFields = await this.loadConflictFields()
+
+    for (const paper of papers) {
+      try {
+        await this.syncPaper(paper, itemsByKey, conflictFields.get(paper.id) || [], result)
+      } catch (error) {
+        const errorMessage = `Failed to sync evaluation of item ${paper.zotero_key}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        result.errors.push(errorMessage)
+        console.error(errorMessage)
+      }
+    }
+
+    return result
+  }
+
+  private async syncPaper(
+    paper: LinkedPaperRow,
+    itemsByKey: Map<string, ZoteroItem>,
+    knownConflicts: SyncedField[],
+    result: EvaluationSyncResult
+  ): Promise<void> {
+    const item = itemsByKey.get(paper.zotero_key)
+    const evaluation = Array.isArray(paper.user_evaluations) ? paper.user_evaluations[0] : paper.user_evaluations
+    let version = item?.version ?? paper.zotero_version
+
+    // Without a known item version nothing can be written safely; a full sync fetches it
+    if (version === null || (!item && !evaluation)) {
+      return
+    }
+
+    const state: ZoteroSyncState = evaluation?.zotero_sync_state || {}
+    const local = normalizeValues(evaluation || {})
+    const note = state.noteKey ? itemsByKey.get(state.noteKey) : undefined
+    const remote: Partial<SyncedValues> = {
+      ...(item ? readItemTags(item) : { tags: state.tags, rating: state.rating }),
+      notes: note ? htmlToNote(note.note || '') : state.noteKey || !item ? state.notes : ''
+    }
+
+    const nextState: ZoteroSyncState = { ...state, ...(note ? { noteVersion: note.version } : {}) }
+    const pulled: Partial<SyncedValues> = {}
+    const pushes: SyncedField[] = []
+    const conflicts: SyncedField[] = []
+
+    for (const field of SYNCED_FIELDS) {
+      const remoteValue = remote[field]
+      if (remoteValue === undefined) {
+        continue
+      }
+
+      const action = mergeField(field, state[field], local[field], remoteValue)
+      if (action === 'none') {
+        setField(nextState, field, local[field])
+      } else if (action === 'pull') {
+        setField(pulled, field, remoteValue)
+        setField(nextState, field, remoteValue)
+      } else if (action === 'push') {
+        pushes.push(field)
+      } else {
+        conflicts.push(field)
+      }
+    }
+
+    if (pushes.length > 0) {
+      try {
+        version = await this.push(paper.zotero_key, version, pushes, local, remote, nextState)
+        result.pushed++
+      } catch (error) {
+        if (!(error instanceof ZoteroVersionConflictError)) {
+          throw error
+        }
+        // Edited in Zotero since it was fetched; the next sync fetches the edit and merges again
+        console.warn(`Skipped writing to Zotero: ${error.message}`)
+      }
+    }
+
+    if (Object.keys(pulled).length > 0 || JSON.stringify(nextState) !== JSON.stringify(state)) {
+      await this.saveEvaluation(paper.id, pulled, nextState)
+      if (Object.keys(pulled).length > 0) {
+        result.pulled++
+      }
+    }
+
+    if (version !== paper.zotero_version) {
+      const { error } = await this.supabase
+        .from(TABLES.PAPERS)
+        .update({ zotero_version: version })
+        .eq('id', paper.id)
+
+      if (error) {
+        throw new Error(`Failed to save item version: ${error.message}`)
+      }
+    }
+
+    await this.saveConflicts(paper.id, conflicts, knownConflicts, local, remote, version)
+    result.conflicts += conflicts.length
+  }
+
+  /**
+   * Write local changes to Zotero, recording each one in `nextState` as it
+   * succeeds. Returns the item's new version.
+   */
+  private async push(
+    itemKey: string,
+    version: number,
+    fields: SyncedField[],
+    local: SyncedValues,
+    remote: Partial<SyncedValues>,
+    nextState: ZoteroSyncState
+  ): Promise<number> {
+    const pushTags = fields.includes('tags')
+    const pushRating = fields.includes('rating')
+
+    // Tags and rating are written together, so both of Zotero's current values must be known
+    if ((pushTags || pushRating) && remote.tags !== undefined && remote.rating !== undefined) {
+      version = await this.zoteroService.updateItemTags(
+        itemKey,
+        toZoteroTags(pushTags ? local.tags : remote.tags, pushRating ? local.rating : remote.rating),
+        version
+      )
+      if (pushTags) nextState.tags = local.tags
+      if (pushRating) nextState.rating = local.rating
+    }
+
+    if (fields.includes('notes')) {
+      if (nextState.noteKey && local.notes === '') {
+        await this.zoteroService.deleteItem(nextState.noteKey, nextState.noteVersion ?? version)
+        delete nextState.noteKey
+        delete nextState.noteVersion
+      } else if (nextState.noteKey) {
+        nextState.noteVersion = await this.zoteroService.updateNote(
+          nextState.noteKey,
+          noteToHtml(local.notes),
+          nextState.noteVersion ?? version
+        )
+      } else if (local.notes !== '') {
+        const created = await this.zoteroService.createChildNote(itemKey, noteToHtml(local.notes))
+        nextState.noteKey = created.key
+        nextState.noteVersion = created.version
+      }
+      nextState.notes = local.notes
+    }
+
+    return version
+  }
+
+  private async saveEvaluation(paperId: string, pulled: Partial<SyncedValues>, state: ZoteroSyncState): Promise<void> {
+    const columns: Record<string, unknown> = { paper_id: paperId, zotero_sync_state: state }
+    for (const field of SYNCED_FIELDS) {
+      const value = pulled[field]
+      if (value !== undefined) {
+        columns[field] = toEvaluationColumn(field, value)
+      }
+    }
+
+    const { error } = await this.supabase
+      .from(TABLES.USER_EVALUATIONS)
+      .upsert(columns, { onConflict: 'paper_id' })
+
+    if (error) {
+      throw new Error(`Failed to save evaluation: ${error.message}`)
+    }
+  }
+
+  /**
+   * Record the paper's current conflicts and clear those that no longer apply
+   */
+  private async saveConflicts(
+    paperId: string,
+    conflicts: SyncedField[],
+    knownConflicts: SyncedField[],
+    local: SyncedValues,
+    remote: Partial<SyncedValues>,
+    version: number
+  ): Promise<void> {
+    if (conflicts.length > 0) {
+      const { error } = await this.supabase
+        .from(CONFLICTS_TABLE)
+        .upsert(
+          conflicts.map(field => ({
+            paper_id: paperId,
+            field,
+            local_value: local[field],
+            remote_value: remote[field],
+            remote_version: version,
+            updated_at: new Date().toISOString()
+          })),
+          { onConflict: 'paper_id,field' }
+        )
+
+      if (error) {
+        throw new Error(`Failed to save sync conflicts: ${error.message}`)
+      }
+    }
+
+    const resolved = knownConflicts.filter(field => !conflicts.includes(field))
+    if (resolved.length > 0) {
+      const { error } = await this.supabase
+        .from(CONFLICTS_TABLE)
+        .delete()
+        .eq('paper_id', paperId)
+        .in('field', resolved)
+
+      if (error) {
+        throw new Error(`Failed to clear sync conflicts: ${error.message}`)
+      }
+    }
+  }
+
+  private async loadLinkedPapers(): Promise<LinkedPaperRow[]> {
+    const { data, error } = await this.supabase
+      .from(TABLES.PAPERS)
+      .select('id, zotero_key, zotero_version, user_evaluations(tags, notes, rating, zotero_sync_state)')
+      .eq('zotero_library', this.zoteroService.getLibraryPath())
+      .not('zotero_key', 'is', null)
+      .is('archived_at', null)
+
+    if (error) {
+      throw new Error(`Failed to load Zotero papers: ${error.message}`)
+    }
+
+    return (data || []) as LinkedPaperRow[]
+  }
+
+  private async loadConflictFields(): Promise<Map<string, SyncedField[]>> {
+    const { data, error } = await this.supabase
+      .from(CONFLICTS_TABLE)
+      .select('paper_id, field')
+
+    if (error) {
+      throw new Error(`Failed to load sync conflicts: ${error.message}`)
+    }
+
+    const fieldsByPaper = new Map<string, SyncedField[]>()
+    for (const row of (data || []) as Array<{ paper_id: string; field: SyncedField }>) {
+      fieldsByPaper.set(row.paper_id, [...(fieldsByPaper.get(row.paper_id) || []), row.field])
+    }
+    return fieldsByPaper
+  }
+}
+
+function setField<F extends SyncedField>(values: Partial<SyncedValues>, field: F, value: SyncedValues[F]): void {
+  values[field] = value
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
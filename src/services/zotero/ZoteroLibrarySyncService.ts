@@ -0,0 +1,139 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '@/lib/database'
+import { UserZoteroService, type ZoteroLibrary } from '@/services/settings/UserZoteroService'
+import { ZoteroService, type ZoteroSyncResult } from './ZoteroService'
+import { ZoteroSyncService } from './ZoteroSyncService'
+
+export type ZoteroSyncType = 'full' | 'incremental'
+
+/**
+ * How the sync of one library went: its result, or why it failed
+ */
+export interface ZoteroLibrarySyncResult {
+  library: ZoteroLibrary
+  result?: ZoteroSyncResult
+  error?: string
+}
+
+/**
+ * Reported before each library is synced
+ */
+export interface ZoteroLibrarySyncProgress {
+  library: ZoteroLibrary
+  // Libraries already synced, and all libraries of this sync
+  completed: number
+  total: number
+}
+
+/**
+ * Syncs every Zotero library a user subscribes to with the user's API key,
+ * one after another. Each library remembers the version its last sync
+ * reached, so incremental syncs only fetch what changed there. A failing
+ * library doesn't stop the others.
+ */
+export class ZoteroLibrarySyncService {
+  private supabase: SupabaseClient
+  private settings: UserZoteroService
+
+  /**
+   * `supabase` must act as the user: synced papers and collections are theirs
+   */
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabaseClient()
+    this.settings = new UserZoteroService(this.supabase)
+  }
+
+  async syncUserLibraries(
+    userId: string,
+    type: ZoteroSyncType = 'incremental',
+    onProgress?: (progress: ZoteroLibrarySyncProgress) => void | Promise<void>
+  ): Promise<ZoteroLibrarySyncResult[]> {
+    const [settings, apiKey, libraries] = await Promise.all([
+      this.settings.getUserZoteroSettings(userId),
+      this.settings.getZoteroApiKey(userId),
+      this.settings.getZoteroLibraries(userId)
+    ])
+
+    if (!settings || !apiKey) {
+      throw new Error('Zotero not configured')
+    }
+
+    await this.settings.updateSyncStatus(userId, 'syncing')
+
+    const results: ZoteroLibrarySyncResult[] = []
+    for (const [index, library] of libraries.entries()) {
+      try {
+        await onProgress?.({ library, completed: index, total: libraries.length })
+
+        const zoteroService = new ZoteroService()
+        zoteroService.configure({
+          userId: settings.userIdZotero,
+          apiKey,
+          libraryType: library.libraryType,
+          libraryId: library.libraryId
+        })
+
+        const syncService = new ZoteroSyncService(zoteroService, {
+          supabase: this.supabase,
+          userId,
+          lastSyncVersion: library.lastSyncVersion
+        })
+        const result = type === 'full'
+          ? await syncService.performFullSync()
+          : await syncService.performIncrementalSync()
+
+        await this.settings.updateLibrarySyncVersion(library.id, syncService.getSyncStatus().lastSyncVersion)
+        results.push({ library, result })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`Sync of Zotero library ${library.libraryType}/${library.libraryId} failed:`, error)
+        results.push({ library, error: errorMessage })
+      }
+    }
+
+    const failed = results.some(({ error }) => error !== undefined)
+    await this.settings.updateSyncStatus(userId, failed ? 'failed' : 'completed', new Date())
+
+    return results
+  }
+}
+
+/**
+ * How a library is named in sync results and progress
+ */
+export function zoteroLibraryLabel(library: ZoteroLibrary): string {
+  return library.name || `${library.libraryType === 'group' ? 'Group' : 'Library'} ${library.libraryId}`
+}
+
+/**
+ * Totals over the synced libraries. Errors are prefixed with their library.
+ */
+export function combineLibrarySyncResults(results: ZoteroLibrarySyncResult[]): ZoteroSyncResult {
+  const combined: ZoteroSyncResult = {
+    totalItems: 0,
+    newItems: 0,
+    updatedItems: 0,
+    downloadedAttachments: 0,
+    errors: [],
+    lastSyncTime: new Date()
+  }
+
+  for (const { library, result, error } of results) {
+    const label = zoteroLibraryLabel(library)
+    if (error !== undefined) {
+      combined.errors.push(`${label}: ${error}`)
+      continue
+    }
+    if (!result) {
+      continue
+    }
+
+    combined.totalItems += result.totalItems
+    combined.newItems += result.newItems
+    combined.updatedItems += result.updatedItems
+    combined.downloadedAttachments = (combined.downloadedAttachments ?? 0) + (result.downloadedAttachments ?? 0)
+    combined.errors.push(...result.errors.map(message => `${label}: ${message}`))
+  }
+
+  return combined
+}
@@ -22,6 +22,20 @@ export interface ZoteroItem {
     tag: string
     type?: number
   }>
+  // Keys of the collections the item is in
+  collections?: string[]
+  // Child notes and attachments: the key of the item they belong to
+  parentItem?: string
+  // Child notes: the note's HTML
+  note?: string
+}
+
+export interface ZoteroCollection {
+  key: string
+  version: number
+  name: string
+  // Key of the parent collection, or false at the top level
+  parentCollection: string | false
 }
 
 export interface ZoteroSyncResult {
@@ -30,6 +44,31 @@ export interface ZoteroSyncResult {
   updatedItems: number
   errors: string[]
   lastSyncTime: Date
+  // Collections imported on a full sync
+  importedCollections?: number
+  // Papers archived because their items were deleted or trashed in Zotero, and
+  // archived papers restored because their items are back
+  archivedItems?: number
+  restoredItems?: number
+  // PDF attachments downloaded, stored and extracted; unchanged ones aren't counted
+  downloadedAttachments?: number
+  // Ratings, tags and notes reconciled with Zotero
+  evaluations?: {
+    pushed: number
+    pulled: number
+    conflicts: number
+  }
+}
+
+/**
+ * A PDF attachment of an item. `data` is absent when the attachment hasn't
+ * changed since the version the caller already has.
+ */
+export interface ZoteroPdfAttachment {
+  key: string
+  version: number
+  filename?: string
+  data?: Buffer
 }
 
 export interface ZoteroConfig {
@@ -39,6 +78,16 @@ export interface ZoteroConfig {
   libraryId?: string
 }
 
+/**
+ * A write was refused because the item changed in Zotero since the version it was based on
+ */
+export class ZoteroVersionConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZoteroVersionConflictError'
+  }
+}
+
 export class ZoteroService {
   private baseUrl = 'https://api.zotero.org'
   private config: ZoteroConfig | null = null
@@ -112,7 +161,7 @@ export class ZoteroService {
         params.append('since', since.toString())
       }
 
-      const endpoint = `/${this.config.libraryType}s/${this.config.userId}/items`
+      const endpoint = `/${this.getLibraryPath()}/items`
       const response = await this.makeRequest(`${endpoint}?${params}`)
 
       if (!response.ok) {
@@ -137,6 +186,213 @@ export class ZoteroService {
     return items
   }
 
+  /**
+   * Fetch all collections from Zotero library
+   */
+  async fetchAllCollections(): Promise<ZoteroCollection[]> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    const collections: ZoteroCollection[] = []
+    let start = 0
+    const limit = 100
+
+    while (true) {
+      const params = new URLSearchParams({
+        start: start.toString(),
+        limit: limit.toString(),
+        format: 'json'
+      })
+
+      const endpoint = `/${this.getLibraryPath()}/collections`
+      const response = await this.makeRequest(`${endpoint}?${params}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch collections: ${response.statusText}`)
+      }
+
+      const batch = await response.json()
+
+      collections.push(...batch.map((collection: any) => collection.data))
+      start += limit
+
+      if (batch.length < limit) {
+        break
+      }
+    }
+
+    return collections
+  }
+
+  /**
+   * Keys of items deleted from the library since a library version
+   */
+  async fetchDeletedItemKeys(since: number): Promise<string[]> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    const endpoint = `/${this.getLibraryPath()}/deleted`
+    const response = await this.makeRequest(`${endpoint}?since=${since}`)
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch deleted items: ${response.statusText}`)
+    }
+
+    const deleted = await response.json()
+    return deleted.items || []
+  }
+
+  /**
+   * Keys of items in the trash, limited to those trashed or changed since a library version when given
+   */
+  async fetchTrashedItemKeys(since?: number): Promise<string[]> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    const params = new URLSearchParams({ format: 'keys' })
+    if (since) {
+      params.append('since', since.toString())
+    }
+
+    const endpoint = `/${this.getLibraryPath()}/items/trash`
+    const response = await this.makeRequest(`${endpoint}?${params}`)
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch trashed items: ${response.statusText}`)
+    }
+
+    return (await response.text()).split('\n').filter(key => key.length > 0)
+  }
+
+  /**
+   * Download the first stored PDF attachment of an item, or null if it has none
+   */
+  async downloadPdfAttachment(itemKey: string): Promise<Buffer | null> {
+    const attachment = await this.fetchPdfAttachment(itemKey)
+    return attachment?.data || null
+  }
+
+  /**
+   * The first stored PDF attachment of an item, or null if it has none. Given
+   * the attachment downloaded before, the file is only downloaded again when
+   * the attachment changed since that version; otherwise `data` is left out.
+   */
+  async fetchPdfAttachment(
+    itemKey: string,
+    known?: { key: string; version: number }
+  ): Promise<ZoteroPdfAttachment | null> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    const libraryPath = `/${this.getLibraryPath()}`
+
+    if (known) {
+      const response = await this.makeRequest(`${libraryPath}/items/${known.key}?format=json&include=data`, {
+        headers: { 'If-Modified-Since-Version': known.version.toString() }
+      })
+
+      if (response.status === 304) {
+        return { key: known.key, version: known.version }
+      }
+      if (response.ok) {
+        const attachment = (await response.json()).data
+        if (isStoredPdf(attachment) && attachment.parentItem === itemKey) {
+          return this.downloadAttachmentFile(attachment)
+        }
+      } else if (response.status !== 404) {
+        throw new Error(`Failed to fetch attachment: ${response.statusText}`)
+      }
+      // The attachment was replaced or removed; look for another one
+    }
+
+    const childrenResponse = await this.makeRequest(`${libraryPath}/items/${itemKey}/children?format=json&include=data`)
+
+    if (!childrenResponse.ok) {
+      throw new Error(`Failed to fetch attachments: ${childrenResponse.statusText}`)
+    }
+
+    const children = await childrenResponse.json()
+    const attachment = (children as any[])
+      .map(child => child.data)
+      .find(isStoredPdf)
+
+    if (!attachment) {
+      return null
+    }
+
+    return this.downloadAttachmentFile(attachment)
+  }
+
+  /**
+   * Replace an item's tags, unless it changed in Zotero since `version`.
+   * Returns the item's new version.
+   */
+  async updateItemTags(itemKey: string, tags: string[], version: number): Promise<number> {
+    return this.patchItem(itemKey, { tags: tags.map(tag => ({ tag })) }, version)
+  }
+
+  /**
+   * Replace a note's HTML, unless it changed in Zotero since `version`.
+   * Returns the note's new version.
+   */
+  async updateNote(noteKey: string, html: string, version: number): Promise<number> {
+    return this.patchItem(noteKey, { note: html }, version)
+  }
+
+  /**
+   * Add a child note to an item
+   */
+  async createChildNote(parentKey: string, html: string): Promise<{ key: string; version: number }> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    const endpoint = `/${this.getLibraryPath()}/items`
+    const response = await this.makeRequest(endpoint, {
+      method: 'POST',
+      body: JSON.stringify([{ itemType: 'note', parentItem: parentKey, note: html, tags: [] }])
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to create note: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+    const created = body.successful?.['0']
+    if (!created) {
+      throw new Error(`Failed to create note: ${body.failed?.['0']?.message || 'Unknown error'}`)
+    }
+
+    return { key: created.key, version: created.version }
+  }
+
+  /**
+   * Delete an item, unless it changed in Zotero since `version`. Items that
+   * are already gone are ignored.
+   */
+  async deleteItem(itemKey: string, version: number): Promise<void> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    const endpoint = `/${this.getLibraryPath()}/items/${itemKey}`
+    const response = await this.makeRequest(endpoint, {
+      method: 'DELETE',
+      headers: { 'If-Unmodified-Since-Version': version.toString() }
+    })
+
+    if (response.status === 412) {
+      throw new ZoteroVersionConflictError(`Item ${itemKey} changed in Zotero since version ${version}`)
+    }
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete item ${itemKey}: ${response.statusText}`)
+    }
+  }
+
   /**
    * Get library version for incremental sync
    */
@@ -145,7 +401,7 @@ export class ZoteroService {
       throw new Error('Zotero not configured')
     }
 
-    const endpoint = `/${this.config.libraryType}s/${this.config.userId}/items`
+    const endpoint = `/${this.getLibraryPath()}/items`
     const response = await this.makeRequest(`${endpoint}?limit=1&format=versions`)
 
     if (!response.ok) {
@@ -156,6 +412,27 @@ export class ZoteroService {
     return lastModifiedVersion ? parseInt(lastModifiedVersion) : 0
   }
 
+  /**
+   * Name of the configured group library; null for personal libraries
+   */
+  async getLibraryName(): Promise<string | null> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    if (this.config.libraryType !== 'group' || !this.config.libraryId) {
+      return null
+    }
+
+    const response = await this.makeRequest(`/groups/${this.config.libraryId}`)
+    if (!response.ok) {
+      throw new Error(`Failed to get group: ${response.statusText}`)
+    }
+
+    const group = await response.json()
+    return group.data?.name || null
+  }
+
   /**
    * Convert Zotero item to Paper format
    */
@@ -192,6 +469,50 @@ export class ZoteroService {
     }
   }
 
+  /**
+   * Change some fields of an item, unless it changed in Zotero since
+   * `version`. Returns the item's new version.
+   */
+  private async patchItem(itemKey: string, data: Record<string, unknown>, version: number): Promise<number> {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    const endpoint = `/${this.getLibraryPath()}/items/${itemKey}`
+    const response = await this.makeRequest(endpoint, {
+      method: 'PATCH',
+      headers: { 'If-Unmodified-Since-Version': version.toString() },
+      body: JSON.stringify(data)
+    })
+
+    if (response.status === 412) {
+      throw new ZoteroVersionConflictError(`Item ${itemKey} changed in Zotero since version ${version}`)
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to update item ${itemKey}: ${response.statusText}`)
+    }
+
+    const lastModifiedVersion = response.headers.get('Last-Modified-Version')
+    return lastModifiedVersion ? parseInt(lastModifiedVersion) : version
+  }
+
+  /**
+   * Download the file of a stored attachment
+   */
+  private async downloadAttachmentFile(attachment: any): Promise<ZoteroPdfAttachment> {
+    const fileResponse = await this.makeRequest(`/${this.getLibraryPath()}/items/${attachment.key}/file`)
+    if (!fileResponse.ok) {
+      throw new Error(`Failed to download attachment: ${fileResponse.statusText}`)
+    }
+
+    return {
+      key: attachment.key,
+      version: attachment.version,
+      filename: attachment.filename || undefined,
+      data: Buffer.from(await fileResponse.arrayBuffer())
+    }
+  }
+
   /**
    * Make authenticated request to Zotero API
    */
@@ -248,6 +569,19 @@ export class ZoteroService {
            this.config.apiKey.length > 0
   }
 
+  /**
+   * The configured library's API path: 'users/<userId>', or 'groups/<libraryId>' for a group library
+   */
+  getLibraryPath(): string {
+    if (!this.config) {
+      throw new Error('Zotero not configured')
+    }
+
+    return this.config.libraryType === 'group' && this.config.libraryId
+      ? `groups/${this.config.libraryId}`
+      : `users/${this.config.userId}`
+  }
+
   /**
    * Get current configuration
    */
@@ -256,6 +590,13 @@ export class ZoteroService {
   }
 }
 
+// PDF attachments whose file is stored in Zotero, rather than linked
+function isStoredPdf(data: any): boolean {
+  return data?.itemType === 'attachment' &&
+    data.contentType === 'application/pdf' &&
+    (data.linkMode === 'imported_file' || data.linkMode === 'imported_url')
+}
+
 let zoteroServiceInstance: ZoteroService | null = null
 
 export function getZoteroService(): ZoteroService {
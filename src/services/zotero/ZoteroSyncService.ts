@@ -1,6 +1,11 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { Paper } from '@/types'
 import { ZoteroService, ZoteroSyncResult, ZoteroItem, getZoteroService } from './ZoteroService'
 import { getSupabaseClient } from '@/lib/database'
+import { DedupeService } from '@/services/dedupe/DedupeService'
+import { CollectionService } from '@/services/collections/CollectionService'
+import { PaperArchiveService, type PaperEmbeddingStore } from '@/services/archive/PaperArchiveService'
+import { ZoteroEvaluationSync } from './ZoteroEvaluationSync'
 
 export interface SyncStatus {
   isRunning: boolean
@@ -10,8 +15,32 @@ export interface SyncStatus {
   errors: string[]
 }
 
+export interface ZoteroSyncOptions {
+  // Client the papers are written with; papers belong to its signed-in user
+  supabase?: SupabaseClient
+  // The papers' owner, whose storage backend receives the PDF attachments.
+  // Without it attachments are only used for text extraction.
+  userId?: string
+  // Library version the previous sync of this library reached
+  lastSyncVersion?: number
+}
+
+// The paper columns a sync reads back
+interface SyncedPaperRow {
+  id: string
+  title: string
+  journal: string | null
+  publication_year: number | null
+  zotero_attachment_key: string | null
+  zotero_attachment_version: number | null
+}
+
+const SYNCED_PAPER_COLUMNS = 'id, title, journal, publication_year, zotero_attachment_key, zotero_attachment_version'
+
 export class ZoteroSyncService {
   private zoteroService: ZoteroService
+  private options: ZoteroSyncOptions
+  private embeddings?: Pick<PaperEmbeddingStore, 'reembedPaper'>
   private syncStatus: SyncStatus = {
     isRunning: false,
     lastSyncTime: null,
@@ -20,9 +49,12 @@ export class ZoteroSyncService {
     errors: []
   }
 
-  constructor(zoteroService: ZoteroService) {
+  constructor(zoteroService: ZoteroService, options: ZoteroSyncOptions = {}) {
     this.zoteroService = zoteroService
-    this.loadSyncStatus()
+    this.options = options
+    if (options.lastSyncVersion !== undefined) {
+      this.syncStatus.lastSyncVersion = options.lastSyncVersion
+    }
   }
 
   /**
@@ -51,13 +83,22 @@ export class ZoteroSyncService {
       const currentVersion = await this.zoteroService.getLibraryVersion()
 
       // Process items
-      const result = await this.processItems(zoteroItems)
+      const paperIdsByKey = new Map<string, string>()
+      const result = await this.processItems(zoteroItems, paperIdsByKey)
+
+      // Archive papers whose items are gone from Zotero
+      await this.syncRemovedItems(this.syncStatus.lastSyncVersion, zoteroItems, result)
+
+      // Import collections and their papers
+      await this.importCollections(zoteroItems, paperIdsByKey, result)
+
+      // Exchange ratings, tags and notes with Zotero
+      await this.syncEvaluations(zoteroItems, result)
 
       // Update sync status
       this.syncStatus.lastSyncTime = new Date()
       this.syncStatus.lastSyncVersion = currentVersion
       this.syncStatus.totalItems = zoteroItems.length
-      this.saveSyncStatus()
 
       console.log('Full sync completed:', result)
       return result
@@ -93,16 +134,18 @@ export class ZoteroSyncService {
       // Get current library version
       const currentVersion = await this.zoteroService.getLibraryVersion()
       
-      // If no previous sync or version hasn't changed, skip
+      // If no previous sync or version hasn't changed, only local changes are pushed
       if (this.syncStatus.lastSyncVersion >= currentVersion) {
         console.log('No changes detected, skipping sync')
-        return {
+        const result: ZoteroSyncResult = {
           totalItems: 0,
           newItems: 0,
           updatedItems: 0,
           errors: [],
           lastSyncTime: new Date()
         }
+        await this.syncEvaluations([], result)
+        return result
       }
 
       // Fetch only changed items
@@ -112,10 +155,15 @@ export class ZoteroSyncService {
       // Process items
       const result = await this.processItems(zoteroItems)
 
+      // Archive papers whose items were deleted or trashed since the last sync
+      await this.syncRemovedItems(this.syncStatus.lastSyncVersion, zoteroItems, result)
+
+      // Exchange ratings, tags and notes with Zotero
+      await this.syncEvaluations(zoteroItems, result)
+
       // Update sync status
       this.syncStatus.lastSyncTime = new Date()
       this.syncStatus.lastSyncVersion = currentVersion
-      this.saveSyncStatus()
 
       console.log('Incremental sync completed:', result)
       return result
@@ -131,12 +179,16 @@ export class ZoteroSyncService {
   }
 
   /**
-   * Process Zotero items and update database
+   * Process Zotero items and update database. The synced papers' IDs are
+   * recorded by Zotero key in `paperIdsByKey` when given.
    */
-  private async processItems(zoteroItems: ZoteroItem[]): Promise<ZoteroSyncResult> {
+  private async processItems(zoteroItems: ZoteroItem[], paperIdsByKey?: Map<string, string>): Promise<ZoteroSyncResult> {
     let newItems = 0
     let updatedItems = 0
+    let downloadedAttachments = 0
     const errors: string[] = []
+    const createdPaperIds: string[] = []
+    const zoteroLibrary = this.zoteroService.getLibraryPath()
 
     for (const zoteroItem of zoteroItems) {
       try {
@@ -146,21 +198,43 @@ export class ZoteroSyncService {
         }
 
         // Convert to Paper format
-        const paperData = this.zoteroService.convertToPaper(zoteroItem)
+        const paperData = { ...this.zoteroService.convertToPaper(zoteroItem), zoteroLibrary }
         
         // Check if paper already exists
-        const existingPaper = await this.findExistingPaper(zoteroItem.key)
+        const existingPaper = await this.findExistingPaper(zoteroItem.key, zoteroLibrary)
 
         if (existingPaper) {
           // Update existing paper
           await this.updatePaper(existingPaper.id, paperData)
           updatedItems++
+          paperIdsByKey?.set(zoteroItem.key, existingPaper.id)
           console.log(`Updated paper: ${paperData.title}`)
+          if (await this.importAttachment({ ...existingPaper, title: paperData.title || existingPaper.title }, zoteroItem.key)) {
+            downloadedAttachments++
+          }
+        } else if (await this.isMergedAway(zoteroItem.key, zoteroLibrary)) {
+          // The paper was merged into another one as a duplicate
+          continue
         } else {
           // Create new paper
-          await this.createPaper(paperData)
+          const paperId = await this.createPaper(paperData)
           newItems++
           console.log(`Created new paper: ${paperData.title}`)
+          if (paperId) {
+            createdPaperIds.push(paperId)
+            paperIdsByKey?.set(zoteroItem.key, paperId)
+            const created: SyncedPaperRow = {
+              id: paperId,
+              title: paperData.title || 'Untitled',
+              journal: paperData.journal || null,
+              publication_year: paperData.publicationYear ?? null,
+              zotero_attachment_key: null,
+              zotero_attachment_version: null
+            }
+            if (await this.importAttachment(created, zoteroItem.key)) {
+              downloadedAttachments++
+            }
+          }
         }
 
       } catch (error) {
@@ -170,12 +244,104 @@ export class ZoteroSyncService {
       }
     }
 
+    await this.scheduleSavedSearchAlerts(createdPaperIds)
+
     return {
       totalItems: zoteroItems.length,
       newItems,
       updatedItems,
       errors,
-      lastSyncTime: new Date()
+      lastSyncTime: new Date(),
+      downloadedAttachments
+    }
+  }
+
+  /**
+   * Import the library's collections, nested as in Zotero, and add the synced
+   * papers to them. Failures are added to the result and never fail the sync.
+   */
+  private async importCollections(
+    zoteroItems: ZoteroItem[],
+    paperIdsByKey: Map<string, string>,
+    result: ZoteroSyncResult
+  ): Promise<void> {
+    try {
+      const zoteroCollections = await this.zoteroService.fetchAllCollections()
+
+      const memberships = new Map<string, string[]>()
+      for (const zoteroItem of zoteroItems) {
+        const paperId = paperIdsByKey.get(zoteroItem.key)
+        if (paperId && zoteroItem.collections?.length) {
+          memberships.set(paperId, zoteroItem.collections)
+        }
+      }
+
+      result.importedCollections = await new CollectionService(this.db()).importZoteroCollections(
+        zoteroCollections.map(collection => ({
+          key: collection.key,
+          name: collection.name,
+          parentKey: collection.parentCollection || null
+        })),
+        memberships
+      )
+      console.log(`Imported ${result.importedCollections} collections from Zotero`)
+    } catch (error) {
+      const errorMessage = `Failed to import collections: ${error instanceof Error ? error.message : 'Unknown error'}`
+      result.errors.push(errorMessage)
+      console.error(errorMessage)
+    }
+  }
+
+  /**
+   * Archive papers whose items were deleted or moved to the trash in Zotero
+   * since a library version, and restore archived papers whose items are back.
+   * Failures are added to the result and never fail the sync.
+   */
+  private async syncRemovedItems(since: number, zoteroItems: ZoteroItem[], result: ZoteroSyncResult): Promise<void> {
+    try {
+      const [deletedKeys, trashedKeys] = await Promise.all([
+        this.zoteroService.fetchDeletedItemKeys(since),
+        this.zoteroService.fetchTrashedItemKeys(since)
+      ])
+
+      const archiveService = new PaperArchiveService(this.db())
+      const zoteroLibrary = this.zoteroService.getLibraryPath()
+      const trashed = new Set(trashedKeys)
+      const restored = await archiveService.restoreZoteroItems(
+        zoteroLibrary,
+        zoteroItems
+          .filter(item => this.isDocumentItem(item) && !trashed.has(item.key))
+          .map(item => item.key)
+      )
+      const archived = [
+        ...await archiveService.archiveZoteroItems(zoteroLibrary, deletedKeys, 'zotero_deleted'),
+        ...await archiveService.archiveZoteroItems(zoteroLibrary, trashedKeys, 'zotero_trashed')
+      ]
+
+      result.archivedItems = archived.length
+      result.restoredItems = restored.length
+      console.log(`Archived ${archived.length} and restored ${restored.length} papers removed from or returned to Zotero`)
+    } catch (error) {
+      const errorMessage = `Failed to sync deleted items: ${error instanceof Error ? error.message : 'Unknown error'}`
+      result.errors.push(errorMessage)
+      console.error(errorMessage)
+    }
+  }
+
+  /**
+   * Reconcile the synced papers' ratings, tags and notes with Zotero.
+   * Failures are added to the result and never fail the sync.
+   */
+  private async syncEvaluations(zoteroItems: ZoteroItem[], result: ZoteroSyncResult): Promise<void> {
+    try {
+      const { errors, ...counts } = await new ZoteroEvaluationSync(this.zoteroService, this.db()).sync(zoteroItems)
+      result.evaluations = counts
+      result.errors.push(...errors)
+      console.log('Evaluation sync completed:', counts)
+    } catch (error) {
+      const errorMessage = `Failed to sync evaluations: ${error instanceof Error ? error.message : 'Unknown error'}`
+      result.errors.push(errorMessage)
+      console.error(errorMessage)
     }
   }
 
@@ -196,18 +362,20 @@ export class ZoteroSyncService {
   }
 
   /**
-   * Find existing paper by Zotero key
+   * Find existing paper by Zotero key within a library. Papers synced before
+   * libraries were tracked match any library.
    */
-  private async findExistingPaper(zoteroKey: string): Promise<Paper | null> {
+  private async findExistingPaper(zoteroKey: string, zoteroLibrary: string): Promise<SyncedPaperRow | null> {
     try {
-      const supabase = getSupabaseClient()
-      const { data, error } = await supabase
+      const { data, error } = await this.db()
         .from('papers')
-        .select('*')
+        .select(SYNCED_PAPER_COLUMNS)
         .eq('zotero_key', zoteroKey)
-        .single()
+        .or(`zotero_library.eq.${zoteroLibrary},zotero_library.is.null`)
+        .limit(1)
+        .maybeSingle()
 
-      if (error && error.code !== 'PGRST116') { // PGRST116 is "not found"
+      if (error) {
         throw error
       }
 
@@ -218,12 +386,145 @@ export class ZoteroSyncService {
     }
   }
 
+  /**
+   * Whether the item's paper was merged into another paper as a duplicate.
+   * Needs the papers' owner; without one nothing counts as merged.
+   */
+  private async isMergedAway(zoteroKey: string, zoteroLibrary: string): Promise<boolean> {
+    if (!this.options.userId) {
+      return false
+    }
+    try {
+      return await new DedupeService(this.db()).isMergedZoteroKey(this.options.userId, zoteroLibrary, zoteroKey)
+    } catch (error) {
+      console.error('Error checking merged papers:', error)
+      return false
+    }
+  }
+
+  /**
+   * Download the item's PDF attachment unless it's unchanged since the paper's
+   * last download, store it in the owner's storage backend, extract its text
+   * and embed the paper again. Returns whether a PDF was imported. Failures
+   * are logged and never fail the sync.
+   */
+  private async importAttachment(paper: SyncedPaperRow, zoteroKey: string): Promise<boolean> {
+    if (typeof window !== 'undefined') {
+      return false
+    }
+
+    try {
+      const known = paper.zotero_attachment_key && paper.zotero_attachment_version !== null
+        ? { key: paper.zotero_attachment_key, version: paper.zotero_attachment_version }
+        : undefined
+      const attachment = await this.zoteroService.fetchPdfAttachment(zoteroKey, known)
+      if (!attachment?.data) {
+        return false
+      }
+
+      const fileColumns = await this.storeAttachment(paper, attachment.filename, attachment.data)
+
+      const { getPaperTextExtractionService } = await import('@/services/extraction')
+      const stored = await getPaperTextExtractionService().extractAndStore(paper.id, attachment.data, 'zotero')
+      console.log(`Extracted ${stored.charCount} characters from Zotero attachment for ${zoteroKey}`)
+
+      // Recorded last, so a failed import is retried on the next sync
+      const { error } = await this.db()
+        .from('papers')
+        .update({
+          ...fileColumns,
+          zotero_attachment_key: attachment.key,
+          zotero_attachment_version: attachment.version
+        })
+        .eq('id', paper.id)
+
+      if (error) {
+        throw new Error(`Failed to record attachment: ${error.message}`)
+      }
+
+      await this.embedPaper(paper.id)
+      return true
+    } catch (error) {
+      console.warn(`Attachment import failed for ${zoteroKey}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Put an attachment in the owner's storage backend. Returns the paper
+   * columns pointing at the stored file, or none when it couldn't be stored.
+   */
+  private async storeAttachment(
+    paper: SyncedPaperRow,
+    fileName: string | undefined,
+    data: Buffer
+  ): Promise<Record<string, string | null>> {
+    if (!this.options.userId) {
+      return {}
+    }
+
+    try {
+      const { buildPaperFileKey, PaperStorageService, putPaperFile } = await import('@/services/storage')
+      const backend = await new PaperStorageService(this.db()).getBackend(this.options.userId)
+      const stored = await putPaperFile(
+        backend,
+        buildPaperFileKey({
+          year: paper.publication_year?.toString(),
+          journal: paper.journal || undefined,
+          title: paper.title,
+          fileName
+        }),
+        data
+      )
+
+      return {
+        storage_backend: stored.backend,
+        pdf_path: stored.key,
+        google_drive_id: stored.fileId || null,
+        google_drive_url: stored.url || null
+      }
+    } catch (error) {
+      console.warn(`Failed to store the Zotero attachment of paper ${paper.id}:`, error)
+      return {}
+    }
+  }
+
+  /**
+   * Embed a paper again now that its full text changed. Failures are logged.
+   */
+  private async embedPaper(paperId: string): Promise<void> {
+    try {
+      if (!this.embeddings) {
+        const { SupabaseVectorService } = await import('@/services/vector/SupabaseVectorService')
+        this.embeddings = new SupabaseVectorService()
+      }
+      await this.embeddings.reembedPaper(paperId)
+    } catch (error) {
+      console.warn(`Failed to embed paper ${paperId}:`, error)
+    }
+  }
+
+  /**
+   * Queue a check of the owners' saved searches against newly created papers
+   */
+  private async scheduleSavedSearchAlerts(paperIds: string[]): Promise<void> {
+    if (typeof window !== 'undefined' || paperIds.length === 0) {
+      return
+    }
+
+    try {
+      const { scheduleSavedSearchAlerts } = await import('@/services/search/SavedSearchAlerts')
+      await scheduleSavedSearchAlerts(paperIds)
+    } catch (error) {
+      console.warn('Failed to schedule saved search alerts:', error)
+    }
+  }
+
   /**
    * Create new paper in database
    */
-  private async createPaper(paperData: Partial<Paper>): Promise<void> {
-    const supabase = getSupabaseClient()
-    const { error } = await supabase
+  private async createPaper(paperData: Partial<Paper>): Promise<string | null> {
+    const { data, error } = await this.db()
       .from('papers')
       .insert({
         title: paperData.title,
@@ -233,21 +534,25 @@ export class ZoteroSyncService {
         doi: paperData.doi,
         abstract: paperData.abstract,
         zotero_key: paperData.zoteroKey,
+        zotero_library: paperData.zoteroLibrary,
         date_added: paperData.dateAdded?.toISOString(),
         last_modified: paperData.lastModified?.toISOString()
       })
+      .select('id')
+      .single()
 
     if (error) {
       throw new Error(`Failed to create paper: ${error.message}`)
     }
+
+    return data?.id ?? null
   }
 
   /**
    * Update existing paper in database
    */
   private async updatePaper(paperId: string, paperData: Partial<Paper>): Promise<void> {
-    const supabase = getSupabaseClient()
-    const { error } = await supabase
+    const { error } = await this.db()
       .from('papers')
       .update({
         title: paperData.title,
@@ -256,6 +561,7 @@ export class ZoteroSyncService {
         publication_year: paperData.publicationYear,
         doi: paperData.doi,
         abstract: paperData.abstract,
+        zotero_library: paperData.zoteroLibrary,
         last_modified: paperData.lastModified?.toISOString()
       })
       .eq('id', paperId)
@@ -265,46 +571,16 @@ export class ZoteroSyncService {
     }
   }
 
-  /**
-   * Get current sync status
-   */
-  getSyncStatus(): SyncStatus {
-    return { ...this.syncStatus }
-  }
-
-  /**
-   * Load sync status from localStorage
-   */
-  private loadSyncStatus(): void {
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('zotero-sync-status')
-      if (stored) {
-        try {
-          const parsed = JSON.parse(stored)
-          this.syncStatus = {
-            ...this.syncStatus,
-            ...parsed,
-            lastSyncTime: parsed.lastSyncTime ? new Date(parsed.lastSyncTime) : null,
-            isRunning: false // Always reset running status on load
-          }
-        } catch (error) {
-          console.error('Failed to parse sync status:', error)
-        }
-      }
-    }
+  private db(): SupabaseClient {
+    return this.options.supabase || getSupabaseClient()
   }
 
   /**
-   * Save sync status to localStorage
+   * Status of this instance's syncs. The state of a user's syncs is kept in
+   * user_zotero_settings and user_zotero_libraries.
    */
-  private saveSyncStatus(): void {
-    if (typeof window !== 'undefined') {
-      const statusToSave = {
-        ...this.syncStatus,
-        isRunning: false // Don't persist running status
-      }
-      localStorage.setItem('zotero-sync-status', JSON.stringify(statusToSave))
-    }
+  getSyncStatus(): SyncStatus {
+    return { ...this.syncStatus }
   }
 
   /**
@@ -318,7 +594,6 @@ export class ZoteroSyncService {
       totalItems: 0,
       errors: []
     }
-    this.saveSyncStatus()
   }
 }
 
@@ -0,0 +1,218 @@
+import {
+  ZoteroEvaluationSync,
+  htmlToNote,
+  mergeField,
+  noteToHtml,
+  readItemTags
+} from '../ZoteroEvaluationSync'
+import { ZoteroItem, ZoteroVersionConflictError } from '../ZoteroService'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn(),
+  TABLES: { PAPERS: 'papers', USER_EVALUATIONS: 'user_evaluations' }
+}))
+
+type QueryResult = { data: unknown; error: unknown }
+
+// A chainable query that resolves to the given result however it's ended
+function query(result: QueryResult) {
+  const chain: any = {}
+  for (const method of ['select', 'update', 'upsert', 'delete', 'eq', 'in', 'not', 'is']) {
+    chain[method] = jest.fn(() => chain)
+  }
+  chain.then = (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject)
+  return chain
+}
+
+function mockSupabase(queries: Record<string, any[]>) {
+  return { from: jest.fn((table: string) => queries[table].shift()) } as any
+}
+
+function mockZotero() {
+  return {
+    getLibraryPath: jest.fn(() => 'users/1'),
+    updateItemTags: jest.fn(async () => 43),
+    updateNote: jest.fn(async () => 12),
+    createChildNote: jest.fn(async () => ({ key: 'NOTE1', version: 44 })),
+    deleteItem: jest.fn(async () => undefined)
+  } as any
+}
+
+function item(tags: string[], version = 42): ZoteroItem {
+  return {
+    key: 'ITEM1',
+    version,
+    itemType: 'journalArticle',
+    title: 'Attention Is All You Need',
+    dateAdded: '2026-10-01T10:00:00Z',
+    dateModified: '2026-10-01T10:00:00Z',
+    tags: tags.map(tag => ({ tag }))
+  }
+}
+
+function linkedPaper(evaluation: Record<string, unknown> | null, zoteroVersion: number | null = 42) {
+  return {
+    id: 'paper-1',
+    zotero_key: 'ITEM1',
+    zotero_version: zoteroVersion,
+    user_evaluations: evaluation ? [evaluation] : []
+  }
+}
+
+describe('mergeField', () => {
+  it('copies a change made on one side to the other', () => {
+    expect(mergeField('rating', 3, 4, 3)).toBe('push')
+    expect(mergeField('rating', 3, 3, 5)).toBe('pull')
+    expect(mergeField('tags', ['a'], ['a', 'b'], ['a', 'b'])).toBe('none')
+  })
+
+  it('reports a conflict when both sides changed differently', () => {
+    expect(mergeField('notes', 'draft', 'mine', 'theirs')).toBe('conflict')
+  })
+
+  it('lets an empty side take the other on the first sync', () => {
+    expect(mergeField('tags', undefined, [], ['ml'])).toBe('pull')
+    expect(mergeField('notes', undefined, 'Read again', '')).toBe('push')
+    expect(mergeField('rating', undefined, 2, 4)).toBe('conflict')
+  })
+})
+
+describe('Zotero value mapping', () => {
+  it('keeps the rating tag out of the tags', () => {
+    expect(readItemTags(item(['ml', 'rating:4', ' attention ']))).toEqual({ tags: ['attention', 'ml'], rating: 4 })
+  })
+
+  it('round-trips notes through note HTML', () => {
+    const notes = 'Key idea: <self-attention> & no recurrence.\nSee section 3.\n\nCompare with ConvS2S.'
+
+    expect(noteToHtml(notes)).toBe(
+      '<p>Key idea: &lt;self-attention&gt; &amp; no recurrence.<br>See section 3.</p>\n<p>Compare with ConvS2S.</p>'
+    )
+    expect(htmlToNote(noteToHtml(notes))).toBe(notes)
+    expect(htmlToNote('<div data-schema-version="8"><p>Edited&nbsp;in Zotero</p></div>')).toBe('Edited in Zotero')
+  })
+})
+
+describe('ZoteroEvaluationSync', () => {
+  it('writes local changes to Zotero against the item version', async () => {
+    const evaluation = query({ data: null, error: null })
+    const version = query({ data: null, error: null })
+    const supabase = mockSupabase({
+      papers: [
+        query({
+          data: [linkedPaper({
+            tags: ['ml', 'nlp'],
+            notes: 'Read section 3',
+            rating: 5,
+            zotero_sync_state: { tags: ['ml'], notes: '', rating: 4 }
+          })],
+          error: null
+        }),
+        version
+      ],
+      zotero_sync_conflicts: [query({ data: [], error: null })],
+      user_evaluations: [evaluation]
+    })
+    const zotero = mockZotero()
+
+    const result = await new ZoteroEvaluationSync(zotero, supabase).sync([item(['ml', 'rating:4'])])
+
+    expect(zotero.updateItemTags).toHaveBeenCalledWith('ITEM1', ['ml', 'nlp', 'rating:5'], 42)
+    expect(zotero.createChildNote).toHaveBeenCalledWith('ITEM1', '<p>Read section 3</p>')
+    expect(result).toEqual({ pushed: 1, pulled: 0, conflicts: 0, errors: [] })
+    expect(evaluation.upsert.mock.calls[0][0]).toEqual({
+      paper_id: 'paper-1',
+      zotero_sync_state: { tags: ['ml', 'nlp'], notes: 'Read section 3', rating: 5, noteKey: 'NOTE1', noteVersion: 44 }
+    })
+    expect(version.update).toHaveBeenCalledWith({ zotero_version: 43 })
+  })
+
+  it('takes changes made in Zotero, including edits to the note', async () => {
+    const evaluation = query({ data: null, error: null })
+    const supabase = mockSupabase({
+      papers: [
+        query({
+          data: [linkedPaper({
+            tags: ['ml'],
+            notes: 'Old note',
+            rating: 4,
+            zotero_sync_state: { tags: ['ml'], notes: 'Old note', rating: 4, noteKey: 'NOTE1', noteVersion: 40 }
+          }, 41)],
+          error: null
+        }),
+        query({ data: null, error: null })
+      ],
+      zotero_sync_conflicts: [query({ data: [], error: null })],
+      user_evaluations: [evaluation]
+    })
+    const note: ZoteroItem = {
+      ...item([], 45),
+      key: 'NOTE1',
+      itemType: 'note',
+      parentItem: 'ITEM1',
+      note: '<p>New note</p>'
+    }
+
+    const result = await new ZoteroEvaluationSync(mockZotero(), supabase).sync([item(['ml', 'rating:2']), note])
+
+    expect(result.pulled).toBe(1)
+    expect(evaluation.upsert.mock.calls[0][0]).toMatchObject({
+      paper_id: 'paper-1',
+      notes: 'New note',
+      rating: 2,
+      zotero_sync_state: { notes: 'New note', rating: 2, noteVersion: 45 }
+    })
+  })
+
+  it('records a conflict instead of overwriting either side', async () => {
+    const conflicts = query({ data: null, error: null })
+    const supabase = mockSupabase({
+      papers: [
+        query({
+          data: [linkedPaper({
+            tags: ['mine'],
+            notes: null,
+            rating: null,
+            zotero_sync_state: { tags: ['shared'], notes: '', rating: null }
+          })],
+          error: null
+        })
+      ],
+      zotero_sync_conflicts: [query({ data: [], error: null }), conflicts]
+    })
+    const zotero = mockZotero()
+
+    const result = await new ZoteroEvaluationSync(zotero, supabase).sync([item(['theirs'])])
+
+    expect(zotero.updateItemTags).not.toHaveBeenCalled()
+    expect(result.conflicts).toBe(1)
+    expect(conflicts.upsert.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ paper_id: 'paper-1', field: 'tags', local_value: ['mine'], remote_value: ['theirs'], remote_version: 42 })
+    ])
+  })
+
+  it('leaves a change for the next sync when the item changed in Zotero meanwhile', async () => {
+    const supabase = mockSupabase({
+      papers: [
+        query({
+          data: [linkedPaper({
+            tags: [],
+            notes: null,
+            rating: 3,
+            zotero_sync_state: { tags: [], notes: '', rating: null }
+          })],
+          error: null
+        })
+      ],
+      zotero_sync_conflicts: [query({ data: [], error: null })]
+    })
+    const zotero = mockZotero()
+    zotero.updateItemTags.mockRejectedValueOnce(new ZoteroVersionConflictError('Item ITEM1 changed'))
+
+    const result = await new ZoteroEvaluationSync(zotero, supabase).sync([])
+
+    expect(zotero.updateItemTags).toHaveBeenCalledWith('ITEM1', ['rating:3'], 42)
+    expect(result).toEqual({ pushed: 0, pulled: 0, conflicts: 0, errors: [] })
+  })
+})
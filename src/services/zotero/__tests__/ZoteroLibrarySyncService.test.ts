@@ -0,0 +1,114 @@
+import { ZoteroLibrarySyncService, combineLibrarySyncResults } from '../ZoteroLibrarySyncService'
+import { ZoteroSyncService } from '../ZoteroSyncService'
+import type { ZoteroLibrary } from '@/services/settings/UserZoteroService'
+
+jest.mock('@/lib/database', () => ({
+  getSupabaseClient: jest.fn()
+}))
+
+const mockSettings = {
+  getUserZoteroSettings: jest.fn(),
+  getZoteroApiKey: jest.fn(),
+  getZoteroLibraries: jest.fn(),
+  updateSyncStatus: jest.fn(),
+  updateLibrarySyncVersion: jest.fn()
+}
+
+jest.mock('@/services/settings/UserZoteroService', () => ({
+  UserZoteroService: jest.fn(() => mockSettings)
+}))
+
+jest.mock('../ZoteroSyncService', () => ({
+  ZoteroSyncService: jest.fn()
+}))
+
+const MockZoteroSyncService = ZoteroSyncService as jest.MockedClass<typeof ZoteroSyncService>
+
+function library(id: string, libraryType: 'user' | 'group', libraryId: string, lastSyncVersion: number): ZoteroLibrary {
+  return { id, libraryType, libraryId, name: null, lastSyncVersion, lastSyncAt: null }
+}
+
+function syncResult(newItems: number, downloadedAttachments: number, errors: string[] = []) {
+  return { totalItems: newItems, newItems, updatedItems: 0, downloadedAttachments, errors, lastSyncTime: new Date() }
+}
+
+describe('ZoteroLibrarySyncService', () => {
+  const supabase = {} as any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockSettings.getUserZoteroSettings.mockResolvedValue({ userIdZotero: '123' })
+    mockSettings.getZoteroApiKey.mockResolvedValue('zotero-key')
+    mockSettings.getZoteroLibraries.mockResolvedValue([
+      library('lib-1', 'user', '123', 40),
+      library('lib-2', 'group', '4711', 0)
+    ])
+  })
+
+  it('syncs each library from the version its last sync reached', async () => {
+    const versions = [52, 9]
+    MockZoteroSyncService.mockImplementation((zoteroService: any) => {
+      const reached = versions.shift()
+      return {
+        performIncrementalSync: jest.fn(async () => syncResult(1, 1)),
+        getSyncStatus: jest.fn(() => ({ lastSyncVersion: reached })),
+        libraryPath: zoteroService.getLibraryPath()
+      } as any
+    })
+
+    const results = await new ZoteroLibrarySyncService(supabase).syncUserLibraries('user-1')
+
+    expect(MockZoteroSyncService.mock.results.map(({ value }: { value: any }) => value.libraryPath)).toEqual(['users/123', 'groups/4711'])
+    expect(MockZoteroSyncService.mock.calls.map(([, options]: any[]) => options)).toEqual([
+      { supabase, userId: 'user-1', lastSyncVersion: 40 },
+      { supabase, userId: 'user-1', lastSyncVersion: 0 }
+    ])
+    expect(mockSettings.updateLibrarySyncVersion).toHaveBeenCalledWith('lib-1', 52)
+    expect(mockSettings.updateLibrarySyncVersion).toHaveBeenCalledWith('lib-2', 9)
+    expect(mockSettings.updateSyncStatus).toHaveBeenLastCalledWith('user-1', 'completed', expect.any(Date))
+    expect(results.every(({ error }) => error === undefined)).toBe(true)
+  })
+
+  it('keeps syncing the other libraries when one fails', async () => {
+    MockZoteroSyncService
+      .mockImplementationOnce(() => ({
+        performFullSync: jest.fn(async () => { throw new Error('Forbidden') }),
+        getSyncStatus: jest.fn()
+      }) as any)
+      .mockImplementationOnce(() => ({
+        performFullSync: jest.fn(async () => syncResult(2, 1)),
+        getSyncStatus: jest.fn(() => ({ lastSyncVersion: 9 }))
+      }) as any)
+
+    const results = await new ZoteroLibrarySyncService(supabase).syncUserLibraries('user-1', 'full')
+
+    expect(results.map(({ error }) => error)).toEqual(['Forbidden', undefined])
+    expect(mockSettings.updateLibrarySyncVersion).toHaveBeenCalledTimes(1)
+    expect(mockSettings.updateSyncStatus).toHaveBeenLastCalledWith('user-1', 'failed', expect.any(Date))
+  })
+
+  it('refuses to sync without a Zotero connection', async () => {
+    mockSettings.getZoteroApiKey.mockResolvedValue(null)
+
+    await expect(new ZoteroLibrarySyncService(supabase).syncUserLibraries('user-1')).rejects.toThrow('Zotero not configured')
+    expect(MockZoteroSyncService).not.toHaveBeenCalled()
+  })
+})
+
+describe('combineLibrarySyncResults', () => {
+  it('adds up the libraries and labels their errors', () => {
+    const combined = combineLibrarySyncResults([
+      { library: library('lib-1', 'user', '123', 0), result: syncResult(3, 2, ['Failed to import collections']) },
+      { library: { ...library('lib-2', 'group', '4711', 0), name: 'Reading group' }, error: 'Forbidden' },
+      { library: library('lib-3', 'group', '99', 0), result: syncResult(1, 1) }
+    ])
+
+    expect(combined).toMatchObject({
+      totalItems: 4,
+      newItems: 4,
+      downloadedAttachments: 3,
+      errors: ['Library 123: Failed to import collections', 'Reading group: Forbidden']
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { ZoteroService, ZoteroItem } from '../ZoteroService'
+import { ZoteroService, ZoteroItem, ZoteroVersionConflictError } from '../ZoteroService'
 
 // Mock fetch
 global.fetch = jest.fn()
@@ -161,6 +161,249 @@ describe('ZoteroService', () => {
     })
   })
 
+  describe('fetchAllCollections', () => {
+    beforeEach(() => {
+      service.configure({
+        userId: 'test-user',
+        apiKey: 'test-key',
+        libraryType: 'user'
+      })
+    })
+
+    it('should fetch all collections across pages', async () => {
+      const firstBatch = Array.from({ length: 100 }, (_, i) => ({
+        data: { key: `COLL${i}`, version: 1, name: `Collection ${i}`, parentCollection: false }
+      }))
+      const secondBatch = [
+        { data: { key: 'CHILD', version: 1, name: 'Child', parentCollection: 'COLL0' } }
+      ]
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => firstBatch
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => secondBatch
+        } as Response)
+
+      const result = await service.fetchAllCollections()
+
+      expect(result).toHaveLength(101)
+      expect(result[100]).toEqual({ key: 'CHILD', version: 1, name: 'Child', parentCollection: 'COLL0' })
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/users/test-user/collections'),
+        expect.any(Object)
+      )
+    })
+  })
+
+  describe('removed items', () => {
+    beforeEach(() => {
+      service.configure({
+        userId: 'test-user',
+        apiKey: 'test-key',
+        libraryType: 'user'
+      })
+    })
+
+    it('should fetch keys of items deleted since a version', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ collections: [], items: ['DEL1', 'DEL2'], searches: [], tags: [] })
+      } as Response)
+
+      const result = await service.fetchDeletedItemKeys(120)
+
+      expect(result).toEqual(['DEL1', 'DEL2'])
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.zotero.org/users/test-user/deleted?since=120',
+        expect.any(Object)
+      )
+    })
+
+    it('should fetch keys of trashed items', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => 'TRASH1\nTRASH2\n'
+      } as Response)
+
+      const result = await service.fetchTrashedItemKeys(120)
+
+      expect(result).toEqual(['TRASH1', 'TRASH2'])
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/users/test-user/items/trash?format=keys&since=120'),
+        expect.any(Object)
+      )
+    })
+  })
+
+  describe('group libraries and attachments', () => {
+    const pdfAttachment = {
+      key: 'PDF1',
+      version: 50,
+      itemType: 'attachment',
+      parentItem: 'ITEM1',
+      contentType: 'application/pdf',
+      linkMode: 'imported_file',
+      filename: 'vaswani2017.pdf'
+    }
+
+    beforeEach(() => {
+      service.configure({
+        userId: 'test-user',
+        apiKey: 'test-key',
+        libraryType: 'group',
+        libraryId: '4711'
+      })
+    })
+
+    it('should address a group library by its group ID', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => []
+      } as unknown as Response)
+
+      await service.fetchAllItems()
+
+      expect(service.getLibraryPath()).toBe('groups/4711')
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('https://api.zotero.org/groups/4711/items?'),
+        expect.any(Object)
+      )
+    })
+
+    it('should download the PDF attachment of an item', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ data: { key: 'NOTE1', itemType: 'note' } }, { data: pdfAttachment }]
+        } as unknown as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          arrayBuffer: async () => new TextEncoder().encode('%PDF-1.7').buffer
+        } as unknown as Response)
+
+      const result = await service.fetchPdfAttachment('ITEM1')
+
+      expect(result).toEqual({ key: 'PDF1', version: 50, filename: 'vaswani2017.pdf', data: Buffer.from('%PDF-1.7') })
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://api.zotero.org/groups/4711/items/PDF1/file',
+        expect.any(Object)
+      )
+    })
+
+    it('should not download an attachment unchanged since the known version', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 304 } as Response)
+
+      const result = await service.fetchPdfAttachment('ITEM1', { key: 'PDF1', version: 50 })
+
+      expect(result).toEqual({ key: 'PDF1', version: 50 })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.zotero.org/groups/4711/items/PDF1?format=json&include=data',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-Modified-Since-Version': '50' })
+        })
+      )
+    })
+
+    it('should download an attachment changed since the known version', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ data: { ...pdfAttachment, version: 57 } })
+        } as unknown as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          arrayBuffer: async () => new TextEncoder().encode('%PDF-1.7 v2').buffer
+        } as unknown as Response)
+
+      const result = await service.fetchPdfAttachment('ITEM1', { key: 'PDF1', version: 50 })
+
+      expect(result?.version).toBe(57)
+      expect(result?.data).toEqual(Buffer.from('%PDF-1.7 v2'))
+    })
+
+    it('should look for another attachment when the known one is gone', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => []
+        } as unknown as Response)
+
+      const result = await service.fetchPdfAttachment('ITEM1', { key: 'PDF1', version: 50 })
+
+      expect(result).toBeNull()
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://api.zotero.org/groups/4711/items/ITEM1/children?format=json&include=data',
+        expect.any(Object)
+      )
+    })
+  })
+
+  describe('write-back', () => {
+    beforeEach(() => {
+      service.configure({
+        userId: 'test-user',
+        apiKey: 'test-key',
+        libraryType: 'user'
+      })
+    })
+
+    it('should update tags against the known item version', async () => {
+      const mockHeaders = new Headers()
+      mockHeaders.set('Last-Modified-Version', '43')
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 204,
+        headers: mockHeaders
+      } as Response)
+
+      const result = await service.updateItemTags('ITEM1', ['ml', 'rating:4'], 42)
+
+      expect(result).toBe(43)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.zotero.org/users/test-user/items/ITEM1',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ tags: [{ tag: 'ml' }, { tag: 'rating:4' }] }),
+          headers: expect.objectContaining({ 'If-Unmodified-Since-Version': '42' })
+        })
+      )
+    })
+
+    it('should report a conflict when the item changed in Zotero', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 412,
+        statusText: 'Precondition Failed'
+      } as Response)
+
+      await expect(service.updateNote('NOTE1', '<p>Changed</p>', 7))
+        .rejects.toThrow(ZoteroVersionConflictError)
+    })
+
+    it('should create a child note', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ successful: { '0': { key: 'NOTE1', version: 44 } }, failed: {} })
+      } as Response)
+
+      const result = await service.createChildNote('ITEM1', '<p>Read this</p>')
+
+      expect(result).toEqual({ key: 'NOTE1', version: 44 })
+      expect(JSON.parse(mockFetch.mock.calls[0][1]!.body as string)).toEqual([
+        { itemType: 'note', parentItem: 'ITEM1', note: '<p>Read this</p>', tags: [] }
+      ])
+    })
+  })
+
   describe('convertToPaper', () => {
     it('should convert Zotero item to Paper format', () => {
       const zoteroItem: ZoteroItem = {
@@ -35,6 +35,7 @@ describe('ZoteroSyncService', () => {
   beforeEach(() => {
     mockZoteroService = {
       isConfigured: jest.fn(),
+      getLibraryPath: jest.fn(() => 'users/123'),
       fetchAllItems: jest.fn(),
       getLibraryVersion: jest.fn(),
       convertToPaper: jest.fn()
@@ -1,4 +1,10 @@
-export { ZoteroService, zoteroService } from './ZoteroService'
+export { ZoteroService, ZoteroVersionConflictError, zoteroService } from './ZoteroService'
 export { ZoteroSyncService, zoteroSyncService } from './ZoteroSyncService'
-export type { ZoteroItem, ZoteroSyncResult, ZoteroConfig } from './ZoteroService'
-export type { SyncStatus } from './ZoteroSyncService'
\ No newline at end of file
+export { ZoteroLibrarySyncService, combineLibrarySyncResults } from './ZoteroLibrarySyncService'
+export type { ZoteroItem, ZoteroCollection, ZoteroSyncResult, ZoteroConfig, ZoteroPdfAttachment } from './ZoteroService'
+export type { SyncStatus, ZoteroSyncOptions } from './ZoteroSyncService'
+export type { ZoteroLibrarySyncResult, ZoteroSyncType } from './ZoteroLibrarySyncService'
+export { ZoteroEvaluationSync } from './ZoteroEvaluationSync'
+export { ZoteroConflictService } from './ZoteroConflictService'
+export type { SyncedField, EvaluationSyncResult } from './ZoteroEvaluationSync'
+export type { ZoteroSyncConflict, ConflictResolution } from './ZoteroConflictService'
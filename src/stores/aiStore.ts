@@ -80,9 +80,13 @@ export const useAIStore = create<AIStore>()(
         set({ isValidating: true })
         
         try {
+          const token = localStorage.getItem('auth_token')
           const response = await fetch('/api/ai-keys/validate', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: {
+              'Content-Type': 'application/json',
+              ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+            },
             body: JSON.stringify({ service, key })
           })
           
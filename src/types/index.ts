@@ -10,34 +10,76 @@ export interface Paper {
   doi?: string
   abstract?: string
   zoteroKey?: string
+  // Zotero library the paper was synced from: 'users/<id>' or 'groups/<id>'
+  zoteroLibrary?: string
   googleDriveId?: string
   googleDriveUrl?: string
   pdfPath?: string
+  // Where the PDF is stored; pdfPath is its key there. Unset with a googleDriveId means Google Drive
+  storageBackend?: 'google_drive' | 'local' | 's3'
   readingStatus: 'unread' | 'reading' | 'completed'
   dateAdded: Date
   dateRead?: Date
   lastModified: Date
+  // Set when the paper's Zotero item was deleted or trashed; archived papers are hidden until restored
+  archivedAt?: Date
+  archiveReason?: PaperArchiveReason
 }
 
+export type PaperArchiveReason = 'zotero_deleted' | 'zotero_trashed'
+
 export interface UserEvaluation {
   id: string
   paperId: string
   rating?: number // 1-5
   notes?: string
   tags: string[]
-  highlights?: Record<string, unknown>
+  // Reader highlights and margin notes, keyed by highlight id
+  highlights?: Record<string, PaperHighlight>
   createdAt: Date
   updatedAt: Date
 }
 
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'orange'
+
+/**
+ * A quadrilateral on a PDF page in PDF QuadPoints order (x1 y1 x2 y2 x3 y3 x4 y4:
+ * top-left, top-right, bottom-left, bottom-right), normalized to 0-1 of the page
+ * width and height with the origin at the top left, so it is independent of zoom
+ */
+export type PdfQuad = [number, number, number, number, number, number, number, number]
+
+export interface PaperHighlight {
+  id: string
+  // A text-selection highlight, or a sticky note anchored to a point in the margin
+  type: 'highlight' | 'note'
+  // 1-based page number
+  page: number
+  quads: PdfQuad[]
+  color: HighlightColor
+  // The highlighted text
+  text?: string
+  comment?: string
+  createdAt: string
+  updatedAt?: string
+}
+
 export interface AIAnalysisResult {
   id: string
   paperId: string
-  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini'
+  modelProvider: 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
   modelName: string
   summary: string
   keywords: string[]
   scientificRelevance?: Record<string, unknown>
+  // Structured analysis fields; absent on analyses made before they existed
+  keyFindings?: string[]
+  methodology?: string
+  limitations?: string[]
+  significance?: string
+  // Set when the analysis ran a user-defined prompt template; summary holds its report
+  templateId?: string
+  templateVersion?: number
   confidenceScore: number
   tokensUsed: number
   processingTimeMs: number
@@ -49,6 +91,7 @@ export interface MultiModelAnalysis {
   anthropic?: AIAnalysisResult
   xai?: AIAnalysisResult
   gemini?: AIAnalysisResult
+  'openai-compatible'?: AIAnalysisResult
 }
 
 export interface SearchResult {
@@ -56,20 +99,115 @@ export interface SearchResult {
   paper: Paper
   similarity: number
   relevantExcerpts: string[]
+  passages?: SearchPassage[]
+}
+
+// A matching chunk of a paper's full text, located by section/page/offsets
+export interface SearchPassage {
+  content: string
+  similarity: number
+  section?: string
+  sectionHeading?: string
+  page?: number
+  start?: number
+  end?: number
+}
+
+// The papers a RAG question is answered from, instead of the whole library:
+// the given papers, those with the tag, or those in the collection and its subcollections
+export interface RAGScope {
+  paperIds?: string[]
+  tag?: string
+  collectionId?: string
+}
+
+// An earlier turn of a RAG conversation, given to the model for follow-up questions
+export interface RAGHistoryTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface RAGConversation {
+  id: string
+  title: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A retrieved excerpt an answer cites by its number, e.g. [2]. Offsets locate
+// the excerpt in the paper's extracted full text; overview excerpts have none.
+export interface RAGCitation {
+  marker: number
+  paperId: string
+  excerpt: string
+  start?: number
+  end?: number
+  page?: number
+  sectionHeading?: string
+}
+
+// A sentence of an answer that the retrieved excerpts don't back up: either
+// none of them supports it, or it cites an excerpt that doesn't
+export interface RAGUnsupportedClaim {
+  text: string
+  // Offsets of the sentence in the answer
+  start: number
+  end: number
+  markers: number[]
+  reason: 'unsupported' | 'miscited'
 }
 
 export interface RAGResponse {
   answer: string
   sources: Paper[]
   confidence: number
+  // Excerpts the answer's [n] markers refer to
+  citations?: RAGCitation[]
+  unsupportedClaims?: RAGUnsupportedClaim[]
+  // Sources formatted as bibliography entries, when a citation style was requested
+  bibliography?: string[]
+  // The saved conversation the answer was added to, with its possibly new title
+  conversation?: RAGConversation
+  // Tokens the answer took, when a model generated it
+  usage?: RAGUsage
+}
+
+export interface RAGUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  // What the answer cost in USD; 0 for a self-hosted model
+  cost?: number
 }
 
+// Events of a streamed RAG answer: sources first, then answer text as it's generated, then one done (or error)
+export type RAGStreamEvent =
+  | { type: 'sources'; sources: Paper[]; citations?: RAGCitation[]; bibliography?: string[] }
+  | { type: 'delta'; text: string }
+  | {
+      type: 'done'
+      confidence: number
+      usage?: RAGUsage
+      unsupportedClaims?: RAGUnsupportedClaim[]
+      conversation?: RAGConversation
+    }
+  | { type: 'error'; error: string }
+
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
   sources?: Paper[]
+  citations?: RAGCitation[]
+  unsupportedClaims?: RAGUnsupportedClaim[]
+  bibliography?: string[]
+  confidence?: number
+  usage?: RAGUsage
+  // The answer is still being streamed
+  streaming?: boolean
+  // Generation was stopped by the user; content holds the partial answer
+  cancelled?: boolean
 }
 
 export interface LoginCredentials {
@@ -85,6 +223,25 @@ export interface SearchFilters {
   journals?: string[]
   authors?: string[]
   dateRange?: { start: Date; end: Date }
+  // Papers in any of these collections or their subcollections
+  collectionIds?: string[]
+}
+
+// A folder of papers; collections nest through parentId and are ordered by position among siblings
+export interface Collection {
+  id: string
+  name: string
+  parentId: string | null
+  position: number
+  zoteroKey?: string
+  // Papers directly in the collection, not counting subcollections
+  paperCount: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CollectionNode extends Collection {
+  children: CollectionNode[]
 }
 
 export interface UsageStats {
@@ -94,7 +251,7 @@ export interface UsageStats {
   lastUsed: Date
 }
 
-export type AIModel = 'openai' | 'anthropic' | 'xai' | 'gemini'
+export type AIModel = 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
 
 export enum ErrorType {
   AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
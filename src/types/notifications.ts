@@ -19,6 +19,8 @@ export type NotificationType =
   | 'system_update'
   | 'security_alert'
   | 'backup_complete'
+  | 'saved_search_match'
+  | 'ai_budget_warning'
 
 export interface NotificationSettings {
   id: string
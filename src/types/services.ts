@@ -1,7 +1,7 @@
 // Service interface definitions
 
 // AI Provider type (defined locally to avoid circular imports)
-export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini'
+export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
 
 // Forward declarations for types that will be imported from database
 export interface ModelPreference {
@@ -2,7 +2,7 @@
 import * as React from 'react'
 
 // AI Provider type (defined locally to avoid circular imports)
-export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini'
+export type AIProvider = 'openai' | 'anthropic' | 'xai' | 'gemini' | 'openai-compatible'
 
 // Service configuration types
 export interface AIServiceConfig {